@@ -0,0 +1,214 @@
+/**
+ * Filesystem Blob Store
+ *
+ * Stores blobs under a root directory for the Node server. Object data is
+ * kept in `objects/{key}` and its metadata (content type, custom metadata,
+ * etag, upload time) in `meta/{key}.json`, so keys map directly onto paths
+ * and listing never sees metadata files.
+ */
+
+import { createHash } from 'node:crypto';
+import { readFile, readdir, rm, rmdir } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import type {
+  BlobListOptions,
+  BlobListResult,
+  BlobObject,
+  BlobObjectBody,
+  BlobPutOptions,
+  BlobStore,
+} from '../types';
+import { TEMP_FILE_PATTERN, writeFileAtomic } from './fs-utils';
+
+/**
+ * Default page size for list(), matching R2
+ */
+const DEFAULT_LIST_LIMIT = 1000;
+
+/**
+ * Metadata file contents
+ */
+interface StoredBlobMetadata {
+  size: number;
+  uploaded: string;
+  etag: string;
+  httpMetadata?: { contentType?: string };
+  customMetadata?: Record<string, string>;
+}
+
+/**
+ * Blob store backed by a directory
+ */
+export class FileSystemBlobStore implements BlobStore {
+  private objectsDir: string;
+  private metaDir: string;
+
+  constructor(rootDir: string) {
+    this.objectsDir = join(rootDir, 'objects');
+    this.metaDir = join(rootDir, 'meta');
+  }
+
+  async put(key: string, value: ArrayBuffer, options?: BlobPutOptions): Promise<BlobObject> {
+    const objectPath = this.objectPath(key);
+    const data = new Uint8Array(value);
+    const metadata: StoredBlobMetadata = {
+      size: data.byteLength,
+      uploaded: new Date().toISOString(),
+      etag: createHash('md5').update(data).digest('hex'),
+      httpMetadata: options?.httpMetadata,
+      customMetadata: options?.customMetadata,
+    };
+
+    await writeFileAtomic(objectPath, data);
+    await writeFileAtomic(this.metaPath(key), JSON.stringify(metadata));
+
+    return toBlobObject(key, metadata);
+  }
+
+  async get(key: string): Promise<BlobObjectBody | null> {
+    const object = await this.head(key);
+    if (!object) {
+      return null;
+    }
+
+    const objectPath = this.objectPath(key);
+    return {
+      ...object,
+      async arrayBuffer() {
+        const data = await readFile(objectPath);
+        return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+      },
+    };
+  }
+
+  async head(key: string): Promise<BlobObject | null> {
+    const raw = await readIfExists(this.metaPath(key));
+    if (raw === null) {
+      return null;
+    }
+    return toBlobObject(key, JSON.parse(raw.toString('utf8')) as StoredBlobMetadata);
+  }
+
+  async delete(key: string): Promise<void> {
+    const objectPath = this.objectPath(key);
+    const metaPath = this.metaPath(key);
+    await rm(objectPath, { force: true });
+    await rm(metaPath, { force: true });
+
+    // Session directories would otherwise pile up after cleanup
+    await removeEmptyParents(objectPath, this.objectsDir);
+    await removeEmptyParents(metaPath, this.metaDir);
+  }
+
+  async list(options?: BlobListOptions): Promise<BlobListResult> {
+    const prefix = options?.prefix ?? '';
+    const limit = options?.limit ?? DEFAULT_LIST_LIMIT;
+
+    // Keys are returned in order; the cursor is the last key of the previous page
+    const keys = (await listKeys(this.objectsDir))
+      .filter((key) => key.startsWith(prefix) && (!options?.cursor || key > options.cursor))
+      .sort();
+
+    const page = keys.slice(0, limit);
+    const objects: BlobObject[] = [];
+    for (const key of page) {
+      const object = await this.head(key);
+      if (object) {
+        objects.push(object);
+      }
+    }
+
+    const truncated = keys.length > page.length;
+    return truncated
+      ? { objects, truncated, cursor: page[page.length - 1] }
+      : { objects, truncated };
+  }
+
+  private objectPath(key: string): string {
+    return join(this.objectsDir, ...keySegments(key));
+  }
+
+  private metaPath(key: string): string {
+    return `${join(this.metaDir, ...keySegments(key))}.json`;
+  }
+}
+
+/**
+ * Split a key into path segments, rejecting keys that could escape the root
+ */
+function keySegments(key: string): string[] {
+  const segments = key.split('/');
+  const invalid =
+    key.length === 0 ||
+    key.includes('\\') ||
+    key.includes('\0') ||
+    segments.some((segment) => segment === '' || segment === '.' || segment === '..');
+
+  if (invalid) {
+    throw new Error(`Invalid blob key: ${key}`);
+  }
+  return segments;
+}
+
+function toBlobObject(key: string, metadata: StoredBlobMetadata): BlobObject {
+  return {
+    key,
+    size: metadata.size,
+    uploaded: new Date(metadata.uploaded),
+    etag: metadata.etag,
+    httpMetadata: metadata.httpMetadata,
+    customMetadata: metadata.customMetadata,
+  };
+}
+
+async function readIfExists(path: string): Promise<Buffer | null> {
+  try {
+    return await readFile(path);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Remove the directories above a deleted file until one is not empty
+ */
+async function removeEmptyParents(path: string, rootDir: string): Promise<void> {
+  let dir = dirname(path);
+  while (dir.startsWith(rootDir) && dir !== rootDir) {
+    try {
+      await rmdir(dir);
+    } catch {
+      return;
+    }
+    dir = dirname(dir);
+  }
+}
+
+/**
+ * Recursively list the keys below a directory
+ */
+async function listKeys(dir: string, base = ''): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const keys: string[] = [];
+  for (const entry of entries) {
+    const key = base ? `${base}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      keys.push(...(await listKeys(join(dir, entry.name), key)));
+    } else if (!TEMP_FILE_PATTERN.test(entry.name)) {
+      keys.push(key);
+    }
+  }
+  return keys;
+}
@@ -0,0 +1,26 @@
+/**
+ * Filesystem helpers shared by the Node storage adapters
+ */
+
+import { mkdir, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+/**
+ * Suffix pattern of temporary files left by an interrupted write
+ */
+export const TEMP_FILE_PATTERN = /\.\d+\.\d+\.tmp$/;
+
+let tempCounter = 0;
+
+/**
+ * Write a file through a temporary file so readers never see partial contents
+ *
+ * @param path - Destination path; parent directories are created
+ * @param data - File contents
+ */
+export async function writeFileAtomic(path: string, data: Uint8Array | string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tempPath = `${path}.${process.pid}.${++tempCounter}.tmp`;
+  await writeFile(tempPath, data);
+  await rename(tempPath, path);
+}
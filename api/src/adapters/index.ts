@@ -0,0 +1,23 @@
+/**
+ * Node Adapters Index
+ *
+ * Storage and HTTP adapters for running the API on Node instead of
+ * Cloudflare Workers
+ */
+
+export { FileSystemBlobStore } from './fs-blob-store';
+export { JsonKeyValueStore } from './json-kv-store';
+export {
+  createRequestListener,
+  toFetchRequest,
+  sendFetchResponse,
+  RequestBodyTooLargeError,
+  type FetchHandler,
+  type NodeRequestOptions,
+} from './node-http';
+export {
+  createNodeServerConfig,
+  NODE_ENV_DEFAULTS,
+  DEFAULT_CLEANUP_INTERVAL_MINUTES,
+  type NodeServerConfig,
+} from './node-env';
@@ -0,0 +1,183 @@
+/**
+ * JSON File Key-Value Store
+ *
+ * Session store for the Node server. Entries are held in memory and written
+ * to a single JSON file after every change, so sessions, batches and
+ * annotations survive restarts. Expiry follows KV semantics: expired entries
+ * are never returned and are dropped on the next write.
+ *
+ * Without a file path the store is memory only, which suits caches.
+ */
+
+import { readFileSync } from 'node:fs';
+import type {
+  KeyValueListOptions,
+  KeyValueListResult,
+  KeyValuePutOptions,
+  KeyValueStore,
+} from '../types';
+import { writeFileAtomic } from './fs-utils';
+
+/**
+ * Default page size for list(), matching KV
+ */
+const DEFAULT_LIST_LIMIT = 1000;
+
+/**
+ * Stored entry; expiration is in seconds since the epoch
+ */
+interface StoredEntry {
+  value: string;
+  expiration?: number;
+}
+
+/**
+ * File contents
+ */
+interface StoreFile {
+  version: 1;
+  entries: Record<string, StoredEntry>;
+}
+
+/**
+ * Key-value store persisted to a JSON file
+ */
+export class JsonKeyValueStore implements KeyValueStore {
+  private entries = new Map<string, StoredEntry>();
+  private dirty = false;
+  private flushing: Promise<void> | null = null;
+
+  /**
+   * @param filePath - JSON file to load and persist to; omit for a memory-only store
+   * @throws {Error} If the file exists but is not a store file
+   */
+  constructor(private filePath?: string) {
+    if (filePath) {
+      this.load(filePath);
+    }
+  }
+
+  get(key: string, type?: 'text'): Promise<string | null>;
+  get<T = unknown>(key: string, type: 'json'): Promise<T | null>;
+  async get(key: string, type: 'text' | 'json' = 'text'): Promise<unknown> {
+    const entry = this.entries.get(key);
+    if (!entry || isExpired(entry)) {
+      return null;
+    }
+    return type === 'json' ? JSON.parse(entry.value) : entry.value;
+  }
+
+  async put(key: string, value: string, options?: KeyValuePutOptions): Promise<void> {
+    const expiration = options?.expirationTtl
+      ? nowSeconds() + options.expirationTtl
+      : options?.expiration;
+
+    this.entries.set(key, expiration === undefined ? { value } : { value, expiration });
+    await this.persist();
+  }
+
+  async delete(key: string): Promise<void> {
+    if (this.entries.delete(key)) {
+      await this.persist();
+    }
+  }
+
+  async list(options?: KeyValueListOptions): Promise<KeyValueListResult> {
+    const prefix = options?.prefix ?? '';
+    const limit = options?.limit ?? DEFAULT_LIST_LIMIT;
+
+    // Keys are returned in order; the cursor is the last key of the previous page
+    const names = [...this.entries.entries()]
+      .filter(([name, entry]) => name.startsWith(prefix) && !isExpired(entry))
+      .map(([name]) => name)
+      .filter((name) => !options?.cursor || name > options.cursor)
+      .sort();
+
+    const page = names.slice(0, limit);
+    const keys = page.map((name) => {
+      const expiration = this.entries.get(name)?.expiration;
+      return expiration === undefined ? { name } : { name, expiration };
+    });
+
+    return names.length > page.length
+      ? { keys, list_complete: false, cursor: page[page.length - 1] }
+      : { keys, list_complete: true };
+  }
+
+  /**
+   * Wait for pending writes to reach the file
+   */
+  async flush(): Promise<void> {
+    await this.flushing;
+  }
+
+  private load(filePath: string): void {
+    let raw: string;
+    try {
+      raw = readFileSync(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(raw) as Partial<StoreFile>;
+    if (parsed.version !== 1 || typeof parsed.entries !== 'object' || parsed.entries === null) {
+      throw new Error(`Not a key-value store file: ${filePath}`);
+    }
+
+    for (const [key, entry] of Object.entries(parsed.entries)) {
+      if (!isExpired(entry)) {
+        this.entries.set(key, entry);
+      }
+    }
+  }
+
+  /**
+   * Write the current entries, coalescing changes made while a write is running
+   */
+  private persist(): Promise<void> {
+    if (!this.filePath) {
+      return Promise.resolve();
+    }
+
+    this.dirty = true;
+    if (!this.flushing) {
+      this.flushing = this.writeFile(this.filePath);
+    }
+    return this.flushing;
+  }
+
+  private async writeFile(filePath: string): Promise<void> {
+    try {
+      while (this.dirty) {
+        this.dirty = false;
+
+        const entries: Record<string, StoredEntry> = {};
+        for (const [key, entry] of this.entries) {
+          if (isExpired(entry)) {
+            this.entries.delete(key);
+          } else {
+            entries[key] = entry;
+          }
+        }
+
+        const file: StoreFile = { version: 1, entries };
+        await writeFileAtomic(filePath, JSON.stringify(file));
+      }
+    } finally {
+      // Cleared in the same step as the last dirty check, so a change made
+      // after it starts a new write instead of joining this finished one
+      this.flushing = null;
+    }
+  }
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function isExpired(entry: StoredEntry): boolean {
+  return entry.expiration !== undefined && entry.expiration <= nowSeconds();
+}
@@ -0,0 +1,104 @@
+/**
+ * Node Environment
+ *
+ * Builds the Worker environment for the Node server: configuration comes
+ * from process environment variables, and the R2/KV bindings are replaced
+ * by filesystem-backed stores under a data directory.
+ */
+
+import { join, resolve } from 'node:path';
+import type { Env } from '../types';
+import { FileSystemBlobStore } from './fs-blob-store';
+import { JsonKeyValueStore } from './json-kv-store';
+
+/**
+ * Defaults for variables that wrangler.toml sets on Cloudflare
+ */
+export const NODE_ENV_DEFAULTS = {
+  SESSION_TTL: '1800',
+  MAX_FILE_SIZE: '157286400',
+  RATE_LIMIT_DOWNLOAD: '10',
+  API_VERSION: '1.0.0',
+  ENVIRONMENT: 'production',
+} as const;
+
+/**
+ * Default cleanup interval, matching the Worker cron trigger (every 6 hours)
+ */
+export const DEFAULT_CLEANUP_INTERVAL_MINUTES = 360;
+
+/**
+ * Node server settings and the environment passed to the app
+ */
+export interface NodeServerConfig {
+  port: number;
+  host: string;
+  /** Directory holding blobs/ and sessions.json */
+  dataDir: string;
+  /** Minutes between expired-session cleanups; 0 disables the scheduler */
+  cleanupIntervalMinutes: number;
+  /** Take client IPs from X-Forwarded-For / X-Real-IP set by a reverse proxy */
+  trustProxy: boolean;
+  env: Env;
+  /** Persistent session store, flushed on shutdown */
+  sessions: JsonKeyValueStore;
+}
+
+/**
+ * Create the server configuration from environment variables
+ *
+ * Reads PORT (8787), HOST (0.0.0.0), DATA_DIR (./data),
+ * CLEANUP_INTERVAL_MINUTES (360) and TRUST_PROXY (false). All other
+ * variables are passed to the app as they would be on Cloudflare.
+ *
+ * @param vars - Environment variables (usually process.env)
+ * @returns Server configuration
+ * @throws {Error} If a numeric setting is invalid
+ */
+export function createNodeServerConfig(vars: Record<string, string | undefined>): NodeServerConfig {
+  const port = parseNumber(vars.PORT, 8787, 'PORT');
+  const cleanupIntervalMinutes = parseNumber(
+    vars.CLEANUP_INTERVAL_MINUTES,
+    DEFAULT_CLEANUP_INTERVAL_MINUTES,
+    'CLEANUP_INTERVAL_MINUTES'
+  );
+  const dataDir = resolve(vars.DATA_DIR || 'data');
+
+  const passedVars: Record<string, string> = {};
+  for (const [name, value] of Object.entries(vars)) {
+    if (value !== undefined) {
+      passedVars[name] = value;
+    }
+  }
+
+  const sessions = new JsonKeyValueStore(join(dataDir, 'sessions.json'));
+  const env: Env = {
+    ...NODE_ENV_DEFAULTS,
+    ...passedVars,
+    SESSIONS: sessions,
+    CACHE: new JsonKeyValueStore(),
+    CRX_STORAGE: new FileSystemBlobStore(join(dataDir, 'blobs')),
+  };
+
+  return {
+    port,
+    host: vars.HOST || '0.0.0.0',
+    dataDir,
+    cleanupIntervalMinutes,
+    trustProxy: vars.TRUST_PROXY === 'true',
+    env,
+    sessions,
+  };
+}
+
+function parseNumber(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
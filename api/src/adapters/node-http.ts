@@ -0,0 +1,186 @@
+/**
+ * Node HTTP Bridge
+ *
+ * Converts node:http requests into fetch API Requests and writes fetch
+ * Responses back, so the Worker fetch handler can serve a Node server
+ * without a framework adapter.
+ */
+
+import { once } from 'node:events';
+import type { IncomingMessage, RequestListener, ServerResponse } from 'node:http';
+import { getLogger } from '../utils/logger';
+
+const logger = getLogger({ service: 'node-http' });
+
+/**
+ * Fetch-style request handler
+ */
+export type FetchHandler = (request: Request) => Promise<Response>;
+
+/**
+ * Request conversion options
+ */
+export interface NodeRequestOptions {
+  /**
+   * Keep client-supplied forwarding headers (X-Forwarded-For, X-Real-IP)
+   * because a trusted reverse proxy sets them. Otherwise the socket address
+   * is passed as CF-Connecting-IP, as Cloudflare does.
+   */
+  trustProxy?: boolean;
+  /**
+   * Largest request body accepted, in bytes. Bodies over it are refused
+   * with 413 before they are buffered.
+   */
+  maxBodySize?: number;
+}
+
+/**
+ * Request body larger than NodeRequestOptions.maxBodySize
+ */
+export class RequestBodyTooLargeError extends Error {
+  constructor(public maxBodySize: number) {
+    super(`Request body exceeds maximum allowed (${maxBodySize} bytes)`);
+    this.name = 'RequestBodyTooLargeError';
+  }
+}
+
+/**
+ * Create a node:http request listener that serves a fetch handler
+ *
+ * @param handler - Handler called with each request
+ * @param options - Request conversion options
+ * @returns Listener for http.createServer()
+ */
+export function createRequestListener(
+  handler: FetchHandler,
+  options: NodeRequestOptions = {}
+): RequestListener {
+  return (req, res) => {
+    handle(handler, req, res, options).catch((error) => {
+      if (error instanceof RequestBodyTooLargeError && !res.headersSent) {
+        logger.warn('Refused oversized request body', {
+          method: req.method,
+          url: req.url,
+          maxBodySize: error.maxBodySize,
+        });
+        // Close the connection rather than reading the rest of the body
+        res.writeHead(413, { 'Content-Type': 'application/json', Connection: 'close' });
+        res.end(
+          JSON.stringify({
+            success: false,
+            error: { code: 'PAYLOAD_TOO_LARGE', message: error.message },
+          }),
+          () => req.destroy()
+        );
+        return;
+      }
+
+      logger.error('Failed to serve request', error, { method: req.method, url: req.url });
+      if (!res.headersSent) {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            success: false,
+            error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' },
+          })
+        );
+      } else {
+        res.destroy();
+      }
+    });
+  };
+}
+
+/**
+ * Convert an incoming node:http request to a fetch Request
+ *
+ * The body is buffered, so it is checked against options.maxBodySize
+ * both from Content-Length and while reading.
+ *
+ * @param req - Incoming request
+ * @param options - Request conversion options
+ * @returns Equivalent fetch Request
+ * @throws {RequestBodyTooLargeError} If the body exceeds options.maxBodySize
+ */
+export async function toFetchRequest(
+  req: IncomingMessage,
+  options: NodeRequestOptions = {}
+): Promise<Request> {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+  const headers = new Headers();
+  for (let i = 0; i < req.rawHeaders.length; i += 2) {
+    headers.append(req.rawHeaders[i], req.rawHeaders[i + 1]);
+  }
+
+  // Rate limiting keys on the client IP, preferring CF-Connecting-IP
+  headers.delete('cf-connecting-ip');
+  if (!options.trustProxy && req.socket.remoteAddress) {
+    headers.set('cf-connecting-ip', req.socket.remoteAddress);
+  }
+
+  const method = req.method ?? 'GET';
+  let body: Buffer | undefined;
+  if (method !== 'GET' && method !== 'HEAD') {
+    const { maxBodySize } = options;
+    if (maxBodySize !== undefined && Number(req.headers['content-length']) > maxBodySize) {
+      throw new RequestBodyTooLargeError(maxBodySize);
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    // Stopping early must leave the socket open for the 413 response
+    for await (const chunk of req.iterator({ destroyOnReturn: false })) {
+      size += (chunk as Buffer).length;
+      if (maxBodySize !== undefined && size > maxBodySize) {
+        throw new RequestBodyTooLargeError(maxBodySize);
+      }
+      chunks.push(chunk as Buffer);
+    }
+    body = Buffer.concat(chunks);
+  }
+
+  return new Request(url, { method, headers, body });
+}
+
+/**
+ * Write a fetch Response to a node:http response, streaming the body
+ *
+ * @param response - Response from the fetch handler
+ * @param res - Outgoing node:http response
+ */
+export async function sendFetchResponse(response: Response, res: ServerResponse): Promise<void> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    headers[name] = value;
+  });
+
+  res.writeHead(response.status, response.statusText, headers);
+
+  if (!response.body) {
+    res.end();
+    return;
+  }
+
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    if (!res.write(value)) {
+      await once(res, 'drain');
+    }
+  }
+  res.end();
+}
+
+async function handle(
+  handler: FetchHandler,
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: NodeRequestOptions
+): Promise<void> {
+  const response = await handler(await toFetchRequest(req, options));
+  await sendFetchResponse(response, res);
+}
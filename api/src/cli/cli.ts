@@ -0,0 +1,189 @@
+/**
+ * crxreview command-line interface
+ *
+ * Parses arguments, dispatches to a subcommand and maps errors to exit
+ * codes. Kept free of process globals so tests can run it in-process.
+ */
+
+import { parseArgs, type ParseArgsConfig } from 'node:util';
+import type { ExtensionStore } from '../lib/crx';
+import type { RiskLevel } from '../lib/analysis';
+import { CliError, EXIT_ERROR, EXIT_OK, errorMessage } from './errors';
+import {
+  catCommand,
+  fetchCommand,
+  grepCommand,
+  infoCommand,
+  lsCommand,
+  unpackCommand,
+  type CliIO,
+} from './commands';
+
+const USAGE = `Usage: crxreview <command> [options]
+
+Commands:
+  info <package>             Header version, extension ID, signature and manifest summary
+  ls <package>               List the files in a package
+  cat <package> <path>       Print a file from a package
+  grep <package> <pattern>   Search file contents
+  unpack <package> <dir>     Extract a package to a directory
+  fetch <id>                 Download a package from its store
+
+Options:
+  --json                     Print JSON instead of text
+  -h, --help                 Show this help
+
+info:
+  --fail-on <level>          Exit 2 if the risk level is at or above <level> (low, medium, high)
+  --require-signed           Exit 2 unless the CRX signature is valid
+
+grep:
+  --case-sensitive           Match case
+  --whole-word               Match whole words only
+  --regex                    Treat the pattern as a regular expression
+  --context <n>              Lines of context around matches (default 0)
+  --fail-on-match            Exit 2 if the pattern matches
+
+fetch:
+  --store <store>            chrome, edge or firefox (default chrome)
+  --os <os>                  Platform sent to the Chrome update server (default linux)
+  --arch <arch>              Architecture sent to the Chrome update server (default x86-64)
+  -o, --output <file>        Output file (default <id>.crx or <id>.xpi)
+
+Exit codes: 0 success, 1 error, 2 policy failure
+`;
+
+const OPTIONS = {
+  json: { type: 'boolean', default: false },
+  help: { type: 'boolean', short: 'h', default: false },
+  'fail-on': { type: 'string' },
+  'require-signed': { type: 'boolean', default: false },
+  'case-sensitive': { type: 'boolean', default: false },
+  'whole-word': { type: 'boolean', default: false },
+  regex: { type: 'boolean', default: false },
+  context: { type: 'string', default: '0' },
+  'fail-on-match': { type: 'boolean', default: false },
+  store: { type: 'string', default: 'chrome' },
+  os: { type: 'string', default: 'linux' },
+  arch: { type: 'string', default: 'x86-64' },
+  output: { type: 'string', short: 'o' },
+} satisfies ParseArgsConfig['options'];
+
+const RISK_LEVELS: readonly RiskLevel[] = ['low', 'medium', 'high'];
+const STORES: readonly ExtensionStore[] = ['chrome', 'edge', 'firefox'];
+
+/**
+ * Default IO: process streams and the global fetch
+ */
+export const processIO: CliIO = {
+  stdout: (output) => {
+    process.stdout.write(output);
+  },
+  stderr: (output) => {
+    process.stderr.write(output);
+  },
+  fetch: (input, init) => fetch(input, init),
+};
+
+/**
+ * Run the CLI
+ *
+ * @param argv - Arguments after the executable and script name
+ * @param io - Output streams and fetch implementation
+ * @returns Process exit code
+ */
+export async function runCli(argv: string[], io: CliIO = processIO): Promise<number> {
+  try {
+    return await dispatch(argv, io);
+  } catch (error) {
+    if (error instanceof CliError) {
+      io.stderr(`crxreview: ${error.message}\n`);
+    } else {
+      io.stderr(`crxreview: unexpected error: ${errorMessage(error)}\n`);
+    }
+    return EXIT_ERROR;
+  }
+}
+
+async function dispatch(argv: string[], io: CliIO): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+  } catch (error) {
+    throw new CliError(`${errorMessage(error)}\nRun crxreview --help for usage.`, 'INVALID_ARGUMENTS');
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...args] = positionals;
+
+  if (values.help || !command) {
+    io.stdout(USAGE);
+    return values.help ? EXIT_OK : EXIT_ERROR;
+  }
+
+  const json = values.json;
+  switch (command) {
+    case 'info': {
+      const [packagePath] = expectArgs(command, args, ['package']);
+      return infoCommand(io, packagePath, {
+        json,
+        failOn: values['fail-on'] === undefined ? undefined : oneOf('--fail-on', values['fail-on'], RISK_LEVELS),
+        requireSigned: values['require-signed'],
+      });
+    }
+    case 'ls': {
+      const [packagePath] = expectArgs(command, args, ['package']);
+      return lsCommand(io, packagePath, { json });
+    }
+    case 'cat': {
+      const [packagePath, filePath] = expectArgs(command, args, ['package', 'path']);
+      return catCommand(io, packagePath, filePath, { json });
+    }
+    case 'grep': {
+      const [packagePath, pattern] = expectArgs(command, args, ['package', 'pattern']);
+      const contextLines = Number(values.context);
+      if (!Number.isInteger(contextLines) || contextLines < 0) {
+        throw new CliError(`--context must be a non-negative integer, got ${values.context}`, 'INVALID_ARGUMENTS');
+      }
+      return grepCommand(io, packagePath, pattern, {
+        json,
+        caseSensitive: values['case-sensitive'],
+        wholeWord: values['whole-word'],
+        useRegex: values.regex,
+        contextLines,
+        failOnMatch: values['fail-on-match'],
+      });
+    }
+    case 'unpack': {
+      const [packagePath, outputDir] = expectArgs(command, args, ['package', 'dir']);
+      return unpackCommand(io, packagePath, outputDir, { json });
+    }
+    case 'fetch': {
+      const [extensionId] = expectArgs(command, args, ['id']);
+      return fetchCommand(io, extensionId, {
+        json,
+        store: oneOf('--store', values.store, STORES),
+        os: values.os,
+        arch: values.arch,
+        output: values.output,
+      });
+    }
+    default:
+      throw new CliError(`Unknown command: ${command}\nRun crxreview --help for usage.`, 'INVALID_ARGUMENTS');
+  }
+}
+
+function expectArgs(command: string, args: string[], names: string[]): string[] {
+  if (args.length !== names.length) {
+    const usage = names.map((name) => `<${name}>`).join(' ');
+    throw new CliError(`Usage: crxreview ${command} ${usage}`, 'INVALID_ARGUMENTS');
+  }
+  return args;
+}
+
+function oneOf<T extends string>(option: string, value: string, allowed: readonly T[]): T {
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new CliError(`${option} must be one of ${allowed.join(', ')}, got ${value}`, 'INVALID_ARGUMENTS');
+  }
+  return value as T;
+}
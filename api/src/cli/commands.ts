@@ -0,0 +1,393 @@
+/**
+ * CLI subcommands
+ *
+ * Each command writes human-readable text, or a single JSON document with
+ * --json, and returns the process exit code.
+ */
+
+import { isUtf8 } from 'node:buffer';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve, sep } from 'node:path';
+import {
+  buildCrxDownloadUrl,
+  buildEdgeCrxDownloadUrl,
+  buildXpiDownloadUrl,
+  detectPackageFormat,
+  extractDownloadUrl,
+  type ExtensionStore,
+} from '../lib/crx';
+import { buildFileTree, loadZipFile, loadZipFiles, type FileTreeNode } from '../lib/zip';
+import {
+  createSearchPattern,
+  getSearchStatistics,
+  searchContent,
+  validateSearchPattern,
+  type FileSearchResult,
+  type SearchOptions,
+} from '../lib/search';
+import type { RiskLevel } from '../lib/analysis';
+import { CliError, EXIT_OK, EXIT_POLICY_FAILURE, errorMessage } from './errors';
+import { inspectPackage, loadPackage, type PackageInfo } from './package';
+
+/**
+ * Output streams and network access, injectable for tests
+ */
+export interface CliIO {
+  stdout(output: string | Uint8Array): void;
+  stderr(output: string): void;
+  fetch: typeof fetch;
+}
+
+/**
+ * Options shared by every command
+ */
+export interface CommonOptions {
+  json: boolean;
+}
+
+const RISK_ORDER: RiskLevel[] = ['low', 'medium', 'high'];
+
+// Files with a NUL byte near the start are treated as binary and not searched
+const BINARY_SNIFF_BYTES = 8000;
+
+/**
+ * `info <package>`: identity, signature status, manifest summary and risk level
+ *
+ * Policy checks: --fail-on fails when the risk level reaches the given
+ * level; --require-signed fails unless the publisher key signed the
+ * CRX and every other key proof verifies too.
+ */
+export async function infoCommand(
+  io: CliIO,
+  packagePath: string,
+  options: CommonOptions & { failOn?: RiskLevel; requireSigned: boolean }
+): Promise<number> {
+  const info = await inspectPackage(await loadPackage(packagePath));
+
+  const failures: string[] = [];
+  if (options.failOn && RISK_ORDER.indexOf(info.riskLevel) >= RISK_ORDER.indexOf(options.failOn)) {
+    failures.push(`risk level ${info.riskLevel} reaches --fail-on ${options.failOn}`);
+  }
+  if (options.requireSigned && info.signature.status !== 'valid') {
+    failures.push(`signature is ${info.signature.status}`);
+  }
+
+  if (options.json) {
+    writeJson(io, { ...info, policy: { passed: failures.length === 0, failures } });
+  } else {
+    io.stdout(formatInfo(info));
+    for (const failure of failures) {
+      io.stderr(`Policy failure: ${failure}\n`);
+    }
+  }
+
+  return failures.length > 0 ? EXIT_POLICY_FAILURE : EXIT_OK;
+}
+
+/**
+ * `ls <package>`: the file tree built by buildFileTree
+ */
+export async function lsCommand(io: CliIO, packagePath: string, options: CommonOptions): Promise<number> {
+  const pkg = await loadPackage(packagePath);
+  const tree = buildFileTree(pkg.entries);
+
+  if (options.json) {
+    writeJson(io, tree);
+  } else {
+    io.stdout(formatTree(tree));
+  }
+  return EXIT_OK;
+}
+
+/**
+ * `cat <package> <path>`: raw file contents, or UTF-8/base64 content with --json
+ */
+export async function catCommand(
+  io: CliIO,
+  packagePath: string,
+  filePath: string,
+  options: CommonOptions
+): Promise<number> {
+  const pkg = await loadPackage(packagePath);
+  const result = await loadZipFile(pkg.parsed.zipData, filePath.replace(/^\/+/, ''));
+  const data = result.success ? result.files[0]?.data : undefined;
+  if (!data) {
+    throw new CliError(`File not found in package: ${filePath}`, 'NOT_FOUND');
+  }
+
+  if (options.json) {
+    const text = decodeUtf8(data);
+    writeJson(io, {
+      path: filePath,
+      size: data.byteLength,
+      encoding: text === null ? 'base64' : 'utf-8',
+      content: text ?? Buffer.from(data).toString('base64'),
+    });
+  } else {
+    io.stdout(data);
+  }
+  return EXIT_OK;
+}
+
+/**
+ * `grep <package> <pattern>`: content search with the API's search options
+ *
+ * With --fail-on-match any match is a policy failure, for patterns that
+ * must not appear in a package.
+ */
+export async function grepCommand(
+  io: CliIO,
+  packagePath: string,
+  query: string,
+  options: CommonOptions & Required<SearchOptions> & { failOnMatch: boolean }
+): Promise<number> {
+  if (options.useRegex) {
+    const invalid = validateSearchPattern(query);
+    if (invalid) {
+      throw new CliError(`Invalid pattern: ${invalid}`, 'INVALID_PATTERN');
+    }
+  }
+
+  const pattern = createSearchPattern(query, options.caseSensitive, options.wholeWord, options.useRegex);
+  if (!pattern) {
+    throw new CliError(`Invalid pattern: ${query}`, 'INVALID_PATTERN');
+  }
+
+  const pkg = await loadPackage(packagePath);
+  const loaded = await loadZipFiles(pkg.parsed.zipData, () => true);
+  if (!loaded.success) {
+    throw new CliError(loaded.error, 'EXTRACTION_FAILED');
+  }
+
+  const results: FileSearchResult[] = [];
+  for (const file of loaded.files.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (!file.data || isBinary(file.data)) {
+      continue;
+    }
+    const matches = searchContent(new TextDecoder().decode(file.data), pattern, options);
+    if (matches.length > 0) {
+      results.push({
+        filePath: file.name,
+        fileId: file.name,
+        matchCount: matches.length,
+        matches: matches.map((match) => ({ ...match, fileId: file.name, filePath: file.name })),
+      });
+    }
+  }
+
+  const statistics = getSearchStatistics(results);
+  if (options.json) {
+    writeJson(io, { query, options: toSearchOptions(options), ...statistics, results });
+  } else {
+    io.stdout(formatMatches(results, options.contextLines));
+  }
+
+  if (options.failOnMatch && statistics.totalMatches > 0) {
+    if (!options.json) {
+      io.stderr(`Policy failure: ${statistics.totalMatches} match(es) in ${statistics.filesWithMatches} file(s)\n`);
+    }
+    return EXIT_POLICY_FAILURE;
+  }
+  return EXIT_OK;
+}
+
+/**
+ * `unpack <package> <dir>`: write every file of the package to a directory
+ */
+export async function unpackCommand(
+  io: CliIO,
+  packagePath: string,
+  outputDir: string,
+  options: CommonOptions
+): Promise<number> {
+  const pkg = await loadPackage(packagePath);
+  const loaded = await loadZipFiles(pkg.parsed.zipData, () => true);
+  if (!loaded.success) {
+    throw new CliError(loaded.error, 'EXTRACTION_FAILED');
+  }
+
+  const root = resolve(outputDir);
+  let bytes = 0;
+  for (const file of loaded.files) {
+    const target = resolve(root, file.name);
+    // Entries such as ../x or /etc/x must not escape the output directory
+    if (!target.startsWith(root + sep)) {
+      throw new CliError(`Refusing to write outside ${outputDir}: ${file.name}`, 'UNSAFE_PATH');
+    }
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, file.data ?? new Uint8Array());
+    bytes += file.data?.byteLength ?? 0;
+  }
+
+  if (options.json) {
+    writeJson(io, { directory: root, files: loaded.files.length, size: bytes });
+  } else {
+    io.stdout(`Unpacked ${loaded.files.length} files (${formatSize(bytes)}) to ${root}\n`);
+  }
+  return EXIT_OK;
+}
+
+/**
+ * `fetch <id>`: download a package from its store
+ *
+ * Chrome packages are requested from the update server URL built by
+ * buildCrxDownloadUrl; no CORS proxy is needed outside the browser.
+ */
+export async function fetchCommand(
+  io: CliIO,
+  extensionId: string,
+  options: CommonOptions & { store: ExtensionStore; os: string; arch: string; output?: string }
+): Promise<number> {
+  let url: string;
+  try {
+    url =
+      options.store === 'edge'
+        ? buildEdgeCrxDownloadUrl(extensionId)
+        : options.store === 'firefox'
+          ? buildXpiDownloadUrl(extensionId)
+          : buildCrxDownloadUrl(extensionId, options.os, options.arch);
+  } catch (error) {
+    throw new CliError(errorMessage(error), 'INVALID_ID');
+  }
+
+  let data = await download(io, url);
+  if (!detectPackageFormat(data)) {
+    // The update server may answer with XML pointing at the package
+    const codebase = extractDownloadUrl(new TextDecoder().decode(data));
+    if (!codebase || codebase === 'noupdate') {
+      throw new CliError(`No package available for ${extensionId} from the ${options.store} store`, 'NOT_AVAILABLE');
+    }
+    data = await download(io, codebase);
+  }
+
+  const format = detectPackageFormat(data);
+  if (!format) {
+    throw new CliError('Downloaded file is not a CRX or ZIP package', 'INVALID_PACKAGE');
+  }
+
+  const extension = options.store === 'firefox' ? 'xpi' : format === 'crx' ? 'crx' : 'zip';
+  const output = options.output ?? join('.', `${extensionId.replace(/[^A-Za-z0-9._-]/g, '_')}.${extension}`);
+  await writeFile(output, new Uint8Array(data));
+
+  if (options.json) {
+    writeJson(io, { extensionId, store: options.store, url, output, format, size: data.byteLength });
+  } else {
+    io.stdout(`Saved ${output} (${formatSize(data.byteLength)})\n`);
+  }
+  return EXIT_OK;
+}
+
+async function download(io: CliIO, url: string): Promise<ArrayBuffer> {
+  let response: Response;
+  try {
+    response = await io.fetch(url, { redirect: 'follow' });
+  } catch (error) {
+    throw new CliError(`Network error fetching ${url}: ${errorMessage(error)}`, 'NETWORK_ERROR');
+  }
+  if (!response.ok) {
+    throw new CliError(`Download failed with HTTP ${response.status}: ${url}`, 'DOWNLOAD_FAILED');
+  }
+  return response.arrayBuffer();
+}
+
+function writeJson(io: CliIO, value: unknown): void {
+  io.stdout(`${JSON.stringify(value, null, 2)}\n`);
+}
+
+function toSearchOptions(options: Required<SearchOptions>): Required<SearchOptions> {
+  const { caseSensitive, wholeWord, useRegex, contextLines } = options;
+  return { caseSensitive, wholeWord, useRegex, contextLines };
+}
+
+function formatInfo(info: PackageInfo): string {
+  const rows: Array<[string, string]> = [
+    ['File', `${info.file} (${formatSize(info.size)})`],
+    ['Format', info.crxVersion ? `CRX${info.crxVersion}` : 'ZIP'],
+    ['Extension ID', `${info.extensionId} (from ${info.extensionIdSource})`],
+    ['Signature', formatSignature(info)],
+    ['Name', info.manifest.name || '-'],
+    ['Version', info.manifest.version || '-'],
+    ['Manifest', `v${info.manifest.manifestVersion}`],
+    ['Permissions', info.manifest.permissions.join(', ') || '-'],
+    ['Host access', info.manifest.hostPermissions.join(', ') || '-'],
+    ['Content scripts', String(info.manifest.contentScripts)],
+    ['Background', info.manifest.background ?? '-'],
+    ['Files', String(info.fileCount)],
+    ['Risk level', `${info.riskLevel} (${info.issues.length} issues)`],
+  ];
+  if (info.keyMismatch) {
+    rows.splice(3, 0, ['Key mismatch', `manifest key is ${info.keyMismatch.manifestKeyId}`]);
+  }
+
+  const width = Math.max(...rows.map(([label]) => label.length)) + 2;
+  const lines = rows.map(([label, value]) => `${`${label}:`.padEnd(width)}${value}`);
+  for (const issue of info.issues) {
+    const location = issue.file ? ` (${issue.file}${issue.line ? `:${issue.line}` : ''})` : '';
+    lines.push(`  [${issue.severity}] ${issue.code}: ${issue.message}${location}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function formatSignature(info: PackageInfo): string {
+  const { signature } = info;
+  const signers = [
+    signature.publisherSigned ? 'publisher' : null,
+    signature.webStoreSigned ? 'Chrome Web Store' : null,
+  ].filter(Boolean);
+  return signers.length > 0 ? `${signature.status} (${signers.join(', ')})` : signature.status;
+}
+
+function formatTree(root: FileTreeNode): string {
+  const lines: string[] = [];
+  const walk = (node: FileTreeNode, prefix: string) => {
+    node.children.forEach((child, index) => {
+      const last = index === node.children.length - 1;
+      const label = child.isDirectory ? `${child.name}/` : `${child.name} (${formatSize(child.size)})`;
+      lines.push(`${prefix}${last ? '└── ' : '├── '}${label}`);
+      walk(child, `${prefix}${last ? '    ' : '│   '}`);
+    });
+  };
+  walk(root, '');
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+function formatMatches(results: FileSearchResult[], contextLines: number): string {
+  const lines: string[] = [];
+  for (const result of results) {
+    for (const match of result.matches) {
+      if (contextLines > 0 && lines.length > 0) {
+        lines.push('--');
+      }
+      match.contextBefore.forEach((line, index) => {
+        lines.push(`${result.filePath}-${match.lineNumber - match.contextBefore.length + index}-${line}`);
+      });
+      lines.push(`${result.filePath}:${match.lineNumber}:${match.columnNumber}:${match.lineContent}`);
+      match.contextAfter.forEach((line, index) => {
+        lines.push(`${result.filePath}-${match.lineNumber + index + 1}-${line}`);
+      });
+    }
+  }
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
+
+function isBinary(data: Uint8Array): boolean {
+  return data.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+function decodeUtf8(data: Uint8Array): string | null {
+  return isUtf8(data) ? new TextDecoder().decode(data) : null;
+}
@@ -0,0 +1,30 @@
+/**
+ * CLI errors and exit codes
+ */
+
+/**
+ * Process exit codes
+ *
+ * Policy failures get their own code so CI jobs can tell a failed check
+ * apart from a broken invocation.
+ */
+export const EXIT_OK = 0;
+export const EXIT_ERROR = 1;
+export const EXIT_POLICY_FAILURE = 2;
+
+/**
+ * Error reported to the user without a stack trace
+ */
+export class CliError extends Error {
+  constructor(message: string, public code: string, public details?: any) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+/**
+ * Message of an unknown thrown value
+ */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
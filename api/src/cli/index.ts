@@ -0,0 +1,14 @@
+// Must come first: sets the log level before service modules create their loggers
+import './logging';
+import { runCli } from './cli';
+
+/**
+ * crxreview - inspect browser extension packages from the command line
+ *
+ * Usage:
+ *   npm run build:cli && node dist/cli.cjs --help
+ */
+
+runCli(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,11 @@
+/**
+ * CLI logging setup
+ *
+ * Imported before anything else by the entry point: service loggers take
+ * their level from the global logger when their module loads, and info logs
+ * on stdout would corrupt --json and `cat` output.
+ */
+
+import { initializeLogger, LogLevel } from '../utils/logger';
+
+initializeLogger(LogLevel.ERROR, { service: 'cli' });
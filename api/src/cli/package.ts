@@ -0,0 +1,203 @@
+/**
+ * Package inspection for the CLI
+ *
+ * Loads a CRX, XPI or ZIP file the same way the API does (parseCRX), then
+ * summarizes its identity, signature, manifest and security analysis.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { extractManifest, parseCRX, type ParsedCRX } from '../services/crx.service';
+import { extractZipEntries, loadZipFiles, type ZipFileEntry } from '../lib/zip';
+import {
+  analyzeManifest,
+  calculateRiskLevel,
+  isScannableFile,
+  scanFiles,
+  isHostPattern,
+  type AnalysisIssue,
+  type RiskLevel,
+} from '../lib/analysis';
+import { toStringArray } from '../lib/analysis/permissions';
+import { CliError, errorMessage } from './errors';
+
+/**
+ * Loaded package
+ */
+export interface LoadedPackage {
+  fileName: string;
+  size: number;
+  parsed: ParsedCRX;
+  manifest: Record<string, any>;
+  entries: ZipFileEntry[];
+}
+
+/**
+ * Outcome of CRX signature verification
+ *
+ * - valid: at least one key proof, and every proof verifies
+ * - invalid: a key proof does not verify
+ * - unverified: the CRX header could not be verified
+ * - unsigned: ZIP and XPI packages carry no CRX signature
+ */
+export type SignatureStatus = 'valid' | 'invalid' | 'unverified' | 'unsigned';
+
+/**
+ * Package summary printed by `crxreview info`
+ */
+export interface PackageInfo {
+  file: string;
+  size: number;
+  format: ParsedCRX['format'];
+  crxVersion: number | null;
+  extensionId: string;
+  extensionIdSource: ParsedCRX['extensionIdSource'];
+  keyMismatch?: ParsedCRX['keyMismatch'];
+  signature: {
+    status: SignatureStatus;
+    publisherSigned: boolean;
+    webStoreSigned: boolean;
+    proofCount: number;
+  };
+  manifest: {
+    name: string;
+    version: string;
+    manifestVersion: number;
+    description?: string;
+    permissions: string[];
+    hostPermissions: string[];
+    contentScripts: number;
+    background?: string;
+  };
+  fileCount: number;
+  riskLevel: RiskLevel;
+  issues: AnalysisIssue[];
+}
+
+/**
+ * Read and parse a package file
+ *
+ * @param path - Path to a .crx, .xpi or .zip file
+ * @returns Parsed package with its manifest and ZIP entries
+ * @throws {CliError} If the file cannot be read or parsed
+ */
+export async function loadPackage(path: string): Promise<LoadedPackage> {
+  let data: ArrayBuffer;
+  try {
+    const buffer = await readFile(path);
+    data = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+  } catch (error) {
+    throw new CliError(`Cannot read ${path}: ${errorMessage(error)}`, 'READ_FAILED');
+  }
+
+  let parsed: ParsedCRX;
+  try {
+    parsed = await parseCRX(data);
+  } catch (error) {
+    throw new CliError(`Cannot parse ${path}: ${errorMessage(error)}`, 'PARSE_FAILED');
+  }
+
+  // parseCRX has already required a readable manifest
+  const manifest = (await extractManifest(parsed.zipData)) as Record<string, any>;
+
+  const entriesResult = await extractZipEntries(parsed.zipData);
+  if (!entriesResult.success) {
+    throw new CliError(entriesResult.error, 'PARSE_FAILED');
+  }
+
+  return {
+    fileName: basename(path),
+    size: data.byteLength,
+    parsed,
+    manifest,
+    entries: entriesResult.files,
+  };
+}
+
+/**
+ * Summarize a package and run the security analysis on it
+ *
+ * @param pkg - Loaded package
+ * @returns Package summary
+ */
+export async function inspectPackage(pkg: LoadedPackage): Promise<PackageInfo> {
+  const { parsed, manifest } = pkg;
+  const analysis = analyzeManifest(manifest);
+
+  const sources = await loadZipFiles(parsed.zipData, isScannableFile);
+  const decoder = new TextDecoder('utf-8');
+  const codeIssues = sources.success
+    ? scanFiles(
+        sources.files.map((file) => ({ path: file.name, content: file.data ? decoder.decode(file.data) : '' })),
+        manifest
+      )
+    : [];
+  const issues = [...analysis.issues, ...codeIssues];
+
+  const permissions = toStringArray(manifest.permissions);
+  const hostPermissions = [
+    ...toStringArray(manifest.host_permissions),
+    ...(analysis.manifestVersion === 2 ? permissions.filter(isHostPattern) : []),
+  ];
+
+  return {
+    file: pkg.fileName,
+    size: pkg.size,
+    format: parsed.format,
+    crxVersion: parsed.signature?.crxVersion ?? null,
+    extensionId: parsed.extensionId,
+    extensionIdSource: parsed.extensionIdSource,
+    keyMismatch: parsed.keyMismatch,
+    signature: {
+      status: getSignatureStatus(parsed),
+      publisherSigned: parsed.signature?.publisherSigned ?? false,
+      webStoreSigned: parsed.signature?.webStoreSigned ?? false,
+      proofCount: parsed.signature?.proofs.length ?? 0,
+    },
+    manifest: {
+      name: analysis.name,
+      version: analysis.version,
+      manifestVersion: analysis.manifestVersion,
+      description: typeof manifest.description === 'string' ? manifest.description : undefined,
+      permissions: permissions.filter((permission) => !isHostPattern(permission)),
+      hostPermissions,
+      contentScripts: Array.isArray(manifest.content_scripts) ? manifest.content_scripts.length : 0,
+      background: describeBackground(manifest.background),
+    },
+    fileCount: pkg.entries.filter((entry) => !entry.dir).length,
+    riskLevel: calculateRiskLevel(analysis.permissions, issues),
+    issues,
+  };
+}
+
+/**
+ * Decide the signature status of a parsed package
+ *
+ * A package is valid only when every key proof verifies and one of them is
+ * the publisher key, the key whose ID matches the declared extension ID.
+ */
+export function getSignatureStatus(parsed: ParsedCRX): SignatureStatus {
+  if (parsed.format === 'zip') {
+    return 'unsigned';
+  }
+  if (!parsed.signature) {
+    return 'unverified';
+  }
+  const { proofs, publisherSigned } = parsed.signature;
+  return publisherSigned && proofs.every((proof) => proof.valid) ? 'valid' : 'invalid';
+}
+
+function describeBackground(background: unknown): string | undefined {
+  if (!background || typeof background !== 'object') {
+    return undefined;
+  }
+  const value = background as Record<string, unknown>;
+  if (typeof value.service_worker === 'string') {
+    return `service worker ${value.service_worker}`;
+  }
+  if (typeof value.page === 'string') {
+    return `page ${value.page}`;
+  }
+  const scripts = toStringArray(value.scripts);
+  return scripts.length > 0 ? `scripts ${scripts.join(', ')}` : undefined;
+}
@@ -0,0 +1,68 @@
+/**
+ * Analysis Handler - GET /api/v1/extensions/:sessionId/analysis
+ *
+ * Runs the security analyzer over the extension and returns a CRXAnalysis report.
+ */
+
+import type { AppContext } from '../types';
+import { validateSessionId } from '../utils/validation';
+import {
+  successResponse,
+  notFoundResponse,
+  badRequestResponse,
+  internalErrorResponse,
+} from '../utils/response';
+import { getSession } from '../services/session.service';
+import { getFile, generateCRXKey } from '../services/storage.service';
+import { analyzeExtension } from '../services/analysis.service';
+import { log } from '../utils/logger';
+
+/**
+ * Get extension security analysis handler
+ */
+export async function analysisHandler(c: AppContext): Promise<Response> {
+  const startTime = Date.now();
+  const sessionId = c.req.param('sessionId');
+
+  try {
+    // Validate session ID format
+    if (!validateSessionId(sessionId)) {
+      return badRequestResponse(c, 'Invalid session ID format (must be a valid UUID)');
+    }
+
+    log.info('Analyzing extension', { sessionId });
+
+    // Check if session exists
+    const session = await getSession(c.env.SESSIONS, sessionId);
+    if (!session) {
+      return notFoundResponse(c, `Session ${sessionId} not found`);
+    }
+
+    // Get CRX file from R2
+    const crxKey = generateCRXKey(sessionId);
+    const crxData = await getFile(c.env.CRX_STORAGE, crxKey);
+
+    if (!crxData) {
+      return notFoundResponse(c, `CRX file not found for session ${sessionId}`);
+    }
+
+    const analysis = await analyzeExtension(crxData, session);
+
+    log.info('Extension analyzed', {
+      sessionId,
+      riskLevel: analysis.riskLevel,
+      issueCount: analysis.issues.length,
+      duration: Date.now() - startTime,
+    });
+
+    return successResponse(c, analysis);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    log.error('Failed to analyze extension', error, {
+      sessionId,
+      duration: Date.now() - startTime,
+    });
+
+    return internalErrorResponse(c, `Failed to analyze extension: ${errorMessage}`);
+  }
+}
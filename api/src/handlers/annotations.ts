@@ -0,0 +1,95 @@
+/**
+ * Annotation Handlers
+ *
+ * GET /api/v1/extensions/:sessionId/annotations - List review annotations
+ * POST /api/v1/extensions/:sessionId/annotations - Add or replace annotations
+ */
+
+import type { AppContext, AnnotationRequest } from '../types';
+import { annotationRequestSchema, safeParseSchema, validateSessionId } from '../utils/validation';
+import {
+  successResponse,
+  notFoundResponse,
+  badRequestResponse,
+  internalErrorResponse,
+  validationErrorResponse,
+} from '../utils/response';
+import { getSession } from '../services/session.service';
+import { AnnotationError, getAnnotations, saveAnnotations } from '../services/annotation.service';
+import { log } from '../utils/logger';
+
+/**
+ * List annotations handler
+ */
+export async function annotationsHandler(c: AppContext): Promise<Response> {
+  const sessionId = c.req.param('sessionId');
+
+  try {
+    if (!validateSessionId(sessionId)) {
+      return badRequestResponse(c, 'Invalid session ID format (must be a valid UUID)');
+    }
+
+    const session = await getSession(c.env.SESSIONS, sessionId);
+    if (!session) {
+      return notFoundResponse(c, `Session ${sessionId}`);
+    }
+
+    return successResponse(c, await getAnnotations(c.env.SESSIONS, session));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    log.error('Failed to get annotations', error, { sessionId });
+
+    return internalErrorResponse(c, `Failed to get annotations: ${errorMessage}`);
+  }
+}
+
+/**
+ * Save annotations handler
+ *
+ * Annotations with an `id` that is already stored replace it; all others are added.
+ */
+export async function saveAnnotationsHandler(c: AppContext): Promise<Response> {
+  const startTime = Date.now();
+  const sessionId = c.req.param('sessionId');
+
+  try {
+    if (!validateSessionId(sessionId)) {
+      return badRequestResponse(c, 'Invalid session ID format (must be a valid UUID)');
+    }
+
+    const body = await c.req.json<AnnotationRequest>();
+    const validation = safeParseSchema(annotationRequestSchema, body);
+
+    if (!validation.success) {
+      return validationErrorResponse(c, validation.errors);
+    }
+
+    const session = await getSession(c.env.SESSIONS, sessionId);
+    if (!session) {
+      return notFoundResponse(c, `Session ${sessionId}`);
+    }
+
+    const result = await saveAnnotations(c.env.SESSIONS, session, validation.data.annotations);
+
+    log.info('Annotations saved', {
+      sessionId,
+      received: validation.data.annotations.length,
+      total: result.count,
+      duration: Date.now() - startTime,
+    });
+
+    return successResponse(c, result);
+  } catch (error) {
+    if (error instanceof AnnotationError) {
+      return badRequestResponse(c, error.message, error.details);
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    log.error('Failed to save annotations', error, {
+      sessionId,
+      duration: Date.now() - startTime,
+    });
+
+    return internalErrorResponse(c, `Failed to save annotations: ${errorMessage}`);
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Batch Handlers
+ *
+ * POST /api/v1/batches - Start a batch job for many extension IDs, store URLs or uploaded files
+ * GET /api/v1/batches/:batchId - Get batch progress and per-item results
+ *
+ * Batch items are processed in the background after the job is created;
+ * clients poll the status endpoint until `status` is `completed`.
+ */
+
+import type { AppContext, BatchRequest } from '../types';
+import { batchRequestSchema, safeParseSchema, validateBatchId } from '../utils/validation';
+import {
+  successResponse,
+  notFoundResponse,
+  badRequestResponse,
+  internalErrorResponse,
+  validationErrorResponse,
+} from '../utils/response';
+import {
+  createBatch,
+  getBatchStatus,
+  processBatch,
+  isBatchStalled,
+  claimBatchResume,
+  getMaxBatchItems,
+  type BatchUpload,
+} from '../services/batch.service';
+import { getMaxFileSize } from '../services/ingest.service';
+import { log } from '../utils/logger';
+
+/**
+ * Create batch job handler
+ *
+ * Accepts JSON `{ "inputs": [...] }` or multipart/form-data with repeated
+ * `inputs` fields and `files` file fields.
+ */
+export async function createBatchHandler(c: AppContext): Promise<Response> {
+  const startTime = Date.now();
+  const requestId = c.get('requestId') || crypto.randomUUID();
+
+  try {
+    let inputs: string[];
+    let uploads: BatchUpload[] = [];
+
+    const contentType = c.req.header('content-type') || '';
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await c.req.formData();
+      const maxFileSize = getMaxFileSize(c.env);
+
+      inputs = formData
+        .getAll('inputs')
+        .filter((value): value is string => typeof value === 'string')
+        .map((value) => value.trim())
+        .filter((value) => value.length > 0);
+
+      // Workers typings declare form values as strings; file fields are File objects at runtime
+      const files = (formData.getAll('files') as unknown[]).filter((value): value is File => value instanceof File);
+      const oversized = files.find((file) => file.size > maxFileSize);
+      if (oversized) {
+        return badRequestResponse(c, `File ${oversized.name} exceeds maximum allowed size (${maxFileSize} bytes)`, {
+          fileName: oversized.name,
+          maxSize: maxFileSize,
+          actualSize: oversized.size,
+        });
+      }
+
+      uploads = await Promise.all(
+        files.map(async (file) => ({ fileName: file.name, data: await file.arrayBuffer() }))
+      );
+    } else {
+      const body = await c.req.json<BatchRequest>();
+      const validation = safeParseSchema(batchRequestSchema, body);
+
+      if (!validation.success) {
+        return validationErrorResponse(c, validation.errors);
+      }
+
+      inputs = validation.data.inputs.map((value) => value.trim());
+    }
+
+    const total = inputs.length + uploads.length;
+    const maxItems = getMaxBatchItems(c.env);
+
+    if (total === 0) {
+      return badRequestResponse(c, 'Batch must contain at least one extension ID, store URL or file');
+    }
+    if (total > maxItems) {
+      return badRequestResponse(c, `Batch exceeds maximum of ${maxItems} items`, {
+        maxItems,
+        actualItems: total,
+      });
+    }
+
+    log.info('Creating batch', { requestId, downloads: inputs.length, uploads: uploads.length });
+
+    const status = await createBatch(c.env, inputs, uploads);
+    runInBackground(c, processBatch(c.env, status.batchId));
+
+    log.info('Batch created', {
+      requestId,
+      batchId: status.batchId,
+      total,
+      duration: Date.now() - startTime,
+    });
+
+    return successResponse(c, status, 202);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    log.error('Failed to create batch', error, {
+      requestId,
+      duration: Date.now() - startTime,
+    });
+
+    return internalErrorResponse(c, `Failed to create batch: ${errorMessage}`);
+  }
+}
+
+/**
+ * Get batch status handler
+ *
+ * Resumes batches whose background run stopped making progress, once the
+ * poll holds the batch's resume lease.
+ */
+export async function batchStatusHandler(c: AppContext): Promise<Response> {
+  const batchId = c.req.param('batchId');
+
+  try {
+    if (!validateBatchId(batchId)) {
+      return badRequestResponse(c, 'Invalid batch ID format (must be a valid UUID)');
+    }
+
+    const status = await getBatchStatus(c.env, batchId);
+    if (!status) {
+      return notFoundResponse(c, `Batch ${batchId}`);
+    }
+
+    if (isBatchStalled(status) && (await claimBatchResume(c.env, batchId))) {
+      log.warn('Resuming stalled batch', { batchId, updatedAt: status.updatedAt });
+      runInBackground(c, processBatch(c.env, batchId));
+    }
+
+    return successResponse(c, status);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    log.error('Failed to get batch status', error, { batchId });
+
+    return internalErrorResponse(c, `Failed to get batch status: ${errorMessage}`);
+  }
+}
+
+/**
+ * Keep a task running after the response is sent
+ */
+function runInBackground(c: AppContext, task: Promise<unknown>): void {
+  const guarded = task.catch((error) => log.error('Batch processing failed', error));
+
+  try {
+    c.executionCtx.waitUntil(guarded);
+  } catch {
+    // No execution context outside Workers (local server); the task keeps running on its own
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * Delete Session Handler - DELETE /api/v1/extensions/:sessionId
  *
- * Deletes a session and its associated files from storage.
+ * Deletes a session, its annotations and its associated files from storage.
  */
 
 import type { AppContext } from '../types';
@@ -14,6 +14,7 @@ import {
 } from '../utils/response';
 import { getSession, deleteSession } from '../services/session.service';
 import { deleteSessionFiles } from '../services/storage.service';
+import { deleteAnnotations } from '../services/annotation.service';
 import { log } from '../utils/logger';
 
 /**
@@ -39,6 +40,7 @@ export async function deleteSessionHandler(c: AppContext): Promise<Response> {
 
     // Delete session from KV
     await deleteSession(c.env.SESSIONS, sessionId);
+    await deleteAnnotations(c.env.SESSIONS, sessionId);
 
     // Delete files from R2
     await deleteSessionFiles(c.env.CRX_STORAGE, sessionId);
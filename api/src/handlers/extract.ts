@@ -2,9 +2,14 @@
  * Extract Handler - GET /api/v1/extensions/:sessionId/files/*path
  *
  * Extracts a specific file from the extension with optional encoding.
+ * Files inside nested ZIP/CRX archives are addressed by virtual path,
+ * e.g. `lib/vendor.zip!/index.js`.
+ *
+ * With `?view=wasm` a WebAssembly module is returned parsed instead of as
+ * content; `&function=<index>` adds the disassembly of one function.
  */
 
-import type { AppContext, FileExtractionResponse } from '../types';
+import type { AppContext, FileExtractionResponse, WasmInspectionResponse } from '../types';
 import { validateSessionId } from '../utils/validation';
 import {
   successResponse,
@@ -18,6 +23,7 @@ import { getFile, generateCRXKey } from '../services/storage.service';
 import { extractFile } from '../services/crx.service';
 import { getMimeType, isBinaryFile } from '../utils/mime-types';
 import { log } from '../utils/logger';
+import { parseWasmModule, disassembleFunction } from '../lib/wasm';
 
 /**
  * Convert ArrayBuffer to base64 string
@@ -47,6 +53,7 @@ export async function extractHandler(c: AppContext): Promise<Response> {
   const filePath = c.req.param('*'); // Wildcard path
   const encoding = c.req.query('encoding'); // 'utf-8' or 'base64'
   const stream = c.req.query('stream') === 'true'; // Stream large files
+  const view = c.req.query('view'); // 'wasm' for a parsed module
 
   try {
     // Validate session ID format
@@ -58,6 +65,10 @@ export async function extractHandler(c: AppContext): Promise<Response> {
       return badRequestResponse(c, 'File path is required');
     }
 
+    if (view !== undefined && view !== 'wasm') {
+      return badRequestResponse(c, `Unsupported view: ${view} (supported: wasm)`);
+    }
+
     // Normalize file path (remove leading slash)
     const normalizedPath = filePath.startsWith('/') ? filePath.slice(1) : filePath;
 
@@ -91,6 +102,10 @@ export async function extractHandler(c: AppContext): Promise<Response> {
     const mimeType = extracted.mimeType || getMimeType(normalizedPath);
     const isBinary = isBinaryFile(normalizedPath);
 
+    if (view === 'wasm') {
+      return wasmViewResponse(c, normalizedPath, fileContent);
+    }
+
     // If streaming is requested, return as download
     if (stream) {
       log.info('Streaming file', { sessionId, filePath: normalizedPath, size: fileContent.byteLength });
@@ -140,3 +155,35 @@ export async function extractHandler(c: AppContext): Promise<Response> {
     return internalErrorResponse(c, `Failed to extract file: ${errorMessage}`);
   }
 }
+
+/**
+ * Build the `?view=wasm` response: the parsed module, plus the disassembly
+ * of one function when `function` is given
+ */
+function wasmViewResponse(c: AppContext, path: string, fileContent: ArrayBuffer): Response {
+  const data = new Uint8Array(fileContent);
+  const parsed = parseWasmModule(data);
+  if (!parsed.success) {
+    return badRequestResponse(c, parsed.error);
+  }
+
+  const response: WasmInspectionResponse = {
+    path,
+    size: data.byteLength,
+    module: parsed.module,
+  };
+
+  const functionParam = c.req.query('function');
+  if (functionParam !== undefined) {
+    const index = Number(functionParam);
+    if (!Number.isInteger(index) || index < 0 || index >= parsed.module.functions.length) {
+      return badRequestResponse(
+        c,
+        `Invalid function index: ${functionParam} (module has ${parsed.module.functions.length} functions)`
+      );
+    }
+    response.disassembly = { function: index, text: disassembleFunction(data, parsed.module, index) };
+  }
+
+  return successResponse(c, response);
+}
@@ -8,11 +8,15 @@ export { uploadHandler } from './upload';
 export { downloadHandler } from './download';
 export { metadataHandler } from './metadata';
 export { manifestHandler } from './manifest';
+export { analysisHandler } from './analysis';
+export { annotationsHandler, saveAnnotationsHandler } from './annotations';
+export { policyCheckHandler } from './policy';
 export { filesHandler } from './files';
 export { extractHandler } from './extract';
 export { searchHandler } from './search';
 export { filterHandler } from './filter';
 export { downloadZipHandler } from './download-zip';
 export { deleteSessionHandler } from './delete-session';
+export { createBatchHandler, batchStatusHandler } from './batch';
 export { healthHandler } from './health';
 export { openapiHandler } from './openapi';
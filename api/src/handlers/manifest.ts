@@ -1,7 +1,9 @@
 /**
  * Manifest Handler - GET /api/v1/extensions/:sessionId/manifest
  *
- * Extracts and returns the manifest.json from the extension.
+ * Extracts and returns the manifest.json from the extension, with a
+ * normalized view that resolves `__MSG_` placeholders from the default
+ * locale and lists background, content scripts, pages and other entry points.
  */
 
 import type { AppContext, ManifestResponse } from '../types';
@@ -14,7 +16,8 @@ import {
 } from '../utils/response';
 import { getSession } from '../services/session.service';
 import { getFile, generateCRXKey } from '../services/storage.service';
-import { extractManifest } from '../services/crx.service';
+import { extractManifest, extractLocaleMessages } from '../services/crx.service';
+import { buildManifestView } from '../lib/manifest/manifest-view';
 import { log } from '../utils/logger';
 
 /**
@@ -55,18 +58,27 @@ export async function manifestHandler(c: AppContext): Promise<Response> {
     const hostPermissions = manifest.host_permissions || [];
     const manifestVersion = manifest.manifest_version || 2;
 
+    // Resolve __MSG_ placeholders from the default locale
+    const catalog =
+      typeof manifest.default_locale === 'string'
+        ? await extractLocaleMessages(crxData, manifest.default_locale)
+        : null;
+    const view = buildManifestView(manifest, catalog, { extensionId: session.extensionId });
+
     // Build response
     const response: ManifestResponse = {
       manifest,
       manifestVersion,
       permissions: Array.isArray(permissions) ? permissions : [],
       hostPermissions: Array.isArray(hostPermissions) ? hostPermissions : [],
+      view,
     };
 
     log.info('Manifest extracted', {
       sessionId,
       manifestVersion,
       permissionsCount: permissions.length,
+      unresolvedMessages: view.unresolvedMessages.length,
       duration: Date.now() - startTime,
     });
 
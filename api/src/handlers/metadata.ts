@@ -42,6 +42,11 @@ export async function metadataHandler(c: AppContext): Promise<Response> {
       createdAt: session.createdAt,
       expiresAt: session.expiresAt,
       version: session.version,
+      format: session.format,
+      store: session.store,
+      extensionIdSource: session.extensionIdSource,
+      keyMismatch: session.keyMismatch,
+      signature: session.signature,
     };
 
     log.info('Session metadata retrieved', {
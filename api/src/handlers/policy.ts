@@ -0,0 +1,82 @@
+/**
+ * Policy Check Handler - POST /api/v1/extensions/:sessionId/policy-check
+ *
+ * Evaluates a declarative policy against the extension and returns each
+ * rule's result. The body is `{ "policy": ... }` with the policy as a JSON
+ * object or as JSON/YAML text, or the YAML document itself when sent with a
+ * YAML content type.
+ */
+
+import type { AppContext, PolicyCheckRequest } from '../types';
+import { policyCheckRequestSchema, safeParseSchema, validateSessionId } from '../utils/validation';
+import {
+  successResponse,
+  notFoundResponse,
+  badRequestResponse,
+  internalErrorResponse,
+  validationErrorResponse,
+} from '../utils/response';
+import { getSession } from '../services/session.service';
+import { getFile, generateCRXKey } from '../services/storage.service';
+import { PolicyError, checkPolicy, readPolicy } from '../services/policy.service';
+import { log } from '../utils/logger';
+
+const YAML_CONTENT_TYPE = /^(application|text)\/(x-)?yaml\b/i;
+
+/**
+ * Check extension against a policy handler
+ */
+export async function policyCheckHandler(c: AppContext): Promise<Response> {
+  const startTime = Date.now();
+  const sessionId = c.req.param('sessionId');
+
+  try {
+    if (!validateSessionId(sessionId)) {
+      return badRequestResponse(c, 'Invalid session ID format (must be a valid UUID)');
+    }
+
+    const body: PolicyCheckRequest = YAML_CONTENT_TYPE.test(c.req.header('content-type') ?? '')
+      ? { policy: await c.req.text() }
+      : await c.req.json<PolicyCheckRequest>();
+    const validation = safeParseSchema(policyCheckRequestSchema, body);
+
+    if (!validation.success) {
+      return validationErrorResponse(c, validation.errors);
+    }
+
+    const policy = readPolicy(validation.data.policy);
+
+    const session = await getSession(c.env.SESSIONS, sessionId);
+    if (!session) {
+      return notFoundResponse(c, `Session ${sessionId} not found`);
+    }
+
+    const crxData = await getFile(c.env.CRX_STORAGE, generateCRXKey(sessionId));
+    if (!crxData) {
+      return notFoundResponse(c, `CRX file not found for session ${sessionId}`);
+    }
+
+    const result = await checkPolicy(crxData, session, policy);
+
+    log.info('Policy check completed', {
+      sessionId,
+      rules: result.summary.total,
+      passed: result.passed,
+      duration: Date.now() - startTime,
+    });
+
+    return successResponse(c, result);
+  } catch (error) {
+    if (error instanceof PolicyError && error.code === 'INVALID_POLICY') {
+      return badRequestResponse(c, error.message, { code: error.code });
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    log.error('Failed to check policy', error, {
+      sessionId,
+      duration: Date.now() - startTime,
+    });
+
+    return internalErrorResponse(c, `Failed to check policy: ${errorMessage}`);
+  }
+}
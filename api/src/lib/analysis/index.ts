@@ -0,0 +1,39 @@
+/**
+ * Security analysis libraries
+ * Exported for use throughout the API
+ */
+
+export {
+  analyzeManifest,
+  analyzeManifestJson,
+  calculateRiskLevel,
+  type AnalysisIssue,
+  type ManifestAnalysis,
+} from './manifest-analyzer';
+export {
+  assessPermissions,
+  classifyApiPermission,
+  classifyHostPattern,
+  isAllUrlsPattern,
+  isBroadHostPattern,
+  isHostPattern,
+  type PermissionAssessment,
+  type RiskLevel,
+} from './permissions';
+export {
+  scanFile,
+  scanFiles,
+  isScannableFile,
+  SCAN_RULES,
+  API_NAMESPACE_PERMISSIONS,
+  type ScanRule,
+  type ScannableFile,
+} from './code-scanner';
+export {
+  readBrowserSpecificSettings,
+  getGeckoId,
+  isFirefoxManifest,
+  type BrowserSpecificSettings,
+  type BrowserVersionRange,
+  type GeckoSettings,
+} from './browser-settings';
@@ -0,0 +1,228 @@
+/**
+ * Permission and host pattern risk classification
+ *
+ * Risk levels follow the capabilities Chrome grants with each permission:
+ * - high: read/modify browsing data across sites, control the browser, or
+ *   reach outside the sandbox
+ * - medium: access to sensitive but scoped data or user activity
+ * - low: local-only or user-initiated capabilities
+ */
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+/**
+ * Risk classification for a single permission or host pattern
+ */
+export interface PermissionAssessment {
+  permission: string;
+  kind: 'api' | 'host';
+  optional: boolean;
+  risk: RiskLevel;
+  description: string;
+}
+
+const API_PERMISSION_RISKS: Record<string, { risk: RiskLevel; description: string }> = {
+  // High risk
+  debugger: { risk: 'high', description: 'Attach the Chrome debugger to any tab and read or modify page state' },
+  nativeMessaging: { risk: 'high', description: 'Exchange messages with native applications on the computer' },
+  proxy: { risk: 'high', description: 'Route all browser traffic through a proxy' },
+  webRequest: { risk: 'high', description: 'Observe network requests, including URLs and headers' },
+  webRequestBlocking: { risk: 'high', description: 'Block or modify network requests in flight' },
+  cookies: { risk: 'high', description: 'Read and modify cookies for permitted hosts' },
+  history: { risk: 'high', description: 'Read and modify browsing history' },
+  management: { risk: 'high', description: 'Manage, enable or disable other extensions' },
+  privacy: { risk: 'high', description: 'Change privacy-related browser settings' },
+  contentSettings: { risk: 'high', description: 'Change per-site settings such as JavaScript, cookies and plugins' },
+  clipboardRead: { risk: 'high', description: 'Read clipboard contents' },
+  desktopCapture: { risk: 'high', description: 'Capture screen, window or tab content' },
+  tabCapture: { risk: 'high', description: 'Capture audio and video of tabs' },
+  vpnProvider: { risk: 'high', description: 'Implement a VPN client' },
+  scripting: { risk: 'high', description: 'Inject scripts into pages on permitted hosts' },
+  webRequestFilterResponse: { risk: 'high', description: 'Read and rewrite response bodies (Firefox)' },
+  pkcs11: { risk: 'high', description: 'Install PKCS #11 security modules (Firefox)' },
+
+  // Medium risk
+  tabs: { risk: 'medium', description: 'Read URLs and titles of all open tabs' },
+  webNavigation: { risk: 'medium', description: 'Observe navigation events in all tabs' },
+  declarativeNetRequest: { risk: 'medium', description: 'Block or redirect network requests with declarative rules' },
+  declarativeNetRequestWithHostAccess: { risk: 'medium', description: 'Block or redirect requests on permitted hosts' },
+  declarativeNetRequestFeedback: { risk: 'medium', description: 'Observe which requests were matched by network rules' },
+  downloads: { risk: 'medium', description: 'Start, monitor and open downloads' },
+  'downloads.open': { risk: 'medium', description: 'Open downloaded files' },
+  bookmarks: { risk: 'medium', description: 'Read and modify bookmarks' },
+  topSites: { risk: 'medium', description: 'Read the most visited sites' },
+  geolocation: { risk: 'medium', description: 'Access the user\'s physical location' },
+  identity: { risk: 'medium', description: 'Obtain OAuth tokens for the signed-in user' },
+  'identity.email': { risk: 'medium', description: 'Read the signed-in user\'s email address' },
+  pageCapture: { risk: 'medium', description: 'Save pages as MHTML' },
+  sessions: { risk: 'medium', description: 'Read recently closed tabs and synced sessions' },
+  browsingData: { risk: 'medium', description: 'Clear browsing data' },
+  readingList: { risk: 'medium', description: 'Read and modify the reading list' },
+  tabGroups: { risk: 'medium', description: 'Read and modify tab groups' },
+  userScripts: { risk: 'medium', description: 'Register user scripts on arbitrary pages' },
+  audioCapture: { risk: 'medium', description: 'Record audio from the microphone' },
+  videoCapture: { risk: 'medium', description: 'Record video from the camera' },
+  'enterprise.deviceAttributes': { risk: 'medium', description: 'Read enterprise device attributes' },
+  'enterprise.platformKeys': { risk: 'medium', description: 'Use enterprise platform keys' },
+  certificateProvider: { risk: 'medium', description: 'Provide client certificates to the browser' },
+  platformKeys: { risk: 'medium', description: 'Use client certificates managed by the platform' },
+  webAuthenticationProxy: { risk: 'medium', description: 'Intercept WebAuthn requests' },
+  browserSettings: { risk: 'medium', description: 'Change global browser settings (Firefox)' },
+  dns: { risk: 'medium', description: 'Resolve host names (Firefox)' },
+  find: { risk: 'medium', description: 'Search the text of any open tab (Firefox)' },
+
+  // Low risk
+  activeTab: { risk: 'low', description: 'Temporary access to the current tab after a user gesture' },
+  alarms: { risk: 'low', description: 'Schedule code to run periodically' },
+  storage: { risk: 'low', description: 'Store data locally' },
+  unlimitedStorage: { risk: 'low', description: 'Store unlimited local data' },
+  notifications: { risk: 'low', description: 'Show system notifications' },
+  contextMenus: { risk: 'low', description: 'Add items to the context menu' },
+  menus: { risk: 'low', description: 'Add items to browser menus (Firefox)' },
+  contextualIdentities: { risk: 'low', description: 'Manage container tabs (Firefox)' },
+  theme: { risk: 'low', description: 'Change the browser theme (Firefox)' },
+  idle: { risk: 'low', description: 'Detect when the machine is idle' },
+  i18n: { risk: 'low', description: 'Access localized strings' },
+  power: { risk: 'low', description: 'Keep the system awake' },
+  fontSettings: { risk: 'low', description: 'Manage font settings' },
+  sidePanel: { risk: 'low', description: 'Show a side panel' },
+  offscreen: { risk: 'low', description: 'Create offscreen documents' },
+  clipboardWrite: { risk: 'low', description: 'Write to the clipboard' },
+  tts: { risk: 'low', description: 'Use text-to-speech' },
+  ttsEngine: { risk: 'low', description: 'Implement a text-to-speech engine' },
+  search: { risk: 'low', description: 'Run searches with the default provider' },
+  favicon: { risk: 'low', description: 'Read site favicons' },
+  background: { risk: 'low', description: 'Keep running in the background after the browser closes' },
+  'system.cpu': { risk: 'low', description: 'Read CPU information' },
+  'system.memory': { risk: 'low', description: 'Read memory information' },
+  'system.storage': { risk: 'low', description: 'Read storage device information' },
+  gcm: { risk: 'low', description: 'Receive push messages' },
+};
+
+const HOST_PATTERN_PREFIXES = ['http://', 'https://', '*://', 'ws://', 'wss://', 'file://', 'ftp://', 'urn:'];
+
+/**
+ * Whether a permission string is a host match pattern rather than an API permission
+ *
+ * @param permission - Entry from permissions, optional_permissions or host_permissions
+ * @returns True for match patterns and `<all_urls>`
+ */
+export function isHostPattern(permission: string): boolean {
+  return permission === '<all_urls>' || HOST_PATTERN_PREFIXES.some((prefix) => permission.startsWith(prefix));
+}
+
+/**
+ * Whether a match pattern grants access to every site
+ *
+ * @param pattern - Host match pattern
+ * @returns True for `<all_urls>` and patterns with a bare `*` host
+ */
+export function isAllUrlsPattern(pattern: string): boolean {
+  if (pattern === '<all_urls>') {
+    return true;
+  }
+
+  const host = getPatternHost(pattern);
+  return host === '*';
+}
+
+/**
+ * Whether a match pattern covers a whole top-level domain or more, such as `*://*.com/*`
+ *
+ * @param pattern - Host match pattern
+ * @returns True for wildcard hosts with at most one label after the wildcard
+ */
+export function isBroadHostPattern(pattern: string): boolean {
+  if (isAllUrlsPattern(pattern)) {
+    return true;
+  }
+
+  const host = getPatternHost(pattern);
+  if (!host || !host.startsWith('*.')) {
+    return false;
+  }
+
+  return host.slice(2).split('.').length <= 1;
+}
+
+/**
+ * Classify an API permission by risk
+ *
+ * @param permission - API permission name
+ * @returns Risk level and description; unknown permissions are low risk
+ */
+export function classifyApiPermission(permission: string): { risk: RiskLevel; description: string } {
+  return API_PERMISSION_RISKS[permission] ?? { risk: 'low', description: 'Unrecognized permission' };
+}
+
+/**
+ * Classify a host match pattern by risk
+ *
+ * @param pattern - Host match pattern
+ * @returns Risk level and description
+ */
+export function classifyHostPattern(pattern: string): { risk: RiskLevel; description: string } {
+  if (isAllUrlsPattern(pattern)) {
+    return { risk: 'high', description: 'Access to all websites' };
+  }
+
+  if (pattern.startsWith('file://')) {
+    return { risk: 'high', description: 'Access to local files' };
+  }
+
+  if (isBroadHostPattern(pattern)) {
+    return { risk: 'high', description: `Access to every site under ${getPatternHost(pattern)}` };
+  }
+
+  const host = getPatternHost(pattern);
+  if (host?.startsWith('*.')) {
+    return { risk: 'medium', description: `Access to ${host.slice(2)} and all of its subdomains` };
+  }
+
+  return { risk: 'low', description: `Access to ${host ?? pattern}` };
+}
+
+/**
+ * Classify every permission in a manifest
+ *
+ * @param manifest - Parsed manifest.json
+ * @returns Assessments for required and optional API and host permissions
+ */
+export function assessPermissions(manifest: Record<string, unknown>): PermissionAssessment[] {
+  const assessments: PermissionAssessment[] = [];
+  const seen = new Set<string>();
+
+  const add = (entries: unknown, optional: boolean) => {
+    for (const entry of toStringArray(entries)) {
+      const key = `${optional}:${entry}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const kind = isHostPattern(entry) ? 'host' : 'api';
+      const { risk, description } = kind === 'host' ? classifyHostPattern(entry) : classifyApiPermission(entry);
+      assessments.push({ permission: entry, kind, optional, risk, description });
+    }
+  };
+
+  add(manifest.permissions, false);
+  add(manifest.host_permissions, false);
+  add(manifest.optional_permissions, true);
+  add(manifest.optional_host_permissions, true);
+
+  return assessments;
+}
+
+/**
+ * Extract the host component of a match pattern
+ */
+function getPatternHost(pattern: string): string | null {
+  const match = /^[a-z*]+:\/\/([^/]*)/.exec(pattern);
+  return match ? match[1] : null;
+}
+
+/**
+ * Keep only the string entries of a manifest array field
+ */
+export function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
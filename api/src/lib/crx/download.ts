@@ -8,10 +8,11 @@
  */
 
 import { XMLParser } from 'fast-xml-parser';
-import { isValidExtensionId } from './url-patterns';
+import { isValidExtensionId, isValidStoreExtensionId } from './url-patterns';
+import type { ExtensionStore } from './url-patterns';
 
 /**
- * CORS proxy URL for bypassing Chrome Web Store CORS restrictions
+ * CORS proxy URL for bypassing extension store CORS restrictions
  * Deployed on Cloudflare Workers
  */
 const CORS_PROXY_URL = 'https://crxreview-cors-proxy.brentley.workers.dev';
@@ -54,15 +55,46 @@ export function buildCrxDownloadUrl(
   return `https://clients2.google.com/service/update2/crx?os=${os}&arch=${arch}&os_arch=${arch}&acceptformat=crx2,crx3&prodversion=2147483647&x=id%3D${extensionId}%26installsource%3Dondemand%26uc`;
 }
 
+/**
+ * Build the CRX download URL for a Microsoft Edge Add-ons extension
+ *
+ * The Edge update service redirects straight to the CRX file when asked
+ * for response=redirect.
+ *
+ * @param extensionId - 32-character Edge extension ID
+ * @returns Download URL string
+ */
+export function buildEdgeCrxDownloadUrl(extensionId: string): string {
+  if (!isValidExtensionId(extensionId)) {
+    throw new Error(`Invalid extension ID: ${extensionId}`);
+  }
+
+  return `https://edge.microsoft.com/extensionwebstorebase/v1/crx?response=redirect&prodversion=2147483647&x=id%3D${extensionId}%26installsource%3Dondemand%26uc`;
+}
+
+/**
+ * Build the XPI download URL for the latest version of a Firefox add-on
+ *
+ * @param addonId - addons.mozilla.org slug, numeric ID or add-on GUID
+ * @returns Download URL string
+ */
+export function buildXpiDownloadUrl(addonId: string): string {
+  if (!isValidStoreExtensionId(addonId, 'firefox')) {
+    throw new Error(`Invalid Firefox add-on ID: ${addonId}`);
+  }
+
+  return `https://addons.mozilla.org/firefox/downloads/latest/${encodeURIComponent(addonId)}/latest.xpi`;
+}
+
 /**
  * Parse Chrome update XML response to extract download URL
  *
  * Uses fast-xml-parser for Worker compatibility (no DOMParser available)
  *
  * @param xmlText - XML response from Chrome update server
- * @returns Download URL or null if not found
+ * @returns Download URL, 'noupdate' when the server has no package, or null if not found
  */
-function extractDownloadUrl(xmlText: string): string | null {
+export function extractDownloadUrl(xmlText: string): string | null {
   try {
     const parser = new XMLParser({
       ignoreAttributes: false,
@@ -200,9 +232,10 @@ async function tryDownloadWithParams(
 }
 
 /**
- * Fetch CRX file from Chrome's update server
+ * Fetch an extension package from its store
  *
- * Downloads the CRX file for a given extension ID. Handles:
+ * Downloads the CRX file (Chrome Web Store, Microsoft Edge Add-ons) or XPI
+ * file (Firefox Add-ons) for a given extension. Handles:
  * - Network errors with descriptive messages
  * - HTTP error responses
  * - Invalid extension IDs
@@ -210,18 +243,33 @@ async function tryDownloadWithParams(
  * - Multiple fallback strategies with different OS/arch combinations
  * - Two-step XML parsing for reliability
  *
- * @param extensionId - 32-character Chrome extension ID
+ * @param extensionId - 32-character extension ID, or Firefox add-on identifier
+ * @param store - Store to download from (defaults to the Chrome Web Store)
  * @returns Result object with success flag and either ArrayBuffer or error message
  */
-export async function downloadCrx(extensionId: string): Promise<DownloadResult> {
+export async function downloadCrx(extensionId: string, store: ExtensionStore = 'chrome'): Promise<DownloadResult> {
   try {
-    if (!isValidExtensionId(extensionId)) {
+    if (!isValidStoreExtensionId(extensionId, store)) {
       return {
         success: false,
         error: `Invalid extension ID format: ${extensionId}`,
       };
     }
 
+    if (store === 'edge') {
+      return await downloadPackage(
+        buildEdgeCrxDownloadUrl(extensionId),
+        'Extension not available from Microsoft Edge Add-ons. It may have been removed or restricted in your region.'
+      );
+    }
+
+    if (store === 'firefox') {
+      return await downloadPackage(
+        buildXpiDownloadUrl(extensionId),
+        'Add-on not available from Firefox Add-ons. Check the add-on slug or ID; the add-on may have been removed or disabled.'
+      );
+    }
+
     // Try multiple OS/arch combinations as fallbacks
     // Research shows different combinations may work for different extensions
     const strategies = [
@@ -252,3 +300,37 @@ export async function downloadCrx(extensionId: string): Promise<DownloadResult>
     };
   }
 }
+
+/**
+ * Download a package from a URL that serves the file directly
+ *
+ * @param url - Package download URL
+ * @param unavailableMessage - Error reported when the store has no file
+ * @returns Download result
+ */
+async function downloadPackage(url: string, unavailableMessage: string): Promise<DownloadResult> {
+  const response = await fetch(`${CORS_PROXY_URL}?url=${encodeURIComponent(url)}`, {
+    method: 'GET',
+    redirect: 'follow',
+  });
+
+  if (!response.ok) {
+    return {
+      success: false,
+      error: `${unavailableMessage} (HTTP ${response.status})`,
+    };
+  }
+
+  const data = await response.arrayBuffer();
+  if (data.byteLength === 0) {
+    return {
+      success: false,
+      error: unavailableMessage,
+    };
+  }
+
+  return {
+    success: true,
+    data,
+  };
+}
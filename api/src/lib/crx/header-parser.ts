@@ -4,14 +4,64 @@
  * CRX (Chrome Extension) file format:
  * - CRX2: Magic number "Cr24" + version (4 bytes) + key length (4 bytes) + signature length (4 bytes) + public key + signature + ZIP
  * - CRX3: Magic number "Cr24" + version (4 bytes) + header length (4 bytes) + header + ZIP
+ *
+ * The CRX3 header is a serialized CrxFileHeader protobuf:
+ *
+ *   message CrxFileHeader {
+ *     repeated AsymmetricKeyProof sha256_with_rsa = 2;
+ *     repeated AsymmetricKeyProof sha256_with_ecdsa = 3;
+ *     optional bytes signed_header_data = 10000;  // serialized SignedData
+ *   }
+ *   message AsymmetricKeyProof {
+ *     optional bytes public_key = 1;
+ *     optional bytes signature = 2;
+ *   }
+ *   message SignedData {
+ *     optional bytes crx_id = 1;
+ *   }
  */
 
+import { readProtobufFields } from './protobuf';
+
 const CRX2_VERSION = 2;
 const CRX3_VERSION = 3;
 
+// CrxFileHeader / AsymmetricKeyProof / SignedData field numbers
+const FIELD_SHA256_WITH_RSA = 2;
+const FIELD_SHA256_WITH_ECDSA = 3;
+const FIELD_SIGNED_HEADER_DATA = 10000;
+const FIELD_PROOF_PUBLIC_KEY = 1;
+const FIELD_PROOF_SIGNATURE = 2;
+const FIELD_SIGNED_DATA_CRX_ID = 1;
+
+/**
+ * Signature algorithm of a key proof
+ *
+ * CRX2 packages carry a single SHA1-RSA signature; CRX3 packages carry
+ * any number of SHA256 RSA and ECDSA proofs.
+ */
+export type CrxProofAlgorithm = 'sha1_with_rsa' | 'sha256_with_rsa' | 'sha256_with_ecdsa';
+
+/**
+ * A public key (DER-encoded SubjectPublicKeyInfo) and its signature
+ */
+export interface CrxKeyProof {
+  algorithm: CrxProofAlgorithm;
+  publicKey: Uint8Array;
+  signature: Uint8Array;
+}
+
 export interface ParsedCrxHeader {
   version: number;
   zipOffset: number;
+  /** Key proofs found in the header, in file order */
+  proofs: CrxKeyProof[];
+  /** CRX3 only: the 16-byte crx_id from signed_header_data */
+  crxId?: Uint8Array;
+  /** CRX3 only: raw serialized SignedData message covered by the signatures */
+  signedHeaderData?: Uint8Array;
+  /** CRX3 only: set when the protobuf header could not be decoded */
+  headerError?: string;
 }
 
 export interface ParseError {
@@ -127,11 +177,16 @@ function parseCrx2Header(view: DataView): ParseResult {
       };
     }
 
+    const data = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+    const publicKey = data.slice(16, 16 + publicKeyLength);
+    const signature = data.slice(16 + publicKeyLength, zipOffset);
+
     return {
       success: true,
       header: {
         version: CRX2_VERSION,
         zipOffset,
+        proofs: [{ algorithm: 'sha1_with_rsa', publicKey, signature }],
       },
     };
   } catch (error) {
@@ -182,11 +237,17 @@ function parseCrx3Header(view: DataView): ParseResult {
       };
     }
 
+    // A header that fails to decode still leaves the ZIP payload usable,
+    // so report the problem alongside the offset instead of failing outright
+    const data = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+    const decoded = decodeCrx3FileHeader(data.subarray(12, zipOffset));
+
     return {
       success: true,
       header: {
         version: CRX3_VERSION,
         zipOffset,
+        ...decoded,
       },
     };
   } catch (error) {
@@ -197,3 +258,66 @@ function parseCrx3Header(view: DataView): ParseResult {
     };
   }
 }
+
+/**
+ * Decode the CRX3 CrxFileHeader protobuf into key proofs and signed data
+ *
+ * @param headerBytes - Serialized CrxFileHeader message
+ * @returns Decoded proofs and signed data, or an empty proof list with headerError set
+ */
+function decodeCrx3FileHeader(
+  headerBytes: Uint8Array
+): Pick<ParsedCrxHeader, 'proofs' | 'crxId' | 'signedHeaderData' | 'headerError'> {
+  try {
+    const proofs: CrxKeyProof[] = [];
+    let signedHeaderData: Uint8Array | undefined;
+    let crxId: Uint8Array | undefined;
+
+    for (const field of readProtobufFields(headerBytes)) {
+      if (!field.bytes) {
+        continue;
+      }
+
+      if (field.fieldNumber === FIELD_SHA256_WITH_RSA) {
+        proofs.push(decodeKeyProof(field.bytes, 'sha256_with_rsa'));
+      } else if (field.fieldNumber === FIELD_SHA256_WITH_ECDSA) {
+        proofs.push(decodeKeyProof(field.bytes, 'sha256_with_ecdsa'));
+      } else if (field.fieldNumber === FIELD_SIGNED_HEADER_DATA) {
+        signedHeaderData = field.bytes.slice();
+      }
+    }
+
+    if (signedHeaderData) {
+      const idField = readProtobufFields(signedHeaderData).find(
+        (field) => field.fieldNumber === FIELD_SIGNED_DATA_CRX_ID && field.bytes
+      );
+      crxId = idField?.bytes?.slice();
+    }
+
+    return { proofs, crxId, signedHeaderData };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      proofs: [],
+      headerError: `CRX3: Failed to decode header: ${message}`,
+    };
+  }
+}
+
+/**
+ * Decode a single AsymmetricKeyProof message
+ */
+function decodeKeyProof(bytes: Uint8Array, algorithm: CrxProofAlgorithm): CrxKeyProof {
+  let publicKey = new Uint8Array(0);
+  let signature = new Uint8Array(0);
+
+  for (const field of readProtobufFields(bytes)) {
+    if (field.fieldNumber === FIELD_PROOF_PUBLIC_KEY && field.bytes) {
+      publicKey = field.bytes.slice();
+    } else if (field.fieldNumber === FIELD_PROOF_SIGNATURE && field.bytes) {
+      signature = field.bytes.slice();
+    }
+  }
+
+  return { algorithm, publicKey, signature };
+}
@@ -4,7 +4,35 @@
  */
 
 export { CRXParser, type Manifest, type ManifestV2, type ManifestV3, type CRXMetadataExtracted } from './parser';
-export { downloadCrx, buildCrxDownloadUrl } from './download';
-export { crxToZip, type ConversionResult } from './zip-converter';
-export { extractExtensionId, isValidExtensionId, type ExtensionIdResult } from './url-patterns';
-export { parseCrxHeader, type ParsedCrxHeader } from './header-parser';
+export {
+  downloadCrx,
+  buildCrxDownloadUrl,
+  buildEdgeCrxDownloadUrl,
+  buildXpiDownloadUrl,
+  extractDownloadUrl,
+} from './download';
+export { crxToZip, detectPackageFormat, type ConversionResult, type PackageFormat } from './zip-converter';
+export {
+  extractExtensionId,
+  isValidExtensionId,
+  isValidFirefoxAddonId,
+  isValidStoreExtensionId,
+  buildStoreListingUrl,
+  type ExtensionIdResult,
+  type ExtensionStore,
+} from './url-patterns';
+export {
+  parseCrxHeader,
+  type ParsedCrxHeader,
+  type CrxKeyProof,
+  type CrxProofAlgorithm,
+} from './header-parser';
+export { readProtobufFields, type ProtobufField } from './protobuf';
+export {
+  verifyCrxSignatures,
+  crxIdToExtensionId,
+  extensionIdFromPublicKey,
+  WEBSTORE_PUBLISHER_KEY_HASH,
+  type CrxProofVerification,
+  type CrxSignatureStatus,
+} from './signature';
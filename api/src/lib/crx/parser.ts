@@ -1,5 +1,6 @@
 const JSZip = require('jszip');
 import { parseCrxHeader } from './header-parser';
+import { detectPackageFormat } from './zip-converter';
 import { getLogger } from '../../utils/logger';
 
 /**
@@ -19,6 +20,7 @@ export interface ManifestV3 {
   background?: Record<string, any>;
   content_scripts?: Array<Record<string, any>>;
   web_accessible_resources?: Array<Record<string, any>>;
+  browser_specific_settings?: Record<string, any>;
   [key: string]: any;
 }
 
@@ -36,6 +38,9 @@ export interface ManifestV2 {
   background?: Record<string, any>;
   content_scripts?: Array<Record<string, any>>;
   web_accessible_resources?: string[];
+  browser_specific_settings?: Record<string, any>;
+  /** Firefox's pre-2018 name for browser_specific_settings */
+  applications?: Record<string, any>;
   [key: string]: any;
 }
 
@@ -126,8 +131,14 @@ export class CRXParser {
 
   /**
    * Extract ZIP data from CRX format (supports both CRX2 and CRX3)
+   *
+   * Plain ZIP packages (XPI files) are returned unchanged.
    */
   private extractZipFromCRX(buffer: ArrayBuffer): ArrayBuffer {
+    if (detectPackageFormat(buffer) === 'zip') {
+      return buffer;
+    }
+
     // Use the header parser which supports both CRX2 and CRX3
     const parseResult = parseCrxHeader(buffer);
 
@@ -0,0 +1,277 @@
+/**
+ * CRX signature verification
+ *
+ * Verifies the key proofs decoded by parseCrxHeader against the ZIP payload
+ * using WebCrypto, following Chromium's components/crx_file/crx_verifier.cc:
+ *
+ * - CRX2: SHA1-RSA signature over the ZIP bytes.
+ * - CRX3: each proof signs "CRX3 SignedData\x00" + uint32 LE length of
+ *   signed_header_data + signed_header_data + ZIP bytes.
+ *
+ * The publisher proof is the one whose key hashes to the declared crx_id.
+ * The Web Store proof is the one whose key matches the Chrome Web Store
+ * publisher key hash.
+ */
+
+import { parseCrxHeader } from './header-parser';
+import type { CrxKeyProof, CrxProofAlgorithm } from './header-parser';
+
+const CRX3_SIGNATURE_CONTEXT = 'CRX3 SignedData\x00';
+
+/**
+ * SHA-256 of the Chrome Web Store publisher key (kPublisherKeyHash in Chromium)
+ */
+export const WEBSTORE_PUBLISHER_KEY_HASH =
+  '61f7f2a6bfcf74cd0bc1fe2497cc9b04254c658f79f2145392867ea8366367cf';
+
+/**
+ * Verification outcome for a single key proof
+ */
+export interface CrxProofVerification {
+  algorithm: CrxProofAlgorithm;
+  publicKey: Uint8Array;
+  /** Extension ID derived from this key */
+  keyId: string;
+  /** Whether the signature verifies against this key */
+  valid: boolean;
+  /** Whether this key's ID matches the package's declared ID */
+  isPublisher: boolean;
+  /** Whether this key is the Chrome Web Store publisher key */
+  isWebStore: boolean;
+  error?: string;
+}
+
+/**
+ * Overall signature status of a CRX package
+ */
+export interface CrxSignatureStatus {
+  version: number;
+  /** Declared extension ID (crx_id for CRX3, derived from the key for CRX2) */
+  crxId: string | null;
+  proofs: CrxProofVerification[];
+  /** A valid signature exists from the key matching crxId */
+  publisherSigned: boolean;
+  /** A valid signature exists from the Chrome Web Store key */
+  webStoreSigned: boolean;
+  /** Header decoding problem, if any */
+  headerError?: string;
+}
+
+interface VerifySuccess {
+  success: true;
+  status: CrxSignatureStatus;
+}
+
+interface VerifyError {
+  success: false;
+  error: string;
+}
+
+type VerifyResult = VerifySuccess | VerifyError;
+
+/**
+ * Map the first 16 bytes of a hash to Chrome's a-p extension ID alphabet
+ *
+ * @param bytes - crx_id or SHA-256 digest of a public key
+ * @returns 32-character extension ID
+ */
+export function crxIdToExtensionId(bytes: Uint8Array): string {
+  let id = '';
+  for (const byte of bytes.subarray(0, 16)) {
+    id += String.fromCharCode(97 + (byte >> 4), 97 + (byte & 0x0f));
+  }
+  return id;
+}
+
+/**
+ * Compute the extension ID for a DER-encoded public key
+ *
+ * @param publicKey - SubjectPublicKeyInfo bytes
+ * @returns 32-character extension ID
+ */
+export async function extensionIdFromPublicKey(publicKey: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new Uint8Array(publicKey));
+  return crxIdToExtensionId(new Uint8Array(digest));
+}
+
+/**
+ * Verify every key proof in a CRX package
+ *
+ * Individual proof failures (bad key encoding, unsupported curve) are
+ * reported per proof rather than failing the whole verification.
+ *
+ * @param crxBuffer - ArrayBuffer containing CRX file data
+ * @returns Result object with the signature status or an error message
+ */
+export async function verifyCrxSignatures(crxBuffer: ArrayBuffer): Promise<VerifyResult> {
+  try {
+    const parseResult = parseCrxHeader(crxBuffer);
+    if (!parseResult.success) {
+      return { success: false, error: parseResult.error };
+    }
+
+    const { header } = parseResult;
+    const zipBytes = new Uint8Array(crxBuffer, header.zipOffset);
+    const signedMessage =
+      header.version === 3 ? buildCrx3SignedMessage(header.signedHeaderData, zipBytes) : zipBytes;
+
+    const proofs: CrxProofVerification[] = [];
+    for (const proof of header.proofs) {
+      proofs.push(await verifyProof(proof, signedMessage));
+    }
+
+    let crxId: string | null = null;
+    if (header.crxId) {
+      crxId = crxIdToExtensionId(header.crxId);
+    } else if (header.version === 2 && proofs.length > 0) {
+      crxId = proofs[0].keyId;
+    }
+
+    for (const proof of proofs) {
+      proof.isPublisher = crxId !== null && proof.keyId === crxId;
+    }
+
+    return {
+      success: true,
+      status: {
+        version: header.version,
+        crxId,
+        proofs,
+        publisherSigned: proofs.some((proof) => proof.isPublisher && proof.valid),
+        webStoreSigned: proofs.some((proof) => proof.isWebStore && proof.valid),
+        headerError: header.headerError,
+      },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to verify CRX signatures: ${message}`,
+    };
+  }
+}
+
+/**
+ * Build the byte sequence that CRX3 proofs sign
+ */
+function buildCrx3SignedMessage(signedHeaderData: Uint8Array | undefined, zipBytes: Uint8Array): Uint8Array {
+  const headerData = signedHeaderData ?? new Uint8Array(0);
+  const context = new TextEncoder().encode(CRX3_SIGNATURE_CONTEXT);
+  const message = new Uint8Array(context.length + 4 + headerData.length + zipBytes.length);
+
+  message.set(context, 0);
+  new DataView(message.buffer).setUint32(context.length, headerData.length, true);
+  message.set(headerData, context.length + 4);
+  message.set(zipBytes, context.length + 4 + headerData.length);
+
+  return message;
+}
+
+/**
+ * Verify a single proof and derive its key identity
+ */
+async function verifyProof(proof: CrxKeyProof, message: Uint8Array): Promise<CrxProofVerification> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new Uint8Array(proof.publicKey)));
+  const result: CrxProofVerification = {
+    algorithm: proof.algorithm,
+    publicKey: proof.publicKey,
+    keyId: crxIdToExtensionId(digest),
+    valid: false,
+    isPublisher: false,
+    isWebStore: toHex(digest) === WEBSTORE_PUBLISHER_KEY_HASH,
+  };
+
+  try {
+    if (proof.algorithm === 'sha256_with_ecdsa') {
+      const key = await crypto.subtle.importKey(
+        'spki',
+        new Uint8Array(proof.publicKey),
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        false,
+        ['verify']
+      );
+      result.valid = await crypto.subtle.verify(
+        { name: 'ECDSA', hash: 'SHA-256' },
+        key,
+        derToRawEcdsaSignature(proof.signature, 32),
+        new Uint8Array(message)
+      );
+    } else {
+      const key = await crypto.subtle.importKey(
+        'spki',
+        new Uint8Array(proof.publicKey),
+        {
+          name: 'RSASSA-PKCS1-v1_5',
+          hash: proof.algorithm === 'sha1_with_rsa' ? 'SHA-1' : 'SHA-256',
+        },
+        false,
+        ['verify']
+      );
+      result.valid = await crypto.subtle.verify(
+        'RSASSA-PKCS1-v1_5',
+        key,
+        new Uint8Array(proof.signature),
+        new Uint8Array(message)
+      );
+    }
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+
+  return result;
+}
+
+/**
+ * Convert a DER-encoded ECDSA signature (SEQUENCE { r INTEGER, s INTEGER })
+ * into the fixed-width r || s form that WebCrypto expects
+ *
+ * @throws Error if the signature is not valid DER
+ */
+function derToRawEcdsaSignature(der: Uint8Array, size: number): Uint8Array<ArrayBuffer> {
+  let offset = 0;
+
+  const readLength = (): number => {
+    let length = der[offset++];
+    if (length & 0x80) {
+      const count = length & 0x7f;
+      length = 0;
+      for (let i = 0; i < count; i++) {
+        length = (length << 8) | der[offset++];
+      }
+    }
+    return length;
+  };
+
+  const readInteger = (): Uint8Array => {
+    if (der[offset++] !== 0x02) {
+      throw new Error('Invalid ECDSA signature: expected INTEGER');
+    }
+    const length = readLength();
+    let value = der.subarray(offset, offset + length);
+    offset += length;
+    while (value.length > size && value[0] === 0) {
+      value = value.subarray(1);
+    }
+    if (value.length > size) {
+      throw new Error('Invalid ECDSA signature: integer too large');
+    }
+    return value;
+  };
+
+  if (der[offset++] !== 0x30) {
+    throw new Error('Invalid ECDSA signature: expected SEQUENCE');
+  }
+  readLength();
+
+  const r = readInteger();
+  const s = readInteger();
+  const raw = new Uint8Array(size * 2);
+  raw.set(r, size - r.length);
+  raw.set(s, size * 2 - s.length);
+
+  return raw;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -1,10 +1,20 @@
 /**
- * URL pattern matching for Chrome Web Store URLs
+ * URL pattern matching for extension store URLs
+ *
+ * Recognizes Chrome Web Store, Microsoft Edge Add-ons and Firefox Add-ons
+ * (addons.mozilla.org) listings.
  */
 
+/**
+ * Store an extension is listed in
+ */
+export type ExtensionStore = 'chrome' | 'edge' | 'firefox';
+
 export interface ExtensionIdMatch {
   success: true;
+  /** Chrome/Edge extension ID, or Firefox add-on slug, numeric ID or GUID */
   extensionId: string;
+  store: ExtensionStore;
 }
 
 export interface ExtensionIdNoMatch {
@@ -15,7 +25,7 @@ export interface ExtensionIdNoMatch {
 export type ExtensionIdResult = ExtensionIdMatch | ExtensionIdNoMatch;
 
 /**
- * Patterns for matching Chrome Web Store URLs
+ * Patterns for matching extension store URLs
  */
 const URL_PATTERNS = {
   // New Chrome Web Store URL format (2024+)
@@ -27,18 +37,31 @@ const URL_PATTERNS = {
   standardNoLabel: /^https?:\/\/chrome\.google\.com\/webstore\/detail\/([a-z]{32})/,
   // CRX download URL pattern
   directCrx: /^https?:\/\/clients2\.google\.com\/service\/update2\/crx\?id=([a-z]{32})/,
+  // Microsoft Edge Add-ons listing, with or without label
+  edgeDetail: /^https?:\/\/microsoftedge\.microsoft\.com\/addons\/detail\/(?:[^/]+\/)?([a-z]{32})/,
+  // Firefox Add-ons listing (optional locale, desktop or Android)
+  firefoxDetail: /^https?:\/\/addons\.mozilla\.org\/(?:[a-zA-Z-]+\/)?(?:firefox|android)\/addon\/([^/?#]+)/,
+  // Firefox Add-ons latest version download link
+  firefoxDownload: /^https?:\/\/addons\.mozilla\.org\/(?:[a-zA-Z-]+\/)?firefox\/downloads\/latest\/([^/?#]+)/,
   // Just extension ID (32 lowercase letters)
   rawId: /^([a-z]{32})$/,
 } as const;
 
 /**
- * Extract extension ID from various Chrome Web Store URL formats
+ * Firefox add-on identifiers: slug, numeric ID, name@domain or {GUID}
+ */
+const FIREFOX_ADDON_ID_PATTERN = /^[\w.@{}%+-]{1,200}$/;
+
+/**
+ * Extract extension ID from various extension store URL formats
  *
  * Supported formats:
  * - https://chrome.google.com/webstore/detail/extension-name/abcdef...
  * - https://chrome.google.com/webstore/detail/abcdef...
  * - https://clients2.google.com/service/update2/crx?id=abcdef...
- * - Raw 32-character extension ID
+ * - https://microsoftedge.microsoft.com/addons/detail/extension-name/abcdef...
+ * - https://addons.mozilla.org/en-US/firefox/addon/addon-slug/
+ * - Raw 32-character extension ID (treated as a Chrome Web Store ID)
  *
  * @param input - URL or extension ID string
  * @returns Result object with success flag and either extensionId or error message
@@ -59,6 +82,7 @@ export function extractExtensionId(input: string): ExtensionIdResult {
     return {
       success: true,
       extensionId: newStandardMatch[1],
+      store: 'chrome',
     };
   }
 
@@ -68,6 +92,7 @@ export function extractExtensionId(input: string): ExtensionIdResult {
     return {
       success: true,
       extensionId: newStandardNoLabelMatch[1],
+      store: 'chrome',
     };
   }
 
@@ -77,6 +102,7 @@ export function extractExtensionId(input: string): ExtensionIdResult {
     return {
       success: true,
       extensionId: standardMatch[1],
+      store: 'chrome',
     };
   }
 
@@ -86,6 +112,7 @@ export function extractExtensionId(input: string): ExtensionIdResult {
     return {
       success: true,
       extensionId: standardNoLabelMatch[1],
+      store: 'chrome',
     };
   }
 
@@ -95,15 +122,41 @@ export function extractExtensionId(input: string): ExtensionIdResult {
     return {
       success: true,
       extensionId: directCrxMatch[1],
+      store: 'chrome',
+    };
+  }
+
+  // Try Microsoft Edge Add-ons URL
+  const edgeMatch = trimmedInput.match(URL_PATTERNS.edgeDetail);
+  if (edgeMatch) {
+    return {
+      success: true,
+      extensionId: edgeMatch[1],
+      store: 'edge',
     };
   }
 
+  // Try Firefox Add-ons listing or download URL
+  const firefoxMatch =
+    trimmedInput.match(URL_PATTERNS.firefoxDetail) || trimmedInput.match(URL_PATTERNS.firefoxDownload);
+  if (firefoxMatch) {
+    const addonId = safeDecode(firefoxMatch[1]);
+    if (isValidFirefoxAddonId(addonId)) {
+      return {
+        success: true,
+        extensionId: addonId,
+        store: 'firefox',
+      };
+    }
+  }
+
   // Try raw ID
   const rawIdMatch = trimmedInput.match(URL_PATTERNS.rawId);
   if (rawIdMatch) {
     return {
       success: true,
       extensionId: rawIdMatch[1],
+      store: 'chrome',
     };
   }
 
@@ -125,3 +178,53 @@ export function isValidExtensionId(id: unknown): id is string {
   }
   return /^[a-z]{32}$/.test(id);
 }
+
+/**
+ * Validate a Firefox add-on identifier as used by addons.mozilla.org
+ *
+ * @param id - Slug, numeric ID, name@domain or {GUID}
+ * @returns True if the identifier can be used in an AMO download URL
+ */
+export function isValidFirefoxAddonId(id: unknown): id is string {
+  if (typeof id !== 'string') {
+    return false;
+  }
+  return FIREFOX_ADDON_ID_PATTERN.test(id);
+}
+
+/**
+ * Validate an extension identifier for the store it belongs to
+ *
+ * @param id - Identifier to validate
+ * @param store - Store the identifier belongs to
+ * @returns True if valid for the store
+ */
+export function isValidStoreExtensionId(id: unknown, store: ExtensionStore): id is string {
+  return store === 'firefox' ? isValidFirefoxAddonId(id) : isValidExtensionId(id);
+}
+
+/**
+ * Build the public listing URL for an extension
+ *
+ * @param extensionId - Extension ID or Firefox add-on identifier
+ * @param store - Store the extension is listed in
+ * @returns Listing page URL
+ */
+export function buildStoreListingUrl(extensionId: string, store: ExtensionStore): string {
+  switch (store) {
+    case 'edge':
+      return `https://microsoftedge.microsoft.com/addons/detail/${extensionId}`;
+    case 'firefox':
+      return `https://addons.mozilla.org/firefox/addon/${encodeURIComponent(extensionId)}/`;
+    default:
+      return `https://chromewebstore.google.com/detail/${extensionId}`;
+  }
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -3,13 +3,21 @@
  *
  * CRX files are essentially ZIP files with a header prepended.
  * This module strips the CRX header and extracts the raw ZIP data.
+ * Plain ZIP packages (Firefox XPI files, unpacked uploads) are passed
+ * through unchanged.
  */
 
 import { parseCrxHeader } from './header-parser';
 
+/**
+ * Container format of an extension package
+ */
+export type PackageFormat = 'crx' | 'zip';
+
 export interface ConversionSuccess {
   success: true;
   zipData: ArrayBuffer;
+  format: PackageFormat;
 }
 
 export interface ConversionError {
@@ -19,17 +27,53 @@ export interface ConversionError {
 
 export type ConversionResult = ConversionSuccess | ConversionError;
 
+/**
+ * Detect whether a buffer holds a CRX or a plain ZIP package
+ *
+ * @param buffer - Package data
+ * @returns Package format, or null if neither magic number matches
+ */
+export function detectPackageFormat(buffer: ArrayBuffer): PackageFormat | null {
+  if (buffer.byteLength < 4) {
+    return null;
+  }
+
+  const view = new Uint8Array(buffer, 0, 4);
+
+  // "Cr24"
+  if (view[0] === 0x43 && view[1] === 0x72 && view[2] === 0x32 && view[3] === 0x34) {
+    return 'crx';
+  }
+
+  // "PK\x03\x04" (local file header) or "PK\x05\x06" (empty archive)
+  const isLocalHeader = view[2] === 0x03 && view[3] === 0x04;
+  const isEmptyArchive = view[2] === 0x05 && view[3] === 0x06;
+  if (view[0] === 0x50 && view[1] === 0x4b && (isLocalHeader || isEmptyArchive)) {
+    return 'zip';
+  }
+
+  return null;
+}
+
 /**
  * Convert CRX file to ZIP data by stripping the CRX header
  *
  * Parses the CRX header to find the ZIP data offset, then extracts
- * the raw ZIP bytes from the CRX buffer.
+ * the raw ZIP bytes from the CRX buffer. ZIP input is returned as is.
  *
- * @param crxBuffer - ArrayBuffer containing CRX file data
+ * @param crxBuffer - ArrayBuffer containing CRX or ZIP file data
  * @returns Result object with success flag and either zipData or error message
  */
 export function crxToZip(crxBuffer: ArrayBuffer): ConversionResult {
   try {
+    if (detectPackageFormat(crxBuffer) === 'zip') {
+      return {
+        success: true,
+        zipData: crxBuffer,
+        format: 'zip',
+      };
+    }
+
     // Parse the CRX header to get the ZIP offset
     const parseResult = parseCrxHeader(crxBuffer);
 
@@ -74,6 +118,7 @@ export function crxToZip(crxBuffer: ArrayBuffer): ConversionResult {
     return {
       success: true,
       zipData,
+      format: 'crx',
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
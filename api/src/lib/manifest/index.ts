@@ -0,0 +1,37 @@
+/**
+ * Manifest inspection module exports
+ */
+
+export {
+  getMessagesPath,
+  parseMessagesJson,
+  formatMessage,
+  getPredefinedMessage,
+  resolveMessageReferences,
+  findMessageReferences,
+} from './i18n';
+export type {
+  LocaleMessage,
+  MessageCatalog,
+  MessagePlaceholder,
+  PredefinedMessageOptions,
+  ResolvedText,
+} from './i18n';
+
+export { buildManifestView, localizeManifest, normalizeManifestPath } from './manifest-view';
+export type {
+  ContentScriptRunAt,
+  ContentScriptWorld,
+  LocalizedField,
+  ManifestAction,
+  ManifestBackground,
+  ManifestCommand,
+  ManifestContentScript,
+  ManifestCsp,
+  ManifestIcon,
+  ManifestOptionsPage,
+  ManifestPage,
+  ManifestSandbox,
+  ManifestView,
+  ManifestWebAccessibleResource,
+} from './manifest-view';
@@ -0,0 +1,438 @@
+/**
+ * Normalized manifest view
+ *
+ * Turns a parsed manifest.json into one shape for Manifest V2 and V3:
+ * `__MSG_` placeholders resolved from the default locale, defaults filled
+ * in (content script `run_at`, `world`, ...), and every entry point that
+ * names a file (background, content scripts, popup, options, sandbox,
+ * web-accessible resources, icons) collected so it can be linked.
+ */
+
+import { toStringArray } from '../analysis/permissions';
+import { resolveMessageReferences } from './i18n';
+import type { MessageCatalog, PredefinedMessageOptions } from './i18n';
+
+/**
+ * A manifest string that used `__MSG_` placeholders
+ */
+export interface LocalizedField {
+  /** Dotted path of the field, e.g. `action.default_title` */
+  field: string;
+  raw: string;
+  value: string;
+  /** Message names not found in the default locale */
+  missing: string[];
+}
+
+export interface ManifestIcon {
+  size: number | null;
+  path: string;
+}
+
+export interface ManifestBackground {
+  serviceWorker: string | null;
+  scripts: string[];
+  page: string | null;
+  /** Background scripts load as ES modules (`type: "module"`) */
+  isModule: boolean;
+  /** Manifest V2 persistent background page; null when not applicable */
+  persistent: boolean | null;
+}
+
+export type ContentScriptRunAt = 'document_start' | 'document_end' | 'document_idle';
+
+export type ContentScriptWorld = 'ISOLATED' | 'MAIN';
+
+export interface ManifestContentScript {
+  matches: string[];
+  excludeMatches: string[];
+  includeGlobs: string[];
+  excludeGlobs: string[];
+  js: string[];
+  css: string[];
+  runAt: ContentScriptRunAt;
+  allFrames: boolean;
+  matchAboutBlank: boolean;
+  matchOriginAsFallback: boolean;
+  world: ContentScriptWorld;
+}
+
+export interface ManifestAction {
+  /** Manifest key the action is declared under */
+  key: 'action' | 'browser_action' | 'page_action';
+  popup: string | null;
+  title: string | null;
+  icons: ManifestIcon[];
+}
+
+export interface ManifestOptionsPage {
+  path: string;
+  openInTab: boolean;
+}
+
+export interface ManifestCommand {
+  name: string;
+  description: string | null;
+  /** Suggested shortcuts by platform (`default`, `mac`, ...) */
+  suggestedKeys: Record<string, string>;
+  global: boolean;
+}
+
+export interface ManifestCsp {
+  /** `extension_pages` or `sandbox`; `extension` for a Manifest V2 string policy */
+  context: 'extension' | 'extension_pages' | 'sandbox';
+  policy: string;
+}
+
+export interface ManifestSandbox {
+  pages: string[];
+  contentSecurityPolicy: string | null;
+}
+
+export interface ManifestWebAccessibleResource {
+  resources: string[];
+  /** Sites that may load the resources; empty for Manifest V2 entries, which any site may load */
+  matches: string[];
+  extensionIds: string[];
+  useDynamicUrl: boolean;
+}
+
+/**
+ * Extension page other than the popup and options page
+ */
+export interface ManifestPage {
+  /** Manifest field declaring the page, e.g. `chrome_url_overrides.newtab` */
+  field: string;
+  path: string;
+}
+
+export interface ManifestView {
+  name: string;
+  shortName: string | null;
+  description: string | null;
+  version: string;
+  versionName: string | null;
+  manifestVersion: number;
+  defaultLocale: string | null;
+  homepageUrl: string | null;
+  localizedFields: LocalizedField[];
+  /** Message names referenced by the manifest but missing from the default locale */
+  unresolvedMessages: string[];
+  background: ManifestBackground | null;
+  contentScripts: ManifestContentScript[];
+  action: ManifestAction | null;
+  optionsPage: ManifestOptionsPage | null;
+  commands: ManifestCommand[];
+  icons: ManifestIcon[];
+  contentSecurityPolicy: ManifestCsp[];
+  sandbox: ManifestSandbox | null;
+  webAccessibleResources: ManifestWebAccessibleResource[];
+  otherPages: ManifestPage[];
+  /** Every package file the manifest names, normalized and sorted; wildcards excluded */
+  referencedFiles: string[];
+}
+
+const RUN_AT_VALUES: ContentScriptRunAt[] = ['document_start', 'document_end', 'document_idle'];
+
+// Pages declared outside action and options, by manifest path
+const PAGE_FIELDS: [string[], string][] = [
+  [['devtools_page'], 'devtools_page'],
+  [['side_panel', 'default_path'], 'side_panel.default_path'],
+  [['sidebar_action', 'default_panel'], 'sidebar_action.default_panel'],
+  [['chrome_url_overrides', 'newtab'], 'chrome_url_overrides.newtab'],
+  [['chrome_url_overrides', 'bookmarks'], 'chrome_url_overrides.bookmarks'],
+  [['chrome_url_overrides', 'history'], 'chrome_url_overrides.history'],
+  [['chrome_settings_overrides', 'homepage'], 'chrome_settings_overrides.homepage'],
+];
+
+/**
+ * Replace `__MSG_` placeholders throughout a manifest
+ *
+ * @param manifest - Parsed manifest.json object
+ * @param catalog - Messages of the default locale, or null when there are none
+ * @param options - Values for predefined `@@` messages
+ * @returns A resolved copy of the manifest and the fields that were localized
+ */
+export function localizeManifest(
+  manifest: Record<string, unknown>,
+  catalog: MessageCatalog | null,
+  options: PredefinedMessageOptions = {}
+): { manifest: Record<string, unknown>; fields: LocalizedField[] } {
+  const fields: LocalizedField[] = [];
+
+  const visit = (value: unknown, path: string): unknown => {
+    if (typeof value === 'string') {
+      const resolved = resolveMessageReferences(value, catalog, options);
+      if (resolved.keys.length > 0) {
+        fields.push({ field: path, raw: value, value: resolved.value, missing: resolved.missing });
+      }
+      return resolved.value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => visit(item, `${path}[${index}]`));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, visit(item, path ? `${path}.${key}` : key)])
+      );
+    }
+    return value;
+  };
+
+  return { manifest: visit(manifest, '') as Record<string, unknown>, fields };
+}
+
+/**
+ * Build the normalized view of a manifest
+ *
+ * @param manifest - Parsed manifest.json object
+ * @param catalog - Messages of the default locale, or null when there are none
+ * @param options - Values for predefined `@@` messages; `uiLocale` defaults to `default_locale`
+ */
+export function buildManifestView(
+  manifest: Record<string, unknown>,
+  catalog: MessageCatalog | null,
+  options: PredefinedMessageOptions = {}
+): ManifestView {
+  const defaultLocale = asString(manifest.default_locale);
+  const localized = localizeManifest(manifest, catalog, { uiLocale: defaultLocale ?? undefined, ...options });
+  const resolved = localized.manifest;
+  const manifestVersion = typeof resolved.manifest_version === 'number' ? resolved.manifest_version : 0;
+
+  const view: Omit<ManifestView, 'referencedFiles'> = {
+    name: asString(resolved.name) ?? '',
+    shortName: asString(resolved.short_name),
+    description: asString(resolved.description),
+    version: asString(resolved.version) ?? '',
+    versionName: asString(resolved.version_name),
+    manifestVersion,
+    defaultLocale,
+    homepageUrl: asString(resolved.homepage_url),
+    localizedFields: localized.fields,
+    unresolvedMessages: Array.from(new Set(localized.fields.flatMap((field) => field.missing))),
+    background: readBackground(resolved, manifestVersion),
+    contentScripts: readContentScripts(resolved),
+    action: readAction(resolved),
+    optionsPage: readOptionsPage(resolved),
+    commands: readCommands(resolved),
+    icons: readIcons(resolved.icons),
+    contentSecurityPolicy: readCsp(resolved),
+    sandbox: readSandbox(resolved),
+    webAccessibleResources: readWebAccessibleResources(resolved),
+    otherPages: readOtherPages(resolved),
+  };
+
+  return { ...view, referencedFiles: collectReferencedFiles(view) };
+}
+
+/**
+ * Normalize a file path from the manifest to a package path
+ *
+ * Manifest paths are relative to the package root; a leading `/` or `./`
+ * means the same thing, and query strings or fragments are not part of the file.
+ */
+export function normalizeManifestPath(path: string): string {
+  return path.trim().replace(/[?#].*$/, '').replace(/^(\.?\/)+/, '');
+}
+
+function readBackground(manifest: Record<string, unknown>, manifestVersion: number): ManifestBackground | null {
+  const background = asRecord(manifest.background);
+  if (!background) {
+    return null;
+  }
+
+  const serviceWorker = asString(background.service_worker);
+  const scripts = toStringArray(background.scripts).map(normalizeManifestPath);
+  const page = asString(background.page);
+  if (!serviceWorker && scripts.length === 0 && !page) {
+    return null;
+  }
+
+  return {
+    serviceWorker: serviceWorker ? normalizeManifestPath(serviceWorker) : null,
+    scripts,
+    page: page ? normalizeManifestPath(page) : null,
+    isModule: background.type === 'module',
+    persistent: manifestVersion === 2 && !serviceWorker ? background.persistent !== false : null,
+  };
+}
+
+function readContentScripts(manifest: Record<string, unknown>): ManifestContentScript[] {
+  if (!Array.isArray(manifest.content_scripts)) {
+    return [];
+  }
+
+  return manifest.content_scripts.flatMap((entry) => {
+    const script = asRecord(entry);
+    if (!script) {
+      return [];
+    }
+    const runAt = RUN_AT_VALUES.find((value) => value === script.run_at) ?? 'document_idle';
+    return [
+      {
+        matches: toStringArray(script.matches),
+        excludeMatches: toStringArray(script.exclude_matches),
+        includeGlobs: toStringArray(script.include_globs),
+        excludeGlobs: toStringArray(script.exclude_globs),
+        js: toStringArray(script.js).map(normalizeManifestPath),
+        css: toStringArray(script.css).map(normalizeManifestPath),
+        runAt,
+        allFrames: script.all_frames === true,
+        matchAboutBlank: script.match_about_blank === true,
+        matchOriginAsFallback: script.match_origin_as_fallback === true,
+        world: script.world === 'MAIN' ? 'MAIN' : 'ISOLATED',
+      },
+    ];
+  });
+}
+
+function readAction(manifest: Record<string, unknown>): ManifestAction | null {
+  const keys: ManifestAction['key'][] = ['action', 'browser_action', 'page_action'];
+  for (const key of keys) {
+    const action = asRecord(manifest[key]);
+    if (action) {
+      const popup = asString(action.default_popup);
+      return {
+        key,
+        popup: popup ? normalizeManifestPath(popup) : null,
+        title: asString(action.default_title),
+        icons: readIcons(action.default_icon),
+      };
+    }
+  }
+  return null;
+}
+
+function readOptionsPage(manifest: Record<string, unknown>): ManifestOptionsPage | null {
+  const optionsUi = asRecord(manifest.options_ui);
+  const uiPage = asString(optionsUi?.page);
+  if (optionsUi && uiPage) {
+    return { path: normalizeManifestPath(uiPage), openInTab: optionsUi.open_in_tab === true };
+  }
+
+  const page = asString(manifest.options_page);
+  return page ? { path: normalizeManifestPath(page), openInTab: true } : null;
+}
+
+function readCommands(manifest: Record<string, unknown>): ManifestCommand[] {
+  const commands = asRecord(manifest.commands);
+  if (!commands) {
+    return [];
+  }
+
+  return Object.entries(commands).map(([name, value]) => {
+    const command = asRecord(value) ?? {};
+    const suggested = command.suggested_key;
+    const suggestedKeys: Record<string, string> =
+      typeof suggested === 'string'
+        ? { default: suggested }
+        : Object.fromEntries(
+            Object.entries(asRecord(suggested) ?? {}).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+          );
+    return { name, description: asString(command.description), suggestedKeys, global: command.global === true };
+  });
+}
+
+function readIcons(value: unknown): ManifestIcon[] {
+  if (typeof value === 'string') {
+    return [{ size: null, path: normalizeManifestPath(value) }];
+  }
+
+  return Object.entries(asRecord(value) ?? {})
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    .map(([size, path]) => ({ size: Number.parseInt(size, 10) || null, path: normalizeManifestPath(path) }))
+    .sort((a, b) => (a.size ?? 0) - (b.size ?? 0));
+}
+
+function readCsp(manifest: Record<string, unknown>): ManifestCsp[] {
+  const raw = manifest.content_security_policy;
+  if (typeof raw === 'string') {
+    return [{ context: 'extension', policy: raw }];
+  }
+
+  const policies: ManifestCsp[] = [];
+  const csp = asRecord(raw);
+  for (const context of ['extension_pages', 'sandbox'] as const) {
+    const policy = asString(csp?.[context]);
+    if (policy) {
+      policies.push({ context, policy });
+    }
+  }
+  return policies;
+}
+
+function readSandbox(manifest: Record<string, unknown>): ManifestSandbox | null {
+  const sandbox = asRecord(manifest.sandbox);
+  const pages = toStringArray(sandbox?.pages).map(normalizeManifestPath);
+  if (!sandbox || pages.length === 0) {
+    return null;
+  }
+  return { pages, contentSecurityPolicy: asString(sandbox.content_security_policy) };
+}
+
+function readWebAccessibleResources(manifest: Record<string, unknown>): ManifestWebAccessibleResource[] {
+  const raw = manifest.web_accessible_resources;
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  // Manifest V2 lists bare paths, exposed to every site
+  const legacy = toStringArray(raw);
+  const entries: ManifestWebAccessibleResource[] =
+    legacy.length > 0
+      ? [{ resources: legacy.map(normalizeManifestPath), matches: [], extensionIds: [], useDynamicUrl: false }]
+      : [];
+
+  for (const item of raw) {
+    const entry = asRecord(item);
+    if (entry) {
+      entries.push({
+        resources: toStringArray(entry.resources).map(normalizeManifestPath),
+        matches: toStringArray(entry.matches),
+        extensionIds: toStringArray(entry.extension_ids),
+        useDynamicUrl: entry.use_dynamic_url === true,
+      });
+    }
+  }
+  return entries;
+}
+
+function readOtherPages(manifest: Record<string, unknown>): ManifestPage[] {
+  return PAGE_FIELDS.flatMap(([path, field]) => {
+    let value: unknown = manifest;
+    for (const key of path) {
+      value = asRecord(value)?.[key];
+    }
+    const page = asString(value);
+    // Settings overrides may point at a web URL rather than a package file
+    return page && !/^[a-z][a-z0-9+.-]*:/i.test(page) ? [{ field, path: normalizeManifestPath(page) }] : [];
+  });
+}
+
+function collectReferencedFiles(view: Omit<ManifestView, 'referencedFiles'>): string[] {
+  const files = [
+    view.background?.serviceWorker,
+    ...(view.background?.scripts ?? []),
+    view.background?.page,
+    ...view.contentScripts.flatMap((script) => [...script.js, ...script.css]),
+    view.action?.popup,
+    ...(view.action?.icons.map((icon) => icon.path) ?? []),
+    view.optionsPage?.path,
+    ...view.icons.map((icon) => icon.path),
+    ...(view.sandbox?.pages ?? []),
+    ...view.webAccessibleResources.flatMap((entry) => entry.resources),
+    ...view.otherPages.map((page) => page.path),
+  ];
+
+  return Array.from(
+    new Set(files.filter((file): file is string => Boolean(file) && !/[*?]/.test(file as string)))
+  ).sort();
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
@@ -0,0 +1,22 @@
+/**
+ * Extension policy libraries
+ * Exported for use throughout the API
+ */
+
+export {
+  POLICY_RULE_TYPES,
+  parsePolicy,
+  validatePolicy,
+  evaluatePolicy,
+  parseSize,
+  globToRegExp,
+  type ExtensionPolicy,
+  type PolicyInput,
+  type PolicyReport,
+  type PolicyResult,
+  type PolicyRule,
+  type PolicyRuleResult,
+  type PolicyRuleSeverity,
+  type PolicyRuleType,
+  type PolicyViolation,
+} from './policy';
@@ -0,0 +1,578 @@
+/**
+ * Declarative extension policies
+ *
+ * A policy is a list of rules written as JSON or YAML, for example:
+ *
+ * ```yaml
+ * name: Corporate extension policy
+ * rules:
+ *   - id: no-all-urls
+ *     type: forbidden-permissions
+ *     permissions: ["<all_urls>", webRequestBlocking]
+ *   - id: no-remote-scripts
+ *     type: csp
+ *     forbid: [remote-scripts]
+ *   - id: size
+ *     type: max-package-size
+ *     size: 10MB
+ *     severity: warning
+ * ```
+ *
+ * Rules are evaluated against the manifest, the file list and the security
+ * analysis findings. A policy passes when no rule of severity `error` fails;
+ * failing `warning` rules are reported without failing the policy.
+ */
+
+import { load as loadYaml } from 'js-yaml';
+import { analyzeManifest, calculateRiskLevel } from '../analysis/manifest-analyzer';
+import type { AnalysisIssue } from '../analysis/manifest-analyzer';
+import { isAllUrlsPattern, toStringArray } from '../analysis/permissions';
+import type { RiskLevel } from '../analysis/permissions';
+
+export type PolicyRuleSeverity = 'error' | 'warning';
+
+export type CspRequirement = 'remote-scripts' | 'unsafe-eval' | 'unsafe-inline';
+
+interface PolicyRuleBase {
+  /** Unique rule identifier, reported with each result */
+  id: string;
+  description?: string;
+  /** Defaults to `error` */
+  severity: PolicyRuleSeverity;
+}
+
+/**
+ * Fail if any of these permissions, host patterns or content script matches is declared
+ *
+ * Forbidding `<all_urls>` also forbids match patterns whose host is a bare
+ * `*`, since they grant the same access.
+ */
+export interface ForbiddenPermissionsRule extends PolicyRuleBase {
+  type: 'forbidden-permissions';
+  permissions: string[];
+}
+
+/** Fail if a permission or host pattern outside this list is declared */
+export interface AllowedPermissionsRule extends PolicyRuleBase {
+  type: 'allowed-permissions';
+  permissions: string[];
+}
+
+/** Fail if the content security policy allows any of these */
+export interface CspRule extends PolicyRuleBase {
+  type: 'csp';
+  forbid: CspRequirement[];
+}
+
+/** Fail if the package is larger than this many bytes */
+export interface MaxPackageSizeRule extends PolicyRuleBase {
+  type: 'max-package-size';
+  size: number;
+}
+
+/** Fail if the package contains more files than this */
+export interface MaxFileCountRule extends PolicyRuleBase {
+  type: 'max-file-count';
+  count: number;
+}
+
+/** Fail if manifest_version is below this */
+export interface ManifestVersionRule extends PolicyRuleBase {
+  type: 'min-manifest-version';
+  version: number;
+}
+
+/** Fail if a file path matches one of these glob patterns */
+export interface ForbiddenFilesRule extends PolicyRuleBase {
+  type: 'forbidden-files';
+  patterns: string[];
+}
+
+/** Fail if the analysis reports one of these issue codes */
+export interface ForbiddenIssuesRule extends PolicyRuleBase {
+  type: 'forbidden-issues';
+  codes: string[];
+}
+
+/** Fail if the overall risk level is above this */
+export interface MaxRiskLevelRule extends PolicyRuleBase {
+  type: 'max-risk-level';
+  level: RiskLevel;
+}
+
+export type PolicyRule =
+  | ForbiddenPermissionsRule
+  | AllowedPermissionsRule
+  | CspRule
+  | MaxPackageSizeRule
+  | MaxFileCountRule
+  | ManifestVersionRule
+  | ForbiddenFilesRule
+  | ForbiddenIssuesRule
+  | MaxRiskLevelRule;
+
+export type PolicyRuleType = PolicyRule['type'];
+
+export interface ExtensionPolicy {
+  name?: string;
+  description?: string;
+  rules: PolicyRule[];
+}
+
+/**
+ * What a policy is evaluated against
+ */
+export interface PolicyInput {
+  manifest: Record<string, unknown>;
+  files: Array<{ path: string; size: number }>;
+  /** Size of the package file in bytes */
+  packageSize: number;
+  /** Code scanner findings; manifest findings are computed from the manifest */
+  codeIssues?: AnalysisIssue[];
+}
+
+export interface PolicyViolation {
+  message: string;
+  file?: string;
+  line?: number;
+}
+
+export interface PolicyRuleResult {
+  id: string;
+  type: PolicyRuleType;
+  description?: string;
+  severity: PolicyRuleSeverity;
+  passed: boolean;
+  violations: PolicyViolation[];
+}
+
+export interface PolicyReport {
+  policyName?: string;
+  /** False when any `error` rule failed */
+  passed: boolean;
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    warnings: number;
+  };
+  results: PolicyRuleResult[];
+}
+
+interface PolicySuccess {
+  success: true;
+  policy: ExtensionPolicy;
+}
+
+interface PolicyError {
+  success: false;
+  error: string;
+}
+
+export type PolicyResult = PolicySuccess | PolicyError;
+
+export const POLICY_RULE_TYPES: readonly PolicyRuleType[] = [
+  'forbidden-permissions',
+  'allowed-permissions',
+  'csp',
+  'max-package-size',
+  'max-file-count',
+  'min-manifest-version',
+  'forbidden-files',
+  'forbidden-issues',
+  'max-risk-level',
+];
+
+const CSP_REQUIREMENTS: readonly CspRequirement[] = ['remote-scripts', 'unsafe-eval', 'unsafe-inline'];
+
+const CSP_ISSUE_CODES: Record<CspRequirement, string> = {
+  'remote-scripts': 'CSP_REMOTE_SCRIPT',
+  'unsafe-eval': 'CSP_UNSAFE_EVAL',
+  'unsafe-inline': 'CSP_UNSAFE_INLINE',
+};
+
+const RISK_LEVELS: readonly RiskLevel[] = ['low', 'medium', 'high'];
+
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+const MAX_RULES = 200;
+const MAX_LIST_ENTRIES = 500;
+const MAX_ENTRY_LENGTH = 500;
+
+/**
+ * Parse policy text
+ *
+ * JSON is valid YAML, so one parser handles both formats.
+ *
+ * @param text - Policy document
+ * @returns Result object with the validated policy or the first problem found
+ */
+export function parsePolicy(text: string): PolicyResult {
+  let value: unknown;
+  try {
+    value = loadYaml(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+    return { success: false, error: `Failed to parse policy: ${message}` };
+  }
+  return validatePolicy(value);
+}
+
+/**
+ * Validate a parsed policy document
+ *
+ * @param value - Parsed JSON or YAML value
+ * @returns Result object with the normalized policy or the first problem found
+ */
+export function validatePolicy(value: unknown): PolicyResult {
+  if (!isRecord(value)) {
+    return { success: false, error: 'Policy must be an object with a rules list' };
+  }
+  if (value.name !== undefined && typeof value.name !== 'string') {
+    return { success: false, error: 'Policy name must be a string' };
+  }
+  if (value.description !== undefined && typeof value.description !== 'string') {
+    return { success: false, error: 'Policy description must be a string' };
+  }
+  if (!Array.isArray(value.rules) || value.rules.length === 0) {
+    return { success: false, error: 'Policy must have at least one rule' };
+  }
+  if (value.rules.length > MAX_RULES) {
+    return { success: false, error: `Policy cannot have more than ${MAX_RULES} rules` };
+  }
+
+  const rules: PolicyRule[] = [];
+  const ids = new Set<string>();
+  for (const [index, entry] of value.rules.entries()) {
+    const rule = validateRule(entry);
+    if (typeof rule === 'string') {
+      const id = isRecord(entry) && typeof entry.id === 'string' ? ` (${entry.id})` : '';
+      return { success: false, error: `Rule ${index + 1}${id}: ${rule}` };
+    }
+    if (ids.has(rule.id)) {
+      return { success: false, error: `Rule ${index + 1}: duplicate id ${rule.id}` };
+    }
+    ids.add(rule.id);
+    rules.push(rule);
+  }
+
+  return {
+    success: true,
+    policy: {
+      name: value.name as string | undefined,
+      description: value.description as string | undefined,
+      rules,
+    },
+  };
+}
+
+/**
+ * Evaluate a policy
+ *
+ * @param policy - Validated policy
+ * @param input - Manifest, files and findings of the extension
+ * @returns Result of every rule, in policy order
+ */
+export function evaluatePolicy(policy: ExtensionPolicy, input: PolicyInput): PolicyReport {
+  const analysis = analyzeManifest(input.manifest);
+  const issues = [...analysis.issues, ...(input.codeIssues ?? [])];
+  const context: EvaluationContext = {
+    input,
+    issues,
+    declared: getDeclaredPermissions(input.manifest),
+    riskLevel: calculateRiskLevel(analysis.permissions, issues),
+    manifestVersion: analysis.manifestVersion,
+  };
+
+  const results = policy.rules.map((rule): PolicyRuleResult => {
+    const violations = evaluateRule(rule, context);
+    return {
+      id: rule.id,
+      type: rule.type,
+      description: rule.description,
+      severity: rule.severity,
+      passed: violations.length === 0,
+      violations,
+    };
+  });
+
+  const failed = results.filter((result) => !result.passed);
+  const errors = failed.filter((result) => result.severity === 'error').length;
+
+  return {
+    policyName: policy.name,
+    passed: errors === 0,
+    summary: {
+      total: results.length,
+      passed: results.length - failed.length,
+      failed: errors,
+      warnings: failed.length - errors,
+    },
+    results,
+  };
+}
+
+/**
+ * Parse a size such as `10MB`, `512 KB` or a plain number of bytes
+ *
+ * @param value - Size from a policy
+ * @returns Size in bytes, or null if the value is not a size
+ */
+export function parseSize(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([kmg]?b)?\s*$/i.exec(value);
+  if (!match) {
+    return null;
+  }
+  return Math.round(Number(match[1]) * SIZE_UNITS[(match[2] ?? 'b').toLowerCase()]);
+}
+
+/**
+ * Convert a glob pattern to an anchored regular expression
+ *
+ * `**` matches across directories, `*` and `?` within one path segment.
+ * Patterns without a `/` match the file name in any directory.
+ *
+ * @param pattern - Glob pattern such as `*.map` or `vendor/**`
+ * @returns Regular expression matching whole paths
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const anyDirectory = !pattern.includes('/');
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` also matches no directory at all
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${anyDirectory ? '(?:.*/)?' : ''}${source.replace(/^\//, '')}$`);
+}
+
+interface EvaluationContext {
+  input: PolicyInput;
+  issues: AnalysisIssue[];
+  declared: DeclaredPermission[];
+  riskLevel: RiskLevel;
+  manifestVersion: number;
+}
+
+interface DeclaredPermission {
+  value: string;
+  /** Manifest key the value was declared in */
+  source: string;
+}
+
+function evaluateRule(rule: PolicyRule, context: EvaluationContext): PolicyViolation[] {
+  const { input, issues, declared } = context;
+
+  switch (rule.type) {
+    case 'forbidden-permissions': {
+      const forbidden = new Set(rule.permissions);
+      const forbidsAllUrls = forbidden.has('<all_urls>');
+      return declared
+        .filter(
+          (permission) => forbidden.has(permission.value) || (forbidsAllUrls && isAllUrlsPattern(permission.value))
+        )
+        .map((permission) => ({
+          message: forbidden.has(permission.value)
+            ? `"${permission.value}" is declared in ${permission.source}`
+            : `"${permission.value}" is declared in ${permission.source}, granting the same access as <all_urls>`,
+          file: 'manifest.json',
+        }));
+    }
+
+    case 'allowed-permissions': {
+      const allowed = new Set(rule.permissions);
+      return declared
+        .filter((permission) => !permission.source.startsWith('content_scripts') && !allowed.has(permission.value))
+        .map((permission) => ({
+          message: `"${permission.value}" in ${permission.source} is not on the allow list`,
+          file: 'manifest.json',
+        }));
+    }
+
+    case 'csp': {
+      const codes = new Set(rule.forbid.map((requirement) => CSP_ISSUE_CODES[requirement]));
+      return issues
+        .filter((issue) => codes.has(issue.code))
+        .map((issue) => ({ message: issue.message, file: issue.file, line: issue.line }));
+    }
+
+    case 'max-package-size':
+      return input.packageSize > rule.size
+        ? [{ message: `Package is ${formatBytes(input.packageSize)}, limit is ${formatBytes(rule.size)}` }]
+        : [];
+
+    case 'max-file-count':
+      return input.files.length > rule.count
+        ? [{ message: `Package has ${input.files.length} files, limit is ${rule.count}` }]
+        : [];
+
+    case 'min-manifest-version':
+      return context.manifestVersion < rule.version
+        ? [
+            {
+              message: `manifest_version is ${context.manifestVersion || 'missing'}, minimum is ${rule.version}`,
+              file: 'manifest.json',
+            },
+          ]
+        : [];
+
+    case 'forbidden-files': {
+      const patterns = rule.patterns.map(globToRegExp);
+      return input.files
+        .filter((file) => patterns.some((pattern) => pattern.test(file.path)))
+        .map((file) => ({ message: `${file.path} is not allowed`, file: file.path }));
+    }
+
+    case 'forbidden-issues': {
+      const codes = new Set(rule.codes);
+      return issues
+        .filter((issue) => codes.has(issue.code))
+        .map((issue) => ({ message: `${issue.code}: ${issue.message}`, file: issue.file, line: issue.line }));
+    }
+
+    case 'max-risk-level':
+      return RISK_LEVELS.indexOf(context.riskLevel) > RISK_LEVELS.indexOf(rule.level)
+        ? [{ message: `Risk level is ${context.riskLevel}, maximum is ${rule.level}` }]
+        : [];
+  }
+}
+
+/**
+ * Every permission, host pattern and content script match in the manifest
+ */
+function getDeclaredPermissions(manifest: Record<string, unknown>): DeclaredPermission[] {
+  const declared: DeclaredPermission[] = [];
+  for (const source of ['permissions', 'host_permissions', 'optional_permissions', 'optional_host_permissions']) {
+    for (const value of toStringArray(manifest[source])) {
+      declared.push({ value, source });
+    }
+  }
+
+  const contentScripts = Array.isArray(manifest.content_scripts) ? manifest.content_scripts : [];
+  contentScripts.forEach((script, index) => {
+    if (isRecord(script)) {
+      for (const value of toStringArray(script.matches)) {
+        declared.push({ value, source: `content_scripts[${index}].matches` });
+      }
+    }
+  });
+
+  return declared;
+}
+
+/**
+ * Validate one rule, returning the rule or an error message
+ */
+function validateRule(value: unknown): PolicyRule | string {
+  if (!isRecord(value)) {
+    return 'must be an object';
+  }
+  if (typeof value.id !== 'string' || !value.id.trim() || value.id.length > 100) {
+    return 'id must be a non-empty string of at most 100 characters';
+  }
+  if (typeof value.type !== 'string' || !(POLICY_RULE_TYPES as readonly string[]).includes(value.type)) {
+    return `type must be one of ${POLICY_RULE_TYPES.join(', ')}`;
+  }
+  if (value.description !== undefined && typeof value.description !== 'string') {
+    return 'description must be a string';
+  }
+  const severity = value.severity ?? 'error';
+  if (severity !== 'error' && severity !== 'warning') {
+    return 'severity must be error or warning';
+  }
+
+  const base = {
+    id: value.id.trim(),
+    description: value.description as string | undefined,
+    severity: severity as PolicyRuleSeverity,
+  };
+
+  switch (value.type as PolicyRuleType) {
+    case 'forbidden-permissions':
+    case 'allowed-permissions': {
+      const permissions = readStringList(value.permissions);
+      if (!permissions) {
+        return 'permissions must be a list of strings';
+      }
+      return { ...base, type: value.type as 'forbidden-permissions' | 'allowed-permissions', permissions };
+    }
+    case 'csp': {
+      const forbid = readStringList(value.forbid);
+      if (!forbid || !forbid.every((entry) => (CSP_REQUIREMENTS as readonly string[]).includes(entry))) {
+        return `forbid must be a list of ${CSP_REQUIREMENTS.join(', ')}`;
+      }
+      return { ...base, type: 'csp', forbid: forbid as CspRequirement[] };
+    }
+    case 'max-package-size': {
+      const size = parseSize(value.size);
+      return size === null
+        ? 'size must be a number of bytes or a size such as 10MB'
+        : { ...base, type: 'max-package-size', size };
+    }
+    case 'max-file-count':
+      return isNonNegativeInteger(value.count)
+        ? { ...base, type: 'max-file-count', count: value.count }
+        : 'count must be a non-negative integer';
+    case 'min-manifest-version':
+      return value.version === 2 || value.version === 3
+        ? { ...base, type: 'min-manifest-version', version: value.version }
+        : 'version must be 2 or 3';
+    case 'forbidden-files': {
+      const patterns = readStringList(value.patterns);
+      return patterns ? { ...base, type: 'forbidden-files', patterns } : 'patterns must be a list of glob patterns';
+    }
+    case 'forbidden-issues': {
+      const codes = readStringList(value.codes);
+      return codes ? { ...base, type: 'forbidden-issues', codes } : 'codes must be a list of issue codes';
+    }
+    case 'max-risk-level':
+      return (RISK_LEVELS as readonly unknown[]).includes(value.level)
+        ? { ...base, type: 'max-risk-level', level: value.level as RiskLevel }
+        : `level must be one of ${RISK_LEVELS.join(', ')}`;
+  }
+}
+
+/**
+ * A non-empty list of non-empty strings, or null
+ */
+function readStringList(list: unknown): string[] | null {
+  if (
+    !Array.isArray(list) ||
+    list.length === 0 ||
+    list.length > MAX_LIST_ENTRIES ||
+    !list.every((entry) => typeof entry === 'string' && entry.length > 0 && entry.length <= MAX_ENTRY_LENGTH)
+  ) {
+    return null;
+  }
+  return list as string[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+}
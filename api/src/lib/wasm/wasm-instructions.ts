@@ -0,0 +1,298 @@
+/**
+ * WebAssembly instruction decoding
+ *
+ * Decodes one instruction at a time into its text-format mnemonic and
+ * immediates. Covers the core instruction set plus sign extension,
+ * saturating truncation, bulk memory, reference types, tail calls and
+ * exceptions. SIMD and atomic instructions are decoded far enough to skip
+ * them correctly but shown by opcode number.
+ */
+
+import { WasmReader, valueTypeName } from './wasm-reader';
+
+/**
+ * How an instruction affects block nesting
+ */
+export type WasmInstructionKind = 'plain' | 'block' | 'else' | 'end';
+
+export interface WasmInstruction {
+  /** Byte offset of the opcode within the module */
+  offset: number;
+  mnemonic: string;
+  /** Immediates in text-format order */
+  immediates: string[];
+  kind: WasmInstructionKind;
+  /** Callee of call, return_call and ref.func */
+  functionIndex?: number;
+}
+
+const MEMORY_OPCODES = [
+  'i32.load', 'i64.load', 'f32.load', 'f64.load',
+  'i32.load8_s', 'i32.load8_u', 'i32.load16_s', 'i32.load16_u',
+  'i64.load8_s', 'i64.load8_u', 'i64.load16_s', 'i64.load16_u', 'i64.load32_s', 'i64.load32_u',
+  'i32.store', 'i64.store', 'f32.store', 'f64.store',
+  'i32.store8', 'i32.store16', 'i64.store8', 'i64.store16', 'i64.store32',
+];
+
+const INTEGER_OPS = ['clz', 'ctz', 'popcnt', 'add', 'sub', 'mul', 'div_s', 'div_u', 'rem_s', 'rem_u',
+  'and', 'or', 'xor', 'shl', 'shr_s', 'shr_u', 'rotl', 'rotr'];
+const FLOAT_OPS = ['abs', 'neg', 'ceil', 'floor', 'trunc', 'nearest', 'sqrt', 'add', 'sub', 'mul', 'div',
+  'min', 'max', 'copysign'];
+const INTEGER_COMPARISONS = ['eqz', 'eq', 'ne', 'lt_s', 'lt_u', 'gt_s', 'gt_u', 'le_s', 'le_u', 'ge_s', 'ge_u'];
+const FLOAT_COMPARISONS = ['eq', 'ne', 'lt', 'gt', 'le', 'ge'];
+
+// Opcodes 0x45 to 0xc4, which take no immediates
+const NUMERIC_OPCODES = [
+  ...INTEGER_COMPARISONS.map((op) => `i32.${op}`),
+  ...INTEGER_COMPARISONS.map((op) => `i64.${op}`),
+  ...FLOAT_COMPARISONS.map((op) => `f32.${op}`),
+  ...FLOAT_COMPARISONS.map((op) => `f64.${op}`),
+  ...INTEGER_OPS.map((op) => `i32.${op}`),
+  ...INTEGER_OPS.map((op) => `i64.${op}`),
+  ...FLOAT_OPS.map((op) => `f32.${op}`),
+  ...FLOAT_OPS.map((op) => `f64.${op}`),
+  'i32.wrap_i64', 'i32.trunc_f32_s', 'i32.trunc_f32_u', 'i32.trunc_f64_s', 'i32.trunc_f64_u',
+  'i64.extend_i32_s', 'i64.extend_i32_u', 'i64.trunc_f32_s', 'i64.trunc_f32_u', 'i64.trunc_f64_s', 'i64.trunc_f64_u',
+  'f32.convert_i32_s', 'f32.convert_i32_u', 'f32.convert_i64_s', 'f32.convert_i64_u', 'f32.demote_f64',
+  'f64.convert_i32_s', 'f64.convert_i32_u', 'f64.convert_i64_s', 'f64.convert_i64_u', 'f64.promote_f32',
+  'i32.reinterpret_f32', 'i64.reinterpret_f64', 'f32.reinterpret_i32', 'f64.reinterpret_i64',
+  'i32.extend8_s', 'i32.extend16_s', 'i64.extend8_s', 'i64.extend16_s', 'i64.extend32_s',
+];
+
+const SIMPLE_OPCODES: Record<number, string> = {
+  0x00: 'unreachable', 0x01: 'nop', 0x0f: 'return', 0x19: 'catch_all',
+  0x1a: 'drop', 0x1b: 'select', 0xd1: 'ref.is_null',
+};
+
+const INDEX_OPCODES: Record<number, string> = {
+  0x07: 'catch', 0x08: 'throw', 0x09: 'rethrow', 0x0c: 'br', 0x0d: 'br_if', 0x18: 'delegate',
+  0x20: 'local.get', 0x21: 'local.set', 0x22: 'local.tee', 0x23: 'global.get', 0x24: 'global.set',
+  0x25: 'table.get', 0x26: 'table.set',
+};
+
+const SATURATING_TRUNCATIONS = [
+  'i32.trunc_sat_f32_s', 'i32.trunc_sat_f32_u', 'i32.trunc_sat_f64_s', 'i32.trunc_sat_f64_u',
+  'i64.trunc_sat_f32_s', 'i64.trunc_sat_f32_u', 'i64.trunc_sat_f64_s', 'i64.trunc_sat_f64_u',
+];
+
+/**
+ * Decode the instruction at the reader's offset and advance past it
+ *
+ * @param reader - Reader positioned at an opcode
+ * @returns The decoded instruction
+ * @throws Error on unknown opcodes or truncated immediates
+ */
+export function readInstruction(reader: WasmReader): WasmInstruction {
+  const offset = reader.offset;
+  const opcode = reader.readByte();
+  const instruction = (mnemonic: string, immediates: string[] = [], kind: WasmInstructionKind = 'plain') => ({
+    offset,
+    mnemonic,
+    immediates,
+    kind,
+  });
+
+  if (SIMPLE_OPCODES[opcode]) {
+    return instruction(SIMPLE_OPCODES[opcode]);
+  }
+  if (INDEX_OPCODES[opcode]) {
+    return instruction(INDEX_OPCODES[opcode], [String(reader.readU32())]);
+  }
+  if (opcode >= 0x28 && opcode <= 0x3e) {
+    return instruction(MEMORY_OPCODES[opcode - 0x28], readMemoryArgument(reader));
+  }
+  if (opcode >= 0x45 && opcode <= 0xc4) {
+    return instruction(NUMERIC_OPCODES[opcode - 0x45]);
+  }
+
+  switch (opcode) {
+    case 0x02:
+    case 0x03:
+    case 0x04:
+    case 0x06:
+      return instruction(
+        { 0x02: 'block', 0x03: 'loop', 0x04: 'if', 0x06: 'try' }[opcode],
+        readBlockType(reader),
+        'block'
+      );
+    case 0x05:
+      return instruction('else', [], 'else');
+    case 0x0b:
+      return instruction('end', [], 'end');
+    case 0x0e: {
+      const labels = reader.readVector(() => String(reader.readU32()));
+      return instruction('br_table', [...labels, String(reader.readU32())]);
+    }
+    case 0x10:
+    case 0x12: {
+      const functionIndex = reader.readU32();
+      return { ...instruction(opcode === 0x10 ? 'call' : 'return_call'), functionIndex };
+    }
+    case 0x11:
+    case 0x13: {
+      const typeIndex = reader.readU32();
+      const tableIndex = reader.readU32();
+      return instruction(opcode === 0x11 ? 'call_indirect' : 'return_call_indirect', [
+        ...(tableIndex ? [String(tableIndex)] : []),
+        `(type ${typeIndex})`,
+      ]);
+    }
+    case 0x1c:
+      return instruction('select', [`(result ${reader.readVector(() => reader.readValueType()).join(' ')})`]);
+    case 0x3f:
+    case 0x40: {
+      const memory = reader.readU32();
+      return instruction(opcode === 0x3f ? 'memory.size' : 'memory.grow', memory ? [String(memory)] : []);
+    }
+    case 0x41:
+      return instruction('i32.const', [String(reader.readSigned(32))]);
+    case 0x42:
+      return instruction('i64.const', [String(reader.readSigned(64))]);
+    case 0x43:
+      return instruction('f32.const', [formatFloat(reader.readF32())]);
+    case 0x44:
+      return instruction('f64.const', [formatFloat(reader.readF64())]);
+    case 0xd0: {
+      const type = reader.readValueType();
+      return instruction('ref.null', [type === 'funcref' ? 'func' : 'extern']);
+    }
+    case 0xd2: {
+      const functionIndex = reader.readU32();
+      return { ...instruction('ref.func'), functionIndex };
+    }
+    case 0xfc:
+      return readMiscInstruction(reader, offset);
+    case 0xfd:
+      return readSimdInstruction(reader, offset);
+    case 0xfe:
+      return readAtomicInstruction(reader, offset);
+  }
+
+  reader.offset = offset;
+  return reader.fail(`Unknown opcode 0x${opcode.toString(16)}`);
+}
+
+/**
+ * Read a block type: empty, a single value type or a type index
+ */
+function readBlockType(reader: WasmReader): string[] {
+  const byte = reader.data[reader.offset];
+  if (byte === 0x40) {
+    reader.offset++;
+    return [];
+  }
+
+  const type = valueTypeName(byte);
+  if (type) {
+    reader.offset++;
+    return [`(result ${type})`];
+  }
+
+  return [`(type ${reader.readSigned(33)})`];
+}
+
+/**
+ * Read a memory argument, showing the offset and any memory index
+ */
+function readMemoryArgument(reader: WasmReader): string[] {
+  const align = reader.readU32();
+  // Bit 6 of the alignment flags an explicit memory index (multi-memory)
+  const memory = align & 0x40 ? reader.readU32() : 0;
+  const offset = reader.readU32();
+  return [...(memory ? [String(memory)] : []), ...(offset ? [`offset=${offset}`] : [])];
+}
+
+/**
+ * Instructions behind the 0xfc prefix
+ */
+function readMiscInstruction(reader: WasmReader, offset: number): WasmInstruction {
+  const opcode = reader.readU32();
+  const instruction = (mnemonic: string, immediates: string[] = []): WasmInstruction => ({
+    offset,
+    mnemonic,
+    immediates,
+    kind: 'plain',
+  });
+
+  if (opcode < SATURATING_TRUNCATIONS.length) {
+    return instruction(SATURATING_TRUNCATIONS[opcode]);
+  }
+
+  switch (opcode) {
+    case 8: {
+      const data = reader.readU32();
+      reader.readU32();
+      return instruction('memory.init', [String(data)]);
+    }
+    case 9:
+      return instruction('data.drop', [String(reader.readU32())]);
+    case 10:
+      reader.readU32();
+      reader.readU32();
+      return instruction('memory.copy');
+    case 11:
+      reader.readU32();
+      return instruction('memory.fill');
+    case 12: {
+      const element = reader.readU32();
+      const table = reader.readU32();
+      return instruction('table.init', [String(table), String(element)]);
+    }
+    case 13:
+      return instruction('elem.drop', [String(reader.readU32())]);
+    case 14: {
+      const destination = reader.readU32();
+      return instruction('table.copy', [String(destination), String(reader.readU32())]);
+    }
+    case 15:
+    case 16:
+    case 17:
+      return instruction(['table.grow', 'table.size', 'table.fill'][opcode - 15], [String(reader.readU32())]);
+  }
+
+  reader.offset = offset;
+  return reader.fail(`Unknown opcode 0xfc ${opcode}`);
+}
+
+/**
+ * Instructions behind the 0xfd prefix, decoded by immediate layout only
+ */
+function readSimdInstruction(reader: WasmReader, offset: number): WasmInstruction {
+  const opcode = reader.readU32();
+  let immediates: string[] = [];
+
+  if (opcode <= 11 || opcode === 92 || opcode === 93) {
+    immediates = readMemoryArgument(reader);
+  } else if (opcode === 12 || opcode === 13) {
+    immediates = Array.from(reader.readBytes(16), (byte) => String(byte));
+  } else if (opcode >= 21 && opcode <= 34) {
+    immediates = [String(reader.readByte())];
+  } else if (opcode >= 84 && opcode <= 91) {
+    immediates = [...readMemoryArgument(reader), String(reader.readByte())];
+  }
+
+  const mnemonic = opcode === 12 ? 'v128.const i8x16' : opcode === 13 ? 'i8x16.shuffle' : `simd.0x${opcode.toString(16)}`;
+  return { offset, mnemonic, immediates, kind: 'plain' };
+}
+
+/**
+ * Instructions behind the 0xfe prefix (threads proposal)
+ */
+function readAtomicInstruction(reader: WasmReader, offset: number): WasmInstruction {
+  const opcode = reader.readU32();
+  if (opcode === 0x03) {
+    reader.readByte();
+    return { offset, mnemonic: 'atomic.fence', immediates: [], kind: 'plain' };
+  }
+  return { offset, mnemonic: `atomic.0x${opcode.toString(16)}`, immediates: readMemoryArgument(reader), kind: 'plain' };
+}
+
+/**
+ * Write a float the way the text format does
+ */
+function formatFloat(value: number): string {
+  if (Number.isNaN(value)) return 'nan';
+  if (value === Infinity) return 'inf';
+  if (value === -Infinity) return '-inf';
+  return String(value);
+}
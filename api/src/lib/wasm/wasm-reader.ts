@@ -0,0 +1,143 @@
+/**
+ * Byte reader for the WebAssembly binary format
+ *
+ * Reads the LEB128 integers, floats, names and value types the module
+ * format is built from. Every read throws on truncated or malformed data,
+ * with the byte offset in the message.
+ * See https://webassembly.github.io/spec/core/binary/index.html
+ */
+
+/**
+ * Value types, including the reference types
+ */
+export type WasmValueType = 'i32' | 'i64' | 'f32' | 'f64' | 'v128' | 'funcref' | 'externref';
+
+const VALUE_TYPES: Record<number, WasmValueType> = {
+  0x7f: 'i32',
+  0x7e: 'i64',
+  0x7d: 'f32',
+  0x7c: 'f64',
+  0x7b: 'v128',
+  0x70: 'funcref',
+  0x6f: 'externref',
+};
+
+export class WasmReader {
+  readonly data: Uint8Array;
+  offset: number;
+  private readonly view: DataView;
+
+  constructor(data: Uint8Array, offset = 0) {
+    this.data = data;
+    this.offset = offset;
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  get isAtEnd(): boolean {
+    return this.offset >= this.data.length;
+  }
+
+  /**
+   * Throw a parse error pointing at the current offset
+   */
+  fail(message: string): never {
+    throw new Error(`${message} at byte ${this.offset}`);
+  }
+
+  readByte(): number {
+    if (this.offset >= this.data.length) {
+      this.fail('Unexpected end of data');
+    }
+    return this.data[this.offset++];
+  }
+
+  readBytes(length: number): Uint8Array {
+    if (length > this.data.length - this.offset) {
+      this.fail('Unexpected end of data');
+    }
+    const bytes = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  /**
+   * Unsigned LEB128 integer of up to 32 bits
+   */
+  readU32(): number {
+    let value = 0;
+    let multiplier = 1;
+    for (let i = 0; i < 5; i++) {
+      const byte = this.readByte();
+      value += (byte & 0x7f) * multiplier;
+      if ((byte & 0x80) === 0) {
+        return value;
+      }
+      multiplier *= 128;
+    }
+    return this.fail('Integer too long');
+  }
+
+  /**
+   * Signed LEB128 integer of up to the given number of bits
+   */
+  readSigned(bits: 32 | 33 | 64): bigint {
+    let value = 0n;
+    let shift = 0n;
+    const maxBytes = Math.ceil(bits / 7);
+    for (let i = 0; i < maxBytes; i++) {
+      const byte = this.readByte();
+      value |= BigInt(byte & 0x7f) << shift;
+      shift += 7n;
+      if ((byte & 0x80) === 0) {
+        return byte & 0x40 ? value - (1n << shift) : value;
+      }
+    }
+    return this.fail('Integer too long');
+  }
+
+  readF32(): number {
+    const bytes = this.readBytes(4);
+    return this.view.getFloat32(bytes.byteOffset - this.data.byteOffset, true);
+  }
+
+  readF64(): number {
+    const bytes = this.readBytes(8);
+    return this.view.getFloat64(bytes.byteOffset - this.data.byteOffset, true);
+  }
+
+  /**
+   * UTF-8 name prefixed by its byte length
+   */
+  readName(): string {
+    return new TextDecoder('utf-8').decode(this.readBytes(this.readU32()));
+  }
+
+  readValueType(): WasmValueType {
+    const byte = this.readByte();
+    const type = VALUE_TYPES[byte];
+    if (!type) {
+      this.offset--;
+      this.fail(`Unknown value type 0x${byte.toString(16)}`);
+    }
+    return type;
+  }
+
+  /**
+   * Read a vector: a count followed by that many items
+   */
+  readVector<T>(readItem: (index: number) => T): T[] {
+    const count = this.readU32();
+    const items: T[] = [];
+    for (let i = 0; i < count; i++) {
+      items.push(readItem(i));
+    }
+    return items;
+  }
+}
+
+/**
+ * Get the name of a value type byte, or null when it is not one
+ */
+export function valueTypeName(byte: number): WasmValueType | null {
+  return VALUE_TYPES[byte] ?? null;
+}
@@ -3,10 +3,28 @@
  * Exported for use throughout the API
  */
 
-export { extractZipEntries, loadZipFile, type ZipFileEntry } from './extractor';
+export {
+  extractZipEntries,
+  loadZipFile,
+  loadZipFiles,
+  type ExtractionResult,
+  type ZipFileEntry,
+} from './extractor';
 export {
   buildFileTree,
   getAllFiles,
   findNodeByPath,
   type FileTreeNode,
 } from './file-tree';
+export {
+  NESTED_PATH_SEPARATOR,
+  MAX_NESTED_DEPTH,
+  MAX_NESTED_BYTES,
+  isNestedArchive,
+  isNestedPath,
+  joinNestedPath,
+  splitNestedPath,
+  openNestedArchive,
+  loadNestedFile,
+  loadNestedFiles,
+} from './nested-archive';
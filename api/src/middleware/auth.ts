@@ -1,4 +1,4 @@
-import type { AppContext } from '../types/index';
+import type { AppContext, KeyValueStore } from '../types/index';
 import { Errors } from '../utils/errors';
 import { getLogger } from '../utils/logger';
 
@@ -73,7 +73,7 @@ function validateApiKey(apiKey: string, env: any): AuthContext | null {
  */
 async function validateApiKeyFromKV(
   apiKey: string,
-  kv: KVNamespace
+  kv: KeyValueStore
 ): Promise<AuthContext | null> {
   try {
     // Hash the API key to use as KV key
@@ -1,4 +1,4 @@
-import type { AppContext, RateLimitInfo } from '../types/index';
+import type { AppContext, KeyValueStore, RateLimitInfo } from '../types/index';
 import { Errors } from '../utils/errors';
 import { createRateLimitHeaders } from '../utils/helpers';
 import { getLogger } from '../utils/logger';
@@ -15,7 +15,7 @@ import { getLogger } from '../utils/logger';
 /**
  * Rate limit type - defines different rate limit policies
  */
-export type RateLimitType = 'download' | 'upload' | 'search' | 'general' | 'default';
+export type RateLimitType = 'download' | 'upload' | 'batch' | 'search' | 'general' | 'default';
 
 /**
  * Rate limiter configuration
@@ -49,6 +49,7 @@ export interface RateLimitConfig {
  *
  * - download: 10 requests/hour per IP (strict for resource-intensive operations)
  * - upload: 5 requests/hour per IP (very strict to prevent abuse)
+ * - batch: 5 batch jobs/hour per IP (each job may download hundreds of extensions)
  * - search: 30 requests/minute per IP (moderate for read-heavy operations)
  * - general: 100 requests/hour per API key (standard API usage)
  * - default: 100 requests/minute per IP (fallback)
@@ -64,6 +65,11 @@ export const RATE_LIMIT_CONFIGS: Record<RateLimitType, RateLimitConfig> = {
     maxRequests: 5,
     slidingWindow: true,
   },
+  batch: {
+    windowMs: 60 * 60 * 1000, // 1 hour
+    maxRequests: 5,
+    slidingWindow: true,
+  },
   search: {
     windowMs: 60 * 1000, // 1 minute
     maxRequests: 30,
@@ -304,7 +310,7 @@ function getClientIP(c: AppContext): string {
 /**
  * Get rate limit identifier based on limit type
  *
- * - download/upload: IP-based (per-user limits)
+ * - download/upload/batch: IP-based (per-user limits)
  * - general: API key-based (per-account limits)
  * - default: IP-based
  */
@@ -332,7 +338,7 @@ function getRateLimitIdentifier(c: AppContext, limitType: RateLimitType): string
  * Reset rate limit for a key (admin operation)
  */
 export async function resetRateLimit(
-  kv: KVNamespace,
+  kv: KeyValueStore,
   key: string
 ): Promise<void> {
   const rateLimitKey = `ratelimit:${key}`;
@@ -343,7 +349,7 @@ export async function resetRateLimit(
  * Get rate limit status
  */
 export async function getRateLimitStatus(
-  kv: KVNamespace,
+  kv: KeyValueStore,
   key: string,
   config: RateLimitConfig
 ): Promise<RateLimitInfo | null> {
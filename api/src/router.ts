@@ -12,12 +12,18 @@ import {
   downloadHandler,
   metadataHandler,
   manifestHandler,
+  analysisHandler,
+  annotationsHandler,
+  saveAnnotationsHandler,
+  policyCheckHandler,
   filesHandler,
   extractHandler,
   searchHandler,
   filterHandler,
   downloadZipHandler,
   deleteSessionHandler,
+  createBatchHandler,
+  batchStatusHandler,
   healthHandler,
   openapiHandler,
 } from './handlers';
@@ -70,6 +76,18 @@ export function createApp() {
   api.post('/extensions/:sessionId/search', rateLimitMiddleware('search'), searchHandler);
   api.post('/extensions/:sessionId/filter', filterHandler);
 
+  // Security analysis endpoints
+  api.get('/extensions/:sessionId/analysis', analysisHandler);
+  api.post('/extensions/:sessionId/policy-check', policyCheckHandler);
+
+  // Review annotation endpoints
+  api.get('/extensions/:sessionId/annotations', annotationsHandler);
+  api.post('/extensions/:sessionId/annotations', saveAnnotationsHandler);
+
+  // Batch job endpoints
+  api.post('/batches', rateLimitMiddleware('batch'), createBatchHandler);
+  api.get('/batches/:batchId', batchStatusHandler);
+
   // Mount API routes under /api/v1
   app.route('/api/v1', api);
 
@@ -0,0 +1,75 @@
+import { createServer } from 'node:http';
+import worker from './index';
+import { createNodeServerConfig, createRequestListener } from './adapters';
+import { startCleanupScheduler } from './services/cleanup.service';
+import { getMaxFileSize } from './services/ingest.service';
+import { getLogger } from './utils/logger';
+
+/**
+ * CRX Review API - Node Server Entry Point
+ *
+ * Runs the same fetch handler as the Cloudflare Worker on node:http, for
+ * on-prem deployments. R2 and KV are replaced by adapters:
+ * - Blobs: files under DATA_DIR/blobs
+ * - Sessions: DATA_DIR/sessions.json
+ * - Cache: in memory
+ *
+ * Expired sessions are cleaned up by an in-process scheduler instead of the
+ * Worker cron trigger.
+ *
+ * Usage:
+ *   npm run build:node && npm run start:node
+ *
+ * Configuration is read from environment variables; see README.md.
+ */
+
+const logger = getLogger({ service: 'server' });
+
+const config = createNodeServerConfig(process.env);
+
+// Workers-only context features (tracing, props) are not available on Node
+const ctx = {
+  waitUntil: (promise: Promise<unknown>) => {
+    promise.catch((error) => logger.error('waitUntil task failed', error));
+  },
+  passThroughOnException: () => {},
+  props: {},
+} as unknown as ExecutionContext;
+
+const server = createServer(
+  createRequestListener((request) => worker.fetch(request, config.env, ctx), {
+    trustProxy: config.trustProxy,
+    maxBodySize: getMaxFileSize(config.env),
+  })
+);
+
+const stopCleanup =
+  config.cleanupIntervalMinutes > 0
+    ? startCleanupScheduler(config.env, config.cleanupIntervalMinutes * 60 * 1000)
+    : () => {};
+
+server.listen(config.port, config.host, () => {
+  logger.info('Server listening', {
+    url: `http://${config.host}:${config.port}`,
+    dataDir: config.dataDir,
+    cleanupIntervalMinutes: config.cleanupIntervalMinutes,
+    environment: config.env.ENVIRONMENT,
+  });
+});
+
+/**
+ * Stop accepting requests and write pending session changes before exiting
+ */
+function shutdown(signal: string): void {
+  logger.info('Shutting down', { signal });
+  stopCleanup();
+  server.close(() => {
+    config.sessions
+      .flush()
+      .catch((error) => logger.error('Failed to flush session store', error))
+      .finally(() => process.exit(0));
+  });
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
@@ -0,0 +1,105 @@
+/**
+ * Security Analysis Service
+ *
+ * Produces CRXAnalysis reports for stored extensions by running the
+ * manifest analyzer over the extension's manifest.json and the static
+ * code scanner over its JavaScript and HTML sources.
+ */
+
+import type { CRXAnalysis } from '../types';
+import type { SessionMetadata } from './session.service';
+import { extractManifest } from './crx.service';
+import { analyzeManifest, calculateRiskLevel } from '../lib/analysis/manifest-analyzer';
+import { scanFiles, isScannableFile, type ScannableFile } from '../lib/analysis/code-scanner';
+import { loadZipFiles } from '../lib/zip/extractor';
+import { getLogger } from '../utils/logger';
+
+const logger = getLogger({ service: 'analysis' });
+
+/**
+ * Custom error types for analysis operations
+ */
+export class AnalysisError extends Error {
+  constructor(message: string, public code: string, public details?: any) {
+    super(message);
+    this.name = 'AnalysisError';
+  }
+}
+
+/**
+ * Analyze a stored extension
+ *
+ * @param data - CRX or ZIP file data as ArrayBuffer
+ * @param session - Session metadata for the extension
+ * @returns Security analysis report
+ * @throws {AnalysisError} If the manifest cannot be extracted or analyzed
+ */
+export async function analyzeExtension(
+  data: ArrayBuffer,
+  session: SessionMetadata
+): Promise<CRXAnalysis> {
+  try {
+    logger.info('Analyzing extension', {
+      sessionId: session.sessionId,
+      extensionId: session.extensionId,
+    });
+
+    const manifest = await extractManifest(data);
+    const manifestAnalysis = analyzeManifest(manifest);
+    const codeIssues = scanFiles(await loadSourceFiles(data), manifest);
+    const issues = [...manifestAnalysis.issues, ...codeIssues];
+
+    const required = manifestAnalysis.permissions.filter((permission) => !permission.optional);
+
+    const analysis: CRXAnalysis = {
+      id: session.extensionId,
+      name: manifestAnalysis.name,
+      version: manifestAnalysis.version || session.version || '',
+      manifestVersion: manifestAnalysis.manifestVersion,
+      permissions: {
+        count: required.length,
+        items: required.map((permission) => permission.permission),
+        risky: required
+          .filter((permission) => permission.risk !== 'low')
+          .map((permission) => permission.permission),
+      },
+      contentSecurityPolicy: manifestAnalysis.contentSecurityPolicy,
+      size: session.size,
+      fileCount: session.fileCount,
+      analysisDate: new Date().toISOString(),
+      riskLevel: calculateRiskLevel(manifestAnalysis.permissions, issues),
+      issues,
+    };
+
+    logger.info('Extension analyzed', {
+      sessionId: session.sessionId,
+      riskLevel: analysis.riskLevel,
+      issueCount: analysis.issues.length,
+    });
+
+    return analysis;
+  } catch (error) {
+    logger.error('Failed to analyze extension', error, { sessionId: session.sessionId });
+    throw new AnalysisError(
+      `Failed to analyze extension: ${error instanceof Error ? error.message : String(error)}`,
+      'ANALYSIS_FAILED',
+      { error }
+    );
+  }
+}
+
+/**
+ * Load and decode every JavaScript and HTML file in the extension
+ */
+async function loadSourceFiles(data: ArrayBuffer): Promise<ScannableFile[]> {
+  const result = await loadZipFiles(data, isScannableFile);
+  if (!result.success) {
+    throw new AnalysisError(result.error, 'SOURCE_LOAD_FAILED');
+  }
+
+  const decoder = new TextDecoder('utf-8');
+  return result.files.map((file) => ({
+    path: file.name,
+    content: file.data ? decoder.decode(file.data) : '',
+  }));
+}
@@ -0,0 +1,165 @@
+/**
+ * Annotation Service
+ *
+ * Stores review annotations for an extension session in KV, next to the
+ * session metadata under `session:{sessionId}:annotations`. Annotations
+ * expire together with their session.
+ */
+
+import type { Annotation, AnnotationInput, AnnotationListResponse, KeyValueStore } from '../types';
+import type { SessionMetadata } from './session.service';
+import { getLogger } from '../utils/logger';
+
+const logger = getLogger({ service: 'annotation' });
+
+/**
+ * Maximum number of annotations kept per session
+ */
+export const MAX_ANNOTATIONS_PER_SESSION = 2000;
+
+/**
+ * Stored annotation document
+ */
+interface AnnotationRecord {
+  annotations: Annotation[];
+  updatedAt: string;
+}
+
+/**
+ * Custom error types for annotation operations
+ */
+export class AnnotationError extends Error {
+  constructor(message: string, public code: string, public details?: any) {
+    super(message);
+    this.name = 'AnnotationError';
+  }
+}
+
+/**
+ * Generate KV key for a session's annotations
+ *
+ * @param sessionId - Session identifier
+ * @returns Key in format: session:{sessionId}:annotations
+ */
+export function generateAnnotationsKey(sessionId: string): string {
+  return `session:${sessionId}:annotations`;
+}
+
+/**
+ * Get the annotations of a session
+ *
+ * @param kv - KV namespace instance
+ * @param session - Session metadata
+ * @returns Annotations sorted by file and line
+ */
+export async function getAnnotations(
+  kv: KeyValueStore,
+  session: SessionMetadata
+): Promise<AnnotationListResponse> {
+  const record = await getRecord(kv, session.sessionId);
+  return buildResponse(session, record);
+}
+
+/**
+ * Add annotations to a session, replacing stored ones with a matching ID
+ *
+ * @param kv - KV namespace instance
+ * @param session - Session metadata
+ * @param inputs - Annotations to add or replace
+ * @returns All annotations of the session after the change
+ * @throws {AnnotationError} If the session has expired or the limit is exceeded
+ */
+export async function saveAnnotations(
+  kv: KeyValueStore,
+  session: SessionMetadata,
+  inputs: AnnotationInput[]
+): Promise<AnnotationListResponse> {
+  const { sessionId } = session;
+  const remainingTtl = Math.floor((new Date(session.expiresAt).getTime() - Date.now()) / 1000);
+  if (remainingTtl <= 0) {
+    throw new AnnotationError('Session has expired', 'SESSION_EXPIRED', {
+      sessionId,
+      expiresAt: session.expiresAt,
+    });
+  }
+
+  const record = await getRecord(kv, sessionId);
+  const now = new Date().toISOString();
+  const byId = new Map((record?.annotations ?? []).map((annotation) => [annotation.id, annotation]));
+
+  for (const input of inputs) {
+    const existing = input.id ? byId.get(input.id) : undefined;
+    const annotation: Annotation = {
+      id: input.id ?? crypto.randomUUID(),
+      filePath: input.filePath,
+      line: input.line ?? null,
+      severity: input.severity,
+      note: input.note,
+      author: input.author,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    byId.set(annotation.id, annotation);
+  }
+
+  if (byId.size > MAX_ANNOTATIONS_PER_SESSION) {
+    throw new AnnotationError(
+      `Sessions can have at most ${MAX_ANNOTATIONS_PER_SESSION} annotations`,
+      'TOO_MANY_ANNOTATIONS',
+      { maxAnnotations: MAX_ANNOTATIONS_PER_SESSION, actualAnnotations: byId.size }
+    );
+  }
+
+  const updated: AnnotationRecord = { annotations: [...byId.values()], updatedAt: now };
+
+  logger.info('Saving annotations', { sessionId, added: inputs.length, total: byId.size });
+
+  // KV rejects TTLs below 60 seconds
+  await kv.put(generateAnnotationsKey(sessionId), JSON.stringify(updated), {
+    expirationTtl: Math.max(remainingTtl, 60),
+  });
+
+  return buildResponse(session, updated);
+}
+
+/**
+ * Delete the annotations of a session
+ *
+ * @param kv - KV namespace instance
+ * @param sessionId - Session identifier
+ */
+export async function deleteAnnotations(kv: KeyValueStore, sessionId: string): Promise<void> {
+  await kv.delete(generateAnnotationsKey(sessionId));
+}
+
+/**
+ * Order annotations by file path, then line, with file-level annotations first
+ *
+ * @param annotations - Annotations to sort
+ * @returns New sorted array
+ */
+export function sortAnnotations(annotations: Annotation[]): Annotation[] {
+  return [...annotations].sort(
+    (a, b) =>
+      a.filePath.localeCompare(b.filePath) ||
+      (a.line ?? 0) - (b.line ?? 0) ||
+      a.createdAt.localeCompare(b.createdAt)
+  );
+}
+
+async function getRecord(kv: KeyValueStore, sessionId: string): Promise<AnnotationRecord | null> {
+  const data = await kv.get(generateAnnotationsKey(sessionId), 'text');
+  return data ? (JSON.parse(data) as AnnotationRecord) : null;
+}
+
+function buildResponse(session: SessionMetadata, record: AnnotationRecord | null): AnnotationListResponse {
+  const annotations = sortAnnotations(record?.annotations ?? []);
+  return {
+    sessionId: session.sessionId,
+    extensionId: session.extensionId,
+    version: session.version,
+    annotations,
+    count: annotations.length,
+    updatedAt: record?.updatedAt ?? null,
+  };
+}
@@ -0,0 +1,431 @@
+/**
+ * Batch Job Service
+ *
+ * Runs many extension downloads and uploads as one job with bounded
+ * concurrency. Every item's status is stored in KV under its own key so
+ * progress can be read while the job runs, and uploaded files are staged in
+ * R2 until their item is processed. Each processed item gets a regular
+ * extension session.
+ */
+
+import type {
+  BatchItem,
+  BatchStatus,
+  BatchStatusResponse,
+  Env,
+} from '../types';
+import { downloadExtensionPackage, ingestPackage } from './ingest.service';
+import { putFile, getFile, deleteFile } from './storage.service';
+import { DEFAULT_SESSION_TTL } from './session.service';
+import { mapWithConcurrency } from '../utils/helpers';
+import { getLogger } from '../utils/logger';
+
+const logger = getLogger({ service: 'batch' });
+
+/**
+ * Default number of items processed at the same time
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+/**
+ * Upper bound for BATCH_CONCURRENCY
+ */
+const MAX_BATCH_CONCURRENCY = 10;
+
+/**
+ * Default maximum number of items in one batch
+ */
+export const DEFAULT_MAX_BATCH_ITEMS = 500;
+
+/**
+ * Time without progress after which a running batch is considered stalled
+ * (e.g. the Worker running it was evicted) and may be resumed
+ */
+export const BATCH_STALL_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Stored batch job definition
+ */
+interface BatchRecord {
+  batchId: string;
+  createdAt: string;
+  expiresAt: string;
+  ttl: number;
+  total: number;
+  /** When a status poll last resumed the batch after it stalled */
+  resumedAt?: string;
+  /** Token of the poll holding the resume lease */
+  resumedBy?: string;
+}
+
+/**
+ * Uploaded file to include in a batch
+ */
+export interface BatchUpload {
+  fileName: string;
+  data: ArrayBuffer;
+}
+
+/**
+ * Custom error types for batch operations
+ */
+export class BatchError extends Error {
+  constructor(message: string, public code: string, public details?: any) {
+    super(message);
+    this.name = 'BatchError';
+  }
+}
+
+export class BatchNotFoundError extends BatchError {
+  constructor(batchId: string) {
+    super(`Batch not found: ${batchId}`, 'NOT_FOUND', { batchId });
+    this.name = 'BatchNotFoundError';
+  }
+}
+
+/**
+ * Get the batch concurrency limit from the environment
+ *
+ * @param env - Worker environment bindings
+ * @returns Concurrency between 1 and 10
+ */
+export function getBatchConcurrency(env: Env): number {
+  const value = parseInt(env.BATCH_CONCURRENCY || String(DEFAULT_BATCH_CONCURRENCY), 10);
+  if (!Number.isFinite(value)) {
+    return DEFAULT_BATCH_CONCURRENCY;
+  }
+  return Math.min(Math.max(value, 1), MAX_BATCH_CONCURRENCY);
+}
+
+/**
+ * Get the maximum number of items per batch from the environment
+ *
+ * @param env - Worker environment bindings
+ * @returns Item limit
+ */
+export function getMaxBatchItems(env: Env): number {
+  const value = parseInt(env.MAX_BATCH_ITEMS || String(DEFAULT_MAX_BATCH_ITEMS), 10);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_MAX_BATCH_ITEMS;
+}
+
+/**
+ * Generate storage key for a file staged for a batch item
+ *
+ * @param batchId - Batch identifier
+ * @param index - Item index
+ * @returns Storage key in format: batches/{batchId}/{index}
+ */
+export function generateBatchUploadKey(batchId: string, index: number): string {
+  return `batches/${batchId}/${index}`;
+}
+
+/**
+ * Create a batch job with every item pending
+ *
+ * Downloads come first in item order, followed by uploads.
+ *
+ * @param env - Worker environment bindings
+ * @param inputs - Extension IDs or store URLs to download
+ * @param uploads - Uploaded package files
+ * @returns Initial batch status
+ * @throws {BatchError} If the batch cannot be stored
+ */
+export async function createBatch(
+  env: Env,
+  inputs: string[],
+  uploads: BatchUpload[] = []
+): Promise<BatchStatusResponse> {
+  const batchId = crypto.randomUUID();
+  const ttl = parseInt(env.SESSION_TTL || String(DEFAULT_SESSION_TTL), 10);
+  const now = new Date();
+
+  const record: BatchRecord = {
+    batchId,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + ttl * 1000).toISOString(),
+    ttl,
+    total: inputs.length + uploads.length,
+  };
+
+  const items: BatchItem[] = [
+    ...inputs.map((input, index): BatchItem => ({ index, input, source: 'download', status: 'pending' })),
+    ...uploads.map((upload, offset): BatchItem => ({
+      index: inputs.length + offset,
+      input: upload.fileName,
+      source: 'upload',
+      status: 'pending',
+    })),
+  ];
+
+  try {
+    logger.info('Creating batch', { batchId, downloads: inputs.length, uploads: uploads.length });
+
+    await Promise.all(
+      uploads.map((upload, offset) =>
+        putFile(env.CRX_STORAGE, generateBatchUploadKey(batchId, inputs.length + offset), upload.data, {
+          customMetadata: { batchId, fileName: upload.fileName },
+        })
+      )
+    );
+    await Promise.all(items.map((item) => saveItem(env, record, item)));
+    await env.SESSIONS.put(batchKey(batchId), JSON.stringify(record), { expirationTtl: ttl });
+  } catch (error) {
+    logger.error('Failed to create batch', error, { batchId });
+    throw new BatchError(
+      `Failed to create batch: ${error instanceof Error ? error.message : String(error)}`,
+      'CREATION_FAILED',
+      { batchId, error }
+    );
+  }
+
+  return buildStatus(record, items);
+}
+
+/**
+ * Read a batch job's progress and results
+ *
+ * @param env - Worker environment bindings
+ * @param batchId - Batch identifier
+ * @returns Batch status, or null if the batch does not exist or has expired
+ */
+export async function getBatchStatus(env: Env, batchId: string): Promise<BatchStatusResponse | null> {
+  const record = await getRecord(env, batchId);
+  if (!record) {
+    return null;
+  }
+
+  return buildStatus(record, await getItems(env, record));
+}
+
+/**
+ * Process every pending item of a batch
+ *
+ * Items left in `processing` by a stalled run are processed again.
+ *
+ * @param env - Worker environment bindings
+ * @param batchId - Batch identifier
+ * @param concurrency - Maximum number of items processed at once
+ * @returns Batch status after processing
+ * @throws {BatchNotFoundError} If the batch does not exist
+ */
+export async function processBatch(
+  env: Env,
+  batchId: string,
+  concurrency: number = getBatchConcurrency(env)
+): Promise<BatchStatusResponse> {
+  const record = await getRecord(env, batchId);
+  if (!record) {
+    throw new BatchNotFoundError(batchId);
+  }
+
+  const items = await getItems(env, record);
+  const runnable = items.filter((item) => item.status === 'pending' || item.status === 'processing');
+
+  logger.info('Processing batch', { batchId, items: runnable.length, concurrency });
+
+  const processed = await mapWithConcurrency(runnable, concurrency, (item) => processItem(env, record, item));
+  const byIndex = new Map(processed.map((item) => [item.index, item]));
+  const status = buildStatus(record, items.map((item) => byIndex.get(item.index) ?? item));
+
+  logger.info('Batch processed', {
+    batchId,
+    completed: status.progress.completed,
+    failed: status.progress.failed,
+  });
+
+  return status;
+}
+
+/**
+ * Whether an unfinished batch has made no progress for BATCH_STALL_TIMEOUT_MS
+ *
+ * @param status - Batch status
+ * @param now - Current time in milliseconds
+ * @returns True when the batch should be resumed
+ */
+export function isBatchStalled(status: BatchStatusResponse, now: number = Date.now()): boolean {
+  return status.status !== 'completed' && now - Date.parse(status.updatedAt) > BATCH_STALL_TIMEOUT_MS;
+}
+
+/**
+ * Take the lease for resuming a stalled batch
+ *
+ * Status polls call this before starting another run, so concurrent or
+ * repeated polls resume the batch once. The lease is held for
+ * BATCH_STALL_TIMEOUT_MS; a batch still stalled after that may be resumed
+ * again. KV has no compare-and-set, so the record is read back after the
+ * write and only the poll whose lease was kept resumes.
+ *
+ * @param env - Worker environment bindings
+ * @param batchId - Batch identifier
+ * @param now - Current time in milliseconds
+ * @returns True when the caller holds the lease and should resume the batch
+ */
+export async function claimBatchResume(env: Env, batchId: string, now: number = Date.now()): Promise<boolean> {
+  const record = await getRecord(env, batchId);
+  if (!record) {
+    return false;
+  }
+  if (record.resumedAt && now - Date.parse(record.resumedAt) <= BATCH_STALL_TIMEOUT_MS) {
+    return false;
+  }
+
+  const owner = crypto.randomUUID();
+  const leased: BatchRecord = { ...record, resumedAt: new Date(now).toISOString(), resumedBy: owner };
+  await env.SESSIONS.put(batchKey(batchId), JSON.stringify(leased), {
+    expirationTtl: getRemainingTtl(record, now),
+  });
+
+  const current = await getRecord(env, batchId);
+  return current?.resumedBy === owner;
+}
+
+/**
+ * Download or load one item, create its session and record the outcome
+ */
+async function processItem(env: Env, record: BatchRecord, item: BatchItem): Promise<BatchItem> {
+  const started: BatchItem = {
+    index: item.index,
+    input: item.input,
+    source: item.source,
+    status: 'processing',
+    startedAt: new Date().toISOString(),
+  };
+  await saveItem(env, record, started);
+
+  let finished: BatchItem;
+  try {
+    const session = item.source === 'download'
+      ? await ingestDownload(env, record, item)
+      : await ingestUpload(env, record, item);
+
+    finished = {
+      ...started,
+      status: 'completed',
+      sessionId: session.sessionId,
+      extensionId: session.extensionId,
+      version: session.version,
+      store: session.store,
+      completedAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.warn('Batch item failed', { batchId: record.batchId, index: item.index, error });
+    finished = {
+      ...started,
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      completedAt: new Date().toISOString(),
+    };
+  }
+
+  await saveItem(env, record, finished);
+  return finished;
+}
+
+async function ingestDownload(env: Env, record: BatchRecord, item: BatchItem) {
+  const downloaded = await downloadExtensionPackage(item.input);
+  return ingestPackage(env, downloaded.data, {
+    fileName: downloaded.fileName,
+    store: downloaded.store,
+    downloadedFrom: item.input,
+    batchId: record.batchId,
+  });
+}
+
+async function ingestUpload(env: Env, record: BatchRecord, item: BatchItem) {
+  const key = generateBatchUploadKey(record.batchId, item.index);
+  const data = await getFile(env.CRX_STORAGE, key);
+  if (!data) {
+    throw new BatchError('Uploaded file is no longer available', 'UPLOAD_MISSING', { key });
+  }
+
+  try {
+    return await ingestPackage(env, data, { fileName: item.input, batchId: record.batchId });
+  } finally {
+    await deleteFile(env.CRX_STORAGE, key).catch((error) =>
+      logger.warn('Failed to delete staged batch upload', { key, error })
+    );
+  }
+}
+
+/**
+ * Summarize item statuses into the batch response
+ */
+function buildStatus(record: BatchRecord, items: BatchItem[]): BatchStatusResponse {
+  const count = (status: BatchItem['status']) => items.filter((item) => item.status === status).length;
+  const progress = {
+    total: record.total,
+    pending: count('pending'),
+    processing: count('processing'),
+    completed: count('completed'),
+    failed: count('failed'),
+    percent: 0,
+  };
+  const finished = progress.completed + progress.failed;
+  progress.percent = record.total > 0 ? Math.round((finished / record.total) * 100) : 100;
+
+  let status: BatchStatus = 'processing';
+  if (finished === record.total) {
+    status = 'completed';
+  } else if (progress.pending === record.total) {
+    status = 'pending';
+  }
+
+  const timestamps = items.flatMap((item) => [item.startedAt, item.completedAt]).filter(
+    (value): value is string => Boolean(value)
+  );
+  const updatedAt = [record.createdAt, ...timestamps].sort().pop() ?? record.createdAt;
+
+  return {
+    batchId: record.batchId,
+    status,
+    progress,
+    successful: items.filter((item) => item.status === 'completed'),
+    failed: items
+      .filter((item) => item.status === 'failed')
+      .map((item) => ({ item, error: item.error ?? 'Unknown error' })),
+    remaining: items.filter((item) => item.status === 'pending' || item.status === 'processing'),
+    createdAt: record.createdAt,
+    updatedAt,
+    expiresAt: record.expiresAt,
+  };
+}
+
+async function getRecord(env: Env, batchId: string): Promise<BatchRecord | null> {
+  const data = await env.SESSIONS.get(batchKey(batchId));
+  return data ? (JSON.parse(data) as BatchRecord) : null;
+}
+
+async function getItems(env: Env, record: BatchRecord): Promise<BatchItem[]> {
+  const items = await Promise.all(
+    Array.from({ length: record.total }, (_, index) => env.SESSIONS.get(batchItemKey(record.batchId, index)))
+  );
+
+  return items.map((data, index): BatchItem =>
+    data
+      ? (JSON.parse(data) as BatchItem)
+      : { index, input: '', source: 'download', status: 'failed', error: 'Item status expired' }
+  );
+}
+
+async function saveItem(env: Env, record: BatchRecord, item: BatchItem): Promise<void> {
+  await env.SESSIONS.put(batchItemKey(record.batchId, item.index), JSON.stringify(item), {
+    expirationTtl: getRemainingTtl(record),
+  });
+}
+
+/**
+ * Seconds until the batch record expires, so later writes expire with it
+ * rather than outliving it. KV rejects TTLs under 60 seconds.
+ */
+function getRemainingTtl(record: BatchRecord, now: number = Date.now()): number {
+  return Math.max(60, Math.ceil((Date.parse(record.expiresAt) - now) / 1000));
+}
+
+function batchKey(batchId: string): string {
+  return `batch:${batchId}`;
+}
+
+function batchItemKey(batchId: string, index: number): string {
+  return `batch:${batchId}:item:${index}`;
+}
@@ -2,13 +2,15 @@
  * Cleanup Service
  *
  * Handles scheduled cleanup of expired sessions from both KV storage
- * and R2 bucket. Designed to be called by a Cloudflare Worker cron trigger.
+ * and R2 bucket. Designed to be called by a Cloudflare Worker cron trigger,
+ * or by the in-process scheduler when running on Node.
  */
 
 import type { Env } from '../types';
 import { getLogger } from '../utils/logger';
 import { getSession, deleteSession, listSessions } from './session.service';
-import { deleteSessionFiles } from './storage.service';
+import { deleteAnnotations } from './annotation.service';
+import { deleteFile, deleteSessionFiles } from './storage.service';
 
 const logger = getLogger({ service: 'cleanup' });
 
@@ -209,9 +211,10 @@ export async function cleanupSession(env: Env, sessionId: string): Promise<void>
       // Continue to delete KV entry even if R2 deletion fails
     }
 
-    // Delete KV metadata
+    // Delete KV metadata and annotations
     try {
       await deleteSession(env.SESSIONS, sessionId);
+      await deleteAnnotations(env.SESSIONS, sessionId);
       logger.info('KV metadata deleted', { sessionId });
     } catch (error) {
       const errorMsg = `Failed to delete KV metadata: ${error instanceof Error ? error.message : String(error)}`;
@@ -259,11 +262,36 @@ export async function cleanupOrphanedFiles(
   try {
     logger.info('Cleaning up orphaned R2 files', { maxAge });
 
-    // This would require listing all R2 files and checking against KV
-    // For now, this is a placeholder for future implementation
-    logger.warn('Orphaned file cleanup not yet implemented');
+    const cutoff = Date.now() - maxAge * 1000;
+    const sessionExists = new Map<string, boolean>();
+    let deletedCount = 0;
+    let cursor: string | undefined;
 
-    return 0;
+    do {
+      const page = await env.CRX_STORAGE.list({ prefix: 'crx/', cursor });
+      cursor = page.truncated ? page.cursor : undefined;
+
+      for (const object of page.objects) {
+        // Keys are crx/{sessionId}/{filename}
+        const sessionId = object.key.split('/')[1];
+        if (!sessionId || object.uploaded.getTime() > cutoff) {
+          continue;
+        }
+
+        if (!sessionExists.has(sessionId)) {
+          sessionExists.set(sessionId, (await getSession(env.SESSIONS, sessionId)) !== null);
+        }
+        if (sessionExists.get(sessionId)) {
+          continue;
+        }
+
+        await deleteFile(env.CRX_STORAGE, object.key);
+        deletedCount++;
+      }
+    } while (cursor);
+
+    logger.info('Orphaned files deleted', { count: deletedCount });
+    return deletedCount;
   } catch (error) {
     logger.error('Failed to cleanup orphaned files', error);
     throw new CleanupError(
@@ -338,3 +366,49 @@ export async function getCleanupRecommendations(env: Env): Promise<{
     );
   }
 }
+
+/**
+ * Run cleanup on a timer inside the process
+ *
+ * Used by the Node server, which has no cron triggers. Each run removes
+ * expired sessions and then files whose session is gone, since the session
+ * store drops expired entries on its own. A run is skipped while the
+ * previous one is still going.
+ *
+ * @param env - Environment with the session and blob stores
+ * @param intervalMs - Time between runs in milliseconds
+ * @returns Function that stops the scheduler
+ */
+export function startCleanupScheduler(env: Env, intervalMs: number): () => void {
+  let running = false;
+
+  const run = async () => {
+    if (running) {
+      logger.warn('Previous cleanup still running, skipping this run');
+      return;
+    }
+
+    running = true;
+    try {
+      const result = await cleanupExpiredSessions(env);
+      const orphaned = await cleanupOrphanedFiles(env);
+      logger.info('Scheduled cleanup completed', {
+        deleted: result.deleted,
+        failed: result.failed,
+        orphanedFiles: orphaned,
+      });
+    } catch (error) {
+      logger.error('Scheduled cleanup failed', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, intervalMs);
+  logger.info('Cleanup scheduler started', { intervalMs });
+
+  return () => {
+    clearInterval(timer);
+    logger.info('Cleanup scheduler stopped');
+  };
+}
@@ -3,14 +3,24 @@
  *
  * Orchestrates CRX parsing, ZIP extraction, file tree generation, content search,
  * and file filtering operations. Acts as the main coordinator for all CRX analysis.
+ * Plain ZIP packages (Firefox XPI files, unpacked uploads) are handled alongside CRX.
  */
 
-import { parseCrxHeader } from '../lib/crx/header-parser';
+import { parseCrxHeader, type ParsedCrxHeader } from '../lib/crx/header-parser';
+import { detectPackageFormat } from '../lib/crx/zip-converter';
+import { getGeckoId } from '../lib/analysis/browser-settings';
+import { getMessagesPath, parseMessagesJson, type MessageCatalog } from '../lib/manifest/i18n';
+import {
+  verifyCrxSignatures,
+  crxIdToExtensionId,
+  extensionIdFromPublicKey,
+} from '../lib/crx/signature';
 import { extractZipEntries, loadZipFile } from '../lib/zip/extractor';
+import { isNestedPath, loadNestedFile, loadNestedFiles } from '../lib/zip/nested-archive';
 import { buildFileTree, FileTreeNode } from '../lib/zip/file-tree';
 import {
   createSearchPattern,
-  searchContent,
+  searchContent as searchTextContent,
   SearchMatch,
   SearchOptions,
 } from '../lib/search/content-search';
@@ -20,6 +30,7 @@ import {
   FileFilterConfig,
 } from '../lib/search/file-filter';
 import { getLogger } from '../utils/logger';
+import type { CRXSignatureSummary, ExtensionIdSource, ExtensionKeyMismatch, PackageFormat } from '../types';
 
 const JSZip = require('jszip');
 
@@ -35,9 +46,24 @@ const PARSE_TIMEOUT = 60000; // 60 seconds
  */
 export interface ParsedCRX {
   extensionId: string;
+  extensionIdSource: ExtensionIdSource;
   version: string;
+  format: PackageFormat;
+  /** Base64 DER public key the extension ID was derived from; empty when no key was used */
   publicKey: string;
   zipData: ArrayBuffer;
+  signature: CRXSignatureSummary | null;
+  keyMismatch?: ExtensionKeyMismatch;
+}
+
+/**
+ * Extension ID derivation result
+ */
+export interface ExtensionIdResolution {
+  extensionId: string;
+  source: ExtensionIdSource;
+  publicKey: string;
+  keyMismatch?: ExtensionKeyMismatch;
 }
 
 /**
@@ -100,13 +126,18 @@ export class CRXExtractionError extends CRXError {
  * Parse CRX file and extract ZIP data
  *
  * Extracts the extension ID from the public key, parses the CRX header,
- * and returns the ZIP data along with metadata.
+ * and returns the ZIP data along with metadata. ZIP and XPI packages are
+ * parsed with parsePackageZip.
  *
- * @param data - CRX file data as ArrayBuffer
+ * @param data - CRX, XPI or ZIP file data as ArrayBuffer
  * @returns Parsed CRX information including extension ID and ZIP data
  * @throws {CRXParseError} If parsing fails
  */
 export async function parseCRX(data: ArrayBuffer): Promise<ParsedCRX> {
+  if (detectPackageFormat(data) === 'zip') {
+    return parsePackageZip(data);
+  }
+
   try {
     logger.info('Parsing CRX file', { size: data.byteLength });
 
@@ -139,22 +170,32 @@ export async function parseCRX(data: ArrayBuffer): Promise<ParsedCRX> {
     // Extract manifest to get extension ID and version
     const manifest = await extractManifest(zipData);
 
-    // Generate extension ID from manifest key or name
-    // In a real implementation, this would be derived from the public key
-    // For now, we'll use a hash of the manifest name
-    const extensionId = await generateExtensionId(manifest.name);
+    const { extensionId, source, publicKey, keyMismatch } = await resolveExtensionId(
+      headerResult.header,
+      manifest,
+      zipData
+    );
+
+    const signature = await verifyCRXSignatures(data);
 
     logger.info('CRX parsed successfully', {
       extensionId,
+      extensionIdSource: source,
       version: manifest.version,
       manifestVersion: manifest.manifest_version,
+      publisherSigned: signature?.publisherSigned,
+      webStoreSigned: signature?.webStoreSigned,
     });
 
     return {
       extensionId,
+      extensionIdSource: source,
       version: manifest.version,
-      publicKey: '', // Public key extraction would require protobuf parsing for CRX3
+      format: 'crx',
+      publicKey,
       zipData,
+      signature,
+      keyMismatch,
     };
   } catch (error) {
     if (error instanceof CRXParseError) {
@@ -169,6 +210,247 @@ export async function parseCRX(data: ArrayBuffer): Promise<ParsedCRX> {
   }
 }
 
+/**
+ * Parse a plain ZIP package (Firefox XPI or unpacked extension archive)
+ *
+ * ZIP packages have no CRX signing key. The extension ID is taken from the
+ * Firefox add-on ID in browser_specific_settings (or `applications`), then
+ * the manifest `key` field, and otherwise derived from the package hash in
+ * Chrome's a-p alphabet.
+ *
+ * @param data - ZIP file data as ArrayBuffer
+ * @returns Parsed package information; signature is always null
+ * @throws {CRXParseError} If the archive or its manifest cannot be read
+ */
+export async function parsePackageZip(data: ArrayBuffer): Promise<ParsedCRX> {
+  try {
+    logger.info('Parsing ZIP package', { size: data.byteLength });
+
+    const manifest = await extractManifest(data);
+    const geckoId = getGeckoId(manifest);
+
+    let resolution: ExtensionIdResolution;
+    if (geckoId) {
+      resolution = { extensionId: geckoId, source: 'gecko', publicKey: '' };
+    } else {
+      const publicKey = readManifestKey(manifest);
+      resolution = publicKey
+        ? {
+            extensionId: await extensionIdFromPublicKey(publicKey),
+            source: 'manifest',
+            publicKey: bytesToBase64(publicKey),
+          }
+        : await resolvePackageHashId(data);
+    }
+
+    logger.info('ZIP package parsed successfully', {
+      extensionId: resolution.extensionId,
+      extensionIdSource: resolution.source,
+      version: manifest.version,
+      manifestVersion: manifest.manifest_version,
+    });
+
+    return {
+      extensionId: resolution.extensionId,
+      extensionIdSource: resolution.source,
+      version: manifest.version,
+      format: 'zip',
+      publicKey: resolution.publicKey,
+      zipData: data,
+      signature: null,
+    };
+  } catch (error) {
+    if (error instanceof CRXParseError) {
+      throw error;
+    }
+
+    logger.error('Failed to parse ZIP package', error);
+    throw new CRXParseError(
+      `Failed to parse ZIP package: ${error instanceof Error ? error.message : String(error)}`,
+      { error }
+    );
+  }
+}
+
+/**
+ * Derive the extension ID the way Chrome does
+ *
+ * The ID is the SHA-256 of the DER public key, truncated to 16 bytes and
+ * written with the a-p alphabet. The key is taken from the CRX2 header,
+ * then the CRX3 publisher proof, then the manifest `key` field. When the
+ * manifest declares a key that differs from the signing key, the mismatch
+ * is reported alongside the signing key's ID. Packages with no usable key,
+ * e.g. because their proofs failed to decode or none matches crx_id, use
+ * the header's declared crx_id marked as unverified, then a hash of the
+ * ZIP payload like unsigned ZIP packages.
+ *
+ * @param header - Parsed CRX header
+ * @param manifest - Parsed manifest.json
+ * @param zipData - ZIP payload, hashed when nothing else identifies the package
+ * @returns Extension ID, the key it was derived from, and any key mismatch
+ */
+export async function resolveExtensionId(
+  header: ParsedCrxHeader,
+  manifest: { key?: unknown },
+  zipData: ArrayBuffer
+): Promise<ExtensionIdResolution> {
+  const signingKey = await selectSigningKey(header);
+  const manifestKey = readManifestKey(manifest);
+  const manifestKeyId = manifestKey ? await extensionIdFromPublicKey(manifestKey) : null;
+
+  if (signingKey) {
+    const extensionId = await extensionIdFromPublicKey(signingKey.key);
+    const resolution: ExtensionIdResolution = {
+      extensionId,
+      source: signingKey.source,
+      publicKey: bytesToBase64(signingKey.key),
+    };
+
+    if (manifestKeyId && manifestKeyId !== extensionId) {
+      logger.warn('Manifest key does not match CRX signing key', {
+        manifestKeyId,
+        signingKeyId: extensionId,
+      });
+      resolution.keyMismatch = { manifestKeyId, signingKeyId: extensionId };
+    }
+
+    return resolution;
+  }
+
+  if (manifestKey && manifestKeyId) {
+    return {
+      extensionId: manifestKeyId,
+      source: 'manifest',
+      publicKey: bytesToBase64(manifestKey),
+    };
+  }
+
+  logger.warn('No public key in CRX header or manifest', {
+    crxVersion: header.version,
+    headerError: header.headerError,
+  });
+
+  if (header.crxId) {
+    return { extensionId: crxIdToExtensionId(header.crxId), source: 'crx3-unverified', publicKey: '' };
+  }
+
+  return resolvePackageHashId(zipData);
+}
+
+/**
+ * Decode the manifest `key` field, ignoring a key that is not valid base64
+ */
+function readManifestKey(manifest: { key?: unknown }): Uint8Array | null {
+  if (typeof manifest.key !== 'string' || !manifest.key.trim()) {
+    return null;
+  }
+  try {
+    return base64ToBytes(manifest.key);
+  } catch {
+    logger.warn('Ignoring malformed manifest key');
+    return null;
+  }
+}
+
+/**
+ * Identify a package with no key or add-on ID by a hash of its bytes
+ */
+async function resolvePackageHashId(data: ArrayBuffer): Promise<ExtensionIdResolution> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return {
+    extensionId: crxIdToExtensionId(new Uint8Array(digest)),
+    source: 'package',
+    publicKey: '',
+  };
+}
+
+/**
+ * Pick the key that identifies the extension from the CRX header
+ *
+ * For CRX3 this is the proof whose key hashes to crx_id. Any other key,
+ * even one that signs the package, says nothing about its ID.
+ */
+async function selectSigningKey(
+  header: ParsedCrxHeader
+): Promise<{ key: Uint8Array; source: ExtensionIdSource } | null> {
+  const keys = header.proofs.map((proof) => proof.publicKey).filter((key) => key.length > 0);
+
+  if (keys.length === 0) {
+    return null;
+  }
+
+  if (header.version === 2) {
+    return { key: keys[0], source: 'crx2' };
+  }
+
+  if (!header.crxId) {
+    return null;
+  }
+
+  const crxId = crxIdToExtensionId(header.crxId);
+  for (const key of keys) {
+    if ((await extensionIdFromPublicKey(key)) === crxId) {
+      return { key, source: 'crx3' };
+    }
+  }
+
+  return null;
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  const binary = atob(value.replace(/\s+/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Verify the key proofs in a CRX file
+ *
+ * Verification problems are logged and reported as null rather than thrown,
+ * so an unverifiable package can still be reviewed.
+ *
+ * @param data - CRX file data as ArrayBuffer
+ * @returns Signature summary, or null if verification could not run
+ */
+export async function verifyCRXSignatures(data: ArrayBuffer): Promise<CRXSignatureSummary | null> {
+  const result = await verifyCrxSignatures(data);
+
+  if (!result.success) {
+    logger.warn('CRX signature verification failed', { error: result.error });
+    return null;
+  }
+
+  const { status } = result;
+  if (status.headerError) {
+    logger.warn('CRX header could not be fully decoded', { error: status.headerError });
+  }
+
+  return {
+    crxVersion: status.version,
+    crxId: status.crxId,
+    publisherSigned: status.publisherSigned,
+    webStoreSigned: status.webStoreSigned,
+    proofs: status.proofs.map((proof) => ({
+      algorithm: proof.algorithm,
+      keyId: proof.keyId,
+      valid: proof.valid,
+      isPublisher: proof.isPublisher,
+      isWebStore: proof.isWebStore,
+    })),
+  };
+}
+
 /**
  * Extract file tree from ZIP data
  *
@@ -262,11 +544,40 @@ export async function extractManifest(zipData: ArrayBuffer): Promise<any> {
   }
 }
 
+/**
+ * Load the messages of one locale from `_locales/<locale>/messages.json`
+ *
+ * @param zipData - ZIP file data as ArrayBuffer
+ * @param locale - Locale directory name, e.g. the manifest's `default_locale`
+ * @returns The message catalog, or null when the locale has no readable messages.json
+ */
+export async function extractLocaleMessages(
+  zipData: ArrayBuffer,
+  locale: string
+): Promise<MessageCatalog | null> {
+  const path = getMessagesPath(locale);
+  const result = await loadZipFile(zipData, path);
+
+  if (!result.success || !result.files[0]?.data) {
+    logger.debug('Locale messages not found', { path });
+    return null;
+  }
+
+  const parsed = parseMessagesJson(new TextDecoder('utf-8').decode(result.files[0].data));
+  if (!parsed.success) {
+    logger.warn('Invalid locale messages', { path, error: parsed.error });
+    return null;
+  }
+
+  return parsed.messages;
+}
+
 /**
  * Extract a specific file from ZIP data
  *
  * @param zipData - ZIP file data as ArrayBuffer
- * @param filePath - Path to the file within the ZIP
+ * @param filePath - Path to the file within the ZIP; virtual paths such as
+ *   `lib/vendor.zip!/index.js` read from nested archives
  * @returns Extracted file content and MIME type
  * @throws {CRXExtractionError} If extraction fails
  */
@@ -277,7 +588,7 @@ export async function extractFile(
   try {
     logger.debug('Extracting file from ZIP', { filePath });
 
-    const result = await loadZipFile(zipData, filePath);
+    const result = await loadNestedFile(zipData, filePath);
 
     if (!result.success) {
       throw new CRXExtractionError(
@@ -372,7 +683,7 @@ export async function searchContent(
         if (!file) continue;
 
         const content = await file.async('text');
-        const matches = searchContent(content, pattern, options);
+        const matches = searchTextContent(content, pattern, options);
 
         if (matches.length > 0) {
           // Update file path in matches
@@ -392,6 +703,26 @@ export async function searchContent(
       }
     }
 
+    // Text files inside nested ZIP/CRX archives, reported under their virtual paths
+    const nestedResult = await loadNestedFiles(zipData, (path) => isNestedPath(path) && isTextFile(path));
+    if (nestedResult.success) {
+      const decoder = new TextDecoder('utf-8');
+      for (const file of nestedResult.files) {
+        const matches = file.data ? searchTextContent(decoder.decode(file.data), pattern, options) : [];
+        if (matches.length > 0) {
+          matches.forEach(match => {
+            match.filePath = file.name;
+          });
+
+          results.push({
+            filePath: file.name,
+            matches,
+            matchCount: matches.length,
+          });
+        }
+      }
+    }
+
     logger.info('Content search complete', {
       query,
       filesWithMatches: results.length,
@@ -541,24 +872,3 @@ function isTextFile(filePath: string): boolean {
 
   return textExtensions.includes(ext || '');
 }
-
-/**
- * Generate extension ID from manifest name
- * In production, this should be derived from the public key
- */
-async function generateExtensionId(name: string): Promise<string> {
-  // Simple hash-based ID generation
-  // In production, use the actual public key to generate the ID
-  const encoder = new TextEncoder();
-  const data = encoder.encode(name);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-
-  // Take first 32 characters and convert to lowercase letters only
-  return hashHex
-    .substring(0, 32)
-    .split('')
-    .map(c => String.fromCharCode(97 + (parseInt(c, 16) % 26)))
-    .join('');
-}
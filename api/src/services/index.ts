@@ -41,6 +41,8 @@ export {
 // CRX Service
 export {
   parseCRX,
+  resolveExtensionId,
+  verifyCRXSignatures,
   extractFileTree,
   extractManifest,
   extractFile,
@@ -50,6 +52,7 @@ export {
   CRXParseError,
   CRXExtractionError,
   type ParsedCRX,
+  type ExtensionIdResolution,
   type FileTree,
   type SearchResult,
   type FilterOptions,
@@ -62,6 +65,58 @@ export {
   cleanupSession,
   cleanupOrphanedFiles,
   getCleanupRecommendations,
+  startCleanupScheduler,
   CleanupError,
   type CleanupStats,
 } from './cleanup.service';
+
+// Analysis Service
+export {
+  analyzeExtension,
+  AnalysisError,
+} from './analysis.service';
+
+// Policy Service
+export {
+  checkPolicy,
+  readPolicy,
+  PolicyError,
+} from './policy.service';
+
+// Annotation Service
+export {
+  getAnnotations,
+  saveAnnotations,
+  deleteAnnotations,
+  sortAnnotations,
+  generateAnnotationsKey,
+  MAX_ANNOTATIONS_PER_SESSION,
+  AnnotationError,
+} from './annotation.service';
+
+// Ingest Service
+export {
+  ingestPackage,
+  downloadExtensionPackage,
+  getMaxFileSize,
+  IngestError,
+  type IngestOptions,
+  type DownloadedPackage,
+} from './ingest.service';
+
+// Batch Service
+export {
+  createBatch,
+  getBatchStatus,
+  processBatch,
+  isBatchStalled,
+  getBatchConcurrency,
+  getMaxBatchItems,
+  generateBatchUploadKey,
+  DEFAULT_BATCH_CONCURRENCY,
+  DEFAULT_MAX_BATCH_ITEMS,
+  BATCH_STALL_TIMEOUT_MS,
+  BatchError,
+  BatchNotFoundError,
+  type BatchUpload,
+} from './batch.service';
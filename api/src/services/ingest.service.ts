@@ -0,0 +1,215 @@
+/**
+ * Package Ingestion Service
+ *
+ * Turns raw package bytes into a stored extension session: validates the
+ * package, parses it, stores the original file in R2 and records the session
+ * in KV. Shared by the upload, download and batch endpoints.
+ */
+
+import type { Env, ExtensionSessionResponse, ExtensionStore, PackageFormat } from '../types';
+import { parseCRX, extractFileTree } from './crx.service';
+import { putFile, generateCRXKey } from './storage.service';
+import { createSession } from './session.service';
+import { downloadCrx } from '../lib/crx/download';
+import { extractExtensionId } from '../lib/crx/url-patterns';
+import { getAllFiles } from '../lib/zip/file-tree';
+import { validatePackageMagicBytes } from '../utils/validation';
+import { getLogger } from '../utils/logger';
+
+const logger = getLogger({ service: 'ingest' });
+
+/**
+ * Default maximum package size (150 MB)
+ */
+const DEFAULT_MAX_FILE_SIZE = 157286400;
+
+/**
+ * Source recorded in storage metadata for each store
+ */
+const STORE_SOURCES: Record<ExtensionStore, string> = {
+  chrome: 'chrome-web-store',
+  edge: 'edge-addons',
+  firefox: 'firefox-addons',
+};
+
+/**
+ * Options describing where a package came from
+ */
+export interface IngestOptions {
+  fileName: string;
+  /** Store the package was downloaded from; absent for uploads */
+  store?: ExtensionStore;
+  /** Extension ID or listing URL the package was downloaded from */
+  downloadedFrom?: string;
+  /** Batch job the package belongs to */
+  batchId?: string;
+}
+
+/**
+ * Package downloaded from an extension store
+ */
+export interface DownloadedPackage {
+  data: ArrayBuffer;
+  extensionId: string;
+  store: ExtensionStore;
+  fileName: string;
+}
+
+/**
+ * Custom error types for ingestion operations
+ */
+export class IngestError extends Error {
+  constructor(message: string, public code: string, public details?: any) {
+    super(message);
+    this.name = 'IngestError';
+  }
+}
+
+/**
+ * Get the maximum accepted package size
+ *
+ * @param env - Worker environment bindings
+ * @returns Size limit in bytes
+ */
+export function getMaxFileSize(env: Env): number {
+  return parseInt(env.MAX_FILE_SIZE || String(DEFAULT_MAX_FILE_SIZE), 10);
+}
+
+/**
+ * Download a package from the store an input points to
+ *
+ * @param input - Extension ID or Chrome Web Store, Edge Add-ons or Firefox Add-ons URL
+ * @returns Package bytes with the resolved extension ID and store
+ * @throws {IngestError} INVALID_INPUT if the input is not recognized, DOWNLOAD_FAILED if the store request fails
+ */
+export async function downloadExtensionPackage(input: string): Promise<DownloadedPackage> {
+  const parsed = extractExtensionId(input);
+
+  if (!parsed.success) {
+    throw new IngestError(
+      'Invalid input: must be a valid extension ID (32 lowercase letters) or a Chrome Web Store, Microsoft Edge Add-ons or Firefox Add-ons URL',
+      'INVALID_INPUT',
+      { input }
+    );
+  }
+
+  const { extensionId, store } = parsed;
+
+  logger.info('Downloading extension package', { extensionId, store });
+
+  const result = await downloadCrx(extensionId, store);
+  if (!result.success) {
+    throw new IngestError(result.error, 'DOWNLOAD_FAILED', { extensionId, store });
+  }
+
+  return {
+    data: result.data,
+    extensionId,
+    store,
+    fileName: `${extensionId}.${store === 'firefox' ? 'xpi' : 'crx'}`,
+  };
+}
+
+/**
+ * Validate, parse and store a package, and create its session
+ *
+ * @param env - Worker environment bindings
+ * @param data - CRX, XPI or ZIP file data
+ * @param options - Where the package came from
+ * @returns Session response for the stored extension
+ * @throws {IngestError} FILE_TOO_LARGE or INVALID_PACKAGE when validation fails
+ */
+export async function ingestPackage(
+  env: Env,
+  data: ArrayBuffer,
+  options: IngestOptions
+): Promise<ExtensionSessionResponse> {
+  const maxFileSize = getMaxFileSize(env);
+  if (data.byteLength > maxFileSize) {
+    throw new IngestError(
+      `File size exceeds maximum allowed (${maxFileSize} bytes / ${(maxFileSize / 1024 / 1024).toFixed(0)} MB)`,
+      'FILE_TOO_LARGE',
+      { maxSize: maxFileSize, actualSize: data.byteLength }
+    );
+  }
+
+  if (!validatePackageMagicBytes(data)) {
+    throw new IngestError('Invalid package format (expected a CRX, XPI or ZIP file)', 'INVALID_PACKAGE');
+  }
+
+  const sessionId = crypto.randomUUID();
+
+  logger.info('Parsing package', { sessionId, size: data.byteLength, store: options.store });
+
+  const parsed = await parseCRX(data);
+  const fileTree = await extractFileTree(parsed.zipData);
+  const source = options.store ? STORE_SOURCES[options.store] : 'upload';
+
+  // Store original package in R2
+  const crxKey = generateCRXKey(sessionId);
+  await putFile(env.CRX_STORAGE, crxKey, data, {
+    contentType: getPackageContentType(parsed.format, options.fileName),
+    customMetadata: {
+      sessionId,
+      extensionId: parsed.extensionId,
+      version: parsed.version,
+      fileName: options.fileName,
+      source,
+      ...(options.batchId ? { batchId: options.batchId } : {}),
+    },
+  });
+
+  logger.info('Package stored in R2', { sessionId, key: crxKey });
+
+  // Create session in KV with metadata
+  const sessionTTL = parseInt(env.SESSION_TTL || '86400', 10);
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + sessionTTL * 1000);
+
+  const response: ExtensionSessionResponse = {
+    sessionId,
+    extensionId: parsed.extensionId,
+    fileName: options.fileName,
+    fileCount: getAllFiles(fileTree).length,
+    size: data.byteLength,
+    createdAt: now.toISOString(),
+    expiresAt: expiresAt.toISOString(),
+    version: parsed.version,
+    format: parsed.format,
+    store: options.store,
+    extensionIdSource: parsed.extensionIdSource,
+    keyMismatch: parsed.keyMismatch,
+    signature: parsed.signature ?? undefined,
+  };
+
+  await createSession(
+    env.SESSIONS,
+    sessionId,
+    {
+      ...response,
+      fileTree,
+      customMetadata: options.store || options.batchId
+        ? {
+            source,
+            downloadedFrom: options.downloadedFrom,
+            batchId: options.batchId,
+          }
+        : undefined,
+    },
+    sessionTTL
+  );
+
+  logger.info('Session created', { sessionId, extensionId: parsed.extensionId });
+
+  return response;
+}
+
+/**
+ * Pick the stored content type for a package
+ */
+function getPackageContentType(format: PackageFormat, fileName: string): string {
+  if (format === 'crx') {
+    return 'application/x-chrome-extension';
+  }
+  return /\.xpi$/i.test(fileName) ? 'application/x-xpinstall' : 'application/zip';
+}
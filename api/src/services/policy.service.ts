@@ -0,0 +1,105 @@
+/**
+ * Policy Check Service
+ *
+ * Evaluates declarative extension policies (see lib/policy) against stored
+ * extensions: the manifest, the file list, the package size and the static
+ * code scanner findings.
+ */
+
+import type { PolicyCheckResponse } from '../types';
+import type { SessionMetadata } from './session.service';
+import { extractManifest } from './crx.service';
+import { evaluatePolicy, parsePolicy, validatePolicy, type ExtensionPolicy } from '../lib/policy';
+import { scanFiles, isScannableFile } from '../lib/analysis/code-scanner';
+import { extractZipEntries, loadZipFiles } from '../lib/zip/extractor';
+import { getLogger } from '../utils/logger';
+
+const logger = getLogger({ service: 'policy' });
+
+/**
+ * Custom error types for policy operations
+ */
+export class PolicyError extends Error {
+  constructor(message: string, public code: string, public details?: any) {
+    super(message);
+    this.name = 'PolicyError';
+  }
+}
+
+/**
+ * Read a policy from a request
+ *
+ * @param policy - Policy object, or JSON or YAML text
+ * @returns Validated policy
+ * @throws {PolicyError} If the policy cannot be parsed or a rule is invalid
+ */
+export function readPolicy(policy: string | Record<string, unknown>): ExtensionPolicy {
+  const result = typeof policy === 'string' ? parsePolicy(policy) : validatePolicy(policy);
+  if (!result.success) {
+    throw new PolicyError(result.error, 'INVALID_POLICY');
+  }
+  return result.policy;
+}
+
+/**
+ * Check a stored extension against a policy
+ *
+ * @param data - CRX or ZIP file data as ArrayBuffer
+ * @param session - Session metadata for the extension
+ * @param policy - Validated policy
+ * @returns Result of every rule
+ * @throws {PolicyError} If the extension cannot be read
+ */
+export async function checkPolicy(
+  data: ArrayBuffer,
+  session: SessionMetadata,
+  policy: ExtensionPolicy
+): Promise<PolicyCheckResponse> {
+  let manifest: Record<string, unknown>;
+  try {
+    manifest = await extractManifest(data);
+  } catch (error) {
+    throw new PolicyError(
+      `Failed to read manifest: ${error instanceof Error ? error.message : String(error)}`,
+      'MANIFEST_FAILED',
+      { error }
+    );
+  }
+
+  const entries = await extractZipEntries(data);
+  if (!entries.success) {
+    throw new PolicyError(entries.error, 'EXTRACTION_FAILED');
+  }
+
+  const sources = await loadZipFiles(data, isScannableFile);
+  if (!sources.success) {
+    throw new PolicyError(sources.error, 'SOURCE_LOAD_FAILED');
+  }
+
+  const decoder = new TextDecoder('utf-8');
+  const codeIssues = scanFiles(
+    sources.files.map((file) => ({ path: file.name, content: file.data ? decoder.decode(file.data) : '' })),
+    manifest
+  );
+
+  const report = evaluatePolicy(policy, {
+    manifest,
+    files: entries.files.filter((entry) => !entry.dir).map((entry) => ({ path: entry.name, size: entry.size })),
+    packageSize: session.size,
+    codeIssues,
+  });
+
+  logger.info('Policy checked', {
+    sessionId: session.sessionId,
+    policyName: policy.name,
+    passed: report.passed,
+    failed: report.summary.failed,
+  });
+
+  return {
+    sessionId: session.sessionId,
+    extensionId: session.extensionId,
+    ...report,
+    checkedAt: new Date().toISOString(),
+  };
+}
@@ -1,11 +1,20 @@
 /**
  * Session Management Service
  *
- * Handles KV-based session storage with TTL management, metadata tracking,
- * and comprehensive error handling.
+ * Handles session storage with TTL management, metadata tracking, and
+ * comprehensive error handling. Sessions live in a KeyValueStore: a KV
+ * namespace on Cloudflare, a JSON file store on the Node server.
  */
 
 import { getLogger } from '../utils/logger';
+import type {
+  CRXSignatureSummary,
+  ExtensionIdSource,
+  ExtensionKeyMismatch,
+  ExtensionStore,
+  KeyValueStore,
+  PackageFormat,
+} from '../types';
 
 const logger = getLogger({ service: 'session' });
 
@@ -33,6 +42,11 @@ export interface SessionMetadata {
   fileTree?: any;
   manifestVersion?: number;
   version?: string;
+  format?: PackageFormat;
+  store?: ExtensionStore;
+  extensionIdSource?: ExtensionIdSource;
+  keyMismatch?: ExtensionKeyMismatch;
+  signature?: CRXSignatureSummary;
   customMetadata?: Record<string, any>;
 }
 
@@ -78,14 +92,14 @@ async function withTimeout<T>(
 /**
  * Create a new session in KV storage
  *
- * @param kv - KV namespace instance
+ * @param kv - Session store (KV namespace or Node adapter)
  * @param sessionId - Unique session identifier
  * @param metadata - Session metadata
  * @param ttl - Time-to-live in seconds (default: 24 hours)
  * @throws {SessionError} If creation fails
  */
 export async function createSession(
-  kv: KVNamespace,
+  kv: KeyValueStore,
   sessionId: string,
   metadata: SessionMetadata,
   ttl: number = DEFAULT_SESSION_TTL
@@ -135,13 +149,13 @@ export async function createSession(
 /**
  * Retrieve a session from KV storage
  *
- * @param kv - KV namespace instance
+ * @param kv - Session store (KV namespace or Node adapter)
  * @param sessionId - Session identifier
  * @returns Session metadata or null if not found
  * @throws {SessionError} If retrieval fails
  */
 export async function getSession(
-  kv: KVNamespace,
+  kv: KeyValueStore,
   sessionId: string
 ): Promise<SessionMetadata | null> {
   try {
@@ -181,13 +195,13 @@ export async function getSession(
 /**
  * Update an existing session in KV storage
  *
- * @param kv - KV namespace instance
+ * @param kv - Session store (KV namespace or Node adapter)
  * @param sessionId - Session identifier
  * @param updates - Partial metadata updates
  * @throws {SessionError} If update fails or session not found
  */
 export async function updateSession(
-  kv: KVNamespace,
+  kv: KeyValueStore,
   sessionId: string,
   updates: Partial<SessionMetadata>
 ): Promise<void> {
@@ -251,12 +265,12 @@ export async function updateSession(
 /**
  * Delete a session from KV storage
  *
- * @param kv - KV namespace instance
+ * @param kv - Session store (KV namespace or Node adapter)
  * @param sessionId - Session identifier
  * @throws {SessionError} If deletion fails
  */
 export async function deleteSession(
-  kv: KVNamespace,
+  kv: KeyValueStore,
   sessionId: string
 ): Promise<void> {
   try {
@@ -284,13 +298,13 @@ export async function deleteSession(
 /**
  * List all session IDs in KV storage
  *
- * @param kv - KV namespace instance
+ * @param kv - Session store (KV namespace or Node adapter)
  * @param options - Optional listing options (limit, cursor)
  * @returns Array of session IDs
  * @throws {SessionError} If listing fails
  */
 export async function listSessions(
-  kv: KVNamespace,
+  kv: KeyValueStore,
   options?: {
     limit?: number;
     cursor?: string;
@@ -311,7 +325,10 @@ export async function listSessions(
       'listSessions()'
     );
 
-    const sessionIds = result.keys.map(key => key.name.replace('session:', ''));
+    // Keys stored next to a session (e.g. session:{id}:annotations) are not sessions
+    const sessionIds = result.keys
+      .map(key => key.name.replace('session:', ''))
+      .filter(sessionId => !sessionId.includes(':'));
     logger.debug('Sessions listed successfully', { count: sessionIds.length });
 
     return sessionIds;
@@ -333,13 +350,13 @@ export async function listSessions(
 /**
  * Extend session TTL
  *
- * @param kv - KV namespace instance
+ * @param kv - Session store (KV namespace or Node adapter)
  * @param sessionId - Session identifier
  * @param ttl - New TTL in seconds
  * @throws {SessionError} If extension fails or session not found
  */
 export async function extendSessionTTL(
-  kv: KVNamespace,
+  kv: KeyValueStore,
   sessionId: string,
   ttl: number
 ): Promise<void> {
@@ -390,13 +407,13 @@ export async function extendSessionTTL(
 /**
  * Get session expiry timestamp
  *
- * @param kv - KV namespace instance
+ * @param kv - Session store (KV namespace or Node adapter)
  * @param sessionId - Session identifier
  * @returns Expiry timestamp in milliseconds or null if not found
  * @throws {SessionError} If retrieval fails
  */
 export async function getSessionExpiry(
-  kv: KVNamespace,
+  kv: KeyValueStore,
   sessionId: string
 ): Promise<number | null> {
   try {
@@ -424,13 +441,13 @@ export async function getSessionExpiry(
 /**
  * Check if a session exists
  *
- * @param kv - KV namespace instance
+ * @param kv - Session store (KV namespace or Node adapter)
  * @param sessionId - Session identifier
  * @returns true if session exists, false otherwise
  * @throws {SessionError} If check fails
  */
 export async function sessionExists(
-  kv: KVNamespace,
+  kv: KeyValueStore,
   sessionId: string
 ): Promise<boolean> {
   try {
@@ -1,10 +1,12 @@
 /**
- * R2 Storage Service
+ * Blob Storage Service
  *
- * Handles all R2 bucket operations for CRX file storage with comprehensive
- * error handling and timeout management.
+ * Handles all blob store operations for CRX file storage with comprehensive
+ * error handling and timeout management. The store is an R2 bucket on
+ * Cloudflare and a filesystem store on the Node server.
  */
 
+import type { BlobStore } from '../types';
 import { getLogger } from '../utils/logger';
 
 const logger = getLogger({ service: 'storage' });
@@ -64,16 +66,16 @@ async function withTimeout<T>(
 }
 
 /**
- * Upload a file to R2 bucket
+ * Upload a file to blob store
  *
- * @param bucket - R2 bucket instance
+ * @param bucket - Blob store (R2 bucket or Node adapter)
  * @param key - Object key (path) in the bucket
  * @param data - File data as ArrayBuffer
  * @param options - Optional metadata (contentType, customMetadata)
  * @throws {StorageError} If upload fails
  */
 export async function putFile(
-  bucket: R2Bucket,
+  bucket: BlobStore,
   key: string,
   data: ArrayBuffer,
   options?: {
@@ -82,7 +84,7 @@ export async function putFile(
   }
 ): Promise<void> {
   try {
-    logger.info('Uploading file to R2', { key, size: data.byteLength });
+    logger.info('Uploading file', { key, size: data.byteLength });
 
     const uploadPromise = bucket.put(key, data, {
       httpMetadata: options?.contentType
@@ -110,19 +112,19 @@ export async function putFile(
 }
 
 /**
- * Retrieve a file from R2 bucket
+ * Retrieve a file from blob store
  *
- * @param bucket - R2 bucket instance
+ * @param bucket - Blob store (R2 bucket or Node adapter)
  * @param key - Object key (path) in the bucket
  * @returns File data as ArrayBuffer or null if not found
  * @throws {StorageError} If retrieval fails
  */
 export async function getFile(
-  bucket: R2Bucket,
+  bucket: BlobStore,
   key: string
 ): Promise<ArrayBuffer | null> {
   try {
-    logger.debug('Retrieving file from R2', { key });
+    logger.debug('Retrieving file', { key });
 
     const getPromise = bucket.get(key);
     const object = await withTimeout(getPromise, STORAGE_TIMEOUT, `getFile(${key})`);
@@ -152,18 +154,18 @@ export async function getFile(
 }
 
 /**
- * Delete a file from R2 bucket
+ * Delete a file from blob store
  *
- * @param bucket - R2 bucket instance
+ * @param bucket - Blob store (R2 bucket or Node adapter)
  * @param key - Object key (path) in the bucket
  * @throws {StorageError} If deletion fails
  */
 export async function deleteFile(
-  bucket: R2Bucket,
+  bucket: BlobStore,
   key: string
 ): Promise<void> {
   try {
-    logger.info('Deleting file from R2', { key });
+    logger.info('Deleting file', { key });
 
     const deletePromise = bucket.delete(key);
     await withTimeout(deletePromise, STORAGE_TIMEOUT, `deleteFile(${key})`);
@@ -185,16 +187,16 @@ export async function deleteFile(
 }
 
 /**
- * List files in R2 bucket with optional prefix
+ * List files in blob store with optional prefix
  *
- * @param bucket - R2 bucket instance
+ * @param bucket - Blob store (R2 bucket or Node adapter)
  * @param prefix - Optional prefix to filter files
  * @param options - Optional listing options (limit, cursor)
  * @returns Array of object keys
  * @throws {StorageError} If listing fails
  */
 export async function listFiles(
-  bucket: R2Bucket,
+  bucket: BlobStore,
   prefix: string = '',
   options?: {
     limit?: number;
@@ -202,7 +204,7 @@ export async function listFiles(
   }
 ): Promise<string[]> {
   try {
-    logger.debug('Listing files in R2', { prefix, limit: options?.limit });
+    logger.debug('Listing files', { prefix, limit: options?.limit });
 
     const listPromise = bucket.list({
       prefix,
@@ -236,15 +238,15 @@ export async function listFiles(
 }
 
 /**
- * Check if a file exists in R2 bucket
+ * Check if a file exists in blob store
  *
- * @param bucket - R2 bucket instance
+ * @param bucket - Blob store (R2 bucket or Node adapter)
  * @param key - Object key (path) in the bucket
  * @returns true if file exists, false otherwise
  * @throws {StorageError} If check fails
  */
 export async function fileExists(
-  bucket: R2Bucket,
+  bucket: BlobStore,
   key: string
 ): Promise<boolean> {
   try {
@@ -273,15 +275,15 @@ export async function fileExists(
 }
 
 /**
- * Get file metadata from R2 bucket
+ * Get file metadata from blob store
  *
- * @param bucket - R2 bucket instance
+ * @param bucket - Blob store (R2 bucket or Node adapter)
  * @param key - Object key (path) in the bucket
  * @returns File metadata or null if not found
  * @throws {StorageError} If metadata retrieval fails
  */
 export async function getFileMetadata(
-  bucket: R2Bucket,
+  bucket: BlobStore,
   key: string
 ): Promise<FileMetadata | null> {
   try {
@@ -348,13 +350,13 @@ export function generateZIPKey(sessionId: string): string {
 /**
  * Delete all files for a session
  *
- * @param bucket - R2 bucket instance
+ * @param bucket - Blob store (R2 bucket or Node adapter)
  * @param sessionId - Session identifier
  * @returns Number of files deleted
  * @throws {StorageError} If deletion fails
  */
 export async function deleteSessionFiles(
-  bucket: R2Bucket,
+  bucket: BlobStore,
   sessionId: string
 ): Promise<number> {
   try {
@@ -191,6 +191,8 @@ console.log(`    GET  /api/v1/extensions/:sessionId/download/zip`);
 console.log(`\n  Search & Filter:`);
 console.log(`    POST /api/v1/extensions/:sessionId/search`);
 console.log(`    POST /api/v1/extensions/:sessionId/filter`);
+console.log(`\n  Security Analysis:`);
+console.log(`    GET  /api/v1/extensions/:sessionId/analysis`);
 
 console.log(`\nExample cURL commands:`);
 console.log(`\n  Health check:`);
@@ -1,4 +1,6 @@
 import type { Context } from 'hono';
+import type { WasmModule } from '../lib/wasm';
+import type { ManifestView } from '../lib/manifest';
 
 /**
  * API Response wrapper type
@@ -139,17 +141,123 @@ export interface SearchResult {
   relevanceScore: number;
 }
 
+/**
+ * Options for writing a key-value entry
+ */
+export interface KeyValuePutOptions {
+  /** Seconds until the entry expires */
+  expirationTtl?: number;
+  /** Absolute expiry as seconds since the epoch */
+  expiration?: number;
+}
+
+/**
+ * Options for listing key-value entries
+ */
+export interface KeyValueListOptions {
+  prefix?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+/**
+ * One page of key-value entries
+ */
+export interface KeyValueListResult {
+  keys: Array<{ name: string; expiration?: number }>;
+  list_complete: boolean;
+  cursor?: string;
+}
+
+/**
+ * Key-value store for sessions, batches, annotations, rate limits and caches
+ *
+ * This is the part of the Workers KV API the services use, so a KV namespace
+ * binding satisfies it as is. The Node server uses a JSON file store.
+ */
+export interface KeyValueStore {
+  get(key: string, type?: 'text'): Promise<string | null>;
+  get<T = unknown>(key: string, type: 'json'): Promise<T | null>;
+  put(key: string, value: string, options?: KeyValuePutOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options?: KeyValueListOptions): Promise<KeyValueListResult>;
+}
+
+/**
+ * Stored blob metadata
+ */
+export interface BlobObject {
+  key: string;
+  size: number;
+  uploaded: Date;
+  etag: string;
+  httpMetadata?: { contentType?: string };
+  customMetadata?: Record<string, string>;
+}
+
+/**
+ * Stored blob with its contents
+ */
+export interface BlobObjectBody extends BlobObject {
+  arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+/**
+ * Options for writing a blob
+ */
+export interface BlobPutOptions {
+  httpMetadata?: { contentType?: string };
+  customMetadata?: Record<string, string>;
+}
+
+/**
+ * Options for listing blobs
+ */
+export interface BlobListOptions {
+  prefix?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+/**
+ * One page of blobs, ordered by key
+ */
+export interface BlobListResult {
+  objects: BlobObject[];
+  truncated: boolean;
+  cursor?: string;
+}
+
+/**
+ * Blob store for uploaded packages
+ *
+ * This is the part of the R2 bucket API the services use, so an R2 binding
+ * satisfies it as is. The Node server uses a filesystem store.
+ */
+export interface BlobStore {
+  put(key: string, value: ArrayBuffer, options?: BlobPutOptions): Promise<unknown>;
+  get(key: string): Promise<BlobObjectBody | null>;
+  head(key: string): Promise<BlobObject | null>;
+  delete(key: string): Promise<void>;
+  list(options?: BlobListOptions): Promise<BlobListResult>;
+}
+
 /**
  * Worker environment bindings
+ *
+ * On Cloudflare the stores are KV and R2 bindings; the Node server
+ * (src/server.ts) provides filesystem-backed adapters instead.
  */
 export interface Env {
-  SESSIONS: KVNamespace;
-  CACHE: KVNamespace;
-  CRX_STORAGE: R2Bucket;
+  SESSIONS: KeyValueStore;
+  CACHE: KeyValueStore;
+  CRX_STORAGE: BlobStore;
   SESSION_TTL: string;
   MAX_FILE_SIZE: string;
   RATE_LIMIT_DOWNLOAD: string;
   API_VERSION: string;
+  BATCH_CONCURRENCY?: string;
+  MAX_BATCH_ITEMS?: string;
   ENVIRONMENT?: string;
   ALLOWED_ORIGINS?: string;
   API_KEY?: string;
@@ -247,6 +355,85 @@ export interface BatchOperationResult<T> {
   }>;
 }
 
+/**
+ * Processing state of one batch item
+ */
+export type BatchItemStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+/**
+ * Overall state of a batch job
+ */
+export type BatchStatus = 'pending' | 'processing' | 'completed';
+
+/**
+ * One extension in a batch job
+ */
+export interface BatchItem {
+  /** Position of the item in the batch request */
+  index: number;
+  /** Extension ID or store URL for downloads, file name for uploads */
+  input: string;
+  source: 'download' | 'upload';
+  status: BatchItemStatus;
+  /** Session created for the extension once processed */
+  sessionId?: string;
+  extensionId?: string;
+  version?: string;
+  store?: ExtensionStore;
+  error?: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+/**
+ * Batch progress counters
+ */
+export interface BatchProgress {
+  total: number;
+  pending: number;
+  processing: number;
+  completed: number;
+  failed: number;
+  /** Finished items (completed or failed) as a percentage of the total */
+  percent: number;
+}
+
+/**
+ * Batch job status response
+ *
+ * `successful` lists completed items; `failed` pairs each failed item with its error.
+ */
+export interface BatchStatusResponse extends BatchOperationResult<BatchItem> {
+  batchId: string;
+  status: BatchStatus;
+  progress: BatchProgress;
+  /** Items not finished yet (pending or processing) */
+  remaining: BatchItem[];
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Severity of a review annotation
+ */
+export type AnnotationSeverity = 'info' | 'low' | 'medium' | 'high';
+
+/**
+ * Review comment on a file, or on one line of a file
+ */
+export interface Annotation {
+  id: string;
+  filePath: string;
+  /** 1-based line, or null for a file-level annotation */
+  line: number | null;
+  severity: AnnotationSeverity;
+  note: string;
+  author?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 /**
  * File category types
  */
@@ -297,6 +484,45 @@ export interface DownloadRequest {
   input: string;
 }
 
+/**
+ * Batch request - extension IDs or store URLs to download
+ *
+ * Uploaded files are sent as multipart/form-data `files` fields instead.
+ */
+export interface BatchRequest {
+  inputs: string[];
+}
+
+/**
+ * Annotation request - annotations to add, or to replace when `id` matches a stored one
+ *
+ * The JSON exported by the web viewer has the same `annotations` field and can be posted as is.
+ */
+export interface AnnotationRequest {
+  annotations: AnnotationInput[];
+}
+
+/**
+ * Policy check request - a policy document as a JSON object, or as JSON or YAML text
+ *
+ * The policy format is the one the web viewer's Policy tab edits.
+ */
+export interface PolicyCheckRequest {
+  policy: string | Record<string, unknown>;
+}
+
+/**
+ * Annotation fields accepted from clients
+ */
+export interface AnnotationInput {
+  id?: string;
+  filePath: string;
+  line?: number | null;
+  severity: AnnotationSeverity;
+  note: string;
+  author?: string;
+}
+
 /**
  * Content search request with advanced options
  */
@@ -338,6 +564,62 @@ export interface ExtensionSessionResponse {
   createdAt: string;
   expiresAt: string;
   version?: string;
+  format?: PackageFormat;
+  store?: ExtensionStore;
+  extensionIdSource?: ExtensionIdSource;
+  keyMismatch?: ExtensionKeyMismatch;
+  signature?: CRXSignatureSummary;
+}
+
+/**
+ * Container format of an uploaded or downloaded package
+ */
+export type PackageFormat = 'crx' | 'zip';
+
+/**
+ * Store a package was downloaded from
+ */
+export type ExtensionStore = 'chrome' | 'edge' | 'firefox';
+
+/**
+ * Where an extension ID was derived from
+ *
+ * - crx2 / crx3: the CRX signing key (for CRX3, the key that hashes to crx_id)
+ * - crx3-unverified: the crx_id a CRX3 declares, when none of its keys hashes to it
+ * - manifest: the manifest `key` field
+ * - gecko: the Firefox add-on ID in browser_specific_settings
+ * - package: a hash of the package contents, for packages with no key or add-on ID
+ */
+export type ExtensionIdSource = 'crx2' | 'crx3' | 'crx3-unverified' | 'manifest' | 'gecko' | 'package';
+
+/**
+ * Reported when the manifest `key` field disagrees with the CRX signing key
+ */
+export interface ExtensionKeyMismatch {
+  manifestKeyId: string;
+  signingKeyId: string;
+}
+
+/**
+ * Signature verification result for a single CRX key proof
+ */
+export interface CRXProofSummary {
+  algorithm: 'sha1_with_rsa' | 'sha256_with_rsa' | 'sha256_with_ecdsa';
+  keyId: string;
+  valid: boolean;
+  isPublisher: boolean;
+  isWebStore: boolean;
+}
+
+/**
+ * CRX signature verification summary
+ */
+export interface CRXSignatureSummary {
+  crxVersion: number;
+  crxId: string | null;
+  publisherSigned: boolean;
+  webStoreSigned: boolean;
+  proofs: CRXProofSummary[];
 }
 
 /**
@@ -348,6 +630,56 @@ export interface ManifestResponse {
   manifestVersion: number;
   permissions: string[];
   hostPermissions?: string[];
+  /** Manifest with `__MSG_` placeholders resolved and entry points normalized */
+  view: ManifestView;
+}
+
+/**
+ * Annotations of an extension session
+ */
+export interface AnnotationListResponse {
+  sessionId: string;
+  extensionId: string;
+  version?: string;
+  annotations: Annotation[];
+  count: number;
+  /** When annotations last changed, or null if there are none */
+  updatedAt: string | null;
+}
+
+/**
+ * Result of one policy rule
+ */
+export interface PolicyRuleCheck {
+  id: string;
+  type: string;
+  description?: string;
+  severity: 'error' | 'warning';
+  passed: boolean;
+  violations: Array<{
+    message: string;
+    file?: string;
+    line?: number;
+  }>;
+}
+
+/**
+ * Policy check report
+ */
+export interface PolicyCheckResponse {
+  sessionId: string;
+  extensionId: string;
+  policyName?: string;
+  /** False when any rule of severity `error` failed */
+  passed: boolean;
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    warnings: number;
+  };
+  results: PolicyRuleCheck[];
+  checkedAt: string;
 }
 
 /**
@@ -371,6 +703,20 @@ export interface FileExtractionResponse {
   encoding: 'utf-8' | 'base64';
 }
 
+/**
+ * WebAssembly inspection response (`?view=wasm`)
+ */
+export interface WasmInspectionResponse {
+  path: string;
+  size: number;
+  module: WasmModule;
+  /** WAT-style disassembly, present when a function index was requested */
+  disassembly?: {
+    function: number;
+    text: string;
+  };
+}
+
 /**
  * Search result match
  */
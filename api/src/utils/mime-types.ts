@@ -283,7 +283,7 @@ export function isFontFile(filename: string): boolean {
  * @returns true if the file is an archive
  */
 export function isArchiveFile(filename: string): boolean {
-  const archiveExtensions = ['zip', 'rar', '7z', 'tar', 'gz', 'bz2', 'xz'];
+  const archiveExtensions = ['zip', 'crx', 'xpi', 'jar', 'rar', '7z', 'tar', 'gz', 'bz2', 'xz'];
   const ext = filename.split('.').pop()?.toLowerCase() || '';
   return archiveExtensions.includes(ext);
 }
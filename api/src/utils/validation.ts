@@ -1,5 +1,13 @@
 import { z } from 'zod';
-import type { SearchRequest, FilterRequest, DownloadRequest } from '../types/index';
+import type {
+  SearchRequest,
+  FilterRequest,
+  DownloadRequest,
+  BatchRequest,
+  AnnotationRequest,
+  PolicyCheckRequest,
+} from '../types/index';
+import { detectPackageFormat } from '../lib/crx/zip-converter';
 
 /**
  * Common validation patterns
@@ -121,6 +129,65 @@ export const downloadRequestSchema = z.object({
     .max(1000, 'Input too long'),
 }) as z.ZodSchema<DownloadRequest>;
 
+/**
+ * Batch request validation schema
+ */
+export const batchRequestSchema = z.object({
+  inputs: z
+    .array(
+      z
+        .string()
+        .min(1, 'Input required')
+        .max(1000, 'Input too long')
+    )
+    .max(1000, 'Too many inputs'),
+}) as z.ZodSchema<BatchRequest>;
+
+/**
+ * Annotation request validation schema
+ */
+export const annotationRequestSchema = z.object({
+  annotations: z
+    .array(
+      z.object({
+        id: z.string().min(1).max(100, 'Annotation ID too long').optional(),
+        filePath: z
+          .string()
+          .min(1, 'File path required')
+          .max(1000, 'File path too long'),
+        line: z
+          .number()
+          .int('Line must be an integer')
+          .min(1, 'Line must be >= 1')
+          .nullable()
+          .optional(),
+        severity: z.enum(['info', 'low', 'medium', 'high']),
+        note: z
+          .string()
+          .min(1, 'Note required')
+          .max(10000, 'Note too long'),
+        author: z.string().max(100, 'Author too long').optional(),
+      })
+    )
+    .min(1, 'At least one annotation required')
+    .max(500, 'Too many annotations'),
+}) as z.ZodSchema<AnnotationRequest>;
+
+/**
+ * Policy check request validation schema
+ *
+ * Only the envelope is checked here; rules are validated by validatePolicy.
+ */
+export const policyCheckRequestSchema = z.object({
+  policy: z.union([
+    z
+      .string()
+      .min(1, 'Policy required')
+      .max(100000, 'Policy too long'),
+    z.record(z.unknown()),
+  ]),
+}) as z.ZodSchema<PolicyCheckRequest>;
+
 /**
  * Upload request validation schema
  */
@@ -185,6 +252,13 @@ export function validateSessionId(id: string): id is string {
   return patterns.uuid.test(id);
 }
 
+/**
+ * Validate batch ID format
+ */
+export function validateBatchId(id: string): id is string {
+  return patterns.uuid.test(id);
+}
+
 /**
  * Validate Chrome Web Store URL
  */
@@ -234,6 +308,13 @@ export function validateCRXMagicBytes(buffer: ArrayBuffer): boolean {
   return magicString === 'Cr24';
 }
 
+/**
+ * Validate package magic bytes (CRX, or ZIP for XPI and unpacked archives)
+ */
+export function validatePackageMagicBytes(buffer: ArrayBuffer): boolean {
+  return detectPackageFormat(buffer) !== null;
+}
+
 /**
  * Validate manifest version
  */
@@ -0,0 +1,86 @@
+/**
+ * Unit tests for the filesystem blob store
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileSystemBlobStore } from '../../src/adapters/fs-blob-store';
+import { getFile, putFile, deleteSessionFiles, getFileMetadata } from '../../src/services/storage.service';
+
+function bytes(...values: number[]): ArrayBuffer {
+  return new Uint8Array(values).buffer;
+}
+
+describe('FileSystemBlobStore', () => {
+  let rootDir: string;
+  let store: FileSystemBlobStore;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'crxreview-blobs-'));
+    store = new FileSystemBlobStore(rootDir);
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should store and read blobs with their metadata', async () => {
+    await store.put('crx/s1/original.crx', bytes(1, 2, 3), {
+      httpMetadata: { contentType: 'application/x-chrome-extension' },
+      customMetadata: { fileName: 'test.crx' },
+    });
+
+    const object = await store.get('crx/s1/original.crx');
+    expect(object).not.toBeNull();
+    expect(new Uint8Array(await object!.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+    expect(object!.size).toBe(3);
+    expect(object!.httpMetadata?.contentType).toBe('application/x-chrome-extension');
+    expect(object!.customMetadata).toEqual({ fileName: 'test.crx' });
+    expect(object!.etag).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it('should return null for missing blobs', async () => {
+    expect(await store.get('crx/missing/original.crx')).toBeNull();
+    expect(await store.head('crx/missing/original.crx')).toBeNull();
+  });
+
+  it('should list blobs by prefix in pages', async () => {
+    await store.put('crx/a/original.crx', bytes(1));
+    await store.put('crx/b/original.crx', bytes(2));
+    await store.put('crx/c/original.crx', bytes(3));
+    await store.put('batch/x/0', bytes(4));
+
+    const first = await store.list({ prefix: 'crx/', limit: 2 });
+    expect(first.objects.map((object) => object.key)).toEqual(['crx/a/original.crx', 'crx/b/original.crx']);
+    expect(first.truncated).toBe(true);
+
+    const second = await store.list({ prefix: 'crx/', limit: 2, cursor: first.cursor });
+    expect(second.objects.map((object) => object.key)).toEqual(['crx/c/original.crx']);
+    expect(second.truncated).toBe(false);
+  });
+
+  it('should remove empty directories on delete', async () => {
+    await store.put('crx/s1/original.crx', bytes(1));
+    await store.delete('crx/s1/original.crx');
+
+    expect(await store.head('crx/s1/original.crx')).toBeNull();
+    expect(await readdir(join(rootDir, 'objects'))).toEqual([]);
+  });
+
+  it('should reject keys that escape the root directory', async () => {
+    await expect(store.put('../outside', bytes(1))).rejects.toThrow('Invalid blob key');
+    await expect(store.get('crx//original.crx')).rejects.toThrow('Invalid blob key');
+  });
+
+  it('should work with the storage service', async () => {
+    await putFile(store, 'crx/s1/original.crx', bytes(5, 6), { contentType: 'application/zip' });
+    await putFile(store, 'crx/s1/extracted.zip', bytes(7));
+
+    expect(new Uint8Array((await getFile(store, 'crx/s1/original.crx'))!)).toEqual(new Uint8Array([5, 6]));
+    expect((await getFileMetadata(store, 'crx/s1/original.crx'))?.contentType).toBe('application/zip');
+    expect(await deleteSessionFiles(store, 's1')).toBe(2);
+    expect(await getFile(store, 'crx/s1/original.crx')).toBeNull();
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for the JSON file key-value store
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JsonKeyValueStore } from '../../src/adapters/json-kv-store';
+import { writeFileAtomic } from '../../src/adapters/fs-utils';
+import { createSession, getSession, listSessions, type SessionMetadata } from '../../src/services/session.service';
+
+vi.mock('../../src/adapters/fs-utils', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/adapters/fs-utils')>();
+  return { ...actual, writeFileAtomic: vi.fn(actual.writeFileAtomic) };
+});
+
+const SESSION: SessionMetadata = {
+  sessionId: 'session-1',
+  extensionId: 'a'.repeat(32),
+  fileName: 'test.crx',
+  fileCount: 1,
+  size: 10,
+  createdAt: '',
+  expiresAt: '',
+};
+
+describe('JsonKeyValueStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'crxreview-kv-'));
+    filePath = join(dir, 'sessions.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read values as text or JSON', async () => {
+    const store = new JsonKeyValueStore();
+    await store.put('key', '{"count":2}');
+
+    expect(await store.get('key')).toBe('{"count":2}');
+    expect(await store.get<{ count: number }>('key', 'json')).toEqual({ count: 2 });
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('should persist entries across instances', async () => {
+    const store = new JsonKeyValueStore(filePath);
+    await store.put('session:1', 'one');
+    await store.put('session:2', 'two');
+    await store.delete('session:1');
+
+    const reopened = new JsonKeyValueStore(filePath);
+    expect(await reopened.get('session:1')).toBeNull();
+    expect(await reopened.get('session:2')).toBe('two');
+  });
+
+  it('should hide and drop expired entries', async () => {
+    const store = new JsonKeyValueStore(filePath);
+    await store.put('expired', 'old', { expiration: Math.floor(Date.now() / 1000) - 1 });
+    await store.put('fresh', 'new', { expirationTtl: 60 });
+
+    expect(await store.get('expired')).toBeNull();
+    expect((await store.list()).keys.map((key) => key.name)).toEqual(['fresh']);
+
+    const reopened = new JsonKeyValueStore(filePath);
+    expect(await reopened.get('expired')).toBeNull();
+    expect(await reopened.get('fresh')).toBe('new');
+  });
+
+  it('should list keys by prefix in pages', async () => {
+    const store = new JsonKeyValueStore();
+    for (const name of ['session:c', 'session:a', 'batch:x', 'session:b']) {
+      await store.put(name, 'value');
+    }
+
+    const first = await store.list({ prefix: 'session:', limit: 2 });
+    expect(first.keys.map((key) => key.name)).toEqual(['session:a', 'session:b']);
+    expect(first.list_complete).toBe(false);
+
+    const second = await store.list({ prefix: 'session:', cursor: first.cursor });
+    expect(second.keys.map((key) => key.name)).toEqual(['session:c']);
+    expect(second.list_complete).toBe(true);
+  });
+
+  it('should coalesce concurrent writes', async () => {
+    const store = new JsonKeyValueStore(filePath);
+    await Promise.all(Array.from({ length: 20 }, (_, index) => store.put(`key:${index}`, String(index))));
+    await store.flush();
+
+    const reopened = new JsonKeyValueStore(filePath);
+    expect((await reopened.list({ prefix: 'key:' })).keys).toHaveLength(20);
+  });
+
+  it('should write changes made while a write is finishing', async () => {
+    const { writeFileAtomic: actualWrite } = await vi.importActual<typeof import('../../src/adapters/fs-utils')>(
+      '../../src/adapters/fs-utils'
+    );
+
+    // Land one put at each microtask step while the store wraps up a slow write
+    for (let depth = 0; depth < 5; depth++) {
+      const path = join(dir, `interleaved-${depth}.json`);
+      const store = new JsonKeyValueStore(path);
+      let late: Promise<void> | undefined;
+
+      vi.mocked(writeFileAtomic).mockImplementationOnce(async (target, data) => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        await actualWrite(target, data);
+        let step = Promise.resolve();
+        for (let i = 0; i < depth; i++) {
+          step = step.then();
+        }
+        step.then(() => {
+          late = store.put('late', 'value');
+        });
+      });
+
+      await store.put('key', 'value');
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      await late;
+
+      const reopened = new JsonKeyValueStore(path);
+      expect(await reopened.get('late'), `put at depth ${depth}`).toBe('value');
+    }
+  });
+
+  it('should refuse files that are not store files', async () => {
+    await writeFile(filePath, '{"sessions":[]}');
+    expect(() => new JsonKeyValueStore(filePath)).toThrow('Not a key-value store file');
+  });
+
+  it('should work with the session service', async () => {
+    const store = new JsonKeyValueStore(filePath);
+    await createSession(store, SESSION.sessionId, SESSION, 60);
+
+    expect((await getSession(store, SESSION.sessionId))?.fileName).toBe('test.crx');
+    expect(await listSessions(store)).toEqual([SESSION.sessionId]);
+  });
+});
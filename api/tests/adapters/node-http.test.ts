@@ -0,0 +1,95 @@
+/**
+ * Tests for the node:http bridge
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, request, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createRequestListener } from '../../src/adapters/node-http';
+
+const MAX_BODY_SIZE = 1024;
+
+interface RawResponse {
+  status: number;
+  body: string;
+}
+
+describe('Node HTTP bridge', () => {
+  let server: Server;
+  let port: number;
+  let received: number[];
+
+  beforeEach(async () => {
+    received = [];
+    server = createServer(
+      createRequestListener(
+        async (req) => {
+          const body = await req.arrayBuffer();
+          received.push(body.byteLength);
+          return Response.json({ size: body.byteLength });
+        },
+        { maxBodySize: MAX_BODY_SIZE }
+      )
+    );
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  /**
+   * POST the chunks, with a Content-Length header unless `chunked` is set
+   */
+  function post(chunks: Buffer[], chunked = false): Promise<RawResponse> {
+    return new Promise((resolve, reject) => {
+      const size = chunks.reduce((total, chunk) => total + chunk.length, 0);
+      const req = request(
+        {
+          host: '127.0.0.1',
+          port,
+          method: 'POST',
+          path: '/upload',
+          headers: chunked ? { 'Transfer-Encoding': 'chunked' } : { 'Content-Length': size },
+        },
+        (res) => {
+          let body = '';
+          res.setEncoding('utf-8');
+          res.on('data', (chunk) => (body += chunk));
+          res.on('end', () => resolve({ status: res.statusCode ?? 0, body }));
+        }
+      );
+      // The server may close the connection before the whole body is sent
+      req.on('error', reject);
+      for (const chunk of chunks) {
+        req.write(chunk);
+      }
+      req.end();
+    });
+  }
+
+  it('should pass bodies within the limit to the handler', async () => {
+    const response = await post([Buffer.alloc(MAX_BODY_SIZE)]);
+
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.body)).toEqual({ size: MAX_BODY_SIZE });
+  });
+
+  it('should refuse a Content-Length over the limit before reading the body', async () => {
+    const response = await post([Buffer.alloc(MAX_BODY_SIZE + 1)]);
+
+    expect(response.status).toBe(413);
+    expect(JSON.parse(response.body).error.code).toBe('PAYLOAD_TOO_LARGE');
+    expect(received).toEqual([]);
+  });
+
+  it('should stop reading a chunked body once it passes the limit', async () => {
+    const response = await post([Buffer.alloc(MAX_BODY_SIZE / 2), Buffer.alloc(MAX_BODY_SIZE)], true);
+
+    expect(response.status).toBe(413);
+    expect(JSON.parse(response.body).error.code).toBe('PAYLOAD_TOO_LARGE');
+    expect(received).toEqual([]);
+  });
+});
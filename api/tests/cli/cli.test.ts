@@ -0,0 +1,284 @@
+/**
+ * Tests for the crxreview CLI
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import JSZip from 'jszip';
+import { runCli } from '../../src/cli/cli';
+import type { CliIO } from '../../src/cli/commands';
+import { createSignedCRXFile } from '../utils/helpers';
+
+const EXTENSION_ID = 'a'.repeat(32);
+
+const MANIFEST = {
+  manifest_version: 3,
+  name: 'Test Extension',
+  version: '1.0.0',
+  permissions: ['storage'],
+  host_permissions: ['<all_urls>'],
+  background: { service_worker: 'background.js' },
+};
+
+async function buildZip(files: Record<string, string | Uint8Array>): Promise<Uint8Array> {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(files)) {
+    zip.file(path, content);
+  }
+  return zip.generateAsync({ type: 'uint8array' });
+}
+
+function createIO(responses: Record<string, Uint8Array | string> = {}) {
+  const output = { stdout: '', stderr: '', bytes: [] as Uint8Array[], requests: [] as string[] };
+  const io: CliIO = {
+    stdout: (text) => {
+      if (typeof text === 'string') {
+        output.stdout += text;
+      } else {
+        output.bytes.push(text);
+      }
+    },
+    stderr: (text) => {
+      output.stderr += text;
+    },
+    fetch: async (input) => {
+      const url = String(input);
+      output.requests.push(url);
+      const body = Object.entries(responses).find(([prefix]) => url.startsWith(prefix))?.[1];
+      return body === undefined ? new Response(null, { status: 404 }) : new Response(body);
+    },
+  };
+  return { io, output };
+}
+
+describe('crxreview CLI', () => {
+  let dir: string;
+  let packagePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'crxreview-cli-'));
+    packagePath = join(dir, 'test.zip');
+    await writeFile(
+      packagePath,
+      await buildZip({
+        'manifest.json': JSON.stringify(MANIFEST),
+        'background.js': 'const token = "abc";\nchrome.storage.local.set({ token });\n',
+        'lib/util.js': 'export function add(a, b) {\n  return a + b;\n}\n',
+        'icon.png': new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]),
+      })
+    );
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('info', () => {
+    it('should summarize the package', async () => {
+      const { io, output } = createIO();
+      expect(await runCli(['info', packagePath], io)).toBe(0);
+
+      expect(output.stdout).toContain('Test Extension');
+      expect(output.stdout).toContain('unsigned');
+      expect(output.stdout).toContain('service worker background.js');
+    });
+
+    it('should print JSON with --json', async () => {
+      const { io, output } = createIO();
+      expect(await runCli(['info', packagePath, '--json'], io)).toBe(0);
+
+      const info = JSON.parse(output.stdout);
+      expect(info.format).toBe('zip');
+      expect(info.crxVersion).toBeNull();
+      expect(info.signature.status).toBe('unsigned');
+      expect(info.manifest.hostPermissions).toEqual(['<all_urls>']);
+      expect(info.fileCount).toBe(4);
+      expect(info.policy).toEqual({ passed: true, failures: [] });
+    });
+
+    it('should exit 2 when a policy fails', async () => {
+      const { io, output } = createIO();
+      expect(await runCli(['info', packagePath, '--fail-on', 'medium', '--require-signed'], io)).toBe(2);
+
+      expect(output.stderr).toContain('--fail-on medium');
+      expect(output.stderr).toContain('signature is unsigned');
+    });
+
+    it('should pass --require-signed for a CRX signed by its publisher key', async () => {
+      const crxPath = join(dir, 'signed.crx');
+      await writeFile(crxPath, await createSignedCRXFile(await buildZip({ 'manifest.json': JSON.stringify(MANIFEST) })));
+
+      const { io, output } = createIO();
+      expect(await runCli(['info', crxPath, '--require-signed', '--json'], io)).toBe(0);
+
+      const info = JSON.parse(output.stdout);
+      expect(info.signature).toMatchObject({ status: 'valid', publisherSigned: true, proofCount: 1 });
+    });
+
+    it('should fail --require-signed when no proof matches the declared ID', async () => {
+      const crxPath = join(dir, 'forged.crx');
+      const forgedId = new Uint8Array(16).fill(0x11);
+      await writeFile(crxPath, await createSignedCRXFile(await buildZip({ 'manifest.json': JSON.stringify(MANIFEST) }), forgedId));
+
+      const { io, output } = createIO();
+      expect(await runCli(['info', crxPath, '--require-signed'], io)).toBe(2);
+
+      expect(output.stdout).not.toMatch(/Signature:?\s+valid/);
+      expect(output.stderr).toContain('signature is invalid');
+    });
+
+    it('should exit 1 for unreadable packages', async () => {
+      const { io, output } = createIO();
+      expect(await runCli(['info', join(dir, 'missing.crx')], io)).toBe(1);
+      expect(output.stderr).toContain('Cannot read');
+    });
+  });
+
+  describe('ls', () => {
+    it('should print the file tree', async () => {
+      const { io, output } = createIO();
+      expect(await runCli(['ls', packagePath], io)).toBe(0);
+
+      expect(output.stdout).toContain('├── lib/');
+      expect(output.stdout).toContain('│   └── util.js');
+    });
+
+    it('should print the tree as JSON', async () => {
+      const { io, output } = createIO();
+      await runCli(['ls', packagePath, '--json'], io);
+
+      const tree = JSON.parse(output.stdout);
+      expect(tree.isDirectory).toBe(true);
+      expect(tree.children.map((child: { name: string }) => child.name)).toContain('manifest.json');
+    });
+  });
+
+  describe('cat', () => {
+    it('should write the file bytes', async () => {
+      const { io, output } = createIO();
+      expect(await runCli(['cat', packagePath, 'lib/util.js'], io)).toBe(0);
+      expect(new TextDecoder().decode(output.bytes[0])).toContain('return a + b;');
+    });
+
+    it('should base64-encode binary files in JSON', async () => {
+      const { io, output } = createIO();
+      await runCli(['cat', packagePath, 'icon.png', '--json'], io);
+
+      const file = JSON.parse(output.stdout);
+      expect(file.encoding).toBe('base64');
+      expect(Buffer.from(file.content, 'base64')).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]));
+    });
+
+    it('should exit 1 for missing files', async () => {
+      const { io, output } = createIO();
+      expect(await runCli(['cat', packagePath, 'missing.js'], io)).toBe(1);
+      expect(output.stderr).toContain('File not found in package: missing.js');
+    });
+  });
+
+  describe('grep', () => {
+    it('should print matches with their location', async () => {
+      const { io, output } = createIO();
+      expect(await runCli(['grep', packagePath, 'TOKEN'], io)).toBe(0);
+
+      expect(output.stdout).toBe(
+        'background.js:1:7:const token = "abc";\nbackground.js:2:28:chrome.storage.local.set({ token });\n'
+      );
+    });
+
+    it('should apply the search options', async () => {
+      const { io, output } = createIO();
+      await runCli(['grep', packagePath, 'a\\s*\\+\\s*b', '--regex', '--case-sensitive', '--json'], io);
+
+      const result = JSON.parse(output.stdout);
+      expect(result.totalMatches).toBe(1);
+      expect(result.results[0].filePath).toBe('lib/util.js');
+      expect(result.results[0].matches[0].lineNumber).toBe(2);
+    });
+
+    it('should exit 2 on matches with --fail-on-match', async () => {
+      const { io } = createIO();
+      expect(await runCli(['grep', packagePath, 'token', '--fail-on-match'], io)).toBe(2);
+      expect(await runCli(['grep', packagePath, 'password', '--fail-on-match'], io)).toBe(0);
+    });
+
+    it('should reject invalid regular expressions', async () => {
+      const { io, output } = createIO();
+      expect(await runCli(['grep', packagePath, '(unclosed', '--regex'], io)).toBe(1);
+      expect(output.stderr).toContain('Invalid pattern');
+    });
+  });
+
+  describe('unpack', () => {
+    it('should write every file to the directory', async () => {
+      const { io } = createIO();
+      const outputDir = join(dir, 'out');
+      expect(await runCli(['unpack', packagePath, outputDir], io)).toBe(0);
+
+      expect(await readFile(join(outputDir, 'lib/util.js'), 'utf-8')).toContain('return a + b;');
+      expect(JSON.parse(await readFile(join(outputDir, 'manifest.json'), 'utf-8')).name).toBe('Test Extension');
+    });
+
+    it('should refuse entries that escape the directory', async () => {
+      const unsafePath = join(dir, 'unsafe.zip');
+      await writeFile(
+        unsafePath,
+        await buildZip({ 'manifest.json': JSON.stringify(MANIFEST), '/escape.js': 'alert(1)' })
+      );
+
+      const { io, output } = createIO();
+      expect(await runCli(['unpack', unsafePath, join(dir, 'out')], io)).toBe(1);
+      expect(output.stderr).toContain('Refusing to write outside');
+    });
+  });
+
+  describe('fetch', () => {
+    it('should download a package from the update server', async () => {
+      const crx = await buildZip({ 'manifest.json': JSON.stringify(MANIFEST) });
+      const { io, output } = createIO({ 'https://clients2.google.com/service/update2/crx': crx });
+      const outputPath = join(dir, 'downloaded.zip');
+
+      expect(await runCli(['fetch', EXTENSION_ID, '-o', outputPath], io)).toBe(0);
+      expect(output.requests[0]).toContain(`id%3D${EXTENSION_ID}`);
+      expect(new Uint8Array(await readFile(outputPath))).toEqual(crx);
+    });
+
+    it('should follow the codebase of an update manifest', async () => {
+      const crx = await buildZip({ 'manifest.json': JSON.stringify(MANIFEST) });
+      const updateXml = `<?xml version="1.0"?><gupdate><app appid="${EXTENSION_ID}"><updatecheck codebase="https://cdn.example.com/ext.crx" version="1.0.0"/></app></gupdate>`;
+      const { io, output } = createIO({
+        'https://clients2.google.com/': updateXml,
+        'https://cdn.example.com/ext.crx': crx,
+      });
+      const outputPath = join(dir, 'downloaded.crx');
+
+      expect(await runCli(['fetch', EXTENSION_ID, '--output', outputPath, '--json'], io)).toBe(0);
+      expect(output.requests).toEqual([expect.stringContaining('clients2.google.com'), 'https://cdn.example.com/ext.crx']);
+      expect(JSON.parse(output.stdout).size).toBe(crx.byteLength);
+    });
+
+    it('should exit 1 when no package is available', async () => {
+      const { io, output } = createIO();
+      expect(await runCli(['fetch', EXTENSION_ID, '-o', join(dir, 'x.crx')], io)).toBe(1);
+      expect(output.stderr).toContain('HTTP 404');
+    });
+  });
+
+  describe('arguments', () => {
+    it('should print usage with --help', async () => {
+      const { io, output } = createIO();
+      expect(await runCli(['--help'], io)).toBe(0);
+      expect(output.stdout).toContain('Usage: crxreview <command>');
+    });
+
+    it('should exit 1 for unknown commands and options', async () => {
+      const { io } = createIO();
+      expect(await runCli(['explode'], io)).toBe(1);
+      expect(await runCli(['ls', packagePath, '--bogus'], io)).toBe(1);
+      expect(await runCli(['info', packagePath, '--fail-on', 'extreme'], io)).toBe(1);
+      expect(await runCli(['cat', packagePath], io)).toBe(1);
+    });
+  });
+});
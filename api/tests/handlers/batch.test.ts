@@ -0,0 +1,59 @@
+/**
+ * Tests for the batch status endpoint
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { batchStatusHandler } from '../../src/handlers/batch';
+import { createBatch, BATCH_STALL_TIMEOUT_MS } from '../../src/services/batch.service';
+import { MockKVNamespace, MockR2Bucket } from '../utils/mocks';
+
+describe('Batch Handler - GET /api/v1/batches/:batchId', () => {
+  let env: any;
+  let app: Hono<any>;
+  let tasks: Promise<unknown>[];
+  let executionCtx: any;
+
+  beforeEach(() => {
+    env = {
+      SESSIONS: new MockKVNamespace(),
+      CRX_STORAGE: new MockR2Bucket(),
+      SESSION_TTL: '1800',
+    };
+    app = new Hono();
+    app.get('/api/v1/batches/:batchId', batchStatusHandler);
+    tasks = [];
+    executionCtx = { waitUntil: (task: Promise<unknown>) => tasks.push(task), passThroughOnException: () => {} };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should resume a stalled batch once when polled twice', async () => {
+    const { batchId } = await createBatch(env, ['not a valid input']);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + BATCH_STALL_TIMEOUT_MS + 1000);
+
+    const poll = () => app.request(`/api/v1/batches/${batchId}`, {}, env, executionCtx);
+    const responses = await Promise.all([poll(), poll()]);
+    await Promise.all(tasks);
+
+    expect(responses.map((response) => response.status)).toEqual([200, 200]);
+    expect(tasks).toHaveLength(1);
+
+    // One write when the batch is created, then a start and a finish per run
+    const itemKey = `batch:${batchId}:item:0`;
+    const itemWrites = env.SESSIONS.getCallHistory('put').filter((call: any) => call.args[0] === itemKey);
+    expect(itemWrites).toHaveLength(3);
+  });
+
+  it('should not resume a batch that is still making progress', async () => {
+    const { batchId } = await createBatch(env, ['not a valid input']);
+
+    const response = await app.request(`/api/v1/batches/${batchId}`, {}, env, executionCtx);
+
+    expect(response.status).toBe(200);
+    expect(tasks).toHaveLength(0);
+  });
+});
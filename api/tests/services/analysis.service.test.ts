@@ -0,0 +1,87 @@
+/**
+ * Unit tests for security analysis service
+ */
+
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { analyzeExtension, AnalysisError } from '../../src/services/analysis.service';
+import type { SessionMetadata } from '../../src/services/session.service';
+
+const SESSION: SessionMetadata = {
+  sessionId: '550e8400-e29b-41d4-a716-446655440000',
+  extensionId: 'cjpalhdlnbpafiamejdnhcphjbkeiagm',
+  fileName: 'test.crx',
+  fileCount: 2,
+  size: 1024,
+  createdAt: new Date().toISOString(),
+  expiresAt: new Date().toISOString(),
+  version: '1.0.0',
+};
+
+async function buildZip(files: Record<string, string>): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(files)) {
+    zip.file(path, content);
+  }
+  return zip.generateAsync({ type: 'arraybuffer' });
+}
+
+describe('Analysis Service', () => {
+  describe('analyzeExtension()', () => {
+    it('should produce a CRXAnalysis report', async () => {
+      const data = await buildZip({
+        'manifest.json': JSON.stringify({
+          manifest_version: 3,
+          name: 'Test Extension',
+          version: '2.0.0',
+          permissions: ['storage', 'cookies'],
+          host_permissions: ['<all_urls>'],
+          optional_permissions: ['history'],
+        }),
+      });
+
+      const analysis = await analyzeExtension(data, SESSION);
+
+      expect(analysis.id).toBe(SESSION.extensionId);
+      expect(analysis.name).toBe('Test Extension');
+      expect(analysis.version).toBe('2.0.0');
+      expect(analysis.manifestVersion).toBe(3);
+      expect(analysis.permissions.items).toEqual(['storage', 'cookies', '<all_urls>']);
+      expect(analysis.permissions.risky).toEqual(['cookies', '<all_urls>']);
+      expect(analysis.riskLevel).toBe('high');
+      expect(analysis.issues.map((issue) => issue.code)).toContain('HOST_ALL_URLS');
+      expect(analysis.fileCount).toBe(SESSION.fileCount);
+    });
+
+    it('should rate a minimal extension as low risk', async () => {
+      const data = await buildZip({
+        'manifest.json': JSON.stringify({ manifest_version: 3, name: 'Minimal', version: '1.0', permissions: ['storage'] }),
+        'background.js': 'chrome.storage.local.set({ enabled: true });',
+      });
+
+      const analysis = await analyzeExtension(data, SESSION);
+
+      expect(analysis.riskLevel).toBe('low');
+      expect(analysis.issues).toHaveLength(0);
+    });
+
+    it('should include code scanner findings with file and line', async () => {
+      const data = await buildZip({
+        'manifest.json': JSON.stringify({ manifest_version: 3, name: 'Scanner', version: '1.0', permissions: ['storage'] }),
+        'background.js': ['chrome.storage.local.get();', 'eval(atob(payload));'].join('\n'),
+      });
+
+      const analysis = await analyzeExtension(data, SESSION);
+      const evalIssue = analysis.issues.find((issue) => issue.code === 'JS_EVAL');
+
+      expect(evalIssue).toMatchObject({ file: 'background.js', line: 2, severity: 'high' });
+      expect(analysis.riskLevel).toBe('high');
+    });
+
+    it('should throw AnalysisError when manifest.json is missing', async () => {
+      const data = await buildZip({ 'background.js': '' });
+
+      await expect(analyzeExtension(data, SESSION)).rejects.toThrow(AnalysisError);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for annotation service
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  getAnnotations,
+  saveAnnotations,
+  deleteAnnotations,
+  generateAnnotationsKey,
+  AnnotationError,
+} from '../../src/services/annotation.service';
+import { listSessions, type SessionMetadata } from '../../src/services/session.service';
+import { MockKVNamespace } from '../utils/mocks';
+
+function createSession(overrides: Partial<SessionMetadata> = {}): SessionMetadata {
+  return {
+    sessionId: crypto.randomUUID(),
+    extensionId: 'a'.repeat(32),
+    fileName: 'test.crx',
+    fileCount: 2,
+    size: 100,
+    version: '1.2.3',
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + 3600 * 1000).toISOString(),
+    ...overrides,
+  };
+}
+
+describe('Annotation Service', () => {
+  let kv: MockKVNamespace;
+  let session: SessionMetadata;
+
+  beforeEach(() => {
+    kv = new MockKVNamespace();
+    session = createSession();
+  });
+
+  it('should return an empty list for sessions without annotations', async () => {
+    const result = await getAnnotations(kv as any, session);
+
+    expect(result.annotations).toEqual([]);
+    expect(result.count).toBe(0);
+    expect(result.updatedAt).toBeNull();
+    expect(result.version).toBe('1.2.3');
+  });
+
+  it('should store annotations next to the session and sort them', async () => {
+    await saveAnnotations(kv as any, session, [
+      { filePath: 'background.js', line: 20, severity: 'high', note: 'eval of remote code' },
+      { filePath: 'background.js', severity: 'info', note: 'Service worker' },
+      { filePath: 'a.js', line: 1, severity: 'low', note: 'Minified' },
+    ]);
+
+    const result = await getAnnotations(kv as any, session);
+
+    expect(kv.has(generateAnnotationsKey(session.sessionId))).toBe(true);
+    expect(result.annotations.map((a) => [a.filePath, a.line])).toEqual([
+      ['a.js', 1],
+      ['background.js', null],
+      ['background.js', 20],
+    ]);
+    expect(result.annotations.every((a) => a.id && a.createdAt && a.updatedAt)).toBe(true);
+  });
+
+  it('should replace annotations with a matching id and keep their creation time', async () => {
+    const first = await saveAnnotations(kv as any, session, [
+      { id: 'note-1', filePath: 'a.js', line: 3, severity: 'low', note: 'Check this' },
+    ]);
+
+    const second = await saveAnnotations(kv as any, session, [
+      { id: 'note-1', filePath: 'a.js', line: 3, severity: 'high', note: 'Confirmed exfiltration' },
+      { filePath: 'b.js', severity: 'medium', note: 'New' },
+    ]);
+
+    expect(second.count).toBe(2);
+    const replaced = second.annotations.find((a) => a.id === 'note-1');
+    expect(replaced?.severity).toBe('high');
+    expect(replaced?.createdAt).toBe(first.annotations[0].createdAt);
+  });
+
+  it('should reject annotations for expired sessions', async () => {
+    const expired = createSession({ expiresAt: new Date(Date.now() - 1000).toISOString() });
+
+    await expect(
+      saveAnnotations(kv as any, expired, [{ filePath: 'a.js', severity: 'low', note: 'x' }])
+    ).rejects.toThrow(AnnotationError);
+  });
+
+  it('should delete annotations', async () => {
+    await saveAnnotations(kv as any, session, [{ filePath: 'a.js', severity: 'low', note: 'x' }]);
+    await deleteAnnotations(kv as any, session.sessionId);
+
+    expect((await getAnnotations(kv as any, session)).count).toBe(0);
+  });
+
+  it('should not list annotation keys as sessions', async () => {
+    await kv.put(`session:${session.sessionId}`, JSON.stringify(session));
+    await saveAnnotations(kv as any, session, [{ filePath: 'a.js', severity: 'low', note: 'x' }]);
+
+    expect(await listSessions(kv as any)).toEqual([session.sessionId]);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Unit tests for batch job service
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import JSZip from 'jszip';
+import {
+  createBatch,
+  getBatchStatus,
+  processBatch,
+  isBatchStalled,
+  claimBatchResume,
+  generateBatchUploadKey,
+  BATCH_STALL_TIMEOUT_MS,
+  BatchNotFoundError,
+} from '../../src/services/batch.service';
+import { mapWithConcurrency } from '../../src/utils/helpers';
+import { MockKVNamespace, MockR2Bucket } from '../utils/mocks';
+
+async function zipPackage(geckoId: string): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  zip.file(
+    'manifest.json',
+    JSON.stringify({
+      manifest_version: 2,
+      name: 'Test',
+      version: '1.0',
+      browser_specific_settings: { gecko: { id: geckoId } },
+    })
+  );
+  zip.file('background.js', 'console.log("hi");');
+  return zip.generateAsync({ type: 'arraybuffer' });
+}
+
+describe('Batch Service', () => {
+  let env: any;
+
+  beforeEach(() => {
+    env = {
+      SESSIONS: new MockKVNamespace(),
+      CRX_STORAGE: new MockR2Bucket(),
+      SESSION_TTL: '1800',
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('createBatch()', () => {
+    it('should store every item as pending', async () => {
+      const status = await createBatch(env, ['not a valid input'], [
+        { fileName: 'addon.xpi', data: await zipPackage('addon@example.com') },
+      ]);
+
+      expect(status.status).toBe('pending');
+      expect(status.progress.total).toBe(2);
+      expect(status.remaining.map((item) => item.source)).toEqual(['download', 'upload']);
+      expect(env.CRX_STORAGE.has(generateBatchUploadKey(status.batchId, 1))).toBe(true);
+      expect(env.SESSIONS.has(`batch:${status.batchId}:item:0`)).toBe(true);
+    });
+  });
+
+  describe('processBatch()', () => {
+    it('should record completed and failed items', async () => {
+      const { batchId } = await createBatch(env, ['not a valid input'], [
+        { fileName: 'addon.xpi', data: await zipPackage('addon@example.com') },
+      ]);
+
+      await processBatch(env, batchId, 2);
+      const status = await getBatchStatus(env, batchId);
+
+      expect(status?.status).toBe('completed');
+      expect(status?.progress.percent).toBe(100);
+      expect(status?.successful).toHaveLength(1);
+      expect(status?.successful[0].extensionId).toBe('addon@example.com');
+      expect(status?.successful[0].sessionId).toBeDefined();
+      expect(status?.failed).toHaveLength(1);
+      expect(status?.failed[0].item.input).toBe('not a valid input');
+      expect(status?.failed[0].error).toContain('Invalid input');
+    });
+
+    it('should remove staged uploads once processed', async () => {
+      const { batchId } = await createBatch(env, [], [
+        { fileName: 'addon.xpi', data: await zipPackage('addon@example.com') },
+      ]);
+
+      await processBatch(env, batchId);
+
+      expect(env.CRX_STORAGE.has(generateBatchUploadKey(batchId, 0))).toBe(false);
+    });
+
+    it('should expire item updates with the batch', async () => {
+      const { batchId } = await createBatch(env, ['not a valid input']);
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.now() + 600 * 1000);
+
+      await processBatch(env, batchId);
+
+      const itemKey = `batch:${batchId}:item:0`;
+      const ttls = env.SESSIONS.getCallHistory('put')
+        .filter((call: any) => call.args[0] === itemKey)
+        .map((call: any) => call.args[2].expirationTtl);
+      expect(ttls).toHaveLength(3);
+      expect(ttls[0]).toBe(1800);
+      expect(ttls.slice(1).every((ttl: number) => ttl <= 1200)).toBe(true);
+    });
+
+    it('should throw for unknown batches', async () => {
+      await expect(processBatch(env, crypto.randomUUID())).rejects.toThrow(BatchNotFoundError);
+    });
+  });
+
+  describe('getBatchStatus()', () => {
+    it('should return null for unknown batches', async () => {
+      expect(await getBatchStatus(env, crypto.randomUUID())).toBeNull();
+    });
+  });
+
+  describe('isBatchStalled()', () => {
+    it('should only report unfinished batches without recent progress', async () => {
+      const status = await createBatch(env, ['a', 'b']);
+      const later = Date.parse(status.updatedAt) + BATCH_STALL_TIMEOUT_MS + 1;
+
+      expect(isBatchStalled(status)).toBe(false);
+      expect(isBatchStalled(status, later)).toBe(true);
+      expect(isBatchStalled({ ...status, status: 'completed' }, later)).toBe(false);
+    });
+  });
+
+  describe('claimBatchResume()', () => {
+    it('should grant one lease until it expires', async () => {
+      const { batchId } = await createBatch(env, ['a']);
+      const now = Date.now();
+
+      expect(await claimBatchResume(env, batchId, now)).toBe(true);
+      expect(await claimBatchResume(env, batchId, now + 1000)).toBe(false);
+      expect(await claimBatchResume(env, batchId, now + BATCH_STALL_TIMEOUT_MS + 1)).toBe(true);
+      expect(await claimBatchResume(env, crypto.randomUUID(), now)).toBe(false);
+    });
+  });
+
+  describe('mapWithConcurrency()', () => {
+    it('should limit calls in flight and keep result order', async () => {
+      let active = 0;
+      let peak = 0;
+
+      const results = await mapWithConcurrency([5, 1, 3, 2, 4], 2, async (value) => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, value));
+        active--;
+        return value * 10;
+      });
+
+      expect(peak).toBe(2);
+      expect(results).toEqual([50, 10, 30, 20, 40]);
+    });
+  });
+});
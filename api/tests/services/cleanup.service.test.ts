@@ -0,0 +1,82 @@
+/**
+ * Unit tests for cleanup service
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileSystemBlobStore } from '../../src/adapters/fs-blob-store';
+import { JsonKeyValueStore } from '../../src/adapters/json-kv-store';
+import { cleanupExpiredSessions, cleanupOrphanedFiles } from '../../src/services/cleanup.service';
+import type { SessionMetadata } from '../../src/services/session.service';
+import type { Env } from '../../src/types';
+
+function sessionRecord(sessionId: string, expiresAt: Date): string {
+  const session: SessionMetadata = {
+    sessionId,
+    extensionId: 'a'.repeat(32),
+    fileName: 'test.crx',
+    fileCount: 1,
+    size: 1,
+    createdAt: new Date(expiresAt.getTime() - 3600 * 1000).toISOString(),
+    expiresAt: expiresAt.toISOString(),
+  };
+  return JSON.stringify(session);
+}
+
+describe('Cleanup Service', () => {
+  let rootDir: string;
+  let env: Env;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'crxreview-cleanup-'));
+    env = {
+      SESSIONS: new JsonKeyValueStore(),
+      CACHE: new JsonKeyValueStore(),
+      CRX_STORAGE: new FileSystemBlobStore(rootDir),
+      SESSION_TTL: '1800',
+      MAX_FILE_SIZE: '1000',
+      RATE_LIMIT_DOWNLOAD: '10',
+      API_VERSION: 'test',
+    };
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should delete expired sessions with their files and annotations', async () => {
+    await env.SESSIONS.put('session:old', sessionRecord('old', new Date(Date.now() - 1000)));
+    await env.SESSIONS.put('session:old:annotations', '{"annotations":[]}');
+    await env.SESSIONS.put('session:new', sessionRecord('new', new Date(Date.now() + 60000)));
+    await env.CRX_STORAGE.put('crx/old/original.crx', new Uint8Array([1]).buffer);
+    await env.CRX_STORAGE.put('crx/new/original.crx', new Uint8Array([2]).buffer);
+
+    const stats = await cleanupExpiredSessions(env);
+
+    expect(stats.deleted).toBe(1);
+    expect(await env.SESSIONS.get('session:old')).toBeNull();
+    expect(await env.SESSIONS.get('session:old:annotations')).toBeNull();
+    expect(await env.CRX_STORAGE.head('crx/old/original.crx')).toBeNull();
+    expect(await env.CRX_STORAGE.head('crx/new/original.crx')).not.toBeNull();
+  });
+
+  it('should delete files whose session no longer exists', async () => {
+    await env.SESSIONS.put('session:live', sessionRecord('live', new Date(Date.now() + 60000)));
+    await env.CRX_STORAGE.put('crx/live/original.crx', new Uint8Array([1]).buffer);
+    await env.CRX_STORAGE.put('crx/gone/original.crx', new Uint8Array([2]).buffer);
+    await env.CRX_STORAGE.put('crx/gone/extracted.zip', new Uint8Array([3]).buffer);
+
+    expect(await cleanupOrphanedFiles(env, 0)).toBe(2);
+    expect(await env.CRX_STORAGE.head('crx/live/original.crx')).not.toBeNull();
+    expect(await env.CRX_STORAGE.head('crx/gone/original.crx')).toBeNull();
+  });
+
+  it('should keep orphaned files younger than the maximum age', async () => {
+    await env.CRX_STORAGE.put('crx/gone/original.crx', new Uint8Array([1]).buffer);
+
+    expect(await cleanupOrphanedFiles(env)).toBe(0);
+    expect(await env.CRX_STORAGE.head('crx/gone/original.crx')).not.toBeNull();
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Unit tests for CRX service extension ID derivation, nested archive access
+ * and locale messages
+ */
+
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import {
+  resolveExtensionId,
+  parseCRX,
+  parsePackageZip,
+  extractFile,
+  searchContent,
+  extractLocaleMessages,
+  CRXExtractionError,
+} from '../../src/services/crx.service';
+import { extensionIdFromPublicKey } from '../../src/lib/crx/signature';
+import type { ParsedCrxHeader } from '../../src/lib/crx/header-parser';
+import { createSignedCRXFile } from '../utils/helpers';
+import { resolveExtensionId as resolveViewerExtensionId } from '../../../src/lib/crx/extension-id';
+import { verifyCrxSignatures as verifyViewerSignatures } from '../../../src/lib/crx/signature';
+import { crxToZip } from '../../../src/lib/crx/zip-converter';
+
+// P-256 SPKI keys and the IDs Chrome assigns to them
+const KEY_A =
+  'MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEmOdaKKMxl0AUvB8uJgyKBvsDNklSc4eAEVXAjP94P1TbsthS0ICHaEvwKVyYOgINgrLUkCisJnMkQRtNCmLvqQ==';
+const KEY_A_ID = 'cndhebmchnocdbfkehghmkcepkjfjnop';
+const KEY_B =
+  'MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEZpYsZV5Z9qtC8hzfR4DCPCgJ+xcYTLjgqnvcXSV4ZF7upoeoqCgAkBO/AqqXXGmMqvggKigzCfeyXhLk8o+eBw==';
+const KEY_B_ID = 'dcgfdoobfjjlckblkkpbgdimfhgeniof';
+
+function decode(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+function idToCrxId(id: string): Uint8Array {
+  const bytes = new Uint8Array(16);
+  for (let i = 0; i < 16; i++) {
+    bytes[i] = ((id.charCodeAt(i * 2) - 97) << 4) | (id.charCodeAt(i * 2 + 1) - 97);
+  }
+  return bytes;
+}
+
+function crx3Header(keys: string[], crxId?: string): ParsedCrxHeader {
+  return {
+    version: 3,
+    zipOffset: 0,
+    proofs: keys.map((key) => ({
+      algorithm: 'sha256_with_ecdsa' as const,
+      publicKey: decode(key),
+      signature: new Uint8Array(0),
+    })),
+    crxId: crxId ? idToCrxId(crxId) : undefined,
+  };
+}
+
+async function zipPackage(manifest: Record<string, unknown>): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  zip.file('manifest.json', JSON.stringify({ name: 'Test', version: '1.0', ...manifest }));
+  return zip.generateAsync({ type: 'arraybuffer' });
+}
+
+// Payload bytes for IDs that fall back to a package hash
+const ZIP_DATA = new TextEncoder().encode('PK\x03\x04 payload').buffer as ArrayBuffer;
+
+describe('CRX Service - Extension ID', () => {
+  describe('extensionIdFromPublicKey()', () => {
+    it('should hash the DER key into the a-p alphabet', async () => {
+      expect(await extensionIdFromPublicKey(decode(KEY_A))).toBe(KEY_A_ID);
+      expect(await extensionIdFromPublicKey(decode(KEY_B))).toBe(KEY_B_ID);
+    });
+  });
+
+  describe('resolveExtensionId()', () => {
+    it('should use the CRX2 key first', async () => {
+      const header: ParsedCrxHeader = {
+        version: 2,
+        zipOffset: 0,
+        proofs: [{ algorithm: 'sha1_with_rsa', publicKey: decode(KEY_A), signature: new Uint8Array(0) }],
+      };
+
+      const result = await resolveExtensionId(header, {}, ZIP_DATA);
+
+      expect(result.extensionId).toBe(KEY_A_ID);
+      expect(result.source).toBe('crx2');
+      expect(result.publicKey).toBe(KEY_A);
+    });
+
+    it('should use the CRX3 proof that matches crx_id', async () => {
+      const result = await resolveExtensionId(crx3Header([KEY_A, KEY_B], KEY_B_ID), {}, ZIP_DATA);
+
+      expect(result.extensionId).toBe(KEY_B_ID);
+      expect(result.source).toBe('crx3');
+    });
+
+    it('should fall back to the manifest key', async () => {
+      const result = await resolveExtensionId(crx3Header([]), { key: KEY_A }, ZIP_DATA);
+
+      expect(result.extensionId).toBe(KEY_A_ID);
+      expect(result.source).toBe('manifest');
+      expect(result.keyMismatch).toBeUndefined();
+    });
+
+    it('should report a manifest key that disagrees with the signing key', async () => {
+      const result = await resolveExtensionId(crx3Header([KEY_A], KEY_A_ID), { key: KEY_B }, ZIP_DATA);
+
+      expect(result.extensionId).toBe(KEY_A_ID);
+      expect(result.keyMismatch).toEqual({ manifestKeyId: KEY_B_ID, signingKeyId: KEY_A_ID });
+    });
+
+    it('should not report a mismatch when the keys agree', async () => {
+      const result = await resolveExtensionId(crx3Header([KEY_A], KEY_A_ID), { key: KEY_A }, ZIP_DATA);
+
+      expect(result.keyMismatch).toBeUndefined();
+    });
+
+    it('should not depend on the extension name', async () => {
+      const first = await resolveExtensionId(crx3Header([KEY_A], KEY_A_ID), { name: 'Same Name' } as any, ZIP_DATA);
+      const second = await resolveExtensionId(crx3Header([KEY_B], KEY_B_ID), { name: 'Same Name' } as any, ZIP_DATA);
+
+      expect(first.extensionId).not.toBe(second.extensionId);
+    });
+
+    it('should fall back to the declared crx_id when no key is available', async () => {
+      const header = { ...crx3Header([], KEY_B_ID), headerError: 'Malformed proof' };
+      const result = await resolveExtensionId(header, {}, ZIP_DATA);
+
+      expect(result.extensionId).toBe(KEY_B_ID);
+      expect(result.source).toBe('crx3-unverified');
+      expect(result.publicKey).toBe('');
+    });
+
+    it('should not take the ID from a key that does not match crx_id', async () => {
+      const declared = await resolveExtensionId(crx3Header([KEY_A], KEY_B_ID), {}, ZIP_DATA);
+      const withManifestKey = await resolveExtensionId(crx3Header([KEY_A], KEY_B_ID), { key: KEY_B }, ZIP_DATA);
+
+      expect(declared).toEqual({ extensionId: KEY_B_ID, source: 'crx3-unverified', publicKey: '' });
+      expect(withManifestKey.extensionId).toBe(KEY_B_ID);
+      expect(withManifestKey.source).toBe('manifest');
+      expect(withManifestKey.keyMismatch).toBeUndefined();
+    });
+
+    it('should hash the payload when neither a key nor crx_id is available', async () => {
+      const first = await resolveExtensionId(crx3Header([]), {}, ZIP_DATA);
+      const second = await resolveExtensionId(crx3Header([]), {}, ZIP_DATA);
+
+      expect(first.extensionId).toMatch(/^[a-p]{32}$/);
+      expect(first.extensionId).toBe(second.extensionId);
+      expect(first.source).toBe('package');
+    });
+  });
+
+  describe('parsePackageZip()', () => {
+    it('should use the Firefox add-on ID', async () => {
+      const data = await zipPackage({
+        manifest_version: 2,
+        browser_specific_settings: { gecko: { id: 'addon@example.com' } },
+      });
+
+      const result = await parsePackageZip(data);
+
+      expect(result.extensionId).toBe('addon@example.com');
+      expect(result.extensionIdSource).toBe('gecko');
+      expect(result.format).toBe('zip');
+      expect(result.signature).toBeNull();
+    });
+
+    it('should fall back to the manifest key', async () => {
+      const result = await parsePackageZip(await zipPackage({ manifest_version: 3, key: KEY_A }));
+
+      expect(result.extensionId).toBe(KEY_A_ID);
+      expect(result.extensionIdSource).toBe('manifest');
+    });
+
+    it('should derive a stable ID from the package bytes', async () => {
+      const data = await zipPackage({ manifest_version: 3 });
+
+      const first = await parsePackageZip(data);
+      const second = await parsePackageZip(data);
+
+      expect(first.extensionId).toMatch(/^[a-p]{32}$/);
+      expect(first.extensionId).toBe(second.extensionId);
+      expect(first.extensionIdSource).toBe('package');
+    });
+
+    it('should ignore a manifest key that is not valid base64', async () => {
+      const result = await parsePackageZip(await zipPackage({ manifest_version: 3, key: 'not base64!' }));
+
+      expect(result.extensionId).toMatch(/^[a-p]{32}$/);
+      expect(result.extensionIdSource).toBe('package');
+      expect(result.publicKey).toBe('');
+    });
+
+    it('should be used by parseCRX for ZIP input', async () => {
+      const result = await parseCRX(await zipPackage({ manifest_version: 3 }));
+
+      expect(result.format).toBe('zip');
+    });
+  });
+});
+
+describe('CRX Service - Extension ID matches the viewer', () => {
+  // The viewer resolves IDs in src/lib/crx/extension-id.ts; both must name a package the same way
+  async function viewerExtensionId(data: Uint8Array): Promise<string> {
+    const buffer = data.slice().buffer;
+    const zipResult = crxToZip(buffer);
+    if (!zipResult.success) {
+      throw new Error(zipResult.error);
+    }
+    const zip = await JSZip.loadAsync(zipResult.zipData);
+    const manifest = JSON.parse(await zip.file('manifest.json')!.async('string'));
+    const verified = zipResult.format === 'crx' ? await verifyViewerSignatures(buffer) : null;
+    const signature = verified?.success ? verified.status : null;
+    return (await resolveViewerExtensionId(zipResult.zipData, manifest, signature)).extensionId;
+  }
+
+  async function zipBytes(manifest: Record<string, unknown>): Promise<Uint8Array> {
+    return new Uint8Array(await zipPackage({ manifest_version: 3, ...manifest }));
+  }
+
+  const forgedId = idToCrxId(KEY_B_ID);
+  const gecko = { browser_specific_settings: { gecko: { id: 'addon@example.com' } } };
+
+  const packages: Array<[string, () => Promise<Uint8Array>]> = [
+    ['a signed CRX', async () => createSignedCRXFile(await zipBytes({}))],
+    ['a signed CRX with another manifest key', async () => createSignedCRXFile(await zipBytes({ key: KEY_A }))],
+    ['a forged crx_id with a manifest key', async () => createSignedCRXFile(await zipBytes({ key: KEY_A }), forgedId)],
+    ['a forged crx_id', async () => createSignedCRXFile(await zipBytes({}), forgedId)],
+    ['a forged crx_id with an add-on ID', async () => createSignedCRXFile(await zipBytes(gecko), forgedId)],
+    ['a ZIP with an add-on ID and a key', async () => zipBytes({ ...gecko, key: KEY_A })],
+    ['a ZIP with a key', async () => zipBytes({ key: KEY_A })],
+    ['a ZIP with a malformed key', async () => zipBytes({ key: 'not base64!' })],
+    ['a ZIP with no key', async () => zipBytes({})],
+  ];
+
+  it.each(packages)('should resolve the same ID for %s', async (_name, build) => {
+    const data = await build();
+    const parsed = await parseCRX(data.slice().buffer);
+
+    expect(await viewerExtensionId(data)).toBe(parsed.extensionId);
+  });
+});
+
+describe('CRX Service - Nested archives', () => {
+  async function nestedPackage(): Promise<ArrayBuffer> {
+    const vendor = new JSZip();
+    vendor.file('index.js', 'const token = "secret";');
+    const zip = new JSZip();
+    zip.file('background.js', 'const token = "outer";');
+    zip.file('lib/vendor.zip', await vendor.generateAsync({ type: 'uint8array' }));
+    return zip.generateAsync({ type: 'arraybuffer' });
+  }
+
+  it('should extract files by virtual path', async () => {
+    const extracted = await extractFile(await nestedPackage(), 'lib/vendor.zip!/index.js');
+
+    expect(new TextDecoder().decode(extracted.content)).toBe('const token = "secret";');
+    expect(extracted.mimeType).toBe('application/javascript');
+  });
+
+  it('should reject missing nested files', async () => {
+    await expect(extractFile(await nestedPackage(), 'lib/vendor.zip!/missing.js')).rejects.toBeInstanceOf(
+      CRXExtractionError
+    );
+  });
+
+  it('should search text files inside nested archives', async () => {
+    const results = await searchContent(await nestedPackage(), 'token');
+
+    expect(results.map((result) => result.filePath)).toEqual(['background.js', 'lib/vendor.zip!/index.js']);
+    expect(results[1].matches[0].filePath).toBe('lib/vendor.zip!/index.js');
+  });
+});
+
+describe('CRX Service - Locale messages', () => {
+  it('should load and parse a locale catalog', async () => {
+    const zip = new JSZip();
+    zip.file('_locales/en/messages.json', JSON.stringify({ appName: { message: 'Example' } }));
+    zip.file('_locales/de/messages.json', '{ not json');
+    const zipData = await zip.generateAsync({ type: 'arraybuffer' });
+
+    const catalog = await extractLocaleMessages(zipData, 'en');
+    expect(catalog?.get('appname')?.message).toBe('Example');
+    expect(await extractLocaleMessages(zipData, 'de')).toBeNull();
+    expect(await extractLocaleMessages(zipData, 'fr')).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for policy check service
+ */
+
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { checkPolicy, readPolicy, PolicyError } from '../../src/services/policy.service';
+import type { SessionMetadata } from '../../src/services/session.service';
+
+const SESSION: SessionMetadata = {
+  sessionId: '550e8400-e29b-41d4-a716-446655440000',
+  extensionId: 'cjpalhdlnbpafiamejdnhcphjbkeiagm',
+  fileName: 'test.crx',
+  fileCount: 3,
+  size: 5 * 1024 * 1024,
+  createdAt: new Date().toISOString(),
+  expiresAt: new Date().toISOString(),
+  version: '1.0.0',
+};
+
+const POLICY_YAML = `
+name: Org policy
+rules:
+  - id: no-all-urls
+    type: forbidden-permissions
+    permissions: ["<all_urls>", webRequestBlocking]
+  - id: no-remote-scripts
+    type: csp
+    forbid: [remote-scripts]
+  - id: no-eval
+    type: forbidden-issues
+    codes: [JS_EVAL]
+  - id: size
+    type: max-package-size
+    size: 1MB
+    severity: warning
+  - id: no-source-maps
+    type: forbidden-files
+    patterns: ["*.map"]
+`;
+
+async function buildZip(files: Record<string, string>): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(files)) {
+    zip.file(path, content);
+  }
+  return zip.generateAsync({ type: 'arraybuffer' });
+}
+
+describe('Policy Service', () => {
+  describe('readPolicy()', () => {
+    it('should accept YAML text and JSON objects', () => {
+      expect(readPolicy(POLICY_YAML).rules).toHaveLength(5);
+      expect(readPolicy({ rules: [{ id: 'mv3', type: 'min-manifest-version', version: 3 }] }).rules[0]).toMatchObject({
+        id: 'mv3',
+        severity: 'error',
+      });
+    });
+
+    it('should throw PolicyError for invalid policies', () => {
+      expect(() => readPolicy({ rules: [{ id: 'x', type: 'max-risk-level', level: 'extreme' }] })).toThrow(PolicyError);
+      expect(() => readPolicy('rules: [')).toThrow('Failed to parse policy');
+    });
+  });
+
+  describe('checkPolicy()', () => {
+    it('should evaluate every rule against the stored extension', async () => {
+      const data = await buildZip({
+        'manifest.json': JSON.stringify({
+          manifest_version: 3,
+          name: 'Test',
+          version: '1.0.0',
+          permissions: ['storage'],
+          host_permissions: ['<all_urls>'],
+        }),
+        'background.js': 'chrome.storage.local.get();\neval(payload);\n',
+        'background.js.map': '{}',
+      });
+
+      const result = await checkPolicy(data, SESSION, readPolicy(POLICY_YAML));
+
+      expect(result.sessionId).toBe(SESSION.sessionId);
+      expect(result.policyName).toBe('Org policy');
+      expect(result.passed).toBe(false);
+      expect(result.summary).toEqual({ total: 5, passed: 1, failed: 3, warnings: 1 });
+
+      const byId = Object.fromEntries(result.results.map((rule) => [rule.id, rule]));
+      expect(byId['no-all-urls'].violations[0].message).toBe('"<all_urls>" is declared in host_permissions');
+      expect(byId['no-remote-scripts'].passed).toBe(true);
+      expect(byId['no-eval'].violations[0]).toMatchObject({ file: 'background.js', line: 2 });
+      expect(byId['no-source-maps'].violations[0].file).toBe('background.js.map');
+    });
+
+    it('should pass a compliant extension', async () => {
+      const data = await buildZip({
+        'manifest.json': JSON.stringify({ manifest_version: 3, name: 'Clean', version: '1.0', permissions: ['storage'] }),
+        'background.js': 'chrome.storage.local.get();',
+      });
+
+      const result = await checkPolicy(data, { ...SESSION, size: 1000 }, readPolicy(POLICY_YAML));
+
+      expect(result.passed).toBe(true);
+      expect(result.results.every((rule) => rule.passed)).toBe(true);
+    });
+
+    it('should throw PolicyError when the manifest is missing', async () => {
+      const data = await buildZip({ 'background.js': '' });
+      await expect(checkPolicy(data, SESSION, readPolicy(POLICY_YAML))).rejects.toThrow(PolicyError);
+    });
+  });
+});
@@ -140,6 +140,56 @@ export function createValidCRXFile(): Uint8Array {
   return result;
 }
 
+/**
+ * Encode a length-delimited protobuf field
+ */
+function protobufField(fieldNumber: number, bytes: Uint8Array): Uint8Array {
+  const varint = (value: number) => {
+    const out: number[] = [];
+    while (value > 0x7f) {
+      out.push((value & 0x7f) | 0x80);
+      value >>>= 7;
+    }
+    out.push(value);
+    return out;
+  };
+  return new Uint8Array([...varint((fieldNumber << 3) | 2), ...varint(bytes.length), ...bytes]);
+}
+
+/**
+ * Sign a ZIP as a CRX3 with a fresh RSA key, declaring the key's own ID
+ * unless another crx_id is given
+ */
+export async function createSignedCRXFile(zip: Uint8Array, declaredCrxId?: Uint8Array): Promise<Uint8Array> {
+  const keyPair = await crypto.subtle.generateKey(
+    { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+    true,
+    ['sign', 'verify']
+  );
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey('spki', keyPair.publicKey));
+  const crxId = declaredCrxId ?? new Uint8Array(await crypto.subtle.digest('SHA-256', publicKey)).slice(0, 16);
+  const signedHeaderData = protobufField(1, crxId);
+
+  const context = new TextEncoder().encode('CRX3 SignedData\x00');
+  const message = new Uint8Array(context.length + 4 + signedHeaderData.length + zip.length);
+  message.set(context, 0);
+  new DataView(message.buffer).setUint32(context.length, signedHeaderData.length, true);
+  message.set(signedHeaderData, context.length + 4);
+  message.set(zip, context.length + 4 + signedHeaderData.length);
+  const signature = new Uint8Array(await crypto.subtle.sign('RSASSA-PKCS1-v1_5', keyPair.privateKey, message));
+
+  const proof = new Uint8Array([...protobufField(1, publicKey), ...protobufField(2, signature)]);
+  const header = new Uint8Array([...protobufField(2, proof), ...protobufField(10000, signedHeaderData)]);
+
+  const crx = new Uint8Array(12 + header.length + zip.length);
+  crx.set([0x43, 0x72, 0x32, 0x34], 0); // "Cr24"
+  new DataView(crx.buffer).setUint32(4, 3, true);
+  new DataView(crx.buffer).setUint32(8, header.length, true);
+  crx.set(header, 12);
+  crx.set(zip, 12 + header.length);
+  return crx;
+}
+
 /**
  * Create a form data with file for testing
  */
@@ -38,7 +38,7 @@ export class MockR2Object implements R2Object {
   }
 
   private createReadableStream(): ReadableStream<Uint8Array> {
-    let sent = false;
+    const data = this.data;
     return new ReadableStream({
       start(controller) {
         controller.enqueue(new Uint8Array(data));
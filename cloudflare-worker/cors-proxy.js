@@ -1,7 +1,8 @@
 /**
  * CORS Proxy Worker for CRX Review
  *
- * Proxies requests to Chrome Web Store to bypass CORS restrictions
+ * Proxies requests to the Chrome Web Store, Microsoft Edge Add-ons and
+ * Firefox Add-ons download endpoints to bypass CORS restrictions
  */
 
 const ALLOWED_ORIGINS = [
@@ -11,10 +12,13 @@ const ALLOWED_ORIGINS = [
   'http://127.0.0.1:5173'
 ];
 
-const CHROME_WEB_STORE_DOMAINS = [
+const EXTENSION_STORE_DOMAINS = [
   'clients2.google.com',
   'clients2.googleapis.com',
-  'clients2.googleusercontent.com'
+  'clients2.googleusercontent.com',
+  'edge.microsoft.com',
+  'microsoftedge.microsoft.com',
+  'addons.mozilla.org'
 ];
 
 export default {
@@ -59,9 +63,9 @@ export default {
       });
     }
 
-    // Only allow Chrome Web Store domains
-    if (!CHROME_WEB_STORE_DOMAINS.includes(parsedTarget.hostname)) {
-      return new Response('Forbidden: Only Chrome Web Store URLs are allowed', {
+    // Only allow extension store domains
+    if (!EXTENSION_STORE_DOMAINS.includes(parsedTarget.hostname)) {
+      return new Response('Forbidden: Only extension store URLs are allowed', {
         status: 403,
         headers: corsHeaders(origin)
       });
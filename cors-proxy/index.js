@@ -1,5 +1,5 @@
 /**
- * Simple CORS Proxy for Chrome Web Store Downloads
+ * Simple CORS Proxy for Chrome Web Store, Edge Add-ons and Firefox Add-ons Downloads
  * Deployed on Cloudflare Workers
  */
 
@@ -45,6 +45,9 @@ export default {
       'clients2.googleapis.com',
       'clients2.googleusercontent.com',
       'chrome.google.com',
+      'edge.microsoft.com',
+      'microsoftedge.microsoft.com',
+      'addons.mozilla.org',
     ];
 
     let targetDomain;
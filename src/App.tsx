@@ -1,6 +1,7 @@
 import { Suspense, useState, useEffect } from 'react';
 import { HashRouter, Routes, Route } from 'react-router-dom';
 import { ViewerPage } from './pages/ViewerPage';
+import { ComparePage } from './pages/ComparePage';
 import { LandingPage } from './pages/LandingPage';
 import { NotFoundPage } from './pages/NotFoundPage';
 import { ErrorBoundary } from './components/ErrorBoundary';
@@ -43,6 +44,7 @@ function App() {
           <Routes>
             <Route path="/" element={<LandingPage />} />
             <Route path="/app" element={<ViewerPage />} />
+            <Route path="/compare" element={<ComparePage />} />
             <Route path="*" element={<NotFoundPage />} />
           </Routes>
         </Suspense>
@@ -0,0 +1,85 @@
+/**
+ * Package picker for one side of a comparison
+ *
+ * Loads a package by store URL / extension ID or from an uploaded CRX,
+ * XPI or ZIP file, and shows the loading state of that side.
+ */
+
+import { useRef, useState } from 'react';
+import { useCompareStore } from '@/store/compareStore';
+import type { CompareSide } from '@/store/compareStore';
+
+export interface CompareSourcePickerProps {
+  side: CompareSide;
+  title: string;
+}
+
+export function CompareSourcePicker({ side, title }: CompareSourcePickerProps) {
+  const [urlInput, setUrlInput] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const pkg = useCompareStore((state) => state[side]);
+  const loadFromUrl = useCompareStore((state) => state.loadFromUrl);
+  const loadFromFile = useCompareStore((state) => state.loadFromFile);
+
+  const isLoading = pkg.loadingState === 'loading';
+
+  const handleLoadFromUrl = () => {
+    if (!urlInput.trim()) {
+      return;
+    }
+    loadFromUrl(side, urlInput.trim());
+    setUrlInput('');
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      loadFromFile(side, file);
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <div className="flex-1 min-w-0 space-y-2">
+      <div className="flex items-center gap-2">
+        <h2 className="text-sm font-semibold text-gray-900 dark:text-gray-100">{title}</h2>
+        {pkg.label && (
+          <span className="text-xs font-mono text-gray-600 dark:text-gray-400 truncate" title={pkg.label}>
+            {pkg.label}
+          </span>
+        )}
+        {isLoading && <div className="inline-block animate-spin rounded-full h-3 w-3 border-b-2 border-blue-500" />}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={urlInput}
+          onChange={(e) => setUrlInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleLoadFromUrl()}
+          placeholder="Chrome, Edge or Firefox add-on URL, or extension ID"
+          disabled={isLoading}
+          className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        />
+        <button
+          onClick={handleLoadFromUrl}
+          disabled={isLoading || !urlInput.trim()}
+          className="px-3 py-1.5 text-sm bg-blue-600 dark:bg-blue-500 text-white rounded hover:bg-blue-700 dark:hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Load
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading}
+          className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+        >
+          Upload
+        </button>
+        <input ref={fileInputRef} type="file" accept=".crx,.xpi,.zip" onChange={handleFileChange} className="hidden" />
+      </div>
+
+      {pkg.error && <p className="text-xs text-red-600 dark:text-red-400">{pkg.error}</p>}
+    </div>
+  );
+}
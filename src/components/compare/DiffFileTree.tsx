@@ -0,0 +1,108 @@
+/**
+ * File tree for package comparisons
+ *
+ * Renders the merged diff tree of two packages with a change marker for
+ * every file and directory. Directories with changes start expanded.
+ */
+
+import { useState } from 'react';
+import type { DiffTreeNode, FileChangeStatus } from '@/lib/diff/tree-diff';
+
+export interface DiffFileTreeProps {
+  node: DiffTreeNode;
+  selectedPath: string | null;
+  onSelect: (path: string) => void;
+}
+
+interface DiffFileTreeItemProps {
+  node: DiffTreeNode;
+  level: number;
+  selectedPath: string | null;
+  onSelect: (path: string) => void;
+}
+
+const STATUS_MARKERS: Record<FileChangeStatus, { letter: string; className: string }> = {
+  added: { letter: 'A', className: 'text-green-600 dark:text-green-400' },
+  removed: { letter: 'D', className: 'text-red-600 dark:text-red-400' },
+  modified: { letter: 'M', className: 'text-yellow-600 dark:text-yellow-400' },
+  unchanged: { letter: '', className: 'text-gray-500 dark:text-gray-400' },
+};
+
+function DiffFileTreeItem({ node, level, selectedPath, onSelect }: DiffFileTreeItemProps) {
+  const [isExpanded, setIsExpanded] = useState(node.status !== 'unchanged');
+  const marker = STATUS_MARKERS[node.status];
+  const isSelected = !node.isDirectory && selectedPath === node.path;
+
+  const handleClick = () => {
+    if (node.isDirectory) {
+      setIsExpanded(!isExpanded);
+    } else {
+      onSelect(node.path);
+    }
+  };
+
+  return (
+    <div>
+      <div
+        onClick={handleClick}
+        className={`
+          px-2 py-1.5 cursor-pointer flex items-center gap-2
+          transition-colors duration-150
+          ${isSelected
+            ? 'bg-blue-500 text-white dark:bg-blue-600'
+            : 'hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-900 dark:text-gray-100'
+          }
+        `}
+        style={{ paddingLeft: `${level * 16}px` }}
+      >
+        <span className="w-4 text-center">
+          {node.isDirectory ? (isExpanded ? '▼' : '▶') : ''}
+        </span>
+        <span
+          className={`flex-1 text-sm truncate ${node.status === 'removed' ? 'line-through' : ''} ${isSelected ? '' : marker.className}`}
+        >
+          {node.name}
+        </span>
+        {marker.letter && (
+          <span className={`w-4 text-xs font-mono font-bold text-center ${isSelected ? '' : marker.className}`}>
+            {marker.letter}
+          </span>
+        )}
+      </div>
+
+      {node.isDirectory && isExpanded && (
+        <div>
+          {node.children.map((child) => (
+            <DiffFileTreeItem
+              key={child.path}
+              node={child}
+              level={level + 1}
+              selectedPath={selectedPath}
+              onSelect={onSelect}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function DiffFileTree({ node, selectedPath, onSelect }: DiffFileTreeProps) {
+  if (node.children.length === 0) {
+    return <p className="p-4 text-sm text-gray-600 dark:text-gray-400">No changed files</p>;
+  }
+
+  return (
+    <div className="p-2">
+      {node.children.map((child) => (
+        <DiffFileTreeItem
+          key={child.path}
+          node={child}
+          level={0}
+          selectedPath={selectedPath}
+          onSelect={onSelect}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+/**
+ * Manifest comparison view
+ *
+ * Summarizes how manifest.json changed between two packages. Permission
+ * changes are listed first with their risk level; other top-level fields
+ * show their old and new values.
+ */
+
+import { useMemo } from 'react';
+import { diffManifests } from '@/lib/diff/manifest-diff';
+import type { PermissionChange } from '@/lib/diff/manifest-diff';
+import { RiskBadge } from '@/components/viewer/RiskBadge';
+
+export interface ManifestDiffViewProps {
+  oldManifest: Record<string, unknown> | null;
+  newManifest: Record<string, unknown> | null;
+}
+
+const SOURCE_LABELS: Record<PermissionChange['source'], string> = {
+  permissions: 'required',
+  optional: 'optional',
+  content_scripts: 'content script',
+};
+
+function formatValue(value: unknown): string {
+  return value === undefined ? '' : JSON.stringify(value, null, 2);
+}
+
+export function ManifestDiffView({ oldManifest, newManifest }: ManifestDiffViewProps) {
+  const diff = useMemo(
+    () => (oldManifest && newManifest ? diffManifests(oldManifest, newManifest) : null),
+    [oldManifest, newManifest]
+  );
+
+  if (!diff) {
+    return (
+      <p className="p-6 text-sm text-gray-600 dark:text-gray-400">
+        manifest.json is missing or invalid in one of the packages
+      </p>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-6">
+      {/* Summary */}
+      <section className="flex flex-wrap items-center gap-3">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Manifest changes</h3>
+        <span className="font-mono text-sm text-gray-600 dark:text-gray-400">
+          {diff.oldVersion ?? '?'} → {diff.newVersion ?? '?'}
+        </span>
+        {diff.riskIncreased && (
+          <span className="px-2 py-0.5 rounded text-xs font-semibold bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-300">
+            New risky permissions
+          </span>
+        )}
+      </section>
+
+      {/* Permissions */}
+      <section>
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">Permissions</h3>
+        {diff.permissions.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">No permission changes</p>
+        ) : (
+          <table className="w-full text-sm">
+            <tbody>
+              {diff.permissions.map((entry) => (
+                <tr
+                  key={`${entry.change}-${entry.source}-${entry.permission}`}
+                  className={`border-b border-gray-100 dark:border-gray-800 ${
+                    entry.change === 'added' ? 'bg-green-50 dark:bg-green-900/20' : 'bg-red-50 dark:bg-red-900/20'
+                  }`}
+                >
+                  <td className="py-1.5 px-2 font-mono font-bold w-4">{entry.change === 'added' ? '+' : '-'}</td>
+                  <td className="py-1.5 pr-3 font-mono text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                    {entry.permission}
+                  </td>
+                  <td className="py-1.5 pr-3">
+                    <RiskBadge level={entry.risk} />
+                  </td>
+                  <td className="py-1.5 pr-3 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {entry.kind} · {SOURCE_LABELS[entry.source]}
+                  </td>
+                  <td className="py-1.5 text-gray-700 dark:text-gray-300">{entry.description}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      {/* Other fields */}
+      <section>
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">Other fields</h3>
+        {diff.fields.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">No other changes</p>
+        ) : (
+          <ul className="space-y-3">
+            {diff.fields.map((field) => (
+              <li key={field.key}>
+                <p className="text-sm font-mono text-gray-900 dark:text-gray-100">
+                  {field.key}
+                  <span className="ml-2 text-xs font-sans text-gray-500 dark:text-gray-400">{field.change}</span>
+                </p>
+                <div className="mt-1 grid grid-cols-2 gap-2">
+                  <pre className="m-0 p-2 rounded text-xs overflow-auto bg-red-50 dark:bg-red-900/20 text-gray-800 dark:text-gray-200">
+                    {formatValue(field.oldValue)}
+                  </pre>
+                  <pre className="m-0 p-2 rounded text-xs overflow-auto bg-green-50 dark:bg-green-900/20 text-gray-800 dark:text-gray-200">
+                    {formatValue(field.newValue)}
+                  </pre>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
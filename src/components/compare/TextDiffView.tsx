@@ -0,0 +1,139 @@
+/**
+ * Text diff view for a single file
+ *
+ * Shows changed regions of a file as unified or side-by-side hunks with
+ * old and new line numbers. Binary files fall back to a size summary.
+ */
+
+import { useMemo } from 'react';
+import { isTextFile } from '@/lib/code/language-detector';
+import { diffLines, createHunks, toSideBySide, countChanges } from '@/lib/diff/text-diff';
+import type { DiffHunk, DiffLine } from '@/lib/diff/text-diff';
+import type { DiffViewMode } from '@/store/compareStore';
+
+export interface TextDiffViewProps {
+  path: string;
+  /** File contents in the old package; undefined when the file was added */
+  oldData?: Uint8Array;
+  /** File contents in the new package; undefined when the file was removed */
+  newData?: Uint8Array;
+  mode: DiffViewMode;
+}
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  equal: 'text-gray-800 dark:text-gray-200',
+  added: 'bg-green-50 dark:bg-green-900/30 text-green-900 dark:text-green-200',
+  removed: 'bg-red-50 dark:bg-red-900/30 text-red-900 dark:text-red-200',
+};
+
+const LINE_PREFIX: Record<DiffLine['type'], string> = { equal: ' ', added: '+', removed: '-' };
+
+const GUTTER_CLASS = 'w-12 px-2 text-right select-none text-gray-400 dark:text-gray-500 align-top';
+
+function decodeText(data: Uint8Array | undefined): string | null {
+  if (!data) return '';
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return null;
+  }
+}
+
+function formatSize(size: number | undefined): string {
+  return size === undefined ? '—' : `${size.toLocaleString()} bytes`;
+}
+
+function HunkHeader({ hunk, colSpan }: { hunk: DiffHunk; colSpan: number }) {
+  return (
+    <tr className="bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300">
+      <td colSpan={colSpan} className="px-2 py-1">
+        @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+      </td>
+    </tr>
+  );
+}
+
+function UnifiedHunk({ hunk }: { hunk: DiffHunk }) {
+  return (
+    <>
+      <HunkHeader hunk={hunk} colSpan={3} />
+      {hunk.lines.map((line, index) => (
+        <tr key={index} className={LINE_STYLES[line.type]}>
+          <td className={GUTTER_CLASS}>{line.oldLine ?? ''}</td>
+          <td className={GUTTER_CLASS}>{line.newLine ?? ''}</td>
+          <td className="px-2 whitespace-pre">
+            {LINE_PREFIX[line.type]} {line.text}
+          </td>
+        </tr>
+      ))}
+    </>
+  );
+}
+
+function SplitHunk({ hunk }: { hunk: DiffHunk }) {
+  const rows = toSideBySide(hunk.lines);
+  return (
+    <>
+      <HunkHeader hunk={hunk} colSpan={4} />
+      {rows.map((row, index) => (
+        <tr key={index}>
+          <td className={GUTTER_CLASS}>{row.left?.oldLine ?? ''}</td>
+          <td className={`px-2 w-1/2 whitespace-pre ${row.left ? LINE_STYLES[row.left.type] : 'bg-gray-50 dark:bg-gray-800'}`}>
+            {row.left?.text}
+          </td>
+          <td className={`${GUTTER_CLASS} border-l border-gray-200 dark:border-gray-700`}>{row.right?.newLine ?? ''}</td>
+          <td className={`px-2 w-1/2 whitespace-pre ${row.right ? LINE_STYLES[row.right.type] : 'bg-gray-50 dark:bg-gray-800'}`}>
+            {row.right?.text}
+          </td>
+        </tr>
+      ))}
+    </>
+  );
+}
+
+export function TextDiffView({ path, oldData, newData, mode }: TextDiffViewProps) {
+  const diff = useMemo(() => {
+    if (!isTextFile(path)) return null;
+
+    const oldText = decodeText(oldData);
+    const newText = decodeText(newData);
+    if (oldText === null || newText === null) return null;
+
+    const lines = diffLines(oldText, newText);
+    return { hunks: createHunks(lines), ...countChanges(lines) };
+  }, [path, oldData, newData]);
+
+  if (!diff) {
+    return (
+      <div className="p-6 text-sm text-gray-700 dark:text-gray-300 space-y-1">
+        <p className="font-semibold text-gray-900 dark:text-gray-100">Binary file</p>
+        <p>Old: {formatSize(oldData?.length)}</p>
+        <p>New: {formatSize(newData?.length)}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col min-h-0 flex-1">
+      <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 text-xs flex items-center gap-3">
+        <span className="font-mono text-gray-900 dark:text-gray-100 truncate">{path}</span>
+        <span className="text-green-600 dark:text-green-400">+{diff.added}</span>
+        <span className="text-red-600 dark:text-red-400">-{diff.removed}</span>
+      </div>
+
+      {diff.hunks.length === 0 ? (
+        <p className="p-6 text-sm text-gray-600 dark:text-gray-400">Files are identical</p>
+      ) : (
+        <div className="flex-1 overflow-auto bg-white dark:bg-gray-900">
+          <table className="min-w-full border-collapse font-mono text-xs leading-relaxed">
+            <tbody>
+              {diff.hunks.map((hunk, index) =>
+                mode === 'split' ? <SplitHunk key={index} hunk={hunk} /> : <UnifiedHunk key={index} hunk={hunk} />
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
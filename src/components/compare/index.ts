@@ -0,0 +1,12 @@
+/**
+ * Compare components barrel export
+ */
+
+export { CompareSourcePicker } from './CompareSourcePicker';
+export type { CompareSourcePickerProps } from './CompareSourcePicker';
+export { DiffFileTree } from './DiffFileTree';
+export type { DiffFileTreeProps } from './DiffFileTree';
+export { TextDiffView } from './TextDiffView';
+export type { TextDiffViewProps } from './TextDiffView';
+export { ManifestDiffView } from './ManifestDiffView';
+export type { ManifestDiffViewProps } from './ManifestDiffView';
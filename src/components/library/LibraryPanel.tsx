@@ -0,0 +1,241 @@
+/**
+ * Library of previously analyzed extensions
+ *
+ * Lists packages stored in the local IndexedDB library and lets the user
+ * reopen, re-download, tag, annotate and delete them. Renders nothing when
+ * the library is empty or unavailable.
+ */
+
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { FolderOpen, RefreshCw, Pencil, Trash2, Tag } from 'lucide-react';
+import { useLibrary } from '@/hooks/useLibrary';
+import { useViewerStore } from '@/store/viewerStore';
+import { formatFileSize } from '@/lib/utils/hash';
+import { buildStoreListingUrl } from '@/lib/crx/url-patterns';
+import type { ExtensionStore } from '@/lib/crx/url-patterns';
+import { getEntryStore } from '@/lib/library/library-db';
+import type { LibraryEntry, LibraryEntryUpdate } from '@/lib/library/library-db';
+
+const STORE_LABELS: Record<ExtensionStore, string> = {
+  chrome: 'Chrome Web Store',
+  edge: 'Edge Add-ons',
+  firefox: 'Firefox Add-ons',
+};
+
+export interface LibraryPanelProps {
+  className?: string;
+}
+
+export function LibraryPanel({ className = '' }: LibraryPanelProps) {
+  const navigate = useNavigate();
+  const { entries, error, isLoading, updateEntry, removeEntry } = useLibrary();
+  const openFromLibrary = useViewerStore((state) => state.openFromLibrary);
+  const loadCrxFromUrl = useViewerStore((state) => state.loadCrxFromUrl);
+  const [filter, setFilter] = useState('');
+
+  if (isLoading || (entries.length === 0 && !error)) {
+    return null;
+  }
+
+  const query = filter.trim().toLowerCase();
+  const visibleEntries = query
+    ? entries.filter(
+        (entry) =>
+          entry.extensionId.includes(query) ||
+          entry.name?.toLowerCase().includes(query) ||
+          entry.tags.some((tag) => tag.includes(query))
+      )
+    : entries;
+
+  const handleOpen = (entry: LibraryEntry) => {
+    openFromLibrary(entry.id);
+    navigate('/app');
+  };
+
+  const handleRedownload = (entry: LibraryEntry) => {
+    const store = getEntryStore(entry) ?? 'chrome';
+    loadCrxFromUrl(buildStoreListingUrl(entry.extensionId, store), { forceDownload: true });
+    navigate('/app');
+  };
+
+  const handleDelete = (entry: LibraryEntry) => {
+    if (window.confirm(`Remove ${entry.name ?? entry.extensionId} from your library?`)) {
+      removeEntry(entry.id);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Your Library</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Extensions you have reviewed are kept in this browser and open without downloading again.
+          </p>
+        </div>
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter by name, ID or tag"
+          className="w-full sm:w-64 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 text-sm bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      <ul className="space-y-3">
+        {visibleEntries.map((entry) => (
+          <LibraryEntryRow
+            key={entry.id}
+            entry={entry}
+            onOpen={() => handleOpen(entry)}
+            onRedownload={() => handleRedownload(entry)}
+            onDelete={() => handleDelete(entry)}
+            onUpdate={(update) => updateEntry(entry.id, update)}
+          />
+        ))}
+        {visibleEntries.length === 0 && (
+          <li className="text-sm text-gray-600 dark:text-gray-400">No entries match "{filter}"</li>
+        )}
+      </ul>
+    </div>
+  );
+}
+
+interface LibraryEntryRowProps {
+  entry: LibraryEntry;
+  onOpen: () => void;
+  onRedownload: () => void;
+  onDelete: () => void;
+  onUpdate: (update: LibraryEntryUpdate) => Promise<boolean>;
+}
+
+function LibraryEntryRow({ entry, onOpen, onRedownload, onDelete, onUpdate }: LibraryEntryRowProps) {
+  const store = getEntryStore(entry);
+  const [isEditing, setIsEditing] = useState(false);
+  const [tagsInput, setTagsInput] = useState('');
+  const [notesInput, setNotesInput] = useState('');
+
+  const startEditing = () => {
+    setTagsInput(entry.tags.join(', '));
+    setNotesInput(entry.notes);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const saved = await onUpdate({ tags: tagsInput.split(','), notes: notesInput.trim() });
+    if (saved) {
+      setIsEditing(false);
+    }
+  };
+
+  const buttonClass =
+    'inline-flex items-center gap-1 px-2 py-1 text-xs rounded text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700';
+
+  return (
+    <li className="bg-white dark:bg-gray-900 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="flex items-baseline gap-2">
+            <span className="font-semibold text-gray-900 dark:text-gray-100 truncate">
+              {entry.name ?? entry.fileName}
+            </span>
+            {entry.version && <span className="text-xs text-gray-500 dark:text-gray-400">v{entry.version}</span>}
+          </div>
+          <div className="text-xs font-mono text-gray-600 dark:text-gray-400 truncate" title={entry.id}>
+            {entry.extensionId}
+          </div>
+          <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            {formatFileSize(entry.size)} · {store ? STORE_LABELS[store] : 'Uploaded'} · Last opened{' '}
+            {new Date(entry.lastOpenedAt).toLocaleString()}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-1 shrink-0">
+          <button onClick={onOpen} className={buttonClass} title="Open stored package">
+            <FolderOpen size={14} />
+            Open
+          </button>
+          {store && (
+            <button onClick={onRedownload} className={buttonClass} title={`Download the current version from ${STORE_LABELS[store]}`}>
+              <RefreshCw size={14} />
+              Re-download
+            </button>
+          )}
+          <button onClick={startEditing} className={buttonClass} title="Edit tags and notes">
+            <Pencil size={14} />
+            Edit
+          </button>
+          <button
+            onClick={onDelete}
+            className={`${buttonClass} text-red-600 dark:text-red-400`}
+            title="Delete from library"
+          >
+            <Trash2 size={14} />
+            Delete
+          </button>
+        </div>
+      </div>
+
+      {isEditing ? (
+        <div className="mt-3 space-y-2">
+          <input
+            type="text"
+            value={tagsInput}
+            onChange={(e) => setTagsInput(e.target.value)}
+            placeholder="Tags, comma separated"
+            className="w-full px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <textarea
+            value={notesInput}
+            onChange={(e) => setNotesInput(e.target.value)}
+            placeholder="Notes"
+            rows={3}
+            className="w-full px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              className="px-3 py-1.5 text-sm bg-blue-600 dark:bg-blue-500 text-white rounded hover:bg-blue-700 dark:hover:bg-blue-600"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => setIsEditing(false)}
+              className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        (entry.tags.length > 0 || entry.notes) && (
+          <div className="mt-3 space-y-2">
+            {entry.tags.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1">
+                <Tag size={12} className="text-gray-400" />
+                {entry.tags.map((tag) => (
+                  <span
+                    key={tag}
+                    className="px-2 py-0.5 text-xs rounded-full bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
+                  >
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            )}
+            {entry.notes && (
+              <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{entry.notes}</p>
+            )}
+          </div>
+        )
+      )}
+    </li>
+  );
+}
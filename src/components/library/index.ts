@@ -0,0 +1,6 @@
+/**
+ * Library components barrel export
+ */
+
+export { LibraryPanel } from './LibraryPanel';
+export type { LibraryPanelProps } from './LibraryPanel';
@@ -0,0 +1,241 @@
+/**
+ * Download settings dialog
+ *
+ * Edits the CORS proxy, update server, prodversion and OS/arch strategies
+ * used for store downloads, and the archive that past versions are loaded
+ * from. Settings are saved in localStorage; "Reset"
+ * returns to the defaults of this build (VITE_* variables or built-in
+ * values). "Test connection" downloads a known extension with the values in
+ * the form, before saving, and reports which strategy worked.
+ */
+
+import { useState } from 'react';
+import { Settings, X } from 'lucide-react';
+import {
+  formatStrategyList,
+  getDefaultDownloadSettings,
+  getDownloadSettings,
+  parseStrategyList,
+  resetDownloadSettings,
+  saveDownloadSettings,
+  validateDownloadSettings,
+} from '@/lib/settings/download-settings';
+import type { DownloadSettingsResult } from '@/lib/settings/download-settings';
+import { testDownloadConnection } from '@/lib/crx/download';
+import type { ConnectionTestResult } from '@/lib/crx/download';
+
+export interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+interface SettingsForm {
+  corsProxyUrl: string;
+  updateServerUrl: string;
+  prodVersion: string;
+  strategies: string;
+  archiveUrl: string;
+}
+
+type Status =
+  | { kind: 'saved' }
+  | { kind: 'error'; message: string }
+  | { kind: 'testing' }
+  | { kind: 'tested'; result: ConnectionTestResult };
+
+function toForm(): SettingsForm {
+  const settings = getDownloadSettings();
+  return { ...settings, strategies: formatStrategyList(settings.strategies) };
+}
+
+function fromForm(form: SettingsForm): DownloadSettingsResult {
+  const strategies = parseStrategyList(form.strategies);
+  if (!strategies) {
+    return { success: false, error: 'Strategies must be a comma-separated list of os/arch pairs' };
+  }
+  return validateDownloadSettings({ ...form, strategies });
+}
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 text-sm font-mono rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export function SettingsPanel({ onClose }: SettingsPanelProps) {
+  const [form, setForm] = useState<SettingsForm>(toForm);
+  const [status, setStatus] = useState<Status | null>(null);
+  const defaults = getDefaultDownloadSettings();
+
+  const setField = (field: keyof SettingsForm) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setForm({ ...form, [field]: e.target.value });
+    setStatus(null);
+  };
+
+  const handleSave = () => {
+    const parsed = fromForm(form);
+    const result = parsed.success ? saveDownloadSettings(parsed.value) : parsed;
+    if (!result.success) {
+      setStatus({ kind: 'error', message: result.error });
+      return;
+    }
+    setForm({ ...result.value, strategies: formatStrategyList(result.value.strategies) });
+    setStatus({ kind: 'saved' });
+  };
+
+  const handleReset = () => {
+    const settings = resetDownloadSettings();
+    setForm({ ...settings, strategies: formatStrategyList(settings.strategies) });
+    setStatus(null);
+  };
+
+  const handleTest = async () => {
+    const parsed = fromForm(form);
+    if (!parsed.success) {
+      setStatus({ kind: 'error', message: parsed.error });
+      return;
+    }
+    setStatus({ kind: 'testing' });
+    setStatus({ kind: 'tested', result: await testDownloadConnection(parsed.value) });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-gray-900/50 dark:bg-black/70 backdrop-blur-sm flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl p-6 max-w-lg w-full mx-4 border border-gray-200 dark:border-gray-700 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-labelledby="settings-title"
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="settings-title" className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-gray-100">
+            <Settings className="w-5 h-5" />
+            Download settings
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-100"
+            title="Close settings"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <label className="block space-y-1">
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">CORS proxy URL</span>
+          <input
+            type="url"
+            value={form.corsProxyUrl}
+            onChange={setField('corsProxyUrl')}
+            placeholder={defaults.corsProxyUrl}
+            className={INPUT_CLASS}
+          />
+        </label>
+
+        <label className="block space-y-1">
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Update server URL</span>
+          <input
+            type="url"
+            value={form.updateServerUrl}
+            onChange={setField('updateServerUrl')}
+            placeholder={defaults.updateServerUrl}
+            className={INPUT_CLASS}
+          />
+          <span className="block text-xs text-gray-500 dark:text-gray-400">
+            Chrome update protocol endpoint, such as an internal extension mirror
+          </span>
+        </label>
+
+        <label className="block space-y-1">
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">prodversion</span>
+          <input
+            type="text"
+            value={form.prodVersion}
+            onChange={setField('prodVersion')}
+            placeholder={defaults.prodVersion}
+            className={INPUT_CLASS}
+          />
+        </label>
+
+        <label className="block space-y-1">
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">OS/arch strategies</span>
+          <input
+            type="text"
+            value={form.strategies}
+            onChange={setField('strategies')}
+            placeholder={formatStrategyList(defaults.strategies)}
+            className={INPUT_CLASS}
+          />
+          <span className="block text-xs text-gray-500 dark:text-gray-400">Tried in order until a download succeeds</span>
+        </label>
+
+        <label className="block space-y-1">
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Version archive URL</span>
+          <input
+            type="url"
+            value={form.archiveUrl}
+            onChange={setField('archiveUrl')}
+            placeholder={defaults.archiveUrl || 'http://localhost:8080/extensions'}
+            className={INPUT_CLASS}
+          />
+          <span className="block text-xs text-gray-500 dark:text-gray-400">
+            Directory of past builds stored as &lt;id&gt;/&lt;version&gt;.crx; leave empty to disable
+          </span>
+        </label>
+
+        {status?.kind === 'error' && <p className="text-sm text-red-600 dark:text-red-400">{status.message}</p>}
+        {status?.kind === 'saved' && <p className="text-sm text-green-600 dark:text-green-400">Settings saved</p>}
+        {status?.kind === 'testing' && (
+          <p className="text-sm text-gray-600 dark:text-gray-400">Testing connection...</p>
+        )}
+        {status?.kind === 'tested' && (
+          <div className="text-sm space-y-1">
+            <p
+              className={
+                status.result.success
+                  ? 'font-medium text-green-600 dark:text-green-400'
+                  : 'font-medium text-red-600 dark:text-red-400'
+              }
+            >
+              {status.result.strategy
+                ? `Connected using ${status.result.strategy.os}/${status.result.strategy.arch}`
+                : 'No strategy could download the test extension'}
+            </p>
+            <ul className="text-xs font-mono text-gray-600 dark:text-gray-400">
+              {status.result.attempts.map((attempt) => (
+                <li key={`${attempt.strategy.os}/${attempt.strategy.arch}`}>
+                  {attempt.success ? '✓' : '✗'} {attempt.strategy.os}/{attempt.strategy.arch}
+                  {attempt.success ? ` (${attempt.size} bytes)` : `: ${attempt.error}`}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2 pt-2">
+          <button
+            onClick={handleReset}
+            className="px-3 py-1.5 text-sm rounded text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            title="Use the defaults of this build"
+          >
+            Reset
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={handleTest}
+              disabled={status?.kind === 'testing'}
+              className="px-3 py-1.5 text-sm rounded bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              Test connection
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-3 py-1.5 text-sm rounded bg-blue-600 dark:bg-blue-500 text-white hover:bg-blue-700 dark:hover:bg-blue-600"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
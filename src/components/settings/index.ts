@@ -0,0 +1,6 @@
+/**
+ * Settings components barrel export
+ */
+
+export { SettingsPanel } from './SettingsPanel';
+export type { SettingsPanelProps } from './SettingsPanel';
@@ -0,0 +1,51 @@
+/**
+ * Annotation severity indicators
+ *
+ * AnnotationBadge is a colored count label used in the file tree;
+ * AnnotationMarker is the colored dot used in the code viewer gutter.
+ */
+
+import type { AnnotationSeverity } from '@/lib/annotations/annotations';
+
+export interface AnnotationBadgeProps {
+  severity: AnnotationSeverity;
+  count: number;
+}
+
+export interface AnnotationMarkerProps {
+  severity: AnnotationSeverity;
+  title?: string;
+}
+
+const BADGE_STYLES: Record<AnnotationSeverity, string> = {
+  high: 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-300',
+  medium: 'bg-yellow-100 dark:bg-yellow-900/40 text-yellow-800 dark:text-yellow-300',
+  low: 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300',
+  info: 'bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-300',
+};
+
+const MARKER_STYLES: Record<AnnotationSeverity, string> = {
+  high: 'text-red-500',
+  medium: 'text-yellow-500',
+  low: 'text-green-500',
+  info: 'text-blue-500',
+};
+
+export function AnnotationBadge({ severity, count }: AnnotationBadgeProps) {
+  return (
+    <span
+      className={`px-1 text-[10px] font-semibold rounded ${BADGE_STYLES[severity]}`}
+      title={`${count} annotation${count === 1 ? '' : 's'} (highest: ${severity})`}
+    >
+      {count}
+    </span>
+  );
+}
+
+export function AnnotationMarker({ severity, title }: AnnotationMarkerProps) {
+  return (
+    <span className={MARKER_STYLES[severity]} title={title ?? severity}>
+      ●
+    </span>
+  );
+}
@@ -0,0 +1,92 @@
+/**
+ * Export and import buttons for review annotations
+ *
+ * Exports the annotations of the open extension version as JSON and merges
+ * annotations from an exported file or an API annotation response.
+ */
+
+import { useRef, useState } from 'react';
+import { useAnnotationStore } from '@/store/annotationStore';
+import { downloadFile } from '@/lib/utils/download-helper';
+
+export function AnnotationControls() {
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const extensionId = useAnnotationStore((state) => state.extensionId);
+  const version = useAnnotationStore((state) => state.version);
+  const count = useAnnotationStore((state) => state.annotations.length);
+  const exportJson = useAnnotationStore((state) => state.exportJson);
+  const importJson = useAnnotationStore((state) => state.importJson);
+
+  if (!extensionId) {
+    return null;
+  }
+
+  const handleExport = () => {
+    const json = exportJson();
+    if (!json) {
+      return;
+    }
+
+    try {
+      downloadFile(json, `${extensionId}${version ? `-${version}` : ''}-annotations.json`, 'application/json');
+      setMessage(null);
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : String(err), isError: true });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    const result = await importJson(await file.text());
+    setMessage(
+      result.success
+        ? { text: `Imported ${result.imported} annotation${result.imported === 1 ? '' : 's'}`, isError: false }
+        : { text: result.error, isError: true }
+    );
+  };
+
+  return (
+    <div className="mt-1 flex items-center gap-2 min-w-0 text-xs">
+      <span className="text-gray-600 dark:text-gray-400" title="Review annotations">
+        Notes: {count}
+      </span>
+      <button
+        onClick={handleExport}
+        disabled={count === 0}
+        className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 font-medium disabled:opacity-50"
+        title="Export annotations as JSON"
+      >
+        Export
+      </button>
+      <button
+        onClick={() => inputRef.current?.click()}
+        className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 font-medium"
+        title="Import annotations from JSON"
+      >
+        Import
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleImport}
+        className="hidden"
+      />
+      {message && (
+        <span
+          className={`truncate ${message.isError ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}
+          title={message.text}
+        >
+          {message.text}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * Annotation panel for a file or one of its lines
+ *
+ * Lists the review annotations on the target and offers a form to add one
+ * with a severity and a note. Existing annotations can change severity or be
+ * deleted. Changes go through the annotation store, which saves them locally.
+ */
+
+import { useState } from 'react';
+import { useAnnotationStore } from '@/store/annotationStore';
+import { ANNOTATION_SEVERITIES } from '@/lib/annotations/annotations';
+import type { Annotation, AnnotationSeverity } from '@/lib/annotations/annotations';
+import { AnnotationMarker } from './AnnotationBadge';
+
+export interface AnnotationPanelProps {
+  filePath: string;
+  /** 1-based line, or null for file-level annotations */
+  line: number | null;
+  /** Annotations on this target */
+  annotations: Annotation[];
+  onClose: () => void;
+}
+
+export function AnnotationPanel({ filePath, line, annotations, onClose }: AnnotationPanelProps) {
+  const [severity, setSeverity] = useState<AnnotationSeverity>('medium');
+  const [note, setNote] = useState('');
+
+  const addAnnotation = useAnnotationStore((state) => state.addAnnotation);
+  const editAnnotation = useAnnotationStore((state) => state.editAnnotation);
+  const removeAnnotation = useAnnotationStore((state) => state.removeAnnotation);
+  const error = useAnnotationStore((state) => state.error);
+
+  const handleAdd = async () => {
+    if (!note.trim()) {
+      return;
+    }
+    await addAnnotation({ filePath, line, severity, note });
+    setNote('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleAdd();
+    }
+  };
+
+  return (
+    <div className="border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 px-4 py-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+          {line === null ? 'File annotations' : `Annotations on line ${line}`}
+        </h3>
+        <button
+          onClick={onClose}
+          className="text-xs text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+          title="Close annotations"
+        >
+          Close
+        </button>
+      </div>
+
+      {annotations.length > 0 && (
+        <ul className="space-y-2">
+          {annotations.map((annotation) => (
+            <li
+              key={annotation.id}
+              className="flex items-start gap-2 text-sm bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded px-2 py-1.5"
+            >
+              <AnnotationMarker severity={annotation.severity} />
+              <select
+                value={annotation.severity}
+                onChange={(e) => editAnnotation(annotation.id, { severity: e.target.value as AnnotationSeverity })}
+                className="px-1 py-0.5 rounded text-xs font-semibold uppercase border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                aria-label="Severity"
+              >
+                {ANNOTATION_SEVERITIES.map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+              <div className="flex-1 min-w-0">
+                <p className="whitespace-pre-wrap break-words text-gray-900 dark:text-gray-100">{annotation.note}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {annotation.author ? `${annotation.author} · ` : ''}
+                  {new Date(annotation.updatedAt).toLocaleString()}
+                </p>
+              </div>
+              <button
+                onClick={() => removeAnnotation(annotation.id)}
+                className="text-xs text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300"
+                title="Delete annotation"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-start gap-2">
+        <select
+          value={severity}
+          onChange={(e) => setSeverity(e.target.value as AnnotationSeverity)}
+          className="px-2 py-1.5 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          aria-label="New annotation severity"
+        >
+          {ANNOTATION_SEVERITIES.map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={2}
+          placeholder={line === null ? 'Note about this file' : `Note about line ${line}`}
+          className="flex-1 px-2 py-1.5 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 resize-y"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!note.trim()}
+          className="px-3 py-1.5 text-sm font-medium rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          title="Add annotation (Ctrl+Enter)"
+        >
+          Add
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,410 @@
+/**
+ * Architecture graph panel
+ *
+ * Draws the loaded extension's execution contexts in the first column and
+ * the scripts they load in the columns to the right, with include and
+ * import edges between them and message passing arcs between contexts.
+ * Clicking an edge opens its call site in the code viewer, or lists the
+ * call sites when there are several; clicking a node opens its file.
+ */
+
+import { useMemo, useState } from 'react';
+import { AlertTriangle, ZoomIn, ZoomOut } from 'lucide-react';
+import { useManifestView } from '@/hooks/useManifestView';
+import { useArchitectureGraph } from '@/hooks/useArchitectureGraph';
+import { layoutLayers } from '@/lib/architecture/layout';
+import type { CallSite, ContextKind, GraphEdge, GraphEdgeKind, GraphNode } from '@/lib/architecture/graph';
+
+export interface ArchitecturePanelProps {
+  onSelectFile: (path: string, line?: number) => void;
+}
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 36;
+const COLUMN_GAP = 80;
+const ROW_GAP = 14;
+const PADDING = 16;
+const MAX_LABEL_CHARS = 26;
+const ZOOM_STEPS = [0.5, 0.75, 1, 1.25, 1.5];
+
+const EDGE_STYLES: Record<GraphEdgeKind, { label: string; stroke: string; arrow: string; swatch: string }> = {
+  include: {
+    label: 'Script include',
+    stroke: 'stroke-gray-400 dark:stroke-gray-500',
+    arrow: 'fill-gray-400 dark:fill-gray-500',
+    swatch: 'bg-gray-400',
+  },
+  import: {
+    label: 'Import',
+    stroke: 'stroke-blue-500 dark:stroke-blue-400',
+    arrow: 'fill-blue-500 dark:fill-blue-400',
+    swatch: 'bg-blue-500',
+  },
+  message: {
+    label: 'Message',
+    stroke: 'stroke-purple-500 dark:stroke-purple-400',
+    arrow: 'fill-purple-500 dark:fill-purple-400',
+    swatch: 'bg-purple-500',
+  },
+  connect: {
+    label: 'Port',
+    stroke: 'stroke-amber-500 dark:stroke-amber-400',
+    arrow: 'fill-amber-500 dark:fill-amber-400',
+    swatch: 'bg-amber-500',
+  },
+};
+
+const CONTEXT_STYLES: Record<ContextKind, string> = {
+  background: 'fill-blue-50 stroke-blue-400 dark:fill-blue-950 dark:stroke-blue-500',
+  content_script: 'fill-green-50 stroke-green-500 dark:fill-green-950 dark:stroke-green-500',
+  popup: 'fill-purple-50 stroke-purple-400 dark:fill-purple-950 dark:stroke-purple-500',
+  options: 'fill-indigo-50 stroke-indigo-400 dark:fill-indigo-950 dark:stroke-indigo-500',
+  page: 'fill-cyan-50 stroke-cyan-500 dark:fill-cyan-950 dark:stroke-cyan-500',
+  offscreen: 'fill-slate-100 stroke-slate-400 dark:fill-slate-800 dark:stroke-slate-500',
+  sandbox: 'fill-gray-100 stroke-gray-400 dark:fill-gray-800 dark:stroke-gray-500',
+  web_accessible: 'fill-orange-50 stroke-orange-400 dark:fill-orange-950 dark:stroke-orange-500',
+};
+
+function truncatePath(path: string): string {
+  return path.length <= MAX_LABEL_CHARS ? path : `…${path.slice(path.length - MAX_LABEL_CHARS + 1)}`;
+}
+
+function formatSite(site: CallSite): string {
+  return site.line ? `${site.path}:${site.line}` : site.path;
+}
+
+export function ArchitecturePanel({ onSelectFile }: ArchitecturePanelProps) {
+  const { view, isLoading: isLoadingManifest, error: manifestError } = useManifestView();
+  const { graph, isLoading, error } = useArchitectureGraph(view);
+  const [hiddenKinds, setHiddenKinds] = useState<Set<GraphEdgeKind>>(new Set());
+  const [zoomIndex, setZoomIndex] = useState(ZOOM_STEPS.indexOf(1));
+  const [hoveredNode, setHoveredNode] = useState<string | null>(null);
+  const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null);
+
+  const contextIds = useMemo(
+    () => (graph ? graph.nodes.filter((node) => node.type === 'context').map((node) => node.id) : []),
+    [graph]
+  );
+
+  const layout = useMemo(() => {
+    if (!graph) return null;
+    return layoutLayers(
+      graph.nodes.map((node) => node.id),
+      contextIds,
+      graph.edges.filter((edge) => edge.kind === 'include' || edge.kind === 'import'),
+      {
+        nodeWidth: NODE_WIDTH,
+        nodeHeight: NODE_HEIGHT,
+        columnGap: COLUMN_GAP,
+        rowGap: ROW_GAP,
+        // Message arcs loop out to the left of the context column
+        marginLeft: Math.min(240, 40 + contextIds.length * 14),
+      }
+    );
+  }, [graph, contextIds]);
+
+  if (isLoading || isLoadingManifest) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500" />
+      </div>
+    );
+  }
+
+  if (error || manifestError || !graph || !layout) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-6">
+        <div className="text-center">
+          <p className="text-red-600 dark:text-red-400 font-semibold mb-2">Cannot build architecture graph</p>
+          <p className="text-gray-600 dark:text-gray-400 text-sm">{error ?? manifestError ?? 'manifest.json not found'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const zoom = ZOOM_STEPS[zoomIndex];
+  const nodesById = new Map(graph.nodes.map((node) => [node.id, node]));
+  const visibleEdges = graph.edges.filter((edge) => !hiddenKinds.has(edge.kind));
+  const selectedEdge = graph.edges.find((edge) => edge.id === selectedEdgeId) ?? null;
+  const messagingCount = graph.edges.filter((edge) => edge.kind === 'message' || edge.kind === 'connect').length;
+  const fileCount = graph.nodes.length - contextIds.length;
+
+  const toggleKind = (kind: GraphEdgeKind) => {
+    setHiddenKinds((previous) => {
+      const next = new Set(previous);
+      if (next.has(kind)) {
+        next.delete(kind);
+      } else {
+        next.add(kind);
+      }
+      return next;
+    });
+  };
+
+  const handleEdgeClick = (edge: GraphEdge) => {
+    if (edge.sites.length === 1 && edge.listeners.length === 0) {
+      onSelectFile(edge.sites[0].path, edge.sites[0].line);
+    } else {
+      setSelectedEdgeId(edge.id === selectedEdgeId ? null : edge.id);
+    }
+  };
+
+  const handleNodeClick = (node: GraphNode) => {
+    if (node.path && !node.missing) {
+      onSelectFile(node.path);
+    }
+  };
+
+  const edgePath = (edge: GraphEdge): string | null => {
+    const from = layout.positions.get(edge.from);
+    const to = layout.positions.get(edge.to);
+    if (!from || !to) return null;
+
+    if (edge.kind === 'message' || edge.kind === 'connect') {
+      // Arc to the left of the context column; direction and kind shift it so
+      // opposite and parallel edges stay apart
+      const y1 = from.y + NODE_HEIGHT * 0.35;
+      const y2 = to.y + NODE_HEIGHT * 0.65;
+      const offset = 24 + Math.abs(to.row - from.row) * 12 + (edge.kind === 'connect' ? 8 : 0);
+      return `M ${from.x} ${y1} C ${from.x - offset} ${y1}, ${to.x - offset} ${y2}, ${to.x} ${y2}`;
+    }
+
+    const x1 = from.x + NODE_WIDTH;
+    const y1 = from.y + NODE_HEIGHT / 2;
+    const x2 = to.x;
+    const y2 = to.y + NODE_HEIGHT / 2;
+    const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+    return `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+  };
+
+  const edgeTitle = (edge: GraphEdge): string => {
+    const lines = [
+      `${EDGE_STYLES[edge.kind].label}: ${nodesById.get(edge.from)?.label} → ${nodesById.get(edge.to)?.label}`,
+      ...edge.sites.slice(0, 10).map(formatSite),
+    ];
+    if (edge.sites.length > 10) lines.push(`…and ${edge.sites.length - 10} more`);
+    if (edge.listeners.length > 0) lines.push(`Listeners: ${edge.listeners.slice(0, 5).map(formatSite).join(', ')}`);
+    return lines.join('\n');
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 bg-white dark:bg-gray-900">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-3 px-4 py-2 border-b border-gray-200 dark:border-gray-700">
+        <span className="text-sm text-gray-600 dark:text-gray-400">
+          {contextIds.length} context{contextIds.length === 1 ? '' : 's'} · {fileCount} script{fileCount === 1 ? '' : 's'} ·{' '}
+          {messagingCount} messaging link{messagingCount === 1 ? '' : 's'}
+        </span>
+        <div className="flex flex-wrap items-center gap-2">
+          {(Object.keys(EDGE_STYLES) as GraphEdgeKind[]).map((kind) => (
+            <button
+              key={kind}
+              onClick={() => toggleKind(kind)}
+              className={`flex items-center gap-1.5 px-2 py-0.5 text-xs rounded border border-gray-300 dark:border-gray-600 ${
+                hiddenKinds.has(kind)
+                  ? 'text-gray-400 dark:text-gray-500 line-through'
+                  : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+              }`}
+              title={hiddenKinds.has(kind) ? 'Show' : 'Hide'}
+            >
+              <span className={`inline-block w-3 h-0.5 ${EDGE_STYLES[kind].swatch}`} />
+              {EDGE_STYLES[kind].label}
+            </button>
+          ))}
+        </div>
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            onClick={() => setZoomIndex((index) => Math.max(0, index - 1))}
+            disabled={zoomIndex === 0}
+            className="p-1 rounded text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-40"
+            title="Zoom out"
+          >
+            <ZoomOut className="w-4 h-4" />
+          </button>
+          <span className="w-10 text-center text-xs text-gray-500 dark:text-gray-400">{Math.round(zoom * 100)}%</span>
+          <button
+            onClick={() => setZoomIndex((index) => Math.min(ZOOM_STEPS.length - 1, index + 1))}
+            disabled={zoomIndex === ZOOM_STEPS.length - 1}
+            className="p-1 rounded text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-40"
+            title="Zoom in"
+          >
+            <ZoomIn className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Graph */}
+      <div className="flex-1 overflow-auto min-h-0">
+        {contextIds.length === 0 ? (
+          <p className="p-6 text-sm text-gray-600 dark:text-gray-400">The manifest declares no pages or scripts</p>
+        ) : (
+          <svg
+            width={(layout.width + PADDING * 2) * zoom}
+            height={(layout.height + PADDING * 2) * zoom}
+            viewBox={`${-PADDING} ${-PADDING} ${layout.width + PADDING * 2} ${layout.height + PADDING * 2}`}
+            className="select-none"
+          >
+            <defs>
+              {(Object.keys(EDGE_STYLES) as GraphEdgeKind[]).map((kind) => (
+                <marker
+                  key={kind}
+                  id={`arch-arrow-${kind}`}
+                  viewBox="0 0 10 10"
+                  refX="9"
+                  refY="5"
+                  markerWidth="6"
+                  markerHeight="6"
+                  orient="auto-start-reverse"
+                >
+                  <path d="M 0 0 L 10 5 L 0 10 z" className={EDGE_STYLES[kind].arrow} />
+                </marker>
+              ))}
+            </defs>
+
+            {visibleEdges.map((edge) => {
+              const d = edgePath(edge);
+              if (!d) return null;
+              const isActive = edge.id === selectedEdgeId || (hoveredNode !== null && (edge.from === hoveredNode || edge.to === hoveredNode));
+              const isDimmed = hoveredNode !== null && !isActive;
+              return (
+                <g key={edge.id} onClick={() => handleEdgeClick(edge)} className="cursor-pointer">
+                  <title>{edgeTitle(edge)}</title>
+                  <path d={d} fill="none" stroke="transparent" strokeWidth={10} />
+                  <path
+                    d={d}
+                    fill="none"
+                    strokeWidth={isActive ? 2.5 : 1.5}
+                    strokeDasharray={edge.kind === 'connect' ? '6 3' : undefined}
+                    markerEnd={`url(#arch-arrow-${edge.kind})`}
+                    opacity={isDimmed ? 0.2 : 1}
+                    className={EDGE_STYLES[edge.kind].stroke}
+                  />
+                </g>
+              );
+            })}
+
+            {graph.nodes.map((node) => {
+              const position = layout.positions.get(node.id);
+              if (!position) return null;
+              const isContext = node.type === 'context';
+              const clickable = Boolean(node.path) && !node.missing;
+              return (
+                <g
+                  key={node.id}
+                  transform={`translate(${position.x} ${position.y})`}
+                  onMouseEnter={() => setHoveredNode(node.id)}
+                  onMouseLeave={() => setHoveredNode(null)}
+                  onClick={() => handleNodeClick(node)}
+                  className={clickable ? 'cursor-pointer' : undefined}
+                >
+                  <title>
+                    {node.path ? `${node.label}\n${node.path}${node.missing ? ' (not in package)' : ''}` : node.label}
+                  </title>
+                  <rect
+                    width={NODE_WIDTH}
+                    height={NODE_HEIGHT}
+                    rx={6}
+                    strokeWidth={hoveredNode === node.id ? 2 : 1}
+                    strokeDasharray={node.missing ? '4 3' : undefined}
+                    className={
+                      node.missing
+                        ? 'fill-red-50 stroke-red-500 dark:fill-red-950 dark:stroke-red-500'
+                        : isContext && node.kind
+                          ? CONTEXT_STYLES[node.kind]
+                          : 'fill-white stroke-gray-300 dark:fill-gray-800 dark:stroke-gray-600'
+                    }
+                  />
+                  {isContext ? (
+                    <>
+                      <text x={10} y={15} className="text-xs font-semibold fill-gray-900 dark:fill-gray-100">
+                        {node.label}
+                      </text>
+                      <text x={10} y={29} className="text-[10px] font-mono fill-gray-500 dark:fill-gray-400">
+                        {node.path ? truncatePath(node.path) : 'declared in manifest.json'}
+                      </text>
+                    </>
+                  ) : (
+                    <text
+                      x={10}
+                      y={NODE_HEIGHT / 2 + 4}
+                      className={`text-xs font-mono ${node.missing ? 'fill-red-700 dark:fill-red-300 line-through' : 'fill-gray-800 dark:fill-gray-200'}`}
+                    >
+                      {truncatePath(node.label)}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </svg>
+        )}
+      </div>
+
+      {/* Details */}
+      {(selectedEdge || graph.unhandledCalls.length > 0 || graph.omittedFiles > 0) && (
+        <div className="max-h-56 overflow-auto border-t border-gray-200 dark:border-gray-700 px-4 py-3 space-y-3 text-sm">
+          {selectedEdge && (
+            <div>
+              <h3 className="font-semibold text-gray-900 dark:text-gray-100 mb-1">
+                {EDGE_STYLES[selectedEdge.kind].label}: {nodesById.get(selectedEdge.from)?.label} →{' '}
+                {nodesById.get(selectedEdge.to)?.label}
+              </h3>
+              <SiteList title="Call sites" sites={selectedEdge.sites} onSelectFile={onSelectFile} />
+              {selectedEdge.listeners.length > 0 && (
+                <SiteList title="Listeners" sites={selectedEdge.listeners} onSelectFile={onSelectFile} />
+              )}
+            </div>
+          )}
+          {graph.unhandledCalls.length > 0 && (
+            <div>
+              <p className="flex items-center gap-1.5 text-amber-700 dark:text-amber-400">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                {graph.unhandledCalls.length} send{graph.unhandledCalls.length === 1 ? '' : 's'} with no listening context
+              </p>
+              <SiteList
+                sites={graph.unhandledCalls}
+                labels={graph.unhandledCalls.map((call) => call.api)}
+                onSelectFile={onSelectFile}
+              />
+            </div>
+          )}
+          {graph.omittedFiles > 0 && (
+            <p className="text-gray-600 dark:text-gray-400">
+              {graph.omittedFiles} more script{graph.omittedFiles === 1 ? '' : 's'} not shown; the graph keeps the files nearest to each context
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SiteList({
+  title,
+  sites,
+  labels,
+  onSelectFile,
+}: {
+  title?: string;
+  sites: CallSite[];
+  labels?: string[];
+  onSelectFile: (path: string, line?: number) => void;
+}) {
+  return (
+    <div className="mt-1">
+      {title && <p className="text-xs text-gray-500 dark:text-gray-400">{title}</p>}
+      <ul className="space-y-0.5">
+        {sites.map((site, index) => (
+          <li key={`${formatSite(site)}-${index}`}>
+            <button
+              onClick={() => onSelectFile(site.path, site.line)}
+              className="font-mono text-xs text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {formatSite(site)}
+            </button>
+            {labels?.[index] && <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{labels[index]}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
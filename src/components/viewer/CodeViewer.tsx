@@ -2,7 +2,13 @@
  * Code viewer component with syntax highlighting and beautification
  *
  * Displays code content with Prism.js syntax highlighting, beautification support,
- * and integrated toolbar. Handles errors and loading states gracefully.
+ * line numbers and integrated toolbar. Handles errors and loading states gracefully.
+ * When highlightLine is set, the line is marked and scrolled into view.
+ * For bundled files with a source map, the Original toggle maps a clicked
+ * line number to its original file and line. For scripts, the Deobfuscate
+ * toggle shows the original side by side with a deobfuscated copy.
+ * WebAssembly modules open in the WASM inspector instead, and other binary
+ * files in the hex viewer; images can switch from the preview to hex too.
  *
  * Performance optimizations:
  * - Lazy loads Prism.js language components
@@ -10,14 +16,23 @@
  * - Debounces rapid updates
  */
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { SourceToolbar } from './SourceToolbar';
 import { ImagePreview } from './ImagePreview';
-import { detectLanguageFromPath, getPrismLanguage, isImageFile, isTextFile } from '@/lib/code/language-detector';
+import { WasmViewer } from './WasmViewer';
+import { HexViewer } from './HexViewer';
+import { AnnotationPanel } from './AnnotationPanel';
+import { AnnotationMarker } from './AnnotationBadge';
+import { DeobfuscationView } from './DeobfuscationView';
+import { detectLanguageFromPath, getPrismLanguage, isImageFile, isTextFile, isWasmFile } from '@/lib/code/language-detector';
 import { highlightCode } from '@/lib/code/highlighter';
 import { beautifyCode, canBeautify } from '@/lib/code/beautifier';
+import { canDeobfuscate } from '@/lib/code/deobfuscator';
 import { copyToClipboard } from '@/lib/utils/download-helper';
 import { loadPrismLanguage } from '@/lib/code/prism-loader';
+import type { OriginalLocation } from '@/lib/sourcemap/original-sources';
+import { getHighestSeverity } from '@/lib/annotations/annotations';
+import type { Annotation } from '@/lib/annotations/annotations';
 import 'prismjs/themes/prism-tomorrow.css';
 
 interface CodeViewerProps {
@@ -25,6 +40,14 @@ interface CodeViewerProps {
   filePath: string;
   fileData: Uint8Array;
   isLoading?: boolean;
+  /** 1-based line to mark and scroll into view */
+  highlightLine?: number | null;
+  /** Maps a 1-based line to its original source; set when the file has a source map */
+  mapToOriginal?: (line: number) => OriginalLocation | null;
+  /** Opens an original source at a 1-based line */
+  onOpenOriginal?: (path: string, line: number) => void;
+  /** Review annotations on this file; annotating is enabled when set */
+  annotations?: Annotation[];
 }
 
 export function CodeViewer({
@@ -32,14 +55,28 @@ export function CodeViewer({
   filePath,
   fileData,
   isLoading = false,
+  highlightLine = null,
+  mapToOriginal,
+  onOpenOriginal,
+  annotations,
 }: CodeViewerProps) {
   const [isBeautified, setIsBeautified] = useState(false);
+  const [isShowingOriginal, setIsShowingOriginal] = useState(false);
+  const [isDeobfuscating, setIsDeobfuscating] = useState(false);
+  const [isShowingHex, setIsShowingHex] = useState(false);
+  const [mappedLine, setMappedLine] = useState<number | null>(null);
+  // undefined: panel closed, null: file-level annotations, number: annotations on a line
+  const [annotationTarget, setAnnotationTarget] = useState<number | null | undefined>(undefined);
   const [displayContent, setDisplayContent] = useState<string>('');
   const [highlightedHtml, setHighlightedHtml] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const codeRef = useRef<HTMLPreElement>(null);
+  const markerRef = useRef<HTMLDivElement>(null);
 
   // Detect file type and language
   const isImage = isImageFile(filePath);
+  const isWasm = isWasmFile(filePath);
   const isText = isTextFile(filePath);
   const language = detectLanguageFromPath(filePath);
   const prismLanguage = getPrismLanguage(language);
@@ -82,6 +119,11 @@ export function CodeViewer({
     }
   }, [decodedContent, prismLanguage, isImage, isText]);
 
+  // Images open as a preview again when another file is selected
+  useEffect(() => {
+    setIsShowingHex(false);
+  }, [filePath]);
+
   // Sync displayed content with file changes
   // eslint-disable-next-line react-hooks/rules-of-hooks
   useEffect(() => {
@@ -92,9 +134,9 @@ export function CodeViewer({
       return; // Image preview handles its own rendering
     }
 
-    // Handle non-text files
-    if (!isText) {
-      setError(`Cannot display binary file: ${fileName}`);
+    // Handle non-text files; WASM modules have their own viewer, the rest a hex dump
+    if (isWasm || !isText) {
+      setError(null);
       setIsBeautified(false);
       return;
     }
@@ -109,9 +151,124 @@ export function CodeViewer({
 
     setError(null);
     setIsBeautified(false);
+    setIsDeobfuscating(false);
+    setMappedLine(null);
+    setAnnotationTarget(undefined);
     setDisplayContent(content);
     setHighlightedHtml(html);
-  }, [content, html, isImage, isText, decodedContent, fileName]);
+  }, [content, html, isImage, isWasm, isText, decodedContent]);
+
+  const lineNumbers = useMemo(() => {
+    const count = highlightedHtml ? highlightedHtml.split('\n').length : 0;
+    return Array.from({ length: count }, (_, index) => index + 1).join('\n');
+  }, [highlightedHtml]);
+
+  // Gutter markers follow the line numbers, with the highest severity on each line
+  const annotationGutter = useMemo(() => {
+    if (!annotations || isBeautified) {
+      return null;
+    }
+
+    const byLine = new Map<number, Annotation[]>();
+    for (const annotation of annotations) {
+      if (annotation.line !== null) {
+        byLine.set(annotation.line, [...(byLine.get(annotation.line) ?? []), annotation]);
+      }
+    }
+
+    const count = highlightedHtml ? highlightedHtml.split('\n').length : 0;
+    const rows: React.ReactNode[] = [];
+    for (let line = 1; line <= count; line++) {
+      const lineAnnotations = byLine.get(line);
+      const severity = lineAnnotations ? getHighestSeverity(lineAnnotations) : null;
+      rows.push(
+        severity ? (
+          <AnnotationMarker
+            key={line}
+            severity={severity}
+            title={`Line ${line}: ${lineAnnotations?.length === 1 ? lineAnnotations[0].note : `${lineAnnotations?.length} annotations`}`}
+          />
+        ) : (
+          ' '
+        ),
+        line < count ? '\n' : ''
+      );
+    }
+    return rows;
+  }, [annotations, isBeautified, highlightedHtml]);
+
+  const canMapToOriginal = Boolean(mapToOriginal) && isShowingOriginal;
+  const markedLine = canMapToOriginal && mappedLine ? mappedLine : highlightLine;
+
+  const originalLocation = useMemo(
+    () => (canMapToOriginal && mappedLine && !isBeautified && mapToOriginal ? mapToOriginal(mappedLine) : null),
+    [canMapToOriginal, mappedLine, isBeautified, mapToOriginal]
+  );
+
+  // Mark and reveal the requested line; beautified output no longer lines up with it
+  useEffect(() => {
+    const container = scrollRef.current;
+    const code = codeRef.current;
+    const marker = markerRef.current;
+    if (!container || !code || !marker) {
+      return;
+    }
+
+    if (!markedLine || isBeautified) {
+      marker.style.display = 'none';
+      return;
+    }
+
+    const { lineHeight, paddingTop } = getLineMetrics(code);
+    const top = paddingTop + (markedLine - 1) * lineHeight;
+
+    marker.style.display = 'block';
+    marker.style.top = `${top}px`;
+    marker.style.height = `${lineHeight}px`;
+
+    // Only scroll when the line is off screen so clicking a line number keeps the view still
+    if (top < container.scrollTop || top + lineHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTop = Math.max(0, top - container.clientHeight / 3);
+    }
+  }, [markedLine, highlightedHtml, isBeautified]);
+
+  const handleOriginalToggle = () => {
+    setIsShowingOriginal(!isShowingOriginal);
+    setMappedLine(isShowingOriginal ? null : highlightLine);
+  };
+
+  // Gutter columns share the code's line height, so the click offset gives the line
+  const getClickedLine = (event: React.MouseEvent<HTMLPreElement>): number | null => {
+    const code = codeRef.current;
+    if (!code) {
+      return null;
+    }
+
+    const { lineHeight, paddingTop } = getLineMetrics(code);
+    const offset = event.clientY - event.currentTarget.getBoundingClientRect().top - paddingTop;
+    const line = Math.floor(offset / lineHeight) + 1;
+    const lineCount = highlightedHtml.split('\n').length;
+
+    return line >= 1 && line <= lineCount ? line : null;
+  };
+
+  const handleLineNumberClick = (event: React.MouseEvent<HTMLPreElement>) => {
+    const line = canMapToOriginal ? getClickedLine(event) : null;
+    if (line) {
+      setMappedLine(line);
+    }
+  };
+
+  const handleAnnotationGutterClick = (event: React.MouseEvent<HTMLPreElement>) => {
+    const line = getClickedLine(event);
+    if (line) {
+      setAnnotationTarget(line);
+    }
+  };
+
+  const handleAnnotateToggle = () => {
+    setAnnotationTarget(annotationTarget === null ? undefined : null);
+  };
 
   // Handle beautification
   const handleBeautifyToggle = () => {
@@ -157,9 +314,23 @@ export function CodeViewer({
     );
   }
 
-  // Render image preview
+  // Render image preview, or its bytes on request
   if (isImage) {
-    return <ImagePreview data={fileData} fileName={fileName} filePath={filePath} />;
+    return isShowingHex ? (
+      <HexViewer key={filePath} data={fileData} fileName={fileName} filePath={filePath} onClose={() => setIsShowingHex(false)} />
+    ) : (
+      <ImagePreview data={fileData} fileName={fileName} filePath={filePath} onViewHex={() => setIsShowingHex(true)} />
+    );
+  }
+
+  // Render WebAssembly inspector
+  if (isWasm) {
+    return <WasmViewer data={fileData} fileName={fileName} filePath={filePath} />;
+  }
+
+  // Render hex dump for other binary files
+  if (!isText) {
+    return <HexViewer key={filePath} data={fileData} fileName={fileName} filePath={filePath} />;
   }
 
   // Render error state
@@ -187,15 +358,85 @@ export function CodeViewer({
         isBeautified={isBeautified}
         onBeautifyToggle={handleBeautifyToggle}
         onCopyContent={handleCopyContent}
+        onOriginalToggle={mapToOriginal ? handleOriginalToggle : undefined}
+        isShowingOriginal={canMapToOriginal}
+        onDeobfuscateToggle={canDeobfuscate(prismLanguage) ? () => setIsDeobfuscating(!isDeobfuscating) : undefined}
+        isDeobfuscating={isDeobfuscating}
+        onAnnotate={annotations ? handleAnnotateToggle : undefined}
+        annotationCount={annotations?.length}
       />
 
-      <div className="flex-1 overflow-auto">
-        <pre className="m-0 p-4 bg-white dark:bg-gray-900 text-sm leading-relaxed language-highlight">
-          <code
-            dangerouslySetInnerHTML={{ __html: highlightedHtml }}
-            className={`language-${prismLanguage}`}
+      {annotations && annotationTarget !== undefined && (
+        <AnnotationPanel
+          filePath={filePath}
+          line={annotationTarget}
+          annotations={annotations.filter((annotation) => annotation.line === annotationTarget)}
+          onClose={() => setAnnotationTarget(undefined)}
+        />
+      )}
+
+      {canMapToOriginal && !isDeobfuscating && (
+        <div className="flex items-center gap-2 px-4 py-2 text-xs border-b border-purple-200 dark:border-purple-900 bg-purple-50 dark:bg-purple-950/40 text-purple-900 dark:text-purple-200">
+          {isBeautified ? (
+            <span>Turn off beautification to map lines to their original source</span>
+          ) : !mappedLine ? (
+            <span>Click a line number to find its original source</span>
+          ) : !originalLocation ? (
+            <span>Line {mappedLine} has no source mapping</span>
+          ) : originalLocation.path && onOpenOriginal ? (
+            <>
+              <span>Line {mappedLine} maps to</span>
+              <button
+                onClick={() => originalLocation.path && onOpenOriginal(originalLocation.path, originalLocation.line)}
+                className="font-mono text-purple-700 dark:text-purple-300 underline hover:text-purple-900 dark:hover:text-purple-100"
+                title="Open original source"
+              >
+                {originalLocation.source}:{originalLocation.line}
+              </button>
+            </>
+          ) : (
+            <span>
+              Line {mappedLine} maps to <span className="font-mono">{originalLocation.source}:{originalLocation.line}</span>{' '}
+              (source content not included in the map)
+            </span>
+          )}
+        </div>
+      )}
+
+      {isDeobfuscating && <DeobfuscationView content={displayContent} language={prismLanguage} />}
+
+      <div ref={scrollRef} className={`flex-1 overflow-auto ${isDeobfuscating ? 'hidden' : ''}`}>
+        <div className="relative flex min-w-max">
+          <div
+            ref={markerRef}
+            className="absolute inset-x-0 hidden bg-yellow-200/40 dark:bg-yellow-500/20 pointer-events-none"
           />
-        </pre>
+          {annotationGutter && (
+            <pre
+              onClick={handleAnnotationGutterClick}
+              className="m-0 py-4 pl-2 text-sm leading-relaxed select-none cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800"
+              title="Click to annotate a line"
+            >
+              {annotationGutter}
+            </pre>
+          )}
+          <pre
+            aria-hidden="true"
+            onClick={handleLineNumberClick}
+            className={`m-0 py-4 pl-4 pr-3 text-right text-sm leading-relaxed text-gray-400 dark:text-gray-500 select-none border-r border-gray-200 dark:border-gray-700 ${canMapToOriginal ? 'cursor-pointer hover:text-purple-600 dark:hover:text-purple-400' : ''}`}
+          >
+            {lineNumbers}
+          </pre>
+          <pre
+            ref={codeRef}
+            className="m-0 p-4 flex-1 bg-transparent text-sm leading-relaxed language-highlight"
+          >
+            <code
+              dangerouslySetInnerHTML={{ __html: highlightedHtml }}
+              className={`language-${prismLanguage}`}
+            />
+          </pre>
+        </div>
       </div>
 
       {!canBeautifyFile && (
@@ -206,3 +447,14 @@ export function CodeViewer({
     </div>
   );
 }
+
+/**
+ * Read the line height and top padding of the rendered code block
+ */
+function getLineMetrics(code: HTMLElement): { lineHeight: number; paddingTop: number } {
+  const style = window.getComputedStyle(code);
+  return {
+    lineHeight: parseFloat(style.lineHeight) || parseFloat(style.fontSize) * 1.625,
+    paddingTop: parseFloat(style.paddingTop),
+  };
+}
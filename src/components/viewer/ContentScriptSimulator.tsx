@@ -0,0 +1,167 @@
+/**
+ * Content script URL simulator
+ *
+ * Takes a page URL and shows which content scripts and stylesheets the
+ * extension would inject there, in injection order with their run_at and
+ * world, why each content_scripts entry is or isn't injected, and which
+ * host permissions cover the URL.
+ */
+
+import { useMemo, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { simulateInjection } from '@/lib/manifest/content-script-simulator';
+import type { InjectionTarget } from '@/lib/manifest/content-script-simulator';
+import type { ManifestContentScript } from '@/lib/manifest/manifest-view';
+
+export interface ContentScriptSimulatorProps {
+  scripts: ManifestContentScript[];
+  manifest: Record<string, unknown>;
+  onSelectFile: (path: string) => void;
+}
+
+const RUN_AT_LABELS: Record<string, string> = {
+  document_start: 'start',
+  document_end: 'end',
+  document_idle: 'idle',
+};
+
+export function ContentScriptSimulator({ scripts, manifest, onSelectFile }: ContentScriptSimulatorProps) {
+  const [url, setUrl] = useState('');
+  const [frame, setFrame] = useState<InjectionTarget['frame']>('top');
+  const [creatorUrl, setCreatorUrl] = useState('');
+
+  // Only about:, data:, blob: and filesystem: frames are matched through their creator
+  const needsCreator = /^\s*(about|data|blob|filesystem):/i.test(url);
+
+  const result = useMemo(
+    () =>
+      url.trim()
+        ? simulateInjection(scripts, manifest, { url, frame, creatorUrl: needsCreator ? creatorUrl : undefined })
+        : null,
+    [scripts, manifest, url, frame, creatorUrl, needsCreator]
+  );
+
+  const inputClass =
+    'px-2 py-1 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://www.example.com/page"
+          aria-label="Page URL"
+          className={`${inputClass} flex-1 min-w-[16rem] font-mono`}
+        />
+        <select
+          value={frame}
+          onChange={(e) => setFrame(e.target.value as InjectionTarget['frame'])}
+          aria-label="Frame"
+          className={inputClass}
+        >
+          <option value="top">Top frame</option>
+          <option value="subframe">Iframe</option>
+        </select>
+      </div>
+      {needsCreator && (
+        <input
+          type="text"
+          value={creatorUrl}
+          onChange={(e) => setCreatorUrl(e.target.value)}
+          placeholder="URL of the page that created the frame"
+          aria-label="Creator URL"
+          className={`${inputClass} w-full font-mono`}
+        />
+      )}
+
+      {!result ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Enter a URL to see which content scripts would run on it and which host permissions cover it
+        </p>
+      ) : !result.success ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{result.error}</p>
+      ) : (
+        <div className="space-y-3">
+          <div>
+            <h4 className="text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">Injected files</h4>
+            {result.simulation.files.length === 0 ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">Nothing is injected</p>
+            ) : (
+              <ol className="space-y-0.5 text-sm">
+                {result.simulation.files.map((file, i) => (
+                  <li key={`${file.scriptIndex}-${file.type}-${file.path}`} className="flex items-baseline gap-2">
+                    <span className="w-5 text-right text-xs text-gray-400 dark:text-gray-500">{i + 1}</span>
+                    <span className="w-8 text-xs uppercase text-gray-500 dark:text-gray-400">{file.type}</span>
+                    <button
+                      onClick={() => onSelectFile(file.path)}
+                      className="font-mono text-xs text-blue-600 dark:text-blue-400 hover:underline break-all text-left"
+                    >
+                      {file.path}
+                    </button>
+                    <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                      {RUN_AT_LABELS[file.runAt]}
+                      {file.world && ` · ${file.world}`} · entry #{file.scriptIndex + 1}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          {result.simulation.decisions.length > 0 && (
+            <div>
+              <h4 className="text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">Content script entries</h4>
+              <ul className="space-y-0.5 text-sm">
+                {result.simulation.decisions.map((decision) => (
+                  <li key={decision.index} className="flex items-baseline gap-2">
+                    {decision.injected ? (
+                      <Check className="w-3.5 h-3.5 shrink-0 self-center text-green-600 dark:text-green-400" />
+                    ) : (
+                      <X className="w-3.5 h-3.5 shrink-0 self-center text-gray-400 dark:text-gray-500" />
+                    )}
+                    <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">#{decision.index + 1}</span>
+                    <span className="text-gray-800 dark:text-gray-200">{decision.reason}</span>
+                    {decision.matchedUrl && decision.matchedUrl !== result.simulation.url && (
+                      <span className="font-mono text-xs text-gray-500 dark:text-gray-400 break-all">
+                        as {decision.matchedUrl}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">Host permissions</h4>
+            {result.simulation.hostPermissions.length === 0 ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">No host permission covers this URL</p>
+            ) : (
+              <ul className="space-y-0.5 text-sm">
+                {result.simulation.hostPermissions.map((match) => (
+                  <li key={`${match.field}-${match.pattern}`} className="flex items-baseline gap-2">
+                    <span className="font-mono text-xs text-gray-900 dark:text-gray-100 break-all">{match.pattern}</span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {match.field}
+                      {match.optional && ' · requested at runtime'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {result.simulation.invalidPatterns.length > 0 && (
+            <ul className="text-xs text-amber-700 dark:text-amber-400 space-y-0.5">
+              {result.simulation.invalidPatterns.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+/**
+ * Side-by-side deobfuscation view
+ *
+ * Shows the original script next to a deobfuscated and beautified copy.
+ * Each transform can be switched off to see what it contributes; the number
+ * of changes it made is shown next to it. Nothing is ever executed.
+ */
+
+import { useMemo, useState } from 'react';
+import { beautifyCode } from '@/lib/code/beautifier';
+import { deobfuscate, DEOBFUSCATION_TRANSFORMS } from '@/lib/code/deobfuscator';
+import type { DeobfuscationTransform } from '@/lib/code/deobfuscator';
+import { highlightCode } from '@/lib/code/highlighter';
+
+export interface DeobfuscationViewProps {
+  /** Original file content */
+  content: string;
+  /** Prism language of the file */
+  language: string;
+}
+
+export function DeobfuscationView({ content, language }: DeobfuscationViewProps) {
+  const [enabled, setEnabled] = useState<DeobfuscationTransform[]>(() =>
+    DEOBFUSCATION_TRANSFORMS.map((transform) => transform.id)
+  );
+
+  const originalHtml = useMemo(() => highlightCode(content, language).html, [content, language]);
+
+  const { html, changes, error } = useMemo(() => {
+    try {
+      const result = deobfuscate(content, enabled);
+      return {
+        html: highlightCode(beautifyCode(result.code, language), language).html,
+        changes: new Map(result.steps.map((step) => [step.transform, step.changes])),
+        error: null,
+      };
+    } catch (err) {
+      return {
+        html: '',
+        changes: new Map<DeobfuscationTransform, number>(),
+        error: `Deobfuscation failed: ${err instanceof Error ? err.message : String(err)}`,
+      };
+    }
+  }, [content, language, enabled]);
+
+  const handleToggle = (id: DeobfuscationTransform) => {
+    // Keep the run order of DEOBFUSCATION_TRANSFORMS whatever order they are toggled in
+    setEnabled(
+      DEOBFUSCATION_TRANSFORMS.map((transform) => transform.id).filter((transformId) =>
+        transformId === id ? !enabled.includes(id) : enabled.includes(transformId)
+      )
+    );
+  };
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      <div className="flex items-center flex-wrap gap-x-4 gap-y-1 px-4 py-2 text-xs border-b border-purple-200 dark:border-purple-900 bg-purple-50 dark:bg-purple-950/40 text-purple-900 dark:text-purple-200">
+        {DEOBFUSCATION_TRANSFORMS.map((transform) => {
+          const count = changes.get(transform.id);
+          return (
+            <label key={transform.id} className="flex items-center gap-1.5 cursor-pointer" title={transform.description}>
+              <input
+                type="checkbox"
+                checked={enabled.includes(transform.id)}
+                onChange={() => handleToggle(transform.id)}
+                className="accent-purple-600"
+              />
+              <span>{transform.label}</span>
+              {count !== undefined && (
+                <span className="text-purple-600 dark:text-purple-400">({count})</span>
+              )}
+            </label>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 flex-1 min-h-0 divide-x divide-gray-200 dark:divide-gray-700">
+        <CodePane title="Original" html={originalHtml} language={language} />
+        {error ? (
+          <div className="flex items-center justify-center p-6 text-sm text-red-600 dark:text-red-400">{error}</div>
+        ) : (
+          <CodePane title="Deobfuscated" html={html} language={language} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface CodePaneProps {
+  title: string;
+  html: string;
+  language: string;
+}
+
+function CodePane({ title, html, language }: CodePaneProps) {
+  return (
+    <div className="flex flex-col min-h-0 min-w-0">
+      <div className="px-4 py-1.5 text-xs font-semibold text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+        {title}
+      </div>
+      <div className="flex-1 overflow-auto">
+        <pre className="m-0 p-4 min-w-max bg-transparent text-sm leading-relaxed language-highlight">
+          <code dangerouslySetInnerHTML={{ __html: html }} className={`language-${language}`} />
+        </pre>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+/**
+ * File dependencies panel
+ *
+ * Shows what the file selected in the tree references and what references
+ * it, with the chain of references that reaches it from an entry point.
+ * Below that it lists every file no entry point reaches and every
+ * reference to a file missing from the package. File names move the
+ * selection so the graph can be walked without leaving the panel; line
+ * links open the referencing source in the code viewer.
+ */
+
+import { AlertTriangle, ChevronRight } from 'lucide-react';
+import { useManifest } from '@/hooks/useManifest';
+import { useDependencyGraph } from '@/hooks/useDependencyGraph';
+import { useViewerStore } from '@/store/viewerStore';
+import { getReferenceChain } from '@/lib/architecture/dependencies';
+import type { DependencyGraph, DependencyKind, FileDependency } from '@/lib/architecture/dependencies';
+
+export interface DependenciesPanelProps {
+  onSelectFile: (path: string, line?: number) => void;
+}
+
+const KIND_LABELS: Record<DependencyKind, string> = {
+  manifest: 'manifest',
+  include: 'script',
+  import: 'import',
+  require: 'require',
+  attribute: 'attribute',
+  url: 'css url',
+  'get-url': 'getURL',
+  literal: 'string',
+  'source-map': 'source map',
+};
+
+/** Rows rendered per list; the rest are counted */
+const MAX_ROWS = 500;
+
+export function DependenciesPanel({ onSelectFile }: DependenciesPanelProps) {
+  const { manifest, isLoading: isLoadingManifest, error: manifestError } = useManifest();
+  const { graph, isLoading, error } = useDependencyGraph(manifest);
+  const selectedFilePath = useViewerStore((state) => state.selectedFilePath);
+  const selectFile = useViewerStore((state) => state.selectFile);
+
+  if (isLoading || isLoadingManifest) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500" />
+      </div>
+    );
+  }
+
+  if (error || manifestError || !graph) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-6">
+        <div className="text-center">
+          <p className="text-red-600 dark:text-red-400 font-semibold mb-2">Cannot resolve file dependencies</p>
+          <p className="text-gray-600 dark:text-gray-400 text-sm">{error ?? manifestError ?? 'manifest.json not found'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const fileCount = graph.reachable.size + graph.unreferenced.length;
+
+  return (
+    <div className="flex-1 overflow-auto bg-white dark:bg-gray-900 p-4 space-y-6">
+      {/* Summary */}
+      <section>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+          {fileCount} file{fileCount === 1 ? '' : 's'}
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {graph.reachable.size} reached from {graph.entryPoints.length} entry point{graph.entryPoints.length === 1 ? '' : 's'}
+          {` · ${graph.unreferenced.length} unreferenced · ${graph.missing.length} missing reference${graph.missing.length === 1 ? '' : 's'}`}
+        </p>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          References are found by reading the source, so files loaded through computed paths may show as unreferenced.
+        </p>
+      </section>
+
+      {/* Selected file */}
+      <section>
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">Selected file</h3>
+        {selectedFilePath ? (
+          <SelectedFile graph={graph} path={selectedFilePath} onSelectPath={selectFile} onSelectFile={onSelectFile} />
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Select a file in the tree to see its dependencies and dependents.</p>
+        )}
+      </section>
+
+      {/* Unreferenced files */}
+      <section>
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">
+          Unreferenced files ({graph.unreferenced.length})
+        </h3>
+        {graph.unreferenced.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Every file is reached from an entry point.</p>
+        ) : (
+          <ul className="space-y-0.5">
+            {graph.unreferenced.slice(0, MAX_ROWS).map((path) => (
+              <li key={path}>
+                <button
+                  onClick={() => selectFile(path)}
+                  className="font-mono text-xs text-blue-600 dark:text-blue-400 hover:underline text-left break-all"
+                >
+                  {path}
+                </button>
+              </li>
+            ))}
+            {graph.unreferenced.length > MAX_ROWS && (
+              <li className="text-xs text-gray-500 dark:text-gray-400">{graph.unreferenced.length - MAX_ROWS} more</li>
+            )}
+          </ul>
+        )}
+      </section>
+
+      {/* Missing references */}
+      {graph.missing.length > 0 && (
+        <section>
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">
+            Missing files ({graph.missing.length})
+          </h3>
+          <DependencyList
+            dependencies={graph.missing}
+            direction="dependencies"
+            onSelectPath={selectFile}
+            onSelectFile={onSelectFile}
+          />
+        </section>
+      )}
+    </div>
+  );
+}
+
+interface SelectedFileProps {
+  graph: DependencyGraph;
+  path: string;
+  onSelectPath: (path: string) => void;
+  onSelectFile: (path: string, line?: number) => void;
+}
+
+function SelectedFile({ graph, path, onSelectPath, onSelectFile }: SelectedFileProps) {
+  const dependencies = graph.dependencies.get(path) ?? [];
+  const dependents = graph.dependents.get(path) ?? [];
+  const chain = getReferenceChain(graph, path);
+  const isEntryPoint = graph.entryPoints.includes(path);
+
+  // Original sources and nested archive entries aren't loaded by the browser
+  if (!graph.reachable.has(path) && !graph.unreferenced.includes(path)) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        <span className="font-mono break-all">{path}</span> is not a file in the extension package.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="font-mono text-sm text-gray-900 dark:text-gray-100 break-all">{path}</p>
+        {isEntryPoint ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">Entry point: the browser loads it directly</p>
+        ) : graph.reachable.has(path) ? (
+          <p className="flex flex-wrap items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+            Reached via
+            {chain.map((dependency) => (
+              <span key={dependency.from} className="flex items-center gap-1">
+                <button onClick={() => onSelectPath(dependency.from)} className="font-mono text-blue-600 dark:text-blue-400 hover:underline">
+                  {dependency.from}
+                </button>
+                <ChevronRight className="w-3 h-3" />
+              </span>
+            ))}
+            <span className="font-mono">{path}</span>
+          </p>
+        ) : (
+          <p className="flex items-center gap-1.5 text-xs text-amber-700 dark:text-amber-400">
+            <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+            No entry point references this file
+          </p>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">
+          Dependencies ({dependencies.length})
+        </h4>
+        {dependencies.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">References no other files</p>
+        ) : (
+          <DependencyList dependencies={dependencies} direction="dependencies" onSelectPath={onSelectPath} onSelectFile={onSelectFile} />
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">
+          Dependents ({dependents.length})
+        </h4>
+        {dependents.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No file references it</p>
+        ) : (
+          <DependencyList dependencies={dependents} direction="dependents" onSelectPath={onSelectPath} onSelectFile={onSelectFile} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface DependencyListProps {
+  dependencies: FileDependency[];
+  /** Which end of each reference to name: the target for dependencies, the source for dependents */
+  direction: 'dependencies' | 'dependents';
+  onSelectPath: (path: string) => void;
+  onSelectFile: (path: string, line?: number) => void;
+}
+
+function DependencyList({ dependencies, direction, onSelectPath, onSelectFile }: DependencyListProps) {
+  return (
+    <table className="w-full text-sm">
+      <tbody>
+        {dependencies.slice(0, MAX_ROWS).map((dependency) => {
+          const path = direction === 'dependencies' ? dependency.to : dependency.from;
+          return (
+            <tr key={`${dependency.from}>${dependency.to}:${dependency.line}`} className="border-b border-gray-100 dark:border-gray-800">
+              <td className="py-1 pr-3 whitespace-nowrap">
+                <span className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+                  {KIND_LABELS[dependency.kind]}
+                </span>
+              </td>
+              <td className="py-1 pr-3 w-full">
+                {dependency.missing && direction === 'dependencies' ? (
+                  <span className="font-mono text-xs text-red-600 dark:text-red-400 break-all" title="Not in the package">
+                    {path}
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => onSelectPath(path)}
+                    className="font-mono text-xs text-blue-600 dark:text-blue-400 hover:underline text-left break-all"
+                  >
+                    {path}
+                  </button>
+                )}
+                {dependency.specifier !== path && (
+                  <span className="ml-2 font-mono text-xs text-gray-500 dark:text-gray-400 break-all">{dependency.specifier}</span>
+                )}
+              </td>
+              <td className="py-1 whitespace-nowrap text-right">
+                <button
+                  onClick={() => onSelectFile(dependency.from, dependency.line)}
+                  className="font-mono text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                  title={`Open ${dependency.from}${dependency.line ? ` at line ${dependency.line}` : ''}`}
+                >
+                  {dependency.from}
+                  {dependency.line ? `:${dependency.line}` : ''}
+                </button>
+              </td>
+            </tr>
+          );
+        })}
+        {dependencies.length > MAX_ROWS && (
+          <tr>
+            <td colSpan={3} className="py-1 text-xs text-gray-500 dark:text-gray-400">
+              {dependencies.length - MAX_ROWS} more
+            </td>
+          </tr>
+        )}
+      </tbody>
+    </table>
+  );
+}
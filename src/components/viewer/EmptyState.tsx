@@ -5,6 +5,7 @@
  */
 
 import { ReactNode } from 'react';
+import { useFileDrop } from '@/hooks/useFileDrop';
 
 /**
  * Props for EmptyState component
@@ -15,6 +16,8 @@ export interface EmptyStateProps {
   description?: string;
   action?: ReactNode;
   className?: string;
+  /** Accept a dropped file; the state is highlighted while a file is dragged over it */
+  onFileDrop?: (file: File) => void;
 }
 
 /**
@@ -35,9 +38,19 @@ export function EmptyState({
   description,
   action,
   className = '',
+  onFileDrop,
 }: EmptyStateProps) {
+  const { isDragging, dropHandlers } = useFileDrop(onFileDrop);
+
   return (
-    <div className={`flex flex-col items-center justify-center py-12 px-4 ${className}`}>
+    <div
+      {...dropHandlers}
+      className={`
+        flex flex-col items-center justify-center py-12 px-4 rounded-lg border-2 border-dashed transition-colors duration-150
+        ${isDragging ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20' : 'border-transparent'}
+        ${className}
+      `}
+    >
       {icon && <div className="text-5xl mb-4">{icon}</div>}
       <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 text-center mb-2">{title}</h3>
       {description && <p className="text-gray-700 dark:text-gray-300 text-center text-sm mb-4 max-w-sm">{description}</p>}
@@ -3,27 +3,54 @@
  *
  * Recursively renders a hierarchical file structure with expand/collapse
  * functionality for directories. Integrates with Zustand store for selection.
+ * Bundled files with a source map get a "map" badge, files no entry point
+ * references get an "unused" badge, and the virtual original sources
+ * directory gets its own icon. Annotated files show a
+ * badge with their annotation count, colored by the highest severity.
+ * Nested ZIP, CRX, JAR and XPI archives expand like folders; their entries
+ * are read when the archive is first opened and use virtual paths such as
+ * `lib/vendor.zip!/index.js`. Folders and archives holding the selected
+ * file start expanded, so deep links reveal it.
  */
 
-import { useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import type { FileTreeNode } from '@/lib/zip/file-tree';
+import { buildNestedFileTree } from '@/lib/zip/file-tree';
+import { extractNestedEntries, isNestedArchive, joinNestedPath } from '@/lib/zip/nested-archive';
 import { useViewerStore } from '@/store/viewerStore';
 import { getFileCategory } from '@/lib/code/language-detector';
+import { ORIGINAL_SOURCES_ROOT } from '@/lib/sourcemap/original-sources';
+import { useAnnotationStore } from '@/store/annotationStore';
+import { summarizeByFile } from '@/lib/annotations/annotations';
+import type { FileAnnotationSummary } from '@/lib/annotations/annotations';
+import { AnnotationBadge } from './AnnotationBadge';
 
 interface FileTreeProps {
   node: FileTreeNode;
   level?: number;
+  /** Bundled files that have a source map */
+  sourceMappedPaths?: Set<string>;
+  /** Files no entry point references */
+  unreferencedPaths?: Set<string>;
 }
 
+type ArchiveLoadResult = { success: true; node: FileTreeNode } | { success: false; error: string };
+
 interface FileTreeItemProps {
   node: FileTreeNode;
   level: number;
   onSelect: (path: string) => void;
-  isSelected: boolean;
+  onLoadArchive: (path: string) => Promise<ArchiveLoadResult>;
+  selectedPath: string | null;
+  sourceMappedPaths?: Set<string>;
+  unreferencedPaths?: Set<string>;
+  annotationSummaries: Map<string, FileAnnotationSummary>;
 }
 
 function getFileIcon(node: FileTreeNode): string {
+  if (node.path === ORIGINAL_SOURCES_ROOT) return '🗺️';
   if (node.isDirectory) return '📁';
+  if (isNestedArchive(node.path)) return '📦';
 
   const category = getFileCategory(node.path);
   switch (category) {
@@ -42,22 +69,60 @@ function getFileIcon(node: FileTreeNode): string {
   }
 }
 
+/**
+ * Check whether a path lies inside a folder or archive node
+ */
+function containsPath(node: FileTreeNode, path: string | null): boolean {
+  return path !== null && (path.startsWith(`${node.path}/`) || path.startsWith(joinNestedPath(node.path, '')));
+}
+
 function FileTreeItem({
   node,
   level,
   onSelect,
-  isSelected,
+  onLoadArchive,
+  selectedPath,
+  sourceMappedPaths,
+  unreferencedPaths,
+  annotationSummaries,
 }: FileTreeItemProps) {
-  const [isExpanded, setIsExpanded] = useState(false);
+  const isArchive = !node.isDirectory && isNestedArchive(node.path);
+  const isExpandable = node.isDirectory || isArchive;
+  const [isExpanded, setIsExpanded] = useState(() => containsPath(node, selectedPath));
+  // Entries are tied to the loader so they are read again for another extension
+  const [loaded, setLoaded] = useState<{ load: FileTreeItemProps['onLoadArchive']; result: ArchiveLoadResult } | null>(null);
+  const archive = loaded?.load === onLoadArchive ? loaded.result : null;
+  const annotationSummary = annotationSummaries.get(node.path);
+  const isSelected = selectedPath === node.path;
+
+  // Archive entries are read the first time the archive is expanded
+  useEffect(() => {
+    if (!isArchive || !isExpanded || archive) {
+      return;
+    }
+
+    let cancelled = false;
+    onLoadArchive(node.path).then((result) => {
+      if (!cancelled) {
+        setLoaded({ load: onLoadArchive, result });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isArchive, isExpanded, archive, node.path, onLoadArchive]);
 
   const handleClick = () => {
-    if (node.isDirectory) {
+    if (isExpandable) {
       setIsExpanded(!isExpanded);
     } else {
       onSelect(node.path);
     }
   };
 
+  const children = isArchive ? (archive?.success ? archive.node.children : []) : node.children;
+
   const paddingLeft = `${level * 16}px`;
 
   return (
@@ -67,33 +132,66 @@ function FileTreeItem({
         className={`
           px-2 py-1.5 cursor-pointer flex items-center gap-2
           transition-colors duration-150
-          ${isSelected && !node.isDirectory
+          ${isSelected && !isExpandable
             ? 'bg-blue-500 text-white dark:bg-blue-600'
             : 'hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-900 dark:text-gray-100'
           }
         `}
         style={{ paddingLeft }}
       >
-        {node.isDirectory && (
+        {isExpandable && (
           <span className="w-4 text-center">
             {isExpanded ? '▼' : '▶'}
           </span>
         )}
-        {!node.isDirectory && <span className="w-4" />}
+        {!isExpandable && <span className="w-4" />}
 
         <span className="text-lg leading-none">{getFileIcon(node)}</span>
         <span className="flex-1 text-sm truncate">{node.name}</span>
+        {sourceMappedPaths?.has(node.path) && (
+          <span
+            className="px-1 text-[10px] font-medium rounded bg-purple-100 text-purple-700 dark:bg-purple-900/50 dark:text-purple-300"
+            title="Has a source map"
+          >
+            map
+          </span>
+        )}
+        {unreferencedPaths?.has(node.path) && (
+          <span
+            className="px-1 text-[10px] font-medium rounded bg-amber-100 text-amber-700 dark:bg-amber-900/50 dark:text-amber-300"
+            title="No entry point references this file"
+          >
+            unused
+          </span>
+        )}
+        {annotationSummary && (
+          <AnnotationBadge severity={annotationSummary.severity} count={annotationSummary.count} />
+        )}
       </div>
 
-      {node.isDirectory && isExpanded && (
+      {isExpandable && isExpanded && (
         <div>
-          {node.children.map((child) => (
+          {isArchive && !archive && (
+            <div className="px-2 py-1 text-xs text-gray-500 dark:text-gray-400" style={{ paddingLeft: `${(level + 1) * 16 + 24}px` }}>
+              Opening archive...
+            </div>
+          )}
+          {archive && !archive.success && (
+            <div className="px-2 py-1 text-xs text-red-600 dark:text-red-400" style={{ paddingLeft: `${(level + 1) * 16 + 24}px` }}>
+              {archive.error}
+            </div>
+          )}
+          {children.map((child) => (
             <FileTreeItem
               key={child.path}
               node={child}
               level={level + 1}
               onSelect={onSelect}
-              isSelected={isSelected && child.path === node.path}
+              onLoadArchive={onLoadArchive}
+              selectedPath={selectedPath}
+              sourceMappedPaths={sourceMappedPaths}
+              unreferencedPaths={unreferencedPaths}
+              annotationSummaries={annotationSummaries}
             />
           ))}
         </div>
@@ -102,9 +200,23 @@ function FileTreeItem({
   );
 }
 
-export function FileTree({ node, level = 0 }: FileTreeProps) {
+export function FileTree({ node, level = 0, sourceMappedPaths, unreferencedPaths }: FileTreeProps) {
   const selectedFilePath = useViewerStore((state) => state.selectedFilePath);
   const selectFile = useViewerStore((state) => state.selectFile);
+  const crx = useViewerStore((state) => state.crx);
+  const annotations = useAnnotationStore((state) => state.annotations);
+  const annotationSummaries = useMemo(() => summarizeByFile(annotations), [annotations]);
+
+  const handleLoadArchive = useCallback(
+    async (path: string): Promise<ArchiveLoadResult> => {
+      if (!crx) {
+        return { success: false, error: 'No extension loaded' };
+      }
+      const result = await extractNestedEntries(crx.zipData, path, crx.fileCache);
+      return result.success ? { success: true, node: buildNestedFileTree(result.files, path) } : result;
+    },
+    [crx]
+  );
 
   return (
     <div className="overflow-y-auto bg-white dark:bg-gray-800 border-r border-gray-200 dark:border-gray-700">
@@ -115,7 +227,11 @@ export function FileTree({ node, level = 0 }: FileTreeProps) {
             node={child}
             level={level}
             onSelect={selectFile}
-            isSelected={selectedFilePath === child.path}
+            onLoadArchive={handleLoadArchive}
+            selectedPath={selectedFilePath}
+            sourceMappedPaths={sourceMappedPaths}
+            unreferencedPaths={unreferencedPaths}
+            annotationSummaries={annotationSummaries}
           />
         ))}
       </div>
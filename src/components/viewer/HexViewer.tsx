@@ -0,0 +1,378 @@
+/**
+ * Hex viewer for binary files
+ *
+ * Shows a hex/ASCII dump that only renders the rows in view, so files of
+ * any size scroll smoothly. Supports jumping to an offset, searching for
+ * byte patterns, and selecting bytes (click, shift-click or drag) to copy
+ * them as hex or text. Magic numbers of embedded files (ZIP, PNG, ELF, PE,
+ * WASM) are marked in the dump and listed above it.
+ *
+ * Give it a `key` per file so the scroll position and selection start over.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, ArrowLeft, Copy } from 'lucide-react';
+import {
+  BYTES_PER_ROW,
+  findPattern,
+  formatByteRange,
+  formatOffset,
+  parseBytePattern,
+  parseOffset,
+  toAscii,
+  toHex,
+} from '@/lib/hex/hex-dump';
+import { detectEmbeddedSignatures } from '@/lib/hex/signatures';
+import type { EmbeddedSignature } from '@/lib/hex/signatures';
+import { copyToClipboard } from '@/lib/utils/download-helper';
+import { formatFileSize } from '@/lib/utils/hash';
+
+export interface HexViewerProps {
+  data: Uint8Array;
+  fileName: string;
+  filePath: string;
+  /** Leaves the hex view, e.g. back to an image preview; a back button shows when set */
+  onClose?: () => void;
+}
+
+interface ByteRange {
+  start: number;
+  end: number;
+}
+
+const ROW_HEIGHT = 20;
+
+// Browsers cap element heights; beyond this the scrollbar maps proportionally onto the rows
+const MAX_SCROLL_HEIGHT = 8_000_000;
+
+export function HexViewer({ data, fileName, filePath, onClose }: HexViewerProps) {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [anchor, setAnchor] = useState<number | null>(null);
+  const [focus, setFocus] = useState<number | null>(null);
+  const [match, setMatch] = useState<ByteRange | null>(null);
+  const [offsetInput, setOffsetInput] = useState('');
+  const [patternInput, setPatternInput] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const isDragging = useRef(false);
+
+  const signatures = useMemo(() => detectEmbeddedSignatures(data), [data]);
+  const signatureBytes = useMemo(() => {
+    const bytes = new Map<number, EmbeddedSignature>();
+    for (const signature of signatures) {
+      for (let i = 0; i < signature.length; i++) {
+        bytes.set(signature.offset + i, signature);
+      }
+    }
+    return bytes;
+  }, [signatures]);
+  const embeddedCount = signatures.filter((signature) => signature.offset > 0).length;
+
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) {
+      return;
+    }
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const stopDragging = () => {
+      isDragging.current = false;
+    };
+    window.addEventListener('mouseup', stopDragging);
+    return () => window.removeEventListener('mouseup', stopDragging);
+  }, []);
+
+  const totalRows = Math.ceil(data.length / BYTES_PER_ROW);
+  const fullHeight = totalRows * ROW_HEIGHT;
+  const spacerHeight = Math.min(fullHeight, MAX_SCROLL_HEIGHT);
+  const scrollRange = Math.max(0, spacerHeight - viewportHeight);
+  const contentRange = Math.max(0, fullHeight - viewportHeight);
+  const contentTop = scrollRange > 0 ? (scrollTop * contentRange) / scrollRange : 0;
+  const firstRow = Math.floor(contentTop / ROW_HEIGHT);
+  const rowsTop = scrollTop - (contentTop - firstRow * ROW_HEIGHT);
+  const visibleRows = Math.ceil(viewportHeight / ROW_HEIGHT) + 1;
+
+  const selection: ByteRange | null =
+    anchor === null || focus === null ? null : { start: Math.min(anchor, focus), end: Math.max(anchor, focus) };
+
+  const revealOffset = (offset: number) => {
+    const container = scrollRef.current;
+    if (!container) {
+      return;
+    }
+    const rowTop = Math.floor(offset / BYTES_PER_ROW) * ROW_HEIGHT;
+    if (rowTop >= contentTop && rowTop + ROW_HEIGHT <= contentTop + viewportHeight) {
+      return;
+    }
+    const target = Math.min(contentRange, Math.max(0, rowTop - viewportHeight / 3));
+    container.scrollTop = contentRange > 0 ? (target * scrollRange) / contentRange : 0;
+    setScrollTop(container.scrollTop);
+  };
+
+  const selectRange = (start: number, end: number) => {
+    setAnchor(start);
+    setFocus(end);
+    revealOffset(start);
+  };
+
+  const handleGoToOffset = (event: React.FormEvent) => {
+    event.preventDefault();
+    const offset = parseOffset(offsetInput);
+    if (offset === null) {
+      setMessage(`Not an offset: ${offsetInput}`);
+      return;
+    }
+    if (offset >= data.length) {
+      setMessage(`Offset 0x${offset.toString(16)} is past the end of the file`);
+      return;
+    }
+    setMessage(null);
+    selectRange(offset, offset);
+  };
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    const parsed = parseBytePattern(patternInput);
+    if (!parsed.success) {
+      setMessage(parsed.error);
+      return;
+    }
+
+    // Continue after the current match so repeated searches step through the file
+    const from = match ? match.start + 1 : selection ? selection.start : 0;
+    const offset = findPattern(data, parsed.pattern, from);
+    if (offset === -1) {
+      setMatch(null);
+      setMessage('Pattern not found');
+      return;
+    }
+
+    const wrapped = match !== null && offset <= match.start;
+    setMatch({ start: offset, end: offset + parsed.pattern.length - 1 });
+    setMessage(wrapped ? 'Search wrapped to the start of the file' : null);
+    selectRange(offset, offset + parsed.pattern.length - 1);
+  };
+
+  const handleCopy = async (format: 'hex' | 'ascii') => {
+    if (!selection) {
+      return;
+    }
+    try {
+      await copyToClipboard(formatByteRange(data, selection.start, selection.end, format));
+      setMessage(`Copied ${selection.end - selection.start + 1} bytes as ${format === 'hex' ? 'hex' : 'text'}`);
+    } catch (err) {
+      setMessage(`Copy failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  // Bytes carry their offset, so one set of handlers serves every cell
+  const getByteOffset = (event: React.MouseEvent): number | null => {
+    const value = (event.target as HTMLElement).dataset.offset;
+    return value === undefined ? null : Number(value);
+  };
+
+  const handleMouseDown = (event: React.MouseEvent) => {
+    const offset = getByteOffset(event);
+    if (offset === null) {
+      return;
+    }
+    // Keep the browser's text selection out of it, but take focus for Ctrl+C
+    event.preventDefault();
+    scrollRef.current?.focus();
+    isDragging.current = true;
+    if (event.shiftKey && anchor !== null) {
+      setFocus(offset);
+    } else {
+      setAnchor(offset);
+      setFocus(offset);
+    }
+  };
+
+  const handleMouseOver = (event: React.MouseEvent) => {
+    const offset = getByteOffset(event);
+    if (isDragging.current && offset !== null) {
+      setFocus(offset);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if ((event.ctrlKey || event.metaKey) && event.key === 'c' && selection) {
+      event.preventDefault();
+      void handleCopy('hex');
+    }
+  };
+
+  const byteClass = (offset: number): string => {
+    if (selection && offset >= selection.start && offset <= selection.end) {
+      return 'bg-blue-500 text-white dark:bg-blue-600';
+    }
+    if (match && offset >= match.start && offset <= match.end) {
+      return 'bg-yellow-200 dark:bg-yellow-700/60';
+    }
+    const signature = signatureBytes.get(offset);
+    if (signature) {
+      return signature.offset > 0
+        ? 'bg-amber-300 text-amber-950 dark:bg-amber-600 dark:text-white'
+        : 'bg-gray-200 dark:bg-gray-700';
+    }
+    return '';
+  };
+
+  const renderRow = (row: number) => {
+    const start = row * BYTES_PER_ROW;
+    const bytes = data.subarray(start, start + BYTES_PER_ROW);
+    const hexCells: React.ReactNode[] = [];
+    const asciiCells: React.ReactNode[] = [];
+
+    bytes.forEach((byte, i) => {
+      const offset = start + i;
+      const title = signatureBytes.get(offset)?.label;
+      const className = byteClass(offset);
+      hexCells.push(
+        <span key={i} data-offset={offset} title={title} className={`px-[3px] ${i === 8 ? 'ml-2' : ''} ${className}`}>
+          {toHex(byte)}
+        </span>
+      );
+      asciiCells.push(
+        <span key={i} data-offset={offset} title={title} className={className}>
+          {toAscii(byte)}
+        </span>
+      );
+    });
+
+    return (
+      <div key={row} className="flex whitespace-pre" style={{ height: ROW_HEIGHT, lineHeight: `${ROW_HEIGHT}px` }}>
+        <span className="w-24 shrink-0 pl-4 text-gray-400 dark:text-gray-500 select-none">
+          {formatOffset(start, data.length)}
+        </span>
+        <span className="w-[27rem] shrink-0 text-gray-900 dark:text-gray-100">{hexCells}</span>
+        <span className="pl-4 text-gray-700 dark:text-gray-300">{asciiCells}</span>
+      </div>
+    );
+  };
+
+  const rows: React.ReactNode[] = [];
+  for (let row = firstRow; row < Math.min(totalRows, firstRow + visibleRows); row++) {
+    rows.push(renderRow(row));
+  }
+
+  const inputClass =
+    'w-40 px-2 py-1 text-xs font-mono border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100';
+  const buttonClass =
+    'flex items-center gap-1 px-2 py-1 text-xs font-medium rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="flex flex-col h-full bg-white dark:bg-gray-900">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">{fileName}</h2>
+            <p className="text-xs text-gray-600 dark:text-gray-400 mt-1 font-mono">{filePath}</p>
+            <p className="text-sm text-gray-700 dark:text-gray-300 mt-2">
+              Binary file · {formatFileSize(data.length)} ({data.length.toLocaleString()} bytes)
+            </p>
+          </div>
+          {onClose && (
+            <button onClick={onClose} className={buttonClass}>
+              <ArrowLeft className="w-3.5 h-3.5" />
+              Back to preview
+            </button>
+          )}
+        </div>
+
+        {embeddedCount > 0 && (
+          <p className="flex items-center gap-1.5 mt-2 text-sm text-amber-700 dark:text-amber-400">
+            <AlertTriangle className="w-4 h-4" />
+            {embeddedCount} embedded file signature{embeddedCount === 1 ? '' : 's'} after the start of the file
+          </p>
+        )}
+        {signatures.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mt-2">
+            {signatures.map((signature) => (
+              <button
+                key={`${signature.offset}-${signature.format}`}
+                onClick={() => selectRange(signature.offset, signature.offset + signature.length - 1)}
+                className={`px-2 py-0.5 text-xs font-mono rounded ${
+                  signature.offset > 0
+                    ? 'bg-amber-100 text-amber-900 hover:bg-amber-200 dark:bg-amber-900/40 dark:text-amber-200 dark:hover:bg-amber-900/70'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'
+                }`}
+                title="Jump to signature"
+              >
+                0x{formatOffset(signature.offset, data.length)} {signature.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800">
+        <form onSubmit={handleGoToOffset} className="flex items-center gap-1">
+          <input
+            value={offsetInput}
+            onChange={(event) => setOffsetInput(event.target.value)}
+            placeholder="Offset (0x1F or 31)"
+            className={inputClass}
+            aria-label="Go to offset"
+          />
+          <button type="submit" className={buttonClass}>Go</button>
+        </form>
+        <form onSubmit={handleSearch} className="flex items-center gap-1">
+          <input
+            value={patternInput}
+            onChange={(event) => {
+              setPatternInput(event.target.value);
+              setMatch(null);
+            }}
+            placeholder='Bytes (50 4B ?? 04 or "PK")'
+            className={`${inputClass} w-56`}
+            aria-label="Search bytes"
+          />
+          <button type="submit" className={buttonClass}>{match ? 'Next' : 'Find'}</button>
+        </form>
+        <button onClick={() => handleCopy('hex')} disabled={!selection} className={buttonClass} title="Copy selection as hex (Ctrl+C)">
+          <Copy className="w-3.5 h-3.5" />
+          Hex
+        </button>
+        <button onClick={() => handleCopy('ascii')} disabled={!selection} className={buttonClass} title="Copy selection as text">
+          <Copy className="w-3.5 h-3.5" />
+          Text
+        </button>
+        <span className="text-xs text-gray-600 dark:text-gray-400">
+          {message ??
+            (selection
+              ? `Selected 0x${formatOffset(selection.start, data.length)}–0x${formatOffset(selection.end, data.length)} (${selection.end - selection.start + 1} bytes)`
+              : 'Click or drag to select bytes')}
+        </span>
+      </div>
+
+      <div
+        ref={scrollRef}
+        tabIndex={0}
+        onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+        onKeyDown={handleKeyDown}
+        className="flex-1 min-h-0 overflow-auto focus:outline-none"
+      >
+        {data.length === 0 ? (
+          <p className="p-4 text-sm text-gray-600 dark:text-gray-400">The file is empty</p>
+        ) : (
+          <div className="relative min-w-max" style={{ height: spacerHeight }}>
+            <div
+              className="absolute inset-x-0 font-mono text-xs cursor-text select-none"
+              style={{ top: rowsTop }}
+              onMouseDown={handleMouseDown}
+              onMouseOver={handleMouseOver}
+            >
+              {rows}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,20 +2,25 @@
  * Image preview component
  *
  * Displays images inline with metadata and optimized rendering.
+ * The image's bytes can be opened in the hex viewer.
  */
 
 import { useState } from 'react';
+import { Binary } from 'lucide-react';
 
 interface ImagePreviewProps {
   data: Uint8Array;
   fileName: string;
   filePath: string;
+  /** Switches to the hex viewer; a button shows when set */
+  onViewHex?: () => void;
 }
 
 export function ImagePreview({
   data,
   fileName,
   filePath,
+  onViewHex,
 }: ImagePreviewProps) {
   const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
   const [imageError, setImageError] = useState(false);
@@ -35,9 +40,21 @@ export function ImagePreview({
 
   return (
     <div className="p-6">
-      <div className="mb-4">
-        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">{fileName}</h2>
-        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 font-mono">{filePath}</p>
+      <div className="mb-4 flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">{fileName}</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 font-mono">{filePath}</p>
+        </div>
+        {onViewHex && (
+          <button
+            onClick={onViewHex}
+            className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+            title="Show the image's bytes"
+          >
+            <Binary className="w-3.5 h-3.5" />
+            View hex
+          </button>
+        )}
       </div>
 
       <div className="bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4 mb-4">
@@ -0,0 +1,353 @@
+/**
+ * Locale completeness panel
+ *
+ * Tabulates every message name across the extension's `_locales` catalogs:
+ * which locales lack a default-locale message, which define extra ones,
+ * which translations expand different placeholders, and which messages the
+ * code never uses or uses without defining. Selecting a message shows its
+ * text in every locale and the call sites that use it.
+ */
+
+import { useMemo, useState } from 'react';
+import { AlertTriangle, Check, Minus, Plus } from 'lucide-react';
+import { useManifest } from '@/hooks/useManifest';
+import { useLocaleReport } from '@/hooks/useLocaleReport';
+import type { LocaleKeyRow, LocaleSummary } from '@/lib/manifest/locales';
+
+export interface LocalesPanelProps {
+  onSelectFile: (path: string, line?: number) => void;
+}
+
+type KeyFilter = 'all' | 'incomplete' | 'placeholders' | 'unused' | 'undefined';
+
+const KEY_FILTERS: Array<{ id: KeyFilter; label: string }> = [
+  { id: 'all', label: 'All' },
+  { id: 'incomplete', label: 'Incomplete' },
+  { id: 'placeholders', label: 'Placeholder mismatch' },
+  { id: 'unused', label: 'Unused' },
+  { id: 'undefined', label: 'Undefined' },
+];
+
+/** Rows rendered at once; larger catalogs need a filter to narrow them */
+const MAX_ROWS = 500;
+
+function matchesFilter(row: LocaleKeyRow, filter: KeyFilter, locales: LocaleSummary[]): boolean {
+  switch (filter) {
+    case 'incomplete':
+      return !row.inDefault || locales.some((locale) => locale.messageCount > 0 && !row.locales[locale.locale]);
+    case 'placeholders':
+      return Object.values(row.locales).some((entry) => entry.placeholderMismatch);
+    case 'unused':
+      return row.unused;
+    case 'undefined':
+      return row.notDefined;
+    default:
+      return true;
+  }
+}
+
+export function LocalesPanel({ onSelectFile }: LocalesPanelProps) {
+  const { manifest, isLoading: isLoadingManifest, error: manifestError } = useManifest();
+  const { report, isLoading, error } = useLocaleReport(manifest);
+  const [filter, setFilter] = useState<KeyFilter>('all');
+  const [query, setQuery] = useState('');
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const rows = useMemo(() => {
+    if (!report) return [];
+    const needle = query.trim().toLowerCase();
+    return report.keys.filter(
+      (row) => matchesFilter(row, filter, report.locales) && (!needle || row.name.toLowerCase().includes(needle))
+    );
+  }, [report, filter, query]);
+
+  if (isLoading || isLoadingManifest) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500" />
+      </div>
+    );
+  }
+
+  if (error || manifestError || !report) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-6">
+        <div className="text-center">
+          <p className="text-red-600 dark:text-red-400 font-semibold mb-2">Cannot read locales</p>
+          <p className="text-gray-600 dark:text-gray-400 text-sm">{error ?? manifestError ?? 'manifest.json not found'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (report.locales.length === 0) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-6">
+        <p className="text-gray-600 dark:text-gray-400 text-sm">
+          This extension has no <span className="font-mono">_locales</span> catalogs
+          {report.undefinedCount > 0 && `, but its code references ${report.undefinedCount} message${report.undefinedCount === 1 ? '' : 's'}`}
+        </p>
+      </div>
+    );
+  }
+
+  const selected = rows.find((row) => row.name === selectedKey) ?? null;
+  const defaultSummary = report.locales.find((locale) => locale.isDefault);
+
+  return (
+    <div className="flex-1 overflow-auto bg-white dark:bg-gray-900 p-4 space-y-6">
+      {/* Summary */}
+      <section>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+          {report.locales.length} locale{report.locales.length === 1 ? '' : 's'}
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {report.defaultLocale
+            ? `Default locale ${report.defaultLocale}${defaultSummary ? ` · ${defaultSummary.messageCount} messages` : ''}`
+            : 'No default_locale in manifest.json'}
+          {` · ${report.unusedCount} unused · ${report.undefinedCount} undefined`}
+        </p>
+        {report.defaultLocale && !defaultSummary && (
+          <p className="flex items-center gap-1.5 mt-2 text-sm text-amber-700 dark:text-amber-400">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            The default locale has no messages.json, so locales can't be compared
+          </p>
+        )}
+        {report.dynamicCalls.length > 0 && (
+          <p className="mt-2 text-sm text-amber-700 dark:text-amber-400">
+            {report.dynamicCalls.length} getMessage call{report.dynamicCalls.length === 1 ? '' : 's'} with a computed name;
+            messages marked unused may still be used there:{' '}
+            {report.dynamicCalls.slice(0, 5).map((call) => (
+              <button
+                key={`${call.path}:${call.line}`}
+                onClick={() => onSelectFile(call.path, call.line)}
+                className="mr-2 font-mono text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {call.path}:{call.line}
+              </button>
+            ))}
+            {report.dynamicCalls.length > 5 && '…'}
+          </p>
+        )}
+      </section>
+
+      {/* Locales */}
+      <section>
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">Locales</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700 text-left text-xs text-gray-500 dark:text-gray-400">
+              <th className="py-1.5 pr-3 font-medium">Locale</th>
+              <th className="py-1.5 pr-3 font-medium text-right">Messages</th>
+              <th className="py-1.5 pr-3 font-medium text-right">Missing</th>
+              <th className="py-1.5 pr-3 font-medium text-right">Extra</th>
+              <th className="py-1.5 font-medium text-right">Placeholder mismatches</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.locales.map((locale) => (
+              <tr key={locale.locale} className="border-b border-gray-100 dark:border-gray-800">
+                <td className="py-1.5 pr-3 whitespace-nowrap">
+                  <button
+                    onClick={() => onSelectFile(locale.path)}
+                    className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                    title={`Open ${locale.path}`}
+                  >
+                    {locale.locale}
+                  </button>
+                  {locale.isDefault && <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">default</span>}
+                </td>
+                {locale.error ? (
+                  <td colSpan={4} className="py-1.5 text-red-600 dark:text-red-400 text-xs">
+                    {locale.error}
+                  </td>
+                ) : (
+                  <>
+                    <td className="py-1.5 pr-3 text-right text-gray-900 dark:text-gray-100">{locale.messageCount}</td>
+                    <CountCell count={locale.missing.length} names={locale.missing} tone="red" />
+                    <CountCell count={locale.extra.length} names={locale.extra} tone="amber" />
+                    <CountCell count={locale.placeholderMismatches.length} names={locale.placeholderMismatches} tone="amber" />
+                  </>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      {/* Messages */}
+      <section>
+        <div className="flex flex-wrap items-center gap-2 mb-2">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mr-2">Messages</h3>
+          {KEY_FILTERS.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => setFilter(option.id)}
+              className={`px-2 py-0.5 text-xs rounded border transition-colors duration-150 ${
+                filter === option.id
+                  ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                  : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Filter names..."
+            className="ml-auto px-2 py-0.5 text-xs rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+          />
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">No matching messages</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700 text-left text-xs text-gray-500 dark:text-gray-400">
+                  <th className="py-1.5 pr-3 font-medium">Name</th>
+                  <th className="py-1.5 pr-3 font-medium text-right">Uses</th>
+                  {report.locales.map((locale) => (
+                    <th key={locale.locale} className="py-1.5 px-1 font-mono font-medium text-center">
+                      {locale.locale}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.slice(0, MAX_ROWS).map((row) => (
+                  <tr
+                    key={row.name}
+                    onClick={() => setSelectedKey(row.name === selectedKey ? null : row.name)}
+                    className={`border-b border-gray-100 dark:border-gray-800 cursor-pointer ${
+                      row.name === selectedKey ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+                    }`}
+                  >
+                    <td className="py-1 pr-3 font-mono text-xs text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                      {row.name}
+                      {row.notDefined && <span className="ml-2 text-red-600 dark:text-red-400">undefined</span>}
+                    </td>
+                    <td
+                      className={`py-1 pr-3 text-right text-xs ${
+                        row.unused ? 'text-gray-400 dark:text-gray-500' : 'text-gray-900 dark:text-gray-100'
+                      }`}
+                    >
+                      {row.unused ? 'unused' : row.usages.length}
+                    </td>
+                    {report.locales.map((locale) => (
+                      <td key={locale.locale} className="py-1 px-1 text-center">
+                        <KeyCell row={row} locale={locale} />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rows.length > MAX_ROWS && (
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Showing {MAX_ROWS} of {rows.length} messages; filter to narrow the list
+              </p>
+            )}
+          </div>
+        )}
+      </section>
+
+      {selected && (
+        <section>
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2 font-mono">{selected.name}</h3>
+          <table className="w-full text-sm mb-3">
+            <tbody>
+              {report.locales.map((locale) => {
+                const entry = selected.locales[locale.locale];
+                return (
+                  <tr key={locale.locale} className="border-b border-gray-100 dark:border-gray-800 align-top">
+                    <td className="py-1.5 pr-3 font-mono text-xs text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                      {locale.locale}
+                    </td>
+                    <td
+                      className={`py-1.5 pr-3 break-all ${
+                        !entry
+                          ? 'text-gray-400 dark:text-gray-500 italic'
+                          : entry.placeholderMismatch
+                            ? 'text-amber-700 dark:text-amber-400'
+                            : 'text-gray-900 dark:text-gray-100'
+                      }`}
+                    >
+                      {entry ? entry.message : 'missing'}
+                    </td>
+                    <td className="py-1.5 font-mono text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                      {entry?.placeholders.join(' ')}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {selected.usages.length === 0 ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">Not referenced from code</p>
+          ) : (
+            <ul className="space-y-0.5">
+              {selected.usages.map((usage, index) => (
+                <li key={`${usage.path}:${usage.line}:${index}`}>
+                  <button
+                    onClick={() => onSelectFile(usage.path, usage.line)}
+                    className="font-mono text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {usage.path}:{usage.line}
+                  </button>
+                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                    {usage.kind === 'getMessage' ? 'getMessage' : `__MSG_${usage.name}__`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
+
+function CountCell({ count, names, tone }: { count: number; names: string[]; tone: 'red' | 'amber' }) {
+  const color = tone === 'red' ? 'text-red-600 dark:text-red-400' : 'text-amber-700 dark:text-amber-400';
+  return (
+    <td
+      className={`py-1.5 pr-3 text-right ${count > 0 ? color : 'text-gray-400 dark:text-gray-500'}`}
+      title={names.slice(0, 20).join(', ') + (names.length > 20 ? ', …' : '')}
+    >
+      {count}
+    </td>
+  );
+}
+
+function KeyCell({ row, locale }: { row: LocaleKeyRow; locale: LocaleSummary }) {
+  const entry = row.locales[locale.locale];
+
+  if (!entry) {
+    return row.inDefault && !locale.error ? (
+      <Minus className="inline w-3.5 h-3.5 text-red-600 dark:text-red-400" aria-label="Missing" />
+    ) : null;
+  }
+  if (entry.placeholderMismatch) {
+    return (
+      <span title={`Placeholders: ${entry.placeholders.join(' ') || 'none'}`}>
+        <AlertTriangle className="inline w-3.5 h-3.5 text-amber-600 dark:text-amber-400" aria-label="Placeholder mismatch" />
+      </span>
+    );
+  }
+  if (!row.inDefault) {
+    return (
+      <span title={entry.message}>
+        <Plus className="inline w-3.5 h-3.5 text-amber-600 dark:text-amber-400" aria-label="Not in default locale" />
+      </span>
+    );
+  }
+  return (
+    <span title={entry.message}>
+      <Check className="inline w-3.5 h-3.5 text-green-600 dark:text-green-400" aria-label="Translated" />
+    </span>
+  );
+}
@@ -0,0 +1,381 @@
+/**
+ * Manifest inspector panel
+ *
+ * Shows the loaded extension's manifest.json as structured sections with
+ * `__MSG_` placeholders resolved from the default locale: background,
+ * content scripts, action popup, options and other pages, commands, icons,
+ * content security policy, sandbox and web-accessible resources, plus a
+ * simulator for which content scripts run on a given URL. File references
+ * open in the code viewer; ones missing from the package are marked.
+ */
+
+import { useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { AlertTriangle, FileJson } from 'lucide-react';
+import { useViewerStore } from '@/store/viewerStore';
+import { useManifestView } from '@/hooks/useManifestView';
+import { getAllFiles } from '@/lib/zip/file-tree';
+import { ContentScriptSimulator } from './ContentScriptSimulator';
+import type { ManifestContentScript, ManifestIcon } from '@/lib/manifest/manifest-view';
+
+export interface ManifestPanelProps {
+  onSelectFile: (path: string, line?: number) => void;
+}
+
+const MANIFEST_PATH = 'manifest.json';
+
+export function ManifestPanel({ onSelectFile }: ManifestPanelProps) {
+  const crx = useViewerStore((state) => state.crx);
+  const { view, manifest, localeError, isLoading, error } = useManifestView();
+
+  const packageFiles = useMemo(
+    () => new Set(crx ? getAllFiles(crx.fileTree).map((file) => file.path) : []),
+    [crx]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500" />
+      </div>
+    );
+  }
+
+  if (error || !view || !manifest) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-6">
+        <div className="text-center">
+          <p className="text-red-600 dark:text-red-400 font-semibold mb-2">Cannot read manifest</p>
+          <p className="text-gray-600 dark:text-gray-400 text-sm">{error ?? 'manifest.json not found'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const fileLink = (path: string) => {
+    const exists = packageFiles.has(path);
+    return (
+      <button
+        key={path}
+        onClick={() => onSelectFile(path)}
+        disabled={!exists}
+        className={`font-mono text-xs break-all text-left ${
+          exists
+            ? 'text-blue-600 dark:text-blue-400 hover:underline'
+            : 'text-red-600 dark:text-red-400 line-through cursor-not-allowed'
+        }`}
+        title={exists ? `Open ${path}` : `${path} is not in the package`}
+      >
+        {path}
+      </button>
+    );
+  };
+
+  const fileList = (paths: string[]) =>
+    paths.length === 0 ? <None /> : <div className="flex flex-col items-start gap-0.5">{paths.map(fileLink)}</div>;
+
+  const iconList = (icons: ManifestIcon[]) => (
+    <div className="flex flex-col items-start gap-0.5">
+      {icons.map((icon) => (
+        <span key={`${icon.size}-${icon.path}`} className="flex items-baseline gap-2">
+          <span className="w-12 text-xs text-gray-500 dark:text-gray-400">{icon.size ? `${icon.size}px` : 'any'}</span>
+          {fileLink(icon.path)}
+        </span>
+      ))}
+    </div>
+  );
+
+  const background = view.background;
+
+  return (
+    <div className="flex-1 overflow-auto bg-white dark:bg-gray-900 p-4 space-y-6">
+      {/* Summary */}
+      <section>
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              {view.name || 'Unnamed extension'}
+              {view.shortName && view.shortName !== view.name && (
+                <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">({view.shortName})</span>
+              )}
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Version {view.versionName ?? view.version}
+              {view.versionName && ` (${view.version})`} · Manifest V{view.manifestVersion || '?'}
+              {view.defaultLocale && ` · default locale ${view.defaultLocale}`}
+            </p>
+            {view.description && <p className="mt-1 text-sm text-gray-800 dark:text-gray-200">{view.description}</p>}
+            {view.homepageUrl && (
+              <p className="mt-1 text-xs font-mono text-gray-600 dark:text-gray-400 break-all">{view.homepageUrl}</p>
+            )}
+          </div>
+          <button
+            onClick={() => onSelectFile(MANIFEST_PATH)}
+            className="flex items-center gap-1 shrink-0 px-2 py-1 text-xs font-medium rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            <FileJson className="w-3.5 h-3.5" />
+            manifest.json
+          </button>
+        </div>
+
+        {(localeError || view.unresolvedMessages.length > 0) && (
+          <p className="flex items-center gap-1.5 mt-2 text-sm text-amber-700 dark:text-amber-400">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            {localeError ?? `Messages missing from the default locale: ${view.unresolvedMessages.join(', ')}`}
+          </p>
+        )}
+      </section>
+
+      {view.localizedFields.length > 0 && (
+        <Section title="Localized fields">
+          <table className="w-full text-sm">
+            <tbody>
+              {view.localizedFields.map((field) => (
+                <tr key={field.field} className="border-b border-gray-100 dark:border-gray-800 align-top">
+                  <td className="py-1.5 pr-3 font-mono text-xs text-gray-600 dark:text-gray-400 whitespace-nowrap">{field.field}</td>
+                  <td className="py-1.5 pr-3 font-mono text-xs text-gray-500 dark:text-gray-400 break-all">{field.raw}</td>
+                  <td
+                    className={`py-1.5 break-all ${
+                      field.missing.length > 0 ? 'text-amber-700 dark:text-amber-400' : 'text-gray-900 dark:text-gray-100'
+                    }`}
+                  >
+                    {field.value}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Section>
+      )}
+
+      <Section title="Background">
+        {!background ? (
+          <None />
+        ) : (
+          <Fields>
+            {background.serviceWorker && <Field label="Service worker">{fileLink(background.serviceWorker)}</Field>}
+            {background.scripts.length > 0 && <Field label="Scripts">{fileList(background.scripts)}</Field>}
+            {background.page && <Field label="Page">{fileLink(background.page)}</Field>}
+            <Field label="Type">
+              {background.isModule ? 'ES module' : 'classic'}
+              {background.persistent !== null && (background.persistent ? ' · persistent' : ' · event page')}
+            </Field>
+          </Fields>
+        )}
+      </Section>
+
+      <Section title={`Content scripts (${view.contentScripts.length})`}>
+        {view.contentScripts.length === 0 ? (
+          <None />
+        ) : (
+          <div className="space-y-3">
+            {view.contentScripts.map((script, i) => (
+              <ContentScriptCard key={i} index={i} script={script} fileList={fileList} />
+            ))}
+          </div>
+        )}
+      </Section>
+
+      <Section title="URL simulator">
+        <ContentScriptSimulator scripts={view.contentScripts} manifest={manifest} onSelectFile={onSelectFile} />
+      </Section>
+
+      <Section title="Action">
+        {!view.action ? (
+          <None />
+        ) : (
+          <Fields>
+            <Field label="Key">
+              <span className="font-mono text-xs">{view.action.key}</span>
+            </Field>
+            <Field label="Popup">{view.action.popup ? fileLink(view.action.popup) : <None />}</Field>
+            {view.action.title && <Field label="Title">{view.action.title}</Field>}
+            {view.action.icons.length > 0 && <Field label="Icons">{iconList(view.action.icons)}</Field>}
+          </Fields>
+        )}
+      </Section>
+
+      <Section title="Pages">
+        {!view.optionsPage && view.otherPages.length === 0 ? (
+          <None />
+        ) : (
+          <Fields>
+            {view.optionsPage && (
+              <Field label="Options">
+                {fileLink(view.optionsPage.path)}
+                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                  {view.optionsPage.openInTab ? 'opens in a tab' : 'embedded'}
+                </span>
+              </Field>
+            )}
+            {view.otherPages.map((page) => (
+              <Field key={page.field} label={page.field}>
+                {fileLink(page.path)}
+              </Field>
+            ))}
+          </Fields>
+        )}
+      </Section>
+
+      <Section title={`Commands (${view.commands.length})`}>
+        {view.commands.length === 0 ? (
+          <None />
+        ) : (
+          <table className="w-full text-sm">
+            <tbody>
+              {view.commands.map((command) => (
+                <tr key={command.name} className="border-b border-gray-100 dark:border-gray-800">
+                  <td className="py-1.5 pr-3 font-mono text-xs text-gray-900 dark:text-gray-100 whitespace-nowrap">{command.name}</td>
+                  <td className="py-1.5 pr-3 font-mono text-xs text-gray-600 dark:text-gray-400">
+                    {Object.entries(command.suggestedKeys)
+                      .map(([platform, key]) => `${platform}: ${key}`)
+                      .join(', ')}
+                    {command.global && ' · global'}
+                  </td>
+                  <td className="py-1.5 text-gray-700 dark:text-gray-300">{command.description}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </Section>
+
+      <Section title="Icons">{view.icons.length === 0 ? <None /> : iconList(view.icons)}</Section>
+
+      <Section title="Content Security Policy">
+        {view.contentSecurityPolicy.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">Not declared; the browser default applies</p>
+        ) : (
+          <Fields>
+            {view.contentSecurityPolicy.map((csp) => (
+              <Field key={csp.context} label={csp.context}>
+                <code className="text-xs text-gray-800 dark:text-gray-200 break-all">{csp.policy}</code>
+              </Field>
+            ))}
+          </Fields>
+        )}
+      </Section>
+
+      <Section title="Sandbox">
+        {!view.sandbox ? (
+          <None />
+        ) : (
+          <Fields>
+            <Field label="Pages">{fileList(view.sandbox.pages)}</Field>
+            {view.sandbox.contentSecurityPolicy && (
+              <Field label="CSP">
+                <code className="text-xs text-gray-800 dark:text-gray-200 break-all">{view.sandbox.contentSecurityPolicy}</code>
+              </Field>
+            )}
+          </Fields>
+        )}
+      </Section>
+
+      <Section title="Web-accessible resources">
+        {view.webAccessibleResources.length === 0 ? (
+          <None />
+        ) : (
+          <div className="space-y-3">
+            {view.webAccessibleResources.map((entry, i) => (
+              <Fields key={i}>
+                <Field label="Resources">
+                  <div className="flex flex-col items-start gap-0.5">
+                    {entry.resources.map((resource) =>
+                      /[*?]/.test(resource) ? (
+                        <span key={resource} className="font-mono text-xs text-gray-700 dark:text-gray-300">
+                          {resource}
+                        </span>
+                      ) : (
+                        fileLink(resource)
+                      )
+                    )}
+                  </div>
+                </Field>
+                <Field label="Exposed to">
+                  <span className="font-mono text-xs break-all">
+                    {[...entry.matches, ...entry.extensionIds].join(', ') || 'every site (Manifest V2)'}
+                  </span>
+                  {entry.useDynamicUrl && <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">dynamic URL</span>}
+                </Field>
+              </Fields>
+            ))}
+          </div>
+        )}
+      </Section>
+    </div>
+  );
+}
+
+function ContentScriptCard({
+  index,
+  script,
+  fileList,
+}: {
+  index: number;
+  script: ManifestContentScript;
+  fileList: (paths: string[]) => ReactNode;
+}) {
+  const flags = [
+    script.runAt,
+    script.world === 'MAIN' ? 'MAIN world' : 'isolated world',
+    script.allFrames && 'all frames',
+    script.matchAboutBlank && 'about:blank',
+    script.matchOriginAsFallback && 'origin fallback',
+  ].filter(Boolean);
+
+  return (
+    <div className="rounded border border-gray-200 dark:border-gray-700 p-3">
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+        #{index + 1} · {flags.join(' · ')}
+      </p>
+      <Fields>
+        <Field label="Matches">
+          <span className="font-mono text-xs break-all">{script.matches.join(', ') || '—'}</span>
+        </Field>
+        {script.excludeMatches.length > 0 && (
+          <Field label="Excludes">
+            <span className="font-mono text-xs break-all">{script.excludeMatches.join(', ')}</span>
+          </Field>
+        )}
+        {script.includeGlobs.length > 0 && (
+          <Field label="Include globs">
+            <span className="font-mono text-xs break-all">{script.includeGlobs.join(', ')}</span>
+          </Field>
+        )}
+        {script.excludeGlobs.length > 0 && (
+          <Field label="Exclude globs">
+            <span className="font-mono text-xs break-all">{script.excludeGlobs.join(', ')}</span>
+          </Field>
+        )}
+        {script.js.length > 0 && <Field label="JS">{fileList(script.js)}</Field>}
+        {script.css.length > 0 && <Field label="CSS">{fileList(script.css)}</Field>}
+      </Fields>
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section>
+      <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">{title}</h3>
+      {children}
+    </section>
+  );
+}
+
+function Fields({ children }: { children: ReactNode }) {
+  return <dl className="grid grid-cols-[8rem_1fr] gap-x-3 gap-y-1 text-sm">{children}</dl>;
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <>
+      <dt className="text-xs text-gray-500 dark:text-gray-400 pt-0.5 break-all">{label}</dt>
+      <dd className="text-gray-900 dark:text-gray-100 min-w-0">{children}</dd>
+    </>
+  );
+}
+
+function None() {
+  return <p className="text-sm text-gray-600 dark:text-gray-400">None</p>;
+}
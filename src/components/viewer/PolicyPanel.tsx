@@ -0,0 +1,238 @@
+/**
+ * Policy check panel
+ *
+ * Evaluates the saved extension policy (JSON or YAML) against the loaded
+ * extension and lists each rule as passed or failed. Violations that
+ * reference a file open it in the code viewer. The policy can be edited,
+ * loaded from a file, or reset to the starter policy; it is saved in
+ * localStorage and applies to every extension.
+ */
+
+import { useMemo, useRef, useState } from 'react';
+import { CheckCircle2, AlertTriangle, XCircle, Upload } from 'lucide-react';
+import { useViewerStore } from '@/store/viewerStore';
+import { useManifest } from '@/hooks/useManifest';
+import { useCodeScan } from '@/hooks/useCodeScan';
+import { getAllFiles } from '@/lib/zip/file-tree';
+import { evaluatePolicy, parsePolicy } from '@/lib/policy/policy';
+import type { PolicyRuleResult } from '@/lib/policy/policy';
+import { getPolicyText, resetPolicyText, savePolicyText } from '@/lib/policy/policy-storage';
+
+export interface PolicyPanelProps {
+  onSelectFile: (path: string, line?: number) => void;
+}
+
+export function PolicyPanel({ onSelectFile }: PolicyPanelProps) {
+  const crx = useViewerStore((state) => state.crx);
+  const { manifest, isLoading, error } = useManifest();
+  const codeScan = useCodeScan(manifest);
+  const [policyText, setPolicyText] = useState(getPolicyText);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [editError, setEditError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const parsed = useMemo(() => parsePolicy(policyText), [policyText]);
+
+  const files = useMemo(
+    () => (crx ? getAllFiles(crx.fileTree).map((file) => ({ path: file.path, size: file.size })) : []),
+    [crx]
+  );
+
+  const report = useMemo(() => {
+    if (!crx || !manifest || !parsed.success || codeScan.isLoading) {
+      return null;
+    }
+    return evaluatePolicy(parsed.policy, {
+      manifest,
+      files,
+      packageSize: crx.crxData.byteLength,
+      codeIssues: codeScan.issues,
+    });
+  }, [crx, manifest, files, parsed, codeScan.isLoading, codeScan.issues]);
+
+  const handleSave = () => {
+    if (draft === null) return;
+    const result = savePolicyText(draft);
+    if (!result.success) {
+      setEditError(result.error);
+      return;
+    }
+    setPolicyText(draft);
+    setDraft(null);
+    setEditError(null);
+  };
+
+  const handleReset = () => {
+    setDraft(resetPolicyText());
+    setEditError(null);
+  };
+
+  const handleLoadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setDraft(await file.text());
+    setEditError(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500" />
+      </div>
+    );
+  }
+
+  if (error || !manifest) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-6">
+        <div className="text-center">
+          <p className="text-red-600 dark:text-red-400 font-semibold mb-2">Cannot check policy</p>
+          <p className="text-gray-600 dark:text-gray-400 text-sm">{error ?? 'manifest.json not found'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const renderResult = (result: PolicyRuleResult) => {
+    const Icon = result.passed ? CheckCircle2 : result.severity === 'error' ? XCircle : AlertTriangle;
+    const iconClass = result.passed
+      ? 'text-green-600 dark:text-green-400'
+      : result.severity === 'error'
+        ? 'text-red-600 dark:text-red-400'
+        : 'text-yellow-600 dark:text-yellow-400';
+
+    return (
+      <li key={result.id} className="px-3 py-2 rounded border border-gray-100 dark:border-gray-800">
+        <div className="flex items-center gap-2">
+          <Icon className={`w-4 h-4 shrink-0 ${iconClass}`} />
+          <span className="font-mono text-sm text-gray-900 dark:text-gray-100">{result.id}</span>
+          <span className="text-xs text-gray-500 dark:text-gray-400">{result.type}</span>
+          {result.severity === 'warning' && (
+            <span className="text-xs font-medium text-yellow-700 dark:text-yellow-400">warning</span>
+          )}
+        </div>
+        {result.description && (
+          <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">{result.description}</p>
+        )}
+        {result.violations.length > 0 && (
+          <ul className="mt-1 space-y-0.5">
+            {result.violations.map((violation, index) => (
+              <li key={index}>
+                <button
+                  onClick={() => violation.file && onSelectFile(violation.file, violation.line)}
+                  disabled={!violation.file}
+                  className="w-full text-left px-2 py-1 rounded text-sm text-gray-800 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:cursor-default disabled:hover:bg-transparent"
+                >
+                  {violation.message}
+                  {violation.file && (
+                    <span className="ml-2 text-xs font-mono text-blue-600 dark:text-blue-400">
+                      {violation.file}
+                      {violation.line ? `:${violation.line}` : ''}
+                    </span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="flex-1 overflow-auto bg-white dark:bg-gray-900 p-4 space-y-6">
+      {/* Summary */}
+      <section className="flex flex-wrap items-center gap-3">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+          {parsed.success ? parsed.policy.name ?? 'Policy' : 'Policy'}
+        </h3>
+        {report && (
+          <>
+            <span
+              className={`px-2 py-0.5 rounded text-xs font-semibold uppercase ${
+                report.passed
+                  ? 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300'
+                  : 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-300'
+              }`}
+            >
+              {report.passed ? 'pass' : 'fail'}
+            </span>
+            <span className="text-sm text-gray-600 dark:text-gray-400">
+              {report.summary.passed} of {report.summary.total} rules passed
+              {report.summary.failed > 0 && ` · ${report.summary.failed} failed`}
+              {report.summary.warnings > 0 &&
+                ` · ${report.summary.warnings} warning${report.summary.warnings === 1 ? '' : 's'}`}
+            </span>
+          </>
+        )}
+        <button
+          onClick={() => {
+            setDraft(draft === null ? policyText : null);
+            setEditError(null);
+          }}
+          className="ml-auto text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 font-medium"
+        >
+          {draft === null ? 'Edit policy' : 'Close editor'}
+        </button>
+      </section>
+
+      {/* Editor */}
+      {draft !== null && (
+        <section className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => {
+              setDraft(e.target.value);
+              setEditError(null);
+            }}
+            spellCheck={false}
+            rows={16}
+            className="w-full px-3 py-2 text-xs font-mono rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Policy (JSON or YAML)"
+          />
+          {editError && <p className="text-sm text-red-600 dark:text-red-400">{editError}</p>}
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleSave}
+              className="px-3 py-1.5 text-sm font-medium rounded bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+            >
+              <Upload className="w-4 h-4" />
+              Load file
+            </button>
+            <button
+              onClick={handleReset}
+              className="px-3 py-1.5 text-sm rounded text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+            >
+              Reset to starter policy
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.yaml,.yml,application/json,text/yaml"
+              onChange={handleLoadFile}
+              className="hidden"
+            />
+          </div>
+        </section>
+      )}
+
+      {/* Results */}
+      <section>
+        {!parsed.success ? (
+          <p className="text-sm text-red-600 dark:text-red-400">{parsed.error}</p>
+        ) : !report ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">Scanning sources...</p>
+        ) : (
+          <ul className="space-y-2">{report.results.map(renderResult)}</ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+/**
+ * Risk level badge
+ *
+ * Small colored label for low / medium / high risk levels.
+ */
+
+import type { RiskLevel } from '@/lib/analysis/permissions';
+
+export interface RiskBadgeProps {
+  level: RiskLevel;
+}
+
+const RISK_STYLES: Record<RiskLevel, string> = {
+  high: 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-300',
+  medium: 'bg-yellow-100 dark:bg-yellow-900/40 text-yellow-800 dark:text-yellow-300',
+  low: 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300',
+};
+
+export function RiskBadge({ level }: RiskBadgeProps) {
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs font-semibold uppercase ${RISK_STYLES[level]}`}>
+      {level}
+    </span>
+  );
+}
@@ -10,6 +10,7 @@ import { Search, Filter } from 'lucide-react';
 import { FileFilter } from './FileFilter';
 import { ContentSearch } from './ContentSearch';
 import { useFileFilter } from '@/hooks/useFileFilter';
+import { useSearchableFiles } from '@/hooks/useSearchableFiles';
 import { useViewerStore } from '@/store';
 import { getAllFiles } from '@/lib/zip/file-tree';
 import type { SearchMatch } from '@/lib/search/content-search';
@@ -47,16 +48,8 @@ export function SearchAndFilterPanel({
     return getAllFiles(crx.fileTree);
   }, [crx]);
 
-  // Create file content array for search
-  const fileContents = useMemo(() => {
-    return allFiles.map(file => ({
-      fileId: file.path,
-      filePath: file.path,
-      content: '',
-      // In a real implementation, this would load the actual file content
-      // from the cache or extract it from the CRX
-    }));
-  }, [allFiles]);
+  // Text files for search, including those in nested archives; loaded when search first opens
+  const { files: fileContents } = useSearchableFiles(isSearchOpen);
 
   // Get filtered files
   const filteredFiles = useMemo(() => {
@@ -0,0 +1,179 @@
+/**
+ * Security analysis panel
+ *
+ * Shows the overall risk level, permission risk breakdown, manifest issues
+ * and static code scanner findings for the loaded extension. Issues that
+ * reference a file open it in the code viewer at the reported line.
+ */
+
+import { useMemo } from 'react';
+import { useManifest } from '@/hooks/useManifest';
+import { useCodeScan } from '@/hooks/useCodeScan';
+import { analyzeManifest, calculateRiskLevel } from '@/lib/analysis/manifest-analyzer';
+import type { AnalysisIssue } from '@/lib/analysis/manifest-analyzer';
+import type { RiskLevel } from '@/lib/analysis/permissions';
+import { RiskBadge } from './RiskBadge';
+
+export interface SecurityPanelProps {
+  onSelectFile: (path: string, line?: number) => void;
+}
+
+const SEVERITY_ORDER: Record<RiskLevel, number> = { high: 0, medium: 1, low: 2 };
+
+function compareIssues(a: AnalysisIssue, b: AnalysisIssue): number {
+  return (
+    SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+    (a.file ?? '').localeCompare(b.file ?? '') ||
+    (a.line ?? 0) - (b.line ?? 0)
+  );
+}
+
+export function SecurityPanel({ onSelectFile }: SecurityPanelProps) {
+  const { manifest, isLoading, error } = useManifest();
+
+  const codeScan = useCodeScan(manifest);
+
+  const analysis = useMemo(() => (manifest ? analyzeManifest(manifest) : null), [manifest]);
+
+  const sortedIssues = useMemo(() => {
+    if (!analysis) return [];
+    return [...analysis.issues].sort(compareIssues);
+  }, [analysis]);
+
+  const sortedCodeIssues = useMemo(() => [...codeScan.issues].sort(compareIssues), [codeScan.issues]);
+
+  const riskLevel = useMemo(
+    () => (analysis ? calculateRiskLevel(analysis.permissions, [...analysis.issues, ...codeScan.issues]) : 'low'),
+    [analysis, codeScan.issues]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500" />
+      </div>
+    );
+  }
+
+  if (error || !analysis) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-6">
+        <div className="text-center">
+          <p className="text-red-600 dark:text-red-400 font-semibold mb-2">Cannot analyze manifest</p>
+          <p className="text-gray-600 dark:text-gray-400 text-sm">{error ?? 'manifest.json not found'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const renderIssue = (issue: AnalysisIssue, index: number) => (
+    <li key={`${issue.code}-${index}`}>
+      <button
+        onClick={() => issue.file && onSelectFile(issue.file, issue.line)}
+        disabled={!issue.file}
+        className="w-full text-left px-3 py-2 rounded hover:bg-gray-100 dark:hover:bg-gray-800 disabled:cursor-default transition-colors duration-150"
+      >
+        <div className="flex items-center gap-2">
+          <RiskBadge level={issue.severity} />
+          <span className="font-mono text-xs text-gray-500 dark:text-gray-400">{issue.code}</span>
+          {issue.type === 'error' && (
+            <span className="text-xs font-medium text-red-600 dark:text-red-400">error</span>
+          )}
+        </div>
+        <p className="mt-1 text-sm text-gray-800 dark:text-gray-200">{issue.message}</p>
+        {issue.file && (
+          <p className="mt-0.5 text-xs font-mono text-blue-600 dark:text-blue-400">
+            {issue.file}
+            {issue.line ? `:${issue.line}` : ''}
+          </p>
+        )}
+      </button>
+    </li>
+  );
+
+  return (
+    <div className="flex-1 overflow-auto bg-white dark:bg-gray-900 p-4 space-y-6">
+      {/* Summary */}
+      <section className="flex items-center gap-3">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Overall risk</h3>
+        <RiskBadge level={riskLevel} />
+        <span className="text-sm text-gray-600 dark:text-gray-400">
+          Manifest V{analysis.manifestVersion || '?'} · {analysis.issues.length} issue{analysis.issues.length === 1 ? '' : 's'}
+          {!codeScan.isLoading && ` · ${codeScan.issues.length} code finding${codeScan.issues.length === 1 ? '' : 's'}`}
+        </span>
+      </section>
+
+      {/* Permissions */}
+      <section>
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">Permissions</h3>
+        {analysis.permissions.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">No permissions requested</p>
+        ) : (
+          <table className="w-full text-sm">
+            <tbody>
+              {analysis.permissions.map((permission) => (
+                <tr
+                  key={`${permission.optional}-${permission.permission}`}
+                  className="border-b border-gray-100 dark:border-gray-800"
+                >
+                  <td className="py-1.5 pr-3 font-mono text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                    {permission.permission}
+                  </td>
+                  <td className="py-1.5 pr-3">
+                    <RiskBadge level={permission.risk} />
+                  </td>
+                  <td className="py-1.5 pr-3 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {permission.kind}
+                    {permission.optional ? ' · optional' : ''}
+                  </td>
+                  <td className="py-1.5 text-gray-700 dark:text-gray-300">{permission.description}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      {/* Content security policy */}
+      {analysis.contentSecurityPolicy && (
+        <section>
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">Content Security Policy</h3>
+          <code className="block px-3 py-2 rounded bg-gray-100 dark:bg-gray-800 text-xs text-gray-800 dark:text-gray-200 break-all">
+            {analysis.contentSecurityPolicy}
+          </code>
+        </section>
+      )}
+
+      {/* Issues */}
+      <section>
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">Issues</h3>
+        {sortedIssues.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">No issues found</p>
+        ) : (
+          <ul className="space-y-1">{sortedIssues.map(renderIssue)}</ul>
+        )}
+      </section>
+
+      {/* Code findings */}
+      <section>
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">
+          Code findings
+          {!codeScan.isLoading && (
+            <span className="ml-2 font-normal text-xs text-gray-500 dark:text-gray-400">
+              {codeScan.fileCount} file{codeScan.fileCount === 1 ? '' : 's'} scanned
+            </span>
+          )}
+        </h3>
+        {codeScan.isLoading ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">Scanning sources...</p>
+        ) : codeScan.error ? (
+          <p className="text-sm text-red-600 dark:text-red-400">{codeScan.error}</p>
+        ) : sortedCodeIssues.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">No findings</p>
+        ) : (
+          <ul className="space-y-1">{sortedCodeIssues.map(renderIssue)}</ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * Signature status badge
+ *
+ * Summarizes CRX signature verification for the loaded package, with
+ * per-proof details in the tooltip.
+ */
+
+import type { CrxSignatureStatus } from '@/lib/crx/signature';
+
+export interface SignatureBadgeProps {
+  signature: CrxSignatureStatus | null;
+}
+
+export function SignatureBadge({ signature }: SignatureBadgeProps) {
+  if (!signature) {
+    return (
+      <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200">
+        Signature unknown
+      </span>
+    );
+  }
+
+  const details = [
+    `CRX${signature.version}${signature.crxId ? ` · ID ${signature.crxId}` : ''}`,
+    ...signature.proofs.map((proof) => {
+      const role = proof.isWebStore ? 'Web Store' : proof.isPublisher ? 'publisher' : 'other';
+      const state = proof.valid ? 'valid' : `invalid${proof.error ? ` (${proof.error})` : ''}`;
+      return `${proof.algorithm} [${role}] ${proof.keyId}: ${state}`;
+    }),
+    ...(signature.headerError ? [signature.headerError] : []),
+  ].join('\n');
+
+  let label: string;
+  let className: string;
+
+  if (signature.publisherSigned && signature.webStoreSigned) {
+    label = 'Signed · Web Store';
+    className = 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300';
+  } else if (signature.publisherSigned) {
+    label = 'Signed · Publisher only';
+    className = 'bg-yellow-100 dark:bg-yellow-900/40 text-yellow-800 dark:text-yellow-300';
+  } else {
+    label = 'Invalid signature';
+    className = 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-300';
+  }
+
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs font-medium cursor-help ${className}`} title={details}>
+      {label}
+    </span>
+  );
+}
@@ -1,8 +1,8 @@
 /**
  * Toolbar for code/source viewing
  *
- * Provides buttons for beautifying code, downloading files, calculating hashes,
- * and displaying file information.
+ * Provides buttons for beautifying code, mapping bundled lines to their original
+ * sources, deobfuscating scripts, downloading files, calculating hashes, and displaying file information.
  */
 
 import { useState } from 'react';
@@ -18,6 +18,15 @@ interface SourceToolbarProps {
   isBeautified: boolean;
   onBeautifyToggle: () => void;
   onCopyContent: () => void;
+  /** Toggles original-source mapping; the button is shown only when set */
+  onOriginalToggle?: () => void;
+  isShowingOriginal?: boolean;
+  /** Toggles the deobfuscation view; the button is shown only when set */
+  onDeobfuscateToggle?: () => void;
+  isDeobfuscating?: boolean;
+  /** Opens the file's annotations; the button is shown only when set */
+  onAnnotate?: () => void;
+  annotationCount?: number;
 }
 
 export function SourceToolbar({
@@ -28,6 +37,12 @@ export function SourceToolbar({
   isBeautified,
   onBeautifyToggle,
   onCopyContent,
+  onOriginalToggle,
+  isShowingOriginal = false,
+  onDeobfuscateToggle,
+  isDeobfuscating = false,
+  onAnnotate,
+  annotationCount = 0,
 }: SourceToolbarProps) {
   const [showHash, setShowHash] = useState(false);
   const [hashValue, setHashValue] = useState<string | null>(null);
@@ -95,6 +110,54 @@ export function SourceToolbar({
             {isBeautified ? 'Beautified' : 'Beautify'}
           </button>
 
+          {onOriginalToggle && (
+            <button
+              onClick={onOriginalToggle}
+              className={`
+                px-3 py-1.5 text-sm font-medium rounded border
+                transition-colors duration-150
+                ${isShowingOriginal
+                  ? 'bg-purple-600 border-purple-600 text-white hover:bg-purple-700'
+                  : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-600 text-gray-900 dark:text-gray-100'}
+              `}
+              title="Map bundled lines to their original source"
+            >
+              Original
+            </button>
+          )}
+
+          {onDeobfuscateToggle && (
+            <button
+              onClick={onDeobfuscateToggle}
+              className={`
+                px-3 py-1.5 text-sm font-medium rounded border
+                transition-colors duration-150
+                ${isDeobfuscating
+                  ? 'bg-purple-600 border-purple-600 text-white hover:bg-purple-700'
+                  : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-600 text-gray-900 dark:text-gray-100'}
+              `}
+              title="Compare the original with a deobfuscated version"
+            >
+              Deobfuscate
+            </button>
+          )}
+
+          {onAnnotate && (
+            <button
+              onClick={onAnnotate}
+              className="
+                px-3 py-1.5 text-sm font-medium rounded
+                bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600
+                hover:bg-gray-50 dark:hover:bg-gray-600
+                text-gray-900 dark:text-gray-100
+                transition-colors duration-150
+              "
+              title="Show file annotations"
+            >
+              {annotationCount > 0 ? `Notes (${annotationCount})` : 'Notes'}
+            </button>
+          )}
+
           <button
             onClick={onCopyContent}
             className="
@@ -1,20 +1,35 @@
 /**
  * Top navigation bar component
  *
- * Provides URL input, load/download buttons, and filter toggles for the viewer.
+ * Provides URL input, a local file picker, load/download buttons, download
+ * settings, a version picker, and filter toggles for the viewer. Picking a
+ * version reloads the viewer with that build from the library or the
+ * version archive.
+ * The original package is offered as CRX or XPI; plain ZIP uploads only as ZIP.
  */
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
+import { Settings } from 'lucide-react';
 import { useViewerStore } from '@/store/viewerStore';
+import { useCrxLoader } from '@/hooks/useCrxLoader';
+import { useManifest } from '@/hooks/useManifest';
+import { useExtensionVersions } from '@/hooks/useExtensionVersions';
+import { SignatureBadge } from './SignatureBadge';
+import { SettingsPanel } from '@/components/settings/SettingsPanel';
 
 export function TopBar() {
   const [urlInput, setUrlInput] = useState('');
+  const [showSettings, setShowSettings] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { loadFromFile } = useCrxLoader();
 
   const loadingState = useViewerStore((state) => state.loadingState);
   const error = useViewerStore((state) => state.error);
   const crx = useViewerStore((state) => state.crx);
   const loadCrxFromUrl = useViewerStore((state) => state.loadCrxFromUrl);
   const clearError = useViewerStore((state) => state.clearError);
+  const { manifest } = useManifest();
+  const { versions } = useExtensionVersions();
 
   const handleLoadFromUrl = async () => {
     if (!urlInput.trim()) {
@@ -29,12 +44,25 @@ export function TopBar() {
     }
   };
 
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      loadFromFile(file);
+    }
+    e.target.value = '';
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter') {
       handleLoadFromUrl();
     }
   };
 
+  const handleVersionChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (!crx || e.target.value === currentVersion) return;
+    loadCrxFromUrl(crx.extensionId, { version: e.target.value });
+  };
+
   const handleDownloadCrx = () => {
     if (!crx) return;
 
@@ -57,8 +85,8 @@ export function TopBar() {
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    // Change extension from .crx to .zip
-    const zipFileName = crx.fileName.replace(/\.crx$/, '.zip');
+    // Change extension from .crx / .xpi to .zip
+    const zipFileName = crx.fileName.replace(/\.(crx|xpi)$/, '.zip');
     link.download = zipFileName;
     document.body.appendChild(link);
     link.click();
@@ -67,6 +95,10 @@ export function TopBar() {
   };
 
   const isLoading = loadingState === 'loading';
+  const currentVersion = typeof manifest?.version === 'string' ? manifest.version : null;
+  const versionOptions =
+    currentVersion && !versions.includes(currentVersion) ? [currentVersion, ...versions] : versions;
+  const originalExtension = crx ? (crx.fileName.split('.').pop() ?? 'crx').toUpperCase() : 'CRX';
 
   return (
     <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 shadow-sm relative z-10">
@@ -80,7 +112,7 @@ export function TopBar() {
               value={urlInput}
               onChange={(e) => setUrlInput(e.target.value)}
               onKeyPress={handleKeyPress}
-              placeholder="Enter Chrome Web Store URL or Extension ID..."
+              placeholder="Enter Chrome, Edge or Firefox add-on URL, or Extension ID..."
               className="
                 flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded
                 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent
@@ -101,14 +133,79 @@ export function TopBar() {
             >
               {isLoading ? 'Loading...' : 'Load'}
             </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isLoading}
+              className="
+                px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded
+                hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed
+                transition-colors duration-150 text-sm font-medium
+              "
+              title="Open a CRX, XPI or ZIP file from your computer"
+            >
+              Open file
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".crx,.xpi,.zip"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <button
+              onClick={() => setShowSettings(true)}
+              className="
+                px-2 py-2 rounded text-gray-600 dark:text-gray-300
+                hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors duration-150
+              "
+              title="Download settings"
+              aria-label="Download settings"
+            >
+              <Settings className="w-5 h-5" />
+            </button>
           </div>
 
           {/* Extension Info & Action Buttons */}
           {crx && (
             <div className="flex items-center justify-between gap-2 px-3 py-2 bg-gray-50 dark:bg-gray-700 rounded border border-gray-200 dark:border-gray-600">
-              <div className="text-sm">
+              <div className="flex items-center gap-2 text-sm">
                 <span className="text-gray-700 dark:text-gray-300 font-medium">Loaded:</span>
-                <span className="ml-2 font-mono text-gray-900 dark:text-gray-100">{crx.extensionId}</span>
+                <span className="font-mono text-gray-900 dark:text-gray-100">{crx.extensionId}</span>
+                {crx.format === 'crx' ? (
+                  <SignatureBadge signature={crx.signature} />
+                ) : (
+                  <span
+                    className="px-2 py-0.5 rounded text-xs font-medium bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200"
+                    title="Plain ZIP package without a CRX header; CRX signatures do not apply"
+                  >
+                    {originalExtension} package
+                  </span>
+                )}
+                {versionOptions.length > 1 ? (
+                  <select
+                    value={currentVersion ?? ''}
+                    onChange={handleVersionChange}
+                    disabled={isLoading}
+                    className="
+                      px-2 py-0.5 text-xs font-mono rounded border border-gray-300 dark:border-gray-600
+                      bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100
+                      focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50
+                    "
+                    title="Load another version from the library or the version archive"
+                    aria-label="Extension version"
+                  >
+                    {!currentVersion && <option value="">unknown version</option>}
+                    {versionOptions.map((version) => (
+                      <option key={version} value={version}>
+                        v{version}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  currentVersion && (
+                    <span className="text-xs font-mono text-gray-600 dark:text-gray-400">v{currentVersion}</span>
+                  )
+                )}
               </div>
               <div className="flex gap-2">
                 <button
@@ -121,16 +218,18 @@ export function TopBar() {
                 >
                   Download ZIP
                 </button>
-                <button
-                  onClick={handleDownloadCrx}
-                  className="
-                    px-3 py-1 bg-green-600 dark:bg-green-500 text-white rounded text-sm
-                    hover:bg-green-700 dark:hover:bg-green-600 transition-colors duration-150
-                  "
-                  title="Download CRX file"
-                >
-                  Download CRX
-                </button>
+                {originalExtension !== 'ZIP' && (
+                  <button
+                    onClick={handleDownloadCrx}
+                    className="
+                      px-3 py-1 bg-green-600 dark:bg-green-500 text-white rounded text-sm
+                      hover:bg-green-700 dark:hover:bg-green-600 transition-colors duration-150
+                    "
+                    title={`Download ${originalExtension} file`}
+                  >
+                    Download {originalExtension}
+                  </button>
+                )}
               </div>
             </div>
           )}
@@ -155,6 +254,8 @@ export function TopBar() {
           </button>
         </div>
       )}
+
+      {showSettings && <SettingsPanel onClose={() => setShowSettings(false)} />}
     </div>
   );
 }
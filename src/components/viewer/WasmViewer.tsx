@@ -0,0 +1,262 @@
+/**
+ * WebAssembly module viewer
+ *
+ * Shows a parsed .wasm module: section layout, imports (with imports that
+ * bridge into JavaScript APIs flagged), exports, memories, tables, globals
+ * and custom sections. Picking a function from the list shows a WAT-style
+ * disassembly of its body. The module is only parsed, never instantiated.
+ */
+
+import { useMemo, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { parseWasmModule, formatFuncType } from '@/lib/wasm/wasm-parser';
+import type { WasmLimits, WasmModule } from '@/lib/wasm/wasm-parser';
+import { disassembleFunction, functionLabel } from '@/lib/wasm/wasm-disassembler';
+import { formatFileSize } from '@/lib/utils/hash';
+
+export interface WasmViewerProps {
+  data: Uint8Array;
+  fileName: string;
+  filePath: string;
+}
+
+type WasmTab = 'imports' | 'exports' | 'functions' | 'other';
+
+export function WasmViewer({ data, fileName, filePath }: WasmViewerProps) {
+  const parsed = useMemo(() => parseWasmModule(data), [data]);
+  const [tab, setTab] = useState<WasmTab>('imports');
+
+  if (!parsed.success) {
+    return (
+      <div className="flex items-center justify-center h-full bg-white dark:bg-gray-900 p-6">
+        <div className="text-center">
+          <p className="text-red-600 dark:text-red-400 font-semibold mb-2">Error</p>
+          <p className="text-gray-700 dark:text-gray-300">{parsed.error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { module } = parsed;
+  const bridgeCount = module.imports.filter((entry) => entry.jsBridge).length;
+  const definedCount = module.functions.filter((fn) => fn.body).length;
+  const tabs: { id: WasmTab; label: string }[] = [
+    { id: 'imports', label: `Imports (${module.imports.length})` },
+    { id: 'exports', label: `Exports (${module.exports.length})` },
+    { id: 'functions', label: `Functions (${definedCount})` },
+    { id: 'other', label: 'Memory & sections' },
+  ];
+
+  return (
+    <div className="flex flex-col h-full bg-white dark:bg-gray-900">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">{fileName}</h2>
+        <p className="text-xs text-gray-600 dark:text-gray-400 mt-1 font-mono">{filePath}</p>
+        <p className="text-sm text-gray-700 dark:text-gray-300 mt-2">
+          WebAssembly module v{module.version} · {formatFileSize(module.size)} · {module.sections.length} sections
+        </p>
+        {bridgeCount > 0 && (
+          <p className="flex items-center gap-1.5 mt-2 text-sm text-amber-700 dark:text-amber-400">
+            <AlertTriangle className="w-4 h-4" />
+            {bridgeCount} import{bridgeCount === 1 ? '' : 's'} bridge into JavaScript APIs
+          </p>
+        )}
+      </div>
+
+      <div className="flex gap-1 px-4 pt-2 border-b border-gray-200 dark:border-gray-700">
+        {tabs.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => setTab(id)}
+            className={`px-3 py-1.5 text-sm font-medium border-b-2 -mb-px transition-colors duration-150 ${
+              tab === id
+                ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                : 'border-transparent text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto">
+        {tab === 'imports' && <ImportsTable module={module} />}
+        {tab === 'exports' && <ExportsTable module={module} />}
+        {tab === 'functions' && <FunctionBrowser data={data} module={module} />}
+        {tab === 'other' && <ModuleDetails module={module} />}
+      </div>
+    </div>
+  );
+}
+
+const TABLE_CLASS = 'w-full text-sm text-left';
+const HEAD_CLASS = 'px-4 py-2 text-xs font-semibold text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700';
+const CELL_CLASS = 'px-4 py-1.5 border-b border-gray-100 dark:border-gray-800 text-gray-900 dark:text-gray-100';
+
+function ImportsTable({ module }: { module: WasmModule }) {
+  if (module.imports.length === 0) {
+    return <p className="p-4 text-sm text-gray-600 dark:text-gray-400">The module has no imports</p>;
+  }
+
+  return (
+    <table className={TABLE_CLASS}>
+      <thead>
+        <tr>
+          <th className={HEAD_CLASS}>Module</th>
+          <th className={HEAD_CLASS}>Name</th>
+          <th className={HEAD_CLASS}>Type</th>
+          <th className={HEAD_CLASS}>JS bridge</th>
+        </tr>
+      </thead>
+      <tbody>
+        {module.imports.map((entry, i) => (
+          <tr key={i} className={entry.jsBridge ? 'bg-amber-50 dark:bg-amber-950/30' : ''}>
+            <td className={`${CELL_CLASS} font-mono`}>{entry.module}</td>
+            <td className={`${CELL_CLASS} font-mono break-all`}>{entry.name}</td>
+            <td className={`${CELL_CLASS} font-mono text-xs`}>
+              {entry.kind === 'func' ? `func ${entry.description}` : entry.description}
+            </td>
+            <td className={`${CELL_CLASS} text-xs text-amber-700 dark:text-amber-400`}>{entry.jsBridge}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function ExportsTable({ module }: { module: WasmModule }) {
+  if (module.exports.length === 0) {
+    return <p className="p-4 text-sm text-gray-600 dark:text-gray-400">The module has no exports</p>;
+  }
+
+  return (
+    <table className={TABLE_CLASS}>
+      <thead>
+        <tr>
+          <th className={HEAD_CLASS}>Name</th>
+          <th className={HEAD_CLASS}>Kind</th>
+          <th className={HEAD_CLASS}>Index</th>
+          <th className={HEAD_CLASS}>Signature</th>
+        </tr>
+      </thead>
+      <tbody>
+        {module.exports.map((entry) => (
+          <tr key={entry.name}>
+            <td className={`${CELL_CLASS} font-mono break-all`}>{entry.name}</td>
+            <td className={CELL_CLASS}>{entry.kind}</td>
+            <td className={`${CELL_CLASS} font-mono`}>{entry.index}</td>
+            <td className={`${CELL_CLASS} font-mono text-xs`}>
+              {entry.kind === 'func' && module.functions[entry.index]
+                ? formatFuncType(module.functions[entry.index].type)
+                : ''}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function FunctionBrowser({ data, module }: { data: Uint8Array; module: WasmModule }) {
+  const defined = useMemo(() => module.functions.filter((fn) => fn.body), [module]);
+  const [selected, setSelected] = useState<number | null>(
+    () => (defined.find((fn) => fn.name) ?? defined[0])?.index ?? null
+  );
+
+  const disassembly = useMemo(
+    () => (selected === null ? '' : disassembleFunction(data, module, selected)),
+    [data, module, selected]
+  );
+
+  if (defined.length === 0) {
+    return <p className="p-4 text-sm text-gray-600 dark:text-gray-400">The module defines no functions</p>;
+  }
+
+  return (
+    <div className="flex h-full min-h-0">
+      <ul className="w-64 shrink-0 overflow-auto border-r border-gray-200 dark:border-gray-700 text-sm">
+        {defined.map((fn) => (
+          <li key={fn.index}>
+            <button
+              onClick={() => setSelected(fn.index)}
+              className={`w-full text-left px-3 py-1 font-mono text-xs truncate ${
+                selected === fn.index
+                  ? 'bg-blue-500 text-white dark:bg-blue-600'
+                  : 'text-gray-900 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-800'
+              }`}
+              title={`${functionLabel(fn)} ${formatFuncType(fn.type)}`}
+            >
+              {functionLabel(fn)}
+            </button>
+          </li>
+        ))}
+      </ul>
+      <pre className="flex-1 m-0 p-4 overflow-auto text-xs leading-relaxed font-mono text-gray-900 dark:text-gray-100">
+        {disassembly}
+      </pre>
+    </div>
+  );
+}
+
+function ModuleDetails({ module }: { module: WasmModule }) {
+  const limits = (value: WasmLimits, unit: string) =>
+    `${value.min}${value.max === null ? '+' : `–${value.max}`} ${unit}${value.shared ? ', shared' : ''}`;
+
+  const groups: { title: string; rows: string[] }[] = [
+    {
+      title: 'Memories',
+      rows: module.memories.map(
+        (memory, i) => `${i}: ${limits(memory.limits, 'pages (64 KiB)')}${memory.imported ? ' · imported' : ''}`
+      ),
+    },
+    {
+      title: 'Tables',
+      rows: module.tables.map(
+        (table, i) => `${i}: ${table.elementType}, ${limits(table.limits, 'entries')}${table.imported ? ' · imported' : ''}`
+      ),
+    },
+    {
+      title: 'Globals',
+      rows: module.globals.map(
+        (global, i) => `${i}: ${global.mutable ? 'mut ' : ''}${global.type}${global.imported ? ' · imported' : ''}`
+      ),
+    },
+    {
+      title: 'Custom sections',
+      rows: module.customSections.map((section) => `${section.name} (${formatFileSize(section.size)})`),
+    },
+    {
+      title: 'Sections',
+      rows: module.sections.map(
+        (section) => `${section.name} at 0x${section.offset.toString(16)} (${formatFileSize(section.size)})`
+      ),
+    },
+    {
+      title: 'Other',
+      rows: [
+        `Start function: ${module.startFunction ?? 'none'}`,
+        `Element segments: ${module.elementSegmentCount}`,
+        `Data segments: ${module.dataSegmentCount}`,
+      ],
+    },
+  ];
+
+  return (
+    <div className="p-4 grid gap-4 sm:grid-cols-2">
+      {groups.map((group) => (
+        <div key={group.title}>
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-1">{group.title}</h3>
+          {group.rows.length === 0 ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400">None</p>
+          ) : (
+            <ul className="text-xs font-mono text-gray-700 dark:text-gray-300 space-y-0.5">
+              {group.rows.map((row, i) => (
+                <li key={i}>{row}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
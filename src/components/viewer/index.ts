@@ -3,11 +3,40 @@
  */
 
 export { TopBar } from './TopBar';
+export { SignatureBadge } from './SignatureBadge';
+export type { SignatureBadgeProps } from './SignatureBadge';
 export { FileTree } from './FileTree';
 export { CodeViewer } from './CodeViewer';
 export { SourceToolbar } from './SourceToolbar';
+export { DeobfuscationView } from './DeobfuscationView';
+export type { DeobfuscationViewProps } from './DeobfuscationView';
+export { AnnotationPanel } from './AnnotationPanel';
+export type { AnnotationPanelProps } from './AnnotationPanel';
+export { AnnotationControls } from './AnnotationControls';
+export { AnnotationBadge, AnnotationMarker } from './AnnotationBadge';
+export type { AnnotationBadgeProps, AnnotationMarkerProps } from './AnnotationBadge';
 export { PanelResizer } from './PanelResizer';
 export { ImagePreview } from './ImagePreview';
+export { WasmViewer } from './WasmViewer';
+export type { WasmViewerProps } from './WasmViewer';
+export { HexViewer } from './HexViewer';
+export type { HexViewerProps } from './HexViewer';
+export { ManifestPanel } from './ManifestPanel';
+export type { ManifestPanelProps } from './ManifestPanel';
+export { ContentScriptSimulator } from './ContentScriptSimulator';
+export type { ContentScriptSimulatorProps } from './ContentScriptSimulator';
+export { LocalesPanel } from './LocalesPanel';
+export type { LocalesPanelProps } from './LocalesPanel';
+export { ArchitecturePanel } from './ArchitecturePanel';
+export type { ArchitecturePanelProps } from './ArchitecturePanel';
+export { DependenciesPanel } from './DependenciesPanel';
+export type { DependenciesPanelProps } from './DependenciesPanel';
+export { SecurityPanel } from './SecurityPanel';
+export type { SecurityPanelProps } from './SecurityPanel';
+export { PolicyPanel } from './PolicyPanel';
+export type { PolicyPanelProps } from './PolicyPanel';
+export { RiskBadge } from './RiskBadge';
+export type { RiskBadgeProps } from './RiskBadge';
 export { SkeletonLoader, FileTreeSkeletonLoader, CodeViewerSkeletonLoader, ToolbarSkeletonLoader } from './SkeletonLoader';
 export type { SkeletonLoaderProps } from './SkeletonLoader';
 export {
@@ -0,0 +1,90 @@
+/**
+ * Hook for the architecture graph of the loaded extension
+ *
+ * Handles:
+ * - Loading every page, script and manifest.json from the ZIP in one pass
+ * - Building the context and messaging graph from the normalized manifest
+ * - Resetting when a different extension is loaded
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useViewerStore } from '@/store/viewerStore';
+import { loadZipFiles } from '@/lib/zip/extractor';
+import { getAllFiles } from '@/lib/zip/file-tree';
+import { isScannableFile } from '@/lib/analysis/code-scanner';
+import { buildArchitectureGraph } from '@/lib/architecture/graph';
+import type { SourceFile } from '@/lib/architecture/references';
+import type { ManifestView } from '@/lib/manifest/manifest-view';
+import type { LoadedCrx } from '@/types/index';
+
+interface SourceState {
+  crx: LoadedCrx | null;
+  files: SourceFile[];
+  error: string | null;
+}
+
+/**
+ * Hook to map the loaded extension's contexts, script loading and messaging
+ *
+ * Usage:
+ * ```tsx
+ * const { view } = useManifestView();
+ * const { graph, isLoading, error } = useArchitectureGraph(view);
+ *
+ * graph?.edges.forEach((edge) => console.log(edge.kind, edge.from, edge.to));
+ * ```
+ *
+ * @param view - Normalized manifest declaring the contexts
+ */
+export function useArchitectureGraph(view: ManifestView | null) {
+  const crx = useViewerStore((state) => state.crx);
+  const [state, setState] = useState<SourceState>({ crx: null, files: [], error: null });
+
+  useEffect(() => {
+    if (!crx) {
+      return;
+    }
+
+    let cancelled = false;
+
+    loadZipFiles(crx.zipData, (path) => path === 'manifest.json' || isScannableFile(path)).then((result) => {
+      if (cancelled) {
+        return;
+      }
+
+      if (!result.success) {
+        setState({ crx, files: [], error: result.error });
+        return;
+      }
+
+      const decoder = new TextDecoder('utf-8');
+      setState({
+        crx,
+        files: result.files.map((file) => ({
+          path: file.name,
+          content: file.data ? decoder.decode(file.data) : '',
+        })),
+        error: null,
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [crx]);
+
+  // Sources from a previously loaded extension are stale until the new load finishes
+  const isCurrent = crx !== null && state.crx === crx;
+
+  const graph = useMemo(() => {
+    if (!isCurrent || !crx || !view) return null;
+    const packagePaths = new Set(getAllFiles(crx.fileTree).map((file) => file.path));
+    return buildArchitectureGraph(view, state.files, packagePaths);
+  }, [isCurrent, crx, view, state.files]);
+
+  return {
+    graph,
+    error: isCurrent ? state.error : null,
+    isLoading: crx !== null && !isCurrent,
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Hook for running the static code scanner over the loaded extension
+ *
+ * Handles:
+ * - Loading every JavaScript and HTML file from the ZIP in one pass
+ * - Scanning the sources against the manifest's declared permissions
+ * - Resetting when a different extension is loaded
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useViewerStore } from '@/store/viewerStore';
+import { loadZipFiles } from '@/lib/zip/extractor';
+import { isScannableFile, scanFiles } from '@/lib/analysis/code-scanner';
+import type { ScannableFile } from '@/lib/analysis/code-scanner';
+import type { LoadedCrx } from '@/types/index';
+
+interface SourceState {
+  crx: LoadedCrx | null;
+  files: ScannableFile[];
+  error: string | null;
+}
+
+/**
+ * Hook to scan the loaded extension's sources for dangerous API usage
+ *
+ * Usage:
+ * ```tsx
+ * const { manifest } = useManifest();
+ * const { issues, isLoading, error } = useCodeScan(manifest);
+ *
+ * issues.forEach((issue) => console.log(`${issue.file}:${issue.line} ${issue.code}`));
+ * ```
+ *
+ * @param manifest - Parsed manifest used to cross-check chrome.* usage
+ */
+export function useCodeScan(manifest: Record<string, unknown> | null) {
+  const crx = useViewerStore((state) => state.crx);
+  const [state, setState] = useState<SourceState>({ crx: null, files: [], error: null });
+
+  useEffect(() => {
+    if (!crx) {
+      return;
+    }
+
+    let cancelled = false;
+
+    loadZipFiles(crx.zipData, isScannableFile).then((result) => {
+      if (cancelled) {
+        return;
+      }
+
+      if (!result.success) {
+        setState({ crx, files: [], error: result.error });
+        return;
+      }
+
+      const decoder = new TextDecoder('utf-8');
+      setState({
+        crx,
+        files: result.files.map((file) => ({
+          path: file.name,
+          content: file.data ? decoder.decode(file.data) : '',
+        })),
+        error: null,
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [crx]);
+
+  // Sources from a previously loaded extension are stale until the new load finishes
+  const isCurrent = crx !== null && state.crx === crx;
+
+  const issues = useMemo(
+    () => (isCurrent ? scanFiles(state.files, manifest) : []),
+    [isCurrent, state.files, manifest]
+  );
+
+  return {
+    issues,
+    fileCount: isCurrent ? state.files.length : 0,
+    error: isCurrent ? state.error : null,
+    isLoading: crx !== null && !isCurrent,
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Hook for syncing compare state with URL query parameters
+ *
+ * Parses URL on load and syncs state changes back to URL
+ * Enables deep linking to a comparison of two Web Store packages
+ *
+ * URL format: /#/compare?left=<id or url>&right=<id or url>&file=background.js&view=unified
+ *
+ * Uploaded packages have no URL and are left out of the link.
+ */
+
+import { useEffect } from 'react';
+import { useCompareStore } from '@/store/compareStore';
+import type { DiffViewMode } from '@/store/compareStore';
+
+interface CompareUrlParams {
+  left?: string;
+  right?: string;
+  file?: string;
+  view?: DiffViewMode;
+}
+
+/**
+ * Parse URL query parameters
+ */
+function parseUrlParams(): CompareUrlParams {
+  const params = new URLSearchParams(window.location.hash.split('?')[1] || '');
+  const view = params.get('view');
+  return {
+    left: params.get('left') || undefined,
+    right: params.get('right') || undefined,
+    file: params.get('file') || undefined,
+    view: view === 'split' || view === 'unified' ? view : undefined,
+  };
+}
+
+/**
+ * Update URL with current state
+ */
+function updateUrl(params: CompareUrlParams) {
+  const searchParams = new URLSearchParams();
+
+  if (params.left) {
+    searchParams.set('left', params.left);
+  }
+  if (params.right) {
+    searchParams.set('right', params.right);
+  }
+  if (params.file) {
+    searchParams.set('file', params.file);
+  }
+  if (params.view && params.view !== 'split') {
+    searchParams.set('view', params.view);
+  }
+
+  const queryString = searchParams.toString();
+  const newHash = queryString ? `#/compare?${queryString}` : '#/compare';
+  window.history.replaceState(null, '', newHash);
+}
+
+/**
+ * Hook to sync compare state with URL
+ *
+ * On mount:
+ * - Loads the left and right packages if provided
+ * - Selects the initial file and diff view mode
+ *
+ * On state change:
+ * - Updates URL to reflect the compared packages, file and view mode
+ */
+export function useCompareUrlState() {
+  const leftInput = useCompareStore((state) => state.left.sourceInput);
+  const rightInput = useCompareStore((state) => state.right.sourceInput);
+  const selectedPath = useCompareStore((state) => state.selectedPath);
+  const viewMode = useCompareStore((state) => state.viewMode);
+  const loadFromUrl = useCompareStore((state) => state.loadFromUrl);
+  const selectPath = useCompareStore((state) => state.selectPath);
+  const setViewMode = useCompareStore((state) => state.setViewMode);
+
+  // Load packages and selection from URL on mount
+  useEffect(() => {
+    const params = parseUrlParams();
+
+    if (params.left) {
+      loadFromUrl('left', params.left);
+    }
+    if (params.right) {
+      loadFromUrl('right', params.right);
+    }
+    if (params.file) {
+      selectPath(params.file);
+    }
+    if (params.view) {
+      setViewMode(params.view);
+    }
+  }, [loadFromUrl, selectPath, setViewMode]);
+
+  // Update URL when compare state changes
+  useEffect(() => {
+    updateUrl({
+      left: leftInput ?? undefined,
+      right: rightInput ?? undefined,
+      file: selectedPath ?? undefined,
+      view: viewMode,
+    });
+  }, [leftInput, rightInput, selectedPath, viewMode]);
+
+  return {
+    urlParams: parseUrlParams(),
+  };
+}
@@ -2,9 +2,9 @@
  * Hook for loading CRX files from URLs or file uploads
  *
  * Handles:
- * - Loading CRX from Chrome Web Store URLs
+ * - Loading CRX/XPI from Chrome Web Store, Edge Add-ons and Firefox Add-ons URLs
  * - Loading CRX from extension IDs
- * - Loading CRX from file uploads
+ * - Loading local CRX, XPI and ZIP files (file picker or drag and drop)
  * - Progress tracking and error handling
  */
 
@@ -48,7 +48,7 @@ export function useCrxLoader() {
   );
 
   /**
-   * Load CRX from file upload
+   * Load CRX from a local file; the extension ID is derived from the package
    */
   const loadFromFile = useCallback(
     async (file: File): Promise<void> => {
@@ -57,16 +57,7 @@ export function useCrxLoader() {
       }
 
       try {
-        const arrayBuffer = await file.arrayBuffer();
-
-        // Extract extension ID from filename if possible
-        // CRX files are typically named: extension-id.crx
-        const extensionId = file.name
-          .replace(/\.crx$/i, '')
-          .replace(/[^a-z0-9]/g, '')
-          .substring(0, 32);
-
-        await loadCrx(extensionId || 'uploaded', arrayBuffer);
+        await loadCrx(await file.arrayBuffer());
       } catch (err) {
         console.error('Failed to load CRX file:', err);
       }
@@ -0,0 +1,106 @@
+/**
+ * Hook for the file dependency graph of the loaded extension
+ *
+ * Handles:
+ * - Loading every page, stylesheet, script and manifest.json from the ZIP in one pass
+ * - Sharing the loaded files per extension between the file tree and the dependencies panel
+ * - Building the graph and the unreferenced file list from the parsed manifest
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useViewerStore } from '@/store/viewerStore';
+import { loadZipFiles } from '@/lib/zip/extractor';
+import { getAllFiles } from '@/lib/zip/file-tree';
+import { buildDependencyGraph, isDependencySource } from '@/lib/architecture/dependencies';
+import type { SourceFile } from '@/lib/architecture/references';
+import type { LoadedCrx } from '@/types/index';
+
+type SourcesResult = { success: true; files: SourceFile[] } | { success: false; error: string };
+
+interface SourceState {
+  crx: LoadedCrx | null;
+  files: SourceFile[];
+  error: string | null;
+}
+
+// The file tree and the dependencies panel both need the sources; read them once per package
+const sourcesCache = new WeakMap<LoadedCrx, Promise<SourcesResult>>();
+
+function loadDependencySources(crx: LoadedCrx): Promise<SourcesResult> {
+  let pending = sourcesCache.get(crx);
+  if (!pending) {
+    pending = loadZipFiles(crx.zipData, isDependencySource).then((result): SourcesResult => {
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      const decoder = new TextDecoder('utf-8');
+      return {
+        success: true,
+        files: result.files.map((file) => ({
+          path: file.name,
+          content: file.data ? decoder.decode(file.data) : '',
+        })),
+      };
+    });
+    sourcesCache.set(crx, pending);
+  }
+  return pending;
+}
+
+/**
+ * Hook to resolve which files reference which, and which files nothing references
+ *
+ * Usage:
+ * ```tsx
+ * const { manifest } = useManifest();
+ * const { graph, isLoading, error } = useDependencyGraph(manifest);
+ *
+ * const isUnused = graph?.unreferenced.includes('lib/old.js');
+ * ```
+ *
+ * @param manifest - Parsed manifest.json naming the entry files
+ */
+export function useDependencyGraph(manifest: Record<string, unknown> | null) {
+  const crx = useViewerStore((state) => state.crx);
+  const [state, setState] = useState<SourceState>({ crx: null, files: [], error: null });
+
+  useEffect(() => {
+    if (!crx) {
+      return;
+    }
+
+    let cancelled = false;
+
+    loadDependencySources(crx).then((result) => {
+      if (cancelled) {
+        return;
+      }
+
+      setState(
+        result.success
+          ? { crx, files: result.files, error: null }
+          : { crx, files: [], error: result.error }
+      );
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [crx]);
+
+  // Sources from a previously loaded extension are stale until the new load finishes
+  const isCurrent = crx !== null && state.crx === crx;
+
+  const graph = useMemo(() => {
+    if (!isCurrent || !crx || !manifest || state.error) return null;
+    const packagePaths = new Set(getAllFiles(crx.fileTree).map((file) => file.path));
+    return buildDependencyGraph(manifest, state.files, packagePaths);
+  }, [isCurrent, crx, manifest, state.files, state.error]);
+
+  return {
+    graph,
+    error: isCurrent ? state.error : null,
+    isLoading: crx !== null && !isCurrent,
+  };
+}
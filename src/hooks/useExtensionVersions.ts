@@ -0,0 +1,61 @@
+/**
+ * Hook for the known versions of the loaded extension
+ *
+ * Handles:
+ * - Listing versions from the version archive and the version index
+ * - Refreshing the list whenever another package is loaded
+ */
+
+import { useEffect, useState } from 'react';
+import { useViewerStore } from '@/store/viewerStore';
+import { listExtensionVersions } from '@/lib/crx/loader';
+import type { LoadedCrx } from '@/types/index';
+
+interface VersionsState {
+  crx: LoadedCrx | null;
+  versions: string[];
+  error: string | null;
+}
+
+/**
+ * Hook to list the versions of the loaded extension, newest first
+ *
+ * Usage:
+ * ```tsx
+ * const { versions, isLoading, error } = useExtensionVersions();
+ * ```
+ */
+export function useExtensionVersions() {
+  const crx = useViewerStore((state) => state.crx);
+  const [state, setState] = useState<VersionsState>({ crx: null, versions: [], error: null });
+
+  useEffect(() => {
+    if (!crx) {
+      return;
+    }
+
+    let cancelled = false;
+
+    listExtensionVersions(crx.extensionId).then((result) => {
+      if (!cancelled) {
+        setState(
+          result.success
+            ? { crx, versions: result.versions, error: null }
+            : { crx, versions: [], error: result.error }
+        );
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [crx]);
+
+  const isCurrent = crx !== null && state.crx === crx;
+
+  return {
+    versions: isCurrent ? state.versions : [],
+    isLoading: crx !== null && !isCurrent,
+    error: isCurrent ? state.error : null,
+  };
+}
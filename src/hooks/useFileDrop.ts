@@ -0,0 +1,91 @@
+/**
+ * Hook for dropping local files onto an element
+ *
+ * Handles:
+ * - Tracking whether files are dragged over the element (including its children)
+ * - Ignoring drags that carry no files, such as selected text
+ * - Passing the first dropped file to a callback
+ */
+
+import { useCallback, useRef, useState } from 'react';
+
+/**
+ * Hook to accept a dropped file
+ *
+ * Usage:
+ * ```tsx
+ * const { isDragging, dropHandlers } = useFileDrop((file) => loadFromFile(file));
+ *
+ * <div {...dropHandlers}>{isDragging && <DropOverlay />}</div>
+ * ```
+ *
+ * @param onFile - Called with the dropped file; omit to disable dropping
+ */
+export function useFileDrop(onFile?: (file: File) => void) {
+  const [isDragging, setIsDragging] = useState(false);
+  // dragenter/dragleave fire for every child element, so count them
+  const depthRef = useRef(0);
+
+  const onDragEnter = useCallback(
+    (e: React.DragEvent) => {
+      if (!onFile || !isFileDrag(e)) {
+        return;
+      }
+      e.preventDefault();
+      depthRef.current++;
+      setIsDragging(true);
+    },
+    [onFile]
+  );
+
+  const onDragOver = useCallback(
+    (e: React.DragEvent) => {
+      if (!onFile || !isFileDrag(e)) {
+        return;
+      }
+      // Required for the drop event to fire
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'copy';
+    },
+    [onFile]
+  );
+
+  const onDragLeave = useCallback(
+    (e: React.DragEvent) => {
+      if (!onFile || !isFileDrag(e)) {
+        return;
+      }
+      depthRef.current = Math.max(0, depthRef.current - 1);
+      if (depthRef.current === 0) {
+        setIsDragging(false);
+      }
+    },
+    [onFile]
+  );
+
+  const onDrop = useCallback(
+    (e: React.DragEvent) => {
+      if (!onFile || !isFileDrag(e)) {
+        return;
+      }
+      e.preventDefault();
+      depthRef.current = 0;
+      setIsDragging(false);
+
+      const file = e.dataTransfer.files[0];
+      if (file) {
+        onFile(file);
+      }
+    },
+    [onFile]
+  );
+
+  return {
+    isDragging,
+    dropHandlers: { onDragEnter, onDragOver, onDragLeave, onDrop },
+  };
+}
+
+function isFileDrag(e: React.DragEvent): boolean {
+  return e.dataTransfer.types.includes('Files');
+}
@@ -2,7 +2,7 @@
  * Hook for managing file selection state
  *
  * Handles:
- * - Selecting files by path
+ * - Selecting files by path, optionally at a specific line
  * - Deselecting files
  * - Checking if a file is selected
  */
@@ -20,6 +20,9 @@ import { useViewerStore } from '@/store/viewerStore';
  * // Select a file
  * selectFile('manifest.json');
  *
+ * // Select a file and reveal line 42
+ * selectFile('background.js', 42);
+ *
  * // Check if file is selected
  * if (isSelected('background.js')) {
  *   console.log('background.js is selected');
@@ -28,14 +31,15 @@ import { useViewerStore } from '@/store/viewerStore';
  */
 export function useFileSelection() {
   const selectedFilePath = useViewerStore((state) => state.selectedFilePath);
+  const selectedLine = useViewerStore((state) => state.selectedLine);
   const selectFile = useViewerStore((state) => state.selectFile);
 
   /**
-   * Select a file by path
+   * Select a file by path, optionally revealing a line
    */
   const handleSelectFile = useCallback(
-    (path: string): void => {
-      selectFile(path);
+    (path: string, line?: number): void => {
+      selectFile(path, line);
     },
     [selectFile]
   );
@@ -68,6 +72,7 @@ export function useFileSelection() {
 
   return {
     selectedFilePath,
+    selectedLine,
     selectFile: handleSelectFile,
     deselectFile,
     isSelected,
@@ -0,0 +1,112 @@
+/**
+ * Hook for the local extension library
+ *
+ * Handles:
+ * - Listing stored packages, most recently opened first
+ * - Updating tags and notes
+ * - Deleting entries
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  deleteLibraryEntry,
+  isLibraryAvailable,
+  listLibraryEntries,
+  updateLibraryEntry,
+} from '@/lib/library/library-db';
+import type { LibraryEntry, LibraryEntryUpdate } from '@/lib/library/library-db';
+
+interface LibraryState {
+  entries: LibraryEntry[];
+  error: string | null;
+  isLoading: boolean;
+}
+
+/**
+ * Hook to browse and edit the local library
+ *
+ * Usage:
+ * ```tsx
+ * const { entries, updateEntry, removeEntry } = useLibrary();
+ *
+ * await updateEntry(entries[0].id, { tags: ['reviewed'] });
+ * ```
+ */
+export function useLibrary() {
+  const [state, setState] = useState<LibraryState>({ entries: [], error: null, isLoading: true });
+
+  const applyList = useCallback((result: Awaited<ReturnType<typeof listLibraryEntries>>) => {
+    setState(
+      result.success
+        ? { entries: result.value, error: null, isLoading: false }
+        : { entries: [], error: result.error, isLoading: false }
+    );
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    listLibraryEntries().then((result) => {
+      if (!cancelled) {
+        applyList(result);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [applyList]);
+
+  /**
+   * Reload the entry list
+   */
+  const refresh = useCallback(async (): Promise<void> => {
+    applyList(await listLibraryEntries());
+  }, [applyList]);
+
+  /**
+   * Change the tags or notes of an entry
+   */
+  const updateEntry = useCallback(async (id: string, update: LibraryEntryUpdate): Promise<boolean> => {
+    const result = await updateLibraryEntry(id, update);
+    if (!result.success) {
+      setState((current) => ({ ...current, error: result.error }));
+      return false;
+    }
+
+    setState((current) => ({
+      ...current,
+      error: null,
+      entries: current.entries.map((entry) => (entry.id === id ? result.value : entry)),
+    }));
+    return true;
+  }, []);
+
+  /**
+   * Delete an entry and its stored package
+   */
+  const removeEntry = useCallback(async (id: string): Promise<boolean> => {
+    const result = await deleteLibraryEntry(id);
+    if (!result.success) {
+      setState((current) => ({ ...current, error: result.error }));
+      return false;
+    }
+
+    setState((current) => ({
+      ...current,
+      error: null,
+      entries: current.entries.filter((entry) => entry.id !== id),
+    }));
+    return true;
+  }, []);
+
+  return {
+    entries: state.entries,
+    error: state.error,
+    isLoading: state.isLoading,
+    isAvailable: isLibraryAvailable(),
+    refresh,
+    updateEntry,
+    removeEntry,
+  };
+}
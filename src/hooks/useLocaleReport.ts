@@ -0,0 +1,110 @@
+/**
+ * Hook for the locale completeness report of the loaded extension
+ *
+ * Handles:
+ * - Loading every `_locales/<locale>/messages.json` and every file that may
+ *   reference messages from the ZIP in one pass
+ * - Comparing the locales against the manifest's default_locale
+ * - Resetting when a different extension is loaded
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useViewerStore } from '@/store/viewerStore';
+import { loadZipFiles } from '@/lib/zip/extractor';
+import { parseMessagesJson } from '@/lib/manifest/i18n';
+import {
+  buildLocaleReport,
+  findMessageUsages,
+  getLocaleFromPath,
+  isMessageSourceFile,
+  isMessagesFile,
+} from '@/lib/manifest/locales';
+import type { LocaleCatalogInput, MessageUsageScan } from '@/lib/manifest/locales';
+import type { LoadedCrx } from '@/types/index';
+
+interface LocaleSourceState {
+  crx: LoadedCrx | null;
+  catalogs: LocaleCatalogInput[];
+  scan: MessageUsageScan;
+  error: string | null;
+}
+
+const EMPTY_SCAN: MessageUsageScan = { usages: [], dynamicCalls: [] };
+
+/**
+ * Hook to compare the loaded extension's locales and their usage in code
+ *
+ * Usage:
+ * ```tsx
+ * const { manifest } = useManifest();
+ * const { report, isLoading, error } = useLocaleReport(manifest);
+ *
+ * report?.locales.forEach((locale) => console.log(locale.locale, locale.missing.length));
+ * ```
+ *
+ * @param manifest - Parsed manifest providing default_locale
+ */
+export function useLocaleReport(manifest: Record<string, unknown> | null) {
+  const crx = useViewerStore((state) => state.crx);
+  const [state, setState] = useState<LocaleSourceState>({ crx: null, catalogs: [], scan: EMPTY_SCAN, error: null });
+
+  useEffect(() => {
+    if (!crx) {
+      return;
+    }
+
+    let cancelled = false;
+
+    loadZipFiles(crx.zipData, (path) => isMessagesFile(path) || isMessageSourceFile(path)).then((result) => {
+      if (cancelled) {
+        return;
+      }
+
+      if (!result.success) {
+        setState({ crx, catalogs: [], scan: EMPTY_SCAN, error: result.error });
+        return;
+      }
+
+      const decoder = new TextDecoder('utf-8');
+      const catalogs: LocaleCatalogInput[] = [];
+      const sources: Array<{ path: string; content: string }> = [];
+
+      for (const file of result.files) {
+        const content = file.data ? decoder.decode(file.data) : '';
+        const locale = getLocaleFromPath(file.name);
+        if (!locale) {
+          sources.push({ path: file.name, content });
+          continue;
+        }
+
+        const parsed = parseMessagesJson(content);
+        catalogs.push(
+          parsed.success
+            ? { locale, path: file.name, catalog: parsed.messages }
+            : { locale, path: file.name, catalog: null, error: parsed.error }
+        );
+      }
+
+      setState({ crx, catalogs, scan: findMessageUsages(sources), error: null });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [crx]);
+
+  // Files from a previously loaded extension are stale until the new load finishes
+  const isCurrent = crx !== null && state.crx === crx;
+  const defaultLocale = typeof manifest?.default_locale === 'string' ? manifest.default_locale : null;
+
+  const report = useMemo(
+    () => (isCurrent ? buildLocaleReport(state.catalogs, defaultLocale, state.scan) : null),
+    [isCurrent, state.catalogs, state.scan, defaultLocale]
+  );
+
+  return {
+    report,
+    error: isCurrent ? state.error : null,
+    isLoading: crx !== null && !isCurrent,
+  };
+}
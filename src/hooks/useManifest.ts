@@ -0,0 +1,94 @@
+/**
+ * Hook for reading the loaded extension's manifest.json
+ *
+ * Handles:
+ * - Loading manifest.json from the ZIP (using the shared file cache)
+ * - Parsing the manifest JSON
+ * - Resetting when a different extension is loaded
+ */
+
+import { useEffect, useState } from 'react';
+import { useViewerStore } from '@/store/viewerStore';
+import { loadZipFile } from '@/lib/zip/extractor';
+import type { LoadedCrx } from '@/types/index';
+
+const MANIFEST_PATH = 'manifest.json';
+
+interface ManifestState {
+  crx: LoadedCrx | null;
+  manifestText: string | null;
+  manifest: Record<string, unknown> | null;
+  error: string | null;
+}
+
+/**
+ * Hook to access the parsed manifest of the loaded extension
+ *
+ * Usage:
+ * ```tsx
+ * const { manifest, manifestText, isLoading, error } = useManifest();
+ *
+ * if (manifest) {
+ *   console.log(manifest.permissions);
+ * }
+ * ```
+ */
+export function useManifest() {
+  const crx = useViewerStore((state) => state.crx);
+  const [state, setState] = useState<ManifestState>({
+    crx: null,
+    manifestText: null,
+    manifest: null,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (!crx) {
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      let data = crx.fileCache.get(MANIFEST_PATH);
+
+      if (!data) {
+        const result = await loadZipFile(crx.zipData, MANIFEST_PATH);
+        if (!result.success || !result.files[0]?.data) {
+          return { crx, manifestText: null, manifest: null, error: result.success ? 'manifest.json is empty' : result.error };
+        }
+        data = result.files[0].data;
+        crx.fileCache.set(MANIFEST_PATH, data);
+      }
+
+      const manifestText = new TextDecoder('utf-8').decode(data);
+      try {
+        const parsed = JSON.parse(manifestText.replace(/^\uFEFF/, ''));
+        return { crx, manifestText, manifest: parsed as Record<string, unknown>, error: null };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { crx, manifestText, manifest: null, error: `Invalid manifest.json: ${message}` };
+      }
+    };
+
+    load().then((next) => {
+      if (!cancelled) {
+        setState(next);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [crx]);
+
+  // State from a previously loaded extension is stale until the new load finishes
+  const isCurrent = crx !== null && state.crx === crx;
+
+  return {
+    manifest: isCurrent ? state.manifest : null,
+    manifestText: isCurrent ? state.manifestText : null,
+    error: isCurrent ? state.error : null,
+    isLoading: crx !== null && !isCurrent,
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Hook for the normalized, localized view of the loaded extension's manifest
+ *
+ * Handles:
+ * - Loading `_locales/<default_locale>/messages.json` (using the shared file cache)
+ * - Resolving `__MSG_` placeholders and normalizing the manifest
+ * - Resetting when a different extension is loaded
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useViewerStore } from '@/store/viewerStore';
+import { useManifest } from '@/hooks/useManifest';
+import { loadZipFile } from '@/lib/zip/extractor';
+import { getMessagesPath, parseMessagesJson } from '@/lib/manifest/i18n';
+import type { MessageCatalog } from '@/lib/manifest/i18n';
+import { buildManifestView } from '@/lib/manifest/manifest-view';
+
+interface LocaleState {
+  manifest: Record<string, unknown> | null;
+  catalog: MessageCatalog | null;
+  localeError: string | null;
+}
+
+/**
+ * Hook to access the manifest with messages resolved and entry points normalized
+ *
+ * Usage:
+ * ```tsx
+ * const { view, manifest, localeError, isLoading, error } = useManifestView();
+ *
+ * view?.contentScripts.forEach((script) => console.log(script.matches, script.js));
+ * ```
+ */
+export function useManifestView() {
+  const crx = useViewerStore((state) => state.crx);
+  const { manifest, isLoading, error } = useManifest();
+  const [state, setState] = useState<LocaleState>({ manifest: null, catalog: null, localeError: null });
+
+  useEffect(() => {
+    if (!crx || !manifest) {
+      return;
+    }
+
+    let cancelled = false;
+    const locale = typeof manifest.default_locale === 'string' ? manifest.default_locale : null;
+
+    const load = async (): Promise<LocaleState> => {
+      if (!locale) {
+        return { manifest, catalog: null, localeError: null };
+      }
+
+      const path = getMessagesPath(locale);
+      let data = crx.fileCache.get(path);
+      if (!data) {
+        const result = await loadZipFile(crx.zipData, path);
+        if (!result.success || !result.files[0]?.data) {
+          return { manifest, catalog: null, localeError: `${path} not found` };
+        }
+        data = result.files[0].data;
+        crx.fileCache.set(path, data);
+      }
+
+      const parsed = parseMessagesJson(new TextDecoder('utf-8').decode(data));
+      return parsed.success
+        ? { manifest, catalog: parsed.messages, localeError: null }
+        : { manifest, catalog: null, localeError: `${path}: ${parsed.error}` };
+    };
+
+    load().then((next) => {
+      if (!cancelled) {
+        setState(next);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [crx, manifest]);
+
+  // Messages loaded for a previous manifest are stale until the new load finishes
+  const isCurrent = manifest !== null && state.manifest === manifest;
+
+  const view = useMemo(
+    () => (isCurrent && manifest ? buildManifestView(manifest, state.catalog, { extensionId: crx?.extensionId }) : null),
+    [isCurrent, manifest, state.catalog, crx]
+  );
+
+  return {
+    view,
+    manifest: isCurrent ? manifest : null,
+    localeError: isCurrent ? state.localeError : null,
+    isLoading: isLoading || (manifest !== null && !isCurrent),
+    error,
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Hook for the text content searched by the content search
+ *
+ * Handles:
+ * - Loading every text file from the ZIP, including files in nested archives
+ * - Deferring the load until the search is first opened
+ * - Resetting when a different extension is loaded
+ */
+
+import { useEffect, useState } from 'react';
+import { useViewerStore } from '@/store/viewerStore';
+import { isTextFile } from '@/lib/code/language-detector';
+import { loadNestedFiles } from '@/lib/zip/nested-archive';
+import type { LoadedCrx } from '@/types/index';
+
+interface SearchableFile {
+  fileId: string;
+  filePath: string;
+  content: string;
+}
+
+interface SearchableState {
+  crx: LoadedCrx | null;
+  files: SearchableFile[];
+  error: string | null;
+}
+
+/**
+ * Hook to load the loaded extension's text files for searching
+ *
+ * Files inside nested ZIP/CRX archives are included under virtual paths
+ * such as `lib/vendor.zip!/index.js`.
+ *
+ * Usage:
+ * ```tsx
+ * const { files, isLoading } = useSearchableFiles(isSearchOpen);
+ * ```
+ *
+ * @param enabled - Load only once this is true
+ */
+export function useSearchableFiles(enabled: boolean) {
+  const crx = useViewerStore((state) => state.crx);
+  const [state, setState] = useState<SearchableState>({ crx: null, files: [], error: null });
+
+  const isCurrent = crx !== null && state.crx === crx;
+
+  useEffect(() => {
+    if (!crx || !enabled || isCurrent) {
+      return;
+    }
+
+    let cancelled = false;
+
+    loadNestedFiles(crx.zipData, isTextFile).then((result) => {
+      if (cancelled) {
+        return;
+      }
+
+      if (!result.success) {
+        setState({ crx, files: [], error: result.error });
+        return;
+      }
+
+      const decoder = new TextDecoder('utf-8');
+      setState({
+        crx,
+        files: result.files.map((file) => ({
+          fileId: file.name,
+          filePath: file.name,
+          content: file.data ? decoder.decode(file.data) : '',
+        })),
+        error: null,
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [crx, enabled, isCurrent]);
+
+  return {
+    files: isCurrent ? state.files : [],
+    error: isCurrent ? state.error : null,
+    isLoading: crx !== null && enabled && !isCurrent,
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Hook for detecting source maps in the loaded extension
+ *
+ * Handles:
+ * - Loading every JavaScript, CSS and `.map` file from the ZIP in one pass
+ * - Pairing bundles with their source maps and indexing original sources
+ * - Sharing one index per loaded extension between components
+ */
+
+import { useEffect, useState } from 'react';
+import { useViewerStore } from '@/store/viewerStore';
+import { loadZipFiles } from '@/lib/zip/extractor';
+import { buildSourceMapIndex, isSourceMapCandidate } from '@/lib/sourcemap/original-sources';
+import type { SourceMapIndex } from '@/lib/sourcemap/original-sources';
+import type { LoadedCrx } from '@/types/index';
+
+type IndexResult = { success: true; index: SourceMapIndex } | { success: false; error: string };
+
+interface IndexState {
+  crx: LoadedCrx | null;
+  index: SourceMapIndex | null;
+  error: string | null;
+}
+
+// The tree, the code viewer and the page all need the index; build it once per package
+const indexCache = new WeakMap<LoadedCrx, Promise<IndexResult>>();
+
+function loadSourceMapIndex(crx: LoadedCrx): Promise<IndexResult> {
+  let pending = indexCache.get(crx);
+  if (!pending) {
+    pending = loadZipFiles(crx.zipData, isSourceMapCandidate).then((result): IndexResult => {
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      const decoder = new TextDecoder('utf-8');
+      return {
+        success: true,
+        index: buildSourceMapIndex(
+          result.files.map((file) => ({
+            path: file.name,
+            content: file.data ? decoder.decode(file.data) : '',
+          }))
+        ),
+      };
+    });
+    indexCache.set(crx, pending);
+  }
+  return pending;
+}
+
+/**
+ * Hook to get the source maps and original sources of the loaded extension
+ *
+ * Usage:
+ * ```tsx
+ * const { index, isLoading } = useSourceMaps();
+ *
+ * const location = index ? getOriginalLocation(index, 'dist/background.js', 120) : null;
+ * ```
+ */
+export function useSourceMaps() {
+  const crx = useViewerStore((state) => state.crx);
+  const [state, setState] = useState<IndexState>({ crx: null, index: null, error: null });
+
+  useEffect(() => {
+    if (!crx) {
+      return;
+    }
+
+    let cancelled = false;
+
+    loadSourceMapIndex(crx).then((result) => {
+      if (cancelled) {
+        return;
+      }
+
+      setState(
+        result.success
+          ? { crx, index: result.index, error: null }
+          : { crx, index: null, error: result.error }
+      );
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [crx]);
+
+  // The index of a previously loaded extension is stale until the new one is built
+  const isCurrent = crx !== null && state.crx === crx;
+
+  return {
+    index: isCurrent ? state.index : null,
+    error: isCurrent ? state.error : null,
+    isLoading: crx !== null && !isCurrent,
+  };
+}
@@ -4,7 +4,8 @@
  * Parses URL on load and syncs state changes back to URL
  * Enables deep linking to specific files and searches
  *
- * URL format: /#/app?url=chrome://webstore/detail/...&file=manifest.json&search=permissions
+ * URL format: /#/app?url=chrome://webstore/detail/...&version=1.2.3&file=background.js&line=42&search=permissions
+ * Files inside nested archives use their virtual path, e.g. file=lib/vendor.zip!/index.js
  */
 
 import { useEffect, useCallback } from 'react';
@@ -13,7 +14,10 @@ import { useSearchStore } from '@/store/searchStore';
 
 interface UrlStateParams {
   url?: string;
+  /** Specific version to load from the library or the version archive */
+  version?: string;
   file?: string;
+  line?: number;
   search?: string;
 }
 
@@ -22,9 +26,12 @@ interface UrlStateParams {
  */
 function parseUrlParams(): UrlStateParams {
   const params = new URLSearchParams(window.location.hash.split('?')[1] || '');
+  const line = Number.parseInt(params.get('line') || '', 10);
   return {
     url: params.get('url') || undefined,
+    version: params.get('version') || undefined,
     file: params.get('file') || undefined,
+    line: line > 0 ? line : undefined,
     search: params.get('search') || undefined,
   };
 }
@@ -38,9 +45,15 @@ function updateUrl(params: UrlStateParams) {
   if (params.url) {
     searchParams.set('url', params.url);
   }
+  if (params.url && params.version) {
+    searchParams.set('version', params.version);
+  }
   if (params.file) {
     searchParams.set('file', params.file);
   }
+  if (params.file && params.line) {
+    searchParams.set('line', String(params.line));
+  }
   if (params.search) {
     searchParams.set('search', params.search);
   }
@@ -55,8 +68,8 @@ function updateUrl(params: UrlStateParams) {
  *
  * On mount:
  * - Parses URL parameters
- * - Loads extension from URL if provided
- * - Selects initial file if provided
+ * - Loads extension from URL if provided, at the given version if any
+ * - Selects initial file (and line) if provided
  * - Sets initial search term if provided
  *
  * On state change:
@@ -66,6 +79,7 @@ function updateUrl(params: UrlStateParams) {
 export function useUrlState() {
   const crx = useViewerStore((state) => state.crx);
   const selectedFilePath = useViewerStore((state) => state.selectedFilePath);
+  const selectedLine = useViewerStore((state) => state.selectedLine);
   const loadCrxFromUrl = useViewerStore((state) => state.loadCrxFromUrl);
   const selectFile = useViewerStore((state) => state.selectFile);
   const contentSearchQuery = useSearchStore((state) => state.contentSearchQuery);
@@ -76,7 +90,7 @@ export function useUrlState() {
     const params = parseUrlParams();
 
     if (params.url) {
-      loadCrxFromUrl(params.url);
+      loadCrxFromUrl(params.url, params.version ? { version: params.version } : undefined);
     }
   }, [loadCrxFromUrl]);
 
@@ -85,7 +99,7 @@ export function useUrlState() {
     const params = parseUrlParams();
 
     if (params.file && crx) {
-      selectFile(params.file);
+      selectFile(params.file, params.line);
     }
   }, [crx, selectFile]);
 
@@ -109,17 +123,21 @@ export function useUrlState() {
       params.file = selectedFilePath;
     }
 
+    if (selectedLine) {
+      params.line = selectedLine;
+    }
+
     if (contentSearchQuery) {
       params.search = contentSearchQuery;
     }
 
     updateUrl(params);
-  }, [selectedFilePath, contentSearchQuery]);
+  }, [selectedFilePath, selectedLine, contentSearchQuery]);
 
   // Update URL when selected file changes
   useEffect(() => {
     updateViewerUrl();
-  }, [selectedFilePath, updateViewerUrl]);
+  }, [selectedFilePath, selectedLine, updateViewerUrl]);
 
   return {
     urlParams: parseUrlParams(),
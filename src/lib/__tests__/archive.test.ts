@@ -0,0 +1,98 @@
+/**
+ * Tests for loading extension versions from a version archive
+ */
+
+import {
+  buildArchiveVersionUrl,
+  compareVersions,
+  downloadArchivedCrx,
+  fetchArchiveVersions,
+  isValidVersion,
+  parseVersionIndex,
+  sortVersions,
+} from '../crx/archive';
+import { BUILTIN_DOWNLOAD_SETTINGS } from '../settings/download-settings';
+
+const EXTENSION_ID = 'ghbmnnjooekpmoecnnnilnnbdlolhkhi';
+const SETTINGS = { ...BUILTIN_DOWNLOAD_SETTINGS, archiveUrl: 'http://mirror.internal/crx' };
+
+/**
+ * Serve fixed responses by URL while running a test body
+ */
+async function withResponses<T>(responses: Record<string, Response>, body: (requested: string[]) => Promise<T>) {
+  const originalFetch = globalThis.fetch;
+  const requested: string[] = [];
+  globalThis.fetch = (async (input: RequestInfo | URL) => {
+    const url = String(input);
+    requested.push(url);
+    return responses[url]?.clone() ?? new Response('not found', { status: 404 });
+  }) as typeof fetch;
+
+  try {
+    return await body(requested);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+describe('version archive', () => {
+  it('should validate and compare versions', () => {
+    expect(isValidVersion('1.2.3.4')).toBe(true);
+    expect(isValidVersion('1.2.3.4.5')).toBe(false);
+    expect(isValidVersion('../1')).toBe(false);
+
+    expect(compareVersions('1.10', '1.9')).toBeGreaterThan(0);
+    expect(compareVersions('1.2', '1.2.0')).toBe(0);
+    expect(sortVersions(['1.9', '1.10', 'latest', '1.9', ' 2.0 '])).toEqual(['2.0', '1.10', '1.9']);
+  });
+
+  it('should build package URLs as <id>/<version>.crx', () => {
+    expect(buildArchiveVersionUrl(EXTENSION_ID, '1.2.3', SETTINGS)).toBe(
+      `http://mirror.internal/crx/${EXTENSION_ID}/1.2.3.crx`
+    );
+  });
+
+  it('should read JSON indexes and directory listings', () => {
+    expect(parseVersionIndex('["1.0", "1.2", 3]')).toEqual(['1.2', '1.0']);
+    expect(parseVersionIndex('{"versions": ["2.0.1"]}')).toEqual(['2.0.1']);
+    expect(
+      parseVersionIndex(
+        '<a href="../">../</a><a href="1.0.0.crx">1.0.0.crx</a><a href=\'/crx/x/1.1.0.crx\'>1.1.0.crx</a><a href="notes.txt">'
+      )
+    ).toEqual(['1.1.0', '1.0.0']);
+  });
+
+  it('should list versions from index.json, falling back to the directory listing', async () => {
+    const directory = `http://mirror.internal/crx/${EXTENSION_ID}/`;
+
+    const fromIndex = await withResponses({ [`${directory}index.json`]: new Response('["1.0", "1.1"]') }, () =>
+      fetchArchiveVersions(EXTENSION_ID, SETTINGS)
+    );
+    expect(fromIndex).toEqual({ success: true, versions: ['1.1', '1.0'] });
+
+    await withResponses({ [directory]: new Response('<a href="0.9.crx">0.9.crx</a>') }, async (requested) => {
+      expect(await fetchArchiveVersions(EXTENSION_ID, SETTINGS)).toEqual({ success: true, versions: ['0.9'] });
+      expect(requested).toEqual([`${directory}index.json`, directory]);
+    });
+  });
+
+  it('should download a specific version', async () => {
+    const url = `http://mirror.internal/crx/${EXTENSION_ID}/1.2.3.crx`;
+
+    await withResponses({ [url]: new Response(new Uint8Array([1, 2, 3])) }, async () => {
+      const result = await downloadArchivedCrx(EXTENSION_ID, '1.2.3', SETTINGS);
+      expect(result.success && result.data.byteLength).toBe(3);
+
+      const missing = await downloadArchivedCrx(EXTENSION_ID, '1.2.4', SETTINGS);
+      expect(!missing.success && missing.error).toBe(`Version 1.2.4 of ${EXTENSION_ID} is not in the archive`);
+    });
+  });
+
+  it('should require a configured archive and a valid version', async () => {
+    const unconfigured = await downloadArchivedCrx(EXTENSION_ID, '1.0', BUILTIN_DOWNLOAD_SETTINGS);
+    expect(unconfigured.success).toBe(false);
+
+    const invalid = await downloadArchivedCrx(EXTENSION_ID, '../../etc', SETTINGS);
+    expect(!invalid.success && invalid.error).toBe('Invalid extension version: ../../etc');
+  });
+});
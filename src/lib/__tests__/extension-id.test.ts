@@ -0,0 +1,70 @@
+/**
+ * Tests for deriving extension IDs from package contents
+ */
+
+import { resolveExtensionId } from '../crx/extension-id';
+import { extensionIdFromPublicKey } from '../crx/signature';
+import type { CrxSignatureStatus } from '../crx/signature';
+
+const PACKAGE = new Uint8Array([0x50, 0x4b, 0x05, 0x06, 1, 2, 3]).buffer;
+const KEY_BYTES = new Uint8Array([0x30, 0x59, 0x30, 0x13, 0x06, 0x07, 0x2a, 0x86]);
+const KEY_BASE64 = btoa(String.fromCharCode(...KEY_BYTES));
+
+function signature(crxId: string | null, keyIds: string[] = []): CrxSignatureStatus {
+  const proofs = keyIds.map((keyId) => ({
+    algorithm: 'sha256_with_ecdsa' as const,
+    publicKey: KEY_BYTES,
+    keyId,
+    valid: true,
+    isPublisher: keyId === crxId,
+    isWebStore: false,
+  }));
+  return { version: 3, crxId, proofs, publisherSigned: false, webStoreSigned: false };
+}
+
+describe('resolveExtensionId', () => {
+  it('uses the CRX key that matches the declared ID', async () => {
+    const result = await resolveExtensionId(
+      PACKAGE,
+      { key: KEY_BASE64 },
+      signature('a'.repeat(32), ['b'.repeat(32), 'a'.repeat(32)])
+    );
+
+    expect(result).toEqual({ extensionId: 'a'.repeat(32), source: 'crx' });
+  });
+
+  it('prefers the manifest key to a declared ID no CRX key matches', async () => {
+    const forged = signature('a'.repeat(32), ['b'.repeat(32)]);
+
+    expect((await resolveExtensionId(PACKAGE, { key: KEY_BASE64 }, forged)).source).toBe('manifest');
+    expect(await resolveExtensionId(PACKAGE, {}, forged)).toEqual({
+      extensionId: 'a'.repeat(32),
+      source: 'crx-unverified',
+    });
+  });
+
+  it('uses the Firefox add-on ID for ZIP packages', async () => {
+    const manifest = { browser_specific_settings: { gecko: { id: 'addon@example.com' } } };
+
+    expect(await resolveExtensionId(PACKAGE, manifest, null)).toEqual({
+      extensionId: 'addon@example.com',
+      source: 'gecko',
+    });
+  });
+
+  it('derives the ID from the manifest key', async () => {
+    const result = await resolveExtensionId(PACKAGE, { key: KEY_BASE64 }, signature(null));
+
+    expect(result.source).toBe('manifest');
+    expect(result.extensionId).toBe(await extensionIdFromPublicKey(KEY_BYTES));
+  });
+
+  it('falls back to a hash of the package', async () => {
+    const first = await resolveExtensionId(PACKAGE, { key: '%%% not base64' }, null);
+    const second = await resolveExtensionId(PACKAGE, null, null);
+
+    expect(first.source).toBe('package');
+    expect(first.extensionId).toMatch(/^[a-p]{32}$/);
+    expect(second.extensionId).toBe(first.extensionId);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Tests for reading files from archives nested inside a package
+ */
+
+import JSZip from 'jszip';
+import { buildNestedFileTree } from '../zip/file-tree';
+import {
+  extractNestedEntries,
+  isNestedArchive,
+  joinNestedPath,
+  loadNestedFile,
+  loadNestedFiles,
+  MAX_NESTED_DEPTH,
+  splitNestedPath,
+} from '../zip/nested-archive';
+
+async function zipOf(files: Record<string, string | Uint8Array>): Promise<Uint8Array> {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(files)) {
+    zip.file(path, content);
+  }
+  return zip.generateAsync({ type: 'uint8array' });
+}
+
+/**
+ * manifest.json, lib/vendor.zip holding index.js and deep.jar holding inner.js
+ */
+async function buildPackage(): Promise<ArrayBuffer> {
+  const deep = await zipOf({ 'inner.js': 'var deep = 1;' });
+  const vendor = await zipOf({ 'index.js': 'module.exports = 42;', 'src/util.js': 'x();', 'deep.jar': deep });
+  const outer = await zipOf({ 'manifest.json': '{}', 'lib/vendor.zip': vendor, 'broken.zip': 'not a zip' });
+  return outer.buffer as ArrayBuffer;
+}
+
+const text = (data?: Uint8Array) => new TextDecoder().decode(data);
+
+describe('nested archives', () => {
+  it('should build and split virtual paths', () => {
+    expect(joinNestedPath('lib/vendor.zip', 'index.js')).toBe('lib/vendor.zip!/index.js');
+    expect(splitNestedPath('a.zip!/b.crx!/c.js')).toEqual(['a.zip', 'b.crx', 'c.js']);
+    expect(isNestedArchive('lib/Vendor.JAR')).toBe(true);
+    expect(isNestedArchive('module.wasm')).toBe(false);
+  });
+
+  it('should load files by plain and virtual path, caching archive bytes', async () => {
+    const zipData = await buildPackage();
+    const cache = new Map<string, Uint8Array>();
+
+    const plain = await loadNestedFile(zipData, 'manifest.json');
+    expect(plain.success && text(plain.files[0].data)).toBe('{}');
+
+    const nested = await loadNestedFile(zipData, 'lib/vendor.zip!/deep.jar!/inner.js', cache);
+    expect(nested.success && nested.files[0].name).toBe('lib/vendor.zip!/deep.jar!/inner.js');
+    expect(nested.success && text(nested.files[0].data)).toBe('var deep = 1;');
+    expect([...cache.keys()]).toEqual(['lib/vendor.zip', 'lib/vendor.zip!/deep.jar']);
+
+    const missing = await loadNestedFile(zipData, 'lib/vendor.zip!/nope.js', cache);
+    expect(!missing.success && missing.error).toBe('File not found in ZIP: lib/vendor.zip!/nope.js');
+
+    const notArchive = await loadNestedFile(zipData, 'manifest.json!/x.js');
+    expect(!notArchive.success && notArchive.error).toBe('Not an archive: manifest.json');
+  });
+
+  it('should list archive entries as a tree of virtual paths', async () => {
+    const zipData = await buildPackage();
+    const entries = await extractNestedEntries(zipData, 'lib/vendor.zip');
+    expect(entries.success).toBe(true);
+    if (!entries.success) return;
+
+    const tree = buildNestedFileTree(entries.files, 'lib/vendor.zip');
+    expect(tree.path).toBe('lib/vendor.zip');
+    expect(tree.children.map((child) => child.path)).toEqual([
+      'lib/vendor.zip!/src',
+      'lib/vendor.zip!/deep.jar',
+      'lib/vendor.zip!/index.js',
+    ]);
+    expect(tree.children[0].children[0].path).toBe('lib/vendor.zip!/src/util.js');
+
+    const broken = await extractNestedEntries(zipData, 'broken.zip');
+    expect(!broken.success && broken.error).toBe('Not a ZIP or CRX archive: broken.zip');
+  });
+
+  it('should load matching files from every archive level', async () => {
+    const zipData = await buildPackage();
+
+    const result = await loadNestedFiles(zipData, (path) => path.endsWith('.js'));
+    expect(result.success && result.files.map((file) => file.name).sort()).toEqual([
+      'lib/vendor.zip!/deep.jar!/inner.js',
+      'lib/vendor.zip!/index.js',
+      'lib/vendor.zip!/src/util.js',
+    ]);
+
+    const shallow = await loadNestedFiles(zipData, (path) => path.endsWith('.js'), 1);
+    expect(shallow.success && shallow.files).toHaveLength(2);
+  });
+
+  it('should skip nested entries past the byte budget', async () => {
+    // A deflated megabyte of one character expands about a thousandfold
+    const bombZip = new JSZip();
+    bombZip.file('bomb.js', 'a'.repeat(1024 * 1024));
+    const bomb = await bombZip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+    const vendor = await zipOf({ 'index.js': 'module.exports = 42;', 'bomb.zip': bomb });
+    const outer = await zipOf({ 'main.js': 'a'.repeat(256 * 1024), 'lib/vendor.zip': vendor });
+    const zipData = outer.buffer as ArrayBuffer;
+    const isScript = (path: string) => path.endsWith('.js');
+
+    const limited = await loadNestedFiles(zipData, isScript, MAX_NESTED_DEPTH, 64 * 1024);
+    expect(limited.success && limited.files.map((file) => file.name).sort()).toEqual([
+      'lib/vendor.zip!/index.js',
+      'main.js',
+    ]);
+
+    const unlimited = await loadNestedFiles(zipData, isScript);
+    expect(unlimited.success && unlimited.files).toHaveLength(3);
+  });
+});
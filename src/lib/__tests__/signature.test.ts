@@ -0,0 +1,187 @@
+/**
+ * Tests for CRX3 header decoding and signature verification
+ */
+
+import { parseCrxHeader } from '../crx/parser';
+import { crxIdToExtensionId, verifyCrxSignatures } from '../crx/signature';
+
+function encodeVarint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  bytes.push(value);
+  return bytes;
+}
+
+function encodeBytesField(fieldNumber: number, bytes: Uint8Array): number[] {
+  return [...encodeVarint(fieldNumber * 8 + 2), ...encodeVarint(bytes.length), ...bytes];
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/** Convert a raw r || s ECDSA signature to DER */
+function rawToDer(raw: Uint8Array): Uint8Array {
+  const encodeInt = (value: Uint8Array): number[] => {
+    let start = 0;
+    while (start < value.length - 1 && value[start] === 0) start++;
+    const trimmed = Array.from(value.subarray(start));
+    if (trimmed[0] & 0x80) trimmed.unshift(0);
+    return [0x02, trimmed.length, ...trimmed];
+  };
+  const body = [...encodeInt(raw.subarray(0, 32)), ...encodeInt(raw.subarray(32))];
+  return new Uint8Array([0x30, body.length, ...body]);
+}
+
+const ZIP_PAYLOAD = new Uint8Array([0x50, 0x4b, 0x05, 0x06, ...new Array(18).fill(0)]);
+
+async function buildCrx3(
+  algorithm: 'rsa' | 'ecdsa',
+  options: { tamper?: boolean; wrongId?: boolean } = {}
+): Promise<{ buffer: ArrayBuffer; keyId: string }> {
+  const keyPair =
+    algorithm === 'rsa'
+      ? await crypto.subtle.generateKey(
+          { name: 'RSASSA-PKCS1-v1_5', modulusLength: 1024, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+          true,
+          ['sign', 'verify']
+        )
+      : await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey('spki', keyPair.publicKey));
+  const keyHash = new Uint8Array(await crypto.subtle.digest('SHA-256', publicKey));
+  const crxId = keyHash.slice(0, 16);
+  if (options.wrongId) crxId[0] ^= 0xff;
+
+  const signedHeaderData = new Uint8Array(encodeBytesField(1, crxId));
+  const lengthBytes = new Uint8Array(4);
+  new DataView(lengthBytes.buffer).setUint32(0, signedHeaderData.length, true);
+  const message = concat(new TextEncoder().encode('CRX3 SignedData\x00'), lengthBytes, signedHeaderData, ZIP_PAYLOAD);
+
+  let signature =
+    algorithm === 'rsa'
+      ? new Uint8Array(await crypto.subtle.sign('RSASSA-PKCS1-v1_5', keyPair.privateKey, message))
+      : rawToDer(new Uint8Array(await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, keyPair.privateKey, message)));
+  if (options.tamper) signature = signature.map((byte, index) => (index === 10 ? byte ^ 0x01 : byte));
+
+  const proof = new Uint8Array([...encodeBytesField(1, publicKey), ...encodeBytesField(2, signature)]);
+  const header = new Uint8Array([
+    ...encodeBytesField(algorithm === 'rsa' ? 2 : 3, proof),
+    ...encodeBytesField(10000, signedHeaderData),
+  ]);
+
+  const prefix = new Uint8Array(12);
+  prefix.set([0x43, 0x72, 0x32, 0x34]);
+  new DataView(prefix.buffer).setUint32(4, 3, true);
+  new DataView(prefix.buffer).setUint32(8, header.length, true);
+
+  const crx = concat(prefix, header, ZIP_PAYLOAD);
+  return { buffer: crx.buffer, keyId: crxIdToExtensionId(keyHash) };
+}
+
+describe('CRX Signatures', () => {
+  describe('crxIdToExtensionId', () => {
+    it('should map nibbles to the a-p alphabet', () => {
+      const bytes = new Uint8Array(16).fill(0x0f);
+      bytes[0] = 0xa5;
+
+      expect(crxIdToExtensionId(bytes)).toBe('kf' + 'ap'.repeat(15));
+    });
+  });
+
+  describe('parseCrxHeader', () => {
+    it('should decode CRX3 proofs and crx_id', async () => {
+      const { buffer, keyId } = await buildCrx3('rsa');
+      const result = parseCrxHeader(buffer);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.header.proofs).toHaveLength(1);
+        expect(result.header.proofs[0].algorithm).toBe('sha256_with_rsa');
+        expect(result.header.crxId).toBeDefined();
+        expect(crxIdToExtensionId(result.header.crxId!)).toBe(keyId);
+      }
+    });
+
+    it('should report undecodable CRX3 headers without failing', () => {
+      const buffer = new ArrayBuffer(100);
+      const view = new DataView(buffer);
+      new Uint8Array(buffer).set([0x43, 0x72, 0x32, 0x34]);
+      view.setUint32(4, 3, true);
+      view.setUint32(8, 50, true);
+
+      const result = parseCrxHeader(buffer);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.header.proofs).toHaveLength(0);
+        expect(result.header.headerError).toContain('decode');
+      }
+    });
+  });
+
+  describe('verifyCrxSignatures', () => {
+    it('should verify an RSA publisher signature', async () => {
+      const { buffer, keyId } = await buildCrx3('rsa');
+      const result = await verifyCrxSignatures(buffer);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.status.crxId).toBe(keyId);
+        expect(result.status.proofs[0].valid).toBe(true);
+        expect(result.status.publisherSigned).toBe(true);
+        expect(result.status.webStoreSigned).toBe(false);
+      }
+    });
+
+    it('should verify a DER-encoded ECDSA signature', async () => {
+      const { buffer } = await buildCrx3('ecdsa');
+      const result = await verifyCrxSignatures(buffer);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.status.proofs[0].algorithm).toBe('sha256_with_ecdsa');
+        expect(result.status.proofs[0].valid).toBe(true);
+        expect(result.status.publisherSigned).toBe(true);
+      }
+    });
+
+    it('should reject a tampered signature', async () => {
+      const { buffer } = await buildCrx3('rsa', { tamper: true });
+      const result = await verifyCrxSignatures(buffer);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.status.proofs[0].valid).toBe(false);
+        expect(result.status.publisherSigned).toBe(false);
+      }
+    });
+
+    it('should not treat a key as publisher when crx_id does not match', async () => {
+      const { buffer, keyId } = await buildCrx3('rsa', { wrongId: true });
+      const result = await verifyCrxSignatures(buffer);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.status.crxId).not.toBe(keyId);
+        expect(result.status.proofs[0].isPublisher).toBe(false);
+        expect(result.status.publisherSigned).toBe(false);
+      }
+    });
+
+    it('should fail for non-CRX data', async () => {
+      const result = await verifyCrxSignatures(new ArrayBuffer(16));
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
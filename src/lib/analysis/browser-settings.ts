@@ -0,0 +1,125 @@
+/**
+ * Browser-specific manifest settings
+ *
+ * Firefox and other WebExtension browsers read their settings from
+ * `browser_specific_settings`, or from the older `applications` key that
+ * Firefox still accepts in Manifest V2. Chrome and Edge ignore both.
+ */
+
+import { toStringArray } from './permissions';
+
+/**
+ * Firefox (desktop) settings from `browser_specific_settings.gecko`
+ */
+export interface GeckoSettings {
+  /** Add-on ID, e.g. "addon@example.com" or "{GUID}" */
+  id?: string;
+  strictMinVersion?: string;
+  strictMaxVersion?: string;
+  /** Self-hosted update manifest URL */
+  updateUrl?: string;
+  /** Data collection categories declared for addons.mozilla.org */
+  dataCollectionPermissions?: {
+    required: string[];
+    optional: string[];
+  };
+}
+
+/**
+ * Version range for browsers that only declare compatibility
+ */
+export interface BrowserVersionRange {
+  strictMinVersion?: string;
+  strictMaxVersion?: string;
+}
+
+/**
+ * Normalized browser-specific settings
+ */
+export interface BrowserSpecificSettings {
+  gecko?: GeckoSettings;
+  geckoAndroid?: BrowserVersionRange;
+  safari?: BrowserVersionRange;
+  /** True when the settings were declared under the deprecated `applications` key */
+  legacyKey: boolean;
+}
+
+/**
+ * Read browser-specific settings from a manifest
+ *
+ * @param manifest - Parsed manifest.json object
+ * @returns Normalized settings, or null when the manifest declares none
+ */
+export function readBrowserSpecificSettings(manifest: Record<string, unknown>): BrowserSpecificSettings | null {
+  const declared = asRecord(manifest.browser_specific_settings);
+  const legacy = asRecord(manifest.applications);
+  const source = declared ?? legacy;
+
+  if (!source) {
+    return null;
+  }
+
+  const settings: BrowserSpecificSettings = { legacyKey: !declared };
+
+  const gecko = asRecord(source.gecko);
+  if (gecko) {
+    const dataCollection = asRecord(gecko.data_collection_permissions);
+    settings.gecko = {
+      id: asString(gecko.id),
+      strictMinVersion: asString(gecko.strict_min_version),
+      strictMaxVersion: asString(gecko.strict_max_version),
+      updateUrl: asString(gecko.update_url),
+      dataCollectionPermissions: dataCollection
+        ? { required: toStringArray(dataCollection.required), optional: toStringArray(dataCollection.optional) }
+        : undefined,
+    };
+  }
+
+  const geckoAndroid = asRecord(source.gecko_android);
+  if (geckoAndroid) {
+    settings.geckoAndroid = readVersionRange(geckoAndroid);
+  }
+
+  const safari = asRecord(source.safari);
+  if (safari) {
+    settings.safari = readVersionRange(safari);
+  }
+
+  return settings;
+}
+
+/**
+ * Get the Firefox add-on ID declared in a manifest
+ *
+ * @param manifest - Parsed manifest.json object
+ * @returns Add-on ID, or undefined if none is declared
+ */
+export function getGeckoId(manifest: Record<string, unknown>): string | undefined {
+  return readBrowserSpecificSettings(manifest)?.gecko?.id;
+}
+
+/**
+ * Whether a manifest is written for Firefox
+ *
+ * @param manifest - Parsed manifest.json object
+ * @returns True when Gecko settings are declared
+ */
+export function isFirefoxManifest(manifest: Record<string, unknown>): boolean {
+  const settings = readBrowserSpecificSettings(manifest);
+  return Boolean(settings?.gecko || settings?.geckoAndroid);
+}
+
+function readVersionRange(value: Record<string, unknown>): BrowserVersionRange {
+  return {
+    strictMinVersion: asString(value.strict_min_version),
+    strictMaxVersion: asString(value.strict_max_version),
+  };
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
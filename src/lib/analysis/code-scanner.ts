@@ -0,0 +1,417 @@
+/**
+ * Rule-based static scanner for extension JavaScript
+ *
+ * Walks JS (and HTML) sources line by line looking for:
+ * - Dynamic code execution (eval, new Function, string timers, document.write)
+ * - Remote code loading (remote imports, importScripts, script tags)
+ * - Obfuscation markers (hex identifiers, escape runs, packers)
+ * - chrome.* API usage cross-checked against declared permissions
+ * - Data exfiltration sinks (network calls near sensitive data sources)
+ *
+ * Findings are AnalysisIssues with the file path and 1-based line number.
+ */
+
+import { classifyApiPermission, toStringArray } from './permissions';
+import type { RiskLevel } from './permissions';
+import type { AnalysisIssue } from './manifest-analyzer';
+
+/**
+ * A line-level scanning rule
+ */
+export interface ScanRule {
+  code: string;
+  pattern: RegExp;
+  message: string;
+  severity: RiskLevel;
+  type?: AnalysisIssue['type'];
+  /** Limit the rule to HTML or JS sources; applies to both when omitted */
+  appliesTo?: 'js' | 'html';
+}
+
+/**
+ * Source file to scan
+ */
+export interface ScannableFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * Line rules for dynamic code execution, remote code and exfiltration sinks
+ */
+export const SCAN_RULES: ScanRule[] = [
+  // Dynamic code execution
+  { code: 'JS_EVAL', pattern: /(?<![\w$.])eval\s*\(/, message: 'eval() executes a string as code', severity: 'high', appliesTo: 'js' },
+  { code: 'JS_NEW_FUNCTION', pattern: /\bnew\s+Function\s*\(/, message: 'new Function() compiles a string as code', severity: 'high', appliesTo: 'js' },
+  {
+    code: 'JS_STRING_TIMER',
+    pattern: /\bset(?:Timeout|Interval)\s*\(\s*['"`]/,
+    message: 'setTimeout/setInterval called with a string evaluates it as code',
+    severity: 'high',
+    appliesTo: 'js',
+  },
+  { code: 'JS_DOCUMENT_WRITE', pattern: /\bdocument\.write(?:ln)?\s*\(/, message: 'document.write() injects markup into the page', severity: 'medium', appliesTo: 'js' },
+  {
+    code: 'JS_EXECUTE_SCRIPT_CODE',
+    pattern: /\.executeScript\s*\([^)]*\bcode\s*:/,
+    message: 'executeScript() with a code string injects arbitrary code into tabs',
+    severity: 'high',
+    appliesTo: 'js',
+  },
+  { code: 'JS_INNER_HTML', pattern: /\.(?:innerHTML|outerHTML)\s*=(?!=)|\.insertAdjacentHTML\s*\(/, message: 'HTML string assigned to the DOM', severity: 'low', appliesTo: 'js' },
+
+  // Remote code loading
+  {
+    code: 'REMOTE_IMPORT',
+    pattern: /\bimport\s*\(\s*['"`](?:https?:)?\/\//,
+    message: 'Dynamic import() of a remote module',
+    severity: 'high',
+    appliesTo: 'js',
+  },
+  {
+    code: 'REMOTE_IMPORT_SCRIPTS',
+    pattern: /\bimportScripts\s*\(\s*['"`](?:https?:)?\/\//,
+    message: 'importScripts() loads remote code into a worker',
+    severity: 'high',
+    appliesTo: 'js',
+  },
+  {
+    code: 'REMOTE_SCRIPT_SRC',
+    pattern: /\.src\s*=\s*['"`](?:https?:)?\/\/[^'"`]+\.js\b/,
+    message: 'Script element pointed at a remote URL',
+    severity: 'high',
+    appliesTo: 'js',
+  },
+  {
+    code: 'REMOTE_SCRIPT_TAG',
+    pattern: /<script\b[^>]*\bsrc\s*=\s*['"]?(?:https?:)?\/\//i,
+    message: 'HTML page loads a remote script',
+    severity: 'high',
+    appliesTo: 'html',
+  },
+  { code: 'DYNAMIC_SCRIPT_ELEMENT', pattern: /createElement\s*\(\s*['"`]script['"`]\s*\)/, message: 'Script element created at runtime', severity: 'medium', appliesTo: 'js' },
+
+  // Data exfiltration sinks
+  { code: 'SINK_SEND_BEACON', pattern: /\bnavigator\.sendBeacon\s*\(/, message: 'navigator.sendBeacon() sends data in the background', severity: 'medium', appliesTo: 'js' },
+  { code: 'SINK_WEBSOCKET', pattern: /\bnew\s+WebSocket\s*\(/, message: 'WebSocket connection opened', severity: 'medium', appliesTo: 'js' },
+  {
+    code: 'SINK_REMOTE_FETCH',
+    pattern: /\bfetch\s*\(\s*['"`](?:https?:)?\/\//,
+    message: 'fetch() to a remote URL',
+    severity: 'low',
+    appliesTo: 'js',
+  },
+  { code: 'SINK_XHR', pattern: /\bnew\s+XMLHttpRequest\s*\(/, message: 'XMLHttpRequest created', severity: 'low', appliesTo: 'js' },
+  { code: 'SINK_IMAGE_BEACON', pattern: /\bnew\s+Image\s*\([^)]*\)\s*\.src\s*=/, message: 'Image beacon request', severity: 'medium', appliesTo: 'js' },
+];
+
+// Sources of sensitive data that make a network sink in the same file worth a closer look
+const SENSITIVE_SOURCES: RegExp[] = [
+  /\b(?:chrome|browser)\.(?:cookies|history|bookmarks|topSites|identity)\./,
+  /\bdocument\.cookie\b/,
+  /\baddEventListener\s*\(\s*['"`]key(?:down|up|press)['"`]/,
+  /\b(?:chrome|browser)\.tabs\.captureVisibleTab\b/,
+  /\bnavigator\.clipboard\.read/,
+];
+
+const NETWORK_SINKS: RegExp[] = [
+  /\bfetch\s*\(/,
+  /\bnew\s+XMLHttpRequest\s*\(/,
+  /\bnavigator\.sendBeacon\s*\(/,
+  /\bnew\s+WebSocket\s*\(/,
+  /\bnew\s+Image\s*\(/,
+];
+
+/**
+ * chrome.* namespaces and the permission each one requires
+ *
+ * Namespaces usable without a permission (runtime, tabs, windows, i18n,
+ * extension, action) are omitted.
+ */
+export const API_NAMESPACE_PERMISSIONS: Record<string, string> = {
+  alarms: 'alarms',
+  bookmarks: 'bookmarks',
+  browsingData: 'browsingData',
+  contentSettings: 'contentSettings',
+  contextMenus: 'contextMenus',
+  cookies: 'cookies',
+  debugger: 'debugger',
+  declarativeNetRequest: 'declarativeNetRequest',
+  desktopCapture: 'desktopCapture',
+  downloads: 'downloads',
+  fontSettings: 'fontSettings',
+  gcm: 'gcm',
+  history: 'history',
+  identity: 'identity',
+  idle: 'idle',
+  management: 'management',
+  notifications: 'notifications',
+  offscreen: 'offscreen',
+  pageCapture: 'pageCapture',
+  power: 'power',
+  privacy: 'privacy',
+  proxy: 'proxy',
+  readingList: 'readingList',
+  scripting: 'scripting',
+  search: 'search',
+  sessions: 'sessions',
+  sidePanel: 'sidePanel',
+  storage: 'storage',
+  tabCapture: 'tabCapture',
+  tabGroups: 'tabGroups',
+  topSites: 'topSites',
+  tts: 'tts',
+  ttsEngine: 'ttsEngine',
+  userScripts: 'userScripts',
+  webNavigation: 'webNavigation',
+  webRequest: 'webRequest',
+  vpnProvider: 'vpnProvider',
+};
+
+// runtime methods that need a permission of their own
+const RUNTIME_NATIVE_MESSAGING = /\b(?:chrome|browser)\.runtime\.(?:connectNative|sendNativeMessage)\b/;
+const CHROME_API_PATTERN = /\b(?:chrome|browser)\.([a-zA-Z]+)\b/g;
+
+const OBFUSCATION_HEX_IDENTIFIER = /\b_0x[0-9a-f]{4,}\b/gi;
+const OBFUSCATION_ESCAPE_RUN = /(?:\\x[0-9a-f]{2}){16,}|(?:\\u[0-9a-f]{4}){12,}/i;
+const OBFUSCATION_PACKER = /eval\s*\(\s*function\s*\(\s*p\s*,\s*a\s*,\s*c\s*,\s*k\s*,\s*e\s*,\s*[dr]\s*\)/;
+const OBFUSCATION_CHARCODE = /String\.fromCharCode\s*\((?:\s*\d+\s*,){15,}/;
+const HEX_IDENTIFIER_THRESHOLD = 20;
+
+const MAX_SCAN_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Whether a path is a source the scanner understands
+ *
+ * @param path - File path within the extension
+ * @returns True for JavaScript and HTML files
+ */
+export function isScannableFile(path: string): boolean {
+  return /\.(?:m?js|cjs|jsx|html?)$/i.test(path);
+}
+
+/**
+ * Scan one source file
+ *
+ * @param file - File path and decoded contents
+ * @returns Findings for the file, plus the chrome.* namespaces it uses
+ */
+export function scanFile(file: ScannableFile): { issues: AnalysisIssue[]; namespaces: Map<string, number> } {
+  const issues: AnalysisIssue[] = [];
+  const namespaces = new Map<string, number>();
+
+  if (file.content.length > MAX_SCAN_SIZE) {
+    issues.push({
+      type: 'info',
+      code: 'SCAN_SKIPPED_LARGE_FILE',
+      message: `File is larger than ${MAX_SCAN_SIZE / 1024 / 1024} MB and was not scanned`,
+      severity: 'low',
+      file: file.path,
+    });
+    return { issues, namespaces };
+  }
+
+  const kind = /\.html?$/i.test(file.path) ? 'html' : 'js';
+  const rules = SCAN_RULES.filter((rule) => !rule.appliesTo || rule.appliesTo === kind);
+  const lines = file.content.split(/\r?\n/);
+
+  let hexIdentifiers = 0;
+  let firstHexLine = 0;
+  let firstSourceLine = 0;
+  let firstSinkLine = 0;
+
+  lines.forEach((source, index) => {
+    const line = index + 1;
+
+    const text = stripLeadingComments(source);
+    if (text === null) {
+      return;
+    }
+
+    for (const rule of rules) {
+      if (rule.pattern.test(text)) {
+        issues.push({
+          type: rule.type ?? 'warning',
+          code: rule.code,
+          message: rule.message,
+          severity: rule.severity,
+          file: file.path,
+          line,
+        });
+      }
+    }
+
+    if (kind !== 'js') {
+      return;
+    }
+
+    for (const match of text.matchAll(CHROME_API_PATTERN)) {
+      if (!namespaces.has(match[1])) {
+        namespaces.set(match[1], line);
+      }
+    }
+    if (RUNTIME_NATIVE_MESSAGING.test(text) && !namespaces.has('nativeMessaging')) {
+      namespaces.set('nativeMessaging', line);
+    }
+
+    const hexMatches = text.match(OBFUSCATION_HEX_IDENTIFIER);
+    if (hexMatches) {
+      hexIdentifiers += hexMatches.length;
+      firstHexLine ||= line;
+    }
+
+    if (OBFUSCATION_PACKER.test(text)) {
+      issues.push(obfuscationIssue('OBFUSCATION_PACKER', 'Dean Edwards style packed code', 'high', file.path, line));
+    }
+    if (OBFUSCATION_ESCAPE_RUN.test(text)) {
+      issues.push(obfuscationIssue('OBFUSCATION_ESCAPES', 'Long run of escaped characters', 'medium', file.path, line));
+    }
+    if (OBFUSCATION_CHARCODE.test(text)) {
+      issues.push(obfuscationIssue('OBFUSCATION_CHARCODE', 'String built from a long String.fromCharCode() list', 'medium', file.path, line));
+    }
+
+    if (!firstSourceLine && SENSITIVE_SOURCES.some((pattern) => pattern.test(text))) {
+      firstSourceLine = line;
+    }
+    if (!firstSinkLine && NETWORK_SINKS.some((pattern) => pattern.test(text))) {
+      firstSinkLine = line;
+    }
+  });
+
+  if (hexIdentifiers >= HEX_IDENTIFIER_THRESHOLD) {
+    issues.push(
+      obfuscationIssue(
+        'OBFUSCATION_HEX_IDENTIFIERS',
+        `${hexIdentifiers} _0x-style identifiers, typical of javascript-obfuscator output`,
+        'medium',
+        file.path,
+        firstHexLine
+      )
+    );
+  }
+
+  if (firstSourceLine && firstSinkLine) {
+    issues.push({
+      type: 'warning',
+      code: 'EXFILTRATION_RISK',
+      message: `Sensitive data source (line ${firstSourceLine}) and network sink (line ${firstSinkLine}) in the same file`,
+      severity: 'high',
+      file: file.path,
+      line: firstSinkLine,
+    });
+  }
+
+  return { issues, namespaces };
+}
+
+/**
+ * Scan every source file and cross-check chrome.* usage against the manifest
+ *
+ * @param files - Sources to scan (non-scannable paths are ignored)
+ * @param manifest - Parsed manifest.json, used for permission cross-checks
+ * @returns Findings across all files
+ */
+export function scanFiles(files: ScannableFile[], manifest: Record<string, unknown> | null): AnalysisIssue[] {
+  const issues: AnalysisIssue[] = [];
+  const declared = new Set([
+    ...toStringArray(manifest?.permissions),
+    ...toStringArray(manifest?.optional_permissions),
+  ]);
+  const usedPermissions = new Set<string>();
+
+  for (const file of files) {
+    if (!isScannableFile(file.path)) continue;
+
+    const result = scanFile(file);
+    issues.push(...result.issues);
+
+    for (const [namespace, line] of result.namespaces) {
+      const permission = namespace === 'nativeMessaging' ? 'nativeMessaging' : API_NAMESPACE_PERMISSIONS[namespace];
+      if (!permission) continue;
+
+      usedPermissions.add(permission);
+      if (namespace === 'declarativeNetRequest' && declared.has('declarativeNetRequestWithHostAccess')) {
+        usedPermissions.add('declarativeNetRequestWithHostAccess');
+        continue;
+      }
+
+      if (manifest && !declared.has(permission)) {
+        issues.push({
+          type: 'warning',
+          code: 'API_PERMISSION_MISSING',
+          message: `chrome.${namespace} is used but the "${permission}" permission is not declared`,
+          severity: 'low',
+          file: file.path,
+          line,
+        });
+        continue;
+      }
+
+      const { risk, description } = classifyApiPermission(permission);
+      if (risk !== 'low') {
+        issues.push({
+          type: 'info',
+          code: 'API_SENSITIVE_USAGE',
+          message: `Uses chrome.${namespace}: ${description}`,
+          severity: risk,
+          file: file.path,
+          line,
+        });
+      }
+    }
+  }
+
+  if (manifest) {
+    for (const permission of toStringArray(manifest.permissions)) {
+      const tracked = Object.values(API_NAMESPACE_PERMISSIONS).includes(permission) || permission === 'nativeMessaging';
+      if (tracked && !usedPermissions.has(permission)) {
+        issues.push({
+          type: 'info',
+          code: 'PERMISSION_UNUSED',
+          message: `Permission "${permission}" is declared but chrome.${permission} is never referenced`,
+          severity: 'low',
+          file: 'manifest.json',
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+function obfuscationIssue(code: string, message: string, severity: RiskLevel, file: string, line: number): AnalysisIssue {
+  return { type: 'warning', code, message, severity, file, line };
+}
+
+/**
+ * Drop the comments a line starts with to cut down on false positives
+ *
+ * Code after a comment that closes on the same line is kept, since minified
+ * bundles often put everything on one line behind a `/*! lib v1 *\/` banner.
+ *
+ * @returns The rest of the line, or null when the line is entirely comments
+ */
+function stripLeadingComments(text: string): string | null {
+  let code = text;
+  for (;;) {
+    const trimmed = code.trimStart();
+    if (trimmed.startsWith('//')) {
+      return null;
+    }
+
+    const isBlockStart = trimmed.startsWith('/*');
+    if (!isBlockStart && !(trimmed.startsWith('*') && !trimmed.startsWith('*='))) {
+      return code;
+    }
+
+    // A block comment opened or continued here; unclosed, it covers the whole line
+    const end = trimmed.indexOf('*/', isBlockStart ? 2 : 0);
+    if (end === -1) {
+      return null;
+    }
+    code = trimmed.slice(end + 2);
+    if (!code.trim()) {
+      return null;
+    }
+  }
+}
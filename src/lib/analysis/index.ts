@@ -0,0 +1,22 @@
+/**
+ * Security analysis module exports
+ */
+
+export { analyzeManifest, analyzeManifestJson, calculateRiskLevel } from './manifest-analyzer';
+export type { AnalysisIssue, ManifestAnalysis } from './manifest-analyzer';
+
+export {
+  assessPermissions,
+  classifyApiPermission,
+  classifyHostPattern,
+  isAllUrlsPattern,
+  isBroadHostPattern,
+  isHostPattern,
+} from './permissions';
+export type { PermissionAssessment, RiskLevel } from './permissions';
+
+export { scanFile, scanFiles, isScannableFile, SCAN_RULES, API_NAMESPACE_PERMISSIONS } from './code-scanner';
+export type { ScanRule, ScannableFile } from './code-scanner';
+
+export { readBrowserSpecificSettings, getGeckoId, isFirefoxManifest } from './browser-settings';
+export type { BrowserSpecificSettings, BrowserVersionRange, GeckoSettings } from './browser-settings';
@@ -0,0 +1,570 @@
+/**
+ * Manifest security analysis
+ *
+ * Reviews a parsed manifest.json for risky permissions, broad host access,
+ * weak content security policies, exposed messaging and resources, and
+ * Manifest V2 / V3 compatibility problems. Firefox manifests (those with
+ * Gecko browser_specific_settings) are checked against Firefox's rules.
+ */
+
+import {
+  assessPermissions,
+  isAllUrlsPattern,
+  isBroadHostPattern,
+  isHostPattern,
+  toStringArray,
+} from './permissions';
+import type { PermissionAssessment, RiskLevel } from './permissions';
+import { readBrowserSpecificSettings } from './browser-settings';
+import type { BrowserSpecificSettings } from './browser-settings';
+
+/**
+ * A single finding produced by an analyzer
+ */
+export interface AnalysisIssue {
+  type: 'warning' | 'error' | 'info';
+  code: string;
+  message: string;
+  severity: RiskLevel;
+  file?: string;
+  line?: number;
+}
+
+/**
+ * Result of analyzing a manifest
+ */
+export interface ManifestAnalysis {
+  name: string;
+  version: string;
+  manifestVersion: number;
+  permissions: PermissionAssessment[];
+  /** Effective extension page CSP, if one is declared */
+  contentSecurityPolicy?: string;
+  /** Firefox / Safari settings, if the manifest declares any */
+  browserSettings: BrowserSpecificSettings | null;
+  riskLevel: RiskLevel;
+  issues: AnalysisIssue[];
+}
+
+interface AnalysisSuccess {
+  success: true;
+  analysis: ManifestAnalysis;
+}
+
+interface AnalysisError {
+  success: false;
+  error: string;
+}
+
+type AnalysisResult = AnalysisSuccess | AnalysisError;
+
+const MANIFEST_FILE = 'manifest.json';
+
+// CSP source keywords that do not load code from elsewhere
+const SAFE_CSP_SOURCES = new Set(["'self'", "'none'", "'wasm-unsafe-eval'", "'wasm-eval'"]);
+
+/**
+ * Analyze manifest.json text
+ *
+ * @param manifestText - Raw manifest.json contents
+ * @returns Result object with the analysis or a parse error
+ */
+export function analyzeManifestJson(manifestText: string): AnalysisResult {
+  try {
+    // Strip a leading UTF-8 byte order mark, which Chrome accepts
+    const manifest = JSON.parse(manifestText.replace(/^\uFEFF/, ''));
+
+    if (!manifest || typeof manifest !== 'object' || Array.isArray(manifest)) {
+      return { success: false, error: 'manifest.json must contain a JSON object' };
+    }
+
+    return { success: true, analysis: analyzeManifest(manifest) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Failed to parse manifest.json: ${message}` };
+  }
+}
+
+/**
+ * Analyze a parsed manifest
+ *
+ * @param manifest - Parsed manifest.json object
+ * @returns Permission assessments, issues and an overall risk level
+ */
+export function analyzeManifest(manifest: Record<string, unknown>): ManifestAnalysis {
+  const manifestVersion = typeof manifest.manifest_version === 'number' ? manifest.manifest_version : 0;
+  const permissions = assessPermissions(manifest);
+  const browserSettings = readBrowserSpecificSettings(manifest);
+  const issues: AnalysisIssue[] = [];
+
+  issues.push(...checkPermissions(permissions));
+  issues.push(...checkContentScripts(manifest));
+
+  const csp = checkContentSecurityPolicy(manifest, manifestVersion);
+  issues.push(...csp.issues);
+
+  issues.push(...checkExternallyConnectable(manifest));
+  issues.push(...checkWebAccessibleResources(manifest, manifestVersion));
+  issues.push(...checkManifestVersion(manifest, manifestVersion, browserSettings));
+
+  return {
+    name: typeof manifest.name === 'string' ? manifest.name : '',
+    version: typeof manifest.version === 'string' ? manifest.version : '',
+    manifestVersion,
+    permissions,
+    contentSecurityPolicy: csp.policy,
+    browserSettings,
+    riskLevel: calculateRiskLevel(permissions, issues),
+    issues,
+  };
+}
+
+/**
+ * Overall risk is the highest of any required permission or issue severity
+ *
+ * @param permissions - Permission assessments
+ * @param issues - Analysis issues
+ * @returns Highest risk level found
+ */
+export function calculateRiskLevel(permissions: PermissionAssessment[], issues: AnalysisIssue[]): RiskLevel {
+  const levels = [
+    ...permissions.filter((permission) => !permission.optional).map((permission) => permission.risk),
+    ...issues.filter((issue) => issue.type !== 'info').map((issue) => issue.severity),
+  ];
+
+  if (levels.includes('high')) return 'high';
+  if (levels.includes('medium')) return 'medium';
+  return 'low';
+}
+
+/**
+ * Flag high-risk permissions and broad host access
+ */
+function checkPermissions(permissions: PermissionAssessment[]): AnalysisIssue[] {
+  const issues: AnalysisIssue[] = [];
+
+  for (const assessment of permissions) {
+    const qualifier = assessment.optional ? 'Optional permission' : 'Permission';
+
+    if (assessment.kind === 'host') {
+      if (isAllUrlsPattern(assessment.permission)) {
+        issues.push(
+          manifestIssue(
+            'HOST_ALL_URLS',
+            `${qualifier} "${assessment.permission}" grants access to all websites`,
+            assessment.optional ? 'medium' : 'high'
+          )
+        );
+      } else if (isBroadHostPattern(assessment.permission)) {
+        issues.push(
+          manifestIssue(
+            'HOST_BROAD_PATTERN',
+            `${qualifier} "${assessment.permission}": ${assessment.description}`,
+            assessment.optional ? 'medium' : 'high'
+          )
+        );
+      } else if (assessment.risk !== 'low') {
+        issues.push(
+          manifestIssue('HOST_PERMISSION', `${qualifier} "${assessment.permission}": ${assessment.description}`, 'low', 'info')
+        );
+      }
+      continue;
+    }
+
+    if (assessment.risk === 'high') {
+      issues.push(
+        manifestIssue(
+          'PERMISSION_HIGH_RISK',
+          `${qualifier} "${assessment.permission}": ${assessment.description}`,
+          assessment.optional ? 'medium' : 'high'
+        )
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Flag content scripts injected into every site
+ */
+function checkContentScripts(manifest: Record<string, unknown>): AnalysisIssue[] {
+  const issues: AnalysisIssue[] = [];
+  const contentScripts = Array.isArray(manifest.content_scripts) ? manifest.content_scripts : [];
+
+  contentScripts.forEach((entry, index) => {
+    if (!entry || typeof entry !== 'object') return;
+
+    const script = entry as Record<string, unknown>;
+    const broad = toStringArray(script.matches).filter((pattern) => isBroadHostPattern(pattern));
+
+    if (broad.length > 0) {
+      const files = [...toStringArray(script.js), ...toStringArray(script.css)];
+      issues.push(
+        manifestIssue(
+          'CONTENT_SCRIPT_ALL_URLS',
+          `content_scripts[${index}] (${files.join(', ') || 'no files'}) is injected into ${broad.join(', ')}`,
+          'medium'
+        )
+      );
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Evaluate the extension page content security policy
+ *
+ * MV2 declares a string; MV3 declares an object with `extension_pages` and
+ * `sandbox` policies.
+ */
+function checkContentSecurityPolicy(
+  manifest: Record<string, unknown>,
+  manifestVersion: number
+): { policy?: string; issues: AnalysisIssue[] } {
+  const issues: AnalysisIssue[] = [];
+  const raw = manifest.content_security_policy;
+  const policies: Array<{ label: string; policy: string }> = [];
+
+  if (typeof raw === 'string') {
+    if (manifestVersion >= 3) {
+      issues.push(
+        manifestIssue(
+          'CSP_MV3_STRING',
+          'content_security_policy must be an object with extension_pages / sandbox in Manifest V3',
+          'medium',
+          'error'
+        )
+      );
+    }
+    policies.push({ label: 'content_security_policy', policy: raw });
+  } else if (raw && typeof raw === 'object') {
+    const cspObject = raw as Record<string, unknown>;
+    if (typeof cspObject.extension_pages === 'string') {
+      policies.push({ label: 'content_security_policy.extension_pages', policy: cspObject.extension_pages });
+    }
+    if (typeof cspObject.sandbox === 'string') {
+      policies.push({ label: 'content_security_policy.sandbox', policy: cspObject.sandbox });
+    }
+  }
+
+  for (const { label, policy } of policies) {
+    const directives = parseCsp(policy);
+    const scriptSources = directives.get('script-src') ?? directives.get('default-src') ?? [];
+    const isSandbox = label.endsWith('sandbox');
+
+    if (scriptSources.includes("'unsafe-eval'")) {
+      issues.push(
+        manifestIssue(
+          'CSP_UNSAFE_EVAL',
+          `${label} allows 'unsafe-eval', enabling eval() and new Function()`,
+          isSandbox ? 'medium' : 'high',
+          manifestVersion >= 3 && !isSandbox ? 'error' : 'warning'
+        )
+      );
+    }
+
+    if (scriptSources.includes("'unsafe-inline'")) {
+      issues.push(manifestIssue('CSP_UNSAFE_INLINE', `${label} allows inline scripts`, isSandbox ? 'medium' : 'high'));
+    }
+
+    const remote = scriptSources.filter((source) => isRemoteCspSource(source));
+    if (remote.length > 0) {
+      issues.push(
+        manifestIssue(
+          'CSP_REMOTE_SCRIPT',
+          `${label} allows scripts from remote sources: ${remote.join(' ')}`,
+          'high',
+          manifestVersion >= 3 && !isSandbox ? 'error' : 'warning'
+        )
+      );
+    }
+
+    const objectSources = directives.get('object-src') ?? [];
+    if (objectSources.some((source) => isRemoteCspSource(source))) {
+      issues.push(manifestIssue('CSP_REMOTE_OBJECT', `${label} allows plugins from remote sources`, 'medium'));
+    }
+  }
+
+  const extensionPages = policies.find((entry) => !entry.label.endsWith('sandbox'));
+
+  return { policy: extensionPages?.policy, issues };
+}
+
+/**
+ * Check which web pages and extensions may message this extension
+ */
+function checkExternallyConnectable(manifest: Record<string, unknown>): AnalysisIssue[] {
+  const issues: AnalysisIssue[] = [];
+  const raw = manifest.externally_connectable;
+
+  if (!raw || typeof raw !== 'object') {
+    return issues;
+  }
+
+  const config = raw as Record<string, unknown>;
+  const broadMatches = toStringArray(config.matches).filter((pattern) => isBroadHostPattern(pattern));
+
+  if (broadMatches.length > 0) {
+    issues.push(
+      manifestIssue(
+        'EXTERNALLY_CONNECTABLE_BROAD',
+        `externally_connectable lets ${broadMatches.join(', ')} send messages to the extension`,
+        'high'
+      )
+    );
+  }
+
+  if (toStringArray(config.ids).includes('*')) {
+    issues.push(
+      manifestIssue('EXTERNALLY_CONNECTABLE_ANY_EXTENSION', 'externally_connectable accepts messages from any extension', 'medium')
+    );
+  }
+
+  if (config.accepts_tls_channel_id === true) {
+    issues.push(
+      manifestIssue('EXTERNALLY_CONNECTABLE_TLS_CHANNEL_ID', 'externally_connectable exposes the TLS channel ID to web pages', 'low', 'info')
+    );
+  }
+
+  return issues;
+}
+
+/**
+ * Check which packaged resources web pages can load
+ *
+ * Web-accessible resources can be used to fingerprint the extension and,
+ * for HTML pages, to clickjack extension UI.
+ */
+function checkWebAccessibleResources(manifest: Record<string, unknown>, manifestVersion: number): AnalysisIssue[] {
+  const issues: AnalysisIssue[] = [];
+  const raw = manifest.web_accessible_resources;
+
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return issues;
+  }
+
+  const usesStrings = raw.some((entry) => typeof entry === 'string');
+
+  if (manifestVersion >= 3 && usesStrings) {
+    issues.push(
+      manifestIssue(
+        'WAR_MV2_FORMAT',
+        'web_accessible_resources must be a list of { resources, matches } objects in Manifest V3',
+        'medium',
+        'error'
+      )
+    );
+  }
+
+  const groups: Array<{ resources: string[]; matches: string[]; extensionIds: string[] }> = usesStrings
+    ? [{ resources: toStringArray(raw), matches: ['<all_urls>'], extensionIds: [] }]
+    : raw
+        .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+        .map((entry) => ({
+          resources: toStringArray(entry.resources),
+          matches: toStringArray(entry.matches),
+          extensionIds: toStringArray(entry.extension_ids),
+        }));
+
+  for (const group of groups) {
+    const exposedToAll = group.matches.some((pattern) => isBroadHostPattern(pattern)) || group.extensionIds.includes('*');
+    if (!exposedToAll) continue;
+
+    const wildcard = group.resources.filter((resource) => resource.includes('*'));
+    const pages = group.resources.filter((resource) => /\.html?$/i.test(resource));
+
+    if (wildcard.length > 0) {
+      issues.push(
+        manifestIssue(
+          'WAR_WILDCARD',
+          `web_accessible_resources exposes ${wildcard.join(', ')} to every site`,
+          'medium'
+        )
+      );
+    }
+
+    if (pages.length > 0) {
+      issues.push(
+        manifestIssue(
+          'WAR_HTML_PAGE',
+          `Extension pages ${pages.join(', ')} can be framed by any site`,
+          'medium'
+        )
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check Manifest V2 / V3 compatibility
+ */
+function checkManifestVersion(
+  manifest: Record<string, unknown>,
+  manifestVersion: number,
+  browserSettings: BrowserSpecificSettings | null
+): AnalysisIssue[] {
+  const issues: AnalysisIssue[] = [];
+  const targetsFirefox = Boolean(browserSettings?.gecko || browserSettings?.geckoAndroid);
+  const background =
+    manifest.background && typeof manifest.background === 'object'
+      ? (manifest.background as Record<string, unknown>)
+      : null;
+
+  if (manifestVersion !== 2 && manifestVersion !== 3) {
+    issues.push(
+      manifestIssue('MANIFEST_VERSION_INVALID', `Unsupported manifest_version: ${String(manifest.manifest_version)}`, 'medium', 'error')
+    );
+    return issues;
+  }
+
+  if (manifestVersion === 2) {
+    issues.push(
+      targetsFirefox
+        ? manifestIssue(
+            'MV2_DEPRECATED',
+            'Manifest V2 no longer runs in current Chrome or Edge releases; Firefox still supports it',
+            'low',
+            'info'
+          )
+        : manifestIssue(
+            'MV2_DEPRECATED',
+            'Manifest V2 is deprecated and no longer runs in current Chrome releases',
+            'medium'
+          )
+    );
+
+    if (background?.service_worker) {
+      issues.push(manifestIssue('MV2_SERVICE_WORKER', 'background.service_worker requires Manifest V3', 'low', 'error'));
+    }
+
+    if (background?.persistent === true) {
+      issues.push(manifestIssue('MV2_PERSISTENT_BACKGROUND', 'Background page is persistent', 'low', 'info'));
+    }
+
+    return issues;
+  }
+
+  if (browserSettings?.legacyKey) {
+    issues.push(
+      manifestIssue(
+        'MV3_APPLICATIONS_KEY',
+        '"applications" is not supported in Manifest V3; use "browser_specific_settings"',
+        'low',
+        'error'
+      )
+    );
+  }
+
+  // Chrome and Edge ignore background.scripts when a service worker is also declared
+  const hasBackgroundPage = Boolean(background && (background.scripts || background.page) && !background.service_worker);
+
+  if (hasBackgroundPage && targetsFirefox) {
+    issues.push(
+      manifestIssue(
+        'MV3_EVENT_PAGE',
+        'Background scripts run as an event page in Firefox; Chrome and Edge require background.service_worker',
+        'low',
+        'info'
+      )
+    );
+  } else if (hasBackgroundPage) {
+    issues.push(
+      manifestIssue(
+        'MV3_BACKGROUND_PAGE',
+        'background.scripts / background.page are not supported in Manifest V3; use background.service_worker',
+        'medium',
+        'error'
+      )
+    );
+  }
+
+  for (const key of ['browser_action', 'page_action']) {
+    if (manifest[key]) {
+      issues.push(manifestIssue('MV3_LEGACY_ACTION', `${key} is replaced by "action" in Manifest V3`, 'low', 'error'));
+    }
+  }
+
+  const hostsInPermissions = toStringArray(manifest.permissions).filter((entry) => isHostPattern(entry));
+  if (hostsInPermissions.length > 0) {
+    issues.push(
+      manifestIssue(
+        'MV3_HOSTS_IN_PERMISSIONS',
+        `Host patterns belong in host_permissions in Manifest V3: ${hostsInPermissions.join(', ')}`,
+        'low',
+        'warning'
+      )
+    );
+  }
+
+  if (toStringArray(manifest.permissions).includes('webRequestBlocking')) {
+    issues.push(
+      manifestIssue(
+        'MV3_WEBREQUEST_BLOCKING',
+        'webRequestBlocking is only available to policy-installed extensions in Manifest V3',
+        'medium',
+        'warning'
+      )
+    );
+  }
+
+  return issues;
+}
+
+/**
+ * Split a CSP string into directive name -> source list
+ */
+function parseCsp(policy: string): Map<string, string[]> {
+  const directives = new Map<string, string[]>();
+
+  for (const part of policy.split(';')) {
+    const tokens = part.trim().split(/\s+/).filter(Boolean);
+    if (tokens.length === 0) continue;
+
+    const name = tokens[0].toLowerCase();
+    if (!directives.has(name)) {
+      directives.set(name, tokens.slice(1));
+    }
+  }
+
+  return directives;
+}
+
+/**
+ * Whether a CSP source expression allows loading code from outside the package
+ */
+function isRemoteCspSource(source: string): boolean {
+  const lower = source.toLowerCase();
+
+  if (SAFE_CSP_SOURCES.has(lower) || lower.startsWith("'nonce-") || lower.startsWith("'sha")) {
+    return false;
+  }
+
+  if (lower.startsWith("'")) {
+    // 'unsafe-eval', 'unsafe-inline' and friends are reported separately
+    return false;
+  }
+
+  if (lower.startsWith('chrome-extension:') || lower.startsWith('blob:') || lower.startsWith('filesystem:')) {
+    return false;
+  }
+
+  // Localhost is allowed by Chrome for development and cannot reach third parties
+  if (/^(https?:\/\/)?(localhost|127\.0\.0\.1)(:\d+)?/.test(lower)) {
+    return false;
+  }
+
+  return true;
+}
+
+function manifestIssue(
+  code: string,
+  message: string,
+  severity: RiskLevel,
+  type: AnalysisIssue['type'] = 'warning'
+): AnalysisIssue {
+  return { type, code, message, severity, file: MANIFEST_FILE };
+}
@@ -0,0 +1,133 @@
+/**
+ * Tests for review annotation helpers
+ */
+
+import {
+  ANNOTATION_EXPORT_FORMAT,
+  createAnnotation,
+  exportAnnotations,
+  getAnnotationKey,
+  getHighestSeverity,
+  mergeAnnotations,
+  parseAnnotationExport,
+  sortAnnotations,
+  summarizeByFile,
+  updateAnnotation,
+} from '../annotations';
+import type { Annotation } from '../annotations';
+
+function annotation(overrides: Partial<Annotation> = {}): Annotation {
+  return {
+    id: 'a1',
+    filePath: 'background.js',
+    line: 10,
+    severity: 'medium',
+    note: 'Fetches remote config',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('annotations', () => {
+  it('keys annotation sets by extension ID and version', () => {
+    expect(getAnnotationKey('abc', '1.2.3')).toBe('abc@1.2.3');
+    expect(getAnnotationKey('abc', '')).toBe('abc@');
+  });
+
+  it('creates and updates annotations with trimmed notes', () => {
+    const created = createAnnotation({ filePath: 'a.js', line: null, severity: 'low', note: '  Minified  ' });
+    expect(created.id).toBeTruthy();
+    expect(created.note).toBe('Minified');
+    expect(created.createdAt).toBe(created.updatedAt);
+
+    const updated = updateAnnotation(created, { severity: 'high' });
+    expect(updated.severity).toBe('high');
+    expect(updated.note).toBe('Minified');
+  });
+
+  it('sorts file-level annotations before line annotations', () => {
+    const sorted = sortAnnotations([
+      annotation({ id: '1', filePath: 'b.js', line: 3 }),
+      annotation({ id: '2', filePath: 'a.js', line: 7 }),
+      annotation({ id: '3', filePath: 'a.js', line: null }),
+    ]);
+
+    expect(sorted.map((a) => a.id)).toEqual(['3', '2', '1']);
+  });
+
+  it('summarizes count and highest severity per file', () => {
+    const summaries = summarizeByFile([
+      annotation({ id: '1', severity: 'low' }),
+      annotation({ id: '2', severity: 'high' }),
+      annotation({ id: '3', filePath: 'popup.js', severity: 'info' }),
+    ]);
+
+    expect(summaries.get('background.js')).toEqual({ count: 2, severity: 'high' });
+    expect(summaries.get('popup.js')).toEqual({ count: 1, severity: 'info' });
+    expect(getHighestSeverity([])).toBeNull();
+  });
+
+  it('round-trips an export', () => {
+    const json = exportAnnotations({
+      key: 'abc@1.0',
+      extensionId: 'abc',
+      version: '1.0',
+      annotations: [annotation()],
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    });
+
+    const result = parseAnnotationExport(json);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value.format).toBe(ANNOTATION_EXPORT_FORMAT);
+      expect(result.value.extensionId).toBe('abc');
+      expect(result.value.annotations).toEqual([annotation()]);
+    }
+  });
+
+  it('imports an API annotation response and fills in missing fields', () => {
+    const json = JSON.stringify({
+      success: true,
+      data: {
+        extensionId: 'abc',
+        annotations: [{ filePath: 'a.js', severity: 'info', note: 'Uses chrome.storage' }],
+      },
+    });
+
+    const result = parseAnnotationExport(json);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value.extensionId).toBe('abc');
+      expect(result.value.annotations[0].id).toBeTruthy();
+      expect(result.value.annotations[0].line).toBeNull();
+    }
+  });
+
+  it('rejects malformed documents', () => {
+    expect(parseAnnotationExport('not json').success).toBe(false);
+    expect(parseAnnotationExport('{"items": []}').success).toBe(false);
+
+    const badSeverity = parseAnnotationExport(
+      JSON.stringify({ annotations: [{ filePath: 'a.js', severity: 'critical', note: 'x' }] })
+    );
+    expect(badSeverity.success).toBe(false);
+    if (!badSeverity.success) {
+      expect(badSeverity.error).toContain('annotation 1');
+    }
+  });
+
+  it('keeps the most recently updated copy when merging', () => {
+    const older = annotation({ note: 'old' });
+    const newer = annotation({ note: 'new', updatedAt: '2026-02-01T00:00:00.000Z' });
+    const other = annotation({ id: 'a2', line: 2 });
+
+    expect(mergeAnnotations([newer], [older, other]).map((a) => a.note)).toEqual([
+      'Fetches remote config',
+      'new',
+    ]);
+    expect(mergeAnnotations([older], [newer])[0].note).toBe('new');
+  });
+});
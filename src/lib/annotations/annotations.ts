@@ -0,0 +1,287 @@
+/**
+ * Review annotations on extension files and lines
+ *
+ * Annotations belong to one extension version and are keyed by
+ * `extensionId@version`. They are exported as a JSON document whose
+ * `annotations` field matches the API's `POST /extensions/:sessionId/annotations`
+ * body, so an export can be shared with teammates or posted to the API.
+ */
+
+export type AnnotationSeverity = 'info' | 'low' | 'medium' | 'high';
+
+export const ANNOTATION_SEVERITIES: AnnotationSeverity[] = ['info', 'low', 'medium', 'high'];
+
+export interface Annotation {
+  id: string;
+  filePath: string;
+  /** 1-based line, or null for a file-level annotation */
+  line: number | null;
+  severity: AnnotationSeverity;
+  note: string;
+  author?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AnnotationInput {
+  filePath: string;
+  line: number | null;
+  severity: AnnotationSeverity;
+  note: string;
+  author?: string;
+}
+
+export type AnnotationUpdate = Partial<Pick<Annotation, 'severity' | 'note'>>;
+
+/**
+ * Annotations of one extension version
+ */
+export interface AnnotationSet {
+  /** `extensionId@version` */
+  key: string;
+  extensionId: string;
+  version: string;
+  annotations: Annotation[];
+  updatedAt: string;
+}
+
+/**
+ * JSON document produced by exportAnnotations
+ */
+export interface AnnotationExport {
+  format: typeof ANNOTATION_EXPORT_FORMAT;
+  formatVersion: 1;
+  extensionId: string;
+  version: string;
+  exportedAt: string;
+  annotations: Annotation[];
+}
+
+/**
+ * Annotation count and highest severity of a file
+ */
+export interface FileAnnotationSummary {
+  count: number;
+  severity: AnnotationSeverity;
+}
+
+interface ImportSuccess {
+  success: true;
+  value: AnnotationExport;
+}
+
+interface ImportError {
+  success: false;
+  error: string;
+}
+
+export type AnnotationImportResult = ImportSuccess | ImportError;
+
+export const ANNOTATION_EXPORT_FORMAT = 'crxreview-annotations';
+
+const SEVERITY_RANK: Record<AnnotationSeverity, number> = { info: 0, low: 1, medium: 2, high: 3 };
+
+/**
+ * Key annotations are stored under
+ *
+ * @param extensionId - Extension ID
+ * @param version - Manifest version string; empty when the manifest has none
+ * @returns Key in format: {extensionId}@{version}
+ */
+export function getAnnotationKey(extensionId: string, version: string): string {
+  return `${extensionId}@${version}`;
+}
+
+/**
+ * Create an annotation with a new ID and timestamps
+ *
+ * @param input - Annotation fields
+ * @returns New annotation; the note is trimmed
+ */
+export function createAnnotation(input: AnnotationInput): Annotation {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    filePath: input.filePath,
+    line: input.line,
+    severity: input.severity,
+    note: input.note.trim(),
+    ...(input.author ? { author: input.author } : {}),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Apply changes to an annotation
+ *
+ * @param annotation - Annotation to change
+ * @param update - New severity or note
+ * @returns Updated copy with a new updatedAt
+ */
+export function updateAnnotation(annotation: Annotation, update: AnnotationUpdate): Annotation {
+  return {
+    ...annotation,
+    severity: update.severity ?? annotation.severity,
+    note: update.note !== undefined ? update.note.trim() : annotation.note,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Order annotations by file path, then line, with file-level annotations first
+ *
+ * @param annotations - Annotations to sort
+ * @returns New sorted array
+ */
+export function sortAnnotations(annotations: Annotation[]): Annotation[] {
+  return [...annotations].sort(
+    (a, b) =>
+      a.filePath.localeCompare(b.filePath) ||
+      (a.line ?? 0) - (b.line ?? 0) ||
+      a.createdAt.localeCompare(b.createdAt)
+  );
+}
+
+/**
+ * Get the highest severity among annotations
+ *
+ * @param annotations - Annotations to check
+ * @returns Highest severity, or null for an empty list
+ */
+export function getHighestSeverity(annotations: Annotation[]): AnnotationSeverity | null {
+  let highest: AnnotationSeverity | null = null;
+  for (const annotation of annotations) {
+    if (highest === null || SEVERITY_RANK[annotation.severity] > SEVERITY_RANK[highest]) {
+      highest = annotation.severity;
+    }
+  }
+  return highest;
+}
+
+/**
+ * Summarize annotations per file
+ *
+ * @param annotations - Annotations of an extension
+ * @returns Count and highest severity keyed by file path
+ */
+export function summarizeByFile(annotations: Annotation[]): Map<string, FileAnnotationSummary> {
+  const summaries = new Map<string, FileAnnotationSummary>();
+  for (const annotation of annotations) {
+    const summary = summaries.get(annotation.filePath);
+    if (!summary) {
+      summaries.set(annotation.filePath, { count: 1, severity: annotation.severity });
+      continue;
+    }
+    summary.count++;
+    if (SEVERITY_RANK[annotation.severity] > SEVERITY_RANK[summary.severity]) {
+      summary.severity = annotation.severity;
+    }
+  }
+  return summaries;
+}
+
+/**
+ * Serialize an annotation set for sharing
+ *
+ * @param set - Annotations of one extension version
+ * @returns Pretty-printed JSON document
+ */
+export function exportAnnotations(set: AnnotationSet): string {
+  const document: AnnotationExport = {
+    format: ANNOTATION_EXPORT_FORMAT,
+    formatVersion: 1,
+    extensionId: set.extensionId,
+    version: set.version,
+    exportedAt: new Date().toISOString(),
+    annotations: sortAnnotations(set.annotations),
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * Parse and validate an exported annotation document
+ *
+ * Also accepts the API's annotation list response (`{ annotations: [...] }`).
+ * Annotations without an ID or timestamps get new ones.
+ *
+ * @param json - Document text
+ * @returns Result object with success flag and either the document or error message
+ */
+export function parseAnnotationExport(json: string): AnnotationImportResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Invalid annotation file: ${message}` };
+  }
+
+  // API responses wrap the list in { success, data }
+  const body = isRecord(raw) && isRecord(raw.data) ? raw.data : raw;
+  if (!isRecord(body) || !Array.isArray(body.annotations)) {
+    return { success: false, error: 'Invalid annotation file: missing "annotations" list' };
+  }
+
+  const now = new Date().toISOString();
+  const annotations: Annotation[] = [];
+  for (const [index, item] of body.annotations.entries()) {
+    if (
+      !isRecord(item) ||
+      typeof item.filePath !== 'string' ||
+      item.filePath.length === 0 ||
+      typeof item.note !== 'string' ||
+      !ANNOTATION_SEVERITIES.includes(item.severity as AnnotationSeverity) ||
+      !(item.line === undefined || item.line === null || (Number.isInteger(item.line) && (item.line as number) > 0))
+    ) {
+      return { success: false, error: `Invalid annotation file: annotation ${index + 1} is malformed` };
+    }
+
+    annotations.push({
+      id: typeof item.id === 'string' && item.id ? item.id : crypto.randomUUID(),
+      filePath: item.filePath,
+      line: typeof item.line === 'number' ? item.line : null,
+      severity: item.severity as AnnotationSeverity,
+      note: item.note,
+      ...(typeof item.author === 'string' && item.author ? { author: item.author } : {}),
+      createdAt: typeof item.createdAt === 'string' ? item.createdAt : now,
+      updatedAt: typeof item.updatedAt === 'string' ? item.updatedAt : now,
+    });
+  }
+
+  return {
+    success: true,
+    value: {
+      format: ANNOTATION_EXPORT_FORMAT,
+      formatVersion: 1,
+      extensionId: typeof body.extensionId === 'string' ? body.extensionId : '',
+      version: typeof body.version === 'string' ? body.version : '',
+      exportedAt: typeof body.exportedAt === 'string' ? body.exportedAt : now,
+      annotations,
+    },
+  };
+}
+
+/**
+ * Merge imported annotations into existing ones
+ *
+ * Annotations with the same ID keep whichever copy was updated last.
+ *
+ * @param existing - Current annotations
+ * @param imported - Annotations from an import
+ * @returns Merged, sorted annotations
+ */
+export function mergeAnnotations(existing: Annotation[], imported: Annotation[]): Annotation[] {
+  const byId = new Map(existing.map((annotation) => [annotation.id, annotation]));
+  for (const annotation of imported) {
+    const current = byId.get(annotation.id);
+    if (!current || annotation.updatedAt > current.updatedAt) {
+      byId.set(annotation.id, annotation);
+    }
+  }
+  return sortAnnotations([...byId.values()]);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,27 @@
+/**
+ * Review annotation module exports
+ */
+
+export {
+  ANNOTATION_SEVERITIES,
+  ANNOTATION_EXPORT_FORMAT,
+  getAnnotationKey,
+  createAnnotation,
+  updateAnnotation,
+  sortAnnotations,
+  getHighestSeverity,
+  summarizeByFile,
+  exportAnnotations,
+  parseAnnotationExport,
+  mergeAnnotations,
+} from './annotations';
+export type {
+  Annotation,
+  AnnotationExport,
+  AnnotationImportResult,
+  AnnotationInput,
+  AnnotationSet,
+  AnnotationSeverity,
+  AnnotationUpdate,
+  FileAnnotationSummary,
+} from './annotations';
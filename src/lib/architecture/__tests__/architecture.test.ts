@@ -0,0 +1,171 @@
+/**
+ * Tests for script references, messaging call sites and the architecture graph
+ */
+
+import { buildManifestView } from '../../manifest/manifest-view';
+import { buildArchitectureGraph } from '../graph';
+import { layoutLayers } from '../layout';
+import { findMessagingCalls } from '../messaging';
+import { findFileReferences } from '../references';
+import type { SourceFile } from '../references';
+
+describe('references', () => {
+  it('should find script tags in pages', () => {
+    const references = findFileReferences({
+      path: 'popup/popup.html',
+      content: [
+        '<html><head>',
+        '<script src="../lib/vendor.js"></script>',
+        "<script type=module src='./popup.js?v=2'></script>",
+        '<script src=/shared.js></script><script src="https://cdn.example.com/x.js"></script>',
+      ].join('\n'),
+    });
+
+    expect(references.map(({ target, kind, line }) => ({ target, kind, line }))).toEqual([
+      { target: 'lib/vendor.js', kind: 'include', line: 2 },
+      { target: 'popup/popup.js', kind: 'include', line: 3 },
+      { target: 'shared.js', kind: 'include', line: 4 },
+    ]);
+  });
+
+  it('should find importScripts and ES imports in scripts', () => {
+    const references = findFileReferences({
+      path: 'bg/sw.js',
+      content: [
+        "importScripts('a.js', \"/b.js\");",
+        "import { x,",
+        "  y } from './util.js';",
+        "export * from '../shared/index.js';",
+        "import './side-effect.js';",
+        "import React from 'react';",
+        "const lazy = () => import('./lazy.js');",
+        "obj.import('./not-an-import.js');",
+      ].join('\n'),
+    });
+
+    expect(references.map(({ target, kind, line }) => `${kind} ${target}:${line}`)).toEqual([
+      'include bg/a.js:1',
+      'include b.js:1',
+      'import bg/util.js:3',
+      'import shared/index.js:4',
+      'import bg/side-effect.js:5',
+      'import bg/lazy.js:7',
+    ]);
+  });
+});
+
+describe('messaging', () => {
+  it('should find senders and listeners on chrome and browser', () => {
+    const calls = findMessagingCalls({
+      path: 'a.js',
+      content: [
+        'chrome.runtime.sendMessage({ type: "x" });',
+        'browser.tabs.sendMessage(tabId, msg);',
+        'chrome.runtime.onMessage.addListener(handler);',
+        'const port = chrome.tabs.connect(tabId); chrome.runtime.onConnect.addListener(fn);',
+        'chrome.runtime.connectNative("host"); chrome.tabs.onUpdated.addListener(fn);',
+      ].join('\n'),
+    });
+
+    expect(calls.map((call) => `${call.kind}:${call.line}`)).toEqual([
+      'runtime-send:1',
+      'tabs-send:2',
+      'on-message:3',
+      'tabs-connect:4',
+      'on-connect:4',
+    ]);
+  });
+});
+
+describe('architecture graph', () => {
+  const manifestText = JSON.stringify(
+    {
+      manifest_version: 3,
+      name: 'Example',
+      version: '1.0',
+      background: { service_worker: 'sw.js' },
+      content_scripts: [{ matches: ['<all_urls>'], js: ['content.js'] }],
+      action: { default_popup: 'popup.html' },
+      sandbox: { pages: ['sandbox.html'] },
+      web_accessible_resources: [{ resources: ['inject.js', 'img/*'], matches: ['<all_urls>'] }],
+    },
+    null,
+    2
+  );
+
+  const files: SourceFile[] = [
+    { path: 'manifest.json', content: manifestText },
+    {
+      path: 'sw.js',
+      content: [
+        "importScripts('shared.js');",
+        'chrome.runtime.onMessage.addListener(onMessage);',
+        "chrome.offscreen.createDocument({ url: 'offscreen.html', reasons: ['CLIPBOARD'] });",
+        'chrome.tabs.sendMessage(tabId, { type: "refresh" });',
+      ].join('\n'),
+    },
+    { path: 'shared.js', content: '' },
+    { path: 'content.js', content: 'chrome.runtime.onMessage.addListener(fn);\nchrome.runtime.sendMessage({ type: "hello" });' },
+    { path: 'popup.html', content: '<script src="popup.js"></script><script src="missing.js"></script>' },
+    { path: 'popup.js', content: 'chrome.runtime.connect({ name: "popup" });' },
+    { path: 'offscreen.html', content: '<script src="offscreen.js"></script>' },
+    { path: 'offscreen.js', content: 'chrome.runtime.onMessage.addListener(fn);' },
+    { path: 'sandbox.html', content: '' },
+    { path: 'inject.js', content: '' },
+  ];
+
+  const packagePaths = new Set(files.map((file) => file.path));
+  const graph = buildArchitectureGraph(buildManifestView(JSON.parse(manifestText), null), files, packagePaths);
+  const label = (id: string) => graph.nodes.find((node) => node.id === id)?.label;
+  const edges = graph.edges.map((edge) => `${edge.kind} ${label(edge.from)} -> ${label(edge.to)}`);
+
+  it('should create a node per context', () => {
+    expect(graph.nodes.filter((node) => node.type === 'context').map((node) => `${node.kind} ${node.path}`)).toEqual([
+      'background sw.js',
+      'content_script null',
+      'popup popup.html',
+      'offscreen offscreen.html',
+      'sandbox sandbox.html',
+      'web_accessible inject.js',
+    ]);
+  });
+
+  it('should link contexts to the scripts they load', () => {
+    expect(edges.filter((edge) => edge.startsWith('include'))).toEqual([
+      'include Service worker -> shared.js',
+      'include Content script #1 -> content.js',
+      'include Popup -> popup.js',
+      'include Popup -> missing.js',
+      'include Offscreen document -> offscreen.js',
+    ]);
+    expect(graph.nodes.find((node) => node.path === 'missing.js')?.missing).toBe(true);
+
+    const declared = graph.edges.find((edge) => label(edge.to) === 'content.js');
+    expect(declared?.sites).toEqual([{ path: 'manifest.json', line: 14 }]);
+  });
+
+  it('should route messages between contexts', () => {
+    const messaging = graph.edges.filter((edge) => edge.kind === 'message' || edge.kind === 'connect');
+    expect(messaging.map((edge) => `${edge.kind} ${label(edge.from)} -> ${label(edge.to)}`)).toEqual([
+      'message Service worker -> Content script #1',
+      'message Content script #1 -> Service worker',
+      'message Content script #1 -> Offscreen document',
+    ]);
+    expect(messaging[0]).toMatchObject({ sites: [{ path: 'sw.js', line: 4 }], listeners: [{ path: 'content.js', line: 1 }] });
+    expect(graph.unhandledCalls).toEqual([{ kind: 'runtime-connect', path: 'popup.js', line: 1, api: 'chrome.runtime.connect' }]);
+  });
+
+  it('should lay out contexts before the files they load', () => {
+    const layout = layoutLayers(
+      graph.nodes.map((node) => node.id),
+      graph.nodes.filter((node) => node.type === 'context').map((node) => node.id),
+      graph.edges.filter((edge) => edge.kind === 'include' || edge.kind === 'import'),
+      { nodeWidth: 100, nodeHeight: 20, columnGap: 50, rowGap: 10 }
+    );
+
+    const column = (path: string) => layout.positions.get(`file:${path}`)?.column;
+    expect(layout.positions.get('context:0')).toEqual({ x: 0, y: 0, column: 0, row: 0 });
+    expect(column('shared.js')).toBe(1);
+    expect(layout.width).toBe(250);
+  });
+});
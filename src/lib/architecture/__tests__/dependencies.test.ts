@@ -0,0 +1,150 @@
+/**
+ * Tests for file references and the file dependency graph
+ */
+
+import { buildDependencyGraph, findFileDependencies, getReferenceChain } from '../dependencies';
+import type { FileDependency } from '../dependencies';
+import type { SourceFile } from '../references';
+
+const describeDependency = ({ kind, to, line, missing }: FileDependency) =>
+  `${kind} ${to}:${line}${missing ? ' (missing)' : ''}`;
+
+describe('findFileDependencies', () => {
+  const packagePaths = new Set([
+    'popup/popup.html',
+    'popup/popup.css',
+    'popup/popup.js',
+    'popup/lib/index.js',
+    'fonts/inter.woff2',
+    'img/logo.png',
+    'img/bg.png',
+    'data/rules.json',
+    'welcome.html',
+  ]);
+
+  it('should find page scripts, attributes and inline styles', () => {
+    const dependencies = findFileDependencies(
+      {
+        path: 'popup/popup.html',
+        content: [
+          '<link rel="stylesheet" href="popup.css">',
+          '<script src="popup.js"></script>',
+          '<img src="/img/logo.png" alt=""><a href="#top">top</a><a href="https://example.com">x</a>',
+          '<div style="background: url(\'../img/bg.png\')"></div>',
+          '<img src="missing.png">',
+        ].join('\n'),
+      },
+      packagePaths
+    );
+
+    expect(dependencies.map(describeDependency)).toEqual([
+      'attribute popup/popup.css:1',
+      'include popup/popup.js:2',
+      'attribute img/logo.png:3',
+      'url img/bg.png:4',
+      'attribute popup/missing.png:5 (missing)',
+    ]);
+  });
+
+  it('should find stylesheet imports and urls', () => {
+    const dependencies = findFileDependencies(
+      {
+        path: 'popup/popup.css',
+        content: [
+          '@import url("../theme.css");',
+          '@font-face { src: url(../fonts/inter.woff2) format("woff2"); }',
+          '.x { background: url(data:image/png;base64,AAAA); }',
+          '/*# sourceMappingURL=popup.css.map */',
+        ].join('\n'),
+      },
+      packagePaths
+    );
+
+    expect(dependencies.map(describeDependency)).toEqual([
+      'import theme.css:1 (missing)',
+      'url fonts/inter.woff2:2',
+      'source-map popup/popup.css.map:4 (missing)',
+    ]);
+  });
+
+  it('should find requires, getURL calls and path literals in scripts', () => {
+    const dependencies = findFileDependencies(
+      {
+        path: 'popup/popup.js',
+        content: [
+          "const lib = require('./lib');",
+          "chrome.tabs.create({ url: chrome.runtime.getURL('welcome.html') });",
+          "fetch('/data/rules.json');",
+          "const name = 'not-a-file.txt';",
+          'const page = chrome.runtime.getURL(`pages/${name}`);',
+        ].join('\n'),
+      },
+      packagePaths
+    );
+
+    expect(dependencies.map(describeDependency)).toEqual([
+      'require popup/lib/index.js:1',
+      'get-url welcome.html:2',
+      'literal data/rules.json:3',
+    ]);
+  });
+});
+
+describe('buildDependencyGraph', () => {
+  const manifest = {
+    manifest_version: 3,
+    name: 'Example',
+    version: '1.0',
+    default_locale: 'en',
+    background: { service_worker: 'sw.js' },
+    action: { default_popup: 'popup.html' },
+    declarative_net_request: { rule_resources: [{ id: 'r', enabled: true, path: 'rules/block.json' }] },
+    web_accessible_resources: [{ resources: ['img/*'], matches: ['<all_urls>'] }],
+  };
+
+  const files: SourceFile[] = [
+    { path: 'manifest.json', content: JSON.stringify(manifest, null, 2) },
+    { path: 'sw.js', content: "importScripts('lib/a.js');" },
+    { path: 'lib/a.js', content: "import './b.js';" },
+    { path: 'lib/b.js', content: '' },
+    { path: 'popup.html', content: '<script src="popup.js"></script>' },
+    { path: 'popup.js', content: '' },
+    { path: 'old/legacy.js', content: "import '../lib/b.js';" },
+  ];
+
+  const packagePaths = new Set([
+    ...files.map((file) => file.path),
+    'rules/block.json',
+    'img/nested/icon.png',
+    '_locales/en/messages.json',
+    '_metadata/verified_contents.json',
+    'README.md',
+  ]);
+
+  const graph = buildDependencyGraph(manifest, files, packagePaths);
+
+  it('should start from the manifest and the files the browser reads itself', () => {
+    expect(graph.entryPoints).toEqual(['_locales/en/messages.json', '_metadata/verified_contents.json', 'manifest.json']);
+    expect(graph.dependencies.get('manifest.json')?.map((dependency) => `${dependency.to}:${dependency.line}`)).toEqual([
+      'popup.html:10',
+      'sw.js:7',
+      'rules/block.json:17',
+      'img/nested/icon.png:24',
+    ]);
+  });
+
+  it('should mark files no entry point reaches as unreferenced', () => {
+    expect(graph.unreferenced).toEqual(['README.md', 'old/legacy.js']);
+    expect(graph.reachable.has('lib/b.js')).toBe(true);
+  });
+
+  it('should index dependents and the chain reaching each file', () => {
+    expect(graph.dependents.get('lib/b.js')?.map((dependency) => dependency.from)).toEqual(['lib/a.js', 'old/legacy.js']);
+    expect(getReferenceChain(graph, 'lib/b.js').map((dependency) => dependency.from)).toEqual([
+      'manifest.json',
+      'sw.js',
+      'lib/a.js',
+    ]);
+    expect(getReferenceChain(graph, 'old/legacy.js')).toEqual([]);
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * File dependency graph
+ *
+ * Resolves every way one package file names another: manifest fields,
+ * HTML `src`/`href` attributes, CSS `url()` and `@import`, script includes,
+ * ES imports and `require()`, `runtime.getURL()` arguments, string literals
+ * that spell out an existing package path, and `sourceMappingURL` comments.
+ * Files that no chain of references reaches from an entry point (the
+ * manifest, plus the `_locales` catalogs and `_metadata` the browser reads
+ * on its own) are reported as unreferenced. Matching is lexical, so paths
+ * built at runtime are missed and such files may show as unreferenced.
+ */
+
+import { buildManifestView, normalizeManifestPath } from '../manifest/manifest-view';
+import { createLineLookup, createPathLineFinder, findFileReferences, isHtmlFile, isScriptFile, resolveReference } from './references';
+import type { SourceFile } from './references';
+
+/**
+ * How one file names another
+ *
+ * - `manifest`: a manifest.json field
+ * - `include`: `<script src>` or `importScripts()`
+ * - `import`: an ES import or CSS `@import`
+ * - `require`: a CommonJS `require()`
+ * - `attribute`: any other HTML `src`, `href`, `poster` or `data` attribute
+ * - `url`: a CSS `url()`
+ * - `get-url`: a `runtime.getURL()` argument
+ * - `literal`: a string literal naming an existing package file
+ * - `source-map`: a `sourceMappingURL` comment
+ */
+export type DependencyKind =
+  | 'manifest'
+  | 'include'
+  | 'import'
+  | 'require'
+  | 'attribute'
+  | 'url'
+  | 'get-url'
+  | 'literal'
+  | 'source-map';
+
+/**
+ * A reference from one package file to another
+ */
+export interface FileDependency {
+  /** Referencing file */
+  from: string;
+  /** Referenced package path */
+  to: string;
+  kind: DependencyKind;
+  /** Unknown when the manifest names the file but the line can't be found */
+  line?: number;
+  /** Reference as written */
+  specifier: string;
+  /** Target is not in the package */
+  missing: boolean;
+}
+
+/**
+ * References between package files and what the entry points reach
+ */
+export interface DependencyGraph {
+  /** Files the browser loads without being referenced */
+  entryPoints: string[];
+  /** Outgoing references by referencing file */
+  dependencies: Map<string, FileDependency[]>;
+  /** Incoming references by referenced file, missing targets included */
+  dependents: Map<string, FileDependency[]>;
+  /** Files some chain of references reaches from an entry point */
+  reachable: Set<string>;
+  /** Reference through which each reachable non-entry file was first reached */
+  reachedBy: Map<string, FileDependency>;
+  /** Package files no entry point reaches, sorted */
+  unreferenced: string[];
+  /** References to files that aren't in the package */
+  missing: FileDependency[];
+}
+
+const MANIFEST_PATH = 'manifest.json';
+
+const HTML_ATTRIBUTE = /\s(?:src|href|poster|data)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>"']+))/gi;
+const CSS_IMPORT = /@import\s+(?:url\(\s*)?(['"]?)([^'"\s;)]+)\1/g;
+const CSS_URL = /\burl\(\s*(['"]?)([^'")\s]+)\1\s*\)/g;
+const REQUIRE_CALL = /(?:^|[^\w$.])require\s*\(\s*(['"])(\.{0,2}\/[^'"\n]+)\1\s*\)/g;
+const GET_URL_CALL = /\bgetURL\s*\(\s*(['"`])([^'"`\n]+)\1\s*\)/g;
+// Quoted paths ending in a file extension, e.g. 'img/icon.png' or "./data/rules.json"
+const PATH_LITERAL = /(['"`])((?:\.{1,2}\/|\/)?[\w@~-][\w@~.\-/]*\.[A-Za-z0-9]{1,8})\1/g;
+const SOURCE_MAPPING_URL = /[#@]\s*sourceMappingURL\s*=\s*([^\s*'"]+)/g;
+
+/**
+ * Whether a file is read for references when building the graph
+ */
+export function isDependencySource(path: string): boolean {
+  return path === MANIFEST_PATH || isHtmlFile(path) || isScriptFile(path) || isStylesheet(path);
+}
+
+function isStylesheet(path: string): boolean {
+  return /\.css$/i.test(path);
+}
+
+/**
+ * Find the package files a page, stylesheet or script references
+ *
+ * @param file - Path and decoded contents
+ * @param packagePaths - Every file path in the package; string literals only
+ * count when they name one of these, and `require()` tries `.js` and
+ * `/index.js` against them
+ * @returns References sorted by line, at most one per target and line
+ */
+export function findFileDependencies(file: SourceFile, packagePaths: Set<string>): FileDependency[] {
+  const dependencies: FileDependency[] = [];
+  const seen = new Set<string>();
+  const lineAt = createLineLookup(file.content);
+
+  const add = (to: string | null, kind: DependencyKind, specifier: string, line: number) => {
+    if (!to || to === file.path) return;
+    const key = `${to}:${line}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    dependencies.push({ from: file.path, to, kind, line, specifier, missing: !packagePaths.has(to) });
+  };
+
+  // Line of the specifier rather than of the match, which may start on the line before
+  const lineOf = (match: RegExpMatchArray, specifier: string) => lineAt((match.index ?? 0) + match[0].lastIndexOf(specifier));
+
+  const addUrl = (specifier: string, kind: DependencyKind, match: RegExpMatchArray) => {
+    // Fragments, inline data and templated URLs don't name a package file
+    if (/^(?:#|data:|javascript:|about:|\{\{|\$\{)/i.test(specifier.trim())) return;
+    add(resolveReference(file.path, specifier), kind, specifier, lineOf(match, specifier));
+  };
+
+  for (const reference of findFileReferences(file)) {
+    add(reference.target, reference.kind, reference.specifier, reference.line);
+  }
+
+  if (isHtmlFile(file.path)) {
+    for (const match of file.content.matchAll(HTML_ATTRIBUTE)) {
+      addUrl(match[1] ?? match[2] ?? match[3], 'attribute', match);
+    }
+  }
+
+  // Pages can carry `<style>` blocks and `style` attributes
+  if (isStylesheet(file.path) || isHtmlFile(file.path)) {
+    for (const match of file.content.matchAll(CSS_IMPORT)) {
+      addUrl(match[2], 'import', match);
+    }
+    for (const match of file.content.matchAll(CSS_URL)) {
+      addUrl(match[2], 'url', match);
+    }
+  }
+
+  if (isScriptFile(file.path)) {
+    for (const match of file.content.matchAll(REQUIRE_CALL)) {
+      const target = resolveReference(file.path, match[2]);
+      const resolved = target && [target, `${target}.js`, `${target}/index.js`].find((path) => packagePaths.has(path));
+      add(resolved || target, 'require', match[2], lineOf(match, match[2]));
+    }
+    for (const match of file.content.matchAll(GET_URL_CALL)) {
+      // getURL resolves against the extension root, not the calling script
+      if (!match[2].includes('${')) {
+        add(resolveReference('', `/${match[2].replace(/^\/+/, '')}`), 'get-url', match[2], lineOf(match, match[2]));
+      }
+    }
+    for (const match of file.content.matchAll(PATH_LITERAL)) {
+      const specifier = match[2];
+      const target = [resolveReference('', `/${specifier.replace(/^\/+/, '')}`), resolveReference(file.path, specifier)].find(
+        (path) => path && packagePaths.has(path)
+      );
+      if (target) {
+        add(target, 'literal', specifier, lineOf(match, specifier));
+      }
+    }
+  }
+
+  if (isScriptFile(file.path) || isStylesheet(file.path)) {
+    for (const match of file.content.matchAll(SOURCE_MAPPING_URL)) {
+      addUrl(match[1], 'source-map', match);
+    }
+  }
+
+  return dependencies.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+}
+
+/**
+ * Build the file dependency graph of an extension
+ *
+ * @param manifest - Parsed manifest.json
+ * @param files - Decoded pages, stylesheets and scripts, plus manifest.json for line numbers
+ * @param packagePaths - Every file path in the package
+ */
+export function buildDependencyGraph(
+  manifest: Record<string, unknown>,
+  files: SourceFile[],
+  packagePaths: Set<string>
+): DependencyGraph {
+  const dependencies = new Map<string, FileDependency[]>();
+  const dependents = new Map<string, FileDependency[]>();
+  const missing: FileDependency[] = [];
+
+  const record = (dependency: FileDependency) => {
+    const outgoing = dependencies.get(dependency.from) ?? [];
+    outgoing.push(dependency);
+    dependencies.set(dependency.from, outgoing);
+
+    const incoming = dependents.get(dependency.to) ?? [];
+    incoming.push(dependency);
+    dependents.set(dependency.to, incoming);
+
+    if (dependency.missing) {
+      missing.push(dependency);
+    }
+  };
+
+  const manifestFile = files.find((file) => file.path === MANIFEST_PATH);
+  const manifestLine = createPathLineFinder(manifestFile);
+  for (const { path, specifier } of collectManifestFiles(manifest, packagePaths)) {
+    if (path === MANIFEST_PATH) continue;
+    record({
+      from: MANIFEST_PATH,
+      to: path,
+      kind: 'manifest',
+      line: manifestLine(specifier),
+      specifier,
+      missing: !packagePaths.has(path),
+    });
+  }
+
+  for (const file of files) {
+    if (file.path === MANIFEST_PATH || !isDependencySource(file.path)) continue;
+    findFileDependencies(file, packagePaths).forEach(record);
+  }
+
+  const entryPoints = [...packagePaths]
+    .filter(
+      (path) =>
+        path === MANIFEST_PATH ||
+        path.startsWith('_metadata/') ||
+        (typeof manifest.default_locale === 'string' && /^_locales\/[^/]+\/messages\.json$/.test(path))
+    )
+    .sort();
+
+  const reachable = new Set(entryPoints);
+  const reachedBy = new Map<string, FileDependency>();
+  const queue = [...entryPoints];
+  while (queue.length > 0) {
+    const path = queue.shift() as string;
+    for (const dependency of dependencies.get(path) ?? []) {
+      if (dependency.missing || reachable.has(dependency.to)) continue;
+      reachable.add(dependency.to);
+      reachedBy.set(dependency.to, dependency);
+      queue.push(dependency.to);
+    }
+  }
+
+  return {
+    entryPoints,
+    dependencies,
+    dependents,
+    reachable,
+    reachedBy,
+    unreferenced: [...packagePaths].filter((path) => !reachable.has(path)).sort(),
+    missing,
+  };
+}
+
+/**
+ * Follow `reachedBy` back from a file to the entry point that reaches it
+ *
+ * @returns References from the entry point down to the file; empty for
+ * entry points and unreferenced files
+ */
+export function getReferenceChain(graph: DependencyGraph, path: string): FileDependency[] {
+  const chain: FileDependency[] = [];
+  const visited = new Set<string>();
+  let current = graph.reachedBy.get(path);
+  while (current && !visited.has(current.to)) {
+    visited.add(current.to);
+    chain.unshift(current);
+    current = graph.reachedBy.get(current.from);
+  }
+  return chain;
+}
+
+/**
+ * Package files the manifest names, including ones the manifest view leaves
+ * out: ruleset and managed storage schema files, theme images, and the files
+ * web-accessible resource wildcards match
+ */
+function collectManifestFiles(
+  manifest: Record<string, unknown>,
+  packagePaths: Set<string>
+): Array<{ path: string; specifier: string }> {
+  const view = buildManifestView(manifest, null);
+  const files = view.referencedFiles.map((path) => ({ path, specifier: path }));
+
+  const addPath = (value: unknown) => {
+    if (typeof value === 'string' && value.trim() && !/^[a-z][a-z0-9+.-]*:/i.test(value)) {
+      files.push({ path: normalizeManifestPath(value), specifier: normalizeManifestPath(value) });
+    }
+  };
+
+  const ruleResources = asRecord(manifest.declarative_net_request)?.rule_resources;
+  if (Array.isArray(ruleResources)) {
+    ruleResources.forEach((resource) => addPath(asRecord(resource)?.path));
+  }
+  addPath(asRecord(manifest.storage)?.managed_schema);
+  Object.values(asRecord(asRecord(manifest.theme)?.images) ?? {}).forEach(addPath);
+
+  for (const entry of view.webAccessibleResources) {
+    for (const resource of entry.resources) {
+      if (!resource.includes('*')) continue;
+      const pattern = globToRegExp(normalizeManifestPath(resource));
+      for (const path of packagePaths) {
+        if (pattern.test(path)) {
+          files.push({ path, specifier: normalizeManifestPath(resource) });
+        }
+      }
+    }
+  }
+
+  return files;
+}
+
+// Web-accessible resource wildcards match across directories
+function globToRegExp(glob: string): RegExp {
+  return new RegExp(`^${glob.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`);
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
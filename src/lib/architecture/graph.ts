@@ -0,0 +1,369 @@
+/**
+ * Extension architecture graph
+ *
+ * Models an extension as its execution contexts (service worker or
+ * background page, content scripts, popup, options and other pages,
+ * offscreen documents, sandbox pages and web-accessible resources) and the
+ * script files each one loads. Edges are script includes and imports
+ * between them, and message passing between contexts: runtime messages and
+ * ports go from any context to extension pages that listen for them, tab
+ * messages and ports go to content scripts.
+ */
+
+import type { ManifestView } from '../manifest/manifest-view';
+import { normalizeManifestPath } from '../manifest/manifest-view';
+import { findMessagingCalls, isSenderCall } from './messaging';
+import type { MessagingCall, MessagingCallKind } from './messaging';
+import { createPathLineFinder, findFileReferences, isHtmlFile, isScriptFile } from './references';
+import type { FileReference, SourceFile } from './references';
+
+/**
+ * Kind of execution context
+ */
+export type ContextKind =
+  | 'background'
+  | 'content_script'
+  | 'popup'
+  | 'options'
+  | 'page'
+  | 'offscreen'
+  | 'sandbox'
+  | 'web_accessible';
+
+/**
+ * A context or a script file it loads
+ */
+export interface GraphNode {
+  id: string;
+  type: 'context' | 'file';
+  /** Contexts only */
+  kind: ContextKind | null;
+  label: string;
+  /** Entry page or script of a context, or the file itself */
+  path: string | null;
+  /** Path is not in the package */
+  missing: boolean;
+}
+
+export type GraphEdgeKind = 'include' | 'import' | 'message' | 'connect';
+
+/**
+ * A source location that produced an edge
+ */
+export interface CallSite {
+  path: string;
+  /** Unknown when the manifest declares the file but the line can't be found */
+  line?: number;
+}
+
+/**
+ * A directed edge between two nodes
+ */
+export interface GraphEdge {
+  id: string;
+  from: string;
+  to: string;
+  kind: GraphEdgeKind;
+  /** Where the include, import, send or connect happens */
+  sites: CallSite[];
+  /** Messaging edges only: listeners in the receiving context */
+  listeners: CallSite[];
+}
+
+/**
+ * Extension architecture graph
+ */
+export interface ArchitectureGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  /** Sends and connects no context listens for */
+  unhandledCalls: MessagingCall[];
+  /** File nodes left out to keep the graph readable */
+  omittedFiles: number;
+}
+
+/** Most file nodes kept; the shallowest files win */
+export const MAX_FILE_NODES = 250;
+
+const MANIFEST_PATH = 'manifest.json';
+
+// Contexts that run as extension pages and can receive runtime messages
+const EXTENSION_PAGE_KINDS: ContextKind[] = ['background', 'popup', 'options', 'page', 'offscreen', 'web_accessible'];
+
+const OFFSCREEN_DOCUMENT =
+  /\boffscreen\s*\.\s*createDocument\s*\(\s*\{[^}]*?\burl\s*:\s*(?:[\w$.]*getURL\s*\(\s*)?(['"`])([^'"`\n]+)\1/g;
+
+const MESSAGE_ROUTES: Record<string, { listener: MessagingCallKind; receivers: 'pages' | 'content_scripts'; kind: GraphEdgeKind }> = {
+  'runtime-send': { listener: 'on-message', receivers: 'pages', kind: 'message' },
+  'runtime-connect': { listener: 'on-connect', receivers: 'pages', kind: 'connect' },
+  'tabs-send': { listener: 'on-message', receivers: 'content_scripts', kind: 'message' },
+  'tabs-connect': { listener: 'on-connect', receivers: 'content_scripts', kind: 'connect' },
+};
+
+interface ContextSeed {
+  node: GraphNode;
+  /** Entry page or script whose references the context node owns */
+  entry: string | null;
+  /** Scripts the manifest declares directly */
+  declared: string[];
+}
+
+/**
+ * Build the architecture graph of an extension
+ *
+ * @param view - Normalized manifest
+ * @param files - Decoded HTML and script files, plus manifest.json for line numbers
+ * @param packagePaths - Every file path in the package, to mark missing files
+ */
+export function buildArchitectureGraph(
+  view: ManifestView,
+  files: SourceFile[],
+  packagePaths: Set<string>
+): ArchitectureGraph {
+  const fileMap = new Map(files.map((file) => [file.path, file]));
+  const manifestLine = createPathLineFinder(fileMap.get(MANIFEST_PATH));
+
+  const referenceCache = new Map<string, FileReference[]>();
+  const referencesOf = (path: string): FileReference[] => {
+    let references = referenceCache.get(path);
+    if (!references) {
+      const file = fileMap.get(path);
+      references = file && (isHtmlFile(path) || isScriptFile(path)) ? findFileReferences(file) : [];
+      referenceCache.set(path, references);
+    }
+    return references;
+  };
+
+  const seeds = collectContexts(view, files, packagePaths);
+  const nodes = new Map<string, GraphNode>(seeds.map((seed) => [seed.node.id, seed.node]));
+  const edges = new Map<string, GraphEdge>();
+
+  const addEdge = (from: string, to: string, kind: GraphEdgeKind, site: CallSite) => {
+    const id = `${from}>${to}>${kind}`;
+    let edge = edges.get(id);
+    if (!edge) {
+      edge = { id, from, to, kind, sites: [], listeners: [] };
+      edges.set(id, edge);
+    }
+    if (!edge.sites.some((existing) => existing.path === site.path && existing.line === site.line)) {
+      edge.sites.push(site);
+    }
+  };
+
+  const fileNode = (path: string): string => {
+    const id = `file:${path}`;
+    if (!nodes.has(id)) {
+      nodes.set(id, { id, type: 'file', kind: null, label: path, path, missing: !packagePaths.has(path) });
+    }
+    return id;
+  };
+
+  // Files each context loads, following includes and imports
+  const contextFiles = new Map<string, Set<string>>();
+
+  for (const seed of seeds) {
+    const loaded = new Set<string>();
+    const queue: Array<{ path: string; owner: string }> = [];
+
+    if (seed.entry) {
+      queue.push({ path: seed.entry, owner: seed.node.id });
+    }
+    for (const script of seed.declared) {
+      addEdge(seed.node.id, fileNode(script), 'include', { path: MANIFEST_PATH, line: manifestLine(script) });
+      queue.push({ path: script, owner: fileNode(script) });
+    }
+
+    while (queue.length > 0) {
+      const { path, owner } = queue.shift() as { path: string; owner: string };
+      if (loaded.has(path)) continue;
+      loaded.add(path);
+
+      for (const reference of referencesOf(path)) {
+        const target = fileNode(reference.target);
+        addEdge(owner, target, reference.kind, { path: reference.path, line: reference.line });
+        queue.push({ path: reference.target, owner: target });
+      }
+    }
+
+    contextFiles.set(seed.node.id, loaded);
+  }
+
+  const unhandledCalls = linkMessaging(seeds, contextFiles, fileMap, edges);
+  const graph = { nodes: [...nodes.values()], edges: [...edges.values()], unhandledCalls, omittedFiles: 0 };
+  return limitFileNodes(graph, MAX_FILE_NODES);
+}
+
+/**
+ * Add messaging edges between contexts
+ *
+ * @returns Sender calls with no listening context
+ */
+function linkMessaging(
+  seeds: ContextSeed[],
+  contextFiles: Map<string, Set<string>>,
+  fileMap: Map<string, SourceFile>,
+  edges: Map<string, GraphEdge>
+): MessagingCall[] {
+  const callCache = new Map<string, MessagingCall[]>();
+  const callsOf = (contextId: string): MessagingCall[] => {
+    let calls = callCache.get(contextId);
+    if (!calls) {
+      calls = [...(contextFiles.get(contextId) ?? [])].flatMap((path) => {
+        const file = fileMap.get(path);
+        return file && isScriptFile(path) ? findMessagingCalls(file) : [];
+      });
+      callCache.set(contextId, calls);
+    }
+    return calls;
+  };
+
+  // Sandboxed pages and page-world scripts have no extension APIs
+  const messagingSeeds = seeds.filter(
+    (seed) => seed.node.kind !== 'sandbox' && !(seed.node.kind === 'web_accessible' && !isHtmlFile(seed.node.path ?? ''))
+  );
+
+  const unhandled: MessagingCall[] = [];
+
+  for (const sender of messagingSeeds) {
+    const senderCalls = callsOf(sender.node.id).filter((call) => isSenderCall(call.kind));
+
+    for (const [callKind, route] of Object.entries(MESSAGE_ROUTES)) {
+      const sites = senderCalls.filter((call) => call.kind === callKind);
+      if (sites.length === 0) continue;
+
+      const receivers = messagingSeeds.filter(
+        (receiver) =>
+          receiver !== sender &&
+          (route.receivers === 'content_scripts'
+            ? receiver.node.kind === 'content_script'
+            : EXTENSION_PAGE_KINDS.includes(receiver.node.kind as ContextKind)) &&
+          callsOf(receiver.node.id).some((call) => call.kind === route.listener)
+      );
+
+      if (receivers.length === 0) {
+        unhandled.push(...sites);
+        continue;
+      }
+
+      for (const receiver of receivers) {
+        const id = `${sender.node.id}>${receiver.node.id}>${route.kind}`;
+        let edge = edges.get(id);
+        if (!edge) {
+          edge = { id, from: sender.node.id, to: receiver.node.id, kind: route.kind, sites: [], listeners: [] };
+          edges.set(id, edge);
+        }
+        edge.sites.push(...sites.map(({ path, line }) => ({ path, line })));
+        for (const call of callsOf(receiver.node.id)) {
+          if (call.kind === route.listener && !edge.listeners.some((site) => site.path === call.path && site.line === call.line)) {
+            edge.listeners.push({ path: call.path, line: call.line });
+          }
+        }
+      }
+    }
+  }
+
+  return unhandled;
+}
+
+function collectContexts(view: ManifestView, files: SourceFile[], packagePaths: Set<string>): ContextSeed[] {
+  const seeds: ContextSeed[] = [];
+  const entries = new Set<string>();
+
+  const add = (kind: ContextKind, label: string, entry: string | null, declared: string[] = []) => {
+    if (entry) {
+      if (entries.has(entry)) return;
+      entries.add(entry);
+    }
+    seeds.push({
+      node: {
+        id: `context:${seeds.length}`,
+        type: 'context',
+        kind,
+        label,
+        path: entry,
+        missing: entry !== null && !packagePaths.has(entry),
+      },
+      entry,
+      declared,
+    });
+  };
+
+  const background = view.background;
+  if (background?.serviceWorker) {
+    add('background', 'Service worker', background.serviceWorker);
+  } else if (background?.page) {
+    add('background', 'Background page', background.page);
+  } else if (background && background.scripts.length > 0) {
+    add('background', 'Background scripts', null, background.scripts);
+  }
+
+  view.contentScripts.forEach((script, i) => {
+    if (script.js.length > 0) {
+      add('content_script', `Content script #${i + 1}`, null, script.js);
+    }
+  });
+
+  if (view.action?.popup) {
+    add('popup', 'Popup', view.action.popup);
+  }
+  if (view.optionsPage) {
+    add('options', 'Options page', view.optionsPage.path);
+  }
+  for (const page of view.otherPages) {
+    add('page', page.field, page.path);
+  }
+
+  for (const file of files) {
+    if (!isScriptFile(file.path)) continue;
+    for (const match of file.content.matchAll(OFFSCREEN_DOCUMENT)) {
+      add('offscreen', 'Offscreen document', normalizeManifestPath(match[2]));
+    }
+  }
+
+  for (const page of view.sandbox?.pages ?? []) {
+    add('sandbox', 'Sandbox page', page);
+  }
+
+  for (const entry of view.webAccessibleResources) {
+    for (const resource of entry.resources) {
+      if (!/[*?]/.test(resource) && (isHtmlFile(resource) || isScriptFile(resource))) {
+        add('web_accessible', 'Web-accessible', normalizeManifestPath(resource));
+      }
+    }
+  }
+
+  return seeds;
+}
+
+/**
+ * Keep the files closest to a context when there are too many to draw
+ */
+function limitFileNodes(graph: ArchitectureGraph, limit: number): ArchitectureGraph {
+  const fileCount = graph.nodes.filter((node) => node.type === 'file').length;
+  if (fileCount <= limit) {
+    return graph;
+  }
+
+  const kept = new Set(graph.nodes.filter((node) => node.type === 'context').map((node) => node.id));
+  let frontier = [...kept];
+  let keptFiles = 0;
+
+  while (frontier.length > 0 && keptFiles < limit) {
+    const next: string[] = [];
+    for (const edge of graph.edges) {
+      if (frontier.includes(edge.from) && !kept.has(edge.to) && keptFiles < limit) {
+        kept.add(edge.to);
+        next.push(edge.to);
+        keptFiles++;
+      }
+    }
+    frontier = next;
+  }
+
+  return {
+    ...graph,
+    nodes: graph.nodes.filter((node) => kept.has(node.id)),
+    edges: graph.edges.filter((edge) => kept.has(edge.from) && kept.has(edge.to)),
+    omittedFiles: fileCount - keptFiles,
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Architecture graph module exports
+ */
+
+export {
+  findFileReferences,
+  resolveReference,
+  createLineLookup,
+  isHtmlFile,
+  isScriptFile,
+  createPathLineFinder,
+} from './references';
+export type { FileReference, ReferenceKind, SourceFile } from './references';
+
+export { findMessagingCalls, isSenderCall } from './messaging';
+export type { MessagingCall, MessagingCallKind } from './messaging';
+
+export { MAX_FILE_NODES, buildArchitectureGraph } from './graph';
+export type {
+  ArchitectureGraph,
+  CallSite,
+  ContextKind,
+  GraphEdge,
+  GraphEdgeKind,
+  GraphNode,
+} from './graph';
+
+export { buildDependencyGraph, findFileDependencies, getReferenceChain, isDependencySource } from './dependencies';
+export type { DependencyGraph, DependencyKind, FileDependency } from './dependencies';
+
+export { layoutLayers } from './layout';
+export type { GraphLayout, LayoutOptions, NodePosition } from './layout';
@@ -0,0 +1,128 @@
+/**
+ * Layered layout for dependency graphs
+ *
+ * Places the root nodes in the first column and every other node one
+ * column right of its nearest root, then orders each column by the average
+ * row of the nodes pointing into it to keep edges short.
+ */
+
+/**
+ * Position of a node, in layout units
+ */
+export interface NodePosition {
+  x: number;
+  y: number;
+  column: number;
+  row: number;
+}
+
+/**
+ * Computed layout
+ */
+export interface GraphLayout {
+  positions: Map<string, NodePosition>;
+  width: number;
+  height: number;
+}
+
+/**
+ * Sizes used to place nodes
+ */
+export interface LayoutOptions {
+  nodeWidth: number;
+  nodeHeight: number;
+  columnGap: number;
+  rowGap: number;
+  /** Space left of the first column, e.g. for edges that loop back */
+  marginLeft?: number;
+}
+
+/**
+ * Lay out a directed graph in columns
+ *
+ * @param nodeIds - Every node, in the order roots should appear
+ * @param rootIds - Nodes for the first column
+ * @param edges - Edges followed to assign columns
+ * @param options - Node sizes and gaps
+ */
+export function layoutLayers(
+  nodeIds: string[],
+  rootIds: string[],
+  edges: Array<{ from: string; to: string }>,
+  options: LayoutOptions
+): GraphLayout {
+  const { nodeWidth, nodeHeight, columnGap, rowGap, marginLeft = 0 } = options;
+
+  const outgoing = new Map<string, string[]>();
+  const incoming = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (edge.from === edge.to) continue;
+    if (!outgoing.has(edge.from)) outgoing.set(edge.from, []);
+    if (!incoming.has(edge.to)) incoming.set(edge.to, []);
+    outgoing.get(edge.from)?.push(edge.to);
+    incoming.get(edge.to)?.push(edge.from);
+  }
+
+  // Breadth-first depth from the roots; unreachable nodes join the last column
+  const depth = new Map<string, number>(rootIds.map((id) => [id, 0]));
+  let frontier = [...rootIds];
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const target of outgoing.get(id) ?? []) {
+        if (!depth.has(target)) {
+          depth.set(target, (depth.get(id) ?? 0) + 1);
+          next.push(target);
+        }
+      }
+    }
+    frontier = next;
+  }
+  const maxDepth = Math.max(0, ...depth.values());
+  for (const id of nodeIds) {
+    if (!depth.has(id)) {
+      depth.set(id, rootIds.length > 0 ? maxDepth + 1 : 0);
+    }
+  }
+
+  const columns: string[][] = [];
+  for (const id of nodeIds) {
+    const column = depth.get(id) ?? 0;
+    (columns[column] ??= []).push(id);
+  }
+
+  const positions = new Map<string, NodePosition>();
+  let height = 0;
+
+  columns.forEach((column, columnIndex) => {
+    const ordered =
+      columnIndex === 0
+        ? column
+        : column
+            .map((id, index) => {
+              const parents = (incoming.get(id) ?? []).map((parent) => positions.get(parent)?.row).filter(
+                (row): row is number => row !== undefined
+              );
+              const barycenter = parents.length > 0 ? parents.reduce((sum, row) => sum + row, 0) / parents.length : Infinity;
+              return { id, barycenter, index };
+            })
+            .sort((a, b) => a.barycenter - b.barycenter || a.index - b.index)
+            .map((entry) => entry.id);
+
+    ordered.forEach((id, row) => {
+      positions.set(id, {
+        x: marginLeft + columnIndex * (nodeWidth + columnGap),
+        y: row * (nodeHeight + rowGap),
+        column: columnIndex,
+        row,
+      });
+    });
+    height = Math.max(height, ordered.length * (nodeHeight + rowGap) - rowGap);
+  });
+
+  return {
+    positions,
+    width: marginLeft + Math.max(1, columns.length) * (nodeWidth + columnGap) - columnGap,
+    height: Math.max(height, nodeHeight),
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Extension message passing call sites
+ *
+ * Finds `runtime.sendMessage` / `runtime.onMessage`, `runtime.connect` /
+ * `runtime.onConnect` and `tabs.sendMessage` / `tabs.connect` on the
+ * `chrome` and `browser` namespaces. Calls through an alias such as
+ * `const rt = chrome.runtime` are not recognized.
+ */
+
+import { createLineLookup } from './references';
+import type { SourceFile } from './references';
+
+/**
+ * Kind of messaging call
+ *
+ * Senders: `runtime-send`, `runtime-connect`, `tabs-send`, `tabs-connect`.
+ * Listeners: `on-message`, `on-connect`.
+ */
+export type MessagingCallKind =
+  | 'runtime-send'
+  | 'runtime-connect'
+  | 'tabs-send'
+  | 'tabs-connect'
+  | 'on-message'
+  | 'on-connect';
+
+/**
+ * A messaging call found in source
+ */
+export interface MessagingCall {
+  kind: MessagingCallKind;
+  path: string;
+  line: number;
+  /** API as written, e.g. `chrome.tabs.sendMessage` */
+  api: string;
+}
+
+const MESSAGING_API = /\b(chrome|browser)\s*\.\s*(runtime|tabs)\s*\.\s*(sendMessage|connect|onMessage|onConnect)\b/g;
+
+const CALL_KINDS: Record<string, MessagingCallKind> = {
+  'runtime.sendMessage': 'runtime-send',
+  'runtime.connect': 'runtime-connect',
+  'runtime.onMessage': 'on-message',
+  'runtime.onConnect': 'on-connect',
+  'tabs.sendMessage': 'tabs-send',
+  'tabs.connect': 'tabs-connect',
+};
+
+/**
+ * Find the messaging calls in a script
+ *
+ * @param file - Path and decoded contents
+ */
+export function findMessagingCalls(file: SourceFile): MessagingCall[] {
+  const calls: MessagingCall[] = [];
+  const lineAt = createLineLookup(file.content);
+
+  for (const match of file.content.matchAll(MESSAGING_API)) {
+    const kind = CALL_KINDS[`${match[2]}.${match[3]}`];
+    if (kind) {
+      calls.push({ kind, path: file.path, line: lineAt(match.index ?? 0), api: `${match[1]}.${match[2]}.${match[3]}` });
+    }
+  }
+
+  return calls;
+}
+
+/**
+ * Whether a call sends a message or opens a port
+ */
+export function isSenderCall(kind: MessagingCallKind): boolean {
+  return kind !== 'on-message' && kind !== 'on-connect';
+}
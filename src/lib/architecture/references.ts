@@ -0,0 +1,157 @@
+/**
+ * Script references between package files
+ *
+ * Finds the files a page or script loads: `<script src>` in HTML,
+ * `importScripts()` in workers, and static, re-exported and literal dynamic
+ * ES imports. Matching is lexical, so references built at runtime are not
+ * seen.
+ */
+
+import { resolvePackagePath } from '../sourcemap/source-map';
+
+/**
+ * How one file loads another
+ */
+export type ReferenceKind = 'include' | 'import';
+
+/**
+ * A file reference found in source
+ */
+export interface FileReference {
+  /** Package path of the referenced file */
+  target: string;
+  kind: ReferenceKind;
+  /** Referencing file */
+  path: string;
+  line: number;
+  /** Reference as written */
+  specifier: string;
+}
+
+/**
+ * A file to search, with its decoded contents
+ */
+export interface SourceFile {
+  path: string;
+  content: string;
+}
+
+const SCRIPT_SRC = /<script\b[^>]*?\bsrc\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi;
+const IMPORT_SCRIPTS = /\bimportScripts\s*\(([^)]*)\)/g;
+const STRING_LITERAL = /(['"`])([^'"`\n]+)\1/g;
+// `import x from`, `import { a,\n b } from`, `export * from` and bare `import './x'`
+const STATIC_IMPORT = /(?:^|[^\w$.])(?:import|export)\s*(?:[\w$*{}\s,]*?\s*from\s*)?(['"])([^'"\n]+)\1/g;
+const DYNAMIC_IMPORT = /(?:^|[^\w$.])import\s*\(\s*(['"`])([^'"`\n]+)\1\s*\)/g;
+
+/**
+ * Whether a path is a page whose `<script>` tags are followed
+ */
+export function isHtmlFile(path: string): boolean {
+  return /\.html?$/i.test(path);
+}
+
+/**
+ * Whether a path is a script whose imports are followed
+ */
+export function isScriptFile(path: string): boolean {
+  return /\.(?:m?js|cjs|jsx)$/i.test(path);
+}
+
+/**
+ * Find the files a page or script loads
+ *
+ * @param file - Path and decoded contents
+ * @returns References to package files; external URLs and bare module
+ * specifiers are skipped
+ */
+export function findFileReferences(file: SourceFile): FileReference[] {
+  const references: FileReference[] = [];
+  const lineAt = createLineLookup(file.content);
+
+  const add = (specifier: string, kind: ReferenceKind, index: number) => {
+    const target = resolveReference(file.path, specifier);
+    if (target) {
+      references.push({ target, kind, path: file.path, line: lineAt(index), specifier });
+    }
+  };
+
+  if (isHtmlFile(file.path)) {
+    for (const match of file.content.matchAll(SCRIPT_SRC)) {
+      add(match[1] ?? match[2] ?? match[3], 'include', match.index ?? 0);
+    }
+    return references;
+  }
+
+  for (const match of file.content.matchAll(IMPORT_SCRIPTS)) {
+    const argsStart = (match.index ?? 0) + match[0].indexOf('(') + 1;
+    for (const literal of match[1].matchAll(STRING_LITERAL)) {
+      add(literal[2], 'include', argsStart + (literal.index ?? 0));
+    }
+  }
+
+  for (const pattern of [STATIC_IMPORT, DYNAMIC_IMPORT]) {
+    for (const match of file.content.matchAll(pattern)) {
+      // Bare specifiers need an import map, which extensions can't declare
+      if (/^\.{0,2}\//.test(match[2])) {
+        add(match[2], 'import', (match.index ?? 0) + match[0].indexOf(match[1]));
+      }
+    }
+  }
+
+  return references.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Resolve a referenced URL to a package path
+ *
+ * @returns Package path, or null for external and protocol-relative URLs
+ */
+export function resolveReference(fromPath: string, specifier: string): string | null {
+  const trimmed = specifier.trim();
+  if (!trimmed || trimmed.startsWith('//')) {
+    return null;
+  }
+  return resolvePackagePath(fromPath, trimmed) || null;
+}
+
+/**
+ * Build a function mapping a character index to its 1-based line number
+ */
+export function createLineLookup(content: string): (index: number) => number {
+  const starts = [0];
+  for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) {
+    starts.push(i + 1);
+  }
+
+  return (index: number) => {
+    let low = 0;
+    let high = starts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (starts[mid] <= index) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low + 1;
+  };
+}
+
+/**
+ * Build a function finding the line where a file quotes a package path,
+ * such as manifest.json naming a script
+ *
+ * @param file - File to search, or undefined when it wasn't loaded
+ * @returns Lookup giving the 1-based line, or undefined when the path isn't quoted
+ */
+export function createPathLineFinder(file: SourceFile | undefined): (path: string) => number | undefined {
+  if (!file) {
+    return () => undefined;
+  }
+  const lineAt = createLineLookup(file.content);
+  return (path: string) => {
+    const index = file.content.search(new RegExp(`["'](?:\\.?/)?${path.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}["']`));
+    return index === -1 ? undefined : lineAt(index);
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Tests for the JavaScript tokenizer and deobfuscation transforms
+ */
+
+import { deobfuscate, unpackPayload } from '../deobfuscator';
+import type { DeobfuscationTransform } from '../deobfuscator';
+import { parseStringLiteral, quoteString, tokenizeJs } from '../js-tokens';
+
+function run(code: string, ...transforms: DeobfuscationTransform[]): string {
+  return deobfuscate(code, transforms).code;
+}
+
+describe('js-tokens', () => {
+  it('should round-trip source and tell regexes from division', () => {
+    const source = 'var a = b / c; // note\nvar r = /[/]x/g.test(`t ${ {a: "}"}.a } `) ? 1 : 2;';
+    const tokens = tokenizeJs(source);
+
+    expect(tokens.map((token) => token.value).join('')).toBe(source);
+    expect(tokens.filter((token) => token.type === 'regex').map((token) => token.value)).toEqual(['/[/]x/g']);
+    expect(tokens.filter((token) => token.type === 'template')).toHaveLength(1);
+  });
+
+  it('should parse and quote string literals', () => {
+    expect(parseStringLiteral("'\\x41\\u0042\\u{43}\\104\\n\\''")).toBe("ABCD\n'");
+    expect(parseStringLiteral("'\\x4'")).toBeNull();
+    expect(quoteString("it's\n\u0001", "'")).toBe("'it\\'s\\n\\x01'");
+  });
+});
+
+describe('deobfuscator', () => {
+  it('should unpack Dean Edwards packer output', () => {
+    expect(unpackPayload('0 1=2;', 10, 3, ['var', 'x', '42'])).toBe('var x=42;');
+
+    const packed =
+      "eval(function(p,a,c,k,e,d){e=function(c){return c};if(!''.replace(/^/,String)){while(c--){d[c]=k[c]||c}" +
+      "k=[function(e){return d[e]}];e=function(){return'\\\\w+'};c=1};while(c--){if(k[c]){p=p.replace(" +
+      "new RegExp('\\\\b'+e(c)+'\\\\b','g'),k[c])}}return p}('0 1=\\'2\\';3(1);',4,4,'var|msg|hello|alert'.split('|'),0,{}))";
+
+    expect(run(packed, 'unpack')).toBe("var msg='hello';alert(msg);");
+  });
+
+  it('should refuse packer word counts beyond the word list', () => {
+    expect(unpackPayload('0 1', 62, 1e9, ['a'])).toBeNull();
+    expect(unpackPayload('0 1', 62, -1, ['a'])).toBeNull();
+
+    const hostile = "eval(function(p,a,c,k,e,d){return p}('0 1',62,1e9,'a'.split('|'),0,{}))";
+    expect(run(hostile, 'unpack')).toBe(hostile);
+    const overcounted = "eval(function(p,a,c,k,e,d){return p}('0 1',62,2,'a'.split('|'),0,{}))";
+    expect(run(overcounted, 'unpack')).toBe(overcounted);
+  });
+
+  it('should decode escapes and printable atob blobs', () => {
+    expect(run('var s = "\\x68\\x69\\u0021";', 'decode-strings')).toBe('var s = "hi!";');
+    expect(run("fetch(window.atob('aHR0cHM6Ly9ldmlsLmV4YW1wbGU='));", 'decode-strings')).toBe(
+      "fetch('https://evil.example');"
+    );
+    // Binary payloads and plain escapes are left as they are
+    expect(run("atob('AAEC'); var z = '\\0';", 'decode-strings')).toBe("atob('AAEC'); var z = '\\0';");
+  });
+
+  it('should inline string array lookups and accessor calls', () => {
+    const code = [
+      "var _0xa = ['log', 'hello'];",
+      'var _0xb = function (_0xc) { _0xc = _0xc - 0x0; var _0xd = _0xa[_0xc]; return _0xd; };',
+      'console[_0xb(0x0)](_0xa[1]);',
+    ].join('\n');
+
+    expect(run(code, 'inline-strings').split('\n')[2]).toBe("console['log']('hello');");
+  });
+
+  it('should leave rotated or mutated string arrays alone', () => {
+    const rotated = "var a = ['x', 'y']; (function (arr) { arr.push(arr.shift()); })(a); f(a[0]);";
+    expect(run(rotated, 'inline-strings')).toBe(rotated);
+
+    const mutated = "var a = ['x', 'y']; a[0] = 'z'; f(a[1]);";
+    expect(run(mutated, 'inline-strings')).toBe(mutated);
+  });
+
+  it('should fold constants without breaking precedence', () => {
+    expect(run('x = 0x10 + 0x2 * 3;', 'fold-constants')).toBe('x = 22;');
+    expect(run("s = 'ab' + 'c' + 'd';", 'fold-constants')).toBe("s = 'abcd';");
+    expect(run('y = a - 1 + 2;', 'fold-constants')).toBe('y = a - 1 + 2;');
+    expect(run('z = a-2*-3;', 'fold-constants')).toBe('z = a- -6;');
+    expect(run('function f(){return!0}', 'fold-constants')).toBe('function f(){return true}');
+    expect(run('n = 0x1.toString(); m = 0x1;', 'fold-constants')).toBe('n = 0x1.toString(); m = 1;');
+    expect(run('t = !![]; f = ![]; u = !0; w = ![][0];', 'fold-constants')).toBe('t = true; f = false; u = true; w = ![][0];');
+    expect(run("document['cookie']; this['x']; a = ['y'];", 'fold-constants')).toBe("document.cookie; this.x; a = ['y'];");
+  });
+
+  it('should rename hex-style identifiers consistently', () => {
+    expect(run('function _0x1f(_0x2a) { return _0x2a.x + obj._0x1f; } _0x1f(v1);', 'rename-identifiers')).toBe(
+      'function fn1(v2) { return v2.x + obj._0x1f; } fn1(v1);'
+    );
+  });
+
+  it('should run every transform in order and report changes', () => {
+    const result = deobfuscate(
+      "var _0x1 = ['\\x63\\x6f\\x6f\\x6b\\x69\\x65', 'x']; document[_0x1[0x0]] = 'a' + 'b';"
+    );
+
+    expect(result.code).toBe("var v1 = ['cookie', 'x']; document.cookie = 'ab';");
+    expect(result.steps.map((step) => [step.transform, step.changes])).toEqual([
+      ['unpack', 0],
+      ['decode-strings', 1],
+      ['inline-strings', 1],
+      ['fold-constants', 2],
+      ['rename-identifiers', 1],
+    ]);
+  });
+});
@@ -0,0 +1,925 @@
+/**
+ * Static JavaScript deobfuscation
+ *
+ * Undoes common obfuscator output without running any of it: packed
+ * `eval(function(p,a,c,k,e,d)...)` code, hex/unicode escapes and `atob`
+ * blobs, string-array lookups, constant expressions and hex-style
+ * identifiers. Each transform can be turned on and off; they run in a fixed
+ * order because later transforms work on the output of earlier ones (string
+ * arrays are inlined after their strings are decoded, and the inlined
+ * strings are then folded). Anything a transform cannot prove safe is left
+ * as it was.
+ */
+
+import {
+  JS_KEYWORDS,
+  findClosingBracket,
+  isIdentifierName,
+  isSignificant,
+  nextSignificant,
+  parseStringLiteral,
+  previousSignificant,
+  quoteString,
+  tokenizeJs,
+} from './js-tokens';
+import type { JsToken } from './js-tokens';
+
+export type DeobfuscationTransform = 'unpack' | 'decode-strings' | 'inline-strings' | 'fold-constants' | 'rename-identifiers';
+
+export interface DeobfuscationTransformInfo {
+  id: DeobfuscationTransform;
+  label: string;
+  description: string;
+}
+
+export interface DeobfuscationStep {
+  transform: DeobfuscationTransform;
+  /** Number of rewrites the transform made */
+  changes: number;
+}
+
+export interface DeobfuscationResult {
+  code: string;
+  /** Transforms that ran, in order */
+  steps: DeobfuscationStep[];
+}
+
+/**
+ * Available transforms, in the order they run
+ */
+export const DEOBFUSCATION_TRANSFORMS: DeobfuscationTransformInfo[] = [
+  {
+    id: 'unpack',
+    label: 'Unpack',
+    description: 'Expand Dean Edwards packer output: eval(function(p,a,c,k,e,d){...})',
+  },
+  {
+    id: 'decode-strings',
+    label: 'Decode strings',
+    description: 'Decode \\x, \\u and octal escapes, and atob() calls on printable base64 literals',
+  },
+  {
+    id: 'inline-strings',
+    label: 'Inline string arrays',
+    description: 'Replace lookups into constant string arrays, directly or through accessor functions',
+  },
+  {
+    id: 'fold-constants',
+    label: 'Fold constants',
+    description: 'Evaluate literal arithmetic and concatenation, hex numbers, !0 / ![] and obj["name"] access',
+  },
+  {
+    id: 'rename-identifiers',
+    label: 'Rename identifiers',
+    description: 'Give hex-style names such as _0x3f2a readable ones (fn1, v1, ...)',
+  },
+];
+
+// Precedence of the binary operators folded by fold-constants
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 3, '||': 3, '&&': 4, '|': 5, '^': 6, '&': 7,
+  '==': 8, '!=': 8, '===': 8, '!==': 8,
+  '<': 9, '>': 9, '<=': 9, '>=': 9,
+  '<<': 10, '>>': 10, '>>>': 10,
+  '+': 11, '-': 11,
+  '*': 12, '/': 12, '%': 12,
+  '**': 13,
+};
+
+// Tokens before an operand that bind looser than any binary operator
+const EXPRESSION_STARTS = new Set([
+  '(', '[', '{', ',', ';', ':', '?', '=>', '=', '+=', '-=', '*=', '/=', '%=', '**=', '<<=', '>>=', '>>>=',
+  '&=', '|=', '^=', '&&=', '||=', '??=', 'return', 'case', 'throw',
+]);
+
+// Tokens after an operand that end the expression
+const EXPRESSION_ENDS = new Set([')', ']', '}', ',', ';', ':', '?']);
+
+const FOLDABLE_OPERATORS = new Set(['+', '-', '*', '/', '%', '<<', '>>', '>>>', '&', '|', '^']);
+const PACKER_ALPHABET = '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const HEX_IDENTIFIER_PATTERN = /^_0x[\da-f]+$/i;
+const PRINTABLE_PATTERN = /^[\t\n\r\x20-\x7e]+$/;
+const MAX_UNPACK_DEPTH = 10;
+const MAX_FOLD_PASSES = 100;
+
+type TransformOutput = { tokens: JsToken[]; changes: number };
+
+const TRANSFORMS: Record<DeobfuscationTransform, (tokens: JsToken[]) => TransformOutput> = {
+  'unpack': unpackPackers,
+  'decode-strings': decodeStrings,
+  'inline-strings': inlineStringArrays,
+  'fold-constants': foldConstants,
+  'rename-identifiers': renameHexIdentifiers,
+};
+
+/**
+ * Check if a language can be deobfuscated
+ * @param language - Language identifier
+ * @returns True for JavaScript
+ */
+export function canDeobfuscate(language: string): boolean {
+  return language === 'javascript' || language === 'jsx';
+}
+
+/**
+ * Deobfuscate JavaScript source
+ *
+ * @param code - JavaScript source
+ * @param transforms - Transforms to apply (defaults to all); they always run in the order of DEOBFUSCATION_TRANSFORMS
+ * @returns Rewritten source and the number of changes made by each transform
+ */
+export function deobfuscate(
+  code: string,
+  transforms: Iterable<DeobfuscationTransform> = DEOBFUSCATION_TRANSFORMS.map((transform) => transform.id)
+): DeobfuscationResult {
+  const enabled = new Set(transforms);
+  let tokens = tokenizeJs(code);
+  const steps: DeobfuscationStep[] = [];
+
+  for (const { id } of DEOBFUSCATION_TRANSFORMS) {
+    if (!enabled.has(id)) continue;
+    const output = TRANSFORMS[id](tokens);
+    // Re-tokenize so the next transform sees the rewritten code as written
+    tokens = output.changes > 0 ? tokenizeJs(joinTokens(output.tokens)) : output.tokens;
+    steps.push({ transform: id, changes: output.changes });
+  }
+
+  return { code: joinTokens(tokens), steps };
+}
+
+/**
+ * Unpack a Dean Edwards packer payload
+ *
+ * @param payload - Packed source (first argument of the packer function)
+ * @param radix - Base of the word indexes (at most 62)
+ * @param count - Number of words; the packer emits the word list's length
+ * @param words - Word list; empty entries keep the encoded word
+ * @returns Unpacked source, or null when the radix is not supported or the
+ * count exceeds the word list (a hostile count would build a huge dictionary)
+ */
+export function unpackPayload(payload: string, radix: number, count: number, words: string[]): string | null {
+  if (!Number.isInteger(radix) || radix < 2 || radix > PACKER_ALPHABET.length || !Number.isInteger(count)) {
+    return null;
+  }
+  if (count < 0 || count > words.length) {
+    return null;
+  }
+
+  const encode = (value: number): string =>
+    (value < radix ? '' : encode(Math.floor(value / radix))) + PACKER_ALPHABET[value % radix];
+
+  const dictionary = new Map<string, string>();
+  for (let index = 0; index < count; index++) {
+    const encoded = encode(index);
+    dictionary.set(encoded, words[index] || encoded);
+  }
+
+  return payload.replace(/\b\w+\b/g, (word) => dictionary.get(word) ?? word);
+}
+
+/**
+ * Replace `eval(function(p,a,c,k,e,d){...}(payload, radix, count, 'words'.split('|'), ...))` with the unpacked code
+ */
+function unpackPackers(tokens: JsToken[]): TransformOutput {
+  let changes = 0;
+
+  for (let depth = 0; depth < MAX_UNPACK_DEPTH; depth++) {
+    let replaced = false;
+
+    for (let i = 0; i < tokens.length && !replaced; i++) {
+      if (tokens[i].value !== 'eval' || tokens[i].type !== 'identifier') continue;
+
+      const packer = readPacker(tokens, i);
+      if (!packer) continue;
+
+      tokens = [...tokens.slice(0, i), ...tokenizeJs(packer.code), ...tokens.slice(packer.end + 1)];
+      changes++;
+      replaced = true;
+    }
+
+    // Packed code is often packed again; unpack until nothing is left
+    if (!replaced) break;
+  }
+
+  return { tokens, changes };
+}
+
+/**
+ * Read a packer call starting at an `eval` token
+ *
+ * @returns Unpacked code and the index of the closing parenthesis of eval, or null
+ */
+function readPacker(tokens: JsToken[], evalIndex: number): { code: string; end: number } | null {
+  const significant = (from: number, count: number): number[] => {
+    const indexes: number[] = [];
+    for (let i = from; indexes.length < count; ) {
+      i = nextSignificant(tokens, i);
+      if (i === -1) return [];
+      indexes.push(i);
+    }
+    return indexes;
+  };
+
+  const [evalOpen, functionKeyword, paramsOpen] = significant(evalIndex, 3);
+  if (
+    tokens[evalOpen]?.value !== '(' ||
+    tokens[functionKeyword]?.value !== 'function' ||
+    tokens[paramsOpen]?.value !== '('
+  ) {
+    return null;
+  }
+
+  const paramsClose = findClosingBracket(tokens, paramsOpen);
+  const params = tokens.slice(paramsOpen + 1, paramsClose).filter((token) => token.type === 'identifier');
+  if (paramsClose === -1 || params.length !== 6) {
+    return null;
+  }
+
+  const bodyOpen = nextSignificant(tokens, paramsClose);
+  const bodyClose = tokens[bodyOpen]?.value === '{' ? findClosingBracket(tokens, bodyOpen) : -1;
+  const callOpen = bodyClose === -1 ? -1 : nextSignificant(tokens, bodyClose);
+  if (tokens[callOpen]?.value !== '(') {
+    return null;
+  }
+
+  const callClose = findClosingBracket(tokens, callOpen);
+  const evalClose = callClose === -1 ? -1 : nextSignificant(tokens, callClose);
+  if (tokens[evalClose]?.value !== ')') {
+    return null;
+  }
+
+  // payload , radix , count , 'words' . split ( 'separator' )
+  const args = tokens.slice(callOpen + 1, callClose).filter(isSignificant);
+  if (
+    args[0]?.type !== 'string' ||
+    args[2]?.type !== 'number' ||
+    args[4]?.type !== 'number' ||
+    args[6]?.type !== 'string' ||
+    args[8]?.value !== 'split' ||
+    args[10]?.type !== 'string'
+  ) {
+    return null;
+  }
+
+  const payload = parseStringLiteral(args[0].value);
+  const words = parseStringLiteral(args[6].value);
+  const separator = parseStringLiteral(args[10].value);
+  if (payload === null || words === null || separator === null) {
+    return null;
+  }
+
+  const code = unpackPayload(payload, Number(args[2].value), Number(args[4].value), words.split(separator));
+  return code === null ? null : { code, end: evalClose };
+}
+
+/**
+ * Decode escape sequences in string literals and atob() calls on printable base64
+ */
+function decodeStrings(tokens: JsToken[]): TransformOutput {
+  let changes = 0;
+  const output: JsToken[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.type === 'string' && /\\(x|u|[0-7])/.test(token.value)) {
+      const value = parseStringLiteral(token.value);
+      const decoded = value === null ? token.value : quoteString(value, token.value[0] as '"' | "'");
+      // Only rewrite when escapes go away; '\0' is clearer than '\x00'
+      if (countBackslashes(decoded) < countBackslashes(token.value)) {
+        output.push({ type: 'string', value: decoded });
+        changes++;
+        continue;
+      }
+    }
+
+    if (token.type === 'identifier' && token.value === 'atob') {
+      const decoded = readAtobCall(tokens, i);
+      if (decoded) {
+        // Drop a window./self./globalThis. prefix along with the call
+        output.splice(output.length - decoded.prefixLength);
+        output.push({ type: 'string', value: quoteString(decoded.value) });
+        i = decoded.end;
+        changes++;
+        continue;
+      }
+    }
+
+    output.push(token);
+  }
+
+  return { tokens: output, changes };
+}
+
+/**
+ * Read `atob('...')` at an index when the literal decodes to printable text
+ */
+function readAtobCall(
+  tokens: JsToken[],
+  index: number
+): { value: string; end: number; prefixLength: number } | null {
+  let prefixLength = 0;
+  const dot = previousSignificant(tokens, index);
+  if (tokens[dot]?.value === '.' || tokens[dot]?.value === '?.') {
+    const owner = previousSignificant(tokens, dot);
+    if (!['window', 'self', 'globalThis'].includes(tokens[owner]?.value ?? '')) {
+      return null;
+    }
+    prefixLength = index - owner;
+  }
+
+  const open = nextSignificant(tokens, index);
+  const literal = open === -1 ? -1 : nextSignificant(tokens, open);
+  const close = literal === -1 ? -1 : nextSignificant(tokens, literal);
+  if (tokens[open]?.value !== '(' || tokens[literal]?.type !== 'string' || tokens[close]?.value !== ')') {
+    return null;
+  }
+
+  const encoded = parseStringLiteral(tokens[literal].value);
+  if (!encoded || !/^[A-Za-z0-9+/]+={0,2}$/.test(encoded.trim())) {
+    return null;
+  }
+
+  try {
+    const value = atob(encoded.trim());
+    return PRINTABLE_PATTERN.test(value) ? { value, end: close, prefixLength } : null;
+  } catch {
+    return null;
+  }
+}
+
+interface StringArray {
+  name: string;
+  values: string[];
+  /** Token indexes of the declaration, from the name to the closing bracket */
+  start: number;
+  end: number;
+}
+
+interface ArrayAccessor {
+  name: string;
+  array: StringArray;
+  offset: number;
+  /** Token indexes of the function, which may read the array */
+  start: number;
+  end: number;
+}
+
+/**
+ * Inline lookups into constant string arrays
+ *
+ * Handles `var a = ['x', 'y']` with `a[1]` lookups and accessor functions of
+ * the form `function f(i) { i = i - 0; var s = a[i]; return s; }` called as
+ * `f(1)`. An array is only inlined when every other use of it is a literal
+ * index read, so arrays that are rotated, mutated or shadowed are left alone.
+ */
+function inlineStringArrays(tokens: JsToken[]): TransformOutput {
+  const arrays = findStringArrays(tokens);
+  if (arrays.length === 0) {
+    return { tokens, changes: 0 };
+  }
+
+  const accessors = findArrayAccessors(tokens, arrays);
+  const replacements = new Map<number, { end: number; value: string }>();
+  const safeArrays = new Set<StringArray>();
+
+  for (const array of arrays) {
+    const reads = new Map<number, { end: number; value: string }>();
+    let safe = true;
+
+    for (let i = 0; i < tokens.length && safe; i++) {
+      if (tokens[i].type !== 'identifier' || tokens[i].value !== array.name || isPropertyName(tokens, i)) continue;
+      if (i === array.start) continue;
+      if (accessors.some((accessor) => accessor.array === array && i > accessor.start && i < accessor.end)) continue;
+
+      const read = readLiteralIndex(tokens, i, (index) => array.values[index]);
+      if (!read) {
+        safe = false;
+      } else {
+        reads.set(i, read);
+      }
+    }
+
+    if (safe) {
+      reads.forEach((read, index) => replacements.set(index, read));
+      safeArrays.add(array);
+    }
+  }
+
+  for (const accessor of accessors.filter((candidate) => safeArrays.has(candidate.array))) {
+    const calls = new Map<number, { end: number; value: string }>();
+    let safe = true;
+
+    for (let i = 0; i < tokens.length && safe; i++) {
+      if (tokens[i].type !== 'identifier' || tokens[i].value !== accessor.name || isPropertyName(tokens, i)) continue;
+      if (i >= accessor.start && i <= accessor.end) continue;
+
+      const call = readLiteralCall(tokens, i, (index) => accessor.array.values[index - accessor.offset]);
+      if (call) {
+        calls.set(i, call);
+      } else if (tokens[nextSignificant(tokens, i)]?.value === '=') {
+        // The accessor is replaced at run time
+        safe = false;
+      }
+    }
+
+    if (safe) {
+      calls.forEach((call, index) => replacements.set(index, call));
+    }
+  }
+
+  return applyReplacements(tokens, replacements);
+}
+
+/**
+ * Find `var|let|const name = ['...', '...']` declarations
+ */
+function findStringArrays(tokens: JsToken[]): StringArray[] {
+  const arrays: StringArray[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (!['var', 'let', 'const'].includes(tokens[i].value) || tokens[i].type !== 'identifier') continue;
+
+    const name = nextSignificant(tokens, i);
+    const equals = name === -1 ? -1 : nextSignificant(tokens, name);
+    const open = equals === -1 ? -1 : nextSignificant(tokens, equals);
+    if (tokens[name]?.type !== 'identifier' || tokens[equals]?.value !== '=' || tokens[open]?.value !== '[') continue;
+
+    const close = findClosingBracket(tokens, open);
+    if (close === -1) continue;
+
+    const elements = tokens.slice(open + 1, close).filter(isSignificant);
+    const values: string[] = [];
+    let valid = elements.length > 0;
+    for (let e = 0; e < elements.length && valid; e++) {
+      if (e % 2 === 1) {
+        valid = elements[e].value === ',';
+      } else if (elements[e].type === 'string') {
+        values.push(elements[e].value);
+      } else {
+        valid = false;
+      }
+    }
+
+    if (valid && values.length >= 2) {
+      arrays.push({ name: tokens[name].value, values, start: name, end: close });
+    }
+  }
+
+  return arrays;
+}
+
+/**
+ * Find accessor functions that only index into one of the string arrays
+ */
+function findArrayAccessors(tokens: JsToken[], arrays: StringArray[]): ArrayAccessor[] {
+  const accessors: ArrayAccessor[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].value !== 'function' || tokens[i].type !== 'identifier') continue;
+
+    // function name(p) {...}  or  var name = function(p) {...}
+    let name: string | null = null;
+    let start = i;
+    const afterKeyword = nextSignificant(tokens, i);
+    if (tokens[afterKeyword]?.type === 'identifier') {
+      name = tokens[afterKeyword].value;
+    } else {
+      const equals = previousSignificant(tokens, i);
+      const target = equals === -1 ? -1 : previousSignificant(tokens, equals);
+      if (tokens[equals]?.value === '=' && tokens[target]?.type === 'identifier') {
+        name = tokens[target].value;
+        start = target;
+      }
+    }
+
+    const paramsOpen = tokens[afterKeyword]?.value === '(' ? afterKeyword : nextSignificant(tokens, afterKeyword);
+    const paramsClose = tokens[paramsOpen]?.value === '(' ? findClosingBracket(tokens, paramsOpen) : -1;
+    const bodyOpen = paramsClose === -1 ? -1 : nextSignificant(tokens, paramsClose);
+    const bodyClose = tokens[bodyOpen]?.value === '{' ? findClosingBracket(tokens, bodyOpen) : -1;
+    if (!name || bodyClose === -1) continue;
+
+    const params = tokens.slice(paramsOpen + 1, paramsClose).filter(isSignificant);
+    if (params.length !== 1 || params[0].type !== 'identifier') continue;
+
+    const body = tokens
+      .slice(bodyOpen + 1, bodyClose)
+      .filter(isSignificant)
+      .map((token) => token.value)
+      .join(' ');
+
+    for (const array of arrays) {
+      const offset = matchAccessorBody(body, params[0].value, array.name);
+      if (offset !== null) {
+        accessors.push({ name, array, offset, start, end: bodyClose });
+        break;
+      }
+    }
+  }
+
+  return accessors;
+}
+
+/**
+ * Match an accessor body and return its index offset, or null
+ */
+function matchAccessorBody(body: string, param: string, arrayName: string): number | null {
+  const p = escapeRegExp(param);
+  const a = escapeRegExp(arrayName);
+  const pattern = new RegExp(
+    `^(?:${p} = ${p} - (\\S+)(?: ;)? |${p} -= (\\S+)(?: ;)? )?` +
+      `(?:(?:var |let |const )?([\\w$]+) = ${a} \\[ ${p} \\](?: ;)? return \\3|return ${a} \\[ ${p} \\])(?: ;)?$`
+  );
+
+  const match = pattern.exec(body);
+  if (!match) {
+    return null;
+  }
+
+  const offset = match[1] ?? match[2];
+  return offset === undefined ? 0 : parseNumber(offset);
+}
+
+/**
+ * Read `name[<number>]` at an index when the lookup is a plain read
+ */
+function readLiteralIndex(
+  tokens: JsToken[],
+  index: number,
+  lookup: (index: number) => string | undefined
+): { end: number; value: string } | null {
+  const open = nextSignificant(tokens, index);
+  const literal = open === -1 ? -1 : nextSignificant(tokens, open);
+  const close = literal === -1 ? -1 : nextSignificant(tokens, literal);
+  if (tokens[open]?.value !== '[' || tokens[close]?.value !== ']') {
+    return null;
+  }
+
+  // Writes and updates change the array
+  const after = tokens[nextSignificant(tokens, close)];
+  if (after && after.type === 'punctuator' && /^(=|[^=!<>]=|\*\*=|<<=|>>>?=|&&=|\|\|=|\?\?=|\+\+|--)$/.test(after.value)) {
+    return null;
+  }
+
+  const value = lookup(readIndexLiteral(tokens[literal]));
+  return value === undefined ? null : { end: close, value };
+}
+
+/**
+ * Read `name(<number>)` at an index
+ */
+function readLiteralCall(
+  tokens: JsToken[],
+  index: number,
+  lookup: (index: number) => string | undefined
+): { end: number; value: string } | null {
+  const open = nextSignificant(tokens, index);
+  const literal = open === -1 ? -1 : nextSignificant(tokens, open);
+  const close = literal === -1 ? -1 : nextSignificant(tokens, literal);
+  if (tokens[open]?.value !== '(' || tokens[close]?.value !== ')') {
+    return null;
+  }
+
+  const value = lookup(readIndexLiteral(tokens[literal]));
+  return value === undefined ? null : { end: close, value };
+}
+
+/**
+ * Read a number, or a string holding a number (`'0x1f'`), used as an index
+ */
+function readIndexLiteral(token: JsToken | undefined): number {
+  if (token?.type === 'number') {
+    return parseNumber(token.value);
+  }
+  if (token?.type === 'string') {
+    const value = parseStringLiteral(token.value);
+    return value !== null && value.trim() !== '' ? Number(value) : NaN;
+  }
+  return NaN;
+}
+
+/**
+ * Evaluate literal expressions and simplify obfuscator idioms
+ */
+function foldConstants(tokens: JsToken[]): TransformOutput {
+  let changes = 0;
+
+  // Hex, octal and binary numbers to decimal
+  tokens = tokens.map((token, index): JsToken => {
+    // `0x1.toString()` is valid, `1.toString()` is not
+    if (
+      token.type !== 'number' ||
+      !/^0[xXoObB]/.test(token.value) ||
+      token.value.endsWith('n') ||
+      tokens[index + 1]?.value === '.'
+    ) {
+      return token;
+    }
+    const value = parseNumber(token.value);
+    if (!Number.isSafeInteger(value)) {
+      return token;
+    }
+    changes++;
+    return { type: 'number', value: String(value) };
+  });
+
+  for (let pass = 0; pass < MAX_FOLD_PASSES; pass++) {
+    const output = foldPass(tokens);
+    tokens = output.tokens;
+    changes += output.changes;
+    if (output.changes === 0) break;
+  }
+
+  return { tokens, changes };
+}
+
+/**
+ * One left-to-right folding pass
+ */
+function foldPass(tokens: JsToken[]): TransformOutput {
+  const replacements = new Map<number, { end: number; value: string }>();
+
+  for (let i = 0; i < tokens.length; i++) {
+    const folded = foldBooleanIdiom(tokens, i) ?? foldMemberAccess(tokens, i) ?? foldBinary(tokens, i);
+    if (folded) {
+      replacements.set(i, folded);
+      i = folded.end;
+    }
+  }
+
+  return applyReplacements(tokens, replacements);
+}
+
+/**
+ * `!![]` and `!0` to true, `![]` and `!1` to false
+ */
+function foldBooleanIdiom(tokens: JsToken[], index: number): { end: number; value: string } | null {
+  if (tokens[index].value !== '!') {
+    return null;
+  }
+
+  const values: string[] = [];
+  let end = index;
+  for (let i = 0; i < 3; i++) {
+    end = nextSignificant(tokens, end);
+    if (end === -1) return null;
+    values.push(tokens[end].value);
+    const text = values.join('');
+    const result =
+      text === '![]' ? 'true' : text === '[]' ? 'false' : text === '0' ? 'true' : text === '1' ? 'false' : null;
+    if (result && !continuesOperand(tokens, end)) {
+      return { end, value: result };
+    }
+  }
+  return null;
+}
+
+/**
+ * `obj['name']` to `obj.name`
+ */
+function foldMemberAccess(tokens: JsToken[], index: number): { end: number; value: string } | null {
+  if (tokens[index].value !== '[') {
+    return null;
+  }
+
+  const owner = tokens[previousSignificant(tokens, index)];
+  const isOwner =
+    owner &&
+    ((owner.type === 'identifier' && (!JS_KEYWORDS.has(owner.value) || owner.value === 'this')) ||
+      (owner.type === 'punctuator' && (owner.value === ')' || owner.value === ']')));
+  const literal = nextSignificant(tokens, index);
+  const close = literal === -1 ? -1 : nextSignificant(tokens, literal);
+  if (!isOwner || tokens[literal]?.type !== 'string' || tokens[close]?.value !== ']') {
+    return null;
+  }
+
+  const name = parseStringLiteral(tokens[literal].value);
+  return name !== null && isIdentifierName(name) ? { end: close, value: `.${name}` } : null;
+}
+
+interface Operand {
+  value: string | number;
+  /** Token index of the first token of the operand */
+  start: number;
+  end: number;
+  quote: '"' | "'";
+}
+
+/**
+ * `<literal> <operator> <literal>` to its value when precedence allows
+ */
+function foldBinary(tokens: JsToken[], index: number): { end: number; value: string } | null {
+  const left = readOperand(tokens, index);
+  if (!left) {
+    return null;
+  }
+
+  const operatorIndex = nextSignificant(tokens, left.end);
+  const operator = tokens[operatorIndex];
+  const right = operator && operator.type === 'punctuator' ? readOperand(tokens, nextSignificant(tokens, operatorIndex)) : null;
+  if (!right || !FOLDABLE_OPERATORS.has(operator.value)) {
+    return null;
+  }
+
+  // Left-associative: the operand on the left must not belong to a tighter
+  // expression, and what follows must not bind tighter than this operator
+  const precedence = BINARY_PRECEDENCE[operator.value];
+  if (precedenceBefore(tokens, left.start) >= precedence || precedenceAfter(tokens, right.end) > precedence) {
+    return null;
+  }
+
+  const result = evaluateBinary(left, operator.value, right);
+  if (result === null) {
+    return null;
+  }
+
+  return { end: right.end, value: result };
+}
+
+/**
+ * Read a string, number or negated number literal starting at an index
+ */
+function readOperand(tokens: JsToken[], index: number): Operand | null {
+  const token = tokens[index];
+  if (!token) {
+    return null;
+  }
+
+  if (token.type === 'string') {
+    const value = parseStringLiteral(token.value);
+    return value === null ? null : { value, start: index, end: index, quote: token.value[0] as '"' | "'" };
+  }
+  if (token.type === 'number') {
+    const value = parseNumber(token.value);
+    return Number.isSafeInteger(value) ? { value, start: index, end: index, quote: "'" } : null;
+  }
+
+  // Unary minus: only where a binary operator could not be
+  const previous = tokens[previousSignificant(tokens, index)];
+  const isUnary = !previous || EXPRESSION_STARTS.has(previous.value) || previous.value in BINARY_PRECEDENCE;
+  if (token.value === '-' && isUnary) {
+    const numberIndex = nextSignificant(tokens, index);
+    const value = tokens[numberIndex]?.type === 'number' ? parseNumber(tokens[numberIndex].value) : NaN;
+    return Number.isSafeInteger(value) ? { value: -value, start: index, end: numberIndex, quote: "'" } : null;
+  }
+  return null;
+}
+
+/**
+ * Binding strength of the token before an operand (0 when it starts an expression)
+ */
+function precedenceBefore(tokens: JsToken[], index: number): number {
+  const token = tokens[previousSignificant(tokens, index)];
+  if (!token || EXPRESSION_STARTS.has(token.value)) {
+    return 0;
+  }
+  return token.type === 'punctuator' && token.value in BINARY_PRECEDENCE ? BINARY_PRECEDENCE[token.value] : Infinity;
+}
+
+/**
+ * Binding strength of the token after an operand (0 when it ends the expression)
+ */
+function precedenceAfter(tokens: JsToken[], index: number): number {
+  const token = tokens[nextSignificant(tokens, index)];
+  if (!token || EXPRESSION_ENDS.has(token.value)) {
+    return 0;
+  }
+  return token.type === 'punctuator' && token.value in BINARY_PRECEDENCE ? BINARY_PRECEDENCE[token.value] : Infinity;
+}
+
+/**
+ * Evaluate a folded expression, or null when the result is not worth a literal
+ */
+function evaluateBinary(left: Operand, operator: string, right: Operand): string | null {
+  if (typeof left.value === 'string' || typeof right.value === 'string') {
+    if (operator !== '+') return null;
+    const quote = typeof left.value === 'string' ? left.quote : right.quote;
+    return quoteString(String(left.value) + String(right.value), quote);
+  }
+
+  const a = left.value;
+  const b = right.value;
+  const results: Record<string, number> = {
+    '+': a + b, '-': a - b, '*': a * b, '/': a / b, '%': a % b,
+    '<<': a << b, '>>': a >> b, '>>>': a >>> b, '&': a & b, '|': a | b, '^': a ^ b,
+  };
+  const result = results[operator];
+  return Number.isSafeInteger(result) && !Object.is(result, -0) ? String(result) : null;
+}
+
+/**
+ * Check whether the token after an index extends the operand (member access or call)
+ */
+function continuesOperand(tokens: JsToken[], index: number): boolean {
+  const next = tokens[nextSignificant(tokens, index)];
+  return Boolean(next && ['[', '(', '.', '?.', '**'].includes(next.value));
+}
+
+/**
+ * Give hex-style identifiers readable names
+ */
+function renameHexIdentifiers(tokens: JsToken[]): TransformOutput {
+  const taken = new Set(tokens.filter((token) => token.type === 'identifier').map((token) => token.value));
+  const names = new Map<string, string>();
+  const counters = { fn: 0, v: 0 };
+  let changes = 0;
+
+  const nextName = (prefix: 'fn' | 'v'): string => {
+    let name: string;
+    do {
+      name = `${prefix}${++counters[prefix]}`;
+    } while (taken.has(name));
+    return name;
+  };
+
+  const output = tokens.map((token, index) => {
+    if (token.type !== 'identifier' || !HEX_IDENTIFIER_PATTERN.test(token.value) || isPropertyName(tokens, index)) {
+      return token;
+    }
+
+    let name = names.get(token.value);
+    if (!name) {
+      name = nextName(isFunctionName(tokens, index) ? 'fn' : 'v');
+      names.set(token.value, name);
+    }
+    changes++;
+    return { type: 'identifier' as const, value: name };
+  });
+
+  return { tokens: output, changes };
+}
+
+/**
+ * Check whether an identifier names a function where it first appears
+ */
+function isFunctionName(tokens: JsToken[], index: number): boolean {
+  if (tokens[previousSignificant(tokens, index)]?.value === 'function') {
+    return true;
+  }
+  const equals = nextSignificant(tokens, index);
+  return tokens[equals]?.value === '=' && tokens[nextSignificant(tokens, equals)]?.value === 'function';
+}
+
+/**
+ * Check whether an identifier is a property name (`a.name`, `{ name: ... }`) rather than a variable
+ */
+function isPropertyName(tokens: JsToken[], index: number): boolean {
+  const previous = tokens[previousSignificant(tokens, index)]?.value;
+  if (previous === '.' || previous === '?.') {
+    return true;
+  }
+  return (previous === '{' || previous === ',') && tokens[nextSignificant(tokens, index)]?.value === ':';
+}
+
+/**
+ * Replace token ranges, keyed by their first index, with raw code
+ */
+function applyReplacements(tokens: JsToken[], replacements: Map<number, { end: number; value: string }>): TransformOutput {
+  if (replacements.size === 0) {
+    return { tokens, changes: 0 };
+  }
+
+  const output: JsToken[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const replacement = replacements.get(i);
+    if (replacement) {
+      // Keep `return!0` from becoming `returntrue` and `a- -6` from becoming `a--6`
+      const before = output[output.length - 1]?.value ?? '';
+      const after = tokens[replacement.end + 1]?.value ?? '';
+      const value =
+        (needsSeparator(before, replacement.value) ? ' ' : '') +
+        replacement.value +
+        (needsSeparator(replacement.value, after) ? ' ' : '');
+      output.push(...tokenizeJs(value));
+      i = replacement.end;
+    } else {
+      output.push(tokens[i]);
+    }
+  }
+  return { tokens: output, changes: replacements.size };
+}
+
+/**
+ * Check whether two pieces of code would merge into one token when joined
+ */
+function needsSeparator(left: string, right: string): boolean {
+  const last = left[left.length - 1] ?? '';
+  const first = right[0] ?? '';
+  return (/[\w$]/.test(last) && /[\w$]/.test(first)) || ((last === '+' || last === '-') && last === first);
+}
+
+function countBackslashes(value: string): number {
+  return value.split('\\').length - 1;
+}
+
+function parseNumber(literal: string): number {
+  return Number(literal.replace(/_/g, ''));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function joinTokens(tokens: JsToken[]): string {
+  return tokens.map((token) => token.value).join('');
+}
@@ -10,6 +10,25 @@ export {
   type BeautifyOptions,
 } from './beautifier';
 
+export {
+  canDeobfuscate,
+  deobfuscate,
+  unpackPayload,
+  DEOBFUSCATION_TRANSFORMS,
+  type DeobfuscationResult,
+  type DeobfuscationStep,
+  type DeobfuscationTransform,
+  type DeobfuscationTransformInfo,
+} from './deobfuscator';
+
+export {
+  tokenizeJs,
+  parseStringLiteral,
+  quoteString,
+  type JsToken,
+  type JsTokenType,
+} from './js-tokens';
+
 export {
   highlightCode,
   getSupportedLanguages,
@@ -24,6 +43,7 @@ export {
   isHighlightable,
   isTextFile,
   isImageFile,
+  isWasmFile,
   getFileCategory,
   type SupportedLanguage,
 } from './language-detector';
@@ -0,0 +1,360 @@
+/**
+ * Lightweight JavaScript tokenizer
+ *
+ * Splits source into tokens without parsing it, keeping whitespace and
+ * comments, so joining the token values gives back the exact input. Regular
+ * expression literals are told apart from division by the previous token,
+ * which is right for all but contrived code. Malformed input never throws;
+ * unterminated strings and comments run to the end of the line or file.
+ */
+
+export type JsTokenType =
+  | 'whitespace'
+  | 'comment'
+  | 'string'
+  | 'template'
+  | 'regex'
+  | 'number'
+  | 'identifier'
+  | 'punctuator';
+
+export interface JsToken {
+  type: JsTokenType;
+  value: string;
+}
+
+/**
+ * Reserved words that can never be variable names
+ */
+export const JS_KEYWORDS = new Set([
+  'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do',
+  'else', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof',
+  'let', 'new', 'null', 'of', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var',
+  'void', 'while', 'with', 'yield',
+]);
+
+// Keywords after which a slash starts a regular expression
+const REGEX_PREFIX_KEYWORDS = new Set([
+  'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else', 'yield', 'await',
+]);
+
+const PUNCTUATORS = [
+  '>>>=', '...', '===', '!==', '**=', '<<=', '>>=', '>>>', '&&=', '||=', '??=',
+  '=>', '==', '!=', '<=', '>=', '&&', '||', '??', '?.', '++', '--', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=',
+  '**', '<<', '>>',
+];
+
+const WHITESPACE_PATTERN = /\s+/y;
+const NUMBER_PATTERN = /(?:0[xX][\da-fA-F_]+|0[oO][0-7_]+|0[bB][01_]+|(?:\d[\d_]*(?:\.[\d_]*)?|\.\d[\d_]*)(?:[eE][+-]?\d+)?)n?/y;
+const IDENTIFIER_PATTERN = /[A-Za-z_$\u0080-\uffff][\w$\u0080-\uffff]*/y;
+const IDENTIFIER_NAME_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Split JavaScript source into tokens
+ *
+ * @param source - JavaScript source
+ * @returns Tokens whose values join back into the source
+ */
+export function tokenizeJs(source: string): JsToken[] {
+  const tokens: JsToken[] = [];
+  let previous: JsToken | null = null;
+  let i = 0;
+
+  const push = (type: JsTokenType, end: number) => {
+    const token = { type, value: source.slice(i, end) };
+    tokens.push(token);
+    if (type !== 'whitespace' && type !== 'comment') {
+      previous = token;
+    }
+    i = end;
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    const next = source[i + 1];
+
+    if (/\s/.test(char)) {
+      WHITESPACE_PATTERN.lastIndex = i;
+      WHITESPACE_PATTERN.test(source);
+      push('whitespace', WHITESPACE_PATTERN.lastIndex);
+    } else if (char === '/' && next === '/') {
+      const end = source.indexOf('\n', i);
+      push('comment', end === -1 ? source.length : end);
+    } else if (char === '/' && next === '*') {
+      const end = source.indexOf('*/', i + 2);
+      push('comment', end === -1 ? source.length : end + 2);
+    } else if (char === '"' || char === "'") {
+      push('string', skipString(source, i));
+    } else if (char === '`') {
+      push('template', skipTemplate(source, i));
+    } else if (/\d/.test(char) || (char === '.' && /\d/.test(next ?? ''))) {
+      NUMBER_PATTERN.lastIndex = i;
+      NUMBER_PATTERN.test(source);
+      push('number', Math.max(NUMBER_PATTERN.lastIndex, i + 1));
+    } else if (/[A-Za-z_$\u0080-\uffff]/.test(char)) {
+      IDENTIFIER_PATTERN.lastIndex = i;
+      IDENTIFIER_PATTERN.test(source);
+      push('identifier', IDENTIFIER_PATTERN.lastIndex);
+    } else if (char === '/' && startsRegex(previous)) {
+      const end = skipRegex(source, i);
+      if (end === null) {
+        push('punctuator', i + 1);
+      } else {
+        push('regex', end);
+      }
+    } else {
+      const punctuator = PUNCTUATORS.find((candidate) => source.startsWith(candidate, i));
+      push('punctuator', i + (punctuator?.length ?? 1));
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Check whether a token is code rather than whitespace or a comment
+ */
+export function isSignificant(token: JsToken): boolean {
+  return token.type !== 'whitespace' && token.type !== 'comment';
+}
+
+/**
+ * Index of the next significant token after an index, or -1
+ */
+export function nextSignificant(tokens: JsToken[], index: number): number {
+  for (let i = index + 1; i < tokens.length; i++) {
+    if (isSignificant(tokens[i])) return i;
+  }
+  return -1;
+}
+
+/**
+ * Index of the previous significant token before an index, or -1
+ */
+export function previousSignificant(tokens: JsToken[], index: number): number {
+  for (let i = index - 1; i >= 0; i--) {
+    if (isSignificant(tokens[i])) return i;
+  }
+  return -1;
+}
+
+/**
+ * Find the token that closes the bracket at an index
+ *
+ * @param tokens - Tokens
+ * @param index - Index of an opening `(`, `[` or `{`
+ * @returns Index of the matching closing bracket, or -1 when it is unbalanced
+ */
+export function findClosingBracket(tokens: JsToken[], index: number): number {
+  const open = tokens[index]?.value;
+  const close = open === '(' ? ')' : open === '[' ? ']' : open === '{' ? '}' : null;
+  if (!close) {
+    return -1;
+  }
+
+  let depth = 0;
+  for (let i = index; i < tokens.length; i++) {
+    if (tokens[i].type !== 'punctuator') continue;
+    if (tokens[i].value === open) depth++;
+    if (tokens[i].value === close && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Check whether a string can be used as an identifier or dot-accessed property
+ */
+export function isIdentifierName(value: string): boolean {
+  return IDENTIFIER_NAME_PATTERN.test(value);
+}
+
+/**
+ * Read the value of a string literal token
+ *
+ * @param literal - String literal including its quotes
+ * @returns The string value, or null when the literal is malformed
+ */
+export function parseStringLiteral(literal: string): string | null {
+  const quote = literal[0];
+  if ((quote !== '"' && quote !== "'") || literal.length < 2 || literal[literal.length - 1] !== quote) {
+    return null;
+  }
+
+  const body = literal.slice(1, -1);
+  let value = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+
+    const escape = body[++i];
+    switch (escape) {
+      case undefined:
+        return null;
+      case 'n': value += '\n'; break;
+      case 'r': value += '\r'; break;
+      case 't': value += '\t'; break;
+      case 'b': value += '\b'; break;
+      case 'f': value += '\f'; break;
+      case 'v': value += '\v'; break;
+      case '\r':
+        // Line continuation
+        if (body[i + 1] === '\n') i++;
+        break;
+      case '\n':
+      case '\u2028':
+      case '\u2029':
+        break;
+      case 'x': {
+        const hex = body.slice(i + 1, i + 3);
+        if (!/^[\da-fA-F]{2}$/.test(hex)) return null;
+        value += String.fromCharCode(parseInt(hex, 16));
+        i += 2;
+        break;
+      }
+      case 'u': {
+        const braced = /^\{([\da-fA-F]{1,6})\}/.exec(body.slice(i + 1));
+        const hex = braced ? braced[1] : body.slice(i + 1, i + 5);
+        if (!braced && !/^[\da-fA-F]{4}$/.test(hex)) return null;
+        const codePoint = parseInt(hex, 16);
+        if (codePoint > 0x10ffff) return null;
+        value += String.fromCodePoint(codePoint);
+        i += braced ? braced[0].length : 4;
+        break;
+      }
+      default:
+        if (/[0-7]/.test(escape)) {
+          // Legacy octal escape of up to three digits, at most \377
+          const octal = /^[0-7]{1,3}/.exec(body.slice(i))![0];
+          const digits = parseInt(octal, 8) > 0o377 ? octal.slice(0, 2) : octal;
+          value += String.fromCharCode(parseInt(digits, 8));
+          i += digits.length - 1;
+        } else {
+          value += escape;
+        }
+    }
+  }
+  return value;
+}
+
+/**
+ * Write a string as a literal, escaping only what has to be escaped
+ *
+ * @param value - String value
+ * @param quote - Quote character to use
+ * @returns String literal
+ */
+export function quoteString(value: string, quote: '"' | "'" = "'"): string {
+  let literal = quote;
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    if (char === quote || char === '\\') {
+      literal += `\\${char}`;
+    } else if (char === '\n') {
+      literal += '\\n';
+    } else if (char === '\r') {
+      literal += '\\r';
+    } else if (char === '\t') {
+      literal += '\\t';
+    } else if (code < 0x20 || (code >= 0x7f && code <= 0x9f)) {
+      literal += `\\x${code.toString(16).padStart(2, '0')}`;
+    } else if (code === 0x2028 || code === 0x2029 || (char.length === 1 && code >= 0xd800 && code <= 0xdfff)) {
+      literal += `\\u${code.toString(16).padStart(4, '0')}`;
+    } else {
+      literal += char;
+    }
+  }
+  return literal + quote;
+}
+
+/**
+ * Decide whether a slash after this token starts a regular expression
+ */
+function startsRegex(previous: JsToken | null): boolean {
+  if (!previous) {
+    return true;
+  }
+  if (previous.type === 'punctuator') {
+    return ![')', ']', '}'].includes(previous.value);
+  }
+  return previous.type === 'identifier' && REGEX_PREFIX_KEYWORDS.has(previous.value);
+}
+
+/**
+ * End index of a quoted string starting at an index
+ */
+function skipString(source: string, start: number): number {
+  const quote = source[start];
+  for (let i = start + 1; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+    } else if (source[i] === quote) {
+      return i + 1;
+    } else if (source[i] === '\n') {
+      return i;
+    }
+  }
+  return source.length;
+}
+
+/**
+ * End index of a template literal starting at an index, including nested substitutions
+ */
+function skipTemplate(source: string, start: number): number {
+  for (let i = start + 1; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+    } else if (source[i] === '`') {
+      return i + 1;
+    } else if (source[i] === '$' && source[i + 1] === '{') {
+      i = skipSubstitution(source, i + 2) - 1;
+    }
+  }
+  return source.length;
+}
+
+/**
+ * End index of a `${...}` substitution whose body starts at an index
+ */
+function skipSubstitution(source: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (char === '"' || char === "'") {
+      i = skipString(source, i) - 1;
+    } else if (char === '`') {
+      i = skipTemplate(source, i) - 1;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return source.length;
+}
+
+/**
+ * End index of a regular expression literal, or null when the slash is not one
+ */
+function skipRegex(source: string, start: number): number | null {
+  let inClass = false;
+  for (let i = start + 1; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '\n') {
+      return null;
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === ']') {
+      inClass = false;
+    } else if (char === '/' && !inClass) {
+      let end = i + 1;
+      while (end < source.length && /[a-z]/i.test(source[end])) end++;
+      return end;
+    }
+  }
+  return null;
+}
@@ -138,8 +138,9 @@ export function isTextFile(filePath: string): boolean {
   // Binary file extensions
   const binaryExtensions = [
     '.png', '.jpg', '.jpeg', '.gif', '.webp', '.ico',
-    '.zip', '.tar', '.gz', '.rar', '.7z',
-    '.exe', '.dll', '.so', '.dylib',
+    '.zip', '.crx', '.xpi', '.jar', '.tar', '.gz', '.rar', '.7z',
+    '.exe', '.dll', '.so', '.dylib', '.wasm',
+    '.woff', '.woff2', '.ttf', '.otf', '.eot',
     '.pdf', '.doc', '.docx', '.xls', '.xlsx',
   ];
 
@@ -158,6 +159,15 @@ export function isImageFile(filePath: string): boolean {
   return imageExtensions.includes(extension);
 }
 
+/**
+ * Check if file is a WebAssembly module
+ * @param filePath - File path
+ * @returns True if file is a .wasm module
+ */
+export function isWasmFile(filePath: string): boolean {
+  return filePath.toLowerCase().endsWith('.wasm');
+}
+
 /**
  * Get file category
  * @param filePath - File path
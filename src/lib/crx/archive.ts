@@ -0,0 +1,223 @@
+/**
+ * Specific extension versions from an archive of past builds
+ *
+ * The archive is a directory served over HTTP (a local mirror, or a static
+ * file server in front of a directory) that stores packages as
+ * `<id>/<version>.crx`. The versions of an extension are read from
+ * `<id>/index.json` (a JSON list of versions) or, when there is no index
+ * file, from the directory listing of `<id>/`. Archives are usually on the
+ * local network, so requests go to them directly rather than through the
+ * CORS proxy; the archive must allow cross-origin requests from the viewer.
+ */
+
+import { isValidExtensionId } from './url-patterns';
+import { getDownloadSettings } from '../settings/download-settings';
+import type { DownloadSettings } from '../settings/download-settings';
+
+interface ArchiveDownloadSuccess {
+  success: true;
+  data: ArrayBuffer;
+}
+
+interface ArchiveVersionsSuccess {
+  success: true;
+  /** Versions in the archive, newest first */
+  versions: string[];
+}
+
+interface ArchiveError {
+  success: false;
+  error: string;
+}
+
+export type ArchiveDownloadResult = ArchiveDownloadSuccess | ArchiveError;
+export type ArchiveVersionsResult = ArchiveVersionsSuccess | ArchiveError;
+
+const VERSION_PATTERN = /^\d+(\.\d+){0,3}$/;
+const LISTING_LINK_PATTERN = /href\s*=\s*["']([^"']+)\.crx["']/gi;
+
+/**
+ * Check that a string is an extension version (1 to 4 dot-separated integers)
+ *
+ * @param version - Version string
+ * @returns True if the version is valid
+ */
+export function isValidVersion(version: string): boolean {
+  return VERSION_PATTERN.test(version);
+}
+
+/**
+ * Compare two extension versions part by part
+ *
+ * Missing parts count as zero, so 1.2 equals 1.2.0.
+ *
+ * @returns Negative if a is older than b, positive if newer, 0 if equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] ?? 0) - (right[i] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Drop invalid and duplicate versions and order the rest newest first
+ *
+ * @param versions - Versions in any order
+ * @returns New array of valid versions, newest first
+ */
+export function sortVersions(versions: string[]): string[] {
+  const valid = [...new Set(versions.map((version) => version.trim()))].filter(isValidVersion);
+  return valid.sort((a, b) => compareVersions(b, a));
+}
+
+/**
+ * Build the URL of an archived package
+ *
+ * @param extensionId - 32-character extension ID
+ * @param version - Extension version
+ * @param settings - Download settings (defaults to the current settings)
+ * @returns `<archive>/<id>/<version>.crx`
+ */
+export function buildArchiveVersionUrl(
+  extensionId: string,
+  version: string,
+  settings: DownloadSettings = getDownloadSettings()
+): string {
+  return `${getArchiveDirectoryUrl(extensionId, settings)}${version}.crx`;
+}
+
+/**
+ * Read the versions listed in an archive index or directory listing
+ *
+ * Accepts a JSON list of versions, a JSON object with a `versions` list, or
+ * an HTML directory listing linking to `<version>.crx` files.
+ *
+ * @param text - Response body
+ * @returns Versions, newest first
+ */
+export function parseVersionIndex(text: string): string[] {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    const list = Array.isArray(parsed)
+      ? parsed
+      : parsed && typeof parsed === 'object'
+        ? (parsed as Record<string, unknown>).versions
+        : null;
+    if (Array.isArray(list)) {
+      return sortVersions(list.filter((item): item is string => typeof item === 'string'));
+    }
+    return [];
+  } catch {
+    // Not JSON; read it as a directory listing
+  }
+
+  const versions: string[] = [];
+  for (const match of text.matchAll(LISTING_LINK_PATTERN)) {
+    const fileName = match[1].split('/').pop() ?? '';
+    try {
+      versions.push(decodeURIComponent(fileName));
+    } catch {
+      // Malformed escape; not one of ours
+    }
+  }
+  return sortVersions(versions);
+}
+
+/**
+ * List the versions of an extension in the archive
+ *
+ * Reads `<id>/index.json`, falling back to the directory listing of `<id>/`.
+ *
+ * @param extensionId - 32-character extension ID
+ * @param settings - Download settings (defaults to the current settings)
+ * @returns Result object with the versions, newest first
+ */
+export async function fetchArchiveVersions(
+  extensionId: string,
+  settings: DownloadSettings = getDownloadSettings()
+): Promise<ArchiveVersionsResult> {
+  if (!settings.archiveUrl) {
+    return { success: false, error: 'No version archive is configured' };
+  }
+  if (!isValidExtensionId(extensionId)) {
+    return { success: false, error: `Invalid extension ID format: ${extensionId}` };
+  }
+
+  const directoryUrl = getArchiveDirectoryUrl(extensionId, settings);
+
+  try {
+    let response = await fetch(`${directoryUrl}index.json`);
+    if (response.status === 404) {
+      response = await fetch(directoryUrl);
+    }
+
+    if (response.status === 404) {
+      return { success: true, versions: [] };
+    }
+    if (!response.ok) {
+      return { success: false, error: `Version archive request failed (HTTP ${response.status})` };
+    }
+
+    return { success: true, versions: parseVersionIndex(await response.text()) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Network error listing archived versions: ${message}` };
+  }
+}
+
+/**
+ * Download a specific version of an extension from the archive
+ *
+ * @param extensionId - 32-character extension ID
+ * @param version - Extension version
+ * @param settings - Download settings (defaults to the current settings)
+ * @returns Result object with success flag and either the CRX data or error message
+ */
+export async function downloadArchivedCrx(
+  extensionId: string,
+  version: string,
+  settings: DownloadSettings = getDownloadSettings()
+): Promise<ArchiveDownloadResult> {
+  if (!settings.archiveUrl) {
+    return { success: false, error: 'No version archive is configured. Set one in the download settings.' };
+  }
+  if (!isValidExtensionId(extensionId)) {
+    return { success: false, error: `Invalid extension ID format: ${extensionId}` };
+  }
+  if (!isValidVersion(version)) {
+    return { success: false, error: `Invalid extension version: ${version}` };
+  }
+
+  try {
+    const response = await fetch(buildArchiveVersionUrl(extensionId, version, settings));
+    if (response.status === 404) {
+      return { success: false, error: `Version ${version} of ${extensionId} is not in the archive` };
+    }
+    if (!response.ok) {
+      return { success: false, error: `Archive download failed (HTTP ${response.status})` };
+    }
+
+    const data = await response.arrayBuffer();
+    if (data.byteLength === 0) {
+      return { success: false, error: `Archived package for version ${version} is empty` };
+    }
+
+    return { success: true, data };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Network error downloading archived version: ${message}` };
+  }
+}
+
+/**
+ * Directory of an extension in the archive, with a trailing slash
+ */
+function getArchiveDirectoryUrl(extensionId: string, settings: DownloadSettings): string {
+  return `${settings.archiveUrl}/${extensionId}/`;
+}
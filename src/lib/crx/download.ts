@@ -1,14 +1,20 @@
 /**
  * Chrome Web Store and CRX download functionality
+ *
+ * Requests go through a CORS proxy to get around extension store CORS
+ * restrictions. The proxy, update server, prodversion and OS/arch strategies
+ * come from the download settings (see lib/settings).
  */
 
-import { isValidExtensionId } from './url-patterns';
+import { isValidExtensionId, isValidStoreExtensionId } from './url-patterns';
+import type { ExtensionStore } from './url-patterns';
+import { getDownloadSettings } from '../settings/download-settings';
+import type { DownloadSettings, DownloadStrategy } from '../settings/download-settings';
 
 /**
- * CORS proxy URL for bypassing Chrome Web Store CORS restrictions
- * Deployed on Cloudflare Workers
+ * Extension downloaded by testDownloadConnection (Google Docs Offline)
  */
-const CORS_PROXY_URL = 'https://crxreview-cors-proxy.brentley.workers.dev';
+export const CONNECTION_TEST_EXTENSION_ID = 'ghbmnnjooekpmoecnnnilnnbdlolhkhi';
 
 interface DownloadSuccess {
   success: true;
@@ -22,30 +28,84 @@ interface DownloadError {
 
 type DownloadResult = DownloadSuccess | DownloadError;
 
+/**
+ * Outcome of one OS/arch strategy during a connection test
+ */
+export interface StrategyAttempt {
+  strategy: DownloadStrategy;
+  success: boolean;
+  /** Package size in bytes, when the download succeeded */
+  size?: number;
+  error?: string;
+}
+
+/**
+ * Connection test report
+ */
+export interface ConnectionTestResult {
+  success: boolean;
+  /** First strategy that downloaded the test extension */
+  strategy: DownloadStrategy | null;
+  /** Strategies tried, in order, up to and including the successful one */
+  attempts: StrategyAttempt[];
+}
+
 /**
  * Build the CRX download URL for a given extension ID
  *
- * Uses Google's official CRX update server endpoint:
+ * Uses the configured update server, by default Google's official endpoint:
  * https://clients2.google.com/service/update2/crx
  *
  * @param extensionId - 32-character Chrome extension ID
  * @param os - Operating system (defaults to 'linux', can be 'windows', 'mac')
  * @param arch - Architecture (defaults to 'x86-64')
+ * @param settings - Download settings (defaults to the current settings)
  * @returns Download URL string
  */
 export function buildCrxDownloadUrl(
   extensionId: string,
   os: string = 'linux',
-  arch: string = 'x86-64'
+  arch: string = 'x86-64',
+  settings: DownloadSettings = getDownloadSettings()
 ): string {
   if (!isValidExtensionId(extensionId)) {
     throw new Error(`Invalid extension ID: ${extensionId}`);
   }
 
-  // Use maximum prodversion (2147483647) to avoid noupdate responses
-  // Research shows values <88 return 204/noupdate, max value gives best results
-  // See: https://gist.github.com/paulirish/78d6c1406c901be02c2d
-  return `https://clients2.google.com/service/update2/crx?os=${os}&arch=${arch}&os_arch=${arch}&acceptformat=crx2,crx3&prodversion=2147483647&x=id%3D${extensionId}%26installsource%3Dondemand%26uc`;
+  const separator = settings.updateServerUrl.includes('?') ? '&' : '?';
+  const prodVersion = encodeURIComponent(settings.prodVersion);
+  return `${settings.updateServerUrl}${separator}os=${os}&arch=${arch}&os_arch=${arch}&acceptformat=crx2,crx3&prodversion=${prodVersion}&x=id%3D${extensionId}%26installsource%3Dondemand%26uc`;
+}
+
+/**
+ * Build the CRX download URL for a Microsoft Edge Add-ons extension
+ *
+ * The Edge update service redirects straight to the CRX file when asked
+ * for response=redirect.
+ *
+ * @param extensionId - 32-character Edge extension ID
+ * @returns Download URL string
+ */
+export function buildEdgeCrxDownloadUrl(extensionId: string): string {
+  if (!isValidExtensionId(extensionId)) {
+    throw new Error(`Invalid extension ID: ${extensionId}`);
+  }
+
+  return `https://edge.microsoft.com/extensionwebstorebase/v1/crx?response=redirect&prodversion=2147483647&x=id%3D${extensionId}%26installsource%3Dondemand%26uc`;
+}
+
+/**
+ * Build the XPI download URL for the latest version of a Firefox add-on
+ *
+ * @param addonId - addons.mozilla.org slug, numeric ID or add-on GUID
+ * @returns Download URL string
+ */
+export function buildXpiDownloadUrl(addonId: string): string {
+  if (!isValidStoreExtensionId(addonId, 'firefox')) {
+    throw new Error(`Invalid Firefox add-on ID: ${addonId}`);
+  }
+
+  return `https://addons.mozilla.org/firefox/downloads/latest/${encodeURIComponent(addonId)}/latest.xpi`;
 }
 
 /**
@@ -88,31 +148,38 @@ function extractDownloadUrl(xmlText: string): string | null {
   }
 }
 
+/**
+ * Route a URL through the configured CORS proxy
+ */
+function buildProxyUrl(url: string, settings: DownloadSettings): string {
+  const separator = settings.corsProxyUrl.includes('?') ? '&' : '?';
+  return `${settings.corsProxyUrl}${separator}url=${encodeURIComponent(url)}`;
+}
+
 /**
  * Try downloading CRX with specific OS/arch parameters
  *
  * @param extensionId - Extension ID
- * @param os - Operating system parameter
- * @param arch - Architecture parameter
- * @returns Download result or null if should try next fallback
+ * @param strategy - OS/arch parameters
+ * @param settings - Download settings
+ * @returns Download result; on failure the caller tries the next strategy
  */
 async function tryDownloadWithParams(
   extensionId: string,
-  os: string,
-  arch: string
-): Promise<DownloadResult | null> {
+  strategy: DownloadStrategy,
+  settings: DownloadSettings
+): Promise<DownloadResult> {
   try {
     // Step 1: Get the update metadata XML which contains the actual download URL
-    const metadataUrl = buildCrxDownloadUrl(extensionId, os, arch);
-    const proxyMetadataUrl = `${CORS_PROXY_URL}?url=${encodeURIComponent(metadataUrl)}`;
+    const metadataUrl = buildCrxDownloadUrl(extensionId, strategy.os, strategy.arch, settings);
 
-    const metadataResponse = await fetch(proxyMetadataUrl, {
+    const metadataResponse = await fetch(buildProxyUrl(metadataUrl, settings), {
       method: 'GET',
       redirect: 'follow',
     });
 
     if (!metadataResponse.ok) {
-      return null; // Try next fallback
+      return { success: false, error: `Update server request failed (HTTP ${metadataResponse.status})` };
     }
 
     // Check if response is binary CRX (some extensions return CRX directly)
@@ -128,7 +195,7 @@ async function tryDownloadWithParams(
           data,
         };
       }
-      return null; // Empty binary, try next fallback
+      return { success: false, error: 'Update server returned an empty package' };
     }
 
     // Parse XML response
@@ -138,29 +205,27 @@ async function tryDownloadWithParams(
     const downloadUrl = extractDownloadUrl(xmlText);
 
     if (downloadUrl === 'noupdate') {
-      return null; // Try next fallback
+      return { success: false, error: 'Update server answered noupdate' };
     }
 
     if (!downloadUrl) {
-      return null; // Try next fallback
+      return { success: false, error: 'Update server response has no download URL' };
     }
 
     // Step 3: Download the actual CRX file
-    const proxyDownloadUrl = `${CORS_PROXY_URL}?url=${encodeURIComponent(downloadUrl)}`;
-
-    const crxResponse = await fetch(proxyDownloadUrl, {
+    const crxResponse = await fetch(buildProxyUrl(downloadUrl, settings), {
       method: 'GET',
       redirect: 'follow',
     });
 
     if (!crxResponse.ok) {
-      return null; // Try next fallback
+      return { success: false, error: `Package download failed (HTTP ${crxResponse.status})` };
     }
 
     const data = await crxResponse.arrayBuffer();
 
     if (data.byteLength === 0) {
-      return null; // Try next fallback
+      return { success: false, error: 'Package download was empty' };
     }
 
     return {
@@ -168,44 +233,60 @@ async function tryDownloadWithParams(
       data,
     };
   } catch (error) {
-    return null; // Try next fallback
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Network error: ${message}` };
   }
 }
 
 /**
- * Fetch CRX file from Chrome's update server
+ * Fetch an extension package from its store
  *
- * Downloads the CRX file for a given extension ID. Handles:
+ * Downloads the CRX file (Chrome Web Store, Microsoft Edge Add-ons) or XPI
+ * file (Firefox Add-ons) for a given extension. Handles:
  * - Network errors with descriptive messages
  * - HTTP error responses
  * - Invalid extension IDs
  * - Binary CRX responses (some extensions return CRX directly instead of XML)
  * - Multiple fallback strategies with different OS/arch combinations
  *
- * @param extensionId - 32-character Chrome extension ID
+ * @param extensionId - 32-character extension ID, or Firefox add-on identifier
+ * @param store - Store to download from (defaults to the Chrome Web Store)
+ * @param settings - Download settings (defaults to the current settings)
  * @returns Result object with success flag and either ArrayBuffer or error message
  */
-export async function downloadCrx(extensionId: string): Promise<DownloadResult> {
+export async function downloadCrx(
+  extensionId: string,
+  store: ExtensionStore = 'chrome',
+  settings: DownloadSettings = getDownloadSettings()
+): Promise<DownloadResult> {
   try {
-    if (!isValidExtensionId(extensionId)) {
+    if (!isValidStoreExtensionId(extensionId, store)) {
       return {
         success: false,
         error: `Invalid extension ID format: ${extensionId}`,
       };
     }
 
-    // Try multiple OS/arch combinations as fallbacks
-    // Research shows different combinations may work for different extensions
-    const strategies = [
-      { os: 'linux', arch: 'x86-64' },
-      { os: 'mac', arch: 'x86-64' },
-      { os: 'windows', arch: 'x86-64' },
-      { os: 'linux', arch: 'arm' },
-    ];
-
-    for (const strategy of strategies) {
-      const result = await tryDownloadWithParams(extensionId, strategy.os, strategy.arch);
-      if (result) {
+    if (store === 'edge') {
+      return await downloadPackage(
+        buildEdgeCrxDownloadUrl(extensionId),
+        settings,
+        'Extension not available from Microsoft Edge Add-ons. It may have been removed or restricted in your region.'
+      );
+    }
+
+    if (store === 'firefox') {
+      return await downloadPackage(
+        buildXpiDownloadUrl(extensionId),
+        settings,
+        'Add-on not available from Firefox Add-ons. Check the add-on slug or ID; the add-on may have been removed or disabled.'
+      );
+    }
+
+    // Try each configured OS/arch combination in order
+    for (const strategy of settings.strategies) {
+      const result = await tryDownloadWithParams(extensionId, strategy, settings);
+      if (result.success) {
         return result;
       }
     }
@@ -224,3 +305,70 @@ export async function downloadCrx(extensionId: string): Promise<DownloadResult>
     };
   }
 }
+
+/**
+ * Check that Chrome packages can be downloaded with the given settings
+ *
+ * Downloads a well-known extension, trying each OS/arch strategy in order
+ * until one succeeds, and reports every attempt.
+ *
+ * @param settings - Download settings to test
+ * @param extensionId - Extension to download
+ * @returns Report with the first strategy that worked
+ */
+export async function testDownloadConnection(
+  settings: DownloadSettings,
+  extensionId: string = CONNECTION_TEST_EXTENSION_ID
+): Promise<ConnectionTestResult> {
+  const attempts: StrategyAttempt[] = [];
+
+  for (const strategy of settings.strategies) {
+    const result = await tryDownloadWithParams(extensionId, strategy, settings);
+    if (result.success) {
+      attempts.push({ strategy, success: true, size: result.data.byteLength });
+      return { success: true, strategy, attempts };
+    }
+    attempts.push({ strategy, success: false, error: result.error });
+  }
+
+  return { success: false, strategy: null, attempts };
+}
+
+/**
+ * Download a package from a URL that serves the file directly
+ *
+ * @param url - Package download URL
+ * @param settings - Download settings
+ * @param unavailableMessage - Error reported when the store has no file
+ * @returns Download result
+ */
+async function downloadPackage(
+  url: string,
+  settings: DownloadSettings,
+  unavailableMessage: string
+): Promise<DownloadResult> {
+  const response = await fetch(buildProxyUrl(url, settings), {
+    method: 'GET',
+    redirect: 'follow',
+  });
+
+  if (!response.ok) {
+    return {
+      success: false,
+      error: `${unavailableMessage} (HTTP ${response.status})`,
+    };
+  }
+
+  const data = await response.arrayBuffer();
+  if (data.byteLength === 0) {
+    return {
+      success: false,
+      error: unavailableMessage,
+    };
+  }
+
+  return {
+    success: true,
+    data,
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Derive the extension ID of a package from its contents
+ *
+ * Local files carry no trustworthy ID in their name, so the ID is read from
+ * the package itself, taking the first of:
+ *
+ * 1. The CRX signing key: the CRX2 key, or the CRX3 key that hashes to crx_id
+ * 2. The Firefox add-on ID from browser_specific_settings (ZIP packages only)
+ * 3. The manifest `key` field
+ * 4. The crx_id a CRX3 declares, unverified since none of its keys matches it
+ * 5. A hash of the ZIP payload in Chrome's a-p alphabet
+ *
+ * This is the order the API's resolveExtensionId and parsePackageZip use, so
+ * the viewer and the API name a package the same way.
+ */
+
+import { crxIdToExtensionId, extensionIdFromPublicKey } from './signature';
+import type { CrxSignatureStatus } from './signature';
+import { getGeckoId } from '../analysis/browser-settings';
+
+/**
+ * Where a derived extension ID came from
+ */
+export type ExtensionIdSource = 'crx' | 'gecko' | 'manifest' | 'crx-unverified' | 'package';
+
+export interface ResolvedExtensionId {
+  extensionId: string;
+  source: ExtensionIdSource;
+}
+
+/**
+ * Resolve the extension ID of a package
+ *
+ * @param zipData - ZIP payload of the package
+ * @param manifest - Parsed manifest.json, or null when it could not be read
+ * @param signature - CRX signature status; null for ZIP packages
+ * @returns Extension ID and where it came from
+ */
+export async function resolveExtensionId(
+  zipData: ArrayBuffer,
+  manifest: Record<string, unknown> | null,
+  signature: CrxSignatureStatus | null
+): Promise<ResolvedExtensionId> {
+  const signingKey = signature?.proofs.find((proof) => proof.isPublisher && proof.publicKey.length > 0);
+  if (signingKey) {
+    return { extensionId: signingKey.keyId, source: 'crx' };
+  }
+
+  const geckoId = !signature && manifest ? getGeckoId(manifest) : undefined;
+  if (geckoId) {
+    return { extensionId: geckoId, source: 'gecko' };
+  }
+
+  const publicKey = typeof manifest?.key === 'string' ? decodeBase64(manifest.key) : null;
+  if (publicKey && publicKey.length > 0) {
+    return { extensionId: await extensionIdFromPublicKey(publicKey), source: 'manifest' };
+  }
+
+  if (signature?.version === 3 && signature.crxId) {
+    return { extensionId: signature.crxId, source: 'crx-unverified' };
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', zipData);
+  return { extensionId: crxIdToExtensionId(new Uint8Array(digest)), source: 'package' };
+}
+
+/**
+ * Decode a base64 string, ignoring whitespace
+ *
+ * @returns Decoded bytes, or null when the string is not valid base64
+ */
+function decodeBase64(value: string): Uint8Array | null {
+  try {
+    return Uint8Array.from(atob(value.replace(/\s+/g, '')), (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
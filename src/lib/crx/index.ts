@@ -2,14 +2,50 @@
  * CRX parsing and download module exports
  */
 
-export { extractExtensionId, isValidExtensionId } from './url-patterns';
-export type { } from './url-patterns';
+export {
+  buildStoreListingUrl,
+  extractExtensionId,
+  isValidExtensionId,
+  isValidFirefoxAddonId,
+  isValidStoreExtensionId,
+} from './url-patterns';
+export type { ExtensionStore } from './url-patterns';
 
-export { buildCrxDownloadUrl, downloadCrx } from './download';
-export type { } from './download';
+export {
+  buildCrxDownloadUrl,
+  buildEdgeCrxDownloadUrl,
+  buildXpiDownloadUrl,
+  CONNECTION_TEST_EXTENSION_ID,
+  downloadCrx,
+  testDownloadConnection,
+} from './download';
+export type { ConnectionTestResult, StrategyAttempt } from './download';
 
 export { parseCrxHeader } from './parser';
-export type { } from './parser';
+export type { CrxKeyProof, CrxProofAlgorithm, ParsedCrxHeader, ParseResult } from './parser';
 
-export { crxToZip } from './zip-converter';
-export type { } from './zip-converter';
+export { readProtobufFields } from './protobuf';
+export type { ProtobufField } from './protobuf';
+
+export { crxIdToExtensionId, extensionIdFromPublicKey, verifyCrxSignatures, WEBSTORE_PUBLISHER_KEY_HASH } from './signature';
+export type { CrxProofVerification, CrxSignatureStatus } from './signature';
+
+export { resolveExtensionId } from './extension-id';
+export type { ExtensionIdSource, ResolvedExtensionId } from './extension-id';
+
+export { crxToZip, detectPackageFormat } from './zip-converter';
+export type { PackageFormat } from './zip-converter';
+
+export {
+  buildArchiveVersionUrl,
+  compareVersions,
+  downloadArchivedCrx,
+  fetchArchiveVersions,
+  isValidVersion,
+  parseVersionIndex,
+  sortVersions,
+} from './archive';
+export type { ArchiveDownloadResult, ArchiveVersionsResult } from './archive';
+
+export { addToLibrary, fetchCrx, listExtensionVersions, openCrx } from './loader';
+export type { FetchCrxOptions, OpenCrxOptions } from './loader';
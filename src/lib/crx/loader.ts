@@ -0,0 +1,309 @@
+/**
+ * Open extension packages into LoadedCrx objects
+ *
+ * Shared by the viewer and compare stores: converts CRX data to ZIP (plain
+ * ZIP and XPI packages are used as is), builds the file tree and verifies
+ * signatures. Local files are named after the ID derived from the package
+ * itself. Packages are kept in the local library so known extensions
+ * are reopened without downloading them again. Specific versions come from
+ * the library or the version archive.
+ */
+
+import type { LoadedCrx } from '@/types/index';
+import { downloadCrx } from './download';
+import { downloadArchivedCrx, fetchArchiveVersions, isValidVersion } from './archive';
+import { crxToZip } from './zip-converter';
+import { verifyCrxSignatures } from './signature';
+import type { CrxSignatureStatus } from './signature';
+import { resolveExtensionId } from './extension-id';
+import { extractExtensionId } from './url-patterns';
+import type { ExtensionStore } from './url-patterns';
+import { extractZipEntries, loadZipFile } from '../zip/extractor';
+import { buildFileTree } from '../zip/file-tree';
+import {
+  addToVersionIndex,
+  findLibraryEntry,
+  findLibraryVersion,
+  getEntryStore,
+  getVersionIndex,
+  openLibraryEntry,
+  saveToLibrary,
+} from '../library/library-db';
+import type { LibraryEntry, LibraryResult, LibrarySource } from '../library/library-db';
+import { getGeckoId } from '../analysis/browser-settings';
+import { getDownloadSettings } from '../settings/download-settings';
+import type { DownloadSettings } from '../settings/download-settings';
+
+interface OpenCrxSuccess {
+  success: true;
+  crx: LoadedCrx;
+}
+
+interface FetchCrxSuccess {
+  success: true;
+  extensionId: string;
+  /** Where the bytes originally came from */
+  source: LibrarySource;
+  /** Store the package was downloaded from; null for a stored upload or an archived version */
+  store: ExtensionStore | null;
+  data: ArrayBuffer;
+  /** Library entry the bytes came from, when they were not downloaded */
+  libraryEntry?: LibraryEntry;
+}
+
+export interface OpenCrxOptions {
+  /** Known extension ID (downloads and library entries); derived from the package when omitted */
+  extensionId?: string;
+  /** Store the package was downloaded from; null for local files */
+  store?: ExtensionStore | null;
+}
+
+export interface FetchCrxOptions {
+  /** Download even when the extension is already in the library */
+  forceDownload?: boolean;
+  /** Specific version to load from the library or the version archive instead of the latest */
+  version?: string;
+}
+
+interface VersionsSuccess {
+  success: true;
+  /** Known versions, newest first */
+  versions: string[];
+}
+
+interface LoaderError {
+  success: false;
+  error: string;
+}
+
+type OpenCrxResult = OpenCrxSuccess | LoaderError;
+type FetchCrxResult = FetchCrxSuccess | LoaderError;
+type VersionsResult = VersionsSuccess | LoaderError;
+
+/**
+ * Open CRX, XPI or ZIP data as a LoadedCrx
+ *
+ * Without a known extension ID the package is named after the ID resolved
+ * from its CRX header or manifest (see resolveExtensionId).
+ *
+ * @param crxData - Raw package data
+ * @param options - Known extension ID and store
+ * @returns Result object with success flag and either the loaded CRX or error message
+ */
+export async function openCrx(crxData: ArrayBuffer, options: OpenCrxOptions = {}): Promise<OpenCrxResult> {
+  const store = options.store ?? null;
+
+  try {
+    // Convert CRX to ZIP
+    const zipResult = crxToZip(crxData);
+    if (!zipResult.success) {
+      return { success: false, error: zipResult.error };
+    }
+
+    // Extract ZIP entries
+    const entriesResult = await extractZipEntries(zipResult.zipData);
+    if (!entriesResult.success) {
+      return { success: false, error: entriesResult.error };
+    }
+
+    const manifest = await readManifest(zipResult.zipData);
+    let extension = 'crx';
+    let signature: CrxSignatureStatus | null = null;
+
+    if (zipResult.format === 'crx') {
+      // Verify signatures; a failure here should not prevent viewing the package
+      const signatureResult = await verifyCrxSignatures(crxData);
+      signature = signatureResult.success ? signatureResult.status : null;
+    } else {
+      extension = getGeckoId(manifest ?? {}) || store === 'firefox' ? 'xpi' : 'zip';
+    }
+
+    const id = options.extensionId ?? (await resolveExtensionId(zipResult.zipData, manifest, signature)).extensionId;
+
+    return {
+      success: true,
+      crx: {
+        extensionId: id,
+        fileName: `${id}.${extension}`,
+        loadedAt: new Date(),
+        crxData,
+        zipData: zipResult.zipData,
+        fileTree: buildFileTree(entriesResult.files),
+        fileCache: new Map(),
+        signature,
+        format: zipResult.format,
+        store,
+      },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Failed to load CRX: ${message}` };
+  }
+}
+
+/**
+ * Resolve a store URL or extension ID and get its package
+ *
+ * Reuses the bytes stored in the library when the extension is known,
+ * otherwise downloads the CRX or XPI from the Chrome Web Store, Microsoft
+ * Edge Add-ons or Firefox Add-ons. With a version, the package comes from
+ * the library or the version archive instead.
+ *
+ * @param input - Store URL or extension ID
+ * @param options - Fetch options
+ * @returns Result object with success flag and either the CRX data or error message
+ */
+export async function fetchCrx(input: string, options: FetchCrxOptions = {}): Promise<FetchCrxResult> {
+  const idResult = extractExtensionId(input);
+  if (!idResult.success) {
+    return { success: false, error: idResult.error };
+  }
+
+  const { extensionId, store } = idResult;
+
+  if (options.version) {
+    return fetchCrxVersion(extensionId, options.version, options);
+  }
+
+  if (!options.forceDownload) {
+    const known = await findLibraryEntry(extensionId);
+    // Uploaded packages match any store; downloads only match their own store. Archived
+    // versions are only used when asked for, as they are usually not the latest.
+    if (
+      known.success &&
+      known.value &&
+      known.value.source !== 'archive' &&
+      (getEntryStore(known.value) ?? store) === store
+    ) {
+      const stored = await openLibraryEntry(known.value.id);
+      if (stored.success) {
+        return {
+          success: true,
+          extensionId,
+          source: stored.value.entry.source,
+          store: getEntryStore(stored.value.entry),
+          data: stored.value.crxData,
+          libraryEntry: stored.value.entry,
+        };
+      }
+    }
+  }
+
+  const downloadResult = await downloadCrx(extensionId, store);
+  if (!downloadResult.success) {
+    return { success: false, error: downloadResult.error };
+  }
+
+  return { success: true, extensionId, source: 'webstore', store, data: downloadResult.data };
+}
+
+/**
+ * Get a specific version of an extension from the library or the version archive
+ */
+async function fetchCrxVersion(
+  extensionId: string,
+  version: string,
+  options: FetchCrxOptions
+): Promise<FetchCrxResult> {
+  if (!isValidVersion(version)) {
+    return { success: false, error: `Invalid extension version: ${version}` };
+  }
+
+  if (!options.forceDownload) {
+    const known = await findLibraryVersion(extensionId, version);
+    if (known.success && known.value) {
+      const stored = await openLibraryEntry(known.value.id);
+      if (stored.success) {
+        return {
+          success: true,
+          extensionId,
+          source: stored.value.entry.source,
+          store: getEntryStore(stored.value.entry),
+          data: stored.value.crxData,
+          libraryEntry: stored.value.entry,
+        };
+      }
+    }
+  }
+
+  const downloadResult = await downloadArchivedCrx(extensionId, version);
+  if (!downloadResult.success) {
+    return { success: false, error: downloadResult.error };
+  }
+
+  return { success: true, extensionId, source: 'archive', store: null, data: downloadResult.data };
+}
+
+/**
+ * List the known versions of an extension
+ *
+ * Adds the versions in the version archive to the extension's version
+ * index, which also holds every version opened before. When the archive
+ * cannot be reached, the versions already in the index are returned.
+ *
+ * @param extensionId - Extension ID
+ * @param settings - Download settings (defaults to the current settings)
+ * @returns Result object with the versions, newest first
+ */
+export async function listExtensionVersions(
+  extensionId: string,
+  settings: DownloadSettings = getDownloadSettings()
+): Promise<VersionsResult> {
+  const archived = settings.archiveUrl ? await fetchArchiveVersions(extensionId, settings) : null;
+
+  const index = await (archived?.success
+    ? addToVersionIndex(extensionId, archived.versions)
+    : getVersionIndex(extensionId));
+  if (index.success) {
+    return { success: true, versions: index.value?.versions ?? [] };
+  }
+
+  // Without the library, fall back to the archive alone
+  if (archived?.success) {
+    return { success: true, versions: archived.versions };
+  }
+  return { success: false, error: archived ? archived.error : index.error };
+}
+
+/**
+ * Store a loaded package in the local library
+ *
+ * @param crx - Loaded package
+ * @param source - Where the package came from
+ * @returns Result object from the library
+ */
+export async function addToLibrary(crx: LoadedCrx, source: LibrarySource): Promise<LibraryResult<LibraryEntry>> {
+  const manifest = (await readManifest(crx.zipData)) ?? {};
+  const version = typeof manifest.version === 'string' ? manifest.version : undefined;
+  const result = await saveToLibrary({
+    extensionId: crx.extensionId,
+    fileName: crx.fileName,
+    crxData: crx.crxData,
+    source,
+    store: crx.store ?? undefined,
+    name: typeof manifest.name === 'string' ? manifest.name : undefined,
+    version,
+  });
+
+  if (result.success && version) {
+    await addToVersionIndex(crx.extensionId, [version]);
+  }
+  return result;
+}
+
+/**
+ * Read and parse a package's manifest.json
+ */
+async function readManifest(zipData: ArrayBuffer): Promise<Record<string, unknown> | null> {
+  const result = await loadZipFile(zipData, 'manifest.json');
+  if (!result.success || !result.files[0]?.data) {
+    return null;
+  }
+
+  try {
+    const manifest = JSON.parse(new TextDecoder('utf-8').decode(result.files[0].data).replace(/^\uFEFF/, ''));
+    return manifest && typeof manifest === 'object' && !Array.isArray(manifest) ? manifest : null;
+  } catch {
+    return null;
+  }
+}
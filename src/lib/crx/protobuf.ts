@@ -0,0 +1,115 @@
+/**
+ * Minimal protobuf wire-format reader
+ *
+ * Only supports what is needed to decode the CRX3 CrxFileHeader message:
+ * varints and length-delimited fields. Fixed-width fields are skipped.
+ * See https://protobuf.dev/programming-guides/encoding/
+ */
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+/**
+ * A single decoded protobuf field
+ */
+export interface ProtobufField {
+  fieldNumber: number;
+  wireType: number;
+  /** Numeric value for varint fields */
+  value?: number;
+  /** Raw bytes for length-delimited fields */
+  bytes?: Uint8Array;
+}
+
+/**
+ * Read a varint starting at offset
+ *
+ * @returns The decoded value and the offset just past it
+ * @throws Error if the varint is truncated or too long
+ */
+function readVarint(data: Uint8Array, offset: number): { value: number; offset: number } {
+  let value = 0;
+  let multiplier = 1;
+
+  for (let i = 0; i < 10; i++) {
+    if (offset >= data.length) {
+      throw new Error('Truncated varint');
+    }
+
+    const byte = data[offset++];
+    value += (byte & 0x7f) * multiplier;
+
+    if ((byte & 0x80) === 0) {
+      return { value, offset };
+    }
+
+    multiplier *= 128;
+  }
+
+  throw new Error('Varint too long');
+}
+
+/**
+ * Decode every top-level field of a protobuf message
+ *
+ * Repeated fields appear once per occurrence, in wire order.
+ *
+ * @param data - Serialized protobuf message
+ * @returns Decoded fields
+ * @throws Error if the message is malformed
+ */
+export function readProtobufFields(data: Uint8Array): ProtobufField[] {
+  const fields: ProtobufField[] = [];
+  let offset = 0;
+
+  while (offset < data.length) {
+    const tag = readVarint(data, offset);
+    offset = tag.offset;
+
+    const fieldNumber = Math.floor(tag.value / 8);
+    const wireType = tag.value & 0x07;
+
+    if (fieldNumber === 0) {
+      throw new Error('Invalid field number 0');
+    }
+
+    switch (wireType) {
+      case WIRE_VARINT: {
+        const varint = readVarint(data, offset);
+        offset = varint.offset;
+        fields.push({ fieldNumber, wireType, value: varint.value });
+        break;
+      }
+      case WIRE_LENGTH_DELIMITED: {
+        const length = readVarint(data, offset);
+        offset = length.offset;
+        if (offset + length.value > data.length) {
+          throw new Error(`Field ${fieldNumber} exceeds message bounds`);
+        }
+        fields.push({
+          fieldNumber,
+          wireType,
+          bytes: data.subarray(offset, offset + length.value),
+        });
+        offset += length.value;
+        break;
+      }
+      case WIRE_FIXED64:
+        offset += 8;
+        break;
+      case WIRE_FIXED32:
+        offset += 4;
+        break;
+      default:
+        throw new Error(`Unsupported wire type ${wireType} for field ${fieldNumber}`);
+    }
+
+    if (offset > data.length) {
+      throw new Error(`Field ${fieldNumber} exceeds message bounds`);
+    }
+  }
+
+  return fields;
+}
@@ -0,0 +1,60 @@
+/**
+ * Tests for manifest comparison
+ */
+
+import { diffManifests } from '../manifest-diff';
+
+describe('manifest-diff', () => {
+  it('should report added and removed permissions with risk', () => {
+    const diff = diffManifests(
+      { manifest_version: 3, version: '1.0', permissions: ['storage', 'alarms'] },
+      { manifest_version: 3, version: '1.1', permissions: ['storage', 'cookies'], host_permissions: ['<all_urls>'] }
+    );
+
+    expect(diff.oldVersion).toBe('1.0');
+    expect(diff.newVersion).toBe('1.1');
+    expect(diff.permissions.map(({ permission, change, kind, source, risk }) => ({ permission, change, kind, source, risk }))).toEqual([
+      { permission: 'cookies', change: 'added', kind: 'api', source: 'permissions', risk: 'high' },
+      { permission: '<all_urls>', change: 'added', kind: 'host', source: 'permissions', risk: 'high' },
+      { permission: 'alarms', change: 'removed', kind: 'api', source: 'permissions', risk: 'low' },
+    ]);
+    expect(diff.riskIncreased).toBe(true);
+  });
+
+  it('should not count optional permissions as a risk increase', () => {
+    const diff = diffManifests(
+      { permissions: ['storage'] },
+      { permissions: ['storage'], optional_permissions: ['history'] }
+    );
+
+    expect(diff.permissions).toHaveLength(1);
+    expect(diff.permissions[0]).toMatchObject({ permission: 'history', source: 'optional', change: 'added' });
+    expect(diff.riskIncreased).toBe(false);
+  });
+
+  it('should report content script match changes', () => {
+    const diff = diffManifests(
+      { content_scripts: [{ matches: ['https://example.com/*'], js: ['a.js'] }] },
+      { content_scripts: [{ matches: ['https://*/*'], js: ['a.js'] }] }
+    );
+
+    expect(diff.permissions.map((entry) => [entry.permission, entry.change, entry.source])).toEqual([
+      ['https://*/*', 'added', 'content_scripts'],
+      ['https://example.com/*', 'removed', 'content_scripts'],
+    ]);
+    expect(diff.riskIncreased).toBe(true);
+  });
+
+  it('should report other field changes without repeating permissions', () => {
+    const diff = diffManifests(
+      { name: 'Ext', version: '1.0', permissions: ['storage'], homepage_url: 'https://a.example' },
+      { name: 'Ext', version: '2.0', permissions: ['tabs'], background: { service_worker: 'bg.js' } }
+    );
+
+    expect(diff.fields).toEqual([
+      { key: 'background', change: 'added', newValue: { service_worker: 'bg.js' } },
+      { key: 'homepage_url', change: 'removed', oldValue: 'https://a.example' },
+      { key: 'version', change: 'changed', oldValue: '1.0', newValue: '2.0' },
+    ]);
+  });
+});
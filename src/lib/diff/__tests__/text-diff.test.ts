@@ -0,0 +1,88 @@
+/**
+ * Tests for line-based text diffing
+ */
+
+import { diffLines, createHunks, toSideBySide, countChanges, splitLines } from '../text-diff';
+
+describe('text-diff', () => {
+  describe('splitLines', () => {
+    it('should ignore a single trailing newline', () => {
+      expect(splitLines('a\nb\n')).toEqual(['a', 'b']);
+      expect(splitLines('a\r\nb')).toEqual(['a', 'b']);
+      expect(splitLines('')).toEqual([]);
+    });
+  });
+
+  describe('diffLines', () => {
+    it('should report identical texts as equal lines', () => {
+      const lines = diffLines('a\nb\nc', 'a\nb\nc');
+
+      expect(lines.every((line) => line.type === 'equal')).toBe(true);
+      expect(countChanges(lines)).toEqual({ added: 0, removed: 0 });
+    });
+
+    it('should find a minimal diff with line numbers', () => {
+      const lines = diffLines('a\nb\nc\nd', 'a\nc\nd\ne');
+
+      expect(lines).toEqual([
+        { type: 'equal', text: 'a', oldLine: 1, newLine: 1 },
+        { type: 'removed', text: 'b', oldLine: 2 },
+        { type: 'equal', text: 'c', oldLine: 3, newLine: 2 },
+        { type: 'equal', text: 'd', oldLine: 4, newLine: 3 },
+        { type: 'added', text: 'e', newLine: 4 },
+      ]);
+    });
+
+    it('should handle empty old or new text', () => {
+      expect(countChanges(diffLines('', 'a\nb'))).toEqual({ added: 2, removed: 0 });
+      expect(countChanges(diffLines('a\nb', ''))).toEqual({ added: 0, removed: 2 });
+    });
+
+    it('should reconstruct both texts', () => {
+      const oldText = 'one\ntwo\nthree\nfour\nfive\nsix';
+      const newText = 'zero\none\nthree\nfour\nFIVE\nsix\nseven';
+      const lines = diffLines(oldText, newText);
+
+      const rebuiltOld = lines.filter((line) => line.type !== 'added').map((line) => line.text);
+      const rebuiltNew = lines.filter((line) => line.type !== 'removed').map((line) => line.text);
+      expect(rebuiltOld.join('\n')).toBe(oldText);
+      expect(rebuiltNew.join('\n')).toBe(newText);
+      expect(countChanges(lines)).toEqual({ added: 3, removed: 2 });
+    });
+
+    it('should fall back to a full replacement past the edit limit', () => {
+      const lines = diffLines('a\nb\nc', 'x\ny\nz', { maxEditDistance: 1 });
+
+      expect(lines.map((line) => line.type)).toEqual(['removed', 'removed', 'removed', 'added', 'added', 'added']);
+    });
+  });
+
+  describe('createHunks', () => {
+    it('should group changes with context and merge nearby hunks', () => {
+      const oldText = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n');
+      const newText = oldText.replace('line 2\n', 'line two\n').replace('line 4\n', 'line four\n').replace('line 18', 'line eighteen');
+      const hunks = createHunks(diffLines(oldText, newText), 2);
+
+      expect(hunks).toHaveLength(2);
+      expect(hunks[0]).toMatchObject({ oldStart: 1, oldLines: 6, newStart: 1, newLines: 6 });
+      expect(hunks[1]).toMatchObject({ oldStart: 16, oldLines: 5, newStart: 16, newLines: 5 });
+    });
+
+    it('should return no hunks for identical texts', () => {
+      expect(createHunks(diffLines('a\nb', 'a\nb'))).toEqual([]);
+    });
+  });
+
+  describe('toSideBySide', () => {
+    it('should pair removed and added runs row by row', () => {
+      const rows = toSideBySide(diffLines('a\nb\nc', 'a\nB\nC\nD'));
+
+      expect(rows).toHaveLength(4);
+      expect(rows[0].left?.text).toBe('a');
+      expect(rows[1]).toMatchObject({ left: { text: 'b' }, right: { text: 'B' } });
+      expect(rows[2]).toMatchObject({ left: { text: 'c' }, right: { text: 'C' } });
+      expect(rows[3].left).toBeUndefined();
+      expect(rows[3].right?.text).toBe('D');
+    });
+  });
+});
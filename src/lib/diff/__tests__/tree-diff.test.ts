@@ -0,0 +1,60 @@
+/**
+ * Tests for file tree comparison
+ */
+
+import { buildFileTree } from '../../zip/file-tree';
+import type { ZipFileEntry } from '../../zip/extractor';
+import { diffFileTrees, bytesEqual, pruneUnchanged } from '../tree-diff';
+
+function entries(files: Record<string, number>): ZipFileEntry[] {
+  return Object.entries(files).map(([name, size]) => ({
+    name,
+    dir: false,
+    size,
+    compressedSize: size,
+    date: new Date(0),
+  }));
+}
+
+describe('tree-diff', () => {
+  const oldTree = buildFileTree(entries({ 'manifest.json': 100, 'js/a.js': 10, 'js/b.js': 20, 'old/x.js': 5 }));
+  const newTree = buildFileTree(entries({ 'manifest.json': 100, 'js/a.js': 12, 'js/b.js': 20, 'new/y.js': 7 }));
+
+  it('should classify files as added, removed, modified and unchanged', () => {
+    const diff = diffFileTrees(oldTree, newTree, (path) => path !== 'manifest.json');
+
+    expect(diff.changes).toEqual([
+      { path: 'js/a.js', status: 'modified', oldSize: 10, newSize: 12 },
+      { path: 'js/b.js', status: 'unchanged', oldSize: 20, newSize: 20 },
+      { path: 'manifest.json', status: 'modified', oldSize: 100, newSize: 100 },
+      { path: 'new/y.js', status: 'added', newSize: 7 },
+      { path: 'old/x.js', status: 'removed', oldSize: 5 },
+    ]);
+    expect(diff.summary).toEqual({ added: 1, removed: 1, modified: 2, unchanged: 1 });
+  });
+
+  it('should derive directory status from contents', () => {
+    const diff = diffFileTrees(oldTree, newTree, () => true);
+    const byName = Object.fromEntries(diff.root.children.map((child) => [child.name, child]));
+
+    expect(diff.root.children.map((child) => child.name)).toEqual(['js', 'new', 'old', 'manifest.json']);
+    expect(byName.js.status).toBe('modified');
+    expect(byName.new.status).toBe('added');
+    expect(byName.old.status).toBe('removed');
+    expect(byName['manifest.json'].status).toBe('unchanged');
+  });
+
+  it('should prune unchanged files', () => {
+    const diff = diffFileTrees(oldTree, newTree, () => true);
+    const pruned = pruneUnchanged(diff.root);
+
+    expect(pruned?.children.map((child) => child.name)).toEqual(['js', 'new', 'old']);
+    expect(pruned?.children[0].children.map((child) => child.name)).toEqual(['a.js']);
+  });
+
+  it('should compare bytes', () => {
+    expect(bytesEqual(new Uint8Array([1, 2]), new Uint8Array([1, 2]))).toBe(true);
+    expect(bytesEqual(new Uint8Array([1, 2]), new Uint8Array([1, 3]))).toBe(false);
+    expect(bytesEqual(new Uint8Array([1]), undefined)).toBe(false);
+  });
+});
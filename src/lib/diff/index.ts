@@ -0,0 +1,12 @@
+/**
+ * Package comparison module exports
+ */
+
+export { diffLines, createHunks, toSideBySide, countChanges, splitLines } from './text-diff';
+export type { DiffLine, DiffLineType, DiffHunk, DiffOptions, SideBySideRow } from './text-diff';
+
+export { diffFileTrees, bytesEqual, pruneUnchanged } from './tree-diff';
+export type { DiffTreeNode, FileChange, FileChangeStatus, TreeDiff } from './tree-diff';
+
+export { diffManifests } from './manifest-diff';
+export type { ManifestDiff, ManifestFieldChange, PermissionChange } from './manifest-diff';
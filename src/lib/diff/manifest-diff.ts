@@ -0,0 +1,130 @@
+/**
+ * Compare two manifest.json files
+ *
+ * Reports permission changes (API permissions, host permissions and
+ * content script match patterns) with their risk classification, plus
+ * changes to every other top-level manifest field.
+ */
+
+import { assessPermissions, classifyHostPattern, toStringArray } from '../analysis/permissions';
+import type { RiskLevel } from '../analysis/permissions';
+
+export interface PermissionChange {
+  permission: string;
+  kind: 'api' | 'host';
+  /** Where the permission is declared */
+  source: 'permissions' | 'optional' | 'content_scripts';
+  change: 'added' | 'removed';
+  risk: RiskLevel;
+  description: string;
+}
+
+export interface ManifestFieldChange {
+  key: string;
+  change: 'added' | 'removed' | 'changed';
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
+export interface ManifestDiff {
+  oldVersion?: string;
+  newVersion?: string;
+  permissions: PermissionChange[];
+  fields: ManifestFieldChange[];
+  /** True when the new manifest adds any medium or high risk permission */
+  riskIncreased: boolean;
+}
+
+// Fields already covered by the permission comparison
+const PERMISSION_FIELDS = new Set([
+  'permissions',
+  'optional_permissions',
+  'host_permissions',
+  'optional_host_permissions',
+]);
+
+/**
+ * Compare two parsed manifests
+ *
+ * @param oldManifest - Original manifest
+ * @param newManifest - Changed manifest
+ * @returns Permission and field changes
+ */
+export function diffManifests(
+  oldManifest: Record<string, unknown>,
+  newManifest: Record<string, unknown>
+): ManifestDiff {
+  const oldPermissions = collectPermissions(oldManifest);
+  const newPermissions = collectPermissions(newManifest);
+  const permissions: PermissionChange[] = [];
+
+  for (const [key, entry] of newPermissions) {
+    if (!oldPermissions.has(key)) {
+      permissions.push({ ...entry, change: 'added' });
+    }
+  }
+  for (const [key, entry] of oldPermissions) {
+    if (!newPermissions.has(key)) {
+      permissions.push({ ...entry, change: 'removed' });
+    }
+  }
+
+  const fields: ManifestFieldChange[] = [];
+  const keys = [...new Set([...Object.keys(oldManifest), ...Object.keys(newManifest)])].sort();
+  for (const key of keys) {
+    if (PERMISSION_FIELDS.has(key)) continue;
+
+    const inOld = key in oldManifest;
+    const inNew = key in newManifest;
+    if (!inOld) {
+      fields.push({ key, change: 'added', newValue: newManifest[key] });
+    } else if (!inNew) {
+      fields.push({ key, change: 'removed', oldValue: oldManifest[key] });
+    } else if (JSON.stringify(oldManifest[key]) !== JSON.stringify(newManifest[key])) {
+      fields.push({ key, change: 'changed', oldValue: oldManifest[key], newValue: newManifest[key] });
+    }
+  }
+
+  return {
+    oldVersion: typeof oldManifest.version === 'string' ? oldManifest.version : undefined,
+    newVersion: typeof newManifest.version === 'string' ? newManifest.version : undefined,
+    permissions,
+    fields,
+    riskIncreased: permissions.some((entry) => entry.change === 'added' && entry.source !== 'optional' && entry.risk !== 'low'),
+  };
+}
+
+/**
+ * Index every permission a manifest grants by source and name
+ */
+function collectPermissions(manifest: Record<string, unknown>): Map<string, Omit<PermissionChange, 'change'>> {
+  const entries = new Map<string, Omit<PermissionChange, 'change'>>();
+
+  for (const assessment of assessPermissions(manifest)) {
+    const source = assessment.optional ? 'optional' : 'permissions';
+    entries.set(`${source}:${assessment.permission}`, {
+      permission: assessment.permission,
+      kind: assessment.kind,
+      source,
+      risk: assessment.risk,
+      description: assessment.description,
+    });
+  }
+
+  const contentScripts = Array.isArray(manifest.content_scripts) ? manifest.content_scripts : [];
+  for (const script of contentScripts) {
+    if (!script || typeof script !== 'object') continue;
+    for (const pattern of toStringArray((script as Record<string, unknown>).matches)) {
+      const { risk, description } = classifyHostPattern(pattern);
+      entries.set(`content_scripts:${pattern}`, {
+        permission: pattern,
+        kind: 'host',
+        source: 'content_scripts',
+        risk,
+        description: `Content script: ${description}`,
+      });
+    }
+  }
+
+  return entries;
+}
@@ -0,0 +1,304 @@
+/**
+ * Line-based text diffing
+ *
+ * Implements Myers' O(ND) difference algorithm over lines, after trimming
+ * the common prefix and suffix. Results can be grouped into unified-diff
+ * hunks or paired into side-by-side rows.
+ */
+
+export type DiffLineType = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  /** 1-based line number in the old text (absent for added lines) */
+  oldLine?: number;
+  /** 1-based line number in the new text (absent for removed lines) */
+  newLine?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface SideBySideRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+export interface DiffOptions {
+  /**
+   * Give up on a minimal diff past this many edits and report the
+   * differing region as fully replaced (bounds time and memory)
+   */
+  maxEditDistance?: number;
+}
+
+const DEFAULT_MAX_EDIT_DISTANCE = 2000;
+const DEFAULT_CONTEXT_LINES = 3;
+
+/**
+ * Split text into lines, ignoring a single trailing newline
+ *
+ * @param text - Text to split
+ * @returns Lines without line terminators
+ */
+export function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Compute a line diff between two texts
+ *
+ * @param oldText - Original text
+ * @param newText - Changed text
+ * @param options - Diff options
+ * @returns Every line of both texts tagged as equal, added or removed
+ */
+export function diffLines(oldText: string, newText: string, options: DiffOptions = {}): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+  const maxEditDistance = options.maxEditDistance ?? DEFAULT_MAX_EDIT_DISTANCE;
+
+  // Trim the common prefix and suffix; most updates only touch a few regions
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < prefix; i++) {
+    result.push({ type: 'equal', text: a[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const ops = myersDiff(middleA, middleB, maxEditDistance) ?? replaceAll(middleA.length, middleB.length);
+
+  let oldLine = prefix;
+  let newLine = prefix;
+  for (const op of ops) {
+    if (op === 'equal') {
+      result.push({ type: 'equal', text: a[oldLine], oldLine: ++oldLine, newLine: ++newLine });
+    } else if (op === 'removed') {
+      result.push({ type: 'removed', text: a[oldLine], oldLine: ++oldLine });
+    } else {
+      result.push({ type: 'added', text: b[newLine], newLine: ++newLine });
+    }
+  }
+
+  for (let i = 0; i < suffix; i++) {
+    result.push({ type: 'equal', text: a[oldLine], oldLine: ++oldLine, newLine: ++newLine });
+  }
+
+  return result;
+}
+
+/**
+ * Group a diff into unified-diff hunks with surrounding context
+ *
+ * @param lines - Output of diffLines
+ * @param context - Number of unchanged lines to keep around each change
+ * @returns Hunks in order; empty when the texts are identical
+ */
+export function createHunks(lines: DiffLine[], context: number = DEFAULT_CONTEXT_LINES): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let start = -1;
+  let end = -1;
+
+  const flush = () => {
+    const hunkLines = lines.slice(start, end);
+    const firstOld = lines.slice(0, start).filter((line) => line.type !== 'added').length;
+    const firstNew = lines.slice(0, start).filter((line) => line.type !== 'removed').length;
+    const oldLines = hunkLines.filter((line) => line.type !== 'added').length;
+    const newLines = hunkLines.filter((line) => line.type !== 'removed').length;
+    hunks.push({
+      oldStart: oldLines === 0 ? firstOld : firstOld + 1,
+      oldLines,
+      newStart: newLines === 0 ? firstNew : firstNew + 1,
+      newLines,
+      lines: hunkLines,
+    });
+  };
+
+  lines.forEach((line, index) => {
+    if (line.type === 'equal') {
+      return;
+    }
+
+    const hunkStart = Math.max(0, index - context);
+    const hunkEnd = Math.min(lines.length, index + context + 1);
+
+    if (start !== -1 && hunkStart <= end) {
+      end = Math.max(end, hunkEnd);
+      return;
+    }
+
+    if (start !== -1) {
+      flush();
+    }
+    start = hunkStart;
+    end = hunkEnd;
+  });
+
+  if (start !== -1) {
+    flush();
+  }
+
+  return hunks;
+}
+
+/**
+ * Pair diff lines into side-by-side rows
+ *
+ * Runs of removed lines followed by added lines are paired row by row so
+ * that edited lines line up.
+ *
+ * @param lines - Output of diffLines (or the lines of one hunk)
+ * @returns Rows with an old (left) and/or new (right) line
+ */
+export function toSideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (line.type === 'equal') {
+      rows.push({ left: line, right: line });
+      index++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].type === 'removed') {
+      removed.push(lines[index++]);
+    }
+    while (index < lines.length && lines[index].type === 'added') {
+      added.push(lines[index++]);
+    }
+
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] });
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Count added and removed lines in a diff
+ *
+ * @param lines - Output of diffLines
+ * @returns Number of added and removed lines
+ */
+export function countChanges(lines: DiffLine[]): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const line of lines) {
+    if (line.type === 'added') added++;
+    else if (line.type === 'removed') removed++;
+  }
+  return { added, removed };
+}
+
+/**
+ * Myers' greedy shortest edit script
+ *
+ * Stores the frontier of every step so the path can be traced back.
+ * Returns null when the edit distance exceeds the limit.
+ */
+function myersDiff(a: string[], b: string[], maxEditDistance: number): DiffLineType[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+
+  if (max === 0) {
+    return [];
+  }
+
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, maxEditDistance); d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        return backtrack(trace, n, m);
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+
+  return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): DiffLineType[] {
+  const ops: DiffLineType[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      ops.push('equal');
+      x--;
+      y--;
+    }
+
+    if (x === previousX) {
+      ops.push('added');
+      y--;
+    } else {
+      ops.push('removed');
+      x--;
+    }
+  }
+
+  while (x > 0 && y > 0) {
+    ops.push('equal');
+    x--;
+    y--;
+  }
+
+  return ops.reverse();
+}
+
+function replaceAll(removed: number, added: number): DiffLineType[] {
+  return [...Array<DiffLineType>(removed).fill('removed'), ...Array<DiffLineType>(added).fill('added')];
+}
@@ -0,0 +1,180 @@
+/**
+ * Align two extension file trees
+ *
+ * Merges the FileTreeNode trees of two packages into a single tree where
+ * every file is tagged as added, removed, modified or unchanged. Directory
+ * status is derived from their contents.
+ */
+
+import type { FileTreeNode } from '../zip/file-tree';
+import { getAllFiles } from '../zip/file-tree';
+
+export type FileChangeStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface FileChange {
+  path: string;
+  status: FileChangeStatus;
+  oldSize?: number;
+  newSize?: number;
+}
+
+export interface DiffTreeNode {
+  name: string;
+  path: string;
+  isDirectory: boolean;
+  status: FileChangeStatus;
+  children: DiffTreeNode[];
+  oldSize?: number;
+  newSize?: number;
+}
+
+export interface TreeDiff {
+  root: DiffTreeNode;
+  /** Every file in either tree, sorted by path */
+  changes: FileChange[];
+  summary: Record<FileChangeStatus, number>;
+}
+
+/**
+ * Compare two file trees
+ *
+ * Files present in both trees are modified when their sizes differ or when
+ * isSameContent reports different contents.
+ *
+ * @param oldTree - Root of the original package's tree
+ * @param newTree - Root of the changed package's tree
+ * @param isSameContent - Content comparison for files present in both trees
+ * @returns Merged diff tree, flat change list and per-status counts
+ */
+export function diffFileTrees(
+  oldTree: FileTreeNode,
+  newTree: FileTreeNode,
+  isSameContent: (path: string) => boolean
+): TreeDiff {
+  const oldFiles = new Map(getAllFiles(oldTree).map((node) => [node.path, node]));
+  const newFiles = new Map(getAllFiles(newTree).map((node) => [node.path, node]));
+  const paths = [...new Set([...oldFiles.keys(), ...newFiles.keys()])].sort();
+
+  const changes: FileChange[] = paths.map((path) => {
+    const oldNode = oldFiles.get(path);
+    const newNode = newFiles.get(path);
+
+    if (!oldNode) {
+      return { path, status: 'added', newSize: newNode?.size };
+    }
+    if (!newNode) {
+      return { path, status: 'removed', oldSize: oldNode.size };
+    }
+
+    const same = oldNode.size === newNode.size && isSameContent(path);
+    return { path, status: same ? 'unchanged' : 'modified', oldSize: oldNode.size, newSize: newNode.size };
+  });
+
+  const summary: Record<FileChangeStatus, number> = { added: 0, removed: 0, modified: 0, unchanged: 0 };
+  for (const change of changes) {
+    summary[change.status]++;
+  }
+
+  return { root: buildDiffTree(changes), changes, summary };
+}
+
+/**
+ * Compare two byte arrays
+ *
+ * @param a - First array
+ * @param b - Second array
+ * @returns True when both are present and hold the same bytes
+ */
+export function bytesEqual(a: Uint8Array | undefined, b: Uint8Array | undefined): boolean {
+  if (!a || !b || a.length !== b.length) {
+    return false;
+  }
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Keep only the changed files of a diff tree, dropping empty directories
+ *
+ * @param node - Diff tree node
+ * @returns Pruned copy, or null when nothing below the node changed
+ */
+export function pruneUnchanged(node: DiffTreeNode): DiffTreeNode | null {
+  if (node.status === 'unchanged') {
+    return null;
+  }
+  if (!node.isDirectory) {
+    return node;
+  }
+
+  const children = node.children
+    .map(pruneUnchanged)
+    .filter((child): child is DiffTreeNode => child !== null);
+
+  return { ...node, children };
+}
+
+function buildDiffTree(changes: FileChange[]): DiffTreeNode {
+  const root: DiffTreeNode = { name: 'root', path: '', isDirectory: true, status: 'unchanged', children: [] };
+  const directories = new Map<string, DiffTreeNode>([['', root]]);
+
+  for (const change of changes) {
+    const parts = change.path.split('/').filter((part) => part.length > 0);
+    let parent = root;
+
+    for (let i = 0; i < parts.length - 1; i++) {
+      const path = parts.slice(0, i + 1).join('/');
+      let directory = directories.get(path);
+      if (!directory) {
+        directory = { name: parts[i], path, isDirectory: true, status: 'unchanged', children: [] };
+        directories.set(path, directory);
+        parent.children.push(directory);
+      }
+      parent = directory;
+    }
+
+    parent.children.push({
+      name: parts[parts.length - 1],
+      path: change.path,
+      isDirectory: false,
+      status: change.status,
+      children: [],
+      oldSize: change.oldSize,
+      newSize: change.newSize,
+    });
+  }
+
+  resolveDirectoryStatus(root);
+  return root;
+}
+
+/**
+ * Sort children (directories first) and derive directory status bottom-up
+ */
+function resolveDirectoryStatus(node: DiffTreeNode): FileChangeStatus {
+  if (!node.isDirectory) {
+    return node.status;
+  }
+
+  node.children.sort((a, b) => {
+    if (a.isDirectory !== b.isDirectory) {
+      return a.isDirectory ? -1 : 1;
+    }
+    return a.name.localeCompare(b.name);
+  });
+
+  // A directory is added/removed/unchanged only when all of its contents are; otherwise modified
+  const statuses = new Set(node.children.map(resolveDirectoryStatus));
+  if (statuses.size === 0) {
+    node.status = 'unchanged';
+  } else if (statuses.size === 1) {
+    node.status = [...statuses][0];
+  } else {
+    node.status = 'modified';
+  }
+  return node.status;
+}
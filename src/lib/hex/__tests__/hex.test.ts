@@ -0,0 +1,89 @@
+/**
+ * Tests for hex dump helpers and embedded signature detection
+ */
+
+import { findPattern, formatByteRange, formatOffset, parseBytePattern, parseOffset } from '../hex-dump';
+import { detectEmbeddedSignatures } from '../signatures';
+
+function bytes(...values: (number | string)[]): Uint8Array {
+  return new Uint8Array(
+    values.flatMap((value) => (typeof value === 'string' ? Array.from(new TextEncoder().encode(value)) : [value]))
+  );
+}
+
+describe('hex-dump', () => {
+  it('should parse hex and decimal offsets', () => {
+    expect(parseOffset('0x1F')).toBe(31);
+    expect(parseOffset('1fh')).toBe(31);
+    expect(parseOffset('$10')).toBe(16);
+    expect(parseOffset(' 42 ')).toBe(42);
+    expect(parseOffset('1f')).toBeNull();
+    expect(parseOffset('')).toBeNull();
+  });
+
+  it('should format offsets wide enough for the file', () => {
+    expect(formatOffset(0x1f, 100)).toBe('0000001F');
+    expect(formatOffset(0x10, 0x1_0000_0001)).toBe('000000010');
+  });
+
+  it('should parse byte patterns with wildcards and text', () => {
+    expect(parseBytePattern('50 4B ?? 04')).toEqual({ success: true, pattern: [0x50, 0x4b, null, 0x04] });
+    expect(parseBytePattern('504b0304')).toEqual({ success: true, pattern: [0x50, 0x4b, 0x03, 0x04] });
+    expect(parseBytePattern('"PK" 0x03 04')).toEqual({ success: true, pattern: [0x50, 0x4b, 0x03, 0x04] });
+    expect(parseBytePattern('"a b"')).toEqual({ success: true, pattern: [0x61, 0x20, 0x62] });
+
+    expect(parseBytePattern('5')).toEqual({ success: false, error: 'Invalid byte "5": use hex pairs, ?? or "text"' });
+    expect(parseBytePattern('"open')).toEqual({ success: false, error: 'Unterminated text in pattern' });
+    expect(parseBytePattern('?? ??')).toEqual({ success: false, error: 'Pattern needs at least one byte that is not ??' });
+    expect(parseBytePattern('  ')).toEqual({ success: false, error: 'Pattern is empty' });
+  });
+
+  it('should find patterns from an offset and wrap around', () => {
+    const data = bytes('abcabc');
+
+    expect(findPattern(data, [0x62, 0x63])).toBe(1);
+    expect(findPattern(data, [0x62, 0x63], 2)).toBe(4);
+    expect(findPattern(data, [0x62, 0x63], 5)).toBe(1);
+    expect(findPattern(data, [0x61, null, 0x63], 1)).toBe(3);
+    expect(findPattern(data, [0x78])).toBe(-1);
+    expect(findPattern(bytes('a'), [0x61, 0x62])).toBe(-1);
+  });
+
+  it('should format selections as hex or text', () => {
+    const data = bytes('Hi', 0x00, 0xff);
+
+    expect(formatByteRange(data, 0, 3, 'hex')).toBe('48 69 00 FF');
+    expect(formatByteRange(data, 3, 0, 'ascii')).toBe('Hi..');
+  });
+});
+
+describe('signatures', () => {
+  it('should find files embedded after the start', () => {
+    const png = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+    const zip = [0x50, 0x4b, 0x03, 0x04, 0x14, 0x00, ...new Array(24).fill(0)];
+    const elf = [0x7f, 0x45, 0x4c, 0x46, 0x02];
+    const wasm = [0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00];
+    const data = bytes(...png, 'IDAT....', ...zip, ...elf, ...wasm);
+
+    expect(detectEmbeddedSignatures(data).map(({ offset, format, label }) => [offset, format, label])).toEqual([
+      [0, 'png', 'PNG image'],
+      [16, 'zip', 'ZIP archive (local file header)'],
+      [46, 'elf', 'ELF executable (64-bit)'],
+      [51, 'wasm', 'WebAssembly module'],
+    ]);
+  });
+
+  it('should only report MZ headers that lead to a PE header', () => {
+    const dos = new Uint8Array(0x84);
+    dos.set([0x4d, 0x5a], 0);
+    dos[0x3c] = 0x80;
+    dos.set([0x50, 0x45, 0x00, 0x00], 0x80);
+
+    expect(detectEmbeddedSignatures(dos)).toEqual([{ offset: 0, format: 'pe', label: 'PE executable (Windows)', length: 2 }]);
+    expect(detectEmbeddedSignatures(bytes('MZ is just text', ...new Array(64).fill(0x20)))).toEqual([]);
+  });
+
+  it('should ignore magic numbers with implausible headers', () => {
+    expect(detectEmbeddedSignatures(bytes(0x7f, 'ELF', 0x09, 0x00, 'asm', 0x02))).toEqual([]);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Hex dump helpers
+ *
+ * Row formatting, offset parsing, byte-pattern search and clipboard text
+ * for the hex viewer. Everything works on the raw bytes; nothing here
+ * knows about rendering.
+ */
+
+/**
+ * Bytes shown per row of the dump
+ */
+export const BYTES_PER_ROW = 16;
+
+/**
+ * A search pattern: bytes to match, with null matching any byte
+ */
+export type BytePattern = (number | null)[];
+
+type PatternParseResult = { success: true; pattern: BytePattern } | { success: false; error: string };
+
+/**
+ * Format a byte as two uppercase hex digits
+ */
+export function toHex(byte: number): string {
+  return byte.toString(16).toUpperCase().padStart(2, '0');
+}
+
+/**
+ * Printable ASCII for a byte, or a dot
+ */
+export function toAscii(byte: number): string {
+  return byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.';
+}
+
+/**
+ * Format an offset as zero-padded hex, wide enough for the whole file
+ *
+ * @param offset - Byte offset
+ * @param size - File size, which decides the width (at least 8 digits)
+ */
+export function formatOffset(offset: number, size: number): string {
+  const width = Math.max(8, Math.max(0, size - 1).toString(16).length);
+  return offset.toString(16).toUpperCase().padStart(width, '0');
+}
+
+/**
+ * Parse an offset typed by the user
+ *
+ * Accepts `0x1F`, `1Fh` and `$1F` as hex and plain digits as decimal.
+ *
+ * @returns The offset, or null when the input is not a number
+ */
+export function parseOffset(input: string): number | null {
+  const value = input.trim().replace(/_/g, '');
+  const hex = /^(?:0x|\$)([0-9a-f]+)$/i.exec(value) ?? /^([0-9a-f]+)h$/i.exec(value);
+  if (hex) {
+    return parseInt(hex[1], 16);
+  }
+  return /^\d+$/.test(value) ? parseInt(value, 10) : null;
+}
+
+/**
+ * Parse a byte pattern typed by the user
+ *
+ * Hex bytes may be separated by spaces or written together (`50 4B 03 04`,
+ * `504b0304`), with `??` matching any byte. Text in double quotes matches
+ * its UTF-8 bytes, and can be mixed with hex: `"PK" 03 04`.
+ *
+ * @returns Result object with success flag and either the pattern or error message
+ */
+export function parseBytePattern(input: string): PatternParseResult {
+  const pattern: BytePattern = [];
+  const tokens = input.trim().match(/"(?:[^"\\]|\\.)*"|\S+/g) ?? [];
+
+  for (const token of tokens) {
+    if (token.startsWith('"')) {
+      if (token.length < 2 || !token.endsWith('"')) {
+        return { success: false, error: 'Unterminated text in pattern' };
+      }
+      const text = token.slice(1, -1).replace(/\\(.)/g, '$1');
+      pattern.push(...new TextEncoder().encode(text));
+      continue;
+    }
+
+    const hex = token.replace(/^0x/i, '');
+    if (!/^(?:[0-9a-f]{2}|\?\?)+$/i.test(hex)) {
+      return { success: false, error: `Invalid byte "${token}": use hex pairs, ?? or "text"` };
+    }
+    for (const pair of hex.match(/../g) ?? []) {
+      pattern.push(pair === '??' ? null : parseInt(pair, 16));
+    }
+  }
+
+  if (pattern.length === 0) {
+    return { success: false, error: 'Pattern is empty' };
+  }
+  if (pattern.every((byte) => byte === null)) {
+    return { success: false, error: 'Pattern needs at least one byte that is not ??' };
+  }
+  return { success: true, pattern };
+}
+
+/**
+ * Check whether the pattern matches at an offset
+ */
+export function matchesAt(data: Uint8Array, pattern: BytePattern, offset: number): boolean {
+  if (offset < 0 || offset + pattern.length > data.length) {
+    return false;
+  }
+  return pattern.every((byte, i) => byte === null || data[offset + i] === byte);
+}
+
+/**
+ * Find the next match of a pattern, wrapping around to the start
+ *
+ * @param data - Bytes to search
+ * @param pattern - Pattern to find
+ * @param from - Offset to start searching at
+ * @returns Offset of the match, or -1
+ */
+export function findPattern(data: Uint8Array, pattern: BytePattern, from = 0): number {
+  const last = data.length - pattern.length;
+  if (last < 0) {
+    return -1;
+  }
+
+  const start = Math.min(Math.max(0, from), last + 1);
+  for (let offset = start; offset <= last; offset++) {
+    if (matchesAt(data, pattern, offset)) {
+      return offset;
+    }
+  }
+  for (let offset = 0; offset < start; offset++) {
+    if (matchesAt(data, pattern, offset)) {
+      return offset;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Format a byte range for the clipboard
+ *
+ * @param data - File bytes
+ * @param start - First byte, inclusive
+ * @param end - Last byte, inclusive
+ * @param format - Space-separated hex pairs, or text with unprintable bytes as dots
+ */
+export function formatByteRange(data: Uint8Array, start: number, end: number, format: 'hex' | 'ascii'): string {
+  const bytes = Array.from(data.subarray(Math.min(start, end), Math.max(start, end) + 1));
+  return format === 'hex' ? bytes.map(toHex).join(' ') : bytes.map(toAscii).join('');
+}
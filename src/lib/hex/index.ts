@@ -0,0 +1,19 @@
+/**
+ * Hex dump module exports
+ */
+
+export {
+  BYTES_PER_ROW,
+  toHex,
+  toAscii,
+  formatOffset,
+  parseOffset,
+  parseBytePattern,
+  matchesAt,
+  findPattern,
+  formatByteRange,
+} from './hex-dump';
+export type { BytePattern } from './hex-dump';
+
+export { detectEmbeddedSignatures, MAX_SIGNATURES } from './signatures';
+export type { EmbeddedSignature, SignatureFormat } from './signatures';
@@ -0,0 +1,115 @@
+/**
+ * Embedded file signature detection
+ *
+ * Scans bytes for the magic numbers of formats that matter when a file is
+ * hiding something: archives, executables and WebAssembly inside what
+ * claims to be an image or a font. Short or common magics are checked
+ * against a second header field so random data rarely matches.
+ */
+
+/**
+ * Formats the scanner recognizes
+ */
+export type SignatureFormat = 'zip' | 'png' | 'elf' | 'pe' | 'wasm';
+
+export interface EmbeddedSignature {
+  /** Offset of the magic number */
+  offset: number;
+  format: SignatureFormat;
+  /** Human-readable description, e.g. "ELF executable (64-bit)" */
+  label: string;
+  /** Length of the matched magic number */
+  length: number;
+}
+
+interface SignatureRule {
+  format: SignatureFormat;
+  magic: number[];
+  /** Further header checks; returns the label, or null when the match is spurious */
+  verify: (data: Uint8Array, offset: number) => string | null;
+}
+
+/**
+ * Most signatures reported per file; a scan stops after this many
+ */
+export const MAX_SIGNATURES = 200;
+
+// How far after an MZ header the PE header may start
+const MAX_PE_HEADER_OFFSET = 0x1000;
+
+const SIGNATURE_RULES: SignatureRule[] = [
+  {
+    format: 'zip',
+    magic: [0x50, 0x4b, 0x03, 0x04],
+    verify: (data, offset) => {
+      // Version needed to extract is small; random "PK\3\4" rarely has it
+      const version = data[offset + 4] | (data[offset + 5] << 8);
+      return offset + 30 <= data.length && version <= 63 ? 'ZIP archive (local file header)' : null;
+    },
+  },
+  {
+    format: 'png',
+    magic: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+    verify: () => 'PNG image',
+  },
+  {
+    format: 'elf',
+    magic: [0x7f, 0x45, 0x4c, 0x46],
+    verify: (data, offset) => {
+      const bits = data[offset + 4];
+      return bits === 1 || bits === 2 ? `ELF executable (${bits === 1 ? 32 : 64}-bit)` : null;
+    },
+  },
+  {
+    format: 'pe',
+    magic: [0x4d, 0x5a],
+    verify: (data, offset) => {
+      if (offset + 0x40 > data.length) {
+        return null;
+      }
+      const headerOffset = new DataView(data.buffer, data.byteOffset + offset + 0x3c, 4).getUint32(0, true);
+      const header = offset + headerOffset;
+      if (headerOffset < 0x40 || headerOffset > MAX_PE_HEADER_OFFSET || header + 4 > data.length) {
+        return null;
+      }
+      const isPe = data[header] === 0x50 && data[header + 1] === 0x45 && data[header + 2] === 0 && data[header + 3] === 0;
+      return isPe ? 'PE executable (Windows)' : null;
+    },
+  },
+  {
+    format: 'wasm',
+    magic: [0x00, 0x61, 0x73, 0x6d],
+    verify: (data, offset) =>
+      data[offset + 4] === 1 && data[offset + 5] === 0 && data[offset + 6] === 0 && data[offset + 7] === 0
+        ? 'WebAssembly module'
+        : null,
+  },
+];
+
+/**
+ * Find the magic numbers of embedded files
+ *
+ * @param data - Bytes to scan
+ * @returns Signatures in offset order, at most MAX_SIGNATURES
+ */
+export function detectEmbeddedSignatures(data: Uint8Array): EmbeddedSignature[] {
+  const signatures: EmbeddedSignature[] = [];
+
+  for (let offset = 0; offset < data.length && signatures.length < MAX_SIGNATURES; offset++) {
+    const byte = data[offset];
+    for (const rule of SIGNATURE_RULES) {
+      if (byte !== rule.magic[0] || offset + rule.magic.length > data.length) {
+        continue;
+      }
+      if (!rule.magic.every((expected, i) => data[offset + i] === expected)) {
+        continue;
+      }
+      const label = rule.verify(data, offset);
+      if (label) {
+        signatures.push({ offset, format: rule.format, label, length: rule.magic.length });
+      }
+    }
+  }
+
+  return signatures;
+}
@@ -0,0 +1,48 @@
+/**
+ * Tests for the local extension library
+ */
+
+import { isLibraryAvailable, listLibraryEntries, normalizeTags, sortEntries } from '../library-db';
+import type { LibraryEntry } from '../library-db';
+
+function entry(id: string, lastOpenedAt: string): LibraryEntry {
+  return {
+    id,
+    extensionId: 'a'.repeat(32),
+    fileName: `${id}.crx`,
+    size: 1,
+    source: 'upload',
+    tags: [],
+    notes: '',
+    addedAt: '2024-01-01T00:00:00.000Z',
+    lastOpenedAt,
+  };
+}
+
+describe('library-db', () => {
+  it('should trim, lower-case and de-duplicate tags', () => {
+    expect(normalizeTags([' Reviewed', 'ads ', '', 'reviewed', 'ADS', '  '])).toEqual(['reviewed', 'ads']);
+  });
+
+  it('should sort entries by most recently opened', () => {
+    const sorted = sortEntries([
+      entry('old', '2024-01-01T00:00:00.000Z'),
+      entry('new', '2024-03-01T00:00:00.000Z'),
+      entry('mid', '2024-02-01T00:00:00.000Z'),
+    ]);
+
+    expect(sorted.map((item) => item.id)).toEqual(['new', 'mid', 'old']);
+  });
+
+  it('should return an error result when IndexedDB is unavailable', async () => {
+    if (isLibraryAvailable()) {
+      return;
+    }
+
+    const result = await listLibraryEntries();
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain('IndexedDB');
+    }
+  });
+});
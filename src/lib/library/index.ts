@@ -0,0 +1,22 @@
+/**
+ * Local extension library module exports
+ */
+
+export {
+  saveToLibrary,
+  listLibraryEntries,
+  findLibraryEntry,
+  findLibraryVersion,
+  openLibraryEntry,
+  updateLibraryEntry,
+  deleteLibraryEntry,
+  getAnnotationSet,
+  saveAnnotationSet,
+  getVersionIndex,
+  addToVersionIndex,
+  getEntryStore,
+  isLibraryAvailable,
+  normalizeTags,
+  sortEntries,
+} from './library-db';
+export type { LibraryEntry, LibraryEntryUpdate, LibraryPackageInput, LibraryResult, LibrarySource, VersionIndex } from './library-db';
@@ -0,0 +1,449 @@
+/**
+ * Local library of analyzed extensions backed by IndexedDB
+ *
+ * Keeps every loaded CRX package with its metadata, SHA-256 hash, tags and
+ * notes so packages survive reloads and can be reopened without
+ * downloading them again. Metadata and package bytes live in separate
+ * object stores so listing the library never loads package data.
+ *
+ * Entries are keyed by the package's SHA-256 hash; loading the same bytes
+ * again updates the existing entry. Review annotations are kept in their own
+ * object store, keyed by extension ID and version rather than by package.
+ * A per-extension version index records every version seen in the library
+ * or listed by the version archive.
+ */
+
+import { calculateSHA256 } from '../utils/hash';
+import type { ExtensionStore } from '../crx/url-patterns';
+import type { AnnotationSet } from '../annotations/annotations';
+import { isValidVersion, sortVersions } from '../crx/archive';
+
+export type LibrarySource = 'webstore' | 'upload' | 'archive';
+
+export interface LibraryEntry {
+  /** SHA-256 of the CRX bytes */
+  id: string;
+  extensionId: string;
+  fileName: string;
+  name?: string;
+  version?: string;
+  size: number;
+  source: LibrarySource;
+  /** Store a downloaded package came from; absent for uploads */
+  store?: ExtensionStore;
+  tags: string[];
+  notes: string;
+  addedAt: string;
+  lastOpenedAt: string;
+}
+
+export interface LibraryPackageInput {
+  extensionId: string;
+  fileName: string;
+  crxData: ArrayBuffer;
+  source: LibrarySource;
+  store?: ExtensionStore;
+  name?: string;
+  version?: string;
+}
+
+/**
+ * Known versions of an extension
+ */
+export interface VersionIndex {
+  extensionId: string;
+  /** Versions, newest first */
+  versions: string[];
+  updatedAt: string;
+}
+
+export type LibraryEntryUpdate = Partial<Pick<LibraryEntry, 'tags' | 'notes'>>;
+
+interface LibrarySuccess<T> {
+  success: true;
+  value: T;
+}
+
+interface LibraryError {
+  success: false;
+  error: string;
+}
+
+export type LibraryResult<T> = LibrarySuccess<T> | LibraryError;
+
+const DB_NAME = 'crxreview-library';
+const DB_VERSION = 3;
+const ENTRIES_STORE = 'entries';
+const PACKAGES_STORE = 'packages';
+const ANNOTATIONS_STORE = 'annotations';
+const VERSIONS_STORE = 'versions';
+const EXTENSION_ID_INDEX = 'extensionId';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Check whether IndexedDB is usable in this environment
+ *
+ * @returns True when the library can be used
+ */
+export function isLibraryAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Add a package to the library, or refresh the entry if the same bytes are already stored
+ *
+ * @param input - Package bytes and metadata
+ * @returns Result object with the stored entry
+ */
+export async function saveToLibrary(input: LibraryPackageInput): Promise<LibraryResult<LibraryEntry>> {
+  return runLibraryOperation('save package', async () => {
+    const { hash } = await calculateSHA256(new Uint8Array(input.crxData));
+    const db = await openDatabase();
+    const now = new Date().toISOString();
+
+    const existing = await requestToPromise<LibraryEntry | undefined>(
+      db.transaction(ENTRIES_STORE, 'readonly').objectStore(ENTRIES_STORE).get(hash)
+    );
+
+    const entry: LibraryEntry = existing
+      ? {
+          ...existing,
+          name: input.name ?? existing.name,
+          version: input.version ?? existing.version,
+          lastOpenedAt: now,
+        }
+      : {
+          id: hash,
+          extensionId: input.extensionId,
+          fileName: input.fileName,
+          name: input.name,
+          version: input.version,
+          size: input.crxData.byteLength,
+          source: input.source,
+          store: input.store,
+          tags: [],
+          notes: '',
+          addedAt: now,
+          lastOpenedAt: now,
+        };
+
+    const transaction = db.transaction([ENTRIES_STORE, PACKAGES_STORE], 'readwrite');
+    transaction.objectStore(ENTRIES_STORE).put(entry);
+    if (!existing) {
+      transaction.objectStore(PACKAGES_STORE).put(input.crxData, hash);
+    }
+    await transactionToPromise(transaction);
+
+    return entry;
+  });
+}
+
+/**
+ * List library entries, most recently opened first
+ *
+ * @returns Result object with all entries
+ */
+export async function listLibraryEntries(): Promise<LibraryResult<LibraryEntry[]>> {
+  return runLibraryOperation('list entries', async () => {
+    const db = await openDatabase();
+    const entries = await requestToPromise<LibraryEntry[]>(
+      db.transaction(ENTRIES_STORE, 'readonly').objectStore(ENTRIES_STORE).getAll()
+    );
+    return sortEntries(entries);
+  });
+}
+
+/**
+ * Find the most recently opened entry for an extension ID
+ *
+ * @param extensionId - Extension ID to look up
+ * @returns Result object with the entry, or null when the extension is not in the library
+ */
+export async function findLibraryEntry(extensionId: string): Promise<LibraryResult<LibraryEntry | null>> {
+  return runLibraryOperation('look up extension', async () => {
+    const db = await openDatabase();
+    const entries = await requestToPromise<LibraryEntry[]>(
+      db
+        .transaction(ENTRIES_STORE, 'readonly')
+        .objectStore(ENTRIES_STORE)
+        .index(EXTENSION_ID_INDEX)
+        .getAll(extensionId)
+    );
+    return sortEntries(entries)[0] ?? null;
+  });
+}
+
+/**
+ * Find the most recently opened entry for a specific version of an extension
+ *
+ * @param extensionId - Extension ID to look up
+ * @param version - Extension version
+ * @returns Result object with the entry, or null when that version is not in the library
+ */
+export async function findLibraryVersion(
+  extensionId: string,
+  version: string
+): Promise<LibraryResult<LibraryEntry | null>> {
+  return runLibraryOperation('look up version', async () => {
+    const db = await openDatabase();
+    const entries = await requestToPromise<LibraryEntry[]>(
+      db
+        .transaction(ENTRIES_STORE, 'readonly')
+        .objectStore(ENTRIES_STORE)
+        .index(EXTENSION_ID_INDEX)
+        .getAll(extensionId)
+    );
+    return sortEntries(entries.filter((entry) => entry.version === version))[0] ?? null;
+  });
+}
+
+/**
+ * Load a stored package and mark the entry as opened
+ *
+ * @param id - Entry ID (SHA-256 of the package)
+ * @returns Result object with the entry and its CRX bytes
+ */
+export async function openLibraryEntry(
+  id: string
+): Promise<LibraryResult<{ entry: LibraryEntry; crxData: ArrayBuffer }>> {
+  return runLibraryOperation('open entry', async () => {
+    const db = await openDatabase();
+    const transaction = db.transaction([ENTRIES_STORE, PACKAGES_STORE], 'readwrite');
+    const entries = transaction.objectStore(ENTRIES_STORE);
+
+    const [entry, crxData] = await Promise.all([
+      requestToPromise<LibraryEntry | undefined>(entries.get(id)),
+      requestToPromise<ArrayBuffer | undefined>(transaction.objectStore(PACKAGES_STORE).get(id)),
+    ]);
+
+    if (!entry || !crxData) {
+      throw new Error(`Library entry not found: ${id}`);
+    }
+
+    const opened = { ...entry, lastOpenedAt: new Date().toISOString() };
+    entries.put(opened);
+    await transactionToPromise(transaction);
+
+    return { entry: opened, crxData };
+  });
+}
+
+/**
+ * Update the tags or notes of an entry
+ *
+ * @param id - Entry ID
+ * @param update - Fields to change; tags are trimmed and de-duplicated
+ * @returns Result object with the updated entry
+ */
+export async function updateLibraryEntry(id: string, update: LibraryEntryUpdate): Promise<LibraryResult<LibraryEntry>> {
+  return runLibraryOperation('update entry', async () => {
+    const db = await openDatabase();
+    const transaction = db.transaction(ENTRIES_STORE, 'readwrite');
+    const store = transaction.objectStore(ENTRIES_STORE);
+
+    const entry = await requestToPromise<LibraryEntry | undefined>(store.get(id));
+    if (!entry) {
+      throw new Error(`Library entry not found: ${id}`);
+    }
+
+    const updated: LibraryEntry = {
+      ...entry,
+      tags: update.tags ? normalizeTags(update.tags) : entry.tags,
+      notes: update.notes ?? entry.notes,
+    };
+    store.put(updated);
+    await transactionToPromise(transaction);
+
+    return updated;
+  });
+}
+
+/**
+ * Remove an entry and its stored package
+ *
+ * @param id - Entry ID
+ * @returns Result object
+ */
+export async function deleteLibraryEntry(id: string): Promise<LibraryResult<void>> {
+  return runLibraryOperation('delete entry', async () => {
+    const db = await openDatabase();
+    const transaction = db.transaction([ENTRIES_STORE, PACKAGES_STORE], 'readwrite');
+    transaction.objectStore(ENTRIES_STORE).delete(id);
+    transaction.objectStore(PACKAGES_STORE).delete(id);
+    await transactionToPromise(transaction);
+  });
+}
+
+/**
+ * Load the annotations of an extension version
+ *
+ * @param key - Annotation key (`extensionId@version`)
+ * @returns Result object with the annotation set, or null when there is none
+ */
+export async function getAnnotationSet(key: string): Promise<LibraryResult<AnnotationSet | null>> {
+  return runLibraryOperation('load annotations', async () => {
+    const db = await openDatabase();
+    const set = await requestToPromise<AnnotationSet | undefined>(
+      db.transaction(ANNOTATIONS_STORE, 'readonly').objectStore(ANNOTATIONS_STORE).get(key)
+    );
+    return set ?? null;
+  });
+}
+
+/**
+ * Store the annotations of an extension version, replacing any stored set
+ *
+ * @param set - Annotation set
+ * @returns Result object
+ */
+export async function saveAnnotationSet(set: AnnotationSet): Promise<LibraryResult<void>> {
+  return runLibraryOperation('save annotations', async () => {
+    const db = await openDatabase();
+    const transaction = db.transaction(ANNOTATIONS_STORE, 'readwrite');
+    transaction.objectStore(ANNOTATIONS_STORE).put(set);
+    await transactionToPromise(transaction);
+  });
+}
+
+/**
+ * Load the version index of an extension
+ *
+ * @param extensionId - Extension ID
+ * @returns Result object with the index, or null when no version is known
+ */
+export async function getVersionIndex(extensionId: string): Promise<LibraryResult<VersionIndex | null>> {
+  return runLibraryOperation('load version index', async () => {
+    const db = await openDatabase();
+    const index = await requestToPromise<VersionIndex | undefined>(
+      db.transaction(VERSIONS_STORE, 'readonly').objectStore(VERSIONS_STORE).get(extensionId)
+    );
+    return index ?? null;
+  });
+}
+
+/**
+ * Add versions to the version index of an extension
+ *
+ * @param extensionId - Extension ID
+ * @param versions - Versions to record; invalid versions are ignored
+ * @returns Result object with the updated index
+ */
+export async function addToVersionIndex(
+  extensionId: string,
+  versions: string[]
+): Promise<LibraryResult<VersionIndex>> {
+  return runLibraryOperation('update version index', async () => {
+    const db = await openDatabase();
+    const transaction = db.transaction(VERSIONS_STORE, 'readwrite');
+    const store = transaction.objectStore(VERSIONS_STORE);
+
+    const existing = await requestToPromise<VersionIndex | undefined>(store.get(extensionId));
+    const index: VersionIndex = {
+      extensionId,
+      versions: sortVersions([...(existing?.versions ?? []), ...versions.filter(isValidVersion)]),
+      updatedAt: new Date().toISOString(),
+    };
+    store.put(index);
+    await transactionToPromise(transaction);
+
+    return index;
+  });
+}
+
+/**
+ * Get the store a library entry was downloaded from
+ *
+ * Web Store entries saved without a store came from the Chrome Web Store.
+ *
+ * @param entry - Library entry
+ * @returns Store, or null for uploaded and archived packages
+ */
+export function getEntryStore(entry: LibraryEntry): ExtensionStore | null {
+  if (entry.source !== 'webstore') {
+    return null;
+  }
+  return entry.store ?? 'chrome';
+}
+
+/**
+ * Clean up user-entered tags
+ *
+ * @param tags - Raw tags
+ * @returns Trimmed, lower-cased, unique, non-empty tags in input order
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags.map((tag) => tag.trim().toLowerCase()).filter((tag) => tag.length > 0);
+  return [...new Set(normalized)];
+}
+
+/**
+ * Order entries by most recently opened
+ *
+ * @param entries - Library entries
+ * @returns New array sorted newest first
+ */
+export function sortEntries(entries: LibraryEntry[]): LibraryEntry[] {
+  return [...entries].sort((a, b) => b.lastOpenedAt.localeCompare(a.lastOpenedAt));
+}
+
+/**
+ * Wrap a library operation in a result object
+ */
+async function runLibraryOperation<T>(action: string, operation: () => Promise<T>): Promise<LibraryResult<T>> {
+  if (!isLibraryAvailable()) {
+    return { success: false, error: 'Library unavailable: IndexedDB is not supported in this browser' };
+  }
+
+  try {
+    return { success: true, value: await operation() };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Failed to ${action}: ${message}` };
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+          entries.createIndex(EXTENSION_ID_INDEX, 'extensionId');
+          db.createObjectStore(PACKAGES_STORE);
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(ANNOTATIONS_STORE, { keyPath: 'key' });
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore(VERSIONS_STORE, { keyPath: 'extensionId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open library database'));
+    }).catch((error) => {
+      // Allow a later call to retry
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+function requestToPromise<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
@@ -0,0 +1,90 @@
+/**
+ * Tests for the content script injection simulator
+ */
+
+import { simulateInjection } from '../content-script-simulator';
+import type { InjectionTarget } from '../content-script-simulator';
+import { buildManifestView } from '../manifest-view';
+
+const manifest = {
+  manifest_version: 3,
+  name: 'Example',
+  version: '1.0',
+  host_permissions: ['https://*.example.com/*'],
+  optional_host_permissions: ['<all_urls>', 'https://other.org/*'],
+  content_scripts: [
+    { matches: ['https://*.example.com/*'], js: ['idle.js'], css: ['page.css'] },
+    { matches: ['<all_urls>'], exclude_matches: ['*://*/admin/*'], js: ['start.js'], run_at: 'document_start', all_frames: true },
+    { matches: ['https://*/*'], include_globs: ['*/news/*'], exclude_globs: ['*draft*'], js: ['main.js'], world: 'MAIN', run_at: 'document_end' },
+    { matches: ['https://example.com/*'], js: ['blank.js'], all_frames: true, match_about_blank: true },
+    { matches: ['https://example.com/*'], js: ['fallback.js'], all_frames: true, match_origin_as_fallback: true },
+    { matches: ['not a pattern'], js: ['never.js'] },
+  ],
+};
+
+const scripts = buildManifestView(manifest, null).contentScripts;
+
+function simulate(target: InjectionTarget) {
+  const result = simulateInjection(scripts, manifest, target);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.simulation;
+}
+
+describe('content-script-simulator', () => {
+  it('should list injected files in run_at and manifest order', () => {
+    const simulation = simulate({ url: 'https://www.example.com/news/today', frame: 'top' });
+
+    expect(simulation.decisions.map((decision) => decision.injected)).toEqual([true, true, true, false, false, false]);
+    expect(simulation.files).toEqual([
+      { path: 'page.css', type: 'css', runAt: 'document_start', world: null, scriptIndex: 0 },
+      { path: 'start.js', type: 'js', runAt: 'document_start', world: 'ISOLATED', scriptIndex: 1 },
+      { path: 'main.js', type: 'js', runAt: 'document_end', world: 'MAIN', scriptIndex: 2 },
+      { path: 'idle.js', type: 'js', runAt: 'document_idle', world: 'ISOLATED', scriptIndex: 0 },
+    ]);
+    expect(simulation.invalidPatterns).toEqual(['Invalid match pattern "not a pattern": missing "://"']);
+  });
+
+  it('should explain why entries are skipped', () => {
+    const simulation = simulate({ url: 'https://www.example.com/admin/news/draft', frame: 'subframe' });
+
+    expect(simulation.decisions.slice(0, 3).map((decision) => decision.reason)).toEqual([
+      'Top frame only (all_frames is false)',
+      'Excluded by exclude_matches *://*/admin/*',
+      'Top frame only (all_frames is false)',
+    ]);
+    expect(simulate({ url: 'https://other.org/news/draft', frame: 'top' }).decisions[2].reason).toBe(
+      'Excluded by exclude_globs *draft*'
+    );
+    expect(simulate({ url: 'https://chromewebstore.google.com/detail/x', frame: 'top' }).files).toEqual([]);
+  });
+
+  it('should match about:, data: and blob: frames through the page that created them', () => {
+    const blank = simulate({ url: 'about:blank', frame: 'subframe', creatorUrl: 'https://example.com/app' });
+    expect(blank.decisions[3]).toMatchObject({ injected: true, matchedUrl: 'https://example.com/app' });
+    expect(blank.decisions[4]).toMatchObject({ injected: true, matchedUrl: 'https://example.com/' });
+    expect(blank.decisions[1].reason).toBe('about: frames need match_about_blank or match_origin_as_fallback');
+
+    const blob = simulate({ url: 'blob:https://example.com/0b3c-11', frame: 'subframe' });
+    expect(blob.decisions.map((decision) => decision.injected)).toEqual([false, false, false, false, true, false]);
+
+    expect(simulate({ url: 'data:text/html,hi', frame: 'subframe' }).decisions[4].reason).toBe(
+      'Enter the URL of the page that created the frame'
+    );
+  });
+
+  it('should report which host permissions cover the URL', () => {
+    expect(simulate({ url: 'https://shop.example.com/', frame: 'top' }).hostPermissions).toEqual([
+      { pattern: 'https://*.example.com/*', field: 'host_permissions', optional: false },
+      { pattern: '<all_urls>', field: 'optional_host_permissions', optional: true },
+    ]);
+  });
+
+  it('should reject invalid URLs', () => {
+    expect(simulateInjection(scripts, manifest, { url: 'example.com', frame: 'top' })).toEqual({
+      success: false,
+      error: 'Invalid URL: example.com',
+    });
+  });
+});
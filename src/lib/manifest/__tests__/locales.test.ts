@@ -0,0 +1,106 @@
+/**
+ * Tests for the locale completeness report
+ */
+
+import { parseMessagesJson } from '../i18n';
+import type { MessageCatalog } from '../i18n';
+import { buildLocaleReport, findMessageUsages, getLocaleFromPath, getPlaceholderSignature } from '../locales';
+import type { LocaleCatalogInput } from '../locales';
+
+function catalog(messages: Record<string, unknown>): MessageCatalog {
+  const result = parseMessagesJson(JSON.stringify(messages));
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.messages;
+}
+
+function input(locale: string, messages: Record<string, unknown>): LocaleCatalogInput {
+  return { locale, path: `_locales/${locale}/messages.json`, catalog: catalog(messages) };
+}
+
+describe('locales', () => {
+  it('should read the locale from a catalog path', () => {
+    expect(getLocaleFromPath('_locales/pt_BR/messages.json')).toBe('pt_BR');
+    expect(getLocaleFromPath('_locales/en/other.json')).toBeNull();
+    expect(getLocaleFromPath('lib/_locales/en/messages.json')).toBeNull();
+  });
+
+  it('should describe the placeholders a message expands', () => {
+    const greeting = catalog({
+      greeting: { message: 'Hi $USER$, $2 items, $$1', placeholders: { user: { content: '$1' } } },
+    }).get('greeting');
+
+    expect(greeting && getPlaceholderSignature(greeting)).toEqual(['$1', '$2', '$user$']);
+  });
+
+  it('should find getMessage calls and __MSG_ references', () => {
+    const scan = findMessageUsages([
+      {
+        path: 'popup.js',
+        content: [
+          "title.textContent = chrome.i18n.getMessage('popupTitle');",
+          'const label = browser.i18n.getMessage("count", [n]) + chrome.i18n.getMessage(key);',
+          "chrome.i18n.getMessage('@@ui_locale');",
+        ].join('\n'),
+      },
+      { path: 'styles.css', content: 'body { direction: __MSG_@@bidi_dir__; }\n.a::after { content: "__MSG_label__"; }' },
+      { path: 'manifest.json', content: '{"name": "__MSG_appName__"}' },
+    ]);
+
+    expect(scan.usages).toEqual([
+      { name: 'popupTitle', path: 'popup.js', line: 1, kind: 'getMessage' },
+      { name: 'count', path: 'popup.js', line: 2, kind: 'getMessage' },
+      { name: 'label', path: 'styles.css', line: 2, kind: 'reference' },
+      { name: 'appName', path: 'manifest.json', line: 1, kind: 'reference' },
+    ]);
+    expect(scan.dynamicCalls).toEqual([{ path: 'popup.js', line: 2 }]);
+  });
+
+  it('should compare locales against the default locale and code usage', () => {
+    const report = buildLocaleReport(
+      [
+        input('fr', {
+          appName: { message: 'Exemple' },
+          count: { message: '$COUNT$ éléments', placeholders: { count: { content: '$2' } } },
+          legacy: { message: 'Ancien' },
+        }),
+        input('en', {
+          appName: { message: 'Example' },
+          count: { message: '$COUNT$ items', placeholders: { count: { content: '$1' } } },
+          tooltip: { message: 'Open' },
+        }),
+        { locale: 'de', path: '_locales/de/messages.json', catalog: null, error: 'Invalid messages.json: bad' },
+      ],
+      'en',
+      {
+        usages: [
+          { name: 'APPNAME', path: 'manifest.json', line: 1, kind: 'reference' },
+          { name: 'count', path: 'popup.js', line: 3, kind: 'getMessage' },
+          { name: 'missingKey', path: 'popup.js', line: 4, kind: 'getMessage' },
+        ],
+        dynamicCalls: [],
+      }
+    );
+
+    expect(report.locales.map((locale) => locale.locale)).toEqual(['en', 'de', 'fr']);
+    expect(report.locales[2]).toMatchObject({
+      messageCount: 3,
+      missing: ['tooltip'],
+      extra: ['legacy'],
+      placeholderMismatches: ['count'],
+      error: null,
+    });
+    expect(report.locales[1].error).toBe('Invalid messages.json: bad');
+
+    expect(report.keys.map((row) => row.name)).toEqual(['appName', 'count', 'legacy', 'missingKey', 'tooltip']);
+    const [appName, count, legacy, missingKey, tooltip] = report.keys;
+    expect(appName.usages).toHaveLength(1);
+    expect(count.locales.fr).toEqual({ message: '$COUNT$ éléments', placeholders: ['$2', '$count$'], placeholderMismatch: true });
+    expect(legacy).toMatchObject({ inDefault: false, unused: true, notDefined: false });
+    expect(missingKey).toMatchObject({ inDefault: false, unused: false, notDefined: true, locales: {} });
+    expect(tooltip.unused).toBe(true);
+    expect(report.unusedCount).toBe(2);
+    expect(report.undefinedCount).toBe(1);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Tests for i18n message resolution and the normalized manifest view
+ */
+
+import { formatMessage, parseMessagesJson, resolveMessageReferences } from '../i18n';
+import type { MessageCatalog } from '../i18n';
+import { buildManifestView, normalizeManifestPath } from '../manifest-view';
+
+function catalog(messages: Record<string, unknown>): MessageCatalog {
+  const result = parseMessagesJson(JSON.stringify(messages));
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.messages;
+}
+
+describe('i18n', () => {
+  const messages = catalog({
+    AppName: { message: 'Example', description: 'Name' },
+    greeting: {
+      message: 'Hello $USER$, $$5 off',
+      placeholders: { user: { content: '$1', example: 'Ann' } },
+    },
+    broken: { description: 'no message' },
+  });
+
+  it('should parse catalogs with case-insensitive names', () => {
+    expect(messages.get('appname')).toEqual({ name: 'AppName', message: 'Example', description: 'Name', placeholders: {} });
+    expect(messages.has('broken')).toBe(false);
+    expect(parseMessagesJson('\uFEFF{"a": {"message": "b"}}').success).toBe(true);
+    expect(parseMessagesJson('[]')).toEqual({ success: false, error: 'Invalid messages.json: expected an object of messages' });
+  });
+
+  it('should expand placeholders and substitutions', () => {
+    const greeting = messages.get('greeting');
+    expect(greeting && formatMessage(greeting, ['Ann'])).toBe('Hello Ann, $5 off');
+    expect(greeting && formatMessage(greeting)).toBe('Hello , $5 off');
+  });
+
+  it('should resolve references and report missing messages', () => {
+    expect(resolveMessageReferences('__MSG_appName__ (__MSG_nope__)', messages)).toEqual({
+      value: 'Example (__MSG_nope__)',
+      keys: ['appName', 'nope'],
+      missing: ['nope'],
+    });
+    expect(resolveMessageReferences('__MSG_@@extension_id__/__MSG_@@bidi_dir__', null, { extensionId: 'abc' }).value).toBe(
+      'abc/ltr'
+    );
+    expect(resolveMessageReferences('__MSG_@@extension_id__', null).missing).toEqual([]);
+  });
+});
+
+describe('manifest-view', () => {
+  it('should normalize a Manifest V3 manifest with localized fields', () => {
+    const view = buildManifestView(
+      {
+        manifest_version: 3,
+        name: '__MSG_appName__',
+        description: '__MSG_missingDescription__',
+        version: '1.0',
+        default_locale: 'en',
+        background: { service_worker: '/sw.js', type: 'module' },
+        content_scripts: [
+          { matches: ['https://*.example.com/*'], js: ['./content.js'], css: ['content.css'], world: 'MAIN' },
+        ],
+        action: { default_popup: 'popup.html?tab=1', default_title: '__MSG_appName__', default_icon: 'icon.png' },
+        options_ui: { page: 'options.html' },
+        commands: { _execute_action: { suggested_key: { default: 'Ctrl+Shift+Y' } } },
+        icons: { '128': 'icons/128.png', '16': 'icons/16.png' },
+        content_security_policy: { extension_pages: "script-src 'self'" },
+        sandbox: { pages: ['sandbox.html'] },
+        web_accessible_resources: [{ resources: ['inject.js', 'assets/*'], matches: ['<all_urls>'] }],
+        chrome_url_overrides: { newtab: 'newtab.html' },
+        chrome_settings_overrides: { homepage: 'https://example.com' },
+      },
+      catalog({ appName: { message: 'Example' } })
+    );
+
+    expect(view.name).toBe('Example');
+    expect(view.localizedFields).toEqual([
+      { field: 'name', raw: '__MSG_appName__', value: 'Example', missing: [] },
+      { field: 'description', raw: '__MSG_missingDescription__', value: '__MSG_missingDescription__', missing: ['missingDescription'] },
+      { field: 'action.default_title', raw: '__MSG_appName__', value: 'Example', missing: [] },
+    ]);
+    expect(view.unresolvedMessages).toEqual(['missingDescription']);
+    expect(view.background).toEqual({ serviceWorker: 'sw.js', scripts: [], page: null, isModule: true, persistent: null });
+    expect(view.contentScripts[0]).toMatchObject({
+      js: ['content.js'],
+      runAt: 'document_idle',
+      allFrames: false,
+      world: 'MAIN',
+    });
+    expect(view.action).toEqual({
+      key: 'action',
+      popup: 'popup.html',
+      title: 'Example',
+      icons: [{ size: null, path: 'icon.png' }],
+    });
+    expect(view.optionsPage).toEqual({ path: 'options.html', openInTab: false });
+    expect(view.commands).toEqual([
+      { name: '_execute_action', description: null, suggestedKeys: { default: 'Ctrl+Shift+Y' }, global: false },
+    ]);
+    expect(view.icons.map((icon) => icon.size)).toEqual([16, 128]);
+    expect(view.contentSecurityPolicy).toEqual([{ context: 'extension_pages', policy: "script-src 'self'" }]);
+    expect(view.otherPages).toEqual([{ field: 'chrome_url_overrides.newtab', path: 'newtab.html' }]);
+    expect(view.referencedFiles).toEqual([
+      'content.css',
+      'content.js',
+      'icon.png',
+      'icons/128.png',
+      'icons/16.png',
+      'inject.js',
+      'newtab.html',
+      'options.html',
+      'popup.html',
+      'sandbox.html',
+      'sw.js',
+    ]);
+  });
+
+  it('should read Manifest V2 background pages, browser actions and resources', () => {
+    const view = buildManifestView(
+      {
+        manifest_version: 2,
+        name: 'Legacy',
+        version: '2.0',
+        background: { scripts: ['bg.js'], persistent: false },
+        browser_action: { default_icon: { '19': 'a.png' } },
+        options_page: 'options.html',
+        content_security_policy: "script-src 'self' 'unsafe-eval'; object-src 'self'",
+        web_accessible_resources: ['images/*.png', 'frame.html'],
+      },
+      null
+    );
+
+    expect(view.background).toEqual({ serviceWorker: null, scripts: ['bg.js'], page: null, isModule: false, persistent: false });
+    expect(view.action?.key).toBe('browser_action');
+    expect(view.optionsPage).toEqual({ path: 'options.html', openInTab: true });
+    expect(view.contentSecurityPolicy[0].context).toBe('extension');
+    expect(view.webAccessibleResources).toEqual([
+      { resources: ['images/*.png', 'frame.html'], matches: [], extensionIds: [], useDynamicUrl: false },
+    ]);
+    expect(view.localizedFields).toEqual([]);
+  });
+
+  it('should normalize manifest paths', () => {
+    expect(normalizeManifestPath('/js/app.js')).toBe('js/app.js');
+    expect(normalizeManifestPath('./page.html#top')).toBe('page.html');
+  });
+});
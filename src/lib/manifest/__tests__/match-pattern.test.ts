@@ -0,0 +1,60 @@
+/**
+ * Tests for match patterns and content script globs
+ */
+
+import { matchesGlob, matchesPattern, parseMatchPattern } from '../match-pattern';
+
+function matches(pattern: string, url: string): boolean {
+  const result = parseMatchPattern(pattern);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return matchesPattern(result.pattern, new URL(url));
+}
+
+describe('match-pattern', () => {
+  it('should reject malformed patterns', () => {
+    expect(parseMatchPattern('example.com/*')).toEqual({
+      success: false,
+      error: 'Invalid match pattern "example.com/*": missing "://"',
+    });
+    expect(parseMatchPattern('chrome://settings/*').success).toBe(false);
+    expect(parseMatchPattern('https://example.com').success).toBe(false);
+    expect(parseMatchPattern('https://www.*.com/*').success).toBe(false);
+    expect(parseMatchPattern('https://example.com:port/*').success).toBe(false);
+    expect(parseMatchPattern('file://host/*').success).toBe(false);
+  });
+
+  it('should match schemes, hosts and subdomains', () => {
+    expect(matches('*://*/*', 'https://example.com/')).toBe(true);
+    expect(matches('*://*/*', 'ftp://example.com/')).toBe(false);
+    expect(matches('<all_urls>', 'file:///home/user/a.html')).toBe(true);
+    expect(matches('<all_urls>', 'chrome://settings/')).toBe(false);
+    expect(matches('https://*.example.com/*', 'https://example.com/')).toBe(true);
+    expect(matches('https://*.example.com/*', 'https://a.b.EXAMPLE.com/x')).toBe(true);
+    expect(matches('https://*.example.com/*', 'https://notexample.com/')).toBe(false);
+    expect(matches('http://[::1]/*', 'http://[::1]:8080/')).toBe(true);
+  });
+
+  it('should match ports', () => {
+    expect(matches('http://localhost/*', 'http://localhost:3000/')).toBe(true);
+    expect(matches('http://localhost:3000/*', 'http://localhost:3000/')).toBe(true);
+    expect(matches('http://localhost:3000/*', 'http://localhost/')).toBe(false);
+    expect(matches('https://example.com:443/*', 'https://example.com/')).toBe(true);
+  });
+
+  it('should match the path and query but not the fragment', () => {
+    expect(matches('https://example.com/foo*', 'https://example.com/foobar?x=1#top')).toBe(true);
+    expect(matches('https://example.com/*?q=*', 'https://example.com/search?q=cats')).toBe(true);
+    expect(matches('https://example.com/', 'https://example.com/?x')).toBe(false);
+    expect(matches('https://example.com/Foo', 'https://example.com/foo')).toBe(false);
+    expect(matches('https://example.com/*#top', 'https://example.com/#top')).toBe(false);
+  });
+
+  it('should match globs against the whole URL', () => {
+    const url = new URL('https://www.example.com/news/1');
+    expect(matchesGlob('*example.com/news/*', url)).toBe(true);
+    expect(matchesGlob('https://???.example.com/*', url)).toBe(true);
+    expect(matchesGlob('*example.com/news', url)).toBe(false);
+  });
+});
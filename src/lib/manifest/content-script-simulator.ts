@@ -0,0 +1,262 @@
+/**
+ * Content script injection simulator
+ *
+ * Works out which `content_scripts` entries Chrome would inject into a page,
+ * following the browser's rules: a URL must match one of `matches` and none
+ * of `exclude_matches`, then pass `include_globs` / `exclude_globs`;
+ * subframes need `all_frames`; `about:`, `data:` and `blob:` frames are
+ * matched through the frame that created them when `match_about_blank` or
+ * `match_origin_as_fallback` allows it. CSS is inserted at document_start,
+ * scripts at their `run_at`, each in manifest order.
+ */
+
+import { toStringArray } from '../analysis/permissions';
+import { matchesGlob, matchesPattern, parseMatchPattern } from './match-pattern';
+import type { MatchPattern } from './match-pattern';
+import type { ContentScriptRunAt, ContentScriptWorld, ManifestContentScript } from './manifest-view';
+
+/**
+ * Page to simulate
+ */
+export interface InjectionTarget {
+  url: string;
+  /** Whether the page is the tab's top frame or an iframe */
+  frame: 'top' | 'subframe';
+  /** Page that created an `about:`, `data:` or `blob:` frame */
+  creatorUrl?: string;
+}
+
+/**
+ * Outcome for one `content_scripts` entry
+ */
+export interface ContentScriptDecision {
+  /** Position in the manifest's content_scripts array */
+  index: number;
+  injected: boolean;
+  /** Why the entry is or isn't injected */
+  reason: string;
+  /** URL the patterns and globs were compared against */
+  matchedUrl: string | null;
+}
+
+/**
+ * A file the browser would inject, in injection order
+ */
+export interface InjectedFile {
+  path: string;
+  type: 'js' | 'css';
+  runAt: ContentScriptRunAt;
+  /** Scripts only; stylesheets apply to the page itself */
+  world: ContentScriptWorld | null;
+  scriptIndex: number;
+}
+
+/**
+ * Host permission entry that covers the simulated URL
+ */
+export interface HostPermissionMatch {
+  pattern: string;
+  field: 'host_permissions' | 'optional_host_permissions' | 'permissions' | 'optional_permissions';
+  optional: boolean;
+}
+
+/**
+ * Simulated injection into one page
+ */
+export interface InjectionSimulation {
+  url: string;
+  decisions: ContentScriptDecision[];
+  files: InjectedFile[];
+  hostPermissions: HostPermissionMatch[];
+  /** Patterns Chrome would reject, with the reason */
+  invalidPatterns: string[];
+}
+
+type SimulationResult = { success: true; simulation: InjectionSimulation } | { success: false; error: string };
+
+const RUN_AT_ORDER: ContentScriptRunAt[] = ['document_start', 'document_end', 'document_idle'];
+
+const HOST_PERMISSION_FIELDS: Array<[HostPermissionMatch['field'], boolean]> = [
+  ['host_permissions', false],
+  ['optional_host_permissions', true],
+  ['permissions', false],
+  ['optional_permissions', true],
+];
+
+/**
+ * Simulate content script injection into a page
+ *
+ * @param scripts - Normalized content_scripts entries
+ * @param manifest - Parsed manifest.json, for its host permissions
+ * @param target - Page URL, frame kind and creating page
+ * @returns Result object with success flag and either the simulation or error message
+ */
+export function simulateInjection(
+  scripts: ManifestContentScript[],
+  manifest: Record<string, unknown>,
+  target: InjectionTarget
+): SimulationResult {
+  const url = parseUrl(target.url);
+  if (!url) {
+    return { success: false, error: `Invalid URL: ${target.url}` };
+  }
+
+  let creator: URL | null = null;
+  if (target.creatorUrl?.trim()) {
+    creator = parseUrl(target.creatorUrl);
+    if (!creator) {
+      return { success: false, error: `Invalid creator URL: ${target.creatorUrl}` };
+    }
+  }
+
+  const invalidPatterns: string[] = [];
+  const parsePatterns = (sources: string[]): MatchPattern[] =>
+    sources.flatMap((source) => {
+      const result = parseMatchPattern(source);
+      if (!result.success) {
+        invalidPatterns.push(result.error);
+        return [];
+      }
+      return [result.pattern];
+    });
+
+  const decisions = scripts.map((script, index) =>
+    decide(script, index, url, creator, target.frame, parsePatterns(script.matches), parsePatterns(script.excludeMatches))
+  );
+
+  const files: InjectedFile[] = [];
+  for (const runAt of RUN_AT_ORDER) {
+    decisions.forEach((decision, index) => {
+      if (!decision.injected) return;
+      const script = scripts[index];
+      if (runAt === 'document_start') {
+        files.push(...script.css.map((path) => ({ path, type: 'css' as const, runAt, world: null, scriptIndex: index })));
+      }
+      if (script.runAt === runAt) {
+        files.push(
+          ...script.js.map((path) => ({ path, type: 'js' as const, runAt, world: script.world, scriptIndex: index }))
+        );
+      }
+    });
+  }
+
+  const hostPermissions: HostPermissionMatch[] = [];
+  for (const [field, optional] of HOST_PERMISSION_FIELDS) {
+    for (const source of toStringArray(manifest[field])) {
+      const result = parseMatchPattern(source);
+      if (result.success && matchesPattern(result.pattern, url)) {
+        hostPermissions.push({ pattern: source, field, optional });
+      }
+    }
+  }
+
+  return {
+    success: true,
+    simulation: { url: url.href, decisions, files, hostPermissions, invalidPatterns: [...new Set(invalidPatterns)] },
+  };
+}
+
+/**
+ * Whether Chrome refuses to inject into a URL regardless of the extension
+ */
+export function isRestrictedUrl(url: URL): boolean {
+  const host = url.hostname.toLowerCase();
+  return (
+    host === 'chromewebstore.google.com' ||
+    (host === 'chrome.google.com' && url.pathname.startsWith('/webstore'))
+  );
+}
+
+function decide(
+  script: ManifestContentScript,
+  index: number,
+  url: URL,
+  creator: URL | null,
+  frame: InjectionTarget['frame'],
+  matches: MatchPattern[],
+  excludeMatches: MatchPattern[]
+): ContentScriptDecision {
+  const skip = (reason: string, matchedUrl: string | null = null) => ({ index, injected: false, reason, matchedUrl });
+
+  if (frame === 'subframe' && !script.allFrames) {
+    return skip('Top frame only (all_frames is false)');
+  }
+
+  const effective = getMatchingUrl(script, url, creator);
+  if (typeof effective === 'string') {
+    return skip(effective);
+  }
+  const matchedUrl = effective.href;
+
+  if (isRestrictedUrl(effective)) {
+    return skip('Chrome never injects into the Chrome Web Store', matchedUrl);
+  }
+
+  const match = matches.find((pattern) => matchesPattern(pattern, effective));
+  if (!match) {
+    return skip('No "matches" pattern covers the URL', matchedUrl);
+  }
+
+  const exclude = excludeMatches.find((pattern) => matchesPattern(pattern, effective));
+  if (exclude) {
+    return skip(`Excluded by exclude_matches ${exclude.source}`, matchedUrl);
+  }
+
+  if (script.includeGlobs.length > 0 && !script.includeGlobs.some((glob) => matchesGlob(glob, effective))) {
+    return skip('No include_globs entry covers the URL', matchedUrl);
+  }
+
+  const excludeGlob = script.excludeGlobs.find((glob) => matchesGlob(glob, effective));
+  if (excludeGlob) {
+    return skip(`Excluded by exclude_globs ${excludeGlob}`, matchedUrl);
+  }
+
+  return { index, injected: true, reason: `Matched by ${match.source}`, matchedUrl };
+}
+
+/**
+ * URL the patterns are compared against, or why the frame can't be matched
+ *
+ * With match_origin_as_fallback Chrome matches the creating page's origin
+ * (so the pattern's path must be `/*`); with only match_about_blank it
+ * matches the creating page's full URL, and only for about: frames.
+ */
+function getMatchingUrl(script: ManifestContentScript, url: URL, creator: URL | null): URL | string {
+  const scheme = url.protocol.slice(0, -1);
+
+  if (scheme === 'about') {
+    if (!script.matchOriginAsFallback && !script.matchAboutBlank) {
+      return 'about: frames need match_about_blank or match_origin_as_fallback';
+    }
+    if (!creator) {
+      return 'Enter the URL of the page that created the frame';
+    }
+    return script.matchOriginAsFallback ? originUrl(creator) : creator;
+  }
+
+  if (scheme === 'data' || scheme === 'blob' || scheme === 'filesystem') {
+    if (!script.matchOriginAsFallback) {
+      return `${scheme}: frames need match_origin_as_fallback`;
+    }
+    // blob: and filesystem: URLs carry the origin that created them
+    const inner = scheme === 'data' ? creator : parseUrl(url.pathname);
+    if (!inner) {
+      return 'Enter the URL of the page that created the frame';
+    }
+    return originUrl(inner);
+  }
+
+  return url;
+}
+
+function originUrl(url: URL): URL {
+  return new URL(url.protocol === 'file:' ? 'file:///' : `${url.origin}/`);
+}
+
+function parseUrl(text: string): URL | null {
+  try {
+    return new URL(text.trim());
+  } catch {
+    return null;
+  }
+}
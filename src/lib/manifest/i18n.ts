@@ -0,0 +1,195 @@
+/**
+ * Extension i18n messages
+ *
+ * Reads `_locales/<locale>/messages.json` catalogs and resolves the
+ * `__MSG_name__` placeholders used in manifest.json and CSS the way Chrome
+ * does: message names are case-insensitive, `$name$` placeholders expand
+ * to their `content`, and `@@` names are predefined by the browser.
+ * See https://developer.chrome.com/docs/extensions/reference/api/i18n
+ */
+
+/**
+ * A named placeholder inside a message
+ */
+export interface MessagePlaceholder {
+  content: string;
+  example?: string;
+}
+
+/**
+ * One entry of messages.json
+ */
+export interface LocaleMessage {
+  /** Name as written in messages.json */
+  name: string;
+  message: string;
+  description?: string;
+  /** Placeholders keyed by lowercase name */
+  placeholders: Record<string, MessagePlaceholder>;
+}
+
+/**
+ * Messages of one locale, keyed by lowercase name
+ */
+export type MessageCatalog = Map<string, LocaleMessage>;
+
+/**
+ * Values for the browser's predefined `@@` messages
+ */
+export interface PredefinedMessageOptions {
+  extensionId?: string;
+  uiLocale?: string;
+}
+
+/**
+ * Outcome of resolving the placeholders in one string
+ */
+export interface ResolvedText {
+  value: string;
+  /** Message names the string referenced */
+  keys: string[];
+  /** Referenced names that are not in the catalog; left unresolved in the value */
+  missing: string[];
+}
+
+type CatalogParseResult = { success: true; messages: MessageCatalog } | { success: false; error: string };
+
+const MESSAGE_REFERENCE = /__MSG_([A-Za-z0-9_@]+?)__/g;
+
+/**
+ * Path of a locale's messages.json within the package
+ */
+export function getMessagesPath(locale: string): string {
+  return `_locales/${locale}/messages.json`;
+}
+
+/**
+ * Parse a messages.json file
+ *
+ * Entries without a string `message` are skipped, as Chrome would refuse them.
+ *
+ * @param text - File content
+ * @returns Result object with success flag and either the catalog or error message
+ */
+export function parseMessagesJson(text: string): CatalogParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    return { success: false, error: `Invalid messages.json: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { success: false, error: 'Invalid messages.json: expected an object of messages' };
+  }
+
+  const messages: MessageCatalog = new Map();
+  for (const [name, entry] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!entry || typeof entry !== 'object' || typeof (entry as Record<string, unknown>).message !== 'string') {
+      continue;
+    }
+    const { message, description, placeholders } = entry as Record<string, unknown>;
+    messages.set(name.toLowerCase(), {
+      name,
+      message: message as string,
+      description: typeof description === 'string' ? description : undefined,
+      placeholders: readPlaceholders(placeholders),
+    });
+  }
+
+  return { success: true, messages };
+}
+
+/**
+ * Expand a message's `$placeholder$` references and `$1`-style substitutions
+ *
+ * @param message - Catalog entry
+ * @param substitutions - Values for `$1` to `$9`; missing ones become empty
+ */
+export function formatMessage(message: LocaleMessage, substitutions: string[] = []): string {
+  const substitute = (text: string) =>
+    text.replace(/\$(\$|[1-9])/g, (_, token: string) => (token === '$' ? '$' : substitutions[Number(token) - 1] ?? ''));
+
+  const expanded = message.message.replace(/\$([A-Za-z0-9_@]+)\$/g, (reference, name: string) => {
+    const placeholder = message.placeholders[name.toLowerCase()];
+    return placeholder ? substitute(placeholder.content) : reference;
+  });
+  return substitute(expanded);
+}
+
+/**
+ * Value of a predefined `@@` message, or null for unknown names
+ */
+export function getPredefinedMessage(name: string, options: PredefinedMessageOptions = {}): string | null {
+  switch (name.toLowerCase()) {
+    case '@@extension_id':
+      return options.extensionId ?? null;
+    case '@@ui_locale':
+      return options.uiLocale ?? null;
+    case '@@bidi_dir':
+      return 'ltr';
+    case '@@bidi_reversed_dir':
+      return 'rtl';
+    case '@@bidi_start_edge':
+      return 'left';
+    case '@@bidi_end_edge':
+      return 'right';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Replace `__MSG_name__` references in a string with their messages
+ *
+ * @param text - String that may contain references
+ * @param catalog - Messages of the locale to use, or null when there is none
+ * @param options - Values for predefined `@@` messages
+ */
+export function resolveMessageReferences(
+  text: string,
+  catalog: MessageCatalog | null,
+  options: PredefinedMessageOptions = {}
+): ResolvedText {
+  const keys: string[] = [];
+  const missing: string[] = [];
+
+  const value = text.replace(MESSAGE_REFERENCE, (reference, name: string) => {
+    keys.push(name);
+    // Predefined messages come from the browser; unknown values stay as written
+    if (name.startsWith('@@')) {
+      return getPredefinedMessage(name, options) ?? reference;
+    }
+
+    const entry = catalog?.get(name.toLowerCase());
+    if (!entry) {
+      missing.push(name);
+      return reference;
+    }
+    return formatMessage(entry);
+  });
+
+  return { value, keys, missing };
+}
+
+/**
+ * Find every message name referenced with `__MSG_name__` in a string
+ */
+export function findMessageReferences(text: string): string[] {
+  return Array.from(text.matchAll(MESSAGE_REFERENCE), (match) => match[1]);
+}
+
+function readPlaceholders(value: unknown): Record<string, MessagePlaceholder> {
+  const placeholders: Record<string, MessagePlaceholder> = {};
+  if (!value || typeof value !== 'object') {
+    return placeholders;
+  }
+
+  for (const [name, entry] of Object.entries(value as Record<string, unknown>)) {
+    const { content, example } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof content === 'string') {
+      placeholders[name.toLowerCase()] = { content, example: typeof example === 'string' ? example : undefined };
+    }
+  }
+  return placeholders;
+}
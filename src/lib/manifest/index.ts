@@ -0,0 +1,68 @@
+/**
+ * Manifest inspection module exports
+ */
+
+export {
+  getMessagesPath,
+  parseMessagesJson,
+  formatMessage,
+  getPredefinedMessage,
+  resolveMessageReferences,
+  findMessageReferences,
+} from './i18n';
+export type {
+  LocaleMessage,
+  MessageCatalog,
+  MessagePlaceholder,
+  PredefinedMessageOptions,
+  ResolvedText,
+} from './i18n';
+
+export { buildManifestView, localizeManifest, normalizeManifestPath } from './manifest-view';
+export type {
+  ContentScriptRunAt,
+  ContentScriptWorld,
+  LocalizedField,
+  ManifestAction,
+  ManifestBackground,
+  ManifestCommand,
+  ManifestContentScript,
+  ManifestCsp,
+  ManifestIcon,
+  ManifestOptionsPage,
+  ManifestPage,
+  ManifestSandbox,
+  ManifestView,
+  ManifestWebAccessibleResource,
+} from './manifest-view';
+
+export { MATCH_PATTERN_SCHEMES, matchesGlob, matchesPattern, parseMatchPattern } from './match-pattern';
+export type { MatchPattern } from './match-pattern';
+
+export { isRestrictedUrl, simulateInjection } from './content-script-simulator';
+export type {
+  ContentScriptDecision,
+  HostPermissionMatch,
+  InjectedFile,
+  InjectionSimulation,
+  InjectionTarget,
+} from './content-script-simulator';
+
+export {
+  buildLocaleReport,
+  findMessageUsages,
+  getLocaleFromPath,
+  getPlaceholderSignature,
+  isMessageSourceFile,
+  isMessagesFile,
+} from './locales';
+export type {
+  DynamicMessageCall,
+  LocaleCatalogInput,
+  LocaleKeyEntry,
+  LocaleKeyRow,
+  LocaleReport,
+  LocaleSummary,
+  MessageUsage,
+  MessageUsageScan,
+} from './locales';
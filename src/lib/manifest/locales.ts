@@ -0,0 +1,287 @@
+/**
+ * Locale completeness report
+ *
+ * Lines up every `_locales/<locale>/messages.json` against the default
+ * locale and against the message names the extension's code actually uses,
+ * via `chrome.i18n.getMessage('name')` calls and `__MSG_name__` references.
+ * Names are compared case-insensitively, as Chrome looks them up.
+ */
+
+import { findMessageReferences } from './i18n';
+import type { LocaleMessage, MessageCatalog } from './i18n';
+
+/**
+ * Where a message name is used
+ */
+export interface MessageUsage {
+  /** Name as written at the call site */
+  name: string;
+  path: string;
+  line: number;
+  kind: 'getMessage' | 'reference';
+}
+
+/**
+ * A `getMessage` call whose name is not a string literal, so it can't be
+ * matched to a message
+ */
+export interface DynamicMessageCall {
+  path: string;
+  line: number;
+}
+
+/**
+ * Message references found in the extension's code
+ */
+export interface MessageUsageScan {
+  usages: MessageUsage[];
+  dynamicCalls: DynamicMessageCall[];
+}
+
+/**
+ * One locale's messages.json, parsed or not
+ */
+export interface LocaleCatalogInput {
+  locale: string;
+  path: string;
+  catalog: MessageCatalog | null;
+  /** Why the catalog could not be read */
+  error?: string;
+}
+
+/**
+ * Completeness of one locale relative to the default locale
+ */
+export interface LocaleSummary {
+  locale: string;
+  path: string;
+  isDefault: boolean;
+  messageCount: number;
+  /** Default-locale names this locale lacks */
+  missing: string[];
+  /** Names this locale has that the default locale doesn't */
+  extra: string[];
+  /** Names whose placeholders differ from the default locale's */
+  placeholderMismatches: string[];
+  error: string | null;
+}
+
+/**
+ * One message of one locale, as shown in the key table
+ */
+export interface LocaleKeyEntry {
+  message: string;
+  /** Placeholders and `$1`-style substitutions the message expands */
+  placeholders: string[];
+  placeholderMismatch: boolean;
+}
+
+/**
+ * One message name across all locales
+ */
+export interface LocaleKeyRow {
+  /** Name as written in the default locale, or wherever it first appears */
+  name: string;
+  /** Entry per locale; absent when the locale lacks the message */
+  locales: Record<string, LocaleKeyEntry>;
+  inDefault: boolean;
+  usages: MessageUsage[];
+  /** Defined, but no code references it */
+  unused: boolean;
+  /** Referenced from code, but the default locale doesn't define it */
+  notDefined: boolean;
+}
+
+/**
+ * Locale completeness report
+ */
+export interface LocaleReport {
+  defaultLocale: string | null;
+  locales: LocaleSummary[];
+  keys: LocaleKeyRow[];
+  unusedCount: number;
+  undefinedCount: number;
+  dynamicCalls: DynamicMessageCall[];
+}
+
+const MESSAGES_PATH = /^_locales\/([^/]+)\/messages\.json$/i;
+const GET_MESSAGE_CALL = /\b(?:chrome|browser)\.i18n\.getMessage\s*\(\s*(?:(['"`])([A-Za-z0-9_@]+)\1)?/g;
+const NAMED_PLACEHOLDER = /\$([A-Za-z0-9_@]+)\$/g;
+const SUBSTITUTION = /\$([1-9])/g;
+
+/**
+ * Locale a messages.json path belongs to
+ *
+ * @param path - File path within the extension
+ * @returns Locale code, or null when the path is not a locale catalog
+ */
+export function getLocaleFromPath(path: string): string | null {
+  return MESSAGES_PATH.exec(path)?.[1] ?? null;
+}
+
+/**
+ * Whether a path is a locale catalog
+ */
+export function isMessagesFile(path: string): boolean {
+  return MESSAGES_PATH.test(path);
+}
+
+/**
+ * Whether a path may reference messages: scripts, pages, styles and the manifest
+ */
+export function isMessageSourceFile(path: string): boolean {
+  return path === 'manifest.json' || /\.(?:m?js|cjs|jsx|html?|css)$/i.test(path);
+}
+
+/**
+ * Placeholders a message expands, used to spot translations that drop or
+ * add substitutions
+ *
+ * @returns Sorted lowercase `$name$` references and `$1`-style substitutions,
+ * including those inside placeholder contents
+ */
+export function getPlaceholderSignature(message: LocaleMessage): string[] {
+  const signature = new Set<string>();
+  for (const match of message.message.matchAll(NAMED_PLACEHOLDER)) {
+    const name = match[1].toLowerCase();
+    signature.add(`$${name}$`);
+    const content = message.placeholders[name]?.content ?? '';
+    for (const substitution of content.matchAll(SUBSTITUTION)) {
+      signature.add(`$${substitution[1]}`);
+    }
+  }
+  for (const match of message.message.replace(/\$\$/g, '').matchAll(SUBSTITUTION)) {
+    signature.add(`$${match[1]}`);
+  }
+  return [...signature].sort();
+}
+
+/**
+ * Find the message names used by the extension's files
+ *
+ * Predefined `@@` names are skipped since the browser supplies them.
+ *
+ * @param files - File paths and decoded contents
+ */
+export function findMessageUsages(files: Array<{ path: string; content: string }>): MessageUsageScan {
+  const usages: MessageUsage[] = [];
+  const dynamicCalls: DynamicMessageCall[] = [];
+
+  for (const file of files) {
+    const isScript = /\.(?:m?js|cjs|jsx|html?)$/i.test(file.path);
+
+    file.content.split(/\r?\n/).forEach((text, index) => {
+      const line = index + 1;
+
+      if (isScript) {
+        for (const match of text.matchAll(GET_MESSAGE_CALL)) {
+          if (!match[2]) {
+            dynamicCalls.push({ path: file.path, line });
+          } else if (!match[2].startsWith('@@')) {
+            usages.push({ name: match[2], path: file.path, line, kind: 'getMessage' });
+          }
+        }
+      }
+
+      for (const name of findMessageReferences(text)) {
+        if (!name.startsWith('@@')) {
+          usages.push({ name, path: file.path, line, kind: 'reference' });
+        }
+      }
+    });
+  }
+
+  return { usages, dynamicCalls };
+}
+
+/**
+ * Tabulate every message name across all locales
+ *
+ * @param catalogs - Every locale found under `_locales`
+ * @param defaultLocale - Manifest's `default_locale`, or null when unset
+ * @param scan - Message usages found in code
+ * @returns Locale summaries (default locale first) and one row per name,
+ * sorted by name
+ */
+export function buildLocaleReport(
+  catalogs: LocaleCatalogInput[],
+  defaultLocale: string | null,
+  scan: MessageUsageScan
+): LocaleReport {
+  const base = catalogs.find((input) => input.locale === defaultLocale)?.catalog ?? null;
+  const baseSignatures = new Map<string, string>();
+  base?.forEach((message, key) => baseSignatures.set(key, getPlaceholderSignature(message).join(' ')));
+
+  const rows = new Map<string, LocaleKeyRow>();
+  const rowFor = (key: string, name: string): LocaleKeyRow => {
+    let row = rows.get(key);
+    if (!row) {
+      row = { name, locales: {}, inDefault: base?.has(key) ?? false, usages: [], unused: false, notDefined: false };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  if (base) {
+    base.forEach((message, key) => rowFor(key, message.name));
+  }
+
+  const locales = catalogs.map((input): LocaleSummary => {
+    const summary: LocaleSummary = {
+      locale: input.locale,
+      path: input.path,
+      isDefault: input.locale === defaultLocale,
+      messageCount: input.catalog?.size ?? 0,
+      missing: [],
+      extra: [],
+      placeholderMismatches: [],
+      error: input.error ?? null,
+    };
+    if (!input.catalog) {
+      return summary;
+    }
+
+    input.catalog.forEach((message, key) => {
+      const placeholders = getPlaceholderSignature(message);
+      const baseSignature = baseSignatures.get(key);
+      const placeholderMismatch = baseSignature !== undefined && baseSignature !== placeholders.join(' ');
+
+      rowFor(key, message.name).locales[input.locale] = { message: message.message, placeholders, placeholderMismatch };
+      if (base && !base.has(key)) {
+        summary.extra.push(message.name);
+      }
+      if (placeholderMismatch) {
+        summary.placeholderMismatches.push(message.name);
+      }
+    });
+
+    base?.forEach((message, key) => {
+      if (!input.catalog?.has(key)) {
+        summary.missing.push(message.name);
+      }
+    });
+
+    return summary;
+  });
+
+  for (const usage of scan.usages) {
+    rowFor(usage.name.toLowerCase(), usage.name).usages.push(usage);
+  }
+
+  const keys = [...rows.values()].sort((a, b) => a.name.localeCompare(b.name));
+  for (const row of keys) {
+    row.unused = row.usages.length === 0;
+    row.notDefined = row.usages.length > 0 && !row.inDefault;
+  }
+
+  locales.sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || a.locale.localeCompare(b.locale));
+
+  return {
+    defaultLocale,
+    locales,
+    keys,
+    unusedCount: keys.filter((row) => row.unused).length,
+    undefinedCount: keys.filter((row) => row.notDefined).length,
+    dynamicCalls: scan.dynamicCalls,
+  };
+}
@@ -0,0 +1,167 @@
+/**
+ * Extension match patterns and globs
+ *
+ * Implements the rules Chrome applies to `matches`, `exclude_matches` and
+ * host permissions (`<scheme>://<host><path>` with `*` wildcards) and to
+ * content script `include_globs` / `exclude_globs`.
+ * See https://developer.chrome.com/docs/extensions/develop/concepts/match-patterns
+ */
+
+/**
+ * A parsed match pattern
+ */
+export interface MatchPattern {
+  /** Pattern as written */
+  source: string;
+  /** Schemes the pattern covers */
+  schemes: string[];
+  /** Lowercase host; '*' for any host, empty for file URLs */
+  host: string;
+  /** Whether `*.` prefixed the host, so subdomains match too */
+  matchSubdomains: boolean;
+  /** Port to match, or null for any port */
+  port: number | null;
+  /** Path (with query) glob */
+  path: string;
+}
+
+type MatchPatternParseResult = { success: true; pattern: MatchPattern } | { success: false; error: string };
+
+/** Schemes allowed in a match pattern */
+export const MATCH_PATTERN_SCHEMES = ['http', 'https', 'ws', 'wss', 'ftp', 'file', 'urn'];
+
+const WILDCARD_SCHEMES = ['http', 'https'];
+
+const DEFAULT_PORTS: Record<string, number> = { http: 80, https: 443, ws: 80, wss: 443, ftp: 21 };
+
+/**
+ * Parse a match pattern
+ *
+ * @param source - Pattern such as `https://*.example.com/*` or `<all_urls>`
+ * @returns Result object with success flag and either the pattern or error message
+ */
+export function parseMatchPattern(source: string): MatchPatternParseResult {
+  if (source === '<all_urls>') {
+    return {
+      success: true,
+      pattern: { source, schemes: MATCH_PATTERN_SCHEMES, host: '*', matchSubdomains: false, port: null, path: '*' },
+    };
+  }
+
+  if (source.startsWith('urn:')) {
+    return {
+      success: true,
+      pattern: { source, schemes: ['urn'], host: '', matchSubdomains: false, port: null, path: source.slice(4) },
+    };
+  }
+
+  const separator = source.indexOf('://');
+  if (separator === -1) {
+    return { success: false, error: `Invalid match pattern "${source}": missing "://"` };
+  }
+
+  const scheme = source.slice(0, separator).toLowerCase();
+  if (scheme !== '*' && !MATCH_PATTERN_SCHEMES.includes(scheme)) {
+    return { success: false, error: `Invalid match pattern "${source}": unsupported scheme "${scheme}"` };
+  }
+
+  const rest = source.slice(separator + 3);
+  const pathStart = rest.indexOf('/');
+  if (pathStart === -1) {
+    return { success: false, error: `Invalid match pattern "${source}": missing path` };
+  }
+
+  const authority = rest.slice(0, pathStart).toLowerCase();
+  const path = rest.slice(pathStart);
+  const schemes = scheme === '*' ? WILDCARD_SCHEMES : [scheme];
+
+  if (scheme === 'file') {
+    if (authority !== '' && authority !== '*') {
+      return { success: false, error: `Invalid match pattern "${source}": file patterns have no host` };
+    }
+    return { success: true, pattern: { source, schemes, host: '', matchSubdomains: false, port: null, path } };
+  }
+
+  // The port follows the last colon outside an IPv6 literal
+  const portSeparator = authority.lastIndexOf(':');
+  const hasPort = portSeparator > authority.lastIndexOf(']');
+  let host = hasPort ? authority.slice(0, portSeparator) : authority;
+  const portText = hasPort ? authority.slice(portSeparator + 1) : '*';
+
+  if (!host) {
+    return { success: false, error: `Invalid match pattern "${source}": missing host` };
+  }
+  if (portText !== '*' && !/^\d{1,5}$/.test(portText)) {
+    return { success: false, error: `Invalid match pattern "${source}": invalid port "${portText}"` };
+  }
+
+  const matchSubdomains = host.startsWith('*.');
+  if (matchSubdomains) {
+    host = host.slice(2);
+  }
+  if (host.includes('*') && host !== '*') {
+    return { success: false, error: `Invalid match pattern "${source}": "*" must be the whole host or come first, as in "*.example.com"` };
+  }
+
+  return {
+    success: true,
+    pattern: { source, schemes, host, matchSubdomains, port: portText === '*' ? null : Number(portText), path },
+  };
+}
+
+/**
+ * Whether a match pattern covers a URL
+ *
+ * The path glob is compared against the path and query; the fragment is ignored.
+ */
+export function matchesPattern(pattern: MatchPattern, url: URL): boolean {
+  const scheme = url.protocol.slice(0, -1);
+  if (!pattern.schemes.includes(scheme)) {
+    return false;
+  }
+
+  if (scheme === 'urn') {
+    return wildcardToRegExp(pattern.path, false).test(url.pathname);
+  }
+
+  if (scheme !== 'file') {
+    const host = url.hostname.toLowerCase();
+    if (
+      pattern.host !== '*' &&
+      host !== pattern.host &&
+      !(pattern.matchSubdomains && host.endsWith(`.${pattern.host}`))
+    ) {
+      return false;
+    }
+
+    const port = url.port ? Number(url.port) : DEFAULT_PORTS[scheme];
+    if (pattern.port !== null && port !== pattern.port) {
+      return false;
+    }
+  }
+
+  return wildcardToRegExp(pattern.path, false).test(url.pathname + url.search);
+}
+
+/**
+ * Whether a content script glob covers a URL
+ *
+ * Globs match the whole URL; `*` is any run of characters and `?` exactly one.
+ */
+export function matchesGlob(glob: string, url: URL): boolean {
+  return wildcardToRegExp(glob, true).test(url.href);
+}
+
+function wildcardToRegExp(wildcard: string, questionMark: boolean): RegExp {
+  let source = '';
+  for (const char of wildcard) {
+    if (char === '*') {
+      source += '.*';
+    } else if (char === '?' && questionMark) {
+      source += '.';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 's');
+}
@@ -0,0 +1,203 @@
+/**
+ * Tests for declarative extension policies
+ */
+
+import { evaluatePolicy, globToRegExp, parsePolicy, parseSize, validatePolicy } from '../policy';
+import type { ExtensionPolicy, PolicyInput } from '../policy';
+import { DEFAULT_POLICY_TEXT } from '../policy-storage';
+
+const MANIFEST = {
+  manifest_version: 3,
+  name: 'Test',
+  version: '1.0',
+  permissions: ['storage', 'webRequestBlocking'],
+  host_permissions: ['https://example.com/*'],
+  content_scripts: [{ matches: ['<all_urls>'], js: ['content.js'] }],
+  content_security_policy: { extension_pages: "script-src 'self' https://cdn.example.com; object-src 'self'" },
+};
+
+const INPUT: PolicyInput = {
+  manifest: MANIFEST,
+  files: [
+    { path: 'manifest.json', size: 400 },
+    { path: 'content.js', size: 2000 },
+    { path: 'content.js.map', size: 9000 },
+    { path: 'lib/vendor/jquery.js', size: 90000 },
+  ],
+  packageSize: 3 * 1024 * 1024,
+  codeIssues: [],
+};
+
+function evaluate(rules: unknown[], input: PolicyInput = INPUT) {
+  const result = validatePolicy({ rules });
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return evaluatePolicy(result.policy, input);
+}
+
+function failedIds(rules: unknown[]): string[] {
+  return evaluate(rules)
+    .results.filter((result) => !result.passed)
+    .map((result) => result.id);
+}
+
+describe('Extension Policy', () => {
+  describe('parsing', () => {
+    it('should parse YAML and JSON policies', () => {
+      const yaml = parsePolicy('name: Org\nrules:\n  - id: mv3\n    type: min-manifest-version\n    version: 3\n');
+      const json = parsePolicy('{"rules": [{"id": "mv3", "type": "min-manifest-version", "version": 3}]}');
+
+      expect(yaml.success && yaml.policy.name).toBe('Org');
+      expect(yaml.success && yaml.policy.rules[0]).toEqual(
+        json.success && { ...json.policy.rules[0] }
+      );
+    });
+
+    it('should default rule severity to error', () => {
+      const result = parsePolicy('rules:\n  - id: mv3\n    type: min-manifest-version\n    version: 3\n');
+      expect(result.success && result.policy.rules[0].severity).toBe('error');
+    });
+
+    it('should report syntax errors', () => {
+      const result = parsePolicy('rules: [\n');
+      expect(result.success).toBe(false);
+      expect(!result.success && result.error).toContain('Failed to parse policy');
+    });
+
+    it('should reject invalid rules with their position', () => {
+      const unknownType = parsePolicy('rules:\n  - id: a\n    type: nope\n');
+      expect(!unknownType.success && unknownType.error).toContain('Rule 1 (a): type must be one of');
+
+      const badList = validatePolicy({ rules: [{ id: 'a', type: 'forbidden-permissions', permissions: 'tabs' }] });
+      expect(!badList.success && badList.error).toBe('Rule 1 (a): permissions must be a list of strings');
+
+      const duplicate = validatePolicy({
+        rules: [
+          { id: 'a', type: 'max-file-count', count: 1 },
+          { id: 'a', type: 'max-file-count', count: 2 },
+        ],
+      });
+      expect(!duplicate.success && duplicate.error).toBe('Rule 2: duplicate id a');
+
+      expect(validatePolicy({ rules: [] }).success).toBe(false);
+      expect(validatePolicy([]).success).toBe(false);
+    });
+
+    it('should accept the starter policy', () => {
+      expect(parsePolicy(DEFAULT_POLICY_TEXT).success).toBe(true);
+    });
+  });
+
+  describe('sizes and globs', () => {
+    it('should parse sizes with units', () => {
+      expect(parseSize(1024)).toBe(1024);
+      expect(parseSize('10MB')).toBe(10 * 1024 * 1024);
+      expect(parseSize('1.5 kb')).toBe(1536);
+      expect(parseSize('ten')).toBeNull();
+      expect(parseSize(-1)).toBeNull();
+    });
+
+    it('should match glob patterns against whole paths', () => {
+      expect(globToRegExp('*.map').test('js/app.js.map')).toBe(true);
+      expect(globToRegExp('*.map').test('js/app.js')).toBe(false);
+      expect(globToRegExp('lib/**').test('lib/vendor/jquery.js')).toBe(true);
+      expect(globToRegExp('lib/*.js').test('lib/vendor/jquery.js')).toBe(false);
+      expect(globToRegExp('**/vendor/*.js').test('lib/vendor/jquery.js')).toBe(true);
+      expect(globToRegExp('**/vendor/*.js').test('vendor/a.js')).toBe(true);
+    });
+  });
+
+  describe('evaluation', () => {
+    it('should find forbidden permissions in every manifest field', () => {
+      const report = evaluate([
+        { id: 'deny', type: 'forbidden-permissions', permissions: ['<all_urls>', 'webRequestBlocking'] },
+      ]);
+
+      expect(report.passed).toBe(false);
+      expect(report.results[0].violations.map((violation) => violation.message)).toEqual([
+        '"webRequestBlocking" is declared in permissions',
+        '"<all_urls>" is declared in content_scripts[0].matches',
+      ]);
+    });
+
+    it('should treat patterns matching every host as <all_urls>', () => {
+      const report = evaluate([{ id: 'deny', type: 'forbidden-permissions', permissions: ['<all_urls>'] }], {
+        ...INPUT,
+        manifest: {
+          ...MANIFEST,
+          host_permissions: ['*://*/*', 'http://*/*', 'https://*/*', 'https://*.example.com/*'],
+          content_scripts: [{ matches: ['https://example.com/*'], js: ['content.js'] }],
+        },
+      });
+
+      expect(report.results[0].violations.map((violation) => violation.message)).toEqual([
+        '"*://*/*" is declared in host_permissions, granting the same access as <all_urls>',
+        '"http://*/*" is declared in host_permissions, granting the same access as <all_urls>',
+        '"https://*/*" is declared in host_permissions, granting the same access as <all_urls>',
+      ]);
+    });
+
+    it('should report permissions missing from an allow list', () => {
+      const report = evaluate([{ id: 'allow', type: 'allowed-permissions', permissions: ['storage', 'https://example.com/*'] }]);
+      expect(report.results[0].violations).toHaveLength(1);
+      expect(report.results[0].violations[0].message).toContain('webRequestBlocking');
+    });
+
+    it('should check the content security policy', () => {
+      expect(failedIds([{ id: 'csp', type: 'csp', forbid: ['remote-scripts'] }])).toEqual(['csp']);
+      expect(failedIds([{ id: 'csp', type: 'csp', forbid: ['unsafe-eval', 'unsafe-inline'] }])).toEqual([]);
+    });
+
+    it('should check package size, file count and manifest version', () => {
+      expect(
+        failedIds([
+          { id: 'size', type: 'max-package-size', size: '2MB' },
+          { id: 'files', type: 'max-file-count', count: 10 },
+          { id: 'mv3', type: 'min-manifest-version', version: 3 },
+        ])
+      ).toEqual(['size']);
+    });
+
+    it('should find forbidden files', () => {
+      const report = evaluate([{ id: 'no-maps', type: 'forbidden-files', patterns: ['*.map'] }]);
+      expect(report.results[0].violations).toEqual([{ message: 'content.js.map is not allowed', file: 'content.js.map' }]);
+    });
+
+    it('should check analysis issues and risk level', () => {
+      const input: PolicyInput = {
+        ...INPUT,
+        codeIssues: [{ type: 'warning', code: 'JS_EVAL', message: 'eval()', severity: 'high', file: 'content.js', line: 3 }],
+      };
+
+      const report = evaluate(
+        [
+          { id: 'no-eval', type: 'forbidden-issues', codes: ['JS_EVAL'] },
+          { id: 'risk', type: 'max-risk-level', level: 'medium' },
+        ],
+        input
+      );
+
+      expect(report.results[0].violations[0]).toMatchObject({ file: 'content.js', line: 3 });
+      expect(report.results[1].passed).toBe(false);
+    });
+
+    it('should not fail the policy on warning rules', () => {
+      const report = evaluate([
+        { id: 'size', type: 'max-package-size', size: 1, severity: 'warning' },
+        { id: 'mv3', type: 'min-manifest-version', version: 3 },
+      ]);
+
+      expect(report.passed).toBe(true);
+      expect(report.summary).toEqual({ total: 2, passed: 1, failed: 0, warnings: 1 });
+    });
+
+    it('should keep the policy name in the report', () => {
+      const policy: ExtensionPolicy = {
+        name: 'Org',
+        rules: [{ id: 'mv3', type: 'min-manifest-version', version: 3, severity: 'error' }],
+      };
+      expect(evaluatePolicy(policy, INPUT).policyName).toBe('Org');
+    });
+  });
+});
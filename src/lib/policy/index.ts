@@ -0,0 +1,40 @@
+/**
+ * Extension policy module exports
+ */
+
+export {
+  POLICY_RULE_TYPES,
+  parsePolicy,
+  validatePolicy,
+  evaluatePolicy,
+  parseSize,
+  globToRegExp,
+} from './policy';
+export type {
+  AllowedPermissionsRule,
+  CspRequirement,
+  CspRule,
+  ExtensionPolicy,
+  ForbiddenFilesRule,
+  ForbiddenIssuesRule,
+  ForbiddenPermissionsRule,
+  ManifestVersionRule,
+  MaxFileCountRule,
+  MaxPackageSizeRule,
+  MaxRiskLevelRule,
+  PolicyInput,
+  PolicyReport,
+  PolicyResult,
+  PolicyRule,
+  PolicyRuleResult,
+  PolicyRuleSeverity,
+  PolicyRuleType,
+  PolicyViolation,
+} from './policy';
+export {
+  POLICY_STORAGE_KEY,
+  DEFAULT_POLICY_TEXT,
+  getPolicyText,
+  savePolicyText,
+  resetPolicyText,
+} from './policy-storage';
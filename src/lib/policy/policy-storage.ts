@@ -0,0 +1,86 @@
+/**
+ * Saved policy for the viewer's Policy tab
+ *
+ * The policy is kept in localStorage as the text the user typed, so YAML
+ * comments and formatting survive a reload. Until something is saved the
+ * starter policy below applies.
+ */
+
+import { parsePolicy } from './policy';
+import type { PolicyResult } from './policy';
+
+export const POLICY_STORAGE_KEY = 'crxreview_policy';
+
+export const DEFAULT_POLICY_TEXT = `name: Default extension policy
+rules:
+  - id: no-all-urls
+    type: forbidden-permissions
+    description: Extensions must not request access to every site
+    permissions: ["<all_urls>", "*://*/*", "http://*/*", "https://*/*"]
+  - id: no-blocking-web-request
+    type: forbidden-permissions
+    permissions: [webRequestBlocking, debugger, nativeMessaging]
+  - id: csp
+    type: csp
+    description: The CSP must not allow remote or inline scripts, or eval
+    forbid: [remote-scripts, unsafe-eval, unsafe-inline]
+  - id: manifest-v3
+    type: min-manifest-version
+    version: 3
+  - id: no-remote-code
+    type: forbidden-issues
+    codes: [JS_EVAL, JS_NEW_FUNCTION, REMOTE_IMPORT, REMOTE_IMPORT_SCRIPTS, REMOTE_SCRIPT_SRC, REMOTE_SCRIPT_TAG]
+  - id: package-size
+    type: max-package-size
+    size: 20MB
+    severity: warning
+`;
+
+/**
+ * Get the policy text in effect
+ *
+ * @returns Saved policy text, or the starter policy
+ */
+export function getPolicyText(): string {
+  try {
+    return localStorage.getItem(POLICY_STORAGE_KEY) ?? DEFAULT_POLICY_TEXT;
+  } catch {
+    return DEFAULT_POLICY_TEXT;
+  }
+}
+
+/**
+ * Validate and save policy text
+ *
+ * @param text - Policy as JSON or YAML
+ * @returns Result object with the parsed policy or the first problem found
+ */
+export function savePolicyText(text: string): PolicyResult {
+  const result = parsePolicy(text);
+  if (!result.success) {
+    return result;
+  }
+
+  try {
+    localStorage.setItem(POLICY_STORAGE_KEY, text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Failed to save policy: ${message}` };
+  }
+
+  return result;
+}
+
+/**
+ * Remove the saved policy so the starter policy applies again
+ *
+ * @returns Starter policy text
+ */
+export function resetPolicyText(): string {
+  try {
+    localStorage.removeItem(POLICY_STORAGE_KEY);
+  } catch {
+    // Storage unavailable; nothing was saved
+  }
+  return DEFAULT_POLICY_TEXT;
+}
@@ -0,0 +1,112 @@
+/**
+ * Tests for download settings and their use in download URLs
+ */
+
+import {
+  BUILTIN_DOWNLOAD_SETTINGS,
+  DOWNLOAD_SETTINGS_STORAGE_KEY,
+  formatStrategyList,
+  getDefaultDownloadSettings,
+  getDownloadSettings,
+  parseStrategyList,
+  resetDownloadSettings,
+  saveDownloadSettings,
+  validateDownloadSettings,
+} from '../download-settings';
+import { buildCrxDownloadUrl } from '../../crx/download';
+
+const EXTENSION_ID = 'ghbmnnjooekpmoecnnnilnnbdlolhkhi';
+
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key: string) => items.get(key) ?? null,
+    key: (index: number) => [...items.keys()][index] ?? null,
+    removeItem: (key: string) => void items.delete(key),
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+}
+
+// The tests run outside a browser
+Object.defineProperty(globalThis, 'localStorage', { value: createStorage(), configurable: true });
+
+describe('download settings', () => {
+  it('applies VITE_* overrides to the built-in defaults', () => {
+    const settings = getDefaultDownloadSettings({
+      VITE_CORS_PROXY_URL: 'https://proxy.internal/',
+      VITE_DOWNLOAD_STRATEGIES: 'win/x86-32',
+    });
+
+    expect(settings.corsProxyUrl).toBe('https://proxy.internal');
+    expect(settings.updateServerUrl).toBe(BUILTIN_DOWNLOAD_SETTINGS.updateServerUrl);
+    expect(settings.strategies).toEqual([{ os: 'win', arch: 'x86-32' }]);
+  });
+
+  it('ignores invalid VITE_* overrides', () => {
+    expect(getDefaultDownloadSettings({ VITE_CORS_PROXY_URL: 'ftp://proxy' })).toEqual(BUILTIN_DOWNLOAD_SETTINGS);
+  });
+
+  it('saves settings over the defaults and resets them', () => {
+    localStorage.clear();
+    const result = saveDownloadSettings({ ...BUILTIN_DOWNLOAD_SETTINGS, prodVersion: '120.0.6099.0' });
+
+    expect(result.success).toBe(true);
+    expect(getDownloadSettings().prodVersion).toBe('120.0.6099.0');
+
+    resetDownloadSettings();
+    expect(localStorage.getItem(DOWNLOAD_SETTINGS_STORAGE_KEY)).toBeNull();
+    expect(getDownloadSettings().prodVersion).toBe(BUILTIN_DOWNLOAD_SETTINGS.prodVersion);
+  });
+
+  it('falls back to the defaults for malformed stored settings', () => {
+    localStorage.setItem(DOWNLOAD_SETTINGS_STORAGE_KEY, '{"corsProxyUrl": "not a url"}');
+    expect(getDownloadSettings()).toEqual(getDefaultDownloadSettings());
+
+    localStorage.setItem(DOWNLOAD_SETTINGS_STORAGE_KEY, 'not json');
+    expect(getDownloadSettings()).toEqual(getDefaultDownloadSettings());
+  });
+
+  it('rejects invalid settings', () => {
+    expect(validateDownloadSettings({ ...BUILTIN_DOWNLOAD_SETTINGS, updateServerUrl: 'javascript:alert(1)' }).success).toBe(false);
+    expect(validateDownloadSettings({ ...BUILTIN_DOWNLOAD_SETTINGS, prodVersion: 'latest' }).success).toBe(false);
+    expect(validateDownloadSettings({ ...BUILTIN_DOWNLOAD_SETTINGS, strategies: [] }).success).toBe(false);
+    expect(
+      validateDownloadSettings({ ...BUILTIN_DOWNLOAD_SETTINGS, strategies: [{ os: 'linux&x=1', arch: 'arm' }] }).success
+    ).toBe(false);
+    expect(validateDownloadSettings({ ...BUILTIN_DOWNLOAD_SETTINGS, archiveUrl: 'file:///srv/crx' }).success).toBe(false);
+  });
+
+  it('treats the version archive as optional', () => {
+    const result = validateDownloadSettings({ ...BUILTIN_DOWNLOAD_SETTINGS, archiveUrl: ' http://mirror.internal/crx/ ' });
+    expect(result.success && result.value.archiveUrl).toBe('http://mirror.internal/crx');
+    expect(getDefaultDownloadSettings({}).archiveUrl).toBe('');
+  });
+
+  it('parses and formats strategy lists', () => {
+    expect(parseStrategyList('linux/x86-64, mac/arm64\nwindows/x86-64')).toEqual([
+      { os: 'linux', arch: 'x86-64' },
+      { os: 'mac', arch: 'arm64' },
+      { os: 'windows', arch: 'x86-64' },
+    ]);
+    expect(parseStrategyList('linux')).toBeNull();
+    expect(formatStrategyList(BUILTIN_DOWNLOAD_SETTINGS.strategies)).toBe(
+      'linux/x86-64, mac/x86-64, windows/x86-64, linux/arm'
+    );
+  });
+
+  it('builds update URLs from the configured server and prodversion', () => {
+    const url = buildCrxDownloadUrl(EXTENSION_ID, 'mac', 'arm64', {
+      ...BUILTIN_DOWNLOAD_SETTINGS,
+      updateServerUrl: 'https://mirror.internal/update?channel=stable',
+      prodVersion: '120.0',
+    });
+
+    expect(url).toBe(
+      `https://mirror.internal/update?channel=stable&os=mac&arch=arm64&os_arch=arm64&acceptformat=crx2,crx3&prodversion=120.0&x=id%3D${EXTENSION_ID}%26installsource%3Dondemand%26uc`
+    );
+  });
+});
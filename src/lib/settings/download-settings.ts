@@ -0,0 +1,291 @@
+/**
+ * Runtime settings for downloading extensions from their stores
+ *
+ * Store downloads go through a CORS proxy, and Chrome packages are resolved
+ * through the update server protocol, trying a list of OS/arch strategies in
+ * order. Specific versions can be loaded from an archive of past builds.
+ * Settings are layered: built-in defaults, then `VITE_*` build
+ * variables, then values saved in localStorage from the settings panel.
+ */
+
+export interface DownloadStrategy {
+  os: string;
+  arch: string;
+}
+
+export interface DownloadSettings {
+  /** CORS proxy base URL; the target is passed in its `url` query parameter */
+  corsProxyUrl: string;
+  /** Chrome update server endpoint (`.../service/update2/crx`) */
+  updateServerUrl: string;
+  /** `prodversion` sent to the update server */
+  prodVersion: string;
+  /** OS/arch combinations tried in order for Chrome downloads */
+  strategies: DownloadStrategy[];
+  /** Base URL of an archive that stores versions as `<id>/<version>.crx`; empty when there is none */
+  archiveUrl: string;
+}
+
+interface SettingsSuccess {
+  success: true;
+  value: DownloadSettings;
+}
+
+interface SettingsError {
+  success: false;
+  error: string;
+}
+
+export type DownloadSettingsResult = SettingsSuccess | SettingsError;
+
+/**
+ * Build variables that override the built-in defaults
+ */
+export interface DownloadSettingsEnv {
+  VITE_CORS_PROXY_URL?: string;
+  VITE_UPDATE_SERVER_URL?: string;
+  VITE_PRODVERSION?: string;
+  /** Comma-separated `os/arch` list, e.g. `linux/x86-64,mac/x86-64` */
+  VITE_DOWNLOAD_STRATEGIES?: string;
+  VITE_ARCHIVE_URL?: string;
+}
+
+export const DOWNLOAD_SETTINGS_STORAGE_KEY = 'crxreview_download_settings';
+
+/**
+ * Built-in defaults
+ *
+ * The maximum prodversion (2147483647) avoids noupdate responses: values
+ * below 88 return 204/noupdate. Different OS/arch combinations work for
+ * different extensions, so several are tried.
+ * See: https://gist.github.com/paulirish/78d6c1406c901be02c2d
+ */
+export const BUILTIN_DOWNLOAD_SETTINGS: DownloadSettings = {
+  corsProxyUrl: 'https://crxreview-cors-proxy.brentley.workers.dev',
+  updateServerUrl: 'https://clients2.google.com/service/update2/crx',
+  prodVersion: '2147483647',
+  strategies: [
+    { os: 'linux', arch: 'x86-64' },
+    { os: 'mac', arch: 'x86-64' },
+    { os: 'windows', arch: 'x86-64' },
+    { os: 'linux', arch: 'arm' },
+  ],
+  archiveUrl: '',
+};
+
+const PRODVERSION_PATTERN = /^\d+(\.\d+){0,3}$/;
+const STRATEGY_PART_PATTERN = /^[a-z0-9_-]+$/i;
+
+/**
+ * Get the defaults for this build: built-in values overridden by `VITE_*` variables
+ *
+ * Invalid build variables are ignored.
+ *
+ * @param env - Build variables (defaults to import.meta.env)
+ * @returns Default settings
+ */
+export function getDefaultDownloadSettings(
+  env: DownloadSettingsEnv = import.meta.env as DownloadSettingsEnv
+): DownloadSettings {
+  const result = validateDownloadSettings({
+    corsProxyUrl: env.VITE_CORS_PROXY_URL || BUILTIN_DOWNLOAD_SETTINGS.corsProxyUrl,
+    updateServerUrl: env.VITE_UPDATE_SERVER_URL || BUILTIN_DOWNLOAD_SETTINGS.updateServerUrl,
+    prodVersion: env.VITE_PRODVERSION || BUILTIN_DOWNLOAD_SETTINGS.prodVersion,
+    strategies: env.VITE_DOWNLOAD_STRATEGIES
+      ? parseStrategyList(env.VITE_DOWNLOAD_STRATEGIES) ?? []
+      : BUILTIN_DOWNLOAD_SETTINGS.strategies,
+    archiveUrl: env.VITE_ARCHIVE_URL || BUILTIN_DOWNLOAD_SETTINGS.archiveUrl,
+  });
+
+  if (result.success) {
+    return result.value;
+  }
+
+  console.warn(`Ignoring VITE_* download settings: ${result.error}`);
+  return BUILTIN_DOWNLOAD_SETTINGS;
+}
+
+/**
+ * Get the settings in effect: saved settings over the build defaults
+ *
+ * @returns Current download settings
+ */
+export function getDownloadSettings(): DownloadSettings {
+  const defaults = getDefaultDownloadSettings();
+  const stored = readStoredSettings();
+  if (!stored) {
+    return defaults;
+  }
+
+  const result = validateDownloadSettings({ ...defaults, ...stored });
+  return result.success ? result.value : defaults;
+}
+
+/**
+ * Validate and save settings to localStorage
+ *
+ * @param settings - Settings from the settings panel
+ * @returns Result object with the normalized settings or a validation error
+ */
+export function saveDownloadSettings(settings: DownloadSettings): DownloadSettingsResult {
+  const result = validateDownloadSettings(settings);
+  if (!result.success) {
+    return result;
+  }
+
+  try {
+    localStorage.setItem(DOWNLOAD_SETTINGS_STORAGE_KEY, JSON.stringify(result.value));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Failed to save settings: ${message}` };
+  }
+
+  return result;
+}
+
+/**
+ * Remove saved settings so the build defaults apply again
+ *
+ * @returns Build default settings
+ */
+export function resetDownloadSettings(): DownloadSettings {
+  try {
+    localStorage.removeItem(DOWNLOAD_SETTINGS_STORAGE_KEY);
+  } catch {
+    // Storage unavailable; nothing was saved
+  }
+  return getDefaultDownloadSettings();
+}
+
+/**
+ * Validate settings and normalize URLs and strategy names
+ *
+ * @param settings - Settings to check
+ * @returns Result object with the normalized settings or the first problem found
+ */
+export function validateDownloadSettings(settings: DownloadSettings): DownloadSettingsResult {
+  const corsProxyUrl = normalizeHttpUrl(settings.corsProxyUrl);
+  if (!corsProxyUrl) {
+    return { success: false, error: 'CORS proxy URL must be an http(s) URL' };
+  }
+
+  const updateServerUrl = normalizeHttpUrl(settings.updateServerUrl);
+  if (!updateServerUrl) {
+    return { success: false, error: 'Update server URL must be an http(s) URL' };
+  }
+
+  const prodVersion = settings.prodVersion.trim();
+  if (!PRODVERSION_PATTERN.test(prodVersion)) {
+    return { success: false, error: 'prodversion must be a number or a dotted version such as 120.0.6099.0' };
+  }
+
+  if (settings.strategies.length === 0) {
+    return { success: false, error: 'At least one OS/arch strategy is required' };
+  }
+
+  const strategies: DownloadStrategy[] = [];
+  for (const strategy of settings.strategies) {
+    const os = strategy.os.trim().toLowerCase();
+    const arch = strategy.arch.trim().toLowerCase();
+    if (!STRATEGY_PART_PATTERN.test(os) || !STRATEGY_PART_PATTERN.test(arch)) {
+      return { success: false, error: `Invalid OS/arch strategy: ${strategy.os}/${strategy.arch}` };
+    }
+    strategies.push({ os, arch });
+  }
+
+  // The archive is optional
+  const archiveUrl = settings.archiveUrl.trim() ? normalizeHttpUrl(settings.archiveUrl) : '';
+  if (archiveUrl === null) {
+    return { success: false, error: 'Version archive URL must be an http(s) URL' };
+  }
+
+  return { success: true, value: { corsProxyUrl, updateServerUrl, prodVersion, strategies, archiveUrl } };
+}
+
+/**
+ * Parse a strategy list such as `linux/x86-64, mac/x86-64`
+ *
+ * Entries may be separated by commas or new lines.
+ *
+ * @param text - Strategy list
+ * @returns Strategies, or null when an entry is not in `os/arch` form
+ */
+export function parseStrategyList(text: string): DownloadStrategy[] | null {
+  const strategies: DownloadStrategy[] = [];
+  for (const entry of text.split(/[,\n]/)) {
+    const trimmed = entry.trim();
+    if (!trimmed) {
+      continue;
+    }
+
+    const [os, arch, ...rest] = trimmed.split('/');
+    if (!os?.trim() || !arch?.trim() || rest.length > 0) {
+      return null;
+    }
+    strategies.push({ os: os.trim(), arch: arch.trim() });
+  }
+  return strategies;
+}
+
+/**
+ * Format strategies for display and editing
+ *
+ * @param strategies - Strategies in order
+ * @returns Comma-separated `os/arch` list
+ */
+export function formatStrategyList(strategies: DownloadStrategy[]): string {
+  return strategies.map((strategy) => `${strategy.os}/${strategy.arch}`).join(', ');
+}
+
+/**
+ * Read saved settings, ignoring unreadable or malformed values
+ */
+function readStoredSettings(): Partial<DownloadSettings> | null {
+  try {
+    const raw = localStorage.getItem(DOWNLOAD_SETTINGS_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return null;
+    }
+
+    const record = parsed as Record<string, unknown>;
+    const stored: Partial<DownloadSettings> = {};
+    if (typeof record.corsProxyUrl === 'string') stored.corsProxyUrl = record.corsProxyUrl;
+    if (typeof record.updateServerUrl === 'string') stored.updateServerUrl = record.updateServerUrl;
+    if (typeof record.prodVersion === 'string') stored.prodVersion = record.prodVersion;
+    if (Array.isArray(record.strategies) && record.strategies.every(isStrategy)) {
+      stored.strategies = record.strategies;
+    }
+    if (typeof record.archiveUrl === 'string') stored.archiveUrl = record.archiveUrl;
+    return stored;
+  } catch {
+    return null;
+  }
+}
+
+function isStrategy(value: unknown): value is DownloadStrategy {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as DownloadStrategy).os === 'string' &&
+    typeof (value as DownloadStrategy).arch === 'string'
+  );
+}
+
+/**
+ * Trim an http(s) URL and drop a trailing slash
+ *
+ * @returns Normalized URL, or null when the value is not an http(s) URL
+ */
+function normalizeHttpUrl(value: string): string | null {
+  const trimmed = value.trim();
+  try {
+    const url = new URL(trimmed);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return null;
+    }
+  } catch {
+    return null;
+  }
+  return trimmed.replace(/\/+$/, '');
+}
@@ -0,0 +1,21 @@
+/**
+ * Runtime settings module exports
+ */
+
+export {
+  BUILTIN_DOWNLOAD_SETTINGS,
+  DOWNLOAD_SETTINGS_STORAGE_KEY,
+  getDefaultDownloadSettings,
+  getDownloadSettings,
+  saveDownloadSettings,
+  resetDownloadSettings,
+  validateDownloadSettings,
+  parseStrategyList,
+  formatStrategyList,
+} from './download-settings';
+export type {
+  DownloadSettings,
+  DownloadSettingsEnv,
+  DownloadSettingsResult,
+  DownloadStrategy,
+} from './download-settings';
@@ -0,0 +1,113 @@
+/**
+ * Tests for source map discovery and original source reconstruction
+ */
+
+import {
+  ORIGINAL_SOURCES_ROOT,
+  buildSourceMapIndex,
+  getOriginalLocation,
+  isOriginalSourcePath,
+  withOriginalSources,
+} from '../original-sources';
+import { buildFileTree } from '../../zip/file-tree';
+
+const MAP = JSON.stringify({
+  version: 3,
+  file: 'bg.js',
+  sources: ['webpack:///./src/background.ts', 'webpack:///./src/util.ts'],
+  sourcesContent: ['import { log } from "./util";\nlog("hi");', null],
+  // line 1 -> background.ts 1, line 2 -> background.ts 2, line 3 -> util.ts 1
+  mappings: 'AAAA;AACA;ACDA',
+});
+
+describe('original-sources', () => {
+  it('should follow sourceMappingURL comments and expose embedded sources', () => {
+    const index = buildSourceMapIndex([
+      { path: 'dist/bg.js', content: 'a();\nb();\nc();\n//# sourceMappingURL=bg.js.map' },
+      { path: 'dist/bg.js.map', content: MAP },
+    ]);
+
+    const virtualPath = `${ORIGINAL_SOURCES_ROOT}/dist/bg.js/src/background.ts`;
+
+    expect([...index.bundles.keys()]).toEqual(['dist/bg.js']);
+    expect([...index.originals.keys()]).toEqual([virtualPath]);
+    expect(index.originals.get(virtualPath)?.content).toContain('log("hi")');
+    expect(index.errors).toEqual([]);
+  });
+
+  it('should read inline source maps', () => {
+    const index = buildSourceMapIndex([
+      { path: 'content.js', content: `a();\n//# sourceMappingURL=data:application/json;base64,${btoa(MAP)}` },
+    ]);
+
+    expect(index.bundles.get('content.js')?.mapPath).toBeNull();
+    expect(index.originals.size).toBe(1);
+  });
+
+  it('should pair map files without a sourceMappingURL by name', () => {
+    const index = buildSourceMapIndex([
+      { path: 'bg.js', content: 'a();' },
+      { path: 'bg.js.map', content: MAP },
+      { path: 'orphan.js.map', content: MAP },
+    ]);
+
+    expect([...index.bundles.keys()]).toEqual(['bg.js']);
+  });
+
+  it('should report unreadable source maps', () => {
+    const index = buildSourceMapIndex([
+      { path: 'bg.js', content: '//# sourceMappingURL=bg.js.map' },
+      { path: 'bg.js.map', content: '{ broken' },
+    ]);
+
+    expect(index.bundles.size).toBe(0);
+    expect(index.errors).toHaveLength(1);
+    expect(index.errors[0].path).toBe('bg.js.map');
+    expect(index.tree).toBeNull();
+  });
+
+  describe('getOriginalLocation', () => {
+    const index = buildSourceMapIndex([
+      { path: 'bg.js', content: '//# sourceMappingURL=bg.js.map' },
+      { path: 'bg.js.map', content: MAP },
+    ]);
+
+    it('should map bundled lines to original files and lines', () => {
+      expect(getOriginalLocation(index, 'bg.js', 2)).toEqual({
+        source: 'src/background.ts',
+        path: `${ORIGINAL_SOURCES_ROOT}/bg.js/src/background.ts`,
+        line: 2,
+        column: 0,
+      });
+    });
+
+    it('should return a null path for sources without embedded content', () => {
+      expect(getOriginalLocation(index, 'bg.js', 3)).toMatchObject({ source: 'src/util.ts', path: null, line: 1 });
+    });
+
+    it('should return null for unmapped files and lines', () => {
+      expect(getOriginalLocation(index, 'other.js', 1)).toBeNull();
+      expect(getOriginalLocation(index, 'bg.js', 10)).toBeNull();
+    });
+  });
+
+  describe('withOriginalSources', () => {
+    it('should append the virtual directory to the package tree', () => {
+      const tree = buildFileTree([
+        { name: 'bg.js', dir: false, size: 10, compressedSize: 10, date: new Date(0) },
+      ]);
+      const index = buildSourceMapIndex([
+        { path: 'bg.js', content: '//# sourceMappingURL=bg.js.map' },
+        { path: 'bg.js.map', content: MAP },
+      ]);
+
+      const merged = withOriginalSources(tree, index);
+      const virtualRoot = merged.children[merged.children.length - 1];
+
+      expect(merged.children.map((child) => child.path)).toEqual(['bg.js', ORIGINAL_SOURCES_ROOT]);
+      expect(virtualRoot.name).toBe('Original sources');
+      expect(isOriginalSourcePath(virtualRoot.children[0].path)).toBe(true);
+      expect(withOriginalSources(tree, null)).toBe(tree);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Tests for source map parsing and lookup
+ */
+
+import {
+  decodeVlq,
+  decodeMappings,
+  parseSourceMap,
+  originalPositionFor,
+  findSourceMappingUrl,
+  decodeInlineSourceMap,
+  resolvePackagePath,
+  normalizeSourcePath,
+} from '../source-map';
+
+function sourceMap(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    version: 3,
+    file: 'bundle.js',
+    sources: ['webpack://my-ext/./src/a.ts', 'webpack://my-ext/./src/b.ts?1a2b'],
+    sourcesContent: ['const a = 1;\nexport default a;', null],
+    names: ['a'],
+    // line 1: col 0 -> a.ts 1:0, col 4 -> a.ts 1:4 named "a"; line 2: col 2 -> b.ts 2:0
+    mappings: 'AAAA,IAAIA;ECCJ',
+    ...overrides,
+  });
+}
+
+describe('source-map', () => {
+  describe('decodeVlq', () => {
+    it('should decode positive, negative and multi-digit values', () => {
+      expect(decodeVlq('AAAA')).toEqual([0, 0, 0, 0]);
+      expect(decodeVlq('D')).toEqual([-1]);
+      expect(decodeVlq('gB')).toEqual([16]);
+    });
+
+    it('should reject invalid characters and truncated values', () => {
+      expect(decodeVlq('A!')).toBeNull();
+      expect(decodeVlq('g')).toBeNull();
+    });
+  });
+
+  describe('decodeMappings', () => {
+    it('should carry source state across lines and reset the generated column', () => {
+      const lines = decodeMappings('AAAA,IAAIA;ECCJ');
+
+      expect(lines[0]).toEqual([
+        { generatedColumn: 0, sourceIndex: 0, originalLine: 0, originalColumn: 0 },
+        { generatedColumn: 4, sourceIndex: 0, originalLine: 0, originalColumn: 4, nameIndex: 0 },
+      ]);
+      expect(lines[1]).toEqual([
+        { generatedColumn: 2, sourceIndex: 1, originalLine: 1, originalColumn: 0 },
+      ]);
+    });
+
+    it('should keep empty lines and skip column-only segments', () => {
+      expect(decodeMappings(';;C,AAAA')).toEqual([[], [], [{ generatedColumn: 1, sourceIndex: 0, originalLine: 0, originalColumn: 0 }]]);
+    });
+
+    it('should throw on malformed segments', () => {
+      expect(() => decodeMappings('AA')).toThrow('Invalid mapping segment');
+    });
+  });
+
+  describe('parseSourceMap', () => {
+    it('should normalize sources and keep embedded contents', () => {
+      const result = parseSourceMap(sourceMap());
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.map.sources).toEqual(['my-ext/src/a.ts', 'my-ext/src/b.ts']);
+        expect(result.map.sourcesContent).toEqual(['const a = 1;\nexport default a;', null]);
+        expect(result.map.file).toBe('bundle.js');
+      }
+    });
+
+    it('should apply sourceRoot to relative sources', () => {
+      const result = parseSourceMap(sourceMap({ sourceRoot: 'lib/', sources: ['x.js'], sourcesContent: [] }));
+
+      expect(result.success && result.map.sources).toEqual(['lib/x.js']);
+    });
+
+    it('should reject invalid documents', () => {
+      expect(parseSourceMap('not json').success).toBe(false);
+      expect(parseSourceMap(sourceMap({ version: 2 })).success).toBe(false);
+      expect(parseSourceMap(JSON.stringify({ version: 3, sections: [] })).success).toBe(false);
+      expect(parseSourceMap(sourceMap({ mappings: 'A!' })).success).toBe(false);
+    });
+  });
+
+  describe('originalPositionFor', () => {
+    const result = parseSourceMap(sourceMap());
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+    const map = result.map;
+
+    it('should map a line to its first segment', () => {
+      expect(originalPositionFor(map, 2)).toEqual({
+        sourceIndex: 1,
+        source: 'my-ext/src/b.ts',
+        line: 2,
+        column: 0,
+      });
+    });
+
+    it('should pick the closest segment at or before a column', () => {
+      expect(originalPositionFor(map, 1, 10)).toEqual({
+        sourceIndex: 0,
+        source: 'my-ext/src/a.ts',
+        line: 1,
+        column: 4,
+        name: 'a',
+      });
+    });
+
+    it('should return null for unmapped lines', () => {
+      expect(originalPositionFor(map, 3)).toBeNull();
+    });
+  });
+
+  describe('findSourceMappingUrl', () => {
+    it('should find line and block comments and prefer the last one', () => {
+      expect(findSourceMappingUrl('a();\n//# sourceMappingURL=a.js.map')).toBe('a.js.map');
+      expect(findSourceMappingUrl('a{}\n/*# sourceMappingURL=a.css.map */')).toBe('a.css.map');
+      expect(findSourceMappingUrl('//# sourceMappingURL=old.map\n//@ sourceMappingURL=new.map')).toBe('new.map');
+      expect(findSourceMappingUrl('const url = "sourceMappingURL=x";')).toBeNull();
+    });
+  });
+
+  describe('decodeInlineSourceMap', () => {
+    it('should decode base64 and percent-encoded data URLs', () => {
+      const json = '{"version":3}';
+
+      expect(decodeInlineSourceMap(`data:application/json;charset=utf-8;base64,${btoa(json)}`)).toBe(json);
+      expect(decodeInlineSourceMap(`data:application/json,${encodeURIComponent(json)}`)).toBe(json);
+      expect(decodeInlineSourceMap('bundle.js.map')).toBeNull();
+    });
+  });
+
+  describe('resolvePackagePath', () => {
+    it('should resolve relative and root-relative URLs', () => {
+      expect(resolvePackagePath('dist/js/bg.js', 'bg.js.map')).toBe('dist/js/bg.js.map');
+      expect(resolvePackagePath('dist/js/bg.js', '../maps/bg.js.map?v=2')).toBe('dist/maps/bg.js.map');
+      expect(resolvePackagePath('dist/js/bg.js', '/maps/bg.js.map')).toBe('maps/bg.js.map');
+    });
+
+    it('should ignore external URLs', () => {
+      expect(resolvePackagePath('bg.js', 'https://example.com/bg.js.map')).toBeNull();
+    });
+  });
+
+  describe('normalizeSourcePath', () => {
+    it('should strip schemes, dot segments and leading parent segments', () => {
+      expect(normalizeSourcePath('webpack:///./src/index.ts')).toBe('src/index.ts');
+      expect(normalizeSourcePath('../../node_modules/lib/index.js')).toBe('node_modules/lib/index.js');
+      expect(normalizeSourcePath('webpack:///webpack/bootstrap')).toBe('webpack/bootstrap');
+    });
+  });
+});
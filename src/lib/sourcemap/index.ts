@@ -0,0 +1,37 @@
+/**
+ * Source map module exports
+ */
+
+export {
+  decodeVlq,
+  decodeMappings,
+  parseSourceMap,
+  originalPositionFor,
+  findSourceMappingUrl,
+  decodeInlineSourceMap,
+  resolvePackagePath,
+  normalizeSourcePath,
+} from './source-map';
+export type {
+  RawSourceMap,
+  MappingSegment,
+  ParsedSourceMap,
+  OriginalPosition,
+  SourceMapResult,
+} from './source-map';
+
+export {
+  ORIGINAL_SOURCES_ROOT,
+  isSourceMapCandidate,
+  isOriginalSourcePath,
+  buildSourceMapIndex,
+  getOriginalLocation,
+  withOriginalSources,
+} from './original-sources';
+export type {
+  SourceMapFile,
+  BundleSourceMap,
+  OriginalSource,
+  OriginalLocation,
+  SourceMapIndex,
+} from './original-sources';
@@ -0,0 +1,263 @@
+/**
+ * Original source reconstruction from source maps
+ *
+ * Pairs bundled JavaScript and CSS files with their source maps (external
+ * `.map` files, inline `data:` maps, or a `.map` file next to the bundle) and
+ * exposes the embedded `sourcesContent` as a virtual file tree under
+ * ORIGINAL_SOURCES_ROOT. Virtual paths are
+ * `$original/<bundled file path>/<original source path>`.
+ */
+
+import { buildFileTree } from '../zip/file-tree';
+import type { FileTreeNode } from '../zip/file-tree';
+import {
+  decodeInlineSourceMap,
+  findSourceMappingUrl,
+  originalPositionFor,
+  parseSourceMap,
+  resolvePackagePath,
+} from './source-map';
+import type { ParsedSourceMap } from './source-map';
+
+/**
+ * Root path of the virtual original sources subtree
+ */
+export const ORIGINAL_SOURCES_ROOT = '$original';
+
+const ORIGINAL_SOURCES_LABEL = 'Original sources';
+
+const GENERATED_FILE_PATTERN = /\.(m?js|cjs|css)$/i;
+
+const SOURCE_MAP_FILE_PATTERN = /\.map$/i;
+
+export interface SourceMapFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * A bundled file and the source map describing it
+ */
+export interface BundleSourceMap {
+  generatedPath: string;
+  /** Path of the `.map` file, or null for inline maps */
+  mapPath: string | null;
+  map: ParsedSourceMap;
+  /** Virtual path for each source, or null where the content is not embedded */
+  sourcePaths: Array<string | null>;
+}
+
+export interface OriginalSource {
+  path: string;
+  generatedPath: string;
+  source: string;
+  content: string;
+}
+
+/**
+ * Original location of a bundled line
+ */
+export interface OriginalLocation {
+  source: string;
+  /** Virtual path of the original source, or null if its content is not embedded */
+  path: string | null;
+  /** 1-based line in the original source */
+  line: number;
+  column: number;
+}
+
+export interface SourceMapIndex {
+  /** Source maps keyed by bundled file path */
+  bundles: Map<string, BundleSourceMap>;
+  /** Original sources keyed by virtual path */
+  originals: Map<string, OriginalSource>;
+  /** Virtual "Original sources" directory, or null if no map embeds sources */
+  tree: FileTreeNode | null;
+  /** Source maps that were referenced or found but could not be read */
+  errors: Array<{ path: string; error: string }>;
+}
+
+/**
+ * Whether a file may be a bundle or a source map
+ *
+ * @param path - File path within the package
+ * @returns True for JavaScript, CSS and `.map` files
+ */
+export function isSourceMapCandidate(path: string): boolean {
+  return GENERATED_FILE_PATTERN.test(path) || SOURCE_MAP_FILE_PATTERN.test(path);
+}
+
+/**
+ * Whether a path belongs to the virtual original sources subtree
+ *
+ * @param path - File tree path
+ * @returns True for paths under ORIGINAL_SOURCES_ROOT
+ */
+export function isOriginalSourcePath(path: string): boolean {
+  return path === ORIGINAL_SOURCES_ROOT || path.startsWith(`${ORIGINAL_SOURCES_ROOT}/`);
+}
+
+/**
+ * Detect source maps in a package and index their original sources
+ *
+ * A bundle's `sourceMappingURL` takes precedence; remaining `.map` files are
+ * paired with the file named by their `file` field or with the file of the
+ * same name without `.map`.
+ *
+ * @param files - JavaScript, CSS and `.map` files of the package
+ * @returns Bundles with source maps, virtual original sources and read errors
+ */
+export function buildSourceMapIndex(files: SourceMapFile[]): SourceMapIndex {
+  const contents = new Map(files.map((file) => [file.path, file.content]));
+  const bundles = new Map<string, BundleSourceMap>();
+  const errors: SourceMapIndex['errors'] = [];
+  const claimedMaps = new Set<string>();
+
+  const addBundle = (generatedPath: string, mapPath: string | null, json: string) => {
+    const result = parseSourceMap(json);
+    if (!result.success) {
+      errors.push({ path: mapPath ?? generatedPath, error: result.error });
+      return;
+    }
+
+    const sourcePaths = result.map.sources.map((source, index) =>
+      result.map.sourcesContent[index] !== null ? `${ORIGINAL_SOURCES_ROOT}/${generatedPath}/${source}` : null
+    );
+    bundles.set(generatedPath, { generatedPath, mapPath, map: result.map, sourcePaths });
+  };
+
+  for (const file of files) {
+    if (!GENERATED_FILE_PATTERN.test(file.path)) {
+      continue;
+    }
+
+    const url = findSourceMappingUrl(file.content);
+    if (!url) {
+      continue;
+    }
+
+    const inline = decodeInlineSourceMap(url);
+    if (inline !== null) {
+      addBundle(file.path, null, inline);
+      continue;
+    }
+
+    const mapPath = resolvePackagePath(file.path, url);
+    const json = mapPath !== null ? contents.get(mapPath) : undefined;
+    if (mapPath === null || json === undefined) {
+      // External or missing maps are common in published packages; nothing to show
+      continue;
+    }
+
+    claimedMaps.add(mapPath);
+    addBundle(file.path, mapPath, json);
+  }
+
+  for (const file of files) {
+    if (!SOURCE_MAP_FILE_PATTERN.test(file.path) || claimedMaps.has(file.path)) {
+      continue;
+    }
+
+    const generatedPath = findGeneratedFile(file, contents);
+    if (generatedPath && !bundles.has(generatedPath)) {
+      addBundle(generatedPath, file.path, file.content);
+    }
+  }
+
+  const originals = new Map<string, OriginalSource>();
+  for (const bundle of bundles.values()) {
+    bundle.sourcePaths.forEach((path, index) => {
+      const content = bundle.map.sourcesContent[index];
+      if (path !== null && content !== null && !originals.has(path)) {
+        originals.set(path, {
+          path,
+          generatedPath: bundle.generatedPath,
+          source: bundle.map.sources[index],
+          content,
+        });
+      }
+    });
+  }
+
+  return { bundles, originals, tree: buildOriginalSourcesTree(originals), errors };
+}
+
+/**
+ * Map a bundled line to its original source
+ *
+ * @param index - Source map index of the package
+ * @param generatedPath - Bundled file path
+ * @param line - 1-based line in the bundled file
+ * @returns Original location, or null if the file or line has no mapping
+ */
+export function getOriginalLocation(
+  index: SourceMapIndex,
+  generatedPath: string,
+  line: number
+): OriginalLocation | null {
+  const bundle = index.bundles.get(generatedPath);
+  if (!bundle) {
+    return null;
+  }
+
+  const position = originalPositionFor(bundle.map, line);
+  if (!position) {
+    return null;
+  }
+
+  return {
+    source: position.source,
+    path: bundle.sourcePaths[position.sourceIndex] ?? null,
+    line: position.line,
+    column: position.column,
+  };
+}
+
+/**
+ * Add the virtual original sources directory to a package file tree
+ *
+ * @param tree - Root of the package file tree
+ * @param index - Source map index of the package
+ * @returns New root with the virtual directory appended, or the same root if there is none
+ */
+export function withOriginalSources(tree: FileTreeNode, index: SourceMapIndex | null): FileTreeNode {
+  if (!index?.tree) {
+    return tree;
+  }
+  return { ...tree, children: [...tree.children, index.tree] };
+}
+
+function findGeneratedFile(mapFile: SourceMapFile, contents: Map<string, string>): string | null {
+  let declaredFile: string | null = null;
+  try {
+    const raw = JSON.parse(mapFile.content) as { file?: unknown };
+    declaredFile = typeof raw.file === 'string' ? raw.file : null;
+  } catch {
+    // Reported when the map is parsed
+  }
+
+  const candidates = [
+    declaredFile !== null ? resolvePackagePath(mapFile.path, declaredFile) : null,
+    mapFile.path.replace(SOURCE_MAP_FILE_PATTERN, ''),
+  ];
+  return candidates.find((path): path is string => path !== null && contents.has(path)) ?? null;
+}
+
+function buildOriginalSourcesTree(originals: Map<string, OriginalSource>): FileTreeNode | null {
+  if (originals.size === 0) {
+    return null;
+  }
+
+  const root = buildFileTree(
+    [...originals.values()].map((original) => ({
+      name: original.path,
+      dir: false,
+      size: original.content.length,
+      compressedSize: 0,
+      date: new Date(0),
+    }))
+  );
+
+  const node = root.children.find((child) => child.path === ORIGINAL_SOURCES_ROOT);
+  return node ? { ...node, name: ORIGINAL_SOURCES_LABEL } : null;
+}
@@ -0,0 +1,367 @@
+/**
+ * Source map (revision 3) parsing and lookup
+ *
+ * Decodes the VLQ `mappings` string of a source map into per-line segments
+ * and maps bundled lines back to their original file and line. Also finds
+ * `sourceMappingURL` comments and resolves the paths they point to inside
+ * the package.
+ */
+
+export interface RawSourceMap {
+  version: number;
+  file?: string;
+  sourceRoot?: string;
+  sources: Array<string | null>;
+  sourcesContent?: Array<string | null>;
+  names?: string[];
+  mappings: string;
+}
+
+/**
+ * One decoded mapping segment; lines and columns are 0-based
+ */
+export interface MappingSegment {
+  generatedColumn: number;
+  sourceIndex: number;
+  originalLine: number;
+  originalColumn: number;
+  nameIndex?: number;
+}
+
+export interface ParsedSourceMap {
+  file: string | null;
+  /** Normalized, package-style source paths (e.g. "src/background.ts") */
+  sources: string[];
+  /** Embedded original contents, or null where the map does not include them */
+  sourcesContent: Array<string | null>;
+  names: string[];
+  /** Segments for each generated line, sorted by generated column */
+  lines: MappingSegment[][];
+}
+
+/**
+ * Original position of a generated location
+ */
+export interface OriginalPosition {
+  sourceIndex: number;
+  source: string;
+  /** 1-based line in the original source */
+  line: number;
+  /** 0-based column in the original source */
+  column: number;
+  name?: string;
+}
+
+interface SourceMapSuccess {
+  success: true;
+  map: ParsedSourceMap;
+}
+
+interface SourceMapError {
+  success: false;
+  error: string;
+}
+
+export type SourceMapResult = SourceMapSuccess | SourceMapError;
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const BASE64_VALUES = new Map<string, number>([...BASE64_CHARS].map((char, index) => [char, index]));
+
+const SOURCE_MAPPING_URL_PATTERN = /(?:\/\/|\/\*)\s*[#@]\s*sourceMappingURL=([^\s'"*]+)/g;
+
+const INLINE_SOURCE_MAP_PATTERN = /^data:application\/json[^,]*?(;base64)?,(.*)$/i;
+
+/**
+ * Decode one comma-separated segment of Base64 VLQ values
+ *
+ * @param segment - Encoded segment (e.g. "AAAA")
+ * @returns Decoded values, or null if the segment is malformed
+ */
+export function decodeVlq(segment: string): number[] | null {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) {
+      return null;
+    }
+
+    value += (digit & 31) * 2 ** shift;
+
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+
+    const magnitude = Math.floor(value / 2);
+    values.push(value % 2 === 1 ? -magnitude : magnitude);
+    value = 0;
+    shift = 0;
+  }
+
+  // A continuation bit on the last digit means the segment was cut short
+  return shift === 0 ? values : null;
+}
+
+/**
+ * Decode a source map `mappings` string
+ *
+ * Segments that only carry a generated column (no source) are dropped.
+ *
+ * @param mappings - Encoded mappings
+ * @returns Segments for each generated line
+ * @throws {Error} If a segment is malformed
+ */
+export function decodeMappings(mappings: string): MappingSegment[][] {
+  const lines: MappingSegment[][] = [];
+  let sourceIndex = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+  let nameIndex = 0;
+
+  for (const [lineIndex, encodedLine] of mappings.split(';').entries()) {
+    const segments: MappingSegment[] = [];
+    let generatedColumn = 0;
+
+    for (const encoded of encodedLine.split(',')) {
+      if (!encoded) {
+        continue;
+      }
+
+      const values = decodeVlq(encoded);
+      if (!values || (values.length !== 1 && values.length !== 4 && values.length !== 5)) {
+        throw new Error(`Invalid mapping segment "${encoded}" on line ${lineIndex + 1}`);
+      }
+
+      generatedColumn += values[0];
+      if (values.length === 1) {
+        continue;
+      }
+
+      sourceIndex += values[1];
+      originalLine += values[2];
+      originalColumn += values[3];
+
+      const segment: MappingSegment = { generatedColumn, sourceIndex, originalLine, originalColumn };
+      if (values.length === 5) {
+        nameIndex += values[4];
+        segment.nameIndex = nameIndex;
+      }
+      segments.push(segment);
+    }
+
+    segments.sort((a, b) => a.generatedColumn - b.generatedColumn);
+    lines.push(segments);
+  }
+
+  return lines;
+}
+
+/**
+ * Parse a source map document
+ *
+ * Index maps (with `sections`) are not supported.
+ *
+ * @param json - Source map JSON text
+ * @returns Result object with success flag and either the parsed map or error message
+ */
+export function parseSourceMap(json: string): SourceMapResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json.replace(/^\)\]\}'[^\n]*\n/, ''));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Invalid source map JSON: ${message}` };
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { success: false, error: 'Invalid source map: expected a JSON object' };
+  }
+
+  const map = raw as Partial<RawSourceMap> & { sections?: unknown };
+  if ('sections' in map) {
+    return { success: false, error: 'Indexed source maps are not supported' };
+  }
+  if (map.version !== 3) {
+    return { success: false, error: `Unsupported source map version: ${String(map.version)}` };
+  }
+  if (!Array.isArray(map.sources) || typeof map.mappings !== 'string') {
+    return { success: false, error: 'Invalid source map: missing sources or mappings' };
+  }
+
+  let lines: MappingSegment[][];
+  try {
+    lines = decodeMappings(map.mappings);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Invalid source map mappings: ${message}` };
+  }
+
+  const sourceRoot = typeof map.sourceRoot === 'string' ? map.sourceRoot : '';
+  const sources = map.sources.map((source, index) =>
+    normalizeSourcePath(typeof source === 'string' ? source : '', sourceRoot) || `source-${index}`
+  );
+
+  return {
+    success: true,
+    map: {
+      file: typeof map.file === 'string' ? map.file : null,
+      sources,
+      sourcesContent: sources.map((_, index) => {
+        const content = map.sourcesContent?.[index];
+        return typeof content === 'string' ? content : null;
+      }),
+      names: Array.isArray(map.names) ? map.names : [],
+      lines,
+    },
+  };
+}
+
+/**
+ * Find the original position of a generated location
+ *
+ * Without a column, the first mapped segment of the line is used.
+ *
+ * @param map - Parsed source map
+ * @param line - 1-based generated line
+ * @param column - 0-based generated column
+ * @returns Original position, or null if the line has no mapping
+ */
+export function originalPositionFor(
+  map: ParsedSourceMap,
+  line: number,
+  column?: number
+): OriginalPosition | null {
+  const segments = map.lines[line - 1];
+  if (!segments || segments.length === 0) {
+    return null;
+  }
+
+  let segment = segments[0];
+  if (column !== undefined) {
+    for (const candidate of segments) {
+      if (candidate.generatedColumn > column) {
+        break;
+      }
+      segment = candidate;
+    }
+  }
+
+  const source = map.sources[segment.sourceIndex];
+  if (source === undefined) {
+    return null;
+  }
+
+  const position: OriginalPosition = {
+    sourceIndex: segment.sourceIndex,
+    source,
+    line: segment.originalLine + 1,
+    column: segment.originalColumn,
+  };
+  if (segment.nameIndex !== undefined && map.names[segment.nameIndex] !== undefined) {
+    position.name = map.names[segment.nameIndex];
+  }
+  return position;
+}
+
+/**
+ * Find the `sourceMappingURL` of a JavaScript or CSS file
+ *
+ * @param content - File content
+ * @returns URL from the last sourceMappingURL comment, or null if there is none
+ */
+export function findSourceMappingUrl(content: string): string | null {
+  let url: string | null = null;
+  for (const match of content.matchAll(SOURCE_MAPPING_URL_PATTERN)) {
+    url = match[1];
+  }
+  return url;
+}
+
+/**
+ * Decode a `data:application/json` source map URL
+ *
+ * @param url - sourceMappingURL value
+ * @returns Source map JSON text, or null if the URL is not an inline map
+ */
+export function decodeInlineSourceMap(url: string): string | null {
+  const match = INLINE_SOURCE_MAP_PATTERN.exec(url);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    if (!match[1]) {
+      return decodeURIComponent(match[2]);
+    }
+    const bytes = Uint8Array.from(atob(match[2]), (char) => char.charCodeAt(0));
+    return new TextDecoder('utf-8').decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve a URL referenced from a package file to a path inside the package
+ *
+ * Relative URLs resolve against the referencing file's directory and
+ * root-relative URLs against the package root.
+ *
+ * @param fromPath - Path of the referencing file
+ * @param url - Referenced URL
+ * @returns Package path, or null for external URLs
+ */
+export function resolvePackagePath(fromPath: string, url: string): string | null {
+  const withoutQuery = url.replace(/[?#].*$/, '');
+  if (!withoutQuery || /^[a-z][a-z0-9+.-]*:/i.test(withoutQuery)) {
+    return null;
+  }
+
+  let decoded = withoutQuery;
+  try {
+    decoded = decodeURIComponent(withoutQuery);
+  } catch {
+    // Keep the raw URL when it is not valid percent-encoding
+  }
+
+  const baseParts = decoded.startsWith('/') ? [] : fromPath.split('/').slice(0, -1);
+  return joinSegments([...baseParts, ...decoded.split('/')]);
+}
+
+/**
+ * Turn a source map `sources` entry into a package-style path
+ *
+ * Drops bundler URL schemes (e.g. `webpack://`), query strings and `.`
+ * segments; leading `..` segments are removed since the original tree has
+ * no parent to climb into.
+ *
+ * @param source - Entry from `sources`
+ * @param sourceRoot - Optional `sourceRoot` of the map
+ * @returns Normalized path, or an empty string if nothing is left
+ */
+export function normalizeSourcePath(source: string, sourceRoot = ''): string {
+  const combined = sourceRoot && !/^[a-z][a-z0-9+.-]*:/i.test(source)
+    ? `${sourceRoot.replace(/\/+$/, '')}/${source}`
+    : source;
+
+  const withoutScheme = combined.replace(/^[a-z][a-z0-9+.-]*:\/*/i, '').replace(/\?.*$/, '');
+  return joinSegments(withoutScheme.split('/'));
+}
+
+function joinSegments(segments: string[]): string {
+  const parts: string[] = [];
+  for (const segment of segments) {
+    if (segment === '' || segment === '.') {
+      continue;
+    }
+    if (segment === '..') {
+      parts.pop();
+      continue;
+    }
+    parts.push(segment);
+  }
+  return parts.join('/');
+}
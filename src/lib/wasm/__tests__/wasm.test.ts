@@ -0,0 +1,133 @@
+/**
+ * Tests for the WebAssembly parser and disassembler
+ */
+
+import { classifyJsBridge, isWasmModule, parseWasmModule } from '../wasm-parser';
+import type { WasmModule } from '../wasm-parser';
+import { disassembleFunction } from '../wasm-disassembler';
+
+function name(value: string): number[] {
+  const bytes = Array.from(new TextEncoder().encode(value));
+  return [bytes.length, ...bytes];
+}
+
+function section(id: number, content: number[]): number[] {
+  return [id, content.length, ...content];
+}
+
+/**
+ * A module importing a wasm-bindgen function and a memory, exporting an
+ * `add` function whose body calls the import inside a block
+ */
+function buildModule(): Uint8Array {
+  return new Uint8Array([
+    0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00,
+    // type: (i32 i32) -> i32, () -> ()
+    ...section(1, [0x02, 0x60, 0x02, 0x7f, 0x7f, 0x01, 0x7f, 0x60, 0x00, 0x00]),
+    // import: wbg.__wbg_log_1a2b func type 1, env.memory memory 1..16
+    ...section(2, [
+      0x02,
+      ...name('wbg'), ...name('__wbg_log_1a2b'), 0x00, 0x01,
+      ...name('env'), ...name('memory'), 0x02, 0x01, 0x01, 0x10,
+    ]),
+    // function: one defined function of type 0
+    ...section(3, [0x01, 0x00]),
+    // export: add = func 1, memory = memory 0
+    ...section(7, [0x02, ...name('add'), 0x00, 0x01, ...name('memory'), 0x02, 0x00]),
+    // code: local.get 0, local.get 1, i32.add, block, call 0, end, end
+    ...section(10, [0x01, 0x0c, 0x00, 0x20, 0x00, 0x20, 0x01, 0x6a, 0x02, 0x40, 0x10, 0x00, 0x0b, 0x0b]),
+    // name: function 1 is add_two
+    ...section(0, [...name('name'), 0x01, 0x0a, 0x01, 0x01, ...name('add_two')]),
+  ]);
+}
+
+function parse(data: Uint8Array): WasmModule {
+  const result = parseWasmModule(data);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.module;
+}
+
+describe('wasm-parser', () => {
+  it('should list imports, exports, memories and custom sections', () => {
+    const module = parse(buildModule());
+
+    expect(module.imports).toEqual([
+      {
+        module: 'wbg',
+        name: '__wbg_log_1a2b',
+        kind: 'func',
+        description: '',
+        jsBridge: 'wasm-bindgen JS binding',
+      },
+      { module: 'env', name: 'memory', kind: 'memory', description: 'memory 1 16', jsBridge: null },
+    ]);
+    expect(module.exports).toEqual([
+      { name: 'add', kind: 'func', index: 1 },
+      { name: 'memory', kind: 'memory', index: 0 },
+    ]);
+    expect(module.memories).toEqual([{ limits: { min: 1, max: 16, shared: false }, imported: true }]);
+    expect(module.customSections).toEqual([{ name: 'name', size: 17 }]);
+    expect(module.sections.map((entry) => entry.name)).toEqual(['type', 'import', 'function', 'export', 'code', 'name']);
+  });
+
+  it('should name functions from the name section before exports', () => {
+    const module = parse(buildModule());
+
+    expect(module.functions.map((fn) => [fn.index, fn.name, fn.imported])).toEqual([
+      [0, null, true],
+      [1, 'add_two', false],
+    ]);
+    expect(module.functions[1].type).toEqual({ params: ['i32', 'i32'], results: ['i32'] });
+  });
+
+  it('should reject data that is not a module', () => {
+    expect(isWasmModule(new TextEncoder().encode('not wasm at all'))).toBe(false);
+    expect(parseWasmModule(new Uint8Array([0x00, 0x61, 0x73, 0x6d]))).toEqual({
+      success: false,
+      error: 'Not a WebAssembly module: missing \\0asm header',
+    });
+
+    const truncated = buildModule().subarray(0, 24);
+    const result = parseWasmModule(truncated);
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toMatch(/^Failed to parse WebAssembly module: Unexpected end of data/);
+  });
+
+  it('should flag imports that bridge into JavaScript', () => {
+    expect(classifyJsBridge('env', 'emscripten_run_script', 'func')).toBe('Emscripten inline JavaScript');
+    expect(classifyJsBridge('go', 'runtime.wasmExit', 'func')).toBe('Go runtime (syscall/js)');
+    expect(classifyJsBridge('env', 'js_fetch', 'func')).toBe('Named after a browser API');
+    expect(classifyJsBridge('env', 'abort', 'func')).toBeNull();
+    expect(classifyJsBridge('wbg', 'memory', 'memory')).toBeNull();
+  });
+});
+
+describe('wasm-disassembler', () => {
+  it('should render function bodies with indented blocks and named calls', () => {
+    const data = buildModule();
+    const module = parse(data);
+
+    expect(disassembleFunction(data, module, 1)).toBe(
+      [
+        '(func $add_two (;1;) (export "add") (param i32 i32) (result i32)',
+        '  local.get 0',
+        '  local.get 1',
+        '  i32.add',
+        '  block',
+        '    call 0',
+        '  end',
+        ')',
+      ].join('\n')
+    );
+  });
+
+  it('should show imported functions as import declarations', () => {
+    const data = buildModule();
+    const module = parse(data);
+
+    expect(disassembleFunction(data, module, 0)).toBe('(import "wbg" "__wbg_log_1a2b" (func 0))');
+    expect(disassembleFunction(data, module, 5)).toBe(';; function 5 does not exist');
+  });
+});
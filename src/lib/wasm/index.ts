@@ -0,0 +1,27 @@
+/**
+ * WebAssembly inspection module exports
+ */
+
+export { parseWasmModule, isWasmModule, classifyJsBridge, formatFuncType } from './wasm-parser';
+export type {
+  WasmCustomSection,
+  WasmExport,
+  WasmExternalKind,
+  WasmFunction,
+  WasmFuncType,
+  WasmGlobal,
+  WasmImport,
+  WasmLimits,
+  WasmMemory,
+  WasmModule,
+  WasmSection,
+  WasmTable,
+} from './wasm-parser';
+
+export { disassembleFunction, functionLabel, MAX_DISASSEMBLY_LINES } from './wasm-disassembler';
+
+export { readInstruction } from './wasm-instructions';
+export type { WasmInstruction, WasmInstructionKind } from './wasm-instructions';
+
+export { WasmReader, valueTypeName } from './wasm-reader';
+export type { WasmValueType } from './wasm-reader';
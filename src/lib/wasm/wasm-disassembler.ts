@@ -0,0 +1,100 @@
+/**
+ * WAT-style disassembly of WebAssembly function bodies
+ *
+ * Produces text in the flat (non-folded) text format: one instruction per
+ * line, indented by block depth, with calls resolved to function names.
+ * The output is for reading, not for assembling again; SIMD and atomic
+ * instructions show their opcode numbers.
+ */
+
+import { WasmReader } from './wasm-reader';
+import type { WasmValueType } from './wasm-reader';
+import { readInstruction } from './wasm-instructions';
+import { formatFuncType } from './wasm-parser';
+import type { WasmFunction, WasmModule } from './wasm-parser';
+
+/**
+ * Lines after which a function body is cut off
+ */
+export const MAX_DISASSEMBLY_LINES = 20000;
+
+const INDENT = '  ';
+
+/**
+ * Disassemble one function
+ *
+ * @param data - Module bytes the module summary was parsed from
+ * @param module - Parsed module
+ * @param index - Function index, counting imported functions
+ * @returns WAT-style text, or an import declaration for imported functions
+ */
+export function disassembleFunction(data: Uint8Array, module: WasmModule, index: number): string {
+  const fn = module.functions[index];
+  if (!fn) {
+    return `;; function ${index} does not exist`;
+  }
+
+  if (!fn.body) {
+    const imported = module.imports.filter((entry) => entry.kind === 'func')[index];
+    const signature = formatFuncType(fn.type);
+    return `(import "${imported?.module}" "${imported?.name}" (func ${functionLabel(fn)}${signature ? ` ${signature}` : ''}))`;
+  }
+
+  const reader = new WasmReader(data.subarray(0, fn.body.offset + fn.body.size), fn.body.offset);
+  const lines = [functionHeader(module, fn)];
+
+  try {
+    const locals = reader.readVector(() => ({ count: reader.readU32(), type: reader.readValueType() }));
+    for (const local of locals.filter((group) => group.count > 0)) {
+      lines.push(`${INDENT}${formatLocals(local.type, local.count)}`);
+    }
+
+    let depth = 1;
+    while (!reader.isAtEnd) {
+      const instruction = readInstruction(reader);
+      if (instruction.kind === 'end' && depth === 1 && reader.isAtEnd) {
+        break;
+      }
+      if (lines.length >= MAX_DISASSEMBLY_LINES) {
+        lines.push(`${INDENT};; ... truncated after ${MAX_DISASSEMBLY_LINES} lines`);
+        break;
+      }
+
+      if (instruction.kind === 'end' || instruction.kind === 'else') {
+        depth = Math.max(1, depth - 1);
+      }
+
+      const target = instruction.functionIndex !== undefined ? module.functions[instruction.functionIndex] : undefined;
+      const immediates = target ? [functionLabel(target)] : instruction.immediates;
+      lines.push(`${INDENT.repeat(depth)}${[instruction.mnemonic, ...immediates].join(' ')}`);
+
+      if (instruction.kind === 'block' || instruction.kind === 'else') {
+        depth++;
+      }
+    }
+  } catch (error) {
+    lines.push(`${INDENT};; ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  lines.push(')');
+  return lines.join('\n');
+}
+
+/**
+ * Reference to a function: its sanitized name, or its index
+ */
+export function functionLabel(fn: WasmFunction): string {
+  return fn.name ? `$${fn.name.replace(/[^\w!#$%&'*+\-./:<=>?@\\^`|~]/g, '_')}` : String(fn.index);
+}
+
+function formatLocals(type: WasmValueType, count: number): string {
+  return count > 8 ? `(local ${type}) (;x${count};)` : `(local ${Array(count).fill(type).join(' ')})`;
+}
+
+function functionHeader(module: WasmModule, fn: WasmFunction): string {
+  const exports = module.exports
+    .filter((entry) => entry.kind === 'func' && entry.index === fn.index)
+    .map((entry) => `(export "${entry.name}")`);
+  const signature = formatFuncType(fn.type);
+  return [`(func ${functionLabel(fn)} (;${fn.index};)`, ...exports, signature].filter(Boolean).join(' ');
+}
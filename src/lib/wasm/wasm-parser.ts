@@ -0,0 +1,414 @@
+/**
+ * WebAssembly module parser
+ *
+ * Reads the sections of a binary module into a plain, JSON-friendly
+ * summary: types, imports, exports, functions, tables, memories, globals
+ * and custom sections, with function names from the "name" section.
+ * Function bodies are located but not decoded; see wasm-disassembler.
+ * Imports that call out into JavaScript are flagged with the reason.
+ */
+
+import { WasmReader } from './wasm-reader';
+import type { WasmValueType } from './wasm-reader';
+import { readInstruction } from './wasm-instructions';
+
+export type WasmExternalKind = 'func' | 'table' | 'memory' | 'global' | 'tag';
+
+export interface WasmFuncType {
+  params: WasmValueType[];
+  results: WasmValueType[];
+}
+
+export interface WasmLimits {
+  min: number;
+  max: number | null;
+  shared: boolean;
+}
+
+export interface WasmImport {
+  module: string;
+  name: string;
+  kind: WasmExternalKind;
+  /** Text-format description, e.g. `(param i32) (result i32)` or `memory 1 16` */
+  description: string;
+  /** Why the import is a bridge into JavaScript APIs, or null */
+  jsBridge: string | null;
+}
+
+export interface WasmExport {
+  name: string;
+  kind: WasmExternalKind;
+  index: number;
+}
+
+export interface WasmTable {
+  elementType: WasmValueType;
+  limits: WasmLimits;
+  imported: boolean;
+}
+
+export interface WasmMemory {
+  limits: WasmLimits;
+  imported: boolean;
+}
+
+export interface WasmGlobal {
+  type: WasmValueType;
+  mutable: boolean;
+  imported: boolean;
+}
+
+export interface WasmFunction {
+  /** Index in the function index space, which starts with imported functions */
+  index: number;
+  name: string | null;
+  type: WasmFuncType;
+  imported: boolean;
+  /** Byte range of the body within the module; null for imports */
+  body: { offset: number; size: number } | null;
+}
+
+export interface WasmSection {
+  id: number;
+  name: string;
+  offset: number;
+  size: number;
+}
+
+export interface WasmCustomSection {
+  name: string;
+  size: number;
+}
+
+export interface WasmModule {
+  version: number;
+  size: number;
+  sections: WasmSection[];
+  types: WasmFuncType[];
+  imports: WasmImport[];
+  exports: WasmExport[];
+  functions: WasmFunction[];
+  tables: WasmTable[];
+  memories: WasmMemory[];
+  globals: WasmGlobal[];
+  customSections: WasmCustomSection[];
+  startFunction: number | null;
+  dataSegmentCount: number;
+  elementSegmentCount: number;
+}
+
+type WasmParseResult = { success: true; module: WasmModule } | { success: false; error: string };
+
+const SECTION_NAMES = [
+  'custom', 'type', 'import', 'function', 'table', 'memory', 'global',
+  'export', 'start', 'element', 'code', 'data', 'datacount', 'tag',
+];
+
+const EXTERNAL_KINDS: WasmExternalKind[] = ['func', 'table', 'memory', 'global', 'tag'];
+
+// Import modules used by JS glue code generators
+const JS_GLUE_MODULES: Record<string, string> = {
+  wbg: 'wasm-bindgen glue',
+  __wbindgen_placeholder__: 'wasm-bindgen glue',
+  __wbindgen_externref_xform__: 'wasm-bindgen glue',
+  js: 'JavaScript import module',
+  'go': 'Go runtime (syscall/js)',
+  gojs: 'Go runtime (syscall/js)',
+};
+
+// Import names that hand control or data to JavaScript
+const JS_BRIDGE_NAMES: [RegExp, string][] = [
+  [/^__wbg_|^__wbindgen_/, 'wasm-bindgen JS binding'],
+  [/^_?emscripten_(asm_const|run_script|eval)/, 'Emscripten inline JavaScript'],
+  [/^_?(emval|_emval)_|^_?embind_/, 'Emscripten embind value access'],
+  [/syscall\/js\./, 'Go syscall/js value access'],
+  [/(^|[^a-z])(eval|Function|fetch|XMLHttpRequest|WebSocket|document|window|chrome|localStorage|cookie|postMessage)([^a-z]|$)/i,
+    'Named after a browser API'],
+];
+
+const WASM_MAGIC = [0x00, 0x61, 0x73, 0x6d];
+
+/**
+ * Check whether data starts with the WebAssembly magic number
+ */
+export function isWasmModule(data: Uint8Array): boolean {
+  return data.length >= 8 && WASM_MAGIC.every((byte, i) => data[i] === byte);
+}
+
+/**
+ * Parse a WebAssembly binary module
+ *
+ * @param data - Module bytes
+ * @returns Result object with success flag and either the module summary or error message
+ */
+export function parseWasmModule(data: Uint8Array): WasmParseResult {
+  if (!isWasmModule(data)) {
+    return { success: false, error: 'Not a WebAssembly module: missing \\0asm header' };
+  }
+
+  try {
+    return { success: true, module: readModule(data) };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to parse WebAssembly module: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+/**
+ * Describe why an import reaches into JavaScript, or return null
+ *
+ * @param module - Import module name
+ * @param name - Import field name
+ * @param kind - Import kind; only function imports can bridge
+ */
+export function classifyJsBridge(module: string, name: string, kind: WasmExternalKind): string | null {
+  if (kind !== 'func') {
+    return null;
+  }
+
+  const byName = JS_BRIDGE_NAMES.find(([pattern]) => pattern.test(name));
+  if (byName) {
+    return byName[1];
+  }
+  return JS_GLUE_MODULES[module] ?? null;
+}
+
+/**
+ * Format a function type in text-format style
+ */
+export function formatFuncType(type: WasmFuncType): string {
+  return [
+    type.params.length ? `(param ${type.params.join(' ')})` : '',
+    type.results.length ? `(result ${type.results.join(' ')})` : '',
+  ].filter(Boolean).join(' ');
+}
+
+function readModule(data: Uint8Array): WasmModule {
+  const reader = new WasmReader(data, 4);
+  const version = reader.readByte() | (reader.readByte() << 8) | (reader.readByte() << 16) | (reader.readByte() << 24);
+  if (version !== 1) {
+    reader.fail(`Unsupported WebAssembly version ${version}`);
+  }
+
+  const module: WasmModule = {
+    version,
+    size: data.length,
+    sections: [],
+    types: [],
+    imports: [],
+    exports: [],
+    functions: [],
+    tables: [],
+    memories: [],
+    globals: [],
+    customSections: [],
+    startFunction: null,
+    dataSegmentCount: 0,
+    elementSegmentCount: 0,
+  };
+  const functionTypes: number[] = [];
+  let functionNames = new Map<number, string>();
+
+  while (!reader.isAtEnd) {
+    const id = reader.readByte();
+    const size = reader.readU32();
+    const offset = reader.offset;
+    const section = new WasmReader(reader.readBytes(size));
+    let name = SECTION_NAMES[id] ?? `unknown (${id})`;
+
+    switch (id) {
+      case 0: {
+        name = section.readName();
+        module.customSections.push({ name, size });
+        if (name === 'name') {
+          functionNames = readFunctionNames(section);
+        }
+        break;
+      }
+      case 1:
+        module.types = section.readVector(() => readFuncType(section));
+        break;
+      case 2:
+        section.readVector(() => readImport(section, module));
+        break;
+      case 3:
+        functionTypes.push(...section.readVector(() => section.readU32()));
+        break;
+      case 4:
+        module.tables.push(...section.readVector(() => readTable(section, false)));
+        break;
+      case 5:
+        module.memories.push(...section.readVector(() => ({ limits: readLimits(section), imported: false })));
+        break;
+      case 6:
+        module.globals.push(
+          ...section.readVector(() => {
+            const global = readGlobalType(section, false);
+            skipConstantExpression(section);
+            return global;
+          })
+        );
+        break;
+      case 7:
+        module.exports = section.readVector(() => ({
+          name: section.readName(),
+          kind: readExternalKind(section),
+          index: section.readU32(),
+        }));
+        break;
+      case 8:
+        module.startFunction = section.readU32();
+        break;
+      case 9:
+        module.elementSegmentCount = section.readU32();
+        break;
+      case 10:
+        readCode(section, offset, functionTypes, module);
+        break;
+      case 11:
+        module.dataSegmentCount = section.readU32();
+        break;
+    }
+
+    module.sections.push({ id, name, offset, size });
+  }
+
+  // Name section first, then export names
+  const exportNames = new Map(
+    module.exports.filter((entry) => entry.kind === 'func').map((entry) => [entry.index, entry.name])
+  );
+  for (const fn of module.functions) {
+    fn.name = functionNames.get(fn.index) ?? exportNames.get(fn.index) ?? null;
+  }
+
+  return module;
+}
+
+function readFuncType(reader: WasmReader): WasmFuncType {
+  const form = reader.readByte();
+  if (form !== 0x60) {
+    reader.offset--;
+    reader.fail(`Unsupported type form 0x${form.toString(16)}`);
+  }
+  return {
+    params: reader.readVector(() => reader.readValueType()),
+    results: reader.readVector(() => reader.readValueType()),
+  };
+}
+
+function readExternalKind(reader: WasmReader): WasmExternalKind {
+  const byte = reader.readByte();
+  const kind = EXTERNAL_KINDS[byte];
+  if (!kind) {
+    reader.offset--;
+    reader.fail(`Unknown external kind ${byte}`);
+  }
+  return kind;
+}
+
+function readLimits(reader: WasmReader): WasmLimits {
+  const flags = reader.readByte();
+  // Bit 2 marks 64-bit memories, whose limits are still LEB128
+  const min = flags & 0x04 ? Number(reader.readSigned(64)) : reader.readU32();
+  const max = flags & 0x01 ? (flags & 0x04 ? Number(reader.readSigned(64)) : reader.readU32()) : null;
+  return { min, max, shared: (flags & 0x02) !== 0 };
+}
+
+function readTable(reader: WasmReader, imported: boolean): WasmTable {
+  return { elementType: reader.readValueType(), limits: readLimits(reader), imported };
+}
+
+function readGlobalType(reader: WasmReader, imported: boolean): WasmGlobal {
+  const type = reader.readValueType();
+  return { type, mutable: reader.readByte() === 1, imported };
+}
+
+function readImport(reader: WasmReader, module: WasmModule): void {
+  const moduleName = reader.readName();
+  const name = reader.readName();
+  const kind = readExternalKind(reader);
+  let description: string;
+
+  switch (kind) {
+    case 'func': {
+      const typeIndex = reader.readU32();
+      const type = module.types[typeIndex] ?? { params: [], results: [] };
+      module.functions.push({ index: module.functions.length, name: null, type, imported: true, body: null });
+      description = formatFuncType(type);
+      break;
+    }
+    case 'table': {
+      const table = readTable(reader, true);
+      module.tables.push(table);
+      description = `table ${formatLimits(table.limits)} ${table.elementType}`;
+      break;
+    }
+    case 'memory': {
+      const limits = readLimits(reader);
+      module.memories.push({ limits, imported: true });
+      description = `memory ${formatLimits(limits)}`;
+      break;
+    }
+    case 'global': {
+      const global = readGlobalType(reader, true);
+      module.globals.push(global);
+      description = global.mutable ? `global (mut ${global.type})` : `global ${global.type}`;
+      break;
+    }
+    case 'tag':
+      reader.readByte();
+      description = `tag (type ${reader.readU32()})`;
+      break;
+  }
+
+  module.imports.push({ module: moduleName, name, kind, description, jsBridge: classifyJsBridge(moduleName, name, kind) });
+}
+
+function readCode(reader: WasmReader, sectionOffset: number, functionTypes: number[], module: WasmModule): void {
+  const count = reader.readU32();
+  const importedCount = module.functions.length;
+
+  for (let i = 0; i < count; i++) {
+    const size = reader.readU32();
+    const offset = sectionOffset + reader.offset;
+    reader.readBytes(size);
+    module.functions.push({
+      index: importedCount + i,
+      name: null,
+      type: module.types[functionTypes[i]] ?? { params: [], results: [] },
+      imported: false,
+      body: { offset, size },
+    });
+  }
+}
+
+/**
+ * Read function names from the "name" custom section, ignoring other subsections
+ */
+function readFunctionNames(reader: WasmReader): Map<number, string> {
+  const names = new Map<number, string>();
+  try {
+    while (!reader.isAtEnd) {
+      const subsection = reader.readByte();
+      const content = new WasmReader(reader.readBytes(reader.readU32()));
+      if (subsection === 1) {
+        content.readVector(() => names.set(content.readU32(), content.readName()));
+      }
+    }
+  } catch {
+    // A damaged name section only costs the names
+  }
+  return names;
+}
+
+function skipConstantExpression(reader: WasmReader): void {
+  while (readInstruction(reader).kind !== 'end') {
+    // Constant expressions end at the first end opcode
+  }
+}
+
+function formatLimits(limits: WasmLimits): string {
+  return [limits.min, limits.max, limits.shared ? 'shared' : null].filter((part) => part !== null).join(' ');
+}
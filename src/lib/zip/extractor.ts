@@ -23,7 +23,7 @@ interface ExtractionError {
   error: string;
 }
 
-type ExtractionResult = ExtractionSuccess | ExtractionError;
+export type ExtractionResult = ExtractionSuccess | ExtractionError;
 
 /**
  * Extract file entries from ZIP data
@@ -109,3 +109,54 @@ export async function loadZipFile(zipData: ArrayBuffer, filePath: string): Promi
     };
   }
 }
+
+/**
+ * Load every file matching a predicate from ZIP data
+ *
+ * Parses the archive once, which is much cheaper than calling loadZipFile
+ * per file when scanning many entries.
+ *
+ * @param zipData - ArrayBuffer containing ZIP file data
+ * @param predicate - Returns true for paths that should be loaded
+ * @returns Result object with success flag and either file data or error message
+ */
+export async function loadZipFiles(
+  zipData: ArrayBuffer,
+  predicate: (path: string) => boolean
+): Promise<ExtractionResult> {
+  try {
+    const zip = new JSZip();
+    await zip.loadAsync(zipData);
+
+    const matches: { path: string; file: { date: Date; async(type: 'uint8array'): Promise<Uint8Array> } }[] = [];
+    zip.forEach((relativePath, file) => {
+      if (!file.dir && predicate(relativePath)) {
+        matches.push({ path: relativePath, file });
+      }
+    });
+
+    const files: ZipFileEntry[] = [];
+    for (const { path, file } of matches) {
+      const data = await file.async('uint8array');
+      files.push({
+        name: path,
+        dir: false,
+        size: data.length,
+        compressedSize: 0,
+        date: file.date ?? new Date(),
+        data,
+      });
+    }
+
+    return {
+      success: true,
+      files,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: `Failed to load files from ZIP: ${message}`,
+    };
+  }
+}
@@ -3,6 +3,7 @@
  */
 
 import type { ZipFileEntry } from './extractor';
+import { joinNestedPath } from './nested-archive';
 
 export interface FileTreeNode {
   name: string;
@@ -94,6 +95,28 @@ export function buildFileTree(entries: ZipFileEntry[]): FileTreeNode {
   return root;
 }
 
+/**
+ * Build the file tree of a nested archive
+ *
+ * Same as buildFileTree, but every node path is the virtual path inside
+ * the archive, e.g. `lib/vendor.zip!/index.js`.
+ *
+ * @param entries - Entries of the nested archive, named relative to it
+ * @param archivePath - Path of the archive in the outer tree
+ * @returns Root node whose path is the archive path
+ */
+export function buildNestedFileTree(entries: ZipFileEntry[], archivePath: string): FileTreeNode {
+  const root = buildFileTree(entries);
+
+  function prefix(node: FileTreeNode): void {
+    node.path = node.path ? joinNestedPath(archivePath, node.path) : archivePath;
+    node.children.forEach(prefix);
+  }
+
+  prefix(root);
+  return root;
+}
+
 /**
  * Recursively sort file tree nodes
  * 
@@ -2,8 +2,22 @@
  * ZIP extraction and file tree module exports
  */
 
-export { extractZipEntries, loadZipFile } from './extractor';
-export type { ZipFileEntry } from './extractor';
+export { extractZipEntries, loadZipFile, loadZipFiles } from './extractor';
+export type { ExtractionResult, ZipFileEntry } from './extractor';
 
-export { buildFileTree, getAllFiles, findNodeByPath } from './file-tree';
+export { buildFileTree, buildNestedFileTree, getAllFiles, findNodeByPath } from './file-tree';
 export type { FileTreeNode } from './file-tree';
+
+export {
+  NESTED_PATH_SEPARATOR,
+  MAX_NESTED_DEPTH,
+  MAX_NESTED_BYTES,
+  isNestedArchive,
+  isNestedPath,
+  joinNestedPath,
+  splitNestedPath,
+  openNestedArchive,
+  extractNestedEntries,
+  loadNestedFile,
+  loadNestedFiles,
+} from './nested-archive';
@@ -0,0 +1,284 @@
+/**
+ * Nested archive access
+ *
+ * Extensions sometimes bundle further ZIP, CRX, JAR or XPI archives. Files
+ * inside them are addressed with virtual paths that join the archive path
+ * and the inner path with "!/", e.g. `lib/vendor.zip!/index.js`; archives
+ * can nest, as in `a.zip!/b.crx!/c.js`. Every level is opened from the
+ * outer package on demand, so nothing is unpacked up front.
+ */
+
+import { crxToZip } from '../crx/zip-converter';
+import { extractZipEntries, loadZipFile, loadZipFiles } from './extractor';
+import type { ExtractionResult, ZipFileEntry } from './extractor';
+
+/**
+ * Separator between an archive path and a path inside it
+ */
+export const NESTED_PATH_SEPARATOR = '!/';
+
+/**
+ * How many archive levels loadNestedFiles descends into
+ */
+export const MAX_NESTED_DEPTH = 3;
+
+/**
+ * How many uncompressed bytes loadNestedFiles reads out of nested archives,
+ * counting the archives themselves
+ */
+export const MAX_NESTED_BYTES = 64 * 1024 * 1024;
+
+// Deepest virtual path that is opened when asked for explicitly
+const MAX_NESTED_SEGMENTS = 8;
+
+const NESTED_ARCHIVE_EXTENSIONS = ['.zip', '.crx', '.jar', '.xpi'];
+
+type NestedArchiveResult = { success: true; zipData: ArrayBuffer } | { success: false; error: string };
+
+interface ByteBudget {
+  remaining: number;
+}
+
+/**
+ * Check whether a file is an archive that can be opened in place
+ *
+ * @param path - File path, possibly a virtual path
+ * @returns True for ZIP, CRX, JAR and XPI files
+ */
+export function isNestedArchive(path: string): boolean {
+  const lower = path.toLowerCase();
+  return NESTED_ARCHIVE_EXTENSIONS.some((extension) => lower.endsWith(extension));
+}
+
+/**
+ * Check whether a path points inside a nested archive
+ */
+export function isNestedPath(path: string): boolean {
+  return path.includes(NESTED_PATH_SEPARATOR);
+}
+
+/**
+ * Build the virtual path of an entry inside an archive
+ *
+ * @param archivePath - Path of the archive, itself possibly virtual
+ * @param entryPath - Path of the entry inside the archive
+ * @returns Virtual path such as `lib/vendor.zip!/index.js`
+ */
+export function joinNestedPath(archivePath: string, entryPath: string): string {
+  return `${archivePath}${NESTED_PATH_SEPARATOR}${entryPath}`;
+}
+
+/**
+ * Split a virtual path into the path at each archive level
+ *
+ * @param path - Virtual path such as `a.zip!/b.crx!/c.js`
+ * @returns Segments such as `['a.zip', 'b.crx', 'c.js']`
+ */
+export function splitNestedPath(path: string): string[] {
+  return path.split(NESTED_PATH_SEPARATOR);
+}
+
+/**
+ * Get the ZIP data of a nested archive
+ *
+ * Reads each archive level from its parent, stripping CRX headers on the way.
+ * When a cache is given, archive bytes are looked up in and added to it
+ * under their virtual paths.
+ *
+ * @param zipData - ZIP data of the outer package
+ * @param archivePath - Virtual path of the archive
+ * @param cache - Optional file cache keyed by virtual path
+ * @returns Result object with success flag and either the archive's ZIP data or error message
+ */
+export async function openNestedArchive(
+  zipData: ArrayBuffer,
+  archivePath: string,
+  cache?: Map<string, Uint8Array>
+): Promise<NestedArchiveResult> {
+  const segments = splitNestedPath(archivePath);
+  if (segments.length > MAX_NESTED_SEGMENTS) {
+    return { success: false, error: `Archives are nested too deeply: ${archivePath}` };
+  }
+
+  let current = zipData;
+  let currentPath = '';
+  for (const segment of segments) {
+    currentPath = currentPath ? joinNestedPath(currentPath, segment) : segment;
+    if (!isNestedArchive(segment)) {
+      return { success: false, error: `Not an archive: ${currentPath}` };
+    }
+
+    let data = cache?.get(currentPath);
+    if (!data) {
+      const result = await loadZipFile(current, segment);
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+      data = result.files[0]?.data;
+      if (!data) {
+        return { success: false, error: `Failed to load archive: ${currentPath}` };
+      }
+      cache?.set(currentPath, data);
+    }
+
+    const converted = archiveToZip(data);
+    if (!converted) {
+      return { success: false, error: `Not a ZIP or CRX archive: ${currentPath}` };
+    }
+    current = converted;
+  }
+
+  return { success: true, zipData: current };
+}
+
+/**
+ * List the entries of a nested archive
+ *
+ * @param zipData - ZIP data of the outer package
+ * @param archivePath - Virtual path of the archive
+ * @param cache - Optional file cache keyed by virtual path
+ * @returns Result object with entries named relative to the archive, or error message
+ */
+export async function extractNestedEntries(
+  zipData: ArrayBuffer,
+  archivePath: string,
+  cache?: Map<string, Uint8Array>
+): Promise<ExtractionResult> {
+  const archive = await openNestedArchive(zipData, archivePath, cache);
+  return archive.success ? extractZipEntries(archive.zipData) : archive;
+}
+
+/**
+ * Load a file by plain or virtual path
+ *
+ * Behaves like loadZipFile for plain paths; virtual paths are read from
+ * their innermost archive. The returned entry is named by the full path.
+ *
+ * @param zipData - ZIP data of the outer package
+ * @param filePath - Plain or virtual file path
+ * @param cache - Optional file cache keyed by virtual path, used for archive bytes
+ * @returns Result object with success flag and either file data or error message
+ */
+export async function loadNestedFile(
+  zipData: ArrayBuffer,
+  filePath: string,
+  cache?: Map<string, Uint8Array>
+): Promise<ExtractionResult> {
+  const separator = filePath.lastIndexOf(NESTED_PATH_SEPARATOR);
+  if (separator === -1) {
+    return loadZipFile(zipData, filePath);
+  }
+
+  const archivePath = filePath.slice(0, separator);
+  const entryPath = filePath.slice(separator + NESTED_PATH_SEPARATOR.length);
+  const archive = await openNestedArchive(zipData, archivePath, cache);
+  if (!archive.success) {
+    return archive;
+  }
+
+  const result = await loadZipFile(archive.zipData, entryPath);
+  if (!result.success) {
+    return { success: false, error: `File not found in ZIP: ${filePath}` };
+  }
+  return { success: true, files: result.files.map((file) => ({ ...file, name: filePath })) };
+}
+
+/**
+ * Load every file matching a predicate, including files in nested archives
+ *
+ * Like loadZipFiles, but nested archives are opened up to MAX_NESTED_DEPTH
+ * levels deep and their files are named by virtual path. The predicate sees
+ * virtual paths too. Archives that cannot be opened are skipped.
+ *
+ * Archives and the files inside them share a budget of uncompressed bytes,
+ * charged by the sizes their ZIP directories declare before anything is
+ * decompressed, so a crafted archive cannot expand without bound. Entries
+ * that no longer fit the budget are skipped.
+ *
+ * @param zipData - ZIP data of the outer package
+ * @param predicate - Returns true for paths that should be loaded
+ * @param depth - Archive levels left to descend into
+ * @param maxBytes - Uncompressed bytes that may be read out of nested archives
+ * @returns Result object with success flag and either file data or error message
+ */
+export async function loadNestedFiles(
+  zipData: ArrayBuffer,
+  predicate: (path: string) => boolean,
+  depth: number = MAX_NESTED_DEPTH,
+  maxBytes: number = MAX_NESTED_BYTES
+): Promise<ExtractionResult> {
+  return loadArchiveFiles(zipData, predicate, depth, { remaining: maxBytes }, false);
+}
+
+/**
+ * Load the matching files of one archive level and descend into its archives
+ *
+ * @param inArchive - Whether zipData is itself a nested archive, so every
+ *   entry read from it is charged to the budget rather than only archives
+ */
+async function loadArchiveFiles(
+  zipData: ArrayBuffer,
+  predicate: (path: string) => boolean,
+  depth: number,
+  budget: ByteBudget,
+  inArchive: boolean
+): Promise<ExtractionResult> {
+  const entries = await extractZipEntries(zipData);
+  if (!entries.success) {
+    return entries;
+  }
+
+  const selected = new Set<string>();
+  for (const entry of entries.files) {
+    const isArchive = depth > 0 && isNestedArchive(entry.name);
+    if (entry.dir || (!isArchive && !predicate(entry.name))) {
+      continue;
+    }
+    if (isArchive || inArchive) {
+      if (entry.size > budget.remaining) {
+        continue;
+      }
+      budget.remaining -= entry.size;
+    }
+    selected.add(entry.name);
+  }
+
+  const result = await loadZipFiles(zipData, (path) => selected.has(path));
+  if (!result.success) {
+    return result;
+  }
+
+  const files: ZipFileEntry[] = [];
+  for (const file of result.files) {
+    if (predicate(file.name)) {
+      files.push(file);
+    }
+
+    const archive = depth > 0 && isNestedArchive(file.name) && file.data ? archiveToZip(file.data) : null;
+    if (!archive) {
+      continue;
+    }
+
+    const nested = await loadArchiveFiles(
+      archive,
+      (path) => predicate(joinNestedPath(file.name, path)),
+      depth - 1,
+      budget,
+      true
+    );
+    if (nested.success) {
+      files.push(...nested.files.map((entry) => ({ ...entry, name: joinNestedPath(file.name, entry.name) })));
+    }
+  }
+
+  return { success: true, files };
+}
+
+/**
+ * ZIP data of archive bytes, or null when they are neither ZIP nor CRX
+ */
+function archiveToZip(data: Uint8Array): ArrayBuffer | null {
+  const buffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+  const result = crxToZip(buffer);
+  return result.success ? result.zipData : null;
+}
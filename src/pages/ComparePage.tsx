@@ -0,0 +1,198 @@
+/**
+ * Compare page layout
+ *
+ * Loads two packages (old on the left, new on the right) and shows the
+ * merged file tree with added / removed / modified markers, a text diff
+ * for the selected file and a manifest summary highlighting permission
+ * changes.
+ *
+ * URL state sync: Uses useCompareUrlState so comparisons of Web Store
+ * packages can be shared as links
+ */
+
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeftRight, Shield } from 'lucide-react';
+import { CompareSourcePicker } from '@/components/compare/CompareSourcePicker';
+import { DiffFileTree } from '@/components/compare/DiffFileTree';
+import { TextDiffView } from '@/components/compare/TextDiffView';
+import { ManifestDiffView } from '@/components/compare/ManifestDiffView';
+import { useCompareStore } from '@/store/compareStore';
+import type { DiffViewMode } from '@/store/compareStore';
+import { useCompareUrlState } from '@/hooks/useCompareUrlState';
+import { diffFileTrees, bytesEqual, pruneUnchanged } from '@/lib/diff/tree-diff';
+import type { LoadedCrx } from '@/types/index';
+
+const MANIFEST_PATH = 'manifest.json';
+
+const VIEW_MODES: Array<{ id: DiffViewMode; label: string }> = [
+  { id: 'split', label: 'Split' },
+  { id: 'unified', label: 'Unified' },
+];
+
+/**
+ * Parse manifest.json from a package's (fully loaded) file cache
+ */
+function readManifest(crx: LoadedCrx | null): Record<string, unknown> | null {
+  const data = crx?.fileCache.get(MANIFEST_PATH);
+  if (!data) return null;
+
+  try {
+    const text = new TextDecoder('utf-8').decode(data).replace(/^\uFEFF/, '');
+    return JSON.parse(text) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+export function ComparePage() {
+  const left = useCompareStore((state) => state.left);
+  const right = useCompareStore((state) => state.right);
+  const selectedPath = useCompareStore((state) => state.selectedPath);
+  const viewMode = useCompareStore((state) => state.viewMode);
+  const showUnchanged = useCompareStore((state) => state.showUnchanged);
+  const selectPath = useCompareStore((state) => state.selectPath);
+  const setViewMode = useCompareStore((state) => state.setViewMode);
+  const setShowUnchanged = useCompareStore((state) => state.setShowUnchanged);
+  const swapSides = useCompareStore((state) => state.swapSides);
+
+  // Initialize URL state sync
+  useCompareUrlState();
+
+  const oldCrx = left.crx;
+  const newCrx = right.crx;
+
+  const treeDiff = useMemo(() => {
+    if (!oldCrx || !newCrx) return null;
+    return diffFileTrees(oldCrx.fileTree, newCrx.fileTree, (path) =>
+      bytesEqual(oldCrx.fileCache.get(path), newCrx.fileCache.get(path))
+    );
+  }, [oldCrx, newCrx]);
+
+  const visibleTree = useMemo(() => {
+    if (!treeDiff) return null;
+    if (showUnchanged) return treeDiff.root;
+    return pruneUnchanged(treeDiff.root) ?? { ...treeDiff.root, children: [] };
+  }, [treeDiff, showUnchanged]);
+
+  const oldManifest = useMemo(() => readManifest(oldCrx), [oldCrx]);
+  const newManifest = useMemo(() => readManifest(newCrx), [newCrx]);
+
+  const renderDetail = () => {
+    if (!oldCrx || !newCrx) {
+      return (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-center">
+            <p className="text-gray-800 dark:text-gray-200 text-lg">Load two packages to compare</p>
+            <p className="text-gray-700 dark:text-gray-300 text-sm mt-2">
+              Enter a store URL or extension ID, or upload a CRX, XPI or ZIP file, for each side
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    const manifestDiff = <ManifestDiffView oldManifest={oldManifest} newManifest={newManifest} />;
+
+    if (!selectedPath) {
+      return <div className="flex-1 overflow-auto bg-white dark:bg-gray-900">{manifestDiff}</div>;
+    }
+
+    return (
+      <div className="flex-1 flex flex-col min-h-0 bg-white dark:bg-gray-900">
+        {selectedPath === MANIFEST_PATH && (
+          <div className="max-h-[50%] overflow-auto border-b border-gray-200 dark:border-gray-700">{manifestDiff}</div>
+        )}
+        <TextDiffView
+          key={selectedPath}
+          path={selectedPath}
+          oldData={oldCrx.fileCache.get(selectedPath)}
+          newData={newCrx.fileCache.get(selectedPath)}
+          mode={viewMode}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-screen flex flex-col bg-gray-50 dark:bg-gray-900">
+      {/* Package pickers */}
+      <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 shadow-sm px-4 py-3">
+        <div className="flex items-center gap-2 mb-3">
+          <Link to="/" className="flex items-center gap-2 text-gray-900 dark:text-gray-100">
+            <Shield className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+            <span className="font-bold">crxreview</span>
+          </Link>
+          <span className="text-gray-400">/</span>
+          <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">Compare</span>
+          <Link to="/app" className="ml-auto text-sm text-blue-600 dark:text-blue-400 hover:underline">
+            Open viewer
+          </Link>
+        </div>
+        <div className="flex flex-col md:flex-row gap-4 md:items-end">
+          <CompareSourcePicker side="left" title="Old" />
+          <button
+            onClick={swapSides}
+            title="Swap old and new"
+            className="self-center p-2 rounded text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <ArrowLeftRight size={18} />
+          </button>
+          <CompareSourcePicker side="right" title="New" />
+        </div>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        {/* Changed files */}
+        {treeDiff && visibleTree && (
+          <div className="w-72 flex flex-col border-r border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+            <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-800 space-y-1">
+              <div className="flex items-center gap-2 text-xs">
+                <button
+                  onClick={() => selectPath(null)}
+                  className="font-semibold text-sm text-gray-900 dark:text-gray-100 hover:underline"
+                  title="Show manifest summary"
+                >
+                  Files
+                </button>
+                <span className="text-green-600 dark:text-green-400">{treeDiff.summary.added} added</span>
+                <span className="text-red-600 dark:text-red-400">{treeDiff.summary.removed} removed</span>
+                <span className="text-yellow-600 dark:text-yellow-400">{treeDiff.summary.modified} modified</span>
+              </div>
+              <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+                <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+                Show unchanged files ({treeDiff.summary.unchanged})
+              </label>
+            </div>
+            <div className="flex-1 overflow-y-auto">
+              <DiffFileTree node={visibleTree} selectedPath={selectedPath} onSelect={selectPath} />
+            </div>
+          </div>
+        )}
+
+        {/* Diff */}
+        <div className="flex-1 flex flex-col min-w-0">
+          {treeDiff && selectedPath && (
+            <div className="flex gap-1 px-2 pt-1 border-b border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-800">
+              {VIEW_MODES.map((mode) => (
+                <button
+                  key={mode.id}
+                  onClick={() => setViewMode(mode.id)}
+                  className={`
+                    px-3 py-1.5 text-xs font-medium rounded-t transition-colors duration-150
+                    ${viewMode === mode.id
+                      ? 'bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100'
+                      : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'}
+                  `}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+          )}
+          {renderDetail()}
+        </div>
+      </div>
+    </div>
+  );
+}
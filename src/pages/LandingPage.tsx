@@ -14,7 +14,9 @@ import {
   ArrowRight,
   Shield,
   Layers,
+  GitCompare,
 } from 'lucide-react';
+import { LibraryPanel } from '@/components/library';
 
 export function LandingPage() {
   const features = [
@@ -48,6 +50,11 @@ export function LandingPage() {
       title: 'Deep Linking',
       description: 'Share specific files and searches via URL',
     },
+    {
+      icon: GitCompare,
+      title: 'Compare Versions',
+      description: 'See exactly which files and permissions changed between two packages',
+    },
   ];
 
   return (
@@ -94,6 +101,14 @@ export function LandingPage() {
               <ArrowRight size={20} />
             </Link>
 
+            <Link
+              to="/compare"
+              className="inline-flex items-center justify-center gap-2 px-8 py-4 bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 transition font-semibold text-lg"
+            >
+              <GitCompare size={20} />
+              Compare Versions
+            </Link>
+
             <a
               href="#features"
               className="inline-flex items-center justify-center gap-2 px-8 py-4 bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 transition font-semibold text-lg"
@@ -108,6 +123,11 @@ export function LandingPage() {
         </div>
       </section>
 
+      {/* Library of previously reviewed extensions */}
+      <section className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 pb-20 empty:hidden">
+        <LibraryPanel />
+      </section>
+
       {/* Features Section */}
       <section id="features" className="bg-gray-50 dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700">
         <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-20">
@@ -152,7 +172,7 @@ export function LandingPage() {
               step: '1',
               title: 'Enter Extension Details',
               description:
-                'Provide a Chrome Web Store URL, extension ID, or upload a CRX file',
+                'Provide a Chrome, Edge or Firefox add-on URL, an extension ID, or upload a CRX, XPI or ZIP file',
             },
             {
               step: '2',
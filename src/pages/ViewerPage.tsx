@@ -12,28 +12,69 @@
  * - Search and filter integration
  * - Responsive layout for mobile/tablet
  * - Deep linking via URL state
+ * - Manifest inspector with localized fields and linked entry points
+ * - Locale completeness table comparing _locales against the default locale
+ * - Architecture graph of contexts, script loading and message passing
+ * - File dependency graph with unreferenced files flagged in the tree
+ * - Security analysis panel alongside the code viewer
+ * - Policy check panel evaluating a saved JSON/YAML policy
+ * - Original sources reconstructed from source maps
+ * - Review annotations on files and lines, with JSON export/import
+ * - Opening local CRX, XPI and ZIP files by dropping them on the page
  */
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { TopBar } from '@/components/viewer/TopBar';
 import { FileTree } from '@/components/viewer/FileTree';
 import { CodeViewer } from '@/components/viewer/CodeViewer';
 import { PanelResizer } from '@/components/viewer/PanelResizer';
 import { SearchAndFilterPanel } from '@/components/viewer/SearchAndFilterPanel';
+import { ManifestPanel } from '@/components/viewer/ManifestPanel';
+import { LocalesPanel } from '@/components/viewer/LocalesPanel';
+import { ArchitecturePanel } from '@/components/viewer/ArchitecturePanel';
+import { DependenciesPanel } from '@/components/viewer/DependenciesPanel';
+import { SecurityPanel } from '@/components/viewer/SecurityPanel';
+import { PolicyPanel } from '@/components/viewer/PolicyPanel';
+import { AnnotationControls } from '@/components/viewer/AnnotationControls';
+import { EmptyState } from '@/components/viewer/EmptyState';
 import { useViewerStore } from '@/store/viewerStore';
+import { useAnnotationStore } from '@/store/annotationStore';
 import { useUrlState } from '@/hooks/useUrlState';
 import { useFileSelection } from '@/hooks/useFileSelection';
-import { loadZipFile } from '@/lib/zip/extractor';
+import { useSourceMaps } from '@/hooks/useSourceMaps';
+import { useManifest } from '@/hooks/useManifest';
+import { useDependencyGraph } from '@/hooks/useDependencyGraph';
+import { useCrxLoader } from '@/hooks/useCrxLoader';
+import { useFileDrop } from '@/hooks/useFileDrop';
+import { loadNestedFile } from '@/lib/zip/nested-archive';
+import {
+  getOriginalLocation,
+  isOriginalSourcePath,
+  withOriginalSources,
+} from '@/lib/sourcemap/original-sources';
 
 const DEFAULT_LEFT_PANEL_WIDTH = 300;
 const MOBILE_BREAKPOINT = 768;
 
+type ViewerPanel = 'code' | 'manifest' | 'locales' | 'architecture' | 'dependencies' | 'security' | 'policy';
+
+const VIEWER_PANELS: Array<{ id: ViewerPanel; label: string }> = [
+  { id: 'code', label: 'Code' },
+  { id: 'manifest', label: 'Manifest' },
+  { id: 'locales', label: 'Locales' },
+  { id: 'architecture', label: 'Architecture' },
+  { id: 'dependencies', label: 'Dependencies' },
+  { id: 'security', label: 'Security' },
+  { id: 'policy', label: 'Policy' },
+];
+
 export function ViewerPage() {
   const [leftPanelWidth, setLeftPanelWidth] = useState(DEFAULT_LEFT_PANEL_WIDTH);
   const [isLoadingFile, setIsLoadingFile] = useState(false);
   const [currentFileData, setCurrentFileData] = useState<Uint8Array | null>(null);
   const [fileLoadError, setFileLoadError] = useState<string | null>(null);
   const [showSearchPanel, setShowSearchPanel] = useState(false);
+  const [activePanel, setActivePanel] = useState<ViewerPanel>('code');
   const [isMobile, setIsMobile] = useState(window.innerWidth < MOBILE_BREAKPOINT);
   const fileTreeRef = useRef<HTMLDivElement>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
@@ -41,8 +82,51 @@ export function ViewerPage() {
   const crx = useViewerStore((state) => state.crx);
   const loadingState = useViewerStore((state) => state.loadingState);
   const selectedFilePath = useViewerStore((state) => state.selectedFilePath);
+  const selectedLine = useViewerStore((state) => state.selectedLine);
   const selectFile = useViewerStore((state) => state.selectFile);
   const { selectFile: handleSelectFile } = useFileSelection();
+  const { index: sourceMaps, isLoading: isLoadingSourceMaps } = useSourceMaps();
+  const { loadFromFile } = useCrxLoader();
+  const { isDragging, dropHandlers } = useFileDrop(loadFromFile);
+  const { manifest, isLoading: isLoadingManifest } = useManifest();
+  const { graph: dependencyGraph } = useDependencyGraph(manifest);
+  const annotations = useAnnotationStore((state) => state.annotations);
+  const loadAnnotations = useAnnotationStore((state) => state.load);
+
+  // Annotations are stored per extension version
+  useEffect(() => {
+    if (!crx || isLoadingManifest) {
+      return;
+    }
+    loadAnnotations(crx.extensionId, typeof manifest?.version === 'string' ? manifest.version : '');
+  }, [crx, manifest, isLoadingManifest, loadAnnotations]);
+
+  const fileAnnotations = useMemo(
+    () => annotations.filter((annotation) => annotation.filePath === selectedFilePath),
+    [annotations, selectedFilePath]
+  );
+
+  const fileTree = useMemo(
+    () => (crx ? withOriginalSources(crx.fileTree, sourceMaps) : null),
+    [crx, sourceMaps]
+  );
+
+  const sourceMappedPaths = useMemo(
+    () => new Set(sourceMaps ? sourceMaps.bundles.keys() : []),
+    [sourceMaps]
+  );
+
+  const unreferencedPaths = useMemo(
+    () => new Set(dependencyGraph ? dependencyGraph.unreferenced : []),
+    [dependencyGraph]
+  );
+
+  const mapToOriginal = useMemo(() => {
+    if (!sourceMaps || !selectedFilePath || !sourceMaps.bundles.has(selectedFilePath)) {
+      return undefined;
+    }
+    return (line: number) => getOriginalLocation(sourceMaps, selectedFilePath, line);
+  }, [sourceMaps, selectedFilePath]);
 
   // Initialize URL state sync
   useUrlState();
@@ -94,6 +178,19 @@ export function ViewerPage() {
       return;
     }
 
+    // Original sources come from the source map index rather than the ZIP
+    if (isOriginalSourcePath(selectedFilePath)) {
+      const original = sourceMaps?.originals.get(selectedFilePath);
+      if (original) {
+        setCurrentFileData(new TextEncoder().encode(original.content));
+        setFileLoadError(null);
+      } else {
+        setCurrentFileData(null);
+        setFileLoadError(isLoadingSourceMaps ? null : `Original source not found: ${selectedFilePath}`);
+      }
+      return;
+    }
+
     // Check if it's a directory (shouldn't happen but safety check)
     const selectedNode = findNodeByPath(crx.fileTree, selectedFilePath);
     if (selectedNode?.isDirectory) {
@@ -112,13 +209,13 @@ export function ViewerPage() {
       }
     }
 
-    // Load file from ZIP
+    // Load file from ZIP, opening nested archives for virtual paths
     const loadFile = async () => {
       setIsLoadingFile(true);
       setFileLoadError(null);
 
       try {
-        const result = await loadZipFile(crx.zipData, selectedFilePath);
+        const result = await loadNestedFile(crx.zipData, selectedFilePath, crx.fileCache);
         if (!result.success) {
           setFileLoadError(result.error);
           setCurrentFileData(null);
@@ -146,7 +243,15 @@ export function ViewerPage() {
     };
 
     loadFile();
-  }, [selectedFilePath, crx]);
+  }, [selectedFilePath, crx, sourceMaps, isLoadingSourceMaps]);
+
+  const handleOpenFileFromPanel = useCallback(
+    (path: string, line?: number) => {
+      handleSelectFile(path, line);
+      setActivePanel('code');
+    },
+    [handleSelectFile]
+  );
 
   const getSelectedFileName = (): string => {
     if (!selectedFilePath) return '';
@@ -155,26 +260,25 @@ export function ViewerPage() {
   };
 
   // Render empty state
-  if (!crx || loadingState === 'loading') {
+  if (!crx || !fileTree || loadingState === 'loading') {
     return (
       <div className="h-screen flex flex-col bg-gray-50 dark:bg-gray-900">
         <TopBar />
         <div className="flex-1 flex items-center justify-center">
-          <div className="text-center">
-            {loadingState === 'loading' ? (
-              <>
-                <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mb-4" />
-                <p className="text-gray-600 dark:text-gray-400">Loading extension...</p>
-              </>
-            ) : (
-              <>
-                <p className="text-gray-800 dark:text-gray-200 text-lg">No extension loaded</p>
-                <p className="text-gray-700 dark:text-gray-300 text-sm mt-2">
-                  Enter a Chrome Web Store URL or Extension ID above to get started
-                </p>
-              </>
-            )}
-          </div>
+          {loadingState === 'loading' ? (
+            <div className="text-center">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mb-4" />
+              <p className="text-gray-600 dark:text-gray-400">Loading extension...</p>
+            </div>
+          ) : (
+            <EmptyState
+              icon="📦"
+              title="No extension loaded"
+              description="Enter a Chrome Web Store, Edge Add-ons or Firefox Add-ons URL, or an extension ID, above to get started, or drop a CRX, XPI or ZIP file here"
+              onFileDrop={loadFromFile}
+              className="w-full max-w-2xl mx-4"
+            />
+          )}
         </div>
       </div>
     );
@@ -188,7 +292,7 @@ export function ViewerPage() {
         <div className="flex-1 flex items-center justify-center">
           <div className="text-center">
             <p className="text-red-600 dark:text-red-400 font-semibold mb-2">Failed to load extension</p>
-            <p className="text-gray-600 dark:text-gray-400">Try entering a valid Chrome Web Store URL</p>
+            <p className="text-gray-600 dark:text-gray-400">Try entering a valid Chrome, Edge or Firefox add-on URL</p>
           </div>
         </div>
       </div>
@@ -197,9 +301,15 @@ export function ViewerPage() {
 
   // Render main viewer
   return (
-    <div className="h-screen flex flex-col bg-gray-50 dark:bg-gray-900">
+    <div {...dropHandlers} className="relative h-screen flex flex-col bg-gray-50 dark:bg-gray-900">
       <TopBar />
 
+      {isDragging && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center border-4 border-dashed border-blue-500 bg-blue-50/80 dark:bg-blue-900/60 pointer-events-none">
+          <p className="text-lg font-semibold text-blue-800 dark:text-blue-200">Drop a CRX, XPI or ZIP file to open it</p>
+        </div>
+      )}
+
       <div className="flex-1 flex min-h-0 flex-col lg:flex-row">
         {/* File Tree Panel - visible on desktop, hidden on mobile unless fullscreen */}
         {(!isMobile || !selectedFilePath) && (
@@ -222,8 +332,9 @@ export function ViewerPage() {
                     </button>
                   )}
                 </div>
+                <AnnotationControls />
               </div>
-              <FileTree node={crx.fileTree} />
+              <FileTree node={fileTree} sourceMappedPaths={sourceMappedPaths} unreferencedPaths={unreferencedPaths} />
             </div>
 
             {!isMobile && (
@@ -238,7 +349,37 @@ export function ViewerPage() {
 
         {/* Code Viewer Panel */}
         <div className="flex-1 flex flex-col min-w-0 lg:min-h-0">
-          {selectedFilePath ? (
+          {/* Panel tabs */}
+          <div className="flex gap-1 px-2 pt-1 border-b border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-800">
+            {VIEWER_PANELS.map((panel) => (
+              <button
+                key={panel.id}
+                onClick={() => setActivePanel(panel.id)}
+                className={`
+                  px-3 py-1.5 text-xs font-medium rounded-t transition-colors duration-150
+                  ${activePanel === panel.id
+                    ? 'bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'}
+                `}
+              >
+                {panel.label}
+              </button>
+            ))}
+          </div>
+
+          {activePanel === 'manifest' ? (
+            <ManifestPanel onSelectFile={handleOpenFileFromPanel} />
+          ) : activePanel === 'locales' ? (
+            <LocalesPanel onSelectFile={handleOpenFileFromPanel} />
+          ) : activePanel === 'architecture' ? (
+            <ArchitecturePanel onSelectFile={handleOpenFileFromPanel} />
+          ) : activePanel === 'dependencies' ? (
+            <DependenciesPanel onSelectFile={handleOpenFileFromPanel} />
+          ) : activePanel === 'security' ? (
+            <SecurityPanel onSelectFile={handleOpenFileFromPanel} />
+          ) : activePanel === 'policy' ? (
+            <PolicyPanel onSelectFile={handleOpenFileFromPanel} />
+          ) : selectedFilePath ? (
             <>
               <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-800 flex items-center justify-between">
                 <h2 className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">
@@ -278,6 +419,10 @@ export function ViewerPage() {
                   filePath={selectedFilePath}
                   fileData={currentFileData}
                   isLoading={isLoadingFile}
+                  highlightLine={selectedLine}
+                  mapToOriginal={mapToOriginal}
+                  onOpenOriginal={handleSelectFile}
+                  annotations={fileAnnotations}
                 />
               ) : (
                 <div className="flex-1 flex items-center justify-center">
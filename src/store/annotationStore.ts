@@ -0,0 +1,166 @@
+/**
+ * Zustand store for review annotations
+ *
+ * Holds the annotations of the extension version open in the viewer and
+ * writes every change through to the local library (IndexedDB). Annotations
+ * stay usable in memory when the library is unavailable.
+ */
+
+import { create } from 'zustand';
+import {
+  createAnnotation,
+  exportAnnotations,
+  getAnnotationKey,
+  mergeAnnotations,
+  parseAnnotationExport,
+  sortAnnotations,
+  updateAnnotation,
+} from '@/lib/annotations/annotations';
+import type {
+  Annotation,
+  AnnotationInput,
+  AnnotationUpdate,
+} from '@/lib/annotations/annotations';
+import { getAnnotationSet, saveAnnotationSet } from '@/lib/library/library-db';
+
+/**
+ * Result of an annotation import
+ */
+export type AnnotationImportOutcome =
+  | { success: true; imported: number }
+  | { success: false; error: string };
+
+/**
+ * Annotation store state interface
+ */
+export interface AnnotationState {
+  /** `extensionId@version` of the loaded set, or null before loading */
+  key: string | null;
+  extensionId: string | null;
+  version: string;
+  annotations: Annotation[];
+  error: string | null;
+  isLoading: boolean;
+
+  // Actions
+  load: (extensionId: string, version: string) => Promise<void>;
+  addAnnotation: (input: AnnotationInput) => Promise<void>;
+  editAnnotation: (id: string, update: AnnotationUpdate) => Promise<void>;
+  removeAnnotation: (id: string) => Promise<void>;
+  exportJson: () => string | null;
+  importJson: (json: string) => Promise<AnnotationImportOutcome>;
+  clearError: () => void;
+  reset: () => void;
+}
+
+export const useAnnotationStore = create<AnnotationState>((set, get) => {
+  /**
+   * Replace the annotation list and persist it
+   */
+  const commit = async (annotations: Annotation[]) => {
+    const { key, extensionId, version } = get();
+    if (!key || !extensionId) {
+      return;
+    }
+
+    const sorted = sortAnnotations(annotations);
+    set({ annotations: sorted, error: null });
+
+    const result = await saveAnnotationSet({
+      key,
+      extensionId,
+      version,
+      annotations: sorted,
+      updatedAt: new Date().toISOString(),
+    });
+    if (!result.success) {
+      set({ error: result.error });
+    }
+  };
+
+  return {
+    key: null,
+    extensionId: null,
+    version: '',
+    annotations: [],
+    error: null,
+    isLoading: false,
+
+    load: async (extensionId: string, version: string) => {
+      const key = getAnnotationKey(extensionId, version);
+      if (get().key === key) {
+        return;
+      }
+
+      set({ key, extensionId, version, annotations: [], error: null, isLoading: true });
+
+      const result = await getAnnotationSet(key);
+
+      // Another extension may have been opened while loading
+      if (get().key !== key) {
+        return;
+      }
+
+      set(
+        result.success
+          ? { annotations: sortAnnotations(result.value?.annotations ?? []), isLoading: false }
+          : { error: result.error, isLoading: false }
+      );
+    },
+
+    addAnnotation: async (input: AnnotationInput) => {
+      await commit([...get().annotations, createAnnotation(input)]);
+    },
+
+    editAnnotation: async (id: string, update: AnnotationUpdate) => {
+      await commit(
+        get().annotations.map((annotation) =>
+          annotation.id === id ? updateAnnotation(annotation, update) : annotation
+        )
+      );
+    },
+
+    removeAnnotation: async (id: string) => {
+      await commit(get().annotations.filter((annotation) => annotation.id !== id));
+    },
+
+    exportJson: () => {
+      const { key, extensionId, version, annotations } = get();
+      if (!key || !extensionId) {
+        return null;
+      }
+      return exportAnnotations({ key, extensionId, version, annotations, updatedAt: new Date().toISOString() });
+    },
+
+    importJson: async (json: string) => {
+      const { extensionId, annotations } = get();
+      if (!extensionId) {
+        return { success: false, error: 'Open an extension before importing annotations' };
+      }
+
+      const parsed = parseAnnotationExport(json);
+      if (!parsed.success) {
+        return parsed;
+      }
+
+      const document = parsed.value;
+      if (document.extensionId && document.extensionId !== extensionId) {
+        return {
+          success: false,
+          error: `These annotations belong to extension ${document.extensionId}, not ${extensionId}`,
+        };
+      }
+
+      await commit(mergeAnnotations(annotations, document.annotations));
+      return { success: true, imported: document.annotations.length };
+    },
+
+    clearError: () => {
+      set({ error: null });
+    },
+
+    reset: () => {
+      set({ key: null, extensionId: null, version: '', annotations: [], error: null, isLoading: false });
+    },
+  };
+});
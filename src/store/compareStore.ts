@@ -0,0 +1,191 @@
+/**
+ * Zustand store for compare mode state
+ *
+ * Holds the two packages being compared (old on the left, new on the right),
+ * the selected file and diff display options.
+ */
+
+import { create } from 'zustand';
+import type { LoadedCrx, LoadingState } from '@/types/index';
+import { addToLibrary, fetchCrx, openCrx } from '@/lib/crx/loader';
+import { loadZipFiles } from '@/lib/zip/extractor';
+import type { LibrarySource } from '@/lib/library/library-db';
+import type { OpenCrxOptions } from '@/lib/crx/loader';
+
+export type CompareSide = 'left' | 'right';
+
+export type DiffViewMode = 'split' | 'unified';
+
+/**
+ * One side of the comparison
+ */
+export interface ComparePackage {
+  loadingState: LoadingState;
+  error: string | null;
+  crx: LoadedCrx | null;
+  /** Web Store URL or extension ID the package was loaded from; null for uploads */
+  sourceInput: string | null;
+  /** Display label (extension ID or uploaded file name) */
+  label: string | null;
+}
+
+/**
+ * Compare store state interface
+ */
+export interface CompareState {
+  left: ComparePackage;
+  right: ComparePackage;
+  selectedPath: string | null;
+  viewMode: DiffViewMode;
+  showUnchanged: boolean;
+
+  // Actions
+  loadFromUrl: (side: CompareSide, input: string) => Promise<void>;
+  loadFromFile: (side: CompareSide, file: File) => Promise<void>;
+  selectPath: (path: string | null) => void;
+  setViewMode: (mode: DiffViewMode) => void;
+  setShowUnchanged: (show: boolean) => void;
+  swapSides: () => void;
+  reset: () => void;
+}
+
+const EMPTY_PACKAGE: ComparePackage = {
+  loadingState: 'idle',
+  error: null,
+  crx: null,
+  sourceInput: null,
+  label: null,
+};
+
+/**
+ * Open a CRX and load every file into its cache so both trees can be
+ * compared byte for byte. The package is kept in the local library.
+ */
+async function openForCompare(crxData: ArrayBuffer, source: LibrarySource, options: OpenCrxOptions = {}) {
+  const result = await openCrx(crxData, options);
+  if (!result.success) {
+    return result;
+  }
+
+  const filesResult = await loadZipFiles(result.crx.zipData, () => true);
+  if (!filesResult.success) {
+    return filesResult;
+  }
+
+  for (const file of filesResult.files) {
+    if (file.data) {
+      result.crx.fileCache.set(file.name, file.data);
+    }
+  }
+
+  const saveResult = await addToLibrary(result.crx, source);
+  if (!saveResult.success) {
+    console.warn(saveResult.error);
+  }
+
+  return result;
+}
+
+/**
+ * Create the compare store
+ */
+export const useCompareStore = create<CompareState>((set) => {
+  const setSide = (side: CompareSide, pkg: ComparePackage) => {
+    set(side === 'left' ? { left: pkg } : { right: pkg });
+  };
+
+  return {
+    left: EMPTY_PACKAGE,
+    right: EMPTY_PACKAGE,
+    selectedPath: null,
+    viewMode: 'split',
+    showUnchanged: false,
+
+    loadFromUrl: async (side: CompareSide, input: string) => {
+      const failed = (error: string) =>
+        setSide(side, { ...EMPTY_PACKAGE, loadingState: 'error', error, sourceInput: input, label: input });
+
+      setSide(side, { ...EMPTY_PACKAGE, loadingState: 'loading', sourceInput: input, label: input });
+
+      try {
+        const fetchResult = await fetchCrx(input);
+        if (!fetchResult.success) {
+          failed(fetchResult.error);
+          return;
+        }
+
+        const result = await openForCompare(fetchResult.data, fetchResult.source, {
+          extensionId: fetchResult.extensionId,
+          store: fetchResult.store,
+        });
+        if (!result.success) {
+          failed(result.error);
+          return;
+        }
+
+        setSide(side, {
+          loadingState: 'success',
+          error: null,
+          crx: result.crx,
+          sourceInput: input,
+          label: fetchResult.extensionId,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        failed(`Failed to load CRX from URL: ${message}`);
+      }
+    },
+
+    loadFromFile: async (side: CompareSide, file: File) => {
+      const failed = (error: string) =>
+        setSide(side, { ...EMPTY_PACKAGE, loadingState: 'error', error, label: file.name });
+
+      setSide(side, { ...EMPTY_PACKAGE, loadingState: 'loading', label: file.name });
+
+      try {
+        const result = await openForCompare(await file.arrayBuffer(), 'upload');
+        if (!result.success) {
+          failed(result.error);
+          return;
+        }
+
+        setSide(side, {
+          loadingState: 'success',
+          error: null,
+          crx: result.crx,
+          sourceInput: null,
+          label: file.name,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        failed(`Failed to load package: ${message}`);
+      }
+    },
+
+    selectPath: (path: string | null) => {
+      set({ selectedPath: path });
+    },
+
+    setViewMode: (mode: DiffViewMode) => {
+      set({ viewMode: mode });
+    },
+
+    setShowUnchanged: (show: boolean) => {
+      set({ showUnchanged: show });
+    },
+
+    swapSides: () => {
+      set((state) => ({ left: state.right, right: state.left }));
+    },
+
+    reset: () => {
+      set({
+        left: EMPTY_PACKAGE,
+        right: EMPTY_PACKAGE,
+        selectedPath: null,
+        viewMode: 'split',
+        showUnchanged: false,
+      });
+    },
+  };
+});
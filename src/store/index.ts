@@ -4,5 +4,9 @@
 
 export { useViewerStore } from './viewerStore';
 export { useSearchStore } from './searchStore';
+export { useCompareStore } from './compareStore';
+export { useAnnotationStore } from './annotationStore';
 export type { } from './viewerStore';
 export type { SearchState } from './searchStore';
+export type { CompareState, CompareSide, ComparePackage, DiffViewMode } from './compareStore';
+export type { AnnotationState, AnnotationImportOutcome } from './annotationStore';
@@ -3,18 +3,19 @@
  */
 
 import { create } from 'zustand';
-import type { ViewerState, LoadedCrx } from '@/types/index';
-import { downloadCrx } from '@/lib/crx/download';
-import { crxToZip } from '@/lib/crx/zip-converter';
-import { extractZipEntries } from '@/lib/zip/extractor';
-import { buildFileTree } from '@/lib/zip/file-tree';
-import { extractExtensionId } from '@/lib/crx/url-patterns';
+import type { LoadCrxOptions, ViewerState } from '@/types/index';
+import { addToLibrary, fetchCrx, openCrx } from '@/lib/crx/loader';
+import { getEntryStore, openLibraryEntry } from '@/lib/library/library-db';
+import type { FetchCrxOptions } from '@/lib/crx/loader';
 
 /**
  * Create the viewer store with complete state management
  * 
  * Handles:
- * - Loading CRX files from data or by downloading from Chrome Web Store
+ * - Loading CRX, XPI and ZIP files from local data (named after the ID derived from the
+ *   package), the local library or by downloading from the Chrome Web Store, Microsoft
+ *   Edge Add-ons or Firefox Add-ons
+ * - Keeping loaded packages in the local library
  * - Managing file selection and filtering
  * - Error handling and state reset
  */
@@ -23,91 +24,59 @@ export const useViewerStore = create<ViewerState>((set) => ({
   error: null,
   crx: null,
   selectedFilePath: null,
+  selectedLine: null,
   fileFilter: '',
 
-  loadCrx: async (extensionId: string, crxData: ArrayBuffer) => {
+  loadCrx: async (crxData: ArrayBuffer, options: LoadCrxOptions = {}) => {
     set({ loadingState: 'loading', error: null });
 
-    try {
-      // Convert CRX to ZIP
-      const zipResult = crxToZip(crxData);
-      if (!zipResult.success) {
-        set({
-          loadingState: 'error',
-          error: zipResult.error,
-        });
-        return;
-      }
-
-      // Extract ZIP entries
-      const entriesResult = await extractZipEntries(zipResult.zipData);
-      if (!entriesResult.success) {
-        set({
-          loadingState: 'error',
-          error: entriesResult.error,
-        });
-        return;
-      }
-
-      // Build file tree
-      const fileTree = buildFileTree(entriesResult.files);
-
-      // Create loaded CRX object
-      const loadedCrx: LoadedCrx = {
-        extensionId,
-        fileName: `${extensionId}.crx`,
-        loadedAt: new Date(),
-        crxData,
-        zipData: zipResult.zipData,
-        fileTree,
-        fileCache: new Map(),
-      };
-
-      set({
-        loadingState: 'success',
-        crx: loadedCrx,
-        selectedFilePath: null,
-        fileFilter: '',
-        error: null,
-      });
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
+    const { source = 'upload', ...openOptions } = options;
+    const result = await openCrx(crxData, openOptions);
+    if (!result.success) {
       set({
         loadingState: 'error',
-        error: `Failed to load CRX: ${message}`,
+        error: result.error,
       });
+      return;
+    }
+
+    set({
+      loadingState: 'success',
+      crx: result.crx,
+      selectedFilePath: null,
+      selectedLine: null,
+      fileFilter: '',
+      error: null,
+    });
+
+    // Keep the package for later; the library is optional, so failures are only logged
+    const saveResult = await addToLibrary(result.crx, source);
+    if (!saveResult.success) {
+      console.warn(saveResult.error);
     }
   },
 
-  loadCrxFromUrl: async (input: string) => {
+  loadCrxFromUrl: async (input: string, options?: FetchCrxOptions) => {
     set({ loadingState: 'loading', error: null });
 
     try {
-      // Extract extension ID from URL
-      const idResult = extractExtensionId(input);
-      if (!idResult.success) {
-        set({
-          loadingState: 'error',
-          error: idResult.error,
-        });
-        return;
-      }
-
-      const { extensionId } = idResult;
-
-      // Download CRX from Chrome Web Store
-      const downloadResult = await downloadCrx(extensionId);
-      if (!downloadResult.success) {
+      // Resolve the extension ID and get the package from the library or its store
+      const fetchResult = await fetchCrx(input, options);
+      if (!fetchResult.success) {
         set({
           loadingState: 'error',
-          error: downloadResult.error,
+          error: fetchResult.error,
         });
         return;
       }
 
       // Load the downloaded CRX
       const state = useViewerStore.getState();
-      await state.loadCrx(extensionId, downloadResult.data);
+      await state.loadCrx(fetchResult.data, {
+        extensionId: fetchResult.extensionId,
+        source: fetchResult.source,
+        store: fetchResult.store,
+      });
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       set({
@@ -117,8 +86,29 @@ export const useViewerStore = create<ViewerState>((set) => ({
     }
   },
 
-  selectFile: (path: string) => {
-    set({ selectedFilePath: path });
+  openFromLibrary: async (entryId: string) => {
+    set({ loadingState: 'loading', error: null });
+
+    const result = await openLibraryEntry(entryId);
+    if (!result.success) {
+      set({
+        loadingState: 'error',
+        error: result.error,
+      });
+      return;
+    }
+
+    const { entry, crxData } = result.value;
+    const state = useViewerStore.getState();
+    await state.loadCrx(crxData, {
+      extensionId: entry.extensionId,
+      source: entry.source,
+      store: getEntryStore(entry),
+    });
+  },
+
+  selectFile: (path: string, line?: number) => {
+    set({ selectedFilePath: path, selectedLine: line ?? null });
   },
 
   setFileFilter: (filter: string) => {
@@ -135,6 +125,7 @@ export const useViewerStore = create<ViewerState>((set) => ({
       error: null,
       crx: null,
       selectedFilePath: null,
+      selectedLine: null,
       fileFilter: '',
     });
   },
@@ -3,6 +3,11 @@
  */
 
 import type { FileTreeNode } from '@/lib/zip/file-tree';
+import type { CrxSignatureStatus } from '@/lib/crx/signature';
+import type { ExtensionStore } from '@/lib/crx/url-patterns';
+import type { PackageFormat } from '@/lib/crx/zip-converter';
+import type { FetchCrxOptions, OpenCrxOptions } from '@/lib/crx/loader';
+import type { LibrarySource } from '@/lib/library/library-db';
 
 /**
  * Represents the state of a loaded CRX file
@@ -15,6 +20,12 @@ export interface LoadedCrx {
   zipData: ArrayBuffer;
   fileTree: FileTreeNode;
   fileCache: Map<string, Uint8Array>;
+  /** Signature verification status, or null if it could not be determined */
+  signature: CrxSignatureStatus | null;
+  /** Container format: CRX, or a plain ZIP / XPI package */
+  format: PackageFormat;
+  /** Store the package was downloaded from; null for uploads */
+  store: ExtensionStore | null;
 }
 
 /**
@@ -22,6 +33,14 @@ export interface LoadedCrx {
  */
 export type LoadingState = 'idle' | 'loading' | 'success' | 'error';
 
+/**
+ * Options for loading package data into the viewer
+ */
+export interface LoadCrxOptions extends OpenCrxOptions {
+  /** Where the bytes came from; defaults to a local upload */
+  source?: LibrarySource;
+}
+
 /**
  * Viewer application state
  */
@@ -33,12 +52,15 @@ export interface ViewerState {
 
   // UI state
   selectedFilePath: string | null;
+  /** 1-based line to reveal in the selected file, if any */
+  selectedLine: number | null;
   fileFilter: string;
 
   // Actions
-  loadCrx: (extensionId: string, crxData: ArrayBuffer) => Promise<void>;
-  loadCrxFromUrl: (input: string) => Promise<void>;
-  selectFile: (path: string) => void;
+  loadCrx: (crxData: ArrayBuffer, options?: LoadCrxOptions) => Promise<void>;
+  loadCrxFromUrl: (input: string, options?: FetchCrxOptions) => Promise<void>;
+  openFromLibrary: (entryId: string) => Promise<void>;
+  selectFile: (path: string, line?: number) => void;
   setFileFilter: (filter: string) => void;
   clearError: () => void;
   reset: () => void;
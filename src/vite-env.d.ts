@@ -3,6 +3,11 @@
 interface ImportMetaEnv {
   readonly VITE_PASSWORD_PROTECTED?: string;
   readonly VITE_APP_PASSWORD?: string;
+  readonly VITE_CORS_PROXY_URL?: string;
+  readonly VITE_UPDATE_SERVER_URL?: string;
+  readonly VITE_PRODVERSION?: string;
+  readonly VITE_DOWNLOAD_STRATEGIES?: string;
+  readonly VITE_ARCHIVE_URL?: string;
 }
 
 interface ImportMeta {